@@ -34,11 +34,8 @@ export async function up(knex: Knex): Promise<void> {
       table.text('description');
       table.specificType('status', 'project_status_enum').notNullable().defaultTo(ProjectStatus.PLANNING);
 
-      // Relationships
-      table.uuid('team_id').notNullable().references('id')
-        .inTable('teams')
-        .onDelete('CASCADE')
-        .onUpdate('CASCADE');
+      // Relationships; the team foreign key is added by 017_create_teams
+      table.uuid('team_id').notNullable();
       
       table.uuid('owner_id').references('id')
         .inTable('users')
@@ -6,7 +6,7 @@
  */
 
 import { Knex } from 'knex'; // v2.4.x
-import { TaskPriority, TaskStatus } from '../../shared/interfaces/task.interface';
+import { TaskPriority, TaskStatus, TaskDependencyType } from '../../shared/interfaces/task.interface';
 
 /**
  * Creates tasks schema with all required tables and constraints
@@ -28,6 +28,12 @@ export async function up(knex: Knex): Promise<void> {
         '${TaskPriority.HIGH}',
         '${TaskPriority.URGENT}'
       );
+
+      CREATE TYPE task_dependency_type AS ENUM (
+        '${TaskDependencyType.BLOCKS}',
+        '${TaskDependencyType.RELATES_TO}',
+        '${TaskDependencyType.DUPLICATES}'
+      );
     EXCEPTION
       WHEN duplicate_object THEN null;
     END $$;
@@ -89,6 +95,20 @@ export async function up(knex: Knex): Promise<void> {
     table.index('activity_type');
   });
 
+  // Create task dependencies table for blocking and related task links
+  await knex.schema.createTable('task_dependencies', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('source_task_id').notNullable().references('id').inTable('tasks').onDelete('CASCADE');
+    table.uuid('target_task_id').notNullable().references('id').inTable('tasks').onDelete('CASCADE');
+    table.specificType('type', 'task_dependency_type').notNullable();
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['source_task_id', 'target_task_id', 'type']);
+    table.index(['target_task_id', 'type']);
+    table.check('source_task_id <> target_task_id', [], 'chk_task_dependencies_not_self');
+  });
+
   // Create GiST index for array operations
   await knex.raw(`
     CREATE INDEX idx_tasks_assignee_ids ON tasks USING GIN (assignee_ids);
@@ -150,6 +170,7 @@ export async function up(knex: Knex): Promise<void> {
  */
 export async function down(knex: Knex): Promise<void> {
   // Drop tables in reverse order
+  await knex.schema.dropTableIfExists('task_dependencies');
   await knex.schema.dropTableIfExists('task_activities');
   await knex.schema.dropTableIfExists('task_comments');
   await knex.schema.dropTableIfExists('tasks');
@@ -158,6 +179,7 @@ export async function down(knex: Knex): Promise<void> {
   await knex.raw(`
     DROP TYPE IF EXISTS task_status;
     DROP TYPE IF EXISTS task_priority;
+    DROP TYPE IF EXISTS task_dependency_type;
   `);
 
   // Drop triggers and functions
@@ -0,0 +1,78 @@
+/**
+ * Database migration for configurable per-project task workflows
+ * Version: 1.0.0
+ * Replaces the fixed task_status enum with free-form workflow status keys and
+ * seeds every existing project with the default workflow definition
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+import { TaskStatus } from '../../shared/interfaces/task.interface';
+import { DEFAULT_TASK_WORKFLOW } from '../../shared/utils/workflow.util';
+
+/**
+ * Converts task status to a workflow key column and backfills project workflows
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    // The partial index depends on the enum type and must be rebuilt
+    await trx.raw('DROP INDEX IF EXISTS idx_tasks_active');
+
+    await trx.raw(`
+      ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+      ALTER TABLE tasks ALTER COLUMN status TYPE varchar(50) USING status::text;
+      ALTER TABLE tasks ALTER COLUMN status SET DEFAULT '${TaskStatus.TODO}';
+      DROP TYPE IF EXISTS task_status;
+    `);
+
+    await trx.raw(`
+      ALTER TABLE tasks
+      ADD CONSTRAINT chk_tasks_status_key
+      CHECK (status ~ '^[A-Z][A-Z0-9_]{0,49}$');
+    `);
+
+    // Status keys are project specific, so index them per project
+    await trx.raw('CREATE INDEX idx_tasks_project_status ON tasks (project_id, status)');
+
+    // Give every project an explicit copy of the default workflow
+    // (the jsonb ? operator is escaped so knex does not treat it as a binding)
+    await trx.raw(
+      `UPDATE projects
+       SET settings = jsonb_set(settings, '{workflow}', ?::jsonb, true)
+       WHERE NOT (settings \\? 'workflow')`,
+      [JSON.stringify(DEFAULT_TASK_WORKFLOW)]
+    );
+  });
+}
+
+/**
+ * Restores the fixed task_status enum, mapping custom statuses back to TODO
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    const defaultStatuses = Object.values(TaskStatus);
+
+    await trx.raw('DROP INDEX IF EXISTS idx_tasks_project_status');
+    await trx.raw('ALTER TABLE tasks DROP CONSTRAINT IF EXISTS chk_tasks_status_key');
+
+    await trx.raw(
+      `UPDATE tasks SET status = ? WHERE status NOT IN (${defaultStatuses.map(() => '?').join(', ')})`,
+      [TaskStatus.TODO, ...defaultStatuses]
+    );
+
+    await trx.raw(`
+      CREATE TYPE task_status AS ENUM (
+        ${defaultStatuses.map((status) => `'${status}'`).join(', ')}
+      );
+      ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+      ALTER TABLE tasks ALTER COLUMN status TYPE task_status USING status::task_status;
+      ALTER TABLE tasks ALTER COLUMN status SET DEFAULT '${TaskStatus.TODO}';
+    `);
+
+    await trx.raw(`
+      CREATE INDEX idx_tasks_active ON tasks (project_id, status)
+      WHERE status != '${TaskStatus.DONE}';
+    `);
+
+    await trx.raw(`UPDATE projects SET settings = settings - 'workflow'`);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+/**
+ * Database migration for subtasks and task checklists
+ * Version: 1.0.0
+ * Adds the parent/child task hierarchy and lightweight checklist items
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Adds parent task reference and checklist items table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('tasks', (table) => {
+      table.uuid('parent_task_id').nullable().references('id').inTable('tasks').onDelete('CASCADE');
+      table.index(['parent_task_id'], 'idx_tasks_parent_task_id');
+    });
+
+    await trx.raw(`
+      ALTER TABLE tasks
+      ADD CONSTRAINT chk_tasks_parent_not_self
+      CHECK (parent_task_id IS NULL OR parent_task_id <> id);
+    `);
+
+    await trx.schema.createTable('task_checklist_items', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('task_id').notNullable().references('id').inTable('tasks').onDelete('CASCADE');
+      table.string('content', 255).notNullable();
+      table.boolean('is_completed').notNullable().defaultTo(false);
+      table.integer('position').notNullable().defaultTo(0);
+      table.uuid('completed_by');
+      table.timestamp('completed_at');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+      table.index(['task_id', 'position']);
+    });
+
+    await trx.raw(`
+      CREATE TRIGGER update_task_checklist_items_updated_at
+        BEFORE UPDATE ON task_checklist_items
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  });
+}
+
+/**
+ * Removes checklist items and the task hierarchy
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('task_checklist_items');
+    await trx.raw('ALTER TABLE tasks DROP CONSTRAINT IF EXISTS chk_tasks_parent_not_self');
+
+    await trx.schema.alterTable('tasks', (table) => {
+      table.dropIndex(['parent_task_id'], 'idx_tasks_parent_task_id');
+      table.dropColumn('parent_task_id');
+    });
+  });
+}
\ No newline at end of file
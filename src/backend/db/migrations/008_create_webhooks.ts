@@ -0,0 +1,84 @@
+/**
+ * Database migration for outbound project webhooks
+ * Version: 1.0.0
+ * Adds webhook subscriptions and the delivery log that doubles as the retry queue
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Creates webhook subscription and delivery tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      CREATE TYPE webhook_delivery_status AS ENUM (
+        'PENDING',
+        'RETRYING',
+        'SUCCEEDED',
+        'FAILED'
+      );
+    `);
+
+    await trx.schema.createTable('webhook_subscriptions', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+      table.string('url', 2048).notNullable();
+      table.string('secret', 128).notNullable();
+      table.specificType('events', 'text[]').notNullable();
+      table.string('description', 255);
+      table.boolean('is_active').notNullable().defaultTo(true);
+      table.uuid('created_by').notNullable().references('id').inTable('users');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+      table.index(['project_id', 'is_active']);
+    });
+
+    await trx.schema.createTable('webhook_deliveries', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('subscription_id').notNullable()
+        .references('id').inTable('webhook_subscriptions').onDelete('CASCADE');
+      table.uuid('event_id').notNullable();
+      table.string('event_type', 64).notNullable();
+      table.jsonb('payload').notNullable();
+      table.specificType('status', 'webhook_delivery_status').notNullable().defaultTo('PENDING');
+      table.integer('attempts').notNullable().defaultTo(0);
+      table.integer('response_status');
+      table.text('response_body');
+      table.text('error');
+      table.integer('duration_ms');
+      table.timestamp('next_attempt_at');
+      table.timestamp('delivered_at');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+      table.unique(['subscription_id', 'event_id']);
+      table.index(['subscription_id', 'created_at']);
+    });
+
+    // Only deliveries still waiting to be sent are scanned by the dispatcher
+    await trx.raw(`
+      CREATE INDEX idx_webhook_deliveries_due
+      ON webhook_deliveries (next_attempt_at)
+      WHERE status IN ('PENDING', 'RETRYING');
+    `);
+
+    await trx.raw(`
+      CREATE TRIGGER update_webhook_subscriptions_updated_at
+        BEFORE UPDATE ON webhook_subscriptions
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  });
+}
+
+/**
+ * Removes webhook tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('webhook_deliveries');
+    await trx.schema.dropTableIfExists('webhook_subscriptions');
+    await trx.raw('DROP TYPE IF EXISTS webhook_delivery_status');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * Database migration for full-text search
+ * Version: 1.0.0
+ * Adds weighted tsvector columns to tasks, projects and task comments, kept
+ * current by triggers and backed by GIN indexes
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Adds search vectors, their maintenance triggers and indexes
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      ALTER TABLE tasks ADD COLUMN search_vector tsvector;
+      ALTER TABLE projects ADD COLUMN search_vector tsvector;
+      ALTER TABLE task_comments ADD COLUMN search_vector tsvector;
+    `);
+
+    // Titles and names rank above tags, which rank above free text
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION tasks_search_vector_update()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.search_vector :=
+          setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+          setweight(to_tsvector('english', array_to_string(coalesce(NEW.tags, '{}'), ' ')), 'B') ||
+          setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE OR REPLACE FUNCTION projects_search_vector_update()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.search_vector :=
+          setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE OR REPLACE FUNCTION task_comments_search_vector_update()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.search_vector := setweight(to_tsvector('english', coalesce(NEW.content, '')), 'C');
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER trg_tasks_search_vector
+        BEFORE INSERT OR UPDATE OF title, description, tags ON tasks
+        FOR EACH ROW
+        EXECUTE FUNCTION tasks_search_vector_update();
+
+      CREATE TRIGGER trg_projects_search_vector
+        BEFORE INSERT OR UPDATE OF name, description ON projects
+        FOR EACH ROW
+        EXECUTE FUNCTION projects_search_vector_update();
+
+      CREATE TRIGGER trg_task_comments_search_vector
+        BEFORE INSERT OR UPDATE OF content ON task_comments
+        FOR EACH ROW
+        EXECUTE FUNCTION task_comments_search_vector_update();
+    `);
+
+    // Backfill existing rows through the triggers without touching updated_at
+    await trx.raw(`
+      ALTER TABLE tasks DISABLE TRIGGER update_tasks_updated_at;
+      ALTER TABLE projects DISABLE TRIGGER trg_projects_updated_at;
+      ALTER TABLE task_comments DISABLE TRIGGER update_task_comments_updated_at;
+
+      UPDATE tasks SET title = title;
+      UPDATE projects SET name = name;
+      UPDATE task_comments SET content = content;
+
+      ALTER TABLE tasks ENABLE TRIGGER update_tasks_updated_at;
+      ALTER TABLE projects ENABLE TRIGGER trg_projects_updated_at;
+      ALTER TABLE task_comments ENABLE TRIGGER update_task_comments_updated_at;
+    `);
+
+    await trx.raw(`
+      CREATE INDEX idx_tasks_search_vector ON tasks USING gin (search_vector);
+      CREATE INDEX idx_projects_search_vector ON projects USING gin (search_vector);
+      CREATE INDEX idx_task_comments_search_vector ON task_comments USING gin (search_vector);
+    `);
+  });
+}
+
+/**
+ * Removes search vectors, triggers and indexes
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      DROP TRIGGER IF EXISTS trg_tasks_search_vector ON tasks;
+      DROP TRIGGER IF EXISTS trg_projects_search_vector ON projects;
+      DROP TRIGGER IF EXISTS trg_task_comments_search_vector ON task_comments;
+
+      DROP FUNCTION IF EXISTS tasks_search_vector_update();
+      DROP FUNCTION IF EXISTS projects_search_vector_update();
+      DROP FUNCTION IF EXISTS task_comments_search_vector_update();
+
+      ALTER TABLE tasks DROP COLUMN IF EXISTS search_vector;
+      ALTER TABLE projects DROP COLUMN IF EXISTS search_vector;
+      ALTER TABLE task_comments DROP COLUMN IF EXISTS search_vector;
+    `);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+/**
+ * Database migration for file ownership
+ * Version: 1.0.0
+ * Links every file to its uploader and owning project or task, and drops the
+ * stored public URL in favour of short-lived signed download URLs
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Adds uploader and parent entity columns to files
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('files', (table) => {
+      table.uuid('uploaded_by').nullable().references('id').inTable('users').onDelete('SET NULL');
+      table.uuid('project_id').nullable().references('id').inTable('projects').onDelete('CASCADE');
+      // Files outlive the task they were attached to and fall back to the project
+      table.uuid('task_id').nullable().references('id').inTable('tasks').onDelete('SET NULL');
+
+      table.index(['project_id'], 'idx_files_project_id');
+      table.index(['task_id'], 'idx_files_task_id');
+    });
+
+    // Existing attachments inherit their task and project from tasks.attachment_ids
+    await trx.raw(`
+      UPDATE files f
+      SET task_id = t.id, project_id = t.project_id, uploaded_by = t.creator_id
+      FROM tasks t
+      WHERE f.id = ANY(t.attachment_ids)
+    `);
+
+    await trx.raw(`
+      ALTER TABLE files
+      ADD CONSTRAINT chk_files_task_has_project
+      CHECK (task_id IS NULL OR project_id IS NOT NULL);
+    `);
+
+    await trx.schema.alterTable('files', (table) => {
+      table.dropColumn('url');
+    });
+  });
+}
+
+/**
+ * Removes file ownership columns and restores the public URL column
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('files', (table) => {
+      table.string('url', 2048).nullable().comment('Public access URL for the file');
+    });
+
+    await trx.raw('ALTER TABLE files DROP CONSTRAINT IF EXISTS chk_files_task_has_project');
+
+    await trx.schema.alterTable('files', (table) => {
+      table.dropIndex(['project_id'], 'idx_files_project_id');
+      table.dropIndex(['task_id'], 'idx_files_task_id');
+      table.dropColumn('task_id');
+      table.dropColumn('project_id');
+      table.dropColumn('uploaded_by');
+    });
+  });
+}
\ No newline at end of file
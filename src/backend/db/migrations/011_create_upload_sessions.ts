@@ -0,0 +1,74 @@
+/**
+ * Database migration for resumable uploads
+ * Version: 1.0.0
+ * Tracks chunked upload sessions until their chunks are assembled into a file
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Creates the upload sessions table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      CREATE TYPE upload_session_status AS ENUM (
+        'ACTIVE',
+        'COMPLETING',
+        'COMPLETED',
+        'ABORTED'
+      );
+    `);
+
+    await trx.schema.createTable('upload_sessions', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('uploaded_by').notNullable().references('id').inTable('users').onDelete('CASCADE');
+      table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+      table.uuid('task_id').nullable().references('id').inTable('tasks').onDelete('SET NULL');
+      table.string('original_name', 255).notNullable();
+      table.string('mime_type', 127).notNullable();
+      table.bigInteger('size').notNullable();
+      table.integer('chunk_size').notNullable();
+      table.integer('total_chunks').notNullable();
+      table.specificType('received_chunks', 'integer[]').notNullable().defaultTo('{}');
+      table.string('checksum', 64);
+      table.specificType('status', 'upload_session_status').notNullable().defaultTo('ACTIVE');
+      table.uuid('file_id').nullable().references('id').inTable('files').onDelete('SET NULL');
+      table.timestamp('expires_at', { useTz: true }).notNullable();
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+      table.index(['uploaded_by', 'status']);
+    });
+
+    await trx.raw(`
+      ALTER TABLE upload_sessions
+      ADD CONSTRAINT chk_upload_sessions_chunks
+      CHECK (size > 0 AND chunk_size > 0 AND total_chunks = CEIL(size::numeric / chunk_size));
+    `);
+
+    // Only sessions still accepting chunks are scanned for expiry
+    await trx.raw(`
+      CREATE INDEX idx_upload_sessions_expiry
+      ON upload_sessions (expires_at)
+      WHERE status = 'ACTIVE';
+    `);
+
+    await trx.raw(`
+      CREATE TRIGGER update_upload_sessions_updated_at
+        BEFORE UPDATE ON upload_sessions
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  });
+}
+
+/**
+ * Removes the upload sessions table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('upload_sessions');
+    await trx.raw('DROP TYPE IF EXISTS upload_session_status');
+  });
+}
\ No newline at end of file
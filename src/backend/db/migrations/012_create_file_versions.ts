@@ -0,0 +1,58 @@
+/**
+ * Database migration for file versioning
+ * Version: 1.0.0
+ * Keeps every uploaded revision of a file so earlier versions can be listed,
+ * downloaded and restored while the file keeps its id
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Creates the file versions table and records existing files as version 1
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('files', (table) => {
+      table.integer('current_version').notNullable().defaultTo(1);
+      table.string('checksum', 64).nullable().comment('SHA-256 of the current version');
+    });
+
+    await trx.schema.createTable('file_versions', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('file_id').notNullable().references('id').inTable('files').onDelete('CASCADE');
+      table.integer('version').notNullable();
+      // Restored versions point at the content of the version they restore
+      table.string('path', 1024).notNullable();
+      table.string('original_name', 255).notNullable();
+      table.string('mime_type', 127).notNullable();
+      table.bigInteger('size').notNullable();
+      table.string('checksum', 64).nullable();
+      table.uuid('uploaded_by').nullable().references('id').inTable('users').onDelete('SET NULL');
+      table.integer('restored_from').nullable();
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+      table.unique(['file_id', 'version'], { indexName: 'uq_file_versions_file_version' });
+    });
+
+    // Checksums were not stored before versioning, so existing versions have none
+    await trx.raw(`
+      INSERT INTO file_versions (file_id, version, path, original_name, mime_type, size, uploaded_by, created_at)
+      SELECT id, 1, path, original_name, mime_type, size, uploaded_by, created_at
+      FROM files
+    `);
+  });
+}
+
+/**
+ * Removes the file versions table and version columns
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('file_versions');
+
+    await trx.schema.alterTable('files', (table) => {
+      table.dropColumn('checksum');
+      table.dropColumn('current_version');
+    });
+  });
+}
\ No newline at end of file
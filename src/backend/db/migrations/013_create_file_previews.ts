@@ -0,0 +1,46 @@
+/**
+ * Database migration for file previews
+ * Version: 1.0.0
+ * Stores thumbnails and first-page previews derived from image and PDF files
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Creates the file previews table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      CREATE TYPE file_preview_kind AS ENUM (
+        'THUMBNAIL',
+        'PREVIEW'
+      );
+    `);
+
+    await trx.schema.createTable('file_previews', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('file_id').notNullable().references('id').inTable('files').onDelete('CASCADE');
+      table.integer('version').notNullable();
+      table.specificType('kind', 'file_preview_kind').notNullable();
+      table.string('path', 1024).notNullable();
+      table.string('mime_type', 127).notNullable();
+      table.integer('width').notNullable();
+      table.integer('height').notNullable();
+      table.integer('size').notNullable();
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+      table.unique(['file_id', 'version', 'kind'], { indexName: 'uq_file_previews_file_version_kind' });
+    });
+  });
+}
+
+/**
+ * Removes the file previews table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('file_previews');
+    await trx.raw('DROP TYPE IF EXISTS file_preview_kind');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * Database migration for password reset tokens
+ * Version: 1.0.0
+ * Stores SHA-256 hashes of single-use password reset tokens; the raw token
+ * only ever exists in the email sent to the user
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Creates the password reset tokens table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.createTable('password_reset_tokens', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+      table.string('token_hash', 64).notNullable().unique();
+      table.timestamp('expires_at', { useTz: true }).notNullable();
+      table.timestamp('used_at', { useTz: true }).nullable();
+      table.string('requested_ip', 45);
+      table.string('requested_user_agent', 512);
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+    });
+
+    // Issuing a new token invalidates the user's outstanding ones
+    await trx.raw(`
+      CREATE INDEX idx_password_reset_tokens_outstanding
+      ON password_reset_tokens (user_id)
+      WHERE used_at IS NULL;
+    `);
+  });
+}
+
+/**
+ * Removes the password reset tokens table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('password_reset_tokens');
+  });
+}
\ No newline at end of file
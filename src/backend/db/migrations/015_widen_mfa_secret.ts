@@ -0,0 +1,42 @@
+/**
+ * Database migration for MFA enrollment
+ * Version: 1.0.0
+ * Widens mfa_secret to hold the AES-GCM encrypted secret with its auth tag,
+ * which no longer fits in 64 characters
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Widens the MFA secret column and defaults the method list to empty
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('users', (table) => {
+      table.string('mfa_secret', 255).alter();
+    });
+
+    await trx.raw(`UPDATE users SET mfa_methods = '{}' WHERE mfa_methods IS NULL`);
+    await trx.raw(`ALTER TABLE users ALTER COLUMN mfa_methods SET DEFAULT '{}'`);
+  });
+}
+
+/**
+ * Restores the original MFA secret column size
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw('ALTER TABLE users ALTER COLUMN mfa_methods DROP DEFAULT');
+
+    // Encrypted secrets do not fit the old size, so enrolled users must enroll again
+    await trx.raw(`
+      UPDATE users
+      SET mfa_secret = NULL, mfa_enabled = false, mfa_backup_codes = NULL, mfa_methods = NULL
+      WHERE length(mfa_secret) > 64
+    `);
+
+    await trx.schema.alterTable('users', (table) => {
+      table.string('mfa_secret', 64).alter();
+    });
+  });
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Database migration for SAML single sign-on
+ * Version: 1.0.0
+ * Stores each organisation's SAML identity provider configuration and allows
+ * accounts to be linked to a SAML identity
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+import { UserRole } from '../../shared/interfaces/auth.interface';
+
+/**
+ * Creates the SAML connections table
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Enum values cannot be added inside a transaction before PostgreSQL 12
+  await knex.raw(`ALTER TYPE auth_provider ADD VALUE IF NOT EXISTS 'saml'`);
+
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.createTable('saml_connections', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.string('organization', 63).notNullable().unique();
+      table.string('name', 255).notNullable();
+      table.specificType('email_domains', 'text[]').notNullable().defaultTo('{}');
+      table.string('idp_entity_id', 1024).notNullable();
+      table.string('idp_sso_url', 2048).notNullable();
+      table.text('idp_certificate').notNullable();
+      table.jsonb('attribute_mapping').notNullable();
+      table.jsonb('role_mapping').notNullable().defaultTo('{}');
+      table.enum('default_role', Object.values(UserRole)).notNullable().defaultTo(UserRole.TEAM_MEMBER);
+      table.boolean('allow_idp_initiated').notNullable().defaultTo(false);
+      table.boolean('enabled').notNullable().defaultTo(true);
+      table.uuid('updated_by').nullable().references('id').inTable('users').onDelete('SET NULL');
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+    });
+  });
+}
+
+/**
+ * Removes the SAML connections table. PostgreSQL cannot drop an enum value,
+ * so 'saml' stays in auth_provider.
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`UPDATE users SET oauth_provider = NULL, oauth_id = NULL WHERE oauth_provider = 'saml'`);
+    await trx.schema.dropTableIfExists('saml_connections');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * Database migration for teams
+ * Version: 1.0.0
+ * Adds teams with their settings, team memberships and the team audit log, and
+ * links projects to the team that owns them
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+import {
+  DEFAULT_TEAM_NOTIFICATION_SETTINGS,
+  TeamRole,
+  TeamStatus,
+  TEAM_MAX_MEMBERS,
+  TEAM_MIN_MEMBERS
+} from '../../shared/interfaces/team.interface';
+
+/**
+ * Creates team, membership and audit tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      CREATE TYPE team_role AS ENUM ('${Object.values(TeamRole).join("', '")}');
+      CREATE TYPE team_status AS ENUM ('${Object.values(TeamStatus).join("', '")}');
+    `);
+
+    await trx.schema.createTable('teams', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.string('name', 100).notNullable();
+      table.text('description');
+      table.uuid('owner_id').notNullable().references('id').inTable('users');
+      table.specificType('status', 'team_status').notNullable().defaultTo(TeamStatus.ACTIVE);
+
+      // Settings are one-to-one with the team, so they live on the same row
+      table.boolean('is_private').notNullable().defaultTo(false);
+      table.boolean('allow_invites').notNullable().defaultTo(true);
+      table.jsonb('notification_settings').notNullable()
+        .defaultTo(JSON.stringify(DEFAULT_TEAM_NOTIFICATION_SETTINGS));
+      table.integer('max_members').notNullable().defaultTo(50);
+      table.specificType('default_member_role', 'team_role').notNullable().defaultTo(TeamRole.MEMBER);
+
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+      table.index(['owner_id']);
+    });
+
+    await trx.raw(`
+      ALTER TABLE teams
+      ADD CONSTRAINT chk_teams_max_members
+      CHECK (max_members BETWEEN ${TEAM_MIN_MEMBERS} AND ${TEAM_MAX_MEMBERS});
+
+      ALTER TABLE teams
+      ADD CONSTRAINT chk_teams_default_member_role
+      CHECK (default_member_role <> '${TeamRole.OWNER}');
+    `);
+
+    await trx.schema.createTable('team_members', (table) => {
+      table.uuid('team_id').notNullable().references('id').inTable('teams').onDelete('CASCADE');
+      table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+      table.specificType('role', 'team_role').notNullable().defaultTo(TeamRole.MEMBER);
+      table.timestamp('joined_at').notNullable().defaultTo(knex.fn.now());
+
+      table.primary(['team_id', 'user_id']);
+      table.index(['user_id']);
+    });
+
+    // A team has exactly one owner
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_team_members_owner
+      ON team_members (team_id)
+      WHERE role = '${TeamRole.OWNER}';
+    `);
+
+    await trx.schema.createTable('team_audit_logs', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('team_id').notNullable().references('id').inTable('teams').onDelete('CASCADE');
+      table.uuid('actor_id').references('id').inTable('users').onDelete('SET NULL');
+      table.string('action', 64).notNullable();
+      table.jsonb('details').notNullable().defaultTo('{}');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+      table.index(['team_id', 'created_at']);
+    });
+
+    await trx.raw(`
+      CREATE TRIGGER update_teams_updated_at
+        BEFORE UPDATE ON teams
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    await trx.raw(`
+      ALTER TABLE projects
+      ADD CONSTRAINT fk_projects_team_id
+      FOREIGN KEY (team_id) REFERENCES teams (id)
+      ON DELETE CASCADE ON UPDATE CASCADE;
+    `);
+  });
+}
+
+/**
+ * Removes team tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw('ALTER TABLE projects DROP CONSTRAINT IF EXISTS fk_projects_team_id');
+    await trx.schema.dropTableIfExists('team_audit_logs');
+    await trx.schema.dropTableIfExists('team_members');
+    await trx.schema.dropTableIfExists('teams');
+    await trx.raw('DROP TYPE IF EXISTS team_status');
+    await trx.raw('DROP TYPE IF EXISTS team_role');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * Database migration for team invitations
+ * Version: 1.0.0
+ * Stores emailed invitations to join a team. Only a keyed hash of each
+ * invitation token is kept; the raw token only exists in the email.
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+import { TeamInvitationStatus, TeamRole } from '../../shared/interfaces/team.interface';
+
+/**
+ * Creates the team invitations table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw(`
+      CREATE TYPE team_invitation_status AS ENUM ('${Object.values(TeamInvitationStatus).join("', '")}');
+    `);
+
+    await trx.schema.createTable('team_invitations', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('team_id').notNullable().references('id').inTable('teams').onDelete('CASCADE');
+      table.uuid('inviter_id').references('id').inTable('users').onDelete('SET NULL');
+      table.string('invitee_email', 255).notNullable();
+      table.specificType('role', 'team_role').notNullable().defaultTo(TeamRole.MEMBER);
+      table.specificType('status', 'team_invitation_status').notNullable()
+        .defaultTo(TeamInvitationStatus.PENDING);
+      table.string('token_hash', 64).notNullable().unique();
+      table.timestamp('expires_at', { useTz: true }).notNullable();
+      table.timestamp('responded_at', { useTz: true });
+      table.uuid('accepted_by').references('id').inTable('users').onDelete('SET NULL');
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(knex.fn.now());
+
+      table.index(['team_id', 'status']);
+    });
+
+    // Invitations never grant ownership, and each address has at most one
+    // pending invitation per team
+    await trx.raw(`
+      ALTER TABLE team_invitations
+      ADD CONSTRAINT chk_team_invitations_role
+      CHECK (role <> '${TeamRole.OWNER}');
+
+      CREATE UNIQUE INDEX idx_team_invitations_pending
+      ON team_invitations (team_id, invitee_email)
+      WHERE status = '${TeamInvitationStatus.PENDING}';
+    `);
+
+    await trx.raw(`
+      CREATE TRIGGER update_team_invitations_updated_at
+        BEFORE UPDATE ON team_invitations
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  });
+}
+
+/**
+ * Removes the team invitations table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('team_invitations');
+    await trx.raw('DROP TYPE IF EXISTS team_invitation_status');
+  });
+}
\ No newline at end of file
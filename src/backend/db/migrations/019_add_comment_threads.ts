@@ -0,0 +1,58 @@
+/**
+ * Database migration for threaded task comments
+ * Version: 1.0.0
+ * Adds reply threads, mentions and soft deletion to task comments, and keeps
+ * the previous text of every edit
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Adds comment thread columns and the comment edit history table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.alterTable('task_comments', (table) => {
+      table.uuid('parent_id').nullable().references('id').inTable('task_comments').onDelete('CASCADE');
+      table.specificType('mentioned_user_ids', 'uuid[]').notNullable().defaultTo('{}');
+      table.timestamp('edited_at');
+      table.timestamp('deleted_at');
+
+      table.index(['parent_id'], 'idx_task_comments_parent_id');
+    });
+
+    await trx.raw(`
+      ALTER TABLE task_comments
+      ADD CONSTRAINT chk_task_comments_parent_not_self
+      CHECK (parent_id IS NULL OR parent_id <> id);
+    `);
+
+    await trx.schema.createTable('task_comment_edits', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('comment_id').notNullable().references('id').inTable('task_comments').onDelete('CASCADE');
+      table.text('content').notNullable();
+      table.uuid('edited_by').notNullable();
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+      table.index(['comment_id', 'created_at']);
+    });
+  });
+}
+
+/**
+ * Removes comment edit history and thread columns
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.schema.dropTableIfExists('task_comment_edits');
+    await trx.raw('ALTER TABLE task_comments DROP CONSTRAINT IF EXISTS chk_task_comments_parent_not_self');
+
+    await trx.schema.alterTable('task_comments', (table) => {
+      table.dropIndex(['parent_id'], 'idx_task_comments_parent_id');
+      table.dropColumn('parent_id');
+      table.dropColumn('mentioned_user_ids');
+      table.dropColumn('edited_at');
+      table.dropColumn('deleted_at');
+    });
+  });
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Database migration for resumable uploads
+ * Version: 1.0.0
+ * Completing sessions hold a lease in expires_at and are cleaned up when it
+ * runs out, so the expiry index covers them too
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+
+/**
+ * Extends the upload session expiry index to completing sessions
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw('DROP INDEX IF EXISTS idx_upload_sessions_expiry');
+    await trx.raw(`
+      CREATE INDEX idx_upload_sessions_expiry
+      ON upload_sessions (expires_at)
+      WHERE status IN ('ACTIVE', 'COMPLETING');
+    `);
+  });
+}
+
+/**
+ * Restores the index over active sessions only
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx: Knex.Transaction) => {
+    await trx.raw('DROP INDEX IF EXISTS idx_upload_sessions_expiry');
+    await trx.raw(`
+      CREATE INDEX idx_upload_sessions_expiry
+      ON upload_sessions (expires_at)
+      WHERE status = 'ACTIVE';
+    `);
+  });
+}
\ No newline at end of file
@@ -4,13 +4,14 @@
  * @version 1.0.0
  */
 
-import express, { Express, Request, Response, NextFunction } from 'express'; // v4.18.2
+import express, { Express, Request, Response, NextFunction, Router } from 'express'; // v4.18.2
 import helmet from 'helmet'; // v6.0.0
 import compression from 'compression'; // v1.7.4
 import { validationResult } from 'express-validator'; // v7.0.0
 import { trace, context, SpanStatusCode } from '@opentelemetry/api'; // v1.0.0
 import { corsConfig } from './config/cors.config';
 import { createRateLimiter } from './config/rate-limit.config';
+import { configureRoutes } from './config/routes.config';
 import { Logger, LogLevel, SecurityEventType, SecuritySeverity } from '../../shared/utils/logger.util';
 import { ErrorCodes, getErrorMessage } from '../../shared/constants/error-codes';
 
@@ -158,7 +159,7 @@ function configureHealthChecks(app: Express): void {
 /**
  * Global error handler
  */
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+function globalErrorHandler(err: any, req: Request, res: Response, next: NextFunction): void {
   const errorCode = err.code || ErrorCodes.SYSTEM_ERROR;
   const statusCode = err.status || 500;
 
@@ -174,7 +175,7 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
     code: errorCode,
     requestId: req['correlationId']
   });
-});
+}
 
 /**
  * Start server with graceful shutdown
@@ -184,6 +185,10 @@ async function startServer(): Promise<void> {
     await configureMiddleware(app);
     configureHealthChecks(app);
 
+    // Proxy service routes, then register the error handler last so it sees their failures
+    app.use(configureRoutes(Router()));
+    app.use(globalErrorHandler);
+
     const server = app.listen(PORT, () => {
       logger.info(`API Gateway started`, {
         port: PORT,
@@ -8,8 +8,14 @@ import { Router } from 'express'; // v4.x
 import rateLimit from 'express-rate-limit'; // v6.x
 import * as prometheus from 'prom-client'; // v14.x
 import CircuitBreaker from 'opossum'; // v6.x
-import { IAuthUser, UserRole } from '../../../shared/interfaces/auth.interface';
-import { ITask, TaskStatus } from '../../../shared/interfaces/task.interface';
+import http, { IncomingMessage, IncomingHttpHeaders } from 'http';
+import https from 'https';
+import { OAuthProvider, UserRole } from '../../../shared/interfaces/auth.interface';
+import { TaskPriority, TaskDependencyType } from '../../../shared/interfaces/task.interface';
+import { TeamRole, TeamStatus } from '../../../shared/interfaces/team.interface';
+import { Logger } from '../../../shared/utils/logger.util';
+import { ErrorCodes, getErrorMessage } from '../../../shared/constants/error-codes';
+import { authenticate, authorize } from '../middleware/auth.middleware';
 
 // HTTP Methods enum for type safety
 export enum HttpMethod {
@@ -34,6 +40,38 @@ export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   keyGenerator: (req) => req.ip
 };
 
+// Upstream service locations, overridable per environment
+export const SERVICE_URLS = {
+  auth: process.env.AUTH_SERVICE_URL || 'http://auth-service:3001',
+  task: process.env.TASK_SERVICE_URL || 'http://task-service:3003',
+  project: process.env.PROJECT_SERVICE_URL || 'http://project-service:3002',
+  team: process.env.TEAM_SERVICE_URL || 'http://team-service:3005',
+  file: process.env.FILE_SERVICE_URL || 'http://file-service:3003',
+  notification: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3003'
+} as const;
+
+// Percentage of failed calls within the rolling window that opens a breaker
+const BREAKER_ERROR_THRESHOLD_PERCENTAGE = 50;
+
+// Headers that describe a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'host'
+];
+
+// Identity headers only the gateway may set; client-supplied values are dropped
+const IDENTITY_HEADERS = ['x-user-id', 'x-user-role'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 // Type definitions for configuration objects
 export type RateLimitConfig = {
   windowMs: number;
@@ -42,11 +80,21 @@ export type RateLimitConfig = {
   keyGenerator: (req: any) => string;
 };
 
+export type FieldRule = {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  format?: 'uuid' | 'email' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  enum?: string[];
+};
+
 export type ValidationSchema = {
-  body?: object;
-  params?: object;
-  query?: object;
-  headers?: object;
+  body?: Record<string, FieldRule>;
+  params?: Record<string, FieldRule>;
+  query?: Record<string, FieldRule>;
+  headers?: Record<string, FieldRule>;
 };
 
 export type CircuitBreakerConfig = {
@@ -59,6 +107,8 @@ export type CircuitBreakerConfig = {
 export interface RouteConfig {
   basePath: string;
   serviceName: string;
+  serviceUrl: string;
+  upstreamPath?: string;
   version: string;
   routes: RouteDefinition[];
   validationRules: ValidationSchema;
@@ -97,6 +147,19 @@ interface ErrorConfig {
 // Interface for middleware chain
 type MiddlewareChain = Array<(req: any, res: any, next: any) => void>;
 
+// Response relayed back to the client, either streamed from the service or buffered
+interface ProxyResponse {
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  stream?: IncomingMessage;
+  body?: Buffer;
+}
+
+// Error raised for upstream 5xx responses so the breaker counts them as failures
+interface UpstreamError extends Error {
+  response?: ProxyResponse;
+}
+
 // Initialize Prometheus metrics
 const httpRequestDuration = new prometheus.Histogram({
   name: 'http_request_duration_seconds',
@@ -105,62 +168,1399 @@ const httpRequestDuration = new prometheus.Histogram({
   buckets: [0.1, 0.5, 1, 2, 5]
 });
 
+const logger = Logger.getInstance('GatewayRoutes', {
+  enableConsole: true,
+  enableFile: true
+});
+
+const ALL_ROLES = [UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER, UserRole.GUEST];
+const MEMBER_ROLES = [UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER];
+const MANAGER_ROLES = [UserRole.ADMIN, UserRole.PROJECT_MANAGER];
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  timeout: 3000,
+  failureThreshold: 5,
+  resetTimeout: 30000
+};
+
+const idParam = (name = 'id'): ValidationSchema => ({
+  params: {
+    [name]: { type: 'string', format: 'uuid', required: true }
+  }
+});
+
+// A six digit TOTP code or an XXXX-XXXX-XXXX backup code
+const MFA_CODE_PATTERN = /^([0-9]{6}|[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}-?[A-Za-z0-9]{4})$/;
+// Organisation identifiers used in SAML sign-in paths
+const ORGANIZATION_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Ownership is never granted through membership changes
+const TEAM_ASSIGNABLE_ROLES = [TeamRole.ADMIN, TeamRole.MEMBER];
+
+const teamMemberParams: Record<string, FieldRule> = {
+  id: { type: 'string', format: 'uuid', required: true },
+  userId: { type: 'string', format: 'uuid', required: true }
+};
+
+const teamInvitationParams: Record<string, FieldRule> = {
+  id: { type: 'string', format: 'uuid', required: true },
+  invitationId: { type: 'string', format: 'uuid', required: true }
+};
+
+// Invitation links are answered without a session, so guessing is throttled
+const TEAM_INVITATION_RATE_LIMIT: RateLimitConfig = {
+  ...DEFAULT_RATE_LIMIT,
+  windowMs: 60 * 60 * 1000,
+  max: 20
+};
+
+const fileVersionParams: ValidationSchema = {
+  params: {
+    id: { type: 'string', format: 'uuid', required: true },
+    version: { type: 'string', pattern: /^\d+$/, required: true }
+  }
+};
+
 // Route configurations for different services
 const routeConfigurations: RouteConfig[] = [
   {
-    basePath: `${BASE_PATH}/tasks`,
-    serviceName: 'task-service',
+    basePath: `${BASE_PATH}/auth`,
+    serviceName: 'auth-service',
+    serviceUrl: SERVICE_URLS.auth,
+    version: API_VERSION,
+    routes: [
+      {
+        path: '/login',
+        method: HttpMethod.POST,
+        handler: 'login',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 5
+        },
+        inputValidation: {
+          body: {
+            email: { type: 'string', format: 'email', required: true, maxLength: 255 },
+            password: { type: 'string', minLength: 8, maxLength: 100, required: true }
+          }
+        }
+      },
+      {
+        path: '/register',
+        method: HttpMethod.POST,
+        handler: 'register',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 60 * 1000,
+          max: 3
+        },
+        inputValidation: {
+          body: {
+            email: { type: 'string', format: 'email', required: true, maxLength: 255 },
+            password: { type: 'string', minLength: 8, maxLength: 100, required: true },
+            confirmPassword: { type: 'string', required: true }
+          }
+        }
+      },
+      {
+        path: '/verify-mfa',
+        method: HttpMethod.POST,
+        handler: 'verifyMFA',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 5 * 60 * 1000,
+          max: 3
+        },
+        inputValidation: {
+          body: {
+            userId: { type: 'string', format: 'uuid', required: true },
+            code: { type: 'string', pattern: MFA_CODE_PATTERN, required: true }
+          }
+        }
+      },
+      {
+        path: '/password-reset/request',
+        method: HttpMethod.POST,
+        handler: 'requestPasswordReset',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 60 * 1000,
+          max: 3
+        },
+        inputValidation: {
+          body: {
+            email: { type: 'string', format: 'email', required: true, maxLength: 255 }
+          }
+        }
+      },
+      {
+        path: '/password-reset/confirm',
+        method: HttpMethod.POST,
+        handler: 'confirmPasswordReset',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 60 * 1000,
+          max: 5
+        },
+        inputValidation: {
+          body: {
+            token: { type: 'string', required: true, maxLength: 500 },
+            newPassword: { type: 'string', minLength: 8, maxLength: 100, required: true },
+            confirmPassword: { type: 'string', required: true }
+          }
+        }
+      },
+      {
+        path: '/mfa',
+        method: HttpMethod.GET,
+        handler: 'getMfaStatus',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/mfa/totp/enroll',
+        method: HttpMethod.POST,
+        handler: 'startTotpEnrollment',
+        roles: ALL_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 5 * 60 * 1000,
+          max: 5
+        }
+      },
+      {
+        path: '/mfa/totp/confirm',
+        method: HttpMethod.POST,
+        handler: 'confirmTotpEnrollment',
+        roles: ALL_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 5 * 60 * 1000,
+          max: 5
+        },
+        inputValidation: {
+          body: {
+            code: { type: 'string', pattern: /^[0-9]{6}$/, required: true }
+          }
+        }
+      },
+      {
+        path: '/mfa/backup-codes',
+        method: HttpMethod.POST,
+        handler: 'regenerateBackupCodes',
+        roles: ALL_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 5 * 60 * 1000,
+          max: 3
+        },
+        inputValidation: {
+          body: {
+            password: { type: 'string', maxLength: 100, required: true }
+          }
+        }
+      },
+      {
+        path: '/mfa/disable',
+        method: HttpMethod.POST,
+        handler: 'disableMfa',
+        roles: ALL_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 5 * 60 * 1000,
+          max: 3
+        },
+        inputValidation: {
+          body: {
+            password: { type: 'string', maxLength: 100, required: true },
+            code: { type: 'string', pattern: MFA_CODE_PATTERN, required: true }
+          }
+        }
+      },
+      {
+        path: '/oauth/:provider/authorize',
+        method: HttpMethod.GET,
+        handler: 'startOAuthLogin',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          params: {
+            provider: { type: 'string', enum: Object.values(OAuthProvider), required: true }
+          }
+        }
+      },
+      {
+        path: '/oauth/:provider/callback',
+        method: HttpMethod.POST,
+        handler: 'oauthCallback',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          params: {
+            provider: { type: 'string', enum: Object.values(OAuthProvider), required: true }
+          },
+          body: {
+            code: { type: 'string', required: true, maxLength: 2048 },
+            state: { type: 'string', required: true, maxLength: 256 }
+          }
+        }
+      },
+      {
+        path: '/saml/:organization/login',
+        method: HttpMethod.GET,
+        handler: 'startSamlLogin',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          params: {
+            organization: { type: 'string', pattern: ORGANIZATION_PATTERN, required: true }
+          }
+        }
+      },
+      {
+        // Posted by the identity provider from the user's browser
+        path: '/saml/:organization/acs',
+        method: HttpMethod.POST,
+        handler: 'samlAssertionConsumer',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          params: {
+            organization: { type: 'string', pattern: ORGANIZATION_PATTERN, required: true }
+          },
+          body: {
+            SAMLResponse: { type: 'string', required: true, maxLength: 200000 },
+            RelayState: { type: 'string', maxLength: 1024 }
+          }
+        }
+      },
+      {
+        path: '/saml/ticket',
+        method: HttpMethod.POST,
+        handler: 'redeemSamlTicket',
+        roles: [],
+        isPublic: true,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          body: {
+            ticket: { type: 'string', required: true, maxLength: 128 }
+          }
+        }
+      },
+      {
+        path: '/saml/:organization/metadata',
+        method: HttpMethod.GET,
+        handler: 'getSamlMetadata',
+        roles: [],
+        isPublic: true,
+        inputValidation: {
+          params: {
+            organization: { type: 'string', pattern: ORGANIZATION_PATTERN, required: true }
+          }
+        }
+      },
+      {
+        path: '/saml-connections/:organization',
+        method: HttpMethod.GET,
+        handler: 'getSamlConnection',
+        roles: [UserRole.ADMIN],
+        isPublic: false,
+        inputValidation: {
+          params: {
+            organization: { type: 'string', pattern: ORGANIZATION_PATTERN, required: true }
+          }
+        }
+      },
+      {
+        path: '/saml-connections/:organization',
+        method: HttpMethod.PUT,
+        handler: 'saveSamlConnection',
+        roles: [UserRole.ADMIN],
+        isPublic: false,
+        inputValidation: {
+          params: {
+            organization: { type: 'string', pattern: ORGANIZATION_PATTERN, required: true }
+          },
+          body: {
+            name: { type: 'string', required: true, maxLength: 255 },
+            emailDomains: { type: 'array', required: true },
+            idpMetadata: { type: 'string', maxLength: 100000 },
+            attributeMapping: { type: 'object', required: true },
+            allowIdpInitiated: { type: 'boolean' },
+            enabled: { type: 'boolean' }
+          }
+        }
+      },
+      {
+        path: '/refresh',
+        method: HttpMethod.POST,
+        handler: 'refreshToken',
+        roles: [],
+        isPublic: true
+      },
+      {
+        path: '/logout',
+        method: HttpMethod.POST,
+        handler: 'logout',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/sessions',
+        method: HttpMethod.GET,
+        handler: 'listSessions',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/sessions',
+        method: HttpMethod.DELETE,
+        handler: 'revokeOtherSessions',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/sessions/:id',
+        method: HttpMethod.DELETE,
+        handler: 'revokeSession',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      }
+    ],
+    validationRules: {},
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
+    metrics: {
+      enabled: true,
+      prefix: 'auth_service',
+      defaultLabels: { service: 'auth-service' }
+    }
+  },
+  {
+    basePath: `${BASE_PATH}/tasks`,
+    serviceName: 'task-service',
+    serviceUrl: SERVICE_URLS.task,
+    version: API_VERSION,
+    routes: [
+      {
+        path: '/',
+        method: HttpMethod.GET,
+        handler: 'getAllTasks',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          max: 1000 // Higher limit for task listing
+        }
+      },
+      {
+        path: '/project/:projectId',
+        method: HttpMethod.GET,
+        handler: 'getProjectTasks',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          max: 1000
+        },
+        inputValidation: idParam('projectId')
+      },
+      {
+        // Registered before /:id so "search" is not validated as a task ID
+        path: '/search',
+        method: HttpMethod.GET,
+        handler: 'search',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          query: {
+            q: { type: 'string', minLength: 1, maxLength: 200, required: true },
+            types: { type: 'string', pattern: /^(task|project|comment)(,(task|project|comment))*$/ },
+            projectId: { type: 'string', format: 'uuid' },
+            limit: { type: 'string', pattern: /^\d+$/ },
+            offset: { type: 'string', pattern: /^\d+$/ }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.GET,
+        handler: 'getTaskById',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/',
+        method: HttpMethod.POST,
+        handler: 'createTask',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          body: {
+            title: { type: 'string', minLength: 1, required: true },
+            description: { type: 'string' },
+            projectId: { type: 'string', format: 'uuid', required: true },
+            priority: { type: 'string', enum: Object.values(TaskPriority) },
+            parentTaskId: { type: 'string', format: 'uuid' }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.PUT,
+        handler: 'updateTask',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            priority: { type: 'string', enum: Object.values(TaskPriority) },
+            parentTaskId: { type: 'string', format: 'uuid' }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.DELETE,
+        handler: 'deleteTask',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/checklist',
+        method: HttpMethod.GET,
+        handler: 'getChecklist',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/checklist',
+        method: HttpMethod.POST,
+        handler: 'addChecklistItem',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            content: { type: 'string', minLength: 1, maxLength: 255, required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/checklist/:itemId',
+        method: HttpMethod.PATCH,
+        handler: 'updateChecklistItem',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            itemId: { type: 'string', format: 'uuid', required: true }
+          },
+          body: {
+            content: { type: 'string', minLength: 1, maxLength: 255 },
+            isCompleted: { type: 'boolean' },
+            position: { type: 'number' }
+          }
+        }
+      },
+      {
+        path: '/:id/checklist/:itemId',
+        method: HttpMethod.DELETE,
+        handler: 'removeChecklistItem',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            itemId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/activity',
+        method: HttpMethod.GET,
+        handler: 'getActivity',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          query: {
+            types: { type: 'string', pattern: /^[A-Z_]+(,[A-Z_]+)*$/ },
+            limit: { type: 'string', pattern: /^\d+$/ },
+            offset: { type: 'string', pattern: /^\d+$/ }
+          }
+        }
+      },
+      {
+        path: '/:id/comments',
+        method: HttpMethod.GET,
+        handler: 'getComments',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/comments',
+        method: HttpMethod.POST,
+        handler: 'addComment',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            content: { type: 'string', minLength: 1, maxLength: 10000, required: true },
+            parentId: { type: 'string', format: 'uuid' }
+          }
+        }
+      },
+      {
+        path: '/:id/comments/:commentId',
+        method: HttpMethod.PUT,
+        handler: 'updateComment',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            commentId: { type: 'string', format: 'uuid', required: true }
+          },
+          body: {
+            content: { type: 'string', minLength: 1, maxLength: 10000, required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/comments/:commentId',
+        method: HttpMethod.DELETE,
+        handler: 'removeComment',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            commentId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/comments/:commentId/history',
+        method: HttpMethod.GET,
+        handler: 'getCommentHistory',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            commentId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/dependencies',
+        method: HttpMethod.GET,
+        handler: 'getTaskDependencies',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/dependencies',
+        method: HttpMethod.POST,
+        handler: 'addTaskDependency',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            targetTaskId: { type: 'string', format: 'uuid', required: true },
+            type: { type: 'string', enum: Object.values(TaskDependencyType), required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/dependencies/:dependencyId',
+        method: HttpMethod.DELETE,
+        handler: 'removeTaskDependency',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            dependencyId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      }
+    ],
+    validationRules: {},
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
+    metrics: {
+      enabled: true,
+      prefix: 'task_service',
+      defaultLabels: { service: 'task-service' }
+    }
+  },
+  {
+    basePath: `${BASE_PATH}/projects`,
+    serviceName: 'project-service',
+    serviceUrl: SERVICE_URLS.project,
+    version: API_VERSION,
+    routes: [
+      {
+        path: '/team/:teamId',
+        method: HttpMethod.GET,
+        handler: 'getTeamProjects',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam('teamId')
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.GET,
+        handler: 'getProject',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/stats',
+        method: HttpMethod.GET,
+        handler: 'getProjectStats',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/',
+        method: HttpMethod.POST,
+        handler: 'createProject',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          body: {
+            name: { type: 'string', minLength: 3, maxLength: 100, required: true },
+            description: { type: 'string', maxLength: 1000 },
+            teamId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.PUT,
+        handler: 'updateProject',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            name: { type: 'string', minLength: 3, maxLength: 100 },
+            description: { type: 'string', maxLength: 1000 }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.DELETE,
+        handler: 'deleteProject',
+        roles: [UserRole.ADMIN],
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/webhooks',
+        method: HttpMethod.GET,
+        handler: 'listWebhooks',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/webhooks',
+        method: HttpMethod.POST,
+        handler: 'createWebhook',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            url: { type: 'string', maxLength: 2048, required: true },
+            events: { type: 'array', required: true },
+            description: { type: 'string', maxLength: 255 }
+          }
+        }
+      },
+      {
+        path: '/:id/webhooks/:webhookId',
+        method: HttpMethod.PATCH,
+        handler: 'updateWebhook',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            webhookId: { type: 'string', format: 'uuid', required: true }
+          },
+          body: {
+            url: { type: 'string', maxLength: 2048 },
+            events: { type: 'array' },
+            description: { type: 'string', maxLength: 255 },
+            isActive: { type: 'boolean' }
+          }
+        }
+      },
+      {
+        path: '/:id/webhooks/:webhookId',
+        method: HttpMethod.DELETE,
+        handler: 'deleteWebhook',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            webhookId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/webhooks/:webhookId/test',
+        method: HttpMethod.POST,
+        handler: 'sendWebhookTestEvent',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 10
+        },
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            webhookId: { type: 'string', format: 'uuid', required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/webhooks/:webhookId/deliveries',
+        method: HttpMethod.GET,
+        handler: 'getWebhookDeliveries',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            id: { type: 'string', format: 'uuid', required: true },
+            webhookId: { type: 'string', format: 'uuid', required: true }
+          },
+          query: {
+            page: { type: 'string', pattern: /^\d+$/ },
+            pageSize: { type: 'string', pattern: /^\d+$/ }
+          }
+        }
+      }
+    ],
+    validationRules: {},
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
+    metrics: {
+      enabled: true,
+      prefix: 'project_service',
+      defaultLabels: { service: 'project-service' }
+    }
+  },
+  {
+    basePath: `${BASE_PATH}/teams`,
+    serviceName: 'team-service',
+    serviceUrl: SERVICE_URLS.team,
+    version: API_VERSION,
+    routes: [
+      {
+        path: '/',
+        method: HttpMethod.GET,
+        handler: 'listTeams',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.GET,
+        handler: 'getTeam',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/',
+        method: HttpMethod.POST,
+        handler: 'createTeam',
+        roles: MANAGER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          body: {
+            name: { type: 'string', minLength: 3, maxLength: 100, required: true },
+            description: { type: 'string', maxLength: 1000 },
+            settings: { type: 'object' }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.PUT,
+        handler: 'updateTeam',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            name: { type: 'string', minLength: 3, maxLength: 100 },
+            description: { type: 'string', maxLength: 1000 },
+            status: { type: 'string', enum: [TeamStatus.ACTIVE, TeamStatus.INACTIVE] }
+          }
+        }
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.DELETE,
+        handler: 'deleteTeam',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/settings',
+        method: HttpMethod.GET,
+        handler: 'getTeamSettings',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/settings',
+        method: HttpMethod.PUT,
+        handler: 'updateTeamSettings',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            isPrivate: { type: 'boolean' },
+            allowInvites: { type: 'boolean' },
+            notificationSettings: { type: 'object' },
+            maxMembers: { type: 'number' },
+            defaultMemberRole: { type: 'string', enum: TEAM_ASSIGNABLE_ROLES }
+          }
+        }
+      },
+      {
+        path: '/:id/members',
+        method: HttpMethod.GET,
+        handler: 'listTeamMembers',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/members',
+        method: HttpMethod.POST,
+        handler: 'addTeamMember',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            userId: { type: 'string', format: 'uuid', required: true },
+            role: { type: 'string', enum: TEAM_ASSIGNABLE_ROLES }
+          }
+        }
+      },
+      {
+        path: '/:id/members/:userId',
+        method: HttpMethod.PUT,
+        handler: 'updateTeamMemberRole',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: teamMemberParams,
+          body: {
+            role: { type: 'string', enum: TEAM_ASSIGNABLE_ROLES, required: true }
+          }
+        }
+      },
+      {
+        path: '/:id/members/:userId',
+        method: HttpMethod.DELETE,
+        handler: 'removeTeamMember',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: { params: teamMemberParams }
+      },
+      {
+        path: '/:id/invitations',
+        method: HttpMethod.GET,
+        handler: 'listTeamInvitations',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/invitations',
+        method: HttpMethod.POST,
+        handler: 'createTeamInvitation',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          body: {
+            inviteeEmail: { type: 'string', format: 'email', required: true, maxLength: 255 },
+            role: { type: 'string', enum: TEAM_ASSIGNABLE_ROLES }
+          }
+        }
+      },
+      {
+        path: '/:id/invitations/:invitationId/resend',
+        method: HttpMethod.POST,
+        handler: 'resendTeamInvitation',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: { params: teamInvitationParams }
+      },
+      {
+        path: '/:id/invitations/:invitationId',
+        method: HttpMethod.DELETE,
+        handler: 'revokeTeamInvitation',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: { params: teamInvitationParams }
+      },
+      {
+        path: '/invitations/preview',
+        method: HttpMethod.POST,
+        handler: 'previewTeamInvitation',
+        roles: [],
+        isPublic: true,
+        rateLimit: TEAM_INVITATION_RATE_LIMIT,
+        inputValidation: {
+          body: {
+            token: { type: 'string', required: true, maxLength: 256 }
+          }
+        }
+      },
+      {
+        path: '/invitations/accept',
+        method: HttpMethod.POST,
+        handler: 'acceptTeamInvitation',
+        roles: [],
+        isPublic: true,
+        rateLimit: TEAM_INVITATION_RATE_LIMIT,
+        inputValidation: {
+          body: {
+            token: { type: 'string', required: true, maxLength: 256 },
+            firstName: { type: 'string', minLength: 1, maxLength: 100 },
+            lastName: { type: 'string', minLength: 1, maxLength: 100 },
+            password: { type: 'string', minLength: 8, maxLength: 128 }
+          }
+        }
+      },
+      {
+        path: '/invitations/reject',
+        method: HttpMethod.POST,
+        handler: 'rejectTeamInvitation',
+        roles: [],
+        isPublic: true,
+        rateLimit: TEAM_INVITATION_RATE_LIMIT,
+        inputValidation: {
+          body: {
+            token: { type: 'string', required: true, maxLength: 256 }
+          }
+        }
+      },
+      {
+        path: '/:id/audit-logs',
+        method: HttpMethod.GET,
+        handler: 'getTeamAuditLog',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          ...idParam(),
+          query: {
+            page: { type: 'string', pattern: /^\d+$/ },
+            pageSize: { type: 'string', pattern: /^\d+$/ }
+          }
+        }
+      }
+    ],
+    validationRules: {},
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
+    metrics: {
+      enabled: true,
+      prefix: 'team_service',
+      defaultLabels: { service: 'team-service' }
+    }
+  },
+  {
+    basePath: `${BASE_PATH}/files`,
+    serviceName: 'file-service',
+    serviceUrl: SERVICE_URLS.file,
+    upstreamPath: '/files',
     version: API_VERSION,
     routes: [
       {
-        path: '/',
+        path: '/upload',
+        method: HttpMethod.POST,
+        handler: 'uploadFile',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 200
+        }
+      },
+      {
+        path: '/uploads',
+        method: HttpMethod.POST,
+        handler: 'createUploadSession',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          body: {
+            originalName: { type: 'string', minLength: 1, maxLength: 255, required: true },
+            mimeType: { type: 'string', maxLength: 255, required: true },
+            size: { type: 'number', required: true },
+            chunkSize: { type: 'number' },
+            checksum: { type: 'string', pattern: /^[a-f0-9]{64}$/ },
+            projectId: { type: 'string', format: 'uuid', required: true },
+            taskId: { type: 'string', format: 'uuid' }
+          }
+        }
+      },
+      {
+        path: '/uploads/:sessionId',
         method: HttpMethod.GET,
-        handler: 'getAllTasks',
-        roles: [UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER],
+        handler: 'getUploadSession',
+        roles: MEMBER_ROLES,
         isPublic: false,
+        inputValidation: idParam('sessionId')
+      },
+      {
+        // Every chunk of a large file is its own request
+        path: '/uploads/:sessionId/chunks/:index',
+        method: HttpMethod.PUT,
+        handler: 'uploadChunk',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: {
+          params: {
+            sessionId: { type: 'string', format: 'uuid', required: true },
+            index: { type: 'string', pattern: /^\d+$/, required: true }
+          }
+        },
         rateLimit: {
           ...DEFAULT_RATE_LIMIT,
-          max: 1000 // Higher limit for task listing
+          windowMs: 60 * 1000,
+          max: 1000
+        }
+      },
+      {
+        path: '/uploads/:sessionId/complete',
+        method: HttpMethod.POST,
+        handler: 'completeUploadSession',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam('sessionId')
+      },
+      {
+        path: '/uploads/:sessionId',
+        method: HttpMethod.DELETE,
+        handler: 'abortUploadSession',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam('sessionId')
+      },
+      {
+        path: '/previews',
+        method: HttpMethod.GET,
+        handler: 'getPreviews',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: {
+          query: {
+            ids: { type: 'string', pattern: /^[0-9a-f-]{36}(,[0-9a-f-]{36})*$/i, maxLength: 1900, required: true },
+            kind: { type: 'string', pattern: /^(thumbnail|preview)$/i }
+          }
         }
       },
       {
         path: '/:id',
         method: HttpMethod.GET,
-        handler: 'getTaskById',
-        roles: [UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER],
+        handler: 'getFile',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/url',
+        method: HttpMethod.GET,
+        handler: 'getSignedUrl',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/versions',
+        method: HttpMethod.GET,
+        handler: 'listVersions',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id/versions',
+        method: HttpMethod.POST,
+        handler: 'uploadVersion',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam(),
+        rateLimit: {
+          ...DEFAULT_RATE_LIMIT,
+          windowMs: 60 * 1000,
+          max: 200
+        }
+      },
+      {
+        path: '/:id/versions/:version',
+        method: HttpMethod.GET,
+        handler: 'getVersion',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: fileVersionParams
+      },
+      {
+        path: '/:id/versions/:version/url',
+        method: HttpMethod.GET,
+        handler: 'getVersionUrl',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: fileVersionParams
+      },
+      {
+        path: '/:id/versions/:version/restore',
+        method: HttpMethod.POST,
+        handler: 'restoreVersion',
+        roles: MEMBER_ROLES,
         isPublic: false,
+        inputValidation: fileVersionParams
+      },
+      {
+        // Authorised by the URL signature, checked by the file service
+        path: '/:id/download',
+        method: HttpMethod.GET,
+        handler: 'downloadFile',
+        roles: [],
+        isPublic: true,
+        inputValidation: {
+          ...idParam(),
+          query: {
+            expires: { type: 'string', pattern: /^\d+$/, required: true },
+            version: { type: 'string', pattern: /^\d+$/ },
+            signature: { type: 'string', pattern: /^[A-Za-z0-9_-]+$/, maxLength: 128, required: true }
+          }
+        }
+      },
+      {
+        // Loaded by image tags, so authorised by the URL signature like downloads
+        path: '/:id/previews/:kind',
+        method: HttpMethod.GET,
+        handler: 'getPreview',
+        roles: [],
+        isPublic: true,
         inputValidation: {
           params: {
-            id: { type: 'string', format: 'uuid' }
+            id: { type: 'string', format: 'uuid', required: true },
+            kind: { type: 'string', pattern: /^(thumbnail|preview)$/, required: true }
+          },
+          query: {
+            expires: { type: 'string', pattern: /^\d+$/, required: true },
+            signature: { type: 'string', pattern: /^[A-Za-z0-9_-]+$/, maxLength: 128, required: true }
           }
         }
       },
+      {
+        path: '/:id',
+        method: HttpMethod.DELETE,
+        handler: 'deleteFile',
+        roles: MEMBER_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      }
+    ],
+    validationRules: {},
+    circuitBreaker: {
+      ...DEFAULT_CIRCUIT_BREAKER,
+      timeout: 30000 // Uploads and downloads stream large payloads
+    },
+    metrics: {
+      enabled: true,
+      prefix: 'file_service',
+      defaultLabels: { service: 'file-service' }
+    }
+  },
+  {
+    basePath: `${BASE_PATH}/notifications`,
+    serviceName: 'notification-service',
+    serviceUrl: SERVICE_URLS.notification,
+    version: API_VERSION,
+    routes: [
+      {
+        path: '/',
+        method: HttpMethod.GET,
+        handler: 'getNotifications',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
       {
         path: '/',
         method: HttpMethod.POST,
-        handler: 'createTask',
-        roles: [UserRole.ADMIN, UserRole.PROJECT_MANAGER],
+        handler: 'createNotification',
+        roles: MANAGER_ROLES,
         isPublic: false,
         inputValidation: {
           body: {
-            title: { type: 'string', minLength: 1 },
-            description: { type: 'string' },
-            projectId: { type: 'string', format: 'uuid' },
-            priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] }
+            recipientId: { type: 'string', format: 'uuid', required: true },
+            type: { type: 'string', required: true },
+            title: { type: 'string', minLength: 1, required: true },
+            message: { type: 'string', minLength: 1, required: true }
+          }
+        }
+      },
+      {
+        path: '/preferences',
+        method: HttpMethod.PUT,
+        handler: 'updatePreferences',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/admin/dead-letters',
+        method: HttpMethod.GET,
+        handler: 'getDeadLetters',
+        roles: [UserRole.ADMIN],
+        isPublic: false,
+        inputValidation: {
+          query: {
+            offset: { type: 'string', pattern: /^\d+$/ },
+            limit: { type: 'string', pattern: /^\d+$/ }
+          }
+        }
+      },
+      {
+        path: '/admin/dead-letters/:jobId/replay',
+        method: HttpMethod.POST,
+        handler: 'replayDeadLetter',
+        roles: [UserRole.ADMIN],
+        isPublic: false,
+        inputValidation: {
+          params: {
+            jobId: { type: 'string', maxLength: 100, required: true }
+          }
+        }
+      },
+      {
+        path: '/push/public-key',
+        method: HttpMethod.GET,
+        handler: 'getPushPublicKey',
+        roles: ALL_ROLES,
+        isPublic: false
+      },
+      {
+        path: '/push/subscriptions',
+        method: HttpMethod.POST,
+        handler: 'registerPushSubscription',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: {
+          body: {
+            endpoint: { type: 'string', pattern: /^https:\/\//, maxLength: 2048, required: true },
+            keys: { type: 'object', required: true },
+            expirationTime: { type: 'number' }
+          }
+        }
+      },
+      {
+        path: '/push/subscriptions',
+        method: HttpMethod.DELETE,
+        handler: 'removePushSubscription',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: {
+          query: {
+            endpoint: { type: 'string', maxLength: 2048, required: true }
           }
         }
+      },
+      {
+        path: '/:id/read',
+        method: HttpMethod.PATCH,
+        handler: 'markAsRead',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
+      },
+      {
+        path: '/:id',
+        method: HttpMethod.DELETE,
+        handler: 'deleteNotification',
+        roles: ALL_ROLES,
+        isPublic: false,
+        inputValidation: idParam()
       }
     ],
     validationRules: {},
-    circuitBreaker: {
-      timeout: 3000,
-      failureThreshold: 5,
-      resetTimeout: 30000
-    },
+    circuitBreaker: DEFAULT_CIRCUIT_BREAKER,
     metrics: {
       enabled: true,
-      prefix: 'task_service',
-      defaultLabels: { service: 'task-service' }
+      prefix: 'notification_service',
+      defaultLabels: { service: 'notification-service' }
     }
   }
 ];
@@ -176,9 +1576,28 @@ export function configureRoutes(router: Router): Router {
 
   routeConfigurations.forEach((config) => {
     // Create circuit breaker for service
-    const breaker = new CircuitBreaker(async (req: any) => {
-      // Service call implementation
-    }, config.circuitBreaker);
+    const breaker = new CircuitBreaker((req: any) => forwardRequest(config, req), {
+      name: config.serviceName,
+      timeout: config.circuitBreaker.timeout,
+      resetTimeout: config.circuitBreaker.resetTimeout,
+      volumeThreshold: config.circuitBreaker.failureThreshold,
+      errorThresholdPercentage: BREAKER_ERROR_THRESHOLD_PERCENTAGE
+    });
+
+    // Fail over with the upstream error response, or 503 when the service is unreachable
+    breaker.fallback((req: any, error: UpstreamError) =>
+      error?.response || serviceUnavailable(config.serviceName)
+    );
+
+    breaker.on('open', () => {
+      logger.warn('Circuit breaker opened', { service: config.serviceName });
+    });
+    breaker.on('halfOpen', () => {
+      logger.info('Circuit breaker half-open', { service: config.serviceName });
+    });
+    breaker.on('close', () => {
+      logger.info('Circuit breaker closed', { service: config.serviceName });
+    });
 
     circuitBreakers.set(config.serviceName, breaker);
 
@@ -193,12 +1612,12 @@ export function configureRoutes(router: Router): Router {
 
       // Add authentication middleware if not public
       if (!route.isPublic) {
-        middlewareChain.push(authenticateRequest);
+        middlewareChain.push(authenticate);
       }
 
       // Add authorization middleware
       if (route.roles?.length) {
-        middlewareChain.push(authorizeRequest(route.roles));
+        middlewareChain.push(authorize(route.roles));
       }
 
       // Add input validation middleware
@@ -211,14 +1630,18 @@ export function configureRoutes(router: Router): Router {
         middlewareChain.push(collectMetrics(config.metrics));
       }
 
+      if (route.middleware?.length) {
+        middlewareChain.push(...route.middleware);
+      }
+
       // Register route with middleware chain
       router[route.method.toLowerCase()](
         `${config.basePath}${route.path}`,
         ...middlewareChain,
         async (req: any, res: any, next: any) => {
           try {
-            const result = await breaker.fire(req);
-            res.json(result);
+            const result: ProxyResponse = await breaker.fire(req);
+            relayResponse(result, res);
           } catch (error) {
             next(error);
           }
@@ -230,26 +1653,189 @@ export function configureRoutes(router: Router): Router {
   return router;
 }
 
-// Middleware implementations
-function authenticateRequest(req: any, res: any, next: any) {
-  // Authentication implementation
-  next();
+/**
+ * Forwards the incoming request to the owning service.
+ * Resolves with the streamed response for anything below 500 and rejects on
+ * 5xx or network failures so that the breaker records the failure.
+ */
+function forwardRequest(config: RouteConfig, req: any): Promise<ProxyResponse> {
+  return new Promise((resolve, reject) => {
+    const upstreamPath = config.upstreamPath ?? config.basePath;
+    const target = new URL(
+      `${upstreamPath}${req.originalUrl.slice(config.basePath.length)}`,
+      config.serviceUrl
+    );
+
+    const headers: Record<string, any> = { ...req.headers };
+    [...HOP_BY_HOP_HEADERS, ...IDENTITY_HEADERS].forEach((header) => delete headers[header]);
+    headers['x-forwarded-for'] = [req.headers['x-forwarded-for'], req.ip].filter(Boolean).join(', ');
+    headers['x-forwarded-proto'] = req.protocol;
+    headers['x-request-id'] = req.correlationId || req.headers['x-request-id'];
+    if (req.user) {
+      headers['x-user-id'] = req.user.id;
+      headers['x-user-role'] = req.user.role;
+    }
+
+    // Bodies already consumed by the JSON/urlencoded parsers are re-serialised;
+    // anything else (multipart uploads) is streamed through untouched
+    const bodyParsed = req._body === true;
+    let payload: Buffer | undefined;
+    if (bodyParsed) {
+      payload = Buffer.from(JSON.stringify(req.body ?? {}));
+      headers['content-type'] = 'application/json';
+      headers['content-length'] = payload.length;
+    }
+
+    const transport = target.protocol === 'https:' ? https : http;
+    const proxyReq = transport.request(target, { method: req.method, headers }, (proxyRes) => {
+      const statusCode = proxyRes.statusCode || 502;
+
+      if (statusCode < 500) {
+        resolve({ statusCode, headers: proxyRes.headers, stream: proxyRes });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      proxyRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+      proxyRes.on('end', () => {
+        const error: UpstreamError = new Error(`${config.serviceName} responded with ${statusCode}`);
+        error.response = { statusCode, headers: proxyRes.headers, body: Buffer.concat(chunks) };
+        reject(error);
+      });
+      proxyRes.on('error', reject);
+    });
+
+    proxyReq.setTimeout(config.circuitBreaker.timeout, () => {
+      proxyReq.destroy(new Error(`${config.serviceName} request timed out`));
+    });
+    proxyReq.on('error', (error) => {
+      logger.error('Upstream request failed', {
+        service: config.serviceName,
+        path: target.pathname,
+        requestId: headers['x-request-id'],
+        error: error.message
+      });
+      reject(error);
+    });
+
+    if (bodyParsed || !req.readable) {
+      proxyReq.end(payload);
+    } else {
+      req.pipe(proxyReq);
+    }
+  });
 }
 
-function authorizeRequest(roles: UserRole[]) {
-  return (req: any, res: any, next: any) => {
-    // Authorization implementation
-    next();
+/**
+ * Writes a proxied or fallback response back to the client
+ */
+function relayResponse(result: ProxyResponse, res: any): void {
+  res.status(result.statusCode);
+  Object.entries(result.headers).forEach(([name, value]) => {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name)) {
+      res.setHeader(name, value);
+    }
+  });
+
+  if (result.stream) {
+    result.stream.pipe(res);
+  } else {
+    res.end(result.body);
+  }
+}
+
+/**
+ * Builds the response returned while a service is unreachable or its breaker is open
+ */
+function serviceUnavailable(serviceName: string): ProxyResponse {
+  const body = Buffer.from(JSON.stringify({
+    error: getErrorMessage(ErrorCodes.EXTERNAL_SERVICE_TIMEOUT),
+    code: ErrorCodes.EXTERNAL_SERVICE_TIMEOUT,
+    service: serviceName
+  }));
+
+  return {
+    statusCode: 503,
+    headers: {
+      'content-type': 'application/json',
+      'content-length': String(body.length),
+      'retry-after': String(Math.ceil(DEFAULT_CIRCUIT_BREAKER.resetTimeout / 1000))
+    },
+    body
   };
 }
 
+// Middleware implementations
 function validateRequest(schema: ValidationSchema) {
   return (req: any, res: any, next: any) => {
-    // Validation implementation
+    const errors: string[] = [];
+
+    (Object.keys(schema) as Array<keyof ValidationSchema>).forEach((segment) => {
+      const rules = schema[segment] || {};
+      const source = req[segment] || {};
+
+      Object.entries(rules).forEach(([field, rule]) => {
+        const error = validateField(`${segment}.${field}`, source[field], rule);
+        if (error) {
+          errors.push(error);
+        }
+      });
+    });
+
+    if (errors.length) {
+      res.status(400).json({
+        error: getErrorMessage(ErrorCodes.INVALID_INPUT_FORMAT),
+        code: ErrorCodes.INVALID_INPUT_FORMAT,
+        details: errors
+      });
+      return;
+    }
+
     next();
   };
 }
 
+/**
+ * Checks a single value against its rule, returning a message on failure
+ */
+function validateField(name: string, value: any, rule: FieldRule): string | null {
+  if (value === undefined || value === null || value === '') {
+    return rule.required ? `${name} is required` : null;
+  }
+
+  const actualType = Array.isArray(value) ? 'array' : typeof value;
+  if (actualType !== rule.type) {
+    return `${name} must be of type ${rule.type}`;
+  }
+
+  if (typeof value === 'string') {
+    if (rule.minLength !== undefined && value.length < rule.minLength) {
+      return `${name} must be at least ${rule.minLength} characters`;
+    }
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      return `${name} must be at most ${rule.maxLength} characters`;
+    }
+    if (rule.format === 'uuid' && !UUID_PATTERN.test(value)) {
+      return `${name} must be a valid UUID`;
+    }
+    if (rule.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      return `${name} must be a valid email address`;
+    }
+    if (rule.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      return `${name} must be a valid date`;
+    }
+    if (rule.pattern && !rule.pattern.test(value)) {
+      return `${name} has an invalid format`;
+    }
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    return `${name} must be one of ${rule.enum.join(', ')}`;
+  }
+
+  return null;
+}
+
 function collectMetrics(config: MetricsConfig) {
   return (req: any, res: any, next: any) => {
     const startTime = process.hrtime();
@@ -267,4 +1853,4 @@ function collectMetrics(config: MetricsConfig) {
 
     next();
   };
-}
\ No newline at end of file
+}
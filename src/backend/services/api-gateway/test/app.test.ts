@@ -5,11 +5,12 @@
  */
 
 import request from 'supertest'; // v6.3.3
-import { describe, test, expect, beforeAll, afterAll, jest } from '@jest/globals'; // v29.5.0
+import { describe, test, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals'; // v29.5.0
 import nock from 'nock'; // v13.3.0
 import app from '../src/app';
 import { authenticate } from '../src/middleware/auth.middleware';
 import errorHandler from '../src/middleware/error.middleware';
+import { SERVICE_URLS } from '../src/config/routes.config';
 import { ErrorCodes } from '../../../shared/constants/error-codes';
 import { HttpStatusCodes } from '../../../shared/constants/status-codes';
 import { RedisConnection } from '../../../shared/utils/redis.util';
@@ -194,6 +195,98 @@ describe('API Gateway Integration Tests', () => {
     });
   });
 
+  describe('Service Proxying', () => {
+    const projectId = '7b0c1a52-3f4e-4d2a-9c1b-8e2f6a4d5c3b';
+
+    afterEach(() => {
+      nock.cleanAll();
+    });
+
+    test('should forward project requests to the project service', async () => {
+      const token = await generateTestToken();
+      const upstream = nock(SERVICE_URLS.project)
+        .get(`/api/v1/projects/${projectId}`)
+        .matchHeader('x-user-id', 'test-user')
+        .reply(200, { id: projectId, name: 'Website Redesign' });
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(HttpStatusCodes.OK);
+      expect(response.body.id).toBe(projectId);
+      expect(upstream.isDone()).toBe(true);
+    });
+
+    test('should drop client-supplied identity headers on public routes', async () => {
+      const upstream = nock(SERVICE_URLS.auth, { badheaders: ['x-user-id', 'x-user-role'] })
+        .post('/api/v1/auth/login')
+        .reply(200, { accessToken: 'token' });
+
+      const response = await request(app)
+        .post('/api/v1/auth/login')
+        .set('x-user-id', 'someone-else')
+        .set('x-user-role', 'ADMIN')
+        .send({ email: 'test@example.com', password: 'Password123!' });
+
+      expect(response.status).toBe(HttpStatusCodes.OK);
+      expect(upstream.isDone()).toBe(true);
+    });
+
+    test('should rewrite file routes to the file service path', async () => {
+      const token = await generateTestToken();
+      const upstream = nock(SERVICE_URLS.file)
+        .delete(`/files/${projectId}`)
+        .reply(204);
+
+      const response = await request(app)
+        .delete(`/api/v1/files/${projectId}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(204);
+      expect(upstream.isDone()).toBe(true);
+    });
+
+    test('should relay upstream client errors untouched', async () => {
+      const token = await generateTestToken();
+      nock(SERVICE_URLS.notification)
+        .patch(`/api/v1/notifications/${projectId}/read`)
+        .reply(404, { error: 'Notification not found' });
+
+      const response = await request(app)
+        .patch(`/api/v1/notifications/${projectId}/read`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(HttpStatusCodes.NOT_FOUND);
+      expect(response.body.error).toBe('Notification not found');
+    });
+
+    test('should reject invalid route parameters before proxying', async () => {
+      const token = await generateTestToken();
+      const response = await request(app)
+        .get('/api/v1/projects/not-a-uuid')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(HttpStatusCodes.BAD_REQUEST);
+      expect(response.body.code).toBe(ErrorCodes.INVALID_INPUT_FORMAT);
+    });
+
+    test('should fail over with 503 when the service is unreachable', async () => {
+      const token = await generateTestToken();
+      nock(SERVICE_URLS.notification)
+        .get('/api/v1/notifications')
+        .replyWithError({ code: 'ECONNREFUSED' });
+
+      const response = await request(app)
+        .get('/api/v1/notifications')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(HttpStatusCodes.SERVICE_UNAVAILABLE);
+      expect(response.body.code).toBe(ErrorCodes.EXTERNAL_SERVICE_TIMEOUT);
+      expect(response.headers['retry-after']).toBeDefined();
+    });
+  });
+
   describe('Health Checks', () => {
     test('should respond to liveness probe', async () => {
       const response = await request(app).get('/health/live');
@@ -99,7 +99,8 @@ async function bootstrapApplication(): Promise<Application> {
     // Setup request logging with PII masking
     app.use(requestLogger);
 
-    // Parse JSON payloads
+    // Parse JSON payloads; SAML responses carry signed XML and run far larger
+    app.use('/api/v1/auth/saml', express.json({ limit: '300kb' }));
     app.use(express.json({ limit: '10kb' }));
 
     // Initialize routes
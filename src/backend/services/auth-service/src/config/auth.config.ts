@@ -10,6 +10,7 @@
 // External imports
 import { config } from 'dotenv'; // v16.0.3
 import { UserRole } from '../../../shared/interfaces/auth.interface';
+import { PASSWORD_POLICY } from '../../../shared/utils/password.util';
 
 // Initialize environment variables
 config();
@@ -24,11 +25,7 @@ export const authConfig = {
    * with Argon2id hashing and comprehensive complexity requirements
    */
   passwordPolicy: {
-    minLength: 12,
-    requireUppercase: true,
-    requireLowercase: true,
-    requireNumbers: true,
-    requireSpecialChars: true,
+    ...PASSWORD_POLICY,
     maxAttempts: 5,
     lockoutDuration: 900, // 15 minutes in seconds
     hashingAlgorithm: 'argon2id',
@@ -50,6 +47,7 @@ export const authConfig = {
     codeLength: 6,
     backupCodesCount: 10,
     backupCodesLength: 12,
+    enrollmentTtl: 600, // Seconds to scan the QR code and confirm the first code
     allowRememberDevice: true,
     rememberDeviceDuration: 30 // Days
   },
@@ -73,28 +71,64 @@ export const authConfig = {
     }
   },
 
+  /**
+   * Self-service password reset; the emailed link points at the web app's
+   * reset page with the token appended as a query parameter
+   */
+  passwordResetConfig: {
+    tokenTtl: 3600, // 1 hour in seconds
+    tokenBytes: 32,
+    resetUrl: process.env.PASSWORD_RESET_URL || 'http://localhost:3000/auth/reset-password'
+  },
+
   /**
    * OAuth 2.0 configuration for SSO integration
-   * Supports multiple identity providers with domain restrictions
+   * Supports multiple identity providers with domain restrictions. Endpoints
+   * come from each issuer's OpenID discovery document, so pointing an issuer
+   * at a local mock provider is enough for development and tests.
    */
   oauth2Config: {
     providers: {
       google: {
+        issuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
         clientId: process.env.GOOGLE_CLIENT_ID,
         clientSecret: process.env.GOOGLE_CLIENT_SECRET,
         callbackUrl: process.env.GOOGLE_CALLBACK_URL,
-        scopes: ['email', 'profile']
+        scopes: ['openid', 'email', 'profile']
       },
       microsoft: {
+        // The multi-tenant issuer; tokens carry the user's own tenant
+        issuer: process.env.MS_ISSUER || 'https://login.microsoftonline.com/common/v2.0',
         clientId: process.env.MS_CLIENT_ID,
         clientSecret: process.env.MS_CLIENT_SECRET,
         callbackUrl: process.env.MS_CALLBACK_URL,
-        scopes: ['user.read', 'email']
+        scopes: ['openid', 'email', 'profile']
       }
     },
     defaultProvider: 'google',
-    allowedDomains: process.env.ALLOWED_DOMAINS?.split(',') || [],
-    enforceEmailVerification: true
+    allowedDomains: process.env.ALLOWED_DOMAINS?.split(',').map(domain => domain.trim().toLowerCase()) || [],
+    enforceEmailVerification: true,
+    stateTtl: 600, // Seconds to complete the provider sign-in
+    metadataCacheTtl: 3600 // Seconds to cache discovery documents
+  },
+
+  /**
+   * SAML 2.0 service provider settings shared by every organisation's
+   * connection. Identity provider details are configured per organisation
+   * and stored in saml_connections.
+   */
+  samlConfig: {
+    spEntityId: process.env.SAML_SP_ENTITY_ID || 'http://localhost:3000/api/v1/auth/saml',
+    // Assertion consumer service URL, with :organization replaced per connection
+    acsUrl: process.env.SAML_ACS_URL || 'http://localhost:3000/api/v1/auth/saml/:organization/acs',
+    // Web app page that redeems the sign-in ticket after the ACS redirect
+    appCallbackUrl: process.env.SAML_APP_CALLBACK_URL || 'http://localhost:5173/auth/callback/saml',
+    signingKey: process.env.SAML_SP_PRIVATE_KEY,
+    signingCertificate: process.env.SAML_SP_CERTIFICATE,
+    requestTtl: 600, // Seconds to complete an SP-initiated sign-in
+    ticketTtl: 60, // Seconds for the web app to redeem a sign-in ticket
+    maxAssertionAge: 300, // Seconds an IdP-initiated assertion stays acceptable
+    clockSkewMs: 60000
   },
 
   /**
@@ -145,42 +179,4 @@ export const authConfig = {
       inherits: []
     }
   }
-};
-
-/**
- * Validates a password against the configured password policy
- * @param password - Password to validate
- * @param passwordHistory - Array of previous password hashes
- * @returns Validation result with success status and error messages
- */
-export const validatePasswordPolicy = (
-  password: string,
-  passwordHistory: string[]
-): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  const { passwordPolicy } = authConfig;
-
-  // Check minimum length
-  if (password.length < passwordPolicy.minLength) {
-    errors.push(`Password must be at least ${passwordPolicy.minLength} characters long`);
-  }
-
-  // Check complexity requirements
-  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
-  }
-  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  }
-  if (passwordPolicy.requireNumbers && !/\d/.test(password)) {
-    errors.push('Password must contain at least one number');
-  }
-  if (passwordPolicy.requireSpecialChars && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-    errors.push('Password must contain at least one special character');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
 };
\ No newline at end of file
@@ -7,8 +7,12 @@
 
 import {
   Controller,
+  Get,
   Post,
+  Put,
+  Delete,
   Body,
+  Param,
   UseGuards,
   Req,
   Res,
@@ -25,6 +29,8 @@ import { Response, Request } from 'express'; // ^4.18.0
 import { RateLimit } from '@nestjs/throttler'; // ^4.0.0
 
 import { AuthService } from '../services/auth.service';
+import { SamlService } from '../services/saml.service';
+import { authConfig } from '../config/auth.config';
 import {
   IAuthCredentials,
   IAuthResponse,
@@ -34,19 +40,32 @@ import {
 import {
   loginSchema,
   registrationSchema,
-  mfaVerificationSchema
+  mfaVerificationSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  mfaEnrollmentConfirmSchema,
+  mfaReauthenticationSchema,
+  mfaDisableSchema,
+  oauthCallbackSchema,
+  samlResponseSchema,
+  samlTicketSchema,
+  samlConnectionSchema,
+  ORGANIZATION_PATTERN
 } from '../validators/auth.validator';
 import { LoggingInterceptor } from '../../../shared/interceptors/logging.interceptor';
 import { ThrottlerGuard } from '../../../shared/guards/throttler.guard';
 import { SecurityEventType, SecuritySeverity } from '../../../shared/utils/logger.util';
-import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { ErrorCodes, getErrorMessage, isValidErrorCode } from '../../../shared/constants/error-codes';
 
 @Controller('auth')
 @ApiTags('Authentication')
 @UseInterceptors(LoggingInterceptor)
 @UseGuards(ThrottlerGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly samlService: SamlService
+  ) {}
 
   /**
    * Enhanced login endpoint with security features
@@ -143,9 +162,17 @@ export class AuthController {
   @RateLimit({ points: 3, duration: 300 })
   async verifyMFA(
     @Body() mfaCredentials: IMFACredentials,
+    @Req() req: Request,
     @Res() res: Response
   ): Promise<void> {
     try {
+      const deviceInfo: IDeviceInfo = {
+        userAgent: req.headers['user-agent'] || '',
+        ipAddress: req.ip,
+        deviceId: req.headers['x-device-id'] as string,
+        fingerprint: req.headers['x-device-fingerprint'] as string
+      };
+
       const { error } = mfaVerificationSchema.validate(mfaCredentials);
       if (error) {
         res.status(HttpStatus.BAD_REQUEST).json({
@@ -155,7 +182,11 @@ export class AuthController {
         return;
       }
 
-      const authResponse = await this.authService.verifyMFA(mfaCredentials);
+      const authResponse = await this.authService.verifyMFA(
+        mfaCredentials,
+        deviceInfo,
+        req.cookies['access_token']
+      );
       this.setAuthCookies(res, authResponse.tokens);
 
       res.status(HttpStatus.OK).json(authResponse);
@@ -225,6 +256,525 @@ export class AuthController {
     }
   }
 
+  /**
+   * Password reset request endpoint. Always answers 202 so the response does
+   * not reveal whether the email is registered.
+   */
+  @Post('password-reset/request')
+  @ApiOperation({ summary: 'Request a password reset email' })
+  @ApiResponse({ status: 202, description: 'Reset email sent if the account exists' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @RateLimit({ points: 3, duration: 3600 })
+  async requestPasswordReset(
+    @Body() body: { email: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const deviceInfo: IDeviceInfo = {
+        userAgent: req.headers['user-agent'] || '',
+        ipAddress: req.ip,
+        deviceId: req.headers['x-device-id'] as string
+      };
+
+      const { error } = passwordResetRequestSchema.validate({ ...body, deviceInfo });
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      await this.authService.requestPasswordReset(body.email, deviceInfo);
+
+      res.status(HttpStatus.ACCEPTED).json({
+        message: 'If an account exists for this email, a reset link has been sent'
+      });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Password reset confirmation endpoint; signs the user out everywhere
+   */
+  @Post('password-reset/confirm')
+  @ApiOperation({ summary: 'Set a new password with a reset token' })
+  @ApiResponse({ status: 200, description: 'Password reset successful' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired reset token' })
+  @RateLimit({ points: 5, duration: 3600 })
+  async confirmPasswordReset(
+    @Body() body: { token: string; newPassword: string; confirmPassword: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const deviceInfo: IDeviceInfo = {
+        userAgent: req.headers['user-agent'] || '',
+        ipAddress: req.ip,
+        deviceId: req.headers['x-device-id'] as string
+      };
+
+      const { error } = passwordResetSchema.validate({ ...body, deviceInfo });
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      await this.authService.confirmPasswordReset(body.token, body.newPassword, deviceInfo);
+
+      this.clearAuthCookies(res);
+      res.status(HttpStatus.OK).json({ message: 'Password reset successful' });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * MFA status endpoint
+   */
+  @Get('mfa')
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  @ApiResponse({ status: 200, description: 'Enabled methods and remaining backup codes' })
+  async getMfaStatus(
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const status = await this.authService.getMfaStatus(this.getUserId(req));
+      res.status(HttpStatus.OK).json(status);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * TOTP enrollment endpoint; returns the secret, provisioning URI and QR code
+   */
+  @Post('mfa/totp/enroll')
+  @ApiOperation({ summary: 'Start TOTP enrollment' })
+  @ApiResponse({ status: 201, description: 'Enrollment started' })
+  @ApiResponse({ status: 409, description: 'MFA already enabled' })
+  @RateLimit({ points: 5, duration: 300 })
+  async startTotpEnrollment(
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const enrollment = await this.authService.startTotpEnrollment(this.getUserId(req));
+      res.status(HttpStatus.CREATED).json(enrollment);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * TOTP enrollment confirmation endpoint; returns the one-time backup codes
+   */
+  @Post('mfa/totp/confirm')
+  @ApiOperation({ summary: 'Confirm TOTP enrollment with a first code' })
+  @ApiResponse({ status: 200, description: 'MFA enabled' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  @RateLimit({ points: 5, duration: 300 })
+  async confirmTotpEnrollment(
+    @Body() body: { code: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const { error } = mfaEnrollmentConfirmSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      const backupCodes = await this.authService.confirmTotpEnrollment(this.getUserId(req), body.code);
+      res.status(HttpStatus.OK).json({ backupCodes });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Backup code regeneration endpoint; requires the password
+   */
+  @Post('mfa/backup-codes')
+  @ApiOperation({ summary: 'Replace all MFA backup codes' })
+  @ApiResponse({ status: 200, description: 'New backup codes' })
+  @ApiResponse({ status: 401, description: 'Invalid password' })
+  @RateLimit({ points: 3, duration: 300 })
+  async regenerateBackupCodes(
+    @Body() body: { password: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const { error } = mfaReauthenticationSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      const backupCodes = await this.authService.regenerateBackupCodes(this.getUserId(req), body.password);
+      res.status(HttpStatus.OK).json({ backupCodes });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * MFA disable endpoint; requires the password and a current code
+   */
+  @Post('mfa/disable')
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 200, description: 'MFA disabled' })
+  @ApiResponse({ status: 401, description: 'Invalid password or code' })
+  @RateLimit({ points: 3, duration: 300 })
+  async disableMfa(
+    @Body() body: { password: string; code: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const { error } = mfaDisableSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      await this.authService.disableMfa(this.getUserId(req), body.password, body.code);
+      res.status(HttpStatus.OK).json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Identity provider sign-in start; returns the URL to send the browser to
+   */
+  @Get('oauth/:provider/authorize')
+  @ApiOperation({ summary: 'Start signing in with an identity provider' })
+  @ApiResponse({ status: 200, description: 'Authorization URL and state' })
+  @ApiResponse({ status: 400, description: 'Unsupported provider' })
+  @RateLimit({ points: 10, duration: 60 })
+  async startOAuthLogin(
+    @Param('provider') provider: string,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const authorization = await this.authService.startOAuthLogin(provider);
+      res.status(HttpStatus.OK).json(authorization);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Identity provider callback; redeems the code the provider redirected back with
+   */
+  @Post('oauth/:provider/callback')
+  @ApiOperation({ summary: 'Finish signing in with an identity provider' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired state' })
+  @ApiResponse({ status: 403, description: 'Email domain not allowed or email not verified' })
+  @RateLimit({ points: 10, duration: 60 })
+  async oauthCallback(
+    @Param('provider') provider: string,
+    @Body() body: { code: string; state: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const { error } = oauthCallbackSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      const deviceInfo: IDeviceInfo = {
+        userAgent: req.headers['user-agent'] || '',
+        ipAddress: req.ip,
+        deviceId: req.headers['x-device-id'] as string,
+        fingerprint: req.headers['x-device-fingerprint'] as string
+      };
+
+      const authResponse = await this.authService.oauthLogin(provider, body.code, body.state, deviceInfo);
+      this.setAuthCookies(res, authResponse.tokens);
+
+      res.status(HttpStatus.OK).json(authResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Start SP-initiated SAML sign-in for an organisation
+   */
+  @Get('saml/:organization/login')
+  @ApiOperation({ summary: 'Start signing in with an organisation\'s SAML identity provider' })
+  @ApiResponse({ status: 200, description: 'Identity provider redirect URL' })
+  @ApiResponse({ status: 404, description: 'Single sign-on not configured' })
+  @RateLimit({ points: 10, duration: 60 })
+  async startSamlLogin(
+    @Param('organization') organization: string,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      this.validateOrganization(organization);
+      const loginRequest = await this.authService.startSamlLogin(organization);
+      res.status(HttpStatus.OK).json(loginRequest);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * SAML assertion consumer service. The identity provider posts here from
+   * the user's browser, for both SP- and IdP-initiated sign-in, so the result
+   * is always a redirect to the web app: with a sign-in ticket on success, or
+   * an error code.
+   */
+  @Post('saml/:organization/acs')
+  @ApiOperation({ summary: 'Receive a SAML response from an organisation\'s identity provider' })
+  @ApiResponse({ status: 303, description: 'Redirect to the web app with a sign-in ticket or error' })
+  @RateLimit({ points: 10, duration: 60 })
+  async samlAssertionConsumer(
+    @Param('organization') organization: string,
+    @Body() body: { SAMLResponse: string; RelayState?: string },
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    const callbackUrl = new URL(authConfig.samlConfig.appCallbackUrl);
+
+    try {
+      this.validateOrganization(organization);
+      const { error } = samlResponseSchema.validate(body);
+      if (error) {
+        throw new Error(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+      }
+
+      const deviceInfo: IDeviceInfo = {
+        userAgent: req.headers['user-agent'] || '',
+        ipAddress: req.ip,
+        deviceId: req.headers['x-device-id'] as string,
+        fingerprint: req.headers['x-device-fingerprint'] as string
+      };
+
+      const ticket = await this.authService.samlLogin(organization, body.SAMLResponse, deviceInfo);
+      callbackUrl.searchParams.set('ticket', ticket);
+    } catch (error) {
+      const messageCode = Number(error.message);
+      callbackUrl.searchParams.set(
+        'error',
+        String(isValidErrorCode(messageCode) ? messageCode : ErrorCodes.SAML_RESPONSE_INVALID)
+      );
+    }
+
+    // 303 so the browser follows with a GET rather than re-posting the assertion
+    res.redirect(HttpStatus.SEE_OTHER, callbackUrl.toString());
+  }
+
+  /**
+   * Redeem the sign-in ticket handed to the web app by the assertion consumer service
+   */
+  @Post('saml/ticket')
+  @ApiOperation({ summary: 'Finish signing in with SAML' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired ticket' })
+  @RateLimit({ points: 10, duration: 60 })
+  async redeemSamlTicket(
+    @Body() body: { ticket: string },
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const { error } = samlTicketSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      const authResponse = await this.authService.redeemSamlTicket(body.ticket);
+      this.setAuthCookies(res, authResponse.tokens);
+
+      res.status(HttpStatus.OK).json(authResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Service provider metadata to register with the organisation's identity provider
+   */
+  @Get('saml/:organization/metadata')
+  @ApiOperation({ summary: 'SAML service provider metadata' })
+  @ApiResponse({ status: 200, description: 'SAML metadata XML' })
+  @ApiResponse({ status: 404, description: 'Single sign-on not configured' })
+  async getSamlMetadata(
+    @Param('organization') organization: string,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      this.validateOrganization(organization);
+      const metadata = await this.samlService.getServiceProviderMetadata(organization);
+      res.status(HttpStatus.OK).type('application/xml').send(metadata);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * An organisation's SAML connection
+   */
+  @Get('saml-connections/:organization')
+  @ApiOperation({ summary: 'Get an organisation\'s SAML connection' })
+  @ApiResponse({ status: 200, description: 'SAML connection' })
+  @ApiResponse({ status: 404, description: 'Single sign-on not configured' })
+  async getSamlConnection(
+    @Param('organization') organization: string,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      this.validateOrganization(organization);
+      const connection = await this.samlService.getConnection(organization);
+      res.status(HttpStatus.OK).json(connection);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Create or replace an organisation's SAML connection
+   */
+  @Put('saml-connections/:organization')
+  @ApiOperation({ summary: 'Configure an organisation\'s SAML connection' })
+  @ApiResponse({ status: 200, description: 'SAML connection saved' })
+  @ApiResponse({ status: 400, description: 'Invalid metadata or certificate' })
+  async saveSamlConnection(
+    @Param('organization') organization: string,
+    @Body() body: unknown,
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      this.validateOrganization(organization);
+      const { error, value } = samlConnectionSchema.validate(body);
+      if (error) {
+        res.status(HttpStatus.BAD_REQUEST).json({
+          code: ErrorCodes.INVALID_INPUT_FORMAT,
+          message: error.details[0].message
+        });
+        return;
+      }
+
+      const connection = await this.samlService.saveConnection(organization, value, this.getUserId(req));
+      res.status(HttpStatus.OK).json(connection);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Session listing endpoint; flags the session making the request
+   */
+  @Get('sessions')
+  @ApiOperation({ summary: 'List signed-in sessions' })
+  @ApiResponse({ status: 200, description: 'Sessions, most recently active first' })
+  async listSessions(
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const sessions = await this.authService.listSessions(this.getUserId(req), this.getAccessToken(req));
+      res.status(HttpStatus.OK).json(sessions);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Single session sign-out endpoint
+   */
+  @Delete('sessions/:id')
+  @ApiOperation({ summary: 'Sign out a session' })
+  @ApiResponse({ status: 204, description: 'Session signed out' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Param('id') sessionId: string,
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      await this.authService.revokeSession(this.getUserId(req), sessionId);
+      res.status(HttpStatus.NO_CONTENT).send();
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Signs out every session except the one making the request
+   */
+  @Delete('sessions')
+  @ApiOperation({ summary: 'Sign out all other sessions' })
+  @ApiResponse({ status: 200, description: 'Number of sessions signed out' })
+  async revokeOtherSessions(
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const accessToken = this.getAccessToken(req);
+      if (!accessToken) {
+        throw new Error(ErrorCodes.SESSION_NOT_FOUND.toString());
+      }
+
+      const revoked = await this.authService.revokeOtherSessions(this.getUserId(req), accessToken);
+      res.status(HttpStatus.OK).json({ revoked });
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  }
+
+  /**
+   * Access token of the calling session, from the cookie or bearer header
+   */
+  private getAccessToken(req: Request): string | undefined {
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length);
+    }
+    return req.cookies['access_token'];
+  }
+
+  /**
+   * Authenticated user, as forwarded by the API gateway
+   */
+  private getUserId(req: Request): string {
+    const userId = req.headers['x-user-id'] as string | undefined;
+    if (!userId) {
+      throw new Error(ErrorCodes.TOKEN_EXPIRED.toString());
+    }
+    return userId;
+  }
+
   /**
    * Set secure authentication cookies
    */
@@ -256,7 +806,23 @@ export class AuthController {
   /**
    * Handle authentication errors
    */
+  private validateOrganization(organization: string): void {
+    if (!ORGANIZATION_PATTERN.test(organization)) {
+      throw new Error(ErrorCodes.SAML_CONNECTION_NOT_FOUND.toString());
+    }
+  }
+
   private handleAuthError(error: any, res: Response): void {
+    // Services throw Error(ErrorCodes.X.toString()), so the code may be the message
+    const messageCode = Number(error.message);
+    if (!error.code && isValidErrorCode(messageCode)) {
+      res.status(this.getHttpStatusCode(messageCode)).json({
+        code: messageCode,
+        message: getErrorMessage(messageCode)
+      });
+      return;
+    }
+
     const errorCode = error.code || ErrorCodes.SYSTEM_ERROR;
     const statusCode = this.getHttpStatusCode(errorCode);
 
@@ -275,10 +841,26 @@ export class AuthController {
         return HttpStatus.UNAUTHORIZED;
       case ErrorCodes.TOKEN_EXPIRED:
         return HttpStatus.UNAUTHORIZED;
+      case ErrorCodes.INVALID_RESET_TOKEN:
+      case ErrorCodes.MFA_NOT_ENABLED:
+      case ErrorCodes.MFA_ENROLLMENT_EXPIRED:
+      case ErrorCodes.OAUTH_STATE_INVALID:
       case ErrorCodes.INVALID_INPUT_FORMAT:
         return HttpStatus.BAD_REQUEST;
       case ErrorCodes.RESOURCE_ACCESS_DENIED:
+      case ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED:
+      case ErrorCodes.OAUTH_EMAIL_NOT_VERIFIED:
         return HttpStatus.FORBIDDEN;
+      case ErrorCodes.MFA_ALREADY_ENABLED:
+      case ErrorCodes.OAUTH_ACCOUNT_CONFLICT:
+        return HttpStatus.CONFLICT;
+      case ErrorCodes.OAUTH_PROVIDER_ERROR:
+        return HttpStatus.BAD_GATEWAY;
+      case ErrorCodes.SESSION_NOT_FOUND:
+      case ErrorCodes.SAML_CONNECTION_NOT_FOUND:
+        return HttpStatus.NOT_FOUND;
+      case ErrorCodes.SAML_RESPONSE_INVALID:
+        return HttpStatus.UNAUTHORIZED;
       default:
         return HttpStatus.INTERNAL_SERVER_ERROR;
     }
@@ -0,0 +1,36 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm'; // v0.3.x
+
+@Entity('password_reset_tokens')
+@Index(['tokenHash'], { unique: true })
+export class PasswordResetToken {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ name: 'user_id' })
+    userId: string;
+
+    // SHA-256 of the emailed token, so a database leak cannot be replayed
+    @Column({ name: 'token_hash', length: 64 })
+    tokenHash: string;
+
+    @Column({ name: 'expires_at', type: 'timestamptz' })
+    expiresAt: Date;
+
+    @Column({ name: 'used_at', type: 'timestamptz', nullable: true })
+    usedAt: Date | null;
+
+    @Column({ name: 'requested_ip', nullable: true })
+    requestedIp: string;
+
+    @Column({ name: 'requested_user_agent', nullable: true })
+    requestedUserAgent: string;
+
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt: Date;
+
+    constructor(tokenData?: Partial<PasswordResetToken>) {
+        if (tokenData) {
+            Object.assign(this, tokenData);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm'; // v0.3.x
+import { ISamlAttributeMapping, ISamlConnection, UserRole } from '../../../shared/interfaces/auth.interface';
+
+@Entity('saml_connections')
+@Index(['organization'], { unique: true })
+export class SamlConnection implements ISamlConnection {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    // URL-safe organisation identifier used in the login and ACS paths
+    @Column({ length: 63 })
+    organization: string;
+
+    @Column()
+    name: string;
+
+    // Assertions are only accepted for addresses in these domains
+    @Column({ name: 'email_domains', type: 'text', array: true, default: () => "'{}'" })
+    emailDomains: string[];
+
+    @Column({ name: 'idp_entity_id' })
+    idpEntityId: string;
+
+    @Column({ name: 'idp_sso_url' })
+    idpSsoUrl: string;
+
+    // PEM or bare base64 X.509 certificate that signs the IdP's assertions
+    @Column({ name: 'idp_certificate', type: 'text' })
+    idpCertificate: string;
+
+    @Column({ name: 'attribute_mapping', type: 'jsonb' })
+    attributeMapping: ISamlAttributeMapping;
+
+    @Column({ name: 'role_mapping', type: 'jsonb', default: () => "'{}'" })
+    roleMapping: Record<string, UserRole>;
+
+    @Column({ name: 'default_role', type: 'enum', enum: UserRole, default: UserRole.TEAM_MEMBER })
+    defaultRole: UserRole;
+
+    @Column({ name: 'allow_idp_initiated', default: false })
+    allowIdpInitiated: boolean;
+
+    @Column({ default: true })
+    enabled: boolean;
+
+    @Column({ name: 'updated_by', nullable: true })
+    updatedBy: string | null;
+
+    @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+    createdAt: Date;
+
+    @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+    updatedAt: Date;
+
+    constructor(connectionData?: Partial<SamlConnection>) {
+        if (connectionData) {
+            Object.assign(this, connectionData);
+        }
+    }
+
+    toConnection(): ISamlConnection {
+        return {
+            organization: this.organization,
+            name: this.name,
+            emailDomains: this.emailDomains,
+            idpEntityId: this.idpEntityId,
+            idpSsoUrl: this.idpSsoUrl,
+            idpCertificate: this.idpCertificate,
+            attributeMapping: this.attributeMapping,
+            roleMapping: this.roleMapping,
+            defaultRole: this.defaultRole,
+            allowIdpInitiated: this.allowIdpInitiated,
+            enabled: this.enabled
+        };
+    }
+}
\ No newline at end of file
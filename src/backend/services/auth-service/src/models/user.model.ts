@@ -1,9 +1,18 @@
 import { Entity, Column, PrimaryGeneratedColumn, BeforeInsert, BeforeUpdate, Index } from 'typeorm'; // v0.3.x
-import { hash, compare } from 'argon2'; // v0.30.x
+import { compare } from 'argon2'; // v0.30.x
 import { IsEmail, Length, IsBoolean, IsDate, ValidateNested } from 'class-validator'; // v0.14.x
 import { authenticator } from 'otplib'; // v12.x
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
-import { IAuthUser, UserRole } from '../../../shared/interfaces/auth.interface';
+import {
+    IAuthUser,
+    IdentityProvider,
+    IMFAStatus,
+    MFAMethod,
+    OAuthProvider,
+    SAML_IDENTITY_PROVIDER,
+    UserRole
+} from '../../../shared/interfaces/auth.interface';
+import { hashPassword } from '../../../shared/utils/password.util';
 
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || randomBytes(32);
 const ENCRYPTION_IV = process.env.ENCRYPTION_IV || randomBytes(16);
@@ -19,7 +28,8 @@ export class User {
     @IsEmail()
     email: string;
 
-    @Column({ select: false })
+    // Unset for accounts created through an identity provider
+    @Column({ select: false, nullable: true })
     @Length(12, 128)
     password: string;
 
@@ -37,7 +47,30 @@ export class User {
     mfaEnabled: boolean;
 
     @Column({ nullable: true, select: false })
-    mfaSecret: string;
+    mfaSecret: string | null;
+
+    // SHA-256 hashes of the unused backup codes
+    @Column({ name: 'mfa_backup_codes', type: 'jsonb', nullable: true, select: false })
+    mfaBackupCodes: string[] | null;
+
+    @Column({ name: 'mfa_methods', type: 'text', array: true, default: () => "'{}'" })
+    mfaMethods: MFAMethod[];
+
+    @Column({
+        name: 'oauth_provider',
+        type: 'enum',
+        enum: [...Object.values(OAuthProvider), SAML_IDENTITY_PROVIDER],
+        enumName: 'auth_provider',
+        nullable: true
+    })
+    oauthProvider: IdentityProvider | null;
+
+    // Provider subject identifier, stable for the life of the external account
+    @Column({ name: 'oauth_id', nullable: true })
+    oauthId: string | null;
+
+    @Column({ name: 'oauth_data', type: 'jsonb', nullable: true, select: false })
+    oauthData: Record<string, unknown> | null;
 
     @Column({ default: 0 })
     failedLoginAttempts: number;
@@ -65,6 +98,7 @@ export class User {
         this.role = userData?.role || UserRole.GUEST;
         this.permissions = userData?.permissions || [];
         this.mfaEnabled = userData?.mfaEnabled || false;
+        this.mfaMethods = userData?.mfaMethods || [];
         this.failedLoginAttempts = 0;
         this.createdAt = new Date();
         this.updatedAt = new Date();
@@ -76,12 +110,7 @@ export class User {
     @BeforeUpdate()
     async hashPassword(): Promise<void> {
         if (this.password) {
-            this.password = await hash(this.password, {
-                type: 2, // Argon2id
-                memoryCost: 65536, // 64MB
-                timeCost: 3,
-                parallelism: 4
-            });
+            this.password = await hashPassword(this.password);
             this.passwordChangedAt = new Date();
         }
     }
@@ -115,23 +144,36 @@ export class User {
 
     async verifyMfaToken(token: string): Promise<boolean> {
         try {
-            const [encrypted, authTag] = this.mfaSecret.split(':');
-            const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, ENCRYPTION_KEY, ENCRYPTION_IV);
-            decipher.setAuthTag(Buffer.from(authTag, 'hex'));
-            const decrypted = Buffer.concat([
-                decipher.update(Buffer.from(encrypted, 'hex')),
-                decipher.final()
-            ]).toString('utf8');
-
             return authenticator.verify({
                 token,
-                secret: decrypted
+                secret: this.decryptMfaSecret()
             });
         } catch (error) {
             return false;
         }
     }
 
+    decryptMfaSecret(): string {
+        if (!this.mfaSecret) {
+            throw new Error('MFA secret is not set');
+        }
+        const [encrypted, authTag] = this.mfaSecret.split(':');
+        const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, ENCRYPTION_KEY, ENCRYPTION_IV);
+        decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted, 'hex')),
+            decipher.final()
+        ]).toString('utf8');
+    }
+
+    toMfaStatus(): IMFAStatus {
+        return {
+            enabled: this.mfaEnabled,
+            methods: this.mfaMethods || [],
+            backupCodesRemaining: this.mfaBackupCodes?.length || 0
+        };
+    }
+
     toAuthUser(): IAuthUser {
         return {
             id: this.id,
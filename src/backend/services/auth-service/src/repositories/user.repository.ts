@@ -3,7 +3,7 @@ import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
 import winston from 'winston'; // v3.8.x
 
 import { User } from '../models/user.model';
-import { IAuthUser, UserRole } from '../../../shared/interfaces/auth.interface';
+import { IAuthUser, IdentityProvider, MFAMethod, UserRole } from '../../../shared/interfaces/auth.interface';
 import { DatabaseConnection } from '../../../shared/utils/database.util';
 import { ErrorCodes } from '../../../shared/constants/error-codes';
 
@@ -145,9 +145,15 @@ export class UserRepository extends Repository<User> {
     }
 
     /**
-     * Update MFA settings with encryption
+     * Update MFA settings with encryption. Disabling clears the secret and
+     * backup codes so a later enrollment starts from scratch.
      */
-    public async updateMFAStatus(id: string, enabled: boolean, secret?: string): Promise<User> {
+    public async updateMFAStatus(
+        id: string,
+        enabled: boolean,
+        secret?: string,
+        backupCodeHashes?: string[]
+    ): Promise<User> {
         const queryRunner = await this.dbConnection.getConnection().createQueryRunner();
         await queryRunner.connect();
         await queryRunner.startTransaction();
@@ -159,8 +165,18 @@ export class UserRepository extends Repository<User> {
             }
 
             user.mfaEnabled = enabled;
-            if (secret) {
-                user.mfaSecret = await this.encryptSensitiveData(secret);
+            if (!enabled) {
+                user.mfaSecret = null;
+                user.mfaBackupCodes = null;
+                user.mfaMethods = [];
+            } else {
+                if (secret) {
+                    user.mfaSecret = await this.encryptSensitiveData(secret);
+                    user.mfaMethods = [MFAMethod.TOTP];
+                }
+                if (backupCodeHashes) {
+                    user.mfaBackupCodes = backupCodeHashes;
+                }
             }
 
             const updatedUser = await queryRunner.manager.save(User, user);
@@ -185,6 +201,124 @@ export class UserRepository extends Repository<User> {
         }
     }
 
+    /**
+     * Replace all of a user's backup codes, invalidating any left over
+     */
+    public async replaceBackupCodes(id: string, backupCodeHashes: string[]): Promise<void> {
+        try {
+            await this.query(
+                'UPDATE users SET mfa_backup_codes = $2::jsonb WHERE id = $1',
+                [id, JSON.stringify(backupCodeHashes)]
+            );
+
+            this.logger.info('MFA backup codes replaced', {
+                userId: id,
+                count: backupCodeHashes.length
+            });
+        } catch (error) {
+            this.logger.error('Error replacing backup codes', {
+                error,
+                userId: id,
+                code: ErrorCodes.DATABASE_CONNECTION_ERROR
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Set a user's role, e.g. from the identity provider that manages the account
+     */
+    public async updateRole(id: string, role: UserRole): Promise<void> {
+        try {
+            await this.query('UPDATE users SET role = $2 WHERE id = $1', [id, role]);
+
+            this.logger.info('User role updated', {
+                userId: id,
+                role
+            });
+        } catch (error) {
+            this.logger.error('Error updating user role', {
+                error,
+                userId: id,
+                code: ErrorCodes.DATABASE_CONNECTION_ERROR
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a backup code if the user still has it. The check and removal
+     * are one statement, so a code can only ever be redeemed once.
+     */
+    public async consumeBackupCode(id: string, backupCodeHash: string): Promise<boolean> {
+        try {
+            const rows = await this.query(
+                `UPDATE users
+                 SET mfa_backup_codes = mfa_backup_codes - $2::text
+                 WHERE id = $1 AND mfa_enabled AND mfa_backup_codes ? $2::text
+                 RETURNING jsonb_array_length(mfa_backup_codes) AS remaining`,
+                [id, backupCodeHash]
+            );
+
+            if (rows.length === 0) {
+                return false;
+            }
+
+            this.logger.info('MFA backup code used', {
+                userId: id,
+                remaining: rows[0].remaining
+            });
+            return true;
+        } catch (error) {
+            this.logger.error('Error consuming backup code', {
+                error,
+                userId: id,
+                code: ErrorCodes.DATABASE_CONNECTION_ERROR
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Link an external identity to a user. Only links an account that has no
+     * identity yet, or already has this one, so a second identity can never
+     * silently replace the first.
+     */
+    public async linkOAuthIdentity(
+        id: string,
+        provider: IdentityProvider,
+        subject: string,
+        profile: Record<string, unknown>
+    ): Promise<boolean> {
+        try {
+            const rows = await this.query(
+                `UPDATE users
+                 SET oauth_provider = $2, oauth_id = $3, oauth_data = $4::jsonb
+                 WHERE id = $1
+                   AND (oauth_provider IS NULL OR (oauth_provider = $2 AND oauth_id = $3))
+                 RETURNING id`,
+                [id, provider, subject, JSON.stringify(profile)]
+            );
+
+            if (rows.length === 0) {
+                return false;
+            }
+
+            this.logger.info('OAuth identity linked', {
+                userId: id,
+                provider
+            });
+            return true;
+        } catch (error) {
+            this.logger.error('Error linking OAuth identity', {
+                error,
+                userId: id,
+                code: ErrorCodes.DATABASE_CONNECTION_ERROR
+            });
+            throw error;
+        }
+    }
+
     /**
      * Update last login timestamp with audit logging
      */
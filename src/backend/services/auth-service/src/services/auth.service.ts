@@ -7,20 +7,38 @@
 
 import { Injectable } from '@nestjs/common';
 import { Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { authenticator } from 'otplib'; // v12.0.1
+import { toDataURL } from 'qrcode'; // v1.5.3
 import { Redis } from 'ioredis'; // v5.0.0
 import { Auth0Client } from 'auth0'; // v3.0.0
 import { SecurityService } from '@security/core'; // v1.0.0
 
 import { User } from '../models/user.model';
+import { UserRepository } from '../repositories/user.repository';
+import { PasswordResetToken } from '../models/password-reset-token.model';
 import { TokenService } from './token.service';
+import { OAuthService, IOAuthIdentity } from './oauth.service';
+import { SamlService, ISamlIdentity } from './saml.service';
+import { authConfig } from '../config/auth.config';
 import { Logger, SecurityEventType, SecuritySeverity } from '../../../shared/utils/logger.util';
 import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { enqueueNotificationRequest } from '../../../shared/utils/notification.util';
+import { validatePasswordPolicy } from '../../../shared/utils/password.util';
+import { TransactionalEmailType } from '../../../shared/interfaces/notification.interface';
 import {
   IAuthCredentials,
   IAuthResponse,
+  IAuthTokens,
   IDeviceInfo,
   IMFACredentials,
+  IMFAEnrollment,
+  IMFAStatus,
+  IOAuthAuthorization,
+  ISamlLoginRequest,
+  ISessionInfo,
+  MFAMethod,
+  SAML_IDENTITY_PROVIDER,
   UserRole
 } from '../../../shared/interfaces/auth.interface';
 
@@ -29,19 +47,49 @@ const LOGIN_ATTEMPT_LIMIT = 5;
 const LOGIN_BLOCK_DURATION = 900; // 15 minutes
 const DEVICE_TRUST_DURATION = 30 * 24 * 60 * 60; // 30 days
 const SESSION_PREFIX = 'session:';
+const SESSION_INDEX_PREFIX = 'session-index:';
 const DEVICE_PREFIX = 'device:';
 const MFA_PREFIX = 'mfa:';
+const PASSWORD_RESET_ATTEMPTS_PREFIX = 'password-reset:attempts:';
+const MFA_ENROLLMENT_PREFIX = `${MFA_PREFIX}enroll:`;
+const SAML_TICKET_PREFIX = 'saml:ticket:';
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TOTP_CODE_PATTERN = /^[0-9]{6}$/;
+
+/**
+ * Session hash stored in Redis under session:<userId>:<sessionId>, with the
+ * session ids of each user kept in the set session-index:<userId>
+ */
+interface ISessionRecord {
+  accessToken: string;
+  refreshToken: string;
+  deviceId: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+interface IStoredSession {
+  id: string;
+  key: string;
+  record: ISessionRecord;
+}
 
 @Injectable()
 export class AuthService {
   private readonly logger: Logger;
 
   constructor(
-    private readonly userRepository: Repository<User>,
+    private readonly userRepository: UserRepository,
     private readonly tokenService: TokenService,
     private readonly securityService: SecurityService,
     private readonly redisClient: Redis,
-    private readonly auth0Client: Auth0Client
+    private readonly auth0Client: Auth0Client,
+    private readonly resetTokenRepository: Repository<PasswordResetToken>,
+    private readonly oauthService: OAuthService,
+    private readonly samlService: SamlService
   ) {
     this.logger = Logger.getInstance('AuthService', {
       enableConsole: true,
@@ -96,7 +144,7 @@ export class AuthService {
       });
 
       // Create session record
-      await this.createSession(user.id, tokens.accessToken, deviceInfo);
+      const sessionId = await this.createSession(user.id, tokens, deviceInfo);
 
       // Log successful authentication
       await this.logger.security('User authenticated successfully', {
@@ -111,7 +159,7 @@ export class AuthService {
         user: user.toAuthUser(),
         tokens,
         mfaRequired: user.mfaEnabled && !deviceTrusted,
-        sessionId: tokens.accessToken
+        sessionId
       };
     } catch (error) {
       this.logger.error('Login failed', {
@@ -125,13 +173,18 @@ export class AuthService {
   /**
    * Verify MFA token and complete authentication
    */
-  public async verifyMFA(credentials: IMFACredentials): Promise<IAuthResponse> {
+  public async verifyMFA(
+    credentials: IMFACredentials,
+    deviceInfo: IDeviceInfo,
+    loginAccessToken?: string
+  ): Promise<IAuthResponse> {
     try {
       const user = await this.userRepository.findOneOrFail({
-        where: { id: credentials.userId }
+        where: { id: credentials.userId },
+        select: ['id', 'email', 'role', 'permissions', 'mfaEnabled', 'mfaSecret', 'lastLoginAt']
       });
 
-      const isValid = await user.verifyMfaToken(credentials.code);
+      const isValid = await this.verifySecondFactor(user, credentials.code, credentials.method);
       if (!isValid) {
         throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
       }
@@ -141,14 +194,18 @@ export class AuthService {
         sub: user.id,
         email: user.email,
         role: user.role,
+        deviceId: deviceInfo.deviceId,
         mfaVerified: true
       });
 
+      // Carry the password login's session over to the verified tokens
+      const sessionId = await this.upgradeSession(user.id, loginAccessToken, tokens, deviceInfo);
+
       return {
         user: user.toAuthUser(),
         tokens,
         mfaRequired: false,
-        sessionId: tokens.accessToken
+        sessionId
       };
     } catch (error) {
       this.logger.error('MFA verification failed', {
@@ -176,12 +233,13 @@ export class AuthService {
       }
 
       const tokens = await this.tokenService.refreshTokens(refreshToken);
+      const sessionId = await this.rotateSession(user.id, refreshToken, tokens, deviceInfo);
 
       return {
         user: user.toAuthUser(),
         tokens,
         mfaRequired: false,
-        sessionId: tokens.accessToken
+        sessionId
       };
     } catch (error) {
       this.logger.error('Token refresh failed', {
@@ -192,6 +250,508 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start signing in with an identity provider
+   */
+  public async startOAuthLogin(provider: string): Promise<IOAuthAuthorization> {
+    if (!this.oauthService.isSupported(provider)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+    return this.oauthService.createAuthorization(provider);
+  }
+
+  /**
+   * Finish signing in with an identity provider. Signs in the account linked
+   * to the identity, links an existing account with the same verified email,
+   * or creates a new account.
+   */
+  public async oauthLogin(
+    provider: string,
+    code: string,
+    state: string,
+    deviceInfo: IDeviceInfo
+  ): Promise<IAuthResponse> {
+    if (!this.oauthService.isSupported(provider)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    const identity = await this.oauthService.completeAuthorization(provider, code, state);
+    const user = await this.resolveOAuthUser(identity, deviceInfo);
+
+    const deviceTrusted = await this.validateDevice(user.id, deviceInfo);
+    const tokens = await this.tokenService.generateTokens({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      deviceId: deviceInfo.deviceId
+    });
+    const sessionId = await this.createSession(user.id, tokens, deviceInfo);
+
+    await this.logger.security('User authenticated with identity provider', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.INFO,
+      userId: user.id,
+      resourceType: 'oauth_provider',
+      resourceId: provider,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent
+    });
+
+    return {
+      user: user.toAuthUser(),
+      tokens,
+      mfaRequired: user.mfaEnabled && !deviceTrusted,
+      sessionId
+    };
+  }
+
+  /**
+   * Start SP-initiated SAML sign-in for an organisation
+   */
+  public async startSamlLogin(organization: string): Promise<ISamlLoginRequest> {
+    return this.samlService.createLoginRequest(organization);
+  }
+
+  /**
+   * Sign in with a SAML response posted by the organisation's identity
+   * provider, provisioning the account on first sign-in. The browser arrives
+   * through a form POST rather than the web app, so the result is parked
+   * behind a short-lived single-use ticket for the web app to redeem.
+   * @returns Sign-in ticket
+   */
+  public async samlLogin(
+    organization: string,
+    samlResponse: string,
+    deviceInfo: IDeviceInfo
+  ): Promise<string> {
+    const identity = await this.samlService.completeLogin(organization, samlResponse);
+    const user = await this.resolveSamlUser(identity, deviceInfo);
+
+    const deviceTrusted = await this.validateDevice(user.id, deviceInfo);
+    const tokens = await this.tokenService.generateTokens({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      deviceId: deviceInfo.deviceId
+    });
+    const sessionId = await this.createSession(user.id, tokens, deviceInfo);
+
+    const authResponse: IAuthResponse = {
+      user: user.toAuthUser(),
+      tokens,
+      mfaRequired: user.mfaEnabled && !deviceTrusted,
+      sessionId
+    };
+    const ticket = randomBytes(32).toString('base64url');
+    await this.redisClient.set(
+      `${SAML_TICKET_PREFIX}${ticket}`,
+      JSON.stringify(authResponse),
+      'EX',
+      authConfig.samlConfig.ticketTtl
+    );
+
+    await this.logger.security(
+      identity.idpInitiated ? 'User authenticated with IdP-initiated SAML' : 'User authenticated with SAML',
+      {
+        eventType: SecurityEventType.AUTH_SUCCESS,
+        severity: SecuritySeverity.INFO,
+        userId: user.id,
+        resourceType: 'saml_connection',
+        resourceId: organization,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      }
+    );
+
+    return ticket;
+  }
+
+  /**
+   * Exchange a SAML sign-in ticket for the session it holds. Tickets are
+   * deleted as they are read.
+   */
+  public async redeemSamlTicket(ticket: string): Promise<IAuthResponse> {
+    const stored = await this.redisClient.getdel(`${SAML_TICKET_PREFIX}${ticket}`);
+    if (!stored) {
+      throw new Error(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    }
+    return JSON.parse(stored);
+  }
+
+  /**
+   * List a user's signed-in sessions, most recently active first
+   * @param currentAccessToken Access token of the requesting session, flagged as current
+   */
+  public async listSessions(userId: string, currentAccessToken?: string): Promise<ISessionInfo[]> {
+    const sessions = await this.loadSessions(userId);
+
+    return sessions
+      .sort((a, b) => b.record.lastActiveAt.localeCompare(a.record.lastActiveAt))
+      .map(({ id, record }) => ({
+        id,
+        deviceId: record.deviceId,
+        userAgent: record.userAgent,
+        ipAddress: record.ipAddress,
+        createdAt: new Date(record.createdAt),
+        lastActiveAt: new Date(record.lastActiveAt),
+        current: !!currentAccessToken && record.accessToken === currentAccessToken
+      }));
+  }
+
+  /**
+   * Sign out one of a user's sessions
+   */
+  public async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = (await this.loadSessions(userId)).find(({ id }) => id === sessionId);
+    if (!session) {
+      throw new Error(ErrorCodes.SESSION_NOT_FOUND.toString());
+    }
+
+    await this.destroySession(userId, session);
+
+    await this.logger.security('Session revoked', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.MEDIUM,
+      userId,
+      ipAddress: session.record.ipAddress,
+      userAgent: session.record.userAgent
+    });
+  }
+
+  /**
+   * Sign out every session except the one making the request
+   * @returns Number of sessions signed out
+   */
+  public async revokeOtherSessions(userId: string, currentAccessToken: string): Promise<number> {
+    const sessions = await this.loadSessions(userId);
+
+    // Without a matching session every session would count as "other"
+    if (!sessions.some(({ record }) => record.accessToken === currentAccessToken)) {
+      throw new Error(ErrorCodes.SESSION_NOT_FOUND.toString());
+    }
+
+    const others = sessions.filter(({ record }) => record.accessToken !== currentAccessToken);
+    for (const session of others) {
+      await this.destroySession(userId, session);
+    }
+
+    await this.logger.security('Other sessions revoked', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.MEDIUM,
+      userId
+    });
+
+    return others.length;
+  }
+
+  /**
+   * Current second-factor configuration, without any secrets
+   */
+  public async getMfaStatus(userId: string): Promise<IMFAStatus> {
+    const user = await this.userRepository.findOneOrFail({
+      where: { id: userId },
+      select: ['id', 'mfaEnabled', 'mfaMethods', 'mfaBackupCodes']
+    });
+    return user.toMfaStatus();
+  }
+
+  /**
+   * Start TOTP enrollment. The new secret is parked in Redis until the user
+   * confirms a code from their authenticator app, so an abandoned setup never
+   * locks them out.
+   */
+  public async startTotpEnrollment(userId: string): Promise<IMFAEnrollment> {
+    const { issuer, enrollmentTtl } = authConfig.mfaSettings;
+    const user = await this.userRepository.findOneOrFail({
+      where: { id: userId },
+      select: ['id', 'email', 'mfaEnabled']
+    });
+
+    if (user.mfaEnabled) {
+      throw new Error(ErrorCodes.MFA_ALREADY_ENABLED.toString());
+    }
+
+    // generateMfaSecret leaves the encrypted form on the entity
+    const secret = await user.generateMfaSecret();
+    await this.redisClient.set(`${MFA_ENROLLMENT_PREFIX}${user.id}`, user.mfaSecret!, 'EX', enrollmentTtl);
+
+    const otpauthUrl = authenticator.keyuri(user.email, issuer, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await toDataURL(otpauthUrl),
+      expiresAt: new Date(Date.now() + enrollmentTtl * 1000)
+    };
+  }
+
+  /**
+   * Finish TOTP enrollment with the first code from the authenticator app.
+   * Returns the backup codes, which are only ever shown this once.
+   */
+  public async confirmTotpEnrollment(userId: string, code: string): Promise<string[]> {
+    const enrollmentKey = `${MFA_ENROLLMENT_PREFIX}${userId}`;
+    const pendingSecret = await this.redisClient.get(enrollmentKey);
+    if (!pendingSecret) {
+      throw new Error(ErrorCodes.MFA_ENROLLMENT_EXPIRED.toString());
+    }
+
+    const user = await this.userRepository.findOneOrFail({ where: { id: userId } });
+    if (user.mfaEnabled) {
+      throw new Error(ErrorCodes.MFA_ALREADY_ENABLED.toString());
+    }
+
+    user.mfaSecret = pendingSecret;
+    if (!(await user.verifyMfaToken(code))) {
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    const { codes, hashes } = this.generateBackupCodes();
+    await this.userRepository.updateMFAStatus(user.id, true, user.decryptMfaSecret(), hashes);
+    await this.redisClient.del(enrollmentKey);
+
+    await this.logger.security('MFA enabled', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.HIGH,
+      userId: user.id
+    });
+
+    return codes;
+  }
+
+  /**
+   * Replace every backup code after the user re-enters their password
+   */
+  public async regenerateBackupCodes(userId: string, password: string): Promise<string[]> {
+    const user = await this.getUserForReauthentication(userId, password);
+
+    const { codes, hashes } = this.generateBackupCodes();
+    await this.userRepository.replaceBackupCodes(user.id, hashes);
+
+    await this.logger.security('MFA backup codes regenerated', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.MEDIUM,
+      userId: user.id
+    });
+
+    return codes;
+  }
+
+  /**
+   * Turn MFA off. Needs the password and a current second factor, so a
+   * hijacked session alone cannot strip the account's protection.
+   */
+  public async disableMfa(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUserForReauthentication(userId, password);
+
+    if (!(await this.verifySecondFactor(user, code))) {
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    await this.userRepository.updateMFAStatus(user.id, false);
+
+    await this.logger.security('MFA disabled', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.HIGH,
+      userId: user.id
+    });
+  }
+
+  /**
+   * Email a single-use password reset link. Resolves the same way whether or
+   * not the address belongs to an account, so it cannot be used to probe for
+   * registered emails.
+   */
+  public async requestPasswordReset(email: string, deviceInfo: IDeviceInfo): Promise<void> {
+    const { passwordReset } = authConfig.rateLimiting;
+    const { tokenTtl, tokenBytes, resetUrl } = authConfig.passwordResetConfig;
+    const normalizedEmail = email.toLowerCase();
+
+    const attemptsKey = `${PASSWORD_RESET_ATTEMPTS_PREFIX}${normalizedEmail}`;
+    const attempts = await this.redisClient.incr(attemptsKey);
+    if (attempts === 1) {
+      await this.redisClient.expire(attemptsKey, Math.floor(passwordReset.windowMs / 1000));
+    }
+    if (attempts > passwordReset.maxAttempts) {
+      await this.logger.security('Password reset requests exceeded', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.MEDIUM,
+        resourceType: 'user',
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      });
+      return;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { email: normalizedEmail },
+      select: ['id', 'email']
+    });
+    if (!user) {
+      return;
+    }
+
+    // Only the most recently emailed link stays valid
+    await this.resetTokenRepository
+      .createQueryBuilder()
+      .update()
+      .set({ usedAt: () => 'NOW()' })
+      .where('user_id = :userId AND used_at IS NULL', { userId: user.id })
+      .execute();
+
+    const token = randomBytes(tokenBytes).toString('base64url');
+    await this.resetTokenRepository.save(new PasswordResetToken({
+      userId: user.id,
+      tokenHash: this.hashResetToken(token),
+      expiresAt: new Date(Date.now() + tokenTtl * 1000),
+      requestedIp: deviceInfo.ipAddress,
+      requestedUserAgent: deviceInfo.userAgent
+    }));
+
+    // Sent by the notification service. A failure to queue is logged rather
+    // than returned, which would reveal the account exists
+    try {
+      await enqueueNotificationRequest(this.redisClient, {
+        kind: 'email',
+        type: TransactionalEmailType.PASSWORD_RESET,
+        to: user.email,
+        context: {
+          email: user.email,
+          link: `${resetUrl}?token=${encodeURIComponent(token)}`,
+          expiresInMinutes: Math.floor(tokenTtl / 60)
+        }
+      });
+    } catch (error) {
+      this.logger.error('Password reset email failed', {
+        error,
+        userId: user.id,
+        code: ErrorCodes.EXTERNAL_SERVICE_TIMEOUT
+      });
+    }
+
+    await this.logger.security('Password reset requested', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.INFO,
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent
+    });
+  }
+
+  /**
+   * Set a new password using an emailed reset token. The token is consumed
+   * atomically, and every existing session is signed out afterwards.
+   */
+  public async confirmPasswordReset(
+    token: string,
+    newPassword: string,
+    deviceInfo: IDeviceInfo
+  ): Promise<void> {
+    const policy = validatePasswordPolicy(newPassword);
+    if (!policy.isValid) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    // Marking the token used in the same statement that checks it stops two
+    // concurrent requests from both redeeming it
+    const result = await this.resetTokenRepository
+      .createQueryBuilder()
+      .update()
+      .set({ usedAt: () => 'NOW()' })
+      .where('token_hash = :tokenHash AND used_at IS NULL AND expires_at > NOW()', {
+        tokenHash: this.hashResetToken(token)
+      })
+      .returning(['userId'])
+      .execute();
+
+    const userId = result.raw[0]?.user_id;
+    if (!userId) {
+      await this.logger.security('Invalid password reset token used', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.MEDIUM,
+        resourceType: 'user',
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      });
+      throw new Error(ErrorCodes.INVALID_RESET_TOKEN.toString());
+    }
+
+    const user = await this.userRepository.findOneOrFail({ where: { id: userId } });
+    user.password = newPassword;
+    user.failedLoginAttempts = 0;
+    await this.userRepository.save(user);
+
+    await this.revokeAllSessions(user.id);
+    await this.redisClient.del(`login:attempts:${user.email}`);
+
+    await this.logger.security('Password reset completed', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.HIGH,
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent
+    });
+  }
+
+  /**
+   * Load an MFA-enabled user after checking their password again
+   */
+  private async getUserForReauthentication(userId: string, password: string): Promise<User> {
+    const user = await this.userRepository.findOneOrFail({
+      where: { id: userId },
+      select: ['id', 'email', 'password', 'mfaEnabled', 'mfaSecret', 'failedLoginAttempts']
+    });
+
+    if (!user.mfaEnabled) {
+      throw new Error(ErrorCodes.MFA_NOT_ENABLED.toString());
+    }
+    if (!(await user.comparePassword(password))) {
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    return user;
+  }
+
+  /**
+   * Check a TOTP code, or redeem a backup code when one is given instead
+   */
+  private async verifySecondFactor(user: User, code: string, method?: string): Promise<boolean> {
+    const isBackupCode = method
+      ? method.toUpperCase() === MFAMethod.BACKUP_CODE
+      : !TOTP_CODE_PATTERN.test(code);
+
+    if (isBackupCode) {
+      return this.userRepository.consumeBackupCode(user.id, this.hashBackupCode(code));
+    }
+    return user.verifyMfaToken(code);
+  }
+
+  /**
+   * Generate a fresh set of backup codes with the hashes to store
+   */
+  private generateBackupCodes(): { codes: string[]; hashes: string[] } {
+    const { backupCodesCount, backupCodesLength } = authConfig.mfaSettings;
+    const codes: string[] = [];
+
+    for (let i = 0; i < backupCodesCount; i++) {
+      // 256 is a multiple of the alphabet size, so every character is equally likely
+      const characters = Array.from(randomBytes(backupCodesLength))
+        .map(byte => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length])
+        .join('');
+      codes.push(characters.match(/.{1,4}/g)!.join('-'));
+    }
+
+    return { codes, hashes: codes.map(code => this.hashBackupCode(code)) };
+  }
+
+  /**
+   * Hash a backup code, ignoring case and the grouping dashes
+   */
+  private hashBackupCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
   /**
    * Validate login attempts and rate limiting
    */
@@ -238,20 +798,329 @@ export class AuthService {
   }
 
   /**
-   * Create and store session information
+   * Create and store session information, evicting the least recently
+   * active sessions once the user is over the limit
    */
   private async createSession(
     userId: string,
-    sessionId: string,
+    tokens: IAuthTokens,
     deviceInfo: IDeviceInfo
-  ): Promise<void> {
+  ): Promise<string> {
+    const sessionId = randomUUID();
     const sessionKey = `${SESSION_PREFIX}${userId}:${sessionId}`;
+    const now = new Date().toISOString();
+
     await this.redisClient.hmset(sessionKey, {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       deviceId: deviceInfo.deviceId,
       userAgent: deviceInfo.userAgent,
       ipAddress: deviceInfo.ipAddress,
-      createdAt: new Date().toISOString()
+      createdAt: now,
+      lastActiveAt: now
+    });
+    // A session is over once its refresh token can no longer be used
+    await this.redisClient.expire(sessionKey, authConfig.sessionConfig.refreshTokenDuration);
+    await this.redisClient.sadd(`${SESSION_INDEX_PREFIX}${userId}`, sessionId);
+    await this.redisClient.expire(`${SESSION_INDEX_PREFIX}${userId}`, authConfig.sessionConfig.refreshTokenDuration);
+
+    await this.evictExcessSessions(userId, sessionId);
+    return sessionId;
+  }
+
+  /**
+   * Move the session a refresh token belonged to onto the new tokens
+   */
+  private async rotateSession(
+    userId: string,
+    previousRefreshToken: string,
+    tokens: IAuthTokens,
+    deviceInfo: IDeviceInfo
+  ): Promise<string> {
+    const session = (await this.loadSessions(userId))
+      .find(({ record }) => record.refreshToken === previousRefreshToken);
+
+    if (!session) {
+      return this.createSession(userId, tokens, deviceInfo);
+    }
+
+    await this.updateSession(userId, session, tokens, deviceInfo);
+    return session.id;
+  }
+
+  /**
+   * Move the session a password login opened onto the tokens issued once its
+   * second factor is verified, revoking the tokens issued before it
+   */
+  private async upgradeSession(
+    userId: string,
+    loginAccessToken: string | undefined,
+    tokens: IAuthTokens,
+    deviceInfo: IDeviceInfo
+  ): Promise<string> {
+    const session = loginAccessToken
+      ? (await this.loadSessions(userId)).find(({ record }) => record.accessToken === loginAccessToken)
+      : undefined;
+
+    if (!session) {
+      return this.createSession(userId, tokens, deviceInfo);
+    }
+
+    await this.revokeSessionTokens(userId, session);
+    await this.updateSession(userId, session, tokens, deviceInfo);
+    return session.id;
+  }
+
+  /**
+   * Store new tokens on an existing session and extend its lifetime
+   */
+  private async updateSession(
+    userId: string,
+    session: IStoredSession,
+    tokens: IAuthTokens,
+    deviceInfo: IDeviceInfo
+  ): Promise<void> {
+    await this.redisClient.hmset(session.key, {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      userAgent: deviceInfo.userAgent,
+      ipAddress: deviceInfo.ipAddress,
+      lastActiveAt: new Date().toISOString()
+    });
+    await this.redisClient.expire(session.key, authConfig.sessionConfig.refreshTokenDuration);
+    await this.redisClient.expire(`${SESSION_INDEX_PREFIX}${userId}`, authConfig.sessionConfig.refreshTokenDuration);
+  }
+
+  /**
+   * Sign out the least recently active sessions beyond maxActiveSessions
+   */
+  private async evictExcessSessions(userId: string, keepSessionId: string): Promise<void> {
+    const { maxActiveSessions } = authConfig.sessionConfig;
+    const sessions = await this.loadSessions(userId);
+    if (sessions.length <= maxActiveSessions) {
+      return;
+    }
+
+    const evicted = sessions
+      .filter(({ id }) => id !== keepSessionId)
+      .sort((a, b) => a.record.lastActiveAt.localeCompare(b.record.lastActiveAt))
+      .slice(0, sessions.length - maxActiveSessions);
+
+    for (const session of evicted) {
+      await this.destroySession(userId, session);
+    }
+
+    await this.logger.security('Session limit reached, oldest sessions signed out', {
+      eventType: SecurityEventType.AUTH_SUCCESS,
+      severity: SecuritySeverity.LOW,
+      userId
     });
-    await this.redisClient.expire(sessionKey, DEVICE_TRUST_DURATION);
+  }
+
+  /**
+   * Revoke the access and refresh tokens of every session a user has open
+   */
+  private async revokeAllSessions(userId: string): Promise<void> {
+    for (const session of await this.loadSessions(userId)) {
+      await this.destroySession(userId, session);
+    }
+  }
+
+  /**
+   * Load every stored session of a user
+   */
+  private async loadSessions(userId: string): Promise<IStoredSession[]> {
+    const indexKey = `${SESSION_INDEX_PREFIX}${userId}`;
+    const sessionIds = await this.redisClient.smembers(indexKey);
+    const sessions: IStoredSession[] = [];
+
+    for (const sessionId of sessionIds) {
+      const sessionKey = `${SESSION_PREFIX}${userId}:${sessionId}`;
+      const record = await this.redisClient.hgetall(sessionKey) as unknown as ISessionRecord;
+      // Session hashes expire on their own, so the index can outlive them
+      if (record.accessToken) {
+        sessions.push({ id: sessionId, key: sessionKey, record });
+      } else {
+        await this.redisClient.srem(indexKey, sessionId);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Revoke a session's tokens and delete it
+   */
+  private async destroySession(userId: string, session: IStoredSession): Promise<void> {
+    await this.revokeSessionTokens(userId, session);
+    await this.redisClient.del(session.key);
+    await this.redisClient.srem(`${SESSION_INDEX_PREFIX}${userId}`, session.id);
+  }
+
+  /**
+   * Revoke the access and refresh tokens currently stored on a session
+   */
+  private async revokeSessionTokens(userId: string, session: IStoredSession): Promise<void> {
+    // One malformed token must not leave the user's other sessions signed in
+    try {
+      await this.tokenService.revokeToken(session.record.accessToken);
+      await this.tokenService.revokeToken(session.record.refreshToken);
+    } catch (error) {
+      this.logger.error('Session token revocation failed', {
+        error,
+        userId,
+        code: ErrorCodes.TOKEN_EXPIRED
+      });
+    }
+  }
+
+  /**
+   * Find or create the account for a provider identity
+   */
+  private async resolveOAuthUser(identity: IOAuthIdentity, deviceInfo: IDeviceInfo): Promise<User> {
+    const { allowedDomains, enforceEmailVerification } = authConfig.oauth2Config;
+    const domain = identity.email.split('@')[1];
+
+    // Checked on every sign-in, so removing a domain locks out accounts already linked
+    if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+      await this.logger.security('Identity provider sign-in from disallowed domain', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.MEDIUM,
+        resourceType: 'oauth_provider',
+        resourceId: identity.provider,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      });
+      throw new Error(ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED.toString());
+    }
+
+    const linkedUser = await this.userRepository.findOne({
+      where: { oauthProvider: identity.provider, oauthId: identity.subject }
+    });
+    if (linkedUser) {
+      return linkedUser;
+    }
+
+    // The email is what ties the identity to an account, so the provider must vouch for it
+    if (enforceEmailVerification && !identity.emailVerified) {
+      throw new Error(ErrorCodes.OAUTH_EMAIL_NOT_VERIFIED.toString());
+    }
+
+    const profile = {
+      email: identity.email,
+      name: identity.name,
+      picture: identity.picture,
+      linkedAt: new Date().toISOString()
+    };
+
+    const existingUser = await this.userRepository.findOne({ where: { email: identity.email } });
+    if (existingUser) {
+      const linked = await this.userRepository.linkOAuthIdentity(
+        existingUser.id,
+        identity.provider,
+        identity.subject,
+        profile
+      );
+      if (!linked) {
+        throw new Error(ErrorCodes.OAUTH_ACCOUNT_CONFLICT.toString());
+      }
+
+      await this.logger.security('Identity provider linked to existing account', {
+        eventType: SecurityEventType.AUTH_SUCCESS,
+        severity: SecuritySeverity.MEDIUM,
+        userId: existingUser.id,
+        resourceType: 'oauth_provider',
+        resourceId: identity.provider,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      });
+      return existingUser;
+    }
+
+    return this.userRepository.create({
+      email: identity.email,
+      oauthProvider: identity.provider,
+      oauthId: identity.subject,
+      oauthData: profile
+    });
+  }
+
+  /**
+   * Find, link or provision the account for a SAML identity. The identity
+   * provider manages these accounts, so its role mapping is applied on every
+   * sign-in.
+   */
+  private async resolveSamlUser(identity: ISamlIdentity, deviceInfo: IDeviceInfo): Promise<User> {
+    const profile = {
+      email: identity.email,
+      firstName: identity.firstName,
+      lastName: identity.lastName,
+      organization: identity.organization,
+      linkedAt: new Date().toISOString()
+    };
+
+    let user = await this.userRepository.findOne({
+      where: { oauthProvider: SAML_IDENTITY_PROVIDER, oauthId: identity.subject }
+    });
+
+    if (!user) {
+      user = await this.userRepository.findOne({ where: { email: identity.email } });
+
+      if (!user) {
+        // Just-in-time provisioning on first sign-in
+        const created = await this.userRepository.create({
+          email: identity.email,
+          role: identity.role,
+          oauthProvider: SAML_IDENTITY_PROVIDER,
+          oauthId: identity.subject,
+          oauthData: profile
+        });
+
+        await this.logger.security('User provisioned from SAML assertion', {
+          eventType: SecurityEventType.AUTH_SUCCESS,
+          severity: SecuritySeverity.MEDIUM,
+          userId: created.id,
+          resourceType: 'saml_connection',
+          resourceId: identity.organization,
+          ipAddress: deviceInfo.ipAddress,
+          userAgent: deviceInfo.userAgent
+        });
+        return created;
+      }
+
+      const linked = await this.userRepository.linkOAuthIdentity(
+        user.id,
+        SAML_IDENTITY_PROVIDER,
+        identity.subject,
+        profile
+      );
+      if (!linked) {
+        throw new Error(ErrorCodes.OAUTH_ACCOUNT_CONFLICT.toString());
+      }
+    }
+
+    if (user.role !== identity.role) {
+      await this.userRepository.updateRole(user.id, identity.role);
+
+      await this.logger.security('User role updated from SAML assertion', {
+        eventType: SecurityEventType.CONFIGURATION_CHANGE,
+        severity: SecuritySeverity.HIGH,
+        userId: user.id,
+        resourceType: 'saml_connection',
+        resourceId: identity.organization,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent
+      });
+      user.role = identity.role;
+    }
+
+    return user;
+  }
+
+  /**
+   * Reset tokens are stored hashed, so only the emailed copy can be redeemed
+   */
+  private hashResetToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 }
\ No newline at end of file
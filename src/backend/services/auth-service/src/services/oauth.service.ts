@@ -0,0 +1,302 @@
+/**
+ * OAuth 2.0 / OpenID Connect Service
+ * Version: 1.0.0
+ * Runs the authorization-code flow with PKCE against the configured identity
+ * providers and returns the identity asserted by a verified ID token.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { Redis } from 'ioredis'; // v5.0.0
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose'; // v4.15.x
+import { authConfig } from '../config/auth.config';
+import { Logger, SecurityEventType, SecuritySeverity } from '../../../shared/utils/logger.util';
+import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { IOAuthAuthorization, OAuthProvider } from '../../../shared/interfaces/auth.interface';
+
+// Pending authorizations, keyed by their state parameter
+const STATE_PREFIX = 'oauth:state:';
+// Microsoft's multi-tenant discovery document templates the issuer per tenant
+const TENANT_PLACEHOLDER = '{tenantid}';
+const CLOCK_TOLERANCE = 60; // Seconds
+
+/**
+ * Client registration with one identity provider
+ */
+export interface IOAuthProviderConfig {
+  issuer: string;
+  clientId?: string;
+  clientSecret?: string;
+  callbackUrl?: string;
+  scopes: readonly string[];
+}
+
+/**
+ * Identity asserted by a provider's ID token
+ */
+export interface IOAuthIdentity {
+  provider: OAuthProvider;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+interface IProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IPendingAuthorization {
+  provider: OAuthProvider;
+  codeVerifier: string;
+  nonce: string;
+}
+
+interface IDiscoveredProvider {
+  metadata: IProviderMetadata;
+  jwks: ReturnType<typeof createRemoteJWKSet>;
+  fetchedAt: number;
+}
+
+@Injectable()
+export class OAuthService {
+  private readonly logger: Logger;
+  private readonly discovered = new Map<OAuthProvider, IDiscoveredProvider>();
+
+  constructor(
+    private readonly redisClient: Redis,
+    private readonly providers: Record<OAuthProvider, IOAuthProviderConfig> = authConfig.oauth2Config.providers
+  ) {
+    this.logger = Logger.getInstance('OAuthService', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Whether a provider is known and has a client registered
+   */
+  public isSupported(provider: string): provider is OAuthProvider {
+    return Object.values(OAuthProvider).includes(provider as OAuthProvider) &&
+      !!this.providers[provider as OAuthProvider]?.clientId;
+  }
+
+  /**
+   * Build the provider authorization URL. The PKCE verifier and nonce stay in
+   * Redis under the state, so the browser only ever sees the challenge.
+   */
+  public async createAuthorization(provider: OAuthProvider): Promise<IOAuthAuthorization> {
+    const config = this.getProviderConfig(provider);
+    const { metadata } = await this.discover(provider);
+    const { stateTtl } = authConfig.oauth2Config;
+
+    const state = randomBytes(32).toString('base64url');
+    const pending: IPendingAuthorization = {
+      provider,
+      codeVerifier: randomBytes(32).toString('base64url'),
+      nonce: randomBytes(16).toString('base64url')
+    };
+    await this.redisClient.set(`${STATE_PREFIX}${state}`, JSON.stringify(pending), 'EX', stateTtl);
+
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    authorizationUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.clientId,
+      redirect_uri: config.callbackUrl,
+      scope: config.scopes.join(' '),
+      state,
+      nonce: pending.nonce,
+      code_challenge: createHash('sha256').update(pending.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256'
+    }).toString();
+
+    return {
+      authorizationUrl: authorizationUrl.toString(),
+      state,
+      expiresAt: new Date(Date.now() + stateTtl * 1000)
+    };
+  }
+
+  /**
+   * Redeem an authorization code for the user's identity. The state is
+   * deleted as it is read, so each sign-in can be completed only once.
+   */
+  public async completeAuthorization(
+    provider: OAuthProvider,
+    code: string,
+    state: string
+  ): Promise<IOAuthIdentity> {
+    const stored = await this.redisClient.getdel(`${STATE_PREFIX}${state}`);
+    const pending: IPendingAuthorization | null = stored ? JSON.parse(stored) : null;
+
+    // A state issued for one provider must not be redeemed at another
+    if (!pending || pending.provider !== provider) {
+      throw new Error(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    }
+
+    const idToken = await this.exchangeCode(provider, code, pending.codeVerifier);
+    const claims = await this.verifyIdToken(provider, idToken, pending.nonce);
+
+    if (typeof claims.email !== 'string' || !claims.sub) {
+      throw new Error(ErrorCodes.OAUTH_EMAIL_NOT_VERIFIED.toString());
+    }
+
+    return {
+      provider,
+      subject: claims.sub,
+      email: claims.email.toLowerCase(),
+      // Microsoft only asserts verification through the optional xms_edov claim
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true' || claims.xms_edov === true,
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+      picture: typeof claims.picture === 'string' ? claims.picture : undefined
+    };
+  }
+
+  /**
+   * Configuration of a provider that has a client registered; sign-in
+   * cannot go through a provider without one
+   */
+  private getProviderConfig(provider: OAuthProvider): IOAuthProviderConfig & { clientId: string; callbackUrl: string } {
+    const config = this.providers[provider];
+    if (!config?.clientId || !config.callbackUrl) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+    return { ...config, clientId: config.clientId, callbackUrl: config.callbackUrl };
+  }
+
+  /**
+   * Exchange the code at the token endpoint, proving possession of the verifier
+   */
+  private async exchangeCode(provider: OAuthProvider, code: string, codeVerifier: string): Promise<string> {
+    const config = this.getProviderConfig(provider);
+    const { metadata } = await this.discover(provider);
+
+    const response = await this.request(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json'
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.callbackUrl,
+        client_id: config.clientId,
+        client_secret: config.clientSecret || '',
+        code_verifier: codeVerifier
+      }).toString()
+    });
+
+    // invalid_grant: the code was already used, expired or minted for another client
+    if (response.status === 400) {
+      await this.logger.security('Authorization code rejected by provider', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.LOW,
+        resourceType: 'oauth_provider',
+        resourceId: provider
+      });
+      throw new Error(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    }
+
+    const body = await this.readJson(response, provider);
+    if (typeof body.id_token !== 'string') {
+      this.logger.error(`Token response from ${provider} did not include an ID token`, { tags: ['oauth'] });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+
+    return body.id_token;
+  }
+
+  /**
+   * Check the ID token signature, issuer, audience, expiry and nonce
+   */
+  private async verifyIdToken(provider: OAuthProvider, idToken: string, nonce: string): Promise<JWTPayload> {
+    const config = this.getProviderConfig(provider);
+    const { metadata, jwks } = await this.discover(provider);
+    const isMultiTenant = metadata.issuer.includes(TENANT_PLACEHOLDER);
+
+    let claims: JWTPayload;
+    try {
+      ({ payload: claims } = await jwtVerify(idToken, jwks, {
+        audience: config.clientId,
+        issuer: isMultiTenant ? undefined : metadata.issuer,
+        clockTolerance: CLOCK_TOLERANCE
+      }));
+    } catch (error) {
+      this.logger.error(`ID token verification failed for ${provider}`, { error: error as Error, tags: ['oauth'] });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+
+    if (isMultiTenant && claims.iss !== metadata.issuer.replace(TENANT_PLACEHOLDER, String(claims.tid))) {
+      this.logger.error(`ID token issuer ${claims.iss} does not match its tenant`, { tags: ['oauth'] });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+
+    // A token minted for a different sign-in attempt cannot be replayed here
+    if (claims.nonce !== nonce) {
+      throw new Error(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    }
+
+    return claims;
+  }
+
+  /**
+   * Load and cache the provider's OpenID discovery document and signing keys
+   */
+  private async discover(provider: OAuthProvider): Promise<IDiscoveredProvider> {
+    const cached = this.discovered.get(provider);
+    if (cached && Date.now() - cached.fetchedAt < authConfig.oauth2Config.metadataCacheTtl * 1000) {
+      return cached;
+    }
+
+    const issuer = this.getProviderConfig(provider).issuer.replace(/\/$/, '');
+    const response = await this.request(`${issuer}/.well-known/openid-configuration`);
+    const metadata = await this.readJson(response, provider) as IProviderMetadata;
+
+    if (metadata.issuer !== issuer && !metadata.issuer?.includes(TENANT_PLACEHOLDER)) {
+      this.logger.error(`Discovery issuer ${metadata.issuer} does not match ${provider} configuration`, {
+        tags: ['oauth']
+      });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+
+    const entry: IDiscoveredProvider = {
+      metadata,
+      jwks: createRemoteJWKSet(new URL(metadata.jwks_uri)),
+      fetchedAt: Date.now()
+    };
+    this.discovered.set(provider, entry);
+    return entry;
+  }
+
+  /**
+   * Call a provider endpoint, treating network failures as provider errors
+   */
+  private async request(url: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      this.logger.error(`Identity provider request to ${url} failed`, { error: error as Error, tags: ['oauth'] });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+  }
+
+  /**
+   * Parse a successful JSON response from a provider
+   */
+  private async readJson(response: Response, provider: OAuthProvider): Promise<Record<string, any>> {
+    if (!response.ok) {
+      this.logger.error(`Identity provider ${provider} responded with ${response.status}`, {
+        tags: ['oauth']
+      });
+      throw new Error(ErrorCodes.OAUTH_PROVIDER_ERROR.toString());
+    }
+    return response.json();
+  }
+}
+
+export default OAuthService;
\ No newline at end of file
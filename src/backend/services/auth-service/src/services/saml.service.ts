@@ -0,0 +1,341 @@
+/**
+ * SAML 2.0 Single Sign-On Service
+ * Version: 1.0.0
+ * Runs SP-initiated and IdP-initiated SAML sign-in against each organisation's
+ * identity provider and maps signed assertions to user identities.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { createHash, X509Certificate } from 'crypto';
+import { Redis } from 'ioredis'; // v5.0.0
+import { CacheProvider, Profile, SAML, ValidateInResponseTo } from '@node-saml/node-saml'; // v4.0.x
+import { DOMParser } from '@xmldom/xmldom'; // v0.8.x
+import { SamlConnection } from '../models/saml-connection.model';
+import { authConfig } from '../config/auth.config';
+import { Logger, SecurityEventType, SecuritySeverity } from '../../../shared/utils/logger.util';
+import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { ISamlConnection, ISamlLoginRequest, UserRole } from '../../../shared/interfaces/auth.interface';
+
+// Outstanding AuthnRequest IDs, checked against InResponseTo
+const REQUEST_PREFIX = 'saml:request:';
+// Hashes of consumed responses, so a captured POST cannot be replayed
+const RESPONSE_PREFIX = 'saml:response:';
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const EMAIL_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+/**
+ * Connection settings accepted from administrators. IdP endpoint and
+ * certificate may be given directly or read from the IdP's metadata XML.
+ */
+export type SamlConnectionInput =
+  Omit<ISamlConnection, 'organization' | 'idpEntityId' | 'idpSsoUrl' | 'idpCertificate'> &
+  Partial<Pick<ISamlConnection, 'idpEntityId' | 'idpSsoUrl' | 'idpCertificate'>> & {
+    idpMetadata?: string;
+  };
+
+/**
+ * Identity asserted by an organisation's identity provider
+ */
+export interface ISamlIdentity {
+  organization: string;
+  // Connection-scoped NameID, stable for the life of the IdP account
+  subject: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: UserRole;
+  idpInitiated: boolean;
+}
+
+@Injectable()
+export class SamlService {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly connectionRepository: Repository<SamlConnection>,
+    private readonly redisClient: Redis
+  ) {
+    this.logger = Logger.getInstance('SamlService', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * An organisation's connection, enabled or not, for administration
+   */
+  public async getConnection(organization: string): Promise<ISamlConnection> {
+    const connection = await this.connectionRepository.findOne({ where: { organization } });
+    if (!connection) {
+      throw new Error(ErrorCodes.SAML_CONNECTION_NOT_FOUND.toString());
+    }
+    return connection.toConnection();
+  }
+
+  /**
+   * Create or replace an organisation's connection
+   * @param updatedBy Administrator making the change
+   */
+  public async saveConnection(
+    organization: string,
+    input: SamlConnectionInput,
+    updatedBy: string
+  ): Promise<ISamlConnection> {
+    const { idpMetadata, ...settings } = input;
+    const idp = idpMetadata ? this.parseIdpMetadata(idpMetadata) : settings;
+
+    if (!idp.idpEntityId || !idp.idpSsoUrl || !idp.idpCertificate) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    const existing = await this.connectionRepository.findOne({ where: { organization } });
+    const connection = await this.connectionRepository.save(new SamlConnection({
+      ...existing,
+      ...settings,
+      organization,
+      idpEntityId: idp.idpEntityId,
+      idpSsoUrl: idp.idpSsoUrl,
+      idpCertificate: this.normalizeCertificate(idp.idpCertificate),
+      emailDomains: settings.emailDomains.map(domain => domain.trim().toLowerCase()),
+      updatedBy
+    }));
+
+    await this.logger.security('SAML connection saved', {
+      eventType: SecurityEventType.CONFIGURATION_CHANGE,
+      severity: SecuritySeverity.HIGH,
+      userId: updatedBy,
+      resourceType: 'saml_connection',
+      resourceId: organization
+    });
+
+    return connection.toConnection();
+  }
+
+  /**
+   * Build the redirect to the organisation's identity provider. The request
+   * ID is kept in Redis so only a response to it is accepted.
+   */
+  public async createLoginRequest(organization: string): Promise<ISamlLoginRequest> {
+    const connection = await this.findEnabledConnection(organization);
+    const redirectUrl = await this.createClient(connection).getAuthorizeUrlAsync('', undefined, {});
+
+    return {
+      redirectUrl,
+      expiresAt: new Date(Date.now() + authConfig.samlConfig.requestTtl * 1000)
+    };
+  }
+
+  /**
+   * Validate a SAMLResponse posted to the assertion consumer service and
+   * return the identity it asserts
+   */
+  public async completeLogin(organization: string, samlResponse: string): Promise<ISamlIdentity> {
+    const connection = await this.findEnabledConnection(organization);
+
+    let profile: Profile | null;
+    try {
+      ({ profile } = await this.createClient(connection).validatePostResponseAsync({ SAMLResponse: samlResponse }));
+    } catch (error) {
+      await this.logger.security('SAML response rejected', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.MEDIUM,
+        resourceType: 'saml_connection',
+        resourceId: organization
+      });
+      this.logger.error(`SAML response validation failed for ${organization}`, {
+        error: error as Error,
+        tags: ['saml']
+      });
+      throw new Error(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+    }
+
+    if (!profile?.nameID) {
+      throw new Error(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+    }
+
+    // Signed responses stay valid for minutes, so each one is accepted once
+    const responseHash = createHash('sha256').update(samlResponse).digest('hex');
+    const firstUse = await this.redisClient.set(
+      `${RESPONSE_PREFIX}${responseHash}`,
+      '1',
+      'EX',
+      authConfig.samlConfig.maxAssertionAge,
+      'NX'
+    );
+    if (!firstUse) {
+      throw new Error(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+    }
+
+    const { attributeMapping } = connection;
+    const email = (
+      this.readAttribute(profile, attributeMapping.email) ??
+      (profile.nameIDFormat === EMAIL_NAME_ID_FORMAT ? profile.nameID : undefined)
+    )?.toLowerCase();
+
+    // The connection only speaks for the organisation's own domains
+    if (!email || !connection.emailDomains.includes(email.split('@')[1])) {
+      await this.logger.security('SAML assertion for email outside organisation domains', {
+        eventType: SecurityEventType.AUTH_FAILURE,
+        severity: SecuritySeverity.HIGH,
+        resourceType: 'saml_connection',
+        resourceId: organization
+      });
+      throw new Error(ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED.toString());
+    }
+
+    return {
+      organization,
+      subject: `${connection.id}:${profile.nameID}`,
+      email,
+      firstName: this.readAttribute(profile, attributeMapping.firstName),
+      lastName: this.readAttribute(profile, attributeMapping.lastName),
+      role: this.mapRole(connection, profile),
+      idpInitiated: !profile.inResponseTo
+    };
+  }
+
+  /**
+   * Service provider metadata for the organisation's IdP administrator
+   */
+  public async getServiceProviderMetadata(organization: string): Promise<string> {
+    const connection = await this.findEnabledConnection(organization);
+    const { signingCertificate } = authConfig.samlConfig;
+    return this.createClient(connection).generateServiceProviderMetadata(null, signingCertificate ?? null);
+  }
+
+  private async findEnabledConnection(organization: string): Promise<SamlConnection> {
+    const connection = await this.connectionRepository.findOne({ where: { organization, enabled: true } });
+    if (!connection) {
+      throw new Error(ErrorCodes.SAML_CONNECTION_NOT_FOUND.toString());
+    }
+    return connection;
+  }
+
+  /**
+   * SAML client for one connection. Assertions must be signed by the
+   * connection's certificate; unsolicited responses are only accepted when
+   * the connection allows IdP-initiated sign-in.
+   */
+  private createClient(connection: SamlConnection): SAML {
+    const { spEntityId, acsUrl, signingKey, requestTtl, maxAssertionAge, clockSkewMs } = authConfig.samlConfig;
+
+    return new SAML({
+      issuer: spEntityId,
+      audience: spEntityId,
+      callbackUrl: acsUrl.replace(':organization', connection.organization),
+      entryPoint: connection.idpSsoUrl,
+      idpIssuer: connection.idpEntityId,
+      cert: connection.idpCertificate,
+      privateKey: signingKey,
+      signatureAlgorithm: 'sha256',
+      wantAssertionsSigned: true,
+      // Many IdPs sign only the assertion, which is what carries the identity
+      wantAuthnResponseSigned: false,
+      identifierFormat: null,
+      disableRequestedAuthnContext: true,
+      validateInResponseTo: connection.allowIdpInitiated
+        ? ValidateInResponseTo.ifPresent
+        : ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: requestTtl * 1000,
+      maxAssertionAgeMs: maxAssertionAge * 1000,
+      acceptedClockSkewMs: clockSkewMs,
+      cacheProvider: this.createRequestCache(connection.organization)
+    });
+  }
+
+  /**
+   * Redis-backed store for outstanding request IDs, scoped to one organisation
+   */
+  private createRequestCache(organization: string): CacheProvider {
+    const prefix = `${REQUEST_PREFIX}${organization}:`;
+    const { requestTtl } = authConfig.samlConfig;
+
+    return {
+      saveAsync: async (key: string, value: string) => {
+        await this.redisClient.set(`${prefix}${key}`, value, 'EX', requestTtl);
+        return { value, createdAt: Date.now() };
+      },
+      getAsync: (key: string) => this.redisClient.get(`${prefix}${key}`),
+      removeAsync: (key: string | null) => key ? this.redisClient.getdel(`${prefix}${key}`) : Promise.resolve(null)
+    };
+  }
+
+  /**
+   * The most privileged role granted by any of the user's role attribute
+   * values, or the connection's default role
+   */
+  private mapRole(connection: SamlConnection, profile: Profile): UserRole {
+    const { role: roleAttribute } = connection.attributeMapping;
+    const values = roleAttribute ? this.readAttributeValues(profile, roleAttribute) : [];
+
+    return values
+      .map(value => connection.roleMapping[value])
+      .filter((role): role is UserRole => !!role)
+      .reduce(
+        (highest, role) =>
+          (authConfig.roleHierarchy[role]?.level ?? 0) > (authConfig.roleHierarchy[highest]?.level ?? 0) ? role : highest,
+        connection.defaultRole
+      );
+  }
+
+  private readAttribute(profile: Profile, name?: string): string | undefined {
+    return name ? this.readAttributeValues(profile, name)[0] : undefined;
+  }
+
+  private readAttributeValues(profile: Profile, name: string): string[] {
+    const attributes = (profile.attributes ?? profile) as Record<string, unknown>;
+    const value = attributes[name];
+    return (Array.isArray(value) ? value : [value])
+      .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      .map(item => item.trim());
+  }
+
+  /**
+   * Read the entity ID, redirect-binding SSO URL and signing certificate
+   * from an IdP's metadata document
+   */
+  private parseIdpMetadata(xml: string): Pick<ISamlConnection, 'idpEntityId' | 'idpSsoUrl' | 'idpCertificate'> {
+    const document = new DOMParser().parseFromString(xml, 'text/xml');
+    const entity = document.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+    const idp = entity?.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+
+    const ssoService = Array.from(idp?.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService') ?? [])
+      .find(element => element.getAttribute('Binding') === REDIRECT_BINDING);
+    const signingKey = Array.from(idp?.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor') ?? [])
+      .find(element => (element.getAttribute('use') || 'signing') === 'signing');
+    const certificate = signingKey?.getElementsByTagNameNS(DSIG_NS, 'X509Certificate')[0]?.textContent;
+
+    if (!entity?.getAttribute('entityID') || !ssoService?.getAttribute('Location') || !certificate) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    return {
+      idpEntityId: entity.getAttribute('entityID')!,
+      idpSsoUrl: ssoService.getAttribute('Location')!,
+      idpCertificate: certificate
+    };
+  }
+
+  /**
+   * Accept PEM or bare base64 certificates, store PEM, and reject anything
+   * that does not parse
+   */
+  private normalizeCertificate(certificate: string): string {
+    const body = certificate
+      .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+      .replace(/\s+/g, '');
+    const pem = `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----`;
+
+    try {
+      new X509Certificate(pem);
+    } catch {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+    return pem;
+  }
+}
+
+export default SamlService;
\ No newline at end of file
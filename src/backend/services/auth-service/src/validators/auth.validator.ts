@@ -9,18 +9,22 @@ import Joi from 'joi'; // v17.9.0
 import zxcvbn from 'zxcvbn'; // v4.4.2
 import disposableEmailDomains from 'disposable-email-domains'; // v1.0.62
 import winston from 'winston'; // v3.8.2
-import { IAuthCredentials, IMFACredentials } from '../../../shared/interfaces/auth.interface';
+import { IAuthCredentials, IMFACredentials, UserRole } from '../../../shared/interfaces/auth.interface';
 import { validateAuthCredentials as commonValidateAuth } from '../../../shared/validators/common.validator';
 
 // Validation Constants
 const PASSWORD_MIN_LENGTH = 8;
 const PASSWORD_MAX_LENGTH = 100;
 const MFA_CODE_LENGTH = 6;
-const ALLOWED_MFA_METHODS = ['totp', 'sms'];
+const ALLOWED_MFA_METHODS = ['totp', 'sms', 'backup_code'];
+const BACKUP_CODE_PATTERN = /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/;
 const MAX_VALIDATION_ATTEMPTS = 5;
 const VALIDATION_COOLDOWN_MS = 30000;
 const CACHE_TTL_MS = 300000;
 const MIN_PASSWORD_STRENGTH = 3;
+// Organisation identifiers appear in SAML login and ACS URLs
+export const ORGANIZATION_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const SAML_RESPONSE_MAX_LENGTH = 200000;
 
 // Initialize security logger
 const securityLogger = winston.createLogger({
@@ -89,6 +93,21 @@ export const registrationSchema = Joi.object({
   }).required()
 }).options({ stripUnknown: true });
 
+/**
+ * Password reset request validation schema
+ */
+export const passwordResetRequestSchema = Joi.object({
+  email: Joi.string()
+    .required()
+    .email()
+    .max(255),
+  deviceInfo: Joi.object({
+    userAgent: Joi.string().required().max(500),
+    ipAddress: Joi.string().ip().required(),
+    deviceId: Joi.string().max(100)
+  }).required()
+}).options({ stripUnknown: true });
+
 /**
  * Enhanced password reset validation schema
  */
@@ -108,23 +127,111 @@ export const passwordResetSchema = Joi.object({
   }).required()
 }).options({ stripUnknown: true });
 
+/**
+ * Identity provider callback validation schema
+ */
+export const oauthCallbackSchema = Joi.object({
+  code: Joi.string().required().max(2048),
+  state: Joi.string().required().max(256)
+}).options({ stripUnknown: true });
+
+/**
+ * SAML assertion consumer service POST validation schema
+ */
+export const samlResponseSchema = Joi.object({
+  SAMLResponse: Joi.string().required().base64().max(SAML_RESPONSE_MAX_LENGTH),
+  RelayState: Joi.string().allow('').max(1024)
+}).options({ stripUnknown: true });
+
+/**
+ * SAML sign-in ticket redemption validation schema
+ */
+export const samlTicketSchema = Joi.object({
+  ticket: Joi.string().required().max(128)
+}).options({ stripUnknown: true });
+
+/**
+ * Per-organisation SAML connection validation schema. The identity provider
+ * is given either as its metadata XML or as entity ID, SSO URL and certificate.
+ */
+export const samlConnectionSchema = Joi.object({
+  name: Joi.string().required().trim().max(255),
+  emailDomains: Joi.array().items(Joi.string().domain()).min(1).unique().required(),
+  idpMetadata: Joi.string().max(100000),
+  idpEntityId: Joi.string().max(1024),
+  idpSsoUrl: Joi.string().uri({ scheme: ['https', 'http'] }).max(2048),
+  idpCertificate: Joi.string().max(10000),
+  attributeMapping: Joi.object({
+    email: Joi.string().required().max(255),
+    firstName: Joi.string().max(255),
+    lastName: Joi.string().max(255),
+    role: Joi.string().max(255)
+  }).required(),
+  roleMapping: Joi.object().pattern(
+    Joi.string().max(255),
+    Joi.string().valid(...Object.values(UserRole))
+  ).default({}),
+  defaultRole: Joi.string().valid(...Object.values(UserRole)).default(UserRole.TEAM_MEMBER),
+  allowIdpInitiated: Joi.boolean().default(false),
+  enabled: Joi.boolean().default(true)
+})
+  .xor('idpMetadata', 'idpEntityId')
+  .with('idpEntityId', ['idpSsoUrl', 'idpCertificate'])
+  .options({ stripUnknown: true });
+
 /**
  * Enhanced MFA verification validation schema
  */
 export const mfaVerificationSchema = Joi.object({
   userId: Joi.string().required().uuid(),
-  code: Joi.string()
-    .required()
-    .length(MFA_CODE_LENGTH)
-    .pattern(/^[0-9]+$/),
+  code: Joi.when('method', {
+    is: Joi.string().valid('backup_code').insensitive(),
+    then: Joi.string().required().pattern(BACKUP_CODE_PATTERN),
+    otherwise: Joi.string()
+      .required()
+      .length(MFA_CODE_LENGTH)
+      .pattern(/^[0-9]+$/)
+  }),
   method: Joi.string()
     .required()
+    .insensitive()
     .valid(...ALLOWED_MFA_METHODS),
   timestamp: Joi.number()
     .required()
     .max(Date.now())
 }).options({ stripUnknown: true });
 
+/**
+ * First authenticator code confirming a TOTP enrollment
+ */
+export const mfaEnrollmentConfirmSchema = Joi.object({
+  code: Joi.string()
+    .required()
+    .length(MFA_CODE_LENGTH)
+    .pattern(/^[0-9]+$/)
+}).options({ stripUnknown: true });
+
+/**
+ * Password re-entry for regenerating backup codes
+ */
+export const mfaReauthenticationSchema = Joi.object({
+  password: Joi.string()
+    .required()
+    .max(PASSWORD_MAX_LENGTH)
+}).options({ stripUnknown: true });
+
+/**
+ * Disabling MFA needs the password and a TOTP or backup code
+ */
+export const mfaDisableSchema = mfaReauthenticationSchema.keys({
+  code: Joi.alternatives()
+    .try(
+      Joi.string().length(MFA_CODE_LENGTH).pattern(/^[0-9]+$/),
+      Joi.string().pattern(BACKUP_CODE_PATTERN)
+    )
+    .required()
+});
+
 /**
  * Validates login credentials with enhanced security checks
  */
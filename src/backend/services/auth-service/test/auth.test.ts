@@ -1,24 +1,49 @@
-import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.0.0
-import { Repository } from 'typeorm'; // v0.3.x
+import { describe, beforeAll, afterAll, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.0.0
 import { Redis } from 'ioredis'; // v5.0.0
+import { createHash } from 'crypto';
 import { AuthService } from '../src/services/auth.service';
 import { TokenService } from '../src/services/token.service';
+import { OAuthService } from '../src/services/oauth.service';
+import { SamlService, ISamlIdentity } from '../src/services/saml.service';
+import { SamlConnection } from '../src/models/saml-connection.model';
+import { SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { authConfig } from '../src/config/auth.config';
+import { MockOidcProvider } from './mock-oidc-provider';
+import { UserRepository } from '../src/repositories/user.repository';
 import { User } from '../src/models/user.model';
+import { getMetadataArgsStorage } from 'typeorm';
+import { authenticator } from 'otplib';
 import { ErrorCodes } from '../../../shared/constants/error-codes';
 import { SecurityEventType, SecuritySeverity } from '../../../shared/utils/logger.util';
-import { UserRole, IAuthResponse, IDeviceInfo } from '../../../shared/interfaces/auth.interface';
+import { NOTIFICATION_REQUEST_QUEUE } from '../../../shared/utils/notification.util';
+import { TransactionalEmailType } from '../../../shared/interfaces/notification.interface';
+import {
+  UserRole,
+  IAuthResponse,
+  IDeviceInfo,
+  OAuthProvider,
+  SAML_IDENTITY_PROVIDER
+} from '../../../shared/interfaces/auth.interface';
 
 // Mock implementations
 jest.mock('ioredis');
 jest.mock('../src/services/token.service');
 jest.mock('../../../shared/utils/logger.util');
+jest.mock('qrcode', () => ({ toDataURL: jest.fn().mockResolvedValue('data:image/png;base64,qr') }));
+jest.mock('@node-saml/node-saml', () => ({
+  SAML: jest.fn(),
+  ValidateInResponseTo: { never: 'never', ifPresent: 'ifPresent', always: 'always' }
+}));
 
 describe('AuthService', () => {
   let authService: AuthService;
-  let mockUserRepository: jest.Mocked<Repository<User>>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
   let mockTokenService: jest.Mocked<TokenService>;
   let mockRedisClient: jest.Mocked<Redis>;
   let mockSecurityService: any;
+  let mockResetTokenRepository: any;
+  let mockResetQueryBuilder: any;
+  let mockSamlService: any;
 
   const mockUser = {
     id: 'test-user-id',
@@ -45,22 +70,36 @@ describe('AuthService', () => {
       findOne: jest.fn(),
       findOneOrFail: jest.fn(),
       save: jest.fn(),
-      update: jest.fn()
+      update: jest.fn(),
+      updateMFAStatus: jest.fn(),
+      replaceBackupCodes: jest.fn(),
+      consumeBackupCode: jest.fn(),
+      linkOAuthIdentity: jest.fn(),
+      updateRole: jest.fn(),
+      create: jest.fn()
     } as any;
 
     mockTokenService = {
       generateTokens: jest.fn(),
       verifyToken: jest.fn(),
       refreshTokens: jest.fn(),
+      revokeToken: jest.fn(),
       blacklistToken: jest.fn()
     } as any;
 
     mockRedisClient = {
       get: jest.fn(),
       set: jest.fn(),
+      getdel: jest.fn(),
+      lpush: jest.fn(),
       incr: jest.fn(),
       expire: jest.fn(),
       hmset: jest.fn(),
+      hget: jest.fn(),
+      hgetall: jest.fn().mockResolvedValue({}),
+      sadd: jest.fn(),
+      srem: jest.fn(),
+      smembers: jest.fn().mockResolvedValue([]),
       exists: jest.fn(),
       del: jest.fn()
     } as any;
@@ -70,12 +109,33 @@ describe('AuthService', () => {
       trackSecurityEvent: jest.fn()
     };
 
+    mockResetQueryBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ raw: [] })
+    };
+
+    mockResetTokenRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(mockResetQueryBuilder),
+      save: jest.fn()
+    };
+
+    mockSamlService = {
+      createLoginRequest: jest.fn(),
+      completeLogin: jest.fn()
+    };
+
     authService = new AuthService(
       mockUserRepository as any,
       mockTokenService,
       mockSecurityService,
       mockRedisClient,
-      {} as any
+      {} as any,
+      mockResetTokenRepository,
+      {} as any,
+      mockSamlService
     );
   });
 
@@ -151,7 +211,7 @@ describe('AuthService', () => {
         tokenType: 'Bearer'
       });
 
-      const result = await authService.verifyMFA(mockMfaCredentials);
+      const result = await authService.verifyMFA(mockMfaCredentials, mockDeviceInfo);
 
       expect(result).toBeDefined();
       expect(result.mfaRequired).toBe(false);
@@ -162,8 +222,143 @@ describe('AuthService', () => {
       mockUserRepository.findOneOrFail.mockResolvedValue(mockUser);
       mockUser.verifyMfaToken.mockResolvedValue(false);
 
-      await expect(authService.verifyMFA(mockMfaCredentials))
+      await expect(authService.verifyMFA(mockMfaCredentials, mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+    });
+
+    it('should accept a backup code only once', async () => {
+      const backupCredentials = { userId: 'test-user-id', code: 'abcd-efgh-jkmn', method: 'BACKUP_CODE' };
+      mockUserRepository.findOneOrFail.mockResolvedValue(mockUser);
+      mockUserRepository.consumeBackupCode
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+
+      await expect(authService.verifyMFA(backupCredentials, mockDeviceInfo)).resolves.toBeDefined();
+      await expect(authService.verifyMFA(backupCredentials, mockDeviceInfo))
         .rejects.toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+
+      expect(mockUserRepository.consumeBackupCode).toHaveBeenCalledWith(
+        mockUser.id,
+        createHash('sha256').update('ABCDEFGHJKMN').digest('hex')
+      );
+      expect(mockUser.verifyMfaToken).not.toHaveBeenCalled();
+    });
+
+    it('should verify a TOTP code against the stored secret of a real user entity', async () => {
+      const enrolled = new User({ id: 'test-user-id', email: 'test@example.com', role: UserRole.TEAM_MEMBER, mfaEnabled: true });
+      const secret = await enrolled.generateMfaSecret();
+      const hiddenColumns = getMetadataArgsStorage().columns
+        .filter(column => column.target === User && column.options.select === false)
+        .map(column => column.propertyName);
+      // Behaves like the TypeORM repository: select: false columns only load when listed in `select`
+      mockUserRepository.findOneOrFail.mockImplementation(async (options: any) => {
+        const row: Record<string, unknown> = { ...enrolled };
+        for (const column of hiddenColumns) {
+          if (!options.select?.includes(column)) delete row[column];
+        }
+        return Object.assign(new User(), row);
+      });
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mfa-access-token',
+        refreshToken: 'mfa-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+
+      const result = await authService.verifyMFA(
+        { userId: enrolled.id, code: authenticator.generate(secret), method: 'TOTP' },
+        mockDeviceInfo
+      );
+
+      expect(result.mfaRequired).toBe(false);
+      expect(result.user.id).toBe(enrolled.id);
+    });
+
+    it('should record a session that revoking every session signs out', async () => {
+      const stored: Record<string, any> = {};
+      mockRedisClient.hmset.mockImplementation(async (key: any, record: any) => {
+        stored[String(key)] = record;
+        return 'OK';
+      });
+      mockRedisClient.smembers.mockImplementation(async () => Object.keys(stored).map(key => key.split(':').pop()!));
+      mockRedisClient.hgetall.mockImplementation(async (key: any) => stored[String(key)] ?? {});
+      mockUserRepository.findOneOrFail.mockResolvedValue({ ...mockUser });
+      mockUser.verifyMfaToken.mockResolvedValue(true);
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mfa-access-token',
+        refreshToken: 'mfa-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+
+      const result = await authService.verifyMFA(mockMfaCredentials, mockDeviceInfo);
+
+      expect(result.sessionId).not.toBe('mfa-access-token');
+      expect(stored[`session:${mockUser.id}:${result.sessionId}`]).toMatchObject({
+        accessToken: 'mfa-access-token',
+        deviceId: mockDeviceInfo.deviceId
+      });
+
+      mockResetQueryBuilder.execute.mockResolvedValue({ raw: [{ user_id: mockUser.id }] });
+      await authService.confirmPasswordReset('valid-token', 'N3w-Passw0rd!long', mockDeviceInfo);
+
+      expect(mockTokenService.revokeToken).toHaveBeenCalledWith('mfa-access-token');
+      expect(mockTokenService.revokeToken).toHaveBeenCalledWith('mfa-refresh-token');
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`session:${mockUser.id}:${result.sessionId}`);
+    });
+
+    it('should carry the password login session over instead of opening a second one', async () => {
+      const stored: Record<string, any> = {};
+      const index = new Set<string>();
+      mockRedisClient.hmset.mockImplementation(async (key: any, record: any) => {
+        stored[String(key)] = { ...stored[String(key)], ...record };
+        return 'OK';
+      });
+      mockRedisClient.sadd.mockImplementation(async (_key: any, id: any) => {
+        index.add(String(id));
+        return 1;
+      });
+      mockRedisClient.smembers.mockImplementation(async () => [...index]);
+      mockRedisClient.hgetall.mockImplementation(async (key: any) => stored[String(key)] ?? {});
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockUserRepository.findOneOrFail.mockResolvedValue(mockUser);
+      mockUser.comparePassword.mockResolvedValue(true);
+      mockUser.verifyMfaToken.mockResolvedValue(true);
+      mockTokenService.generateTokens
+        .mockResolvedValueOnce({
+          accessToken: 'login-access-token',
+          refreshToken: 'login-refresh-token',
+          expiresIn: 900,
+          tokenType: 'Bearer'
+        })
+        .mockResolvedValueOnce({
+          accessToken: 'mfa-access-token',
+          refreshToken: 'mfa-refresh-token',
+          expiresIn: 900,
+          tokenType: 'Bearer'
+        });
+
+      const login = await authService.login({
+        email: 'test@example.com',
+        password: 'Test123!@#',
+        clientId: 'test-client'
+      }, mockDeviceInfo);
+      const result = await authService.verifyMFA(mockMfaCredentials, mockDeviceInfo, 'login-access-token');
+
+      expect(result.sessionId).toBe(login.sessionId);
+      expect([...index]).toEqual([login.sessionId]);
+      expect(stored[`session:${mockUser.id}:${login.sessionId}`]).toMatchObject({
+        accessToken: 'mfa-access-token',
+        refreshToken: 'mfa-refresh-token'
+      });
+      expect(mockTokenService.revokeToken).toHaveBeenCalledWith('login-access-token');
+      expect(mockTokenService.revokeToken).toHaveBeenCalledWith('login-refresh-token');
     });
   });
 
@@ -261,6 +456,105 @@ describe('AuthService', () => {
       expect(mockRedisClient.expire).toHaveBeenCalled();
     });
 
+    const storedSession = (id: string, lastActiveAt: string) => ({
+      accessToken: `access-${id}`,
+      refreshToken: `refresh-${id}`,
+      deviceId: `device-${id}`,
+      userAgent: 'test-user-agent',
+      ipAddress: '127.0.0.1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      lastActiveAt
+    });
+
+    const mockStoredSessions = (sessions: Record<string, ReturnType<typeof storedSession>>) => {
+      mockRedisClient.smembers.mockResolvedValue(Object.keys(sessions));
+      mockRedisClient.hgetall.mockImplementation(async (key: any) =>
+        sessions[String(key).split(':').pop()!] ?? {}
+      );
+    };
+
+    it('should list sessions without tokens and flag the current one', async () => {
+      mockStoredSessions({
+        older: storedSession('older', '2024-01-01T10:00:00.000Z'),
+        newer: storedSession('newer', '2024-01-02T10:00:00.000Z')
+      });
+
+      const sessions = await authService.listSessions(mockUser.id, 'access-older');
+
+      expect(sessions.map(session => [session.id, session.current])).toEqual([
+        ['newer', false],
+        ['older', true]
+      ]);
+      expect(JSON.stringify(sessions)).not.toContain('refresh-');
+      expect(sessions[0]).not.toHaveProperty('accessToken');
+    });
+
+    it('should sign out every other session but keep the current one', async () => {
+      mockStoredSessions({
+        current: storedSession('current', '2024-01-02T10:00:00.000Z'),
+        other: storedSession('other', '2024-01-01T10:00:00.000Z')
+      });
+
+      const revoked = await authService.revokeOtherSessions(mockUser.id, 'access-current');
+
+      expect(revoked).toBe(1);
+      expect(mockTokenService.revokeToken.mock.calls.map(([token]) => token))
+        .toEqual(['access-other', 'refresh-other']);
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`session:${mockUser.id}:other`);
+      expect(mockRedisClient.del).not.toHaveBeenCalledWith(`session:${mockUser.id}:current`);
+    });
+
+    it('should drop sessions that have expired from the index', async () => {
+      mockStoredSessions({ live: storedSession('live', '2024-01-02T10:00:00.000Z') });
+      mockRedisClient.smembers.mockResolvedValue(['live', 'expired']);
+
+      const sessions = await authService.listSessions(mockUser.id, 'access-live');
+
+      expect(sessions.map(session => session.id)).toEqual(['live']);
+      expect(mockRedisClient.srem).toHaveBeenCalledWith(`session-index:${mockUser.id}`, 'expired');
+    });
+
+    it('should reject revoking a session the user does not have', async () => {
+      mockStoredSessions({});
+
+      await expect(authService.revokeSession(mockUser.id, 'unknown-session'))
+        .rejects.toThrow(ErrorCodes.SESSION_NOT_FOUND.toString());
+
+      expect(mockTokenService.revokeToken).not.toHaveBeenCalled();
+    });
+
+    it('should evict the least recently active session beyond the limit', async () => {
+      const sessions: Record<string, ReturnType<typeof storedSession>> = {};
+      for (let day = 1; day <= 5; day++) {
+        sessions[`day-${day}`] = storedSession(`day-${day}`, `2024-01-0${day}T10:00:00.000Z`);
+      }
+      mockStoredSessions(sessions);
+      mockRedisClient.hmset.mockImplementation(async (key: any, record: any) => {
+        sessions[String(key).split(':').pop()!] = record;
+        mockStoredSessions(sessions);
+        return 'OK';
+      });
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockUser.comparePassword.mockResolvedValue(true);
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+
+      const result = await authService.login({
+        email: 'test@example.com',
+        password: 'Test123!@#',
+        clientId: 'test-client'
+      }, mockDeviceInfo);
+
+      expect(result.sessionId).not.toBe('mock-access-token');
+      expect(mockRedisClient.del).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`session:${mockUser.id}:day-1`);
+      expect(mockTokenService.revokeToken).toHaveBeenCalledWith('access-day-1');
+    });
+
     it('should handle session cleanup on logout', async () => {
       const mockSessionId = 'mock-session-id';
       mockRedisClient.del.mockResolvedValue(1);
@@ -270,4 +564,518 @@ describe('AuthService', () => {
       expect(mockRedisClient.del).toHaveBeenCalled();
     });
   });
+
+  describe('password reset', () => {
+    it('should store only the hash of the emailed token', async () => {
+      mockRedisClient.incr.mockResolvedValue(1);
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+
+      await authService.requestPasswordReset('Test@Example.com', mockDeviceInfo);
+
+      const [queue, queued] = mockRedisClient.lpush.mock.calls[0] as [string, string];
+      const request = JSON.parse(queued);
+      const token = new URL(request.context.link).searchParams.get('token')!;
+      const saved = mockResetTokenRepository.save.mock.calls[0][0];
+
+      expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+        where: { email: 'test@example.com' },
+        select: ['id', 'email']
+      });
+      expect(saved.tokenHash).toBe(createHash('sha256').update(token).digest('hex'));
+      expect(saved.tokenHash).not.toBe(token);
+      expect(saved.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(queue).toBe(NOTIFICATION_REQUEST_QUEUE);
+      expect(request).toMatchObject({ kind: 'email', type: TransactionalEmailType.PASSWORD_RESET, to: mockUser.email });
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      mockRedisClient.incr.mockResolvedValue(1);
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(authService.requestPasswordReset('nobody@example.com', mockDeviceInfo))
+        .resolves.toBeUndefined();
+
+      expect(mockResetTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockRedisClient.lpush).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token that is unknown, used or expired', async () => {
+      mockResetQueryBuilder.execute.mockResolvedValue({ raw: [] });
+
+      await expect(authService.confirmPasswordReset('used-token', 'N3w-Passw0rd!long', mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.INVALID_RESET_TOKEN.toString());
+
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should set the new password and revoke every session', async () => {
+      const user = { ...mockUser, failedLoginAttempts: 3 };
+      mockResetQueryBuilder.execute.mockResolvedValue({ raw: [{ user_id: user.id }] });
+      mockUserRepository.findOneOrFail.mockResolvedValue(user);
+      mockRedisClient.smembers.mockResolvedValue(['session-1', 'session-2']);
+      mockRedisClient.hgetall
+        .mockResolvedValueOnce({ accessToken: 'access-1', refreshToken: 'refresh-1' })
+        .mockResolvedValueOnce({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+
+      await authService.confirmPasswordReset('valid-token', 'N3w-Passw0rd!long', mockDeviceInfo);
+
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ password: 'N3w-Passw0rd!long', failedLoginAttempts: 0 })
+      );
+      expect(mockTokenService.revokeToken.mock.calls.map(([token]) => token))
+        .toEqual(['access-1', 'refresh-1', 'access-2', 'refresh-2']);
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`session:${user.id}:session-1`);
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`session:${user.id}:session-2`);
+    });
+  });
+
+  describe('MFA enrollment', () => {
+    const enrollingUser = () => ({
+      id: 'test-user-id',
+      email: 'test@example.com',
+      mfaEnabled: false,
+      mfaSecret: null as string | null,
+      generateMfaSecret: jest.fn(async function (this: any) {
+        this.mfaSecret = 'encrypted-pending-secret';
+        return 'JBSWY3DPEHPK3PXP';
+      }),
+      verifyMfaToken: jest.fn(),
+      decryptMfaSecret: jest.fn().mockReturnValue('JBSWY3DPEHPK3PXP'),
+      comparePassword: jest.fn()
+    });
+
+    it('should park the pending secret until the first code is confirmed', async () => {
+      mockUserRepository.findOneOrFail.mockResolvedValue(enrollingUser() as any);
+
+      const enrollment = await authService.startTotpEnrollment('test-user-id');
+
+      expect(enrollment.secret).toBe('JBSWY3DPEHPK3PXP');
+      expect(enrollment.otpauthUrl).toContain('otpauth://totp/');
+      expect(enrollment.qrCode).toBe('data:image/png;base64,qr');
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'mfa:enroll:test-user-id', 'encrypted-pending-secret', 'EX', 600
+      );
+      expect(mockUserRepository.updateMFAStatus).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to enroll when MFA is already enabled', async () => {
+      mockUserRepository.findOneOrFail.mockResolvedValue({ ...enrollingUser(), mfaEnabled: true } as any);
+
+      await expect(authService.startTotpEnrollment('test-user-id'))
+        .rejects.toThrow(ErrorCodes.MFA_ALREADY_ENABLED.toString());
+    });
+
+    it('should enable MFA and store only hashed backup codes', async () => {
+      const user = enrollingUser();
+      user.verifyMfaToken.mockResolvedValue(true);
+      mockRedisClient.get.mockResolvedValue('encrypted-pending-secret');
+      mockUserRepository.findOneOrFail.mockResolvedValue(user as any);
+
+      const codes = await authService.confirmTotpEnrollment('test-user-id', '123456');
+
+      expect(codes).toHaveLength(10);
+      codes.forEach(code => expect(code).toMatch(/^[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}$/));
+
+      const [userId, enabled, secret, hashes] = mockUserRepository.updateMFAStatus.mock.calls[0];
+      expect([userId, enabled, secret]).toEqual(['test-user-id', true, 'JBSWY3DPEHPK3PXP']);
+      expect(hashes).toEqual(codes.map(code =>
+        createHash('sha256').update(code.replace(/-/g, '')).digest('hex')
+      ));
+      expect(mockRedisClient.del).toHaveBeenCalledWith('mfa:enroll:test-user-id');
+    });
+
+    it('should reject confirmation after the enrollment expired', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      await expect(authService.confirmTotpEnrollment('test-user-id', '123456'))
+        .rejects.toThrow(ErrorCodes.MFA_ENROLLMENT_EXPIRED.toString());
+
+      expect(mockUserRepository.updateMFAStatus).not.toHaveBeenCalled();
+    });
+
+    it('should require the password to disable MFA', async () => {
+      const user = { ...enrollingUser(), mfaEnabled: true };
+      user.comparePassword.mockResolvedValue(false);
+      mockUserRepository.findOneOrFail.mockResolvedValue(user as any);
+
+      await expect(authService.disableMfa('test-user-id', 'wrong-password', '123456'))
+        .rejects.toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+
+      expect(user.verifyMfaToken).not.toHaveBeenCalled();
+      expect(mockUserRepository.updateMFAStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OAuth login', () => {
+    const callbackUrl = 'http://localhost:5173/auth/callback/google';
+    let provider: MockOidcProvider;
+    let oauthAuthService: AuthService;
+    let pendingStates: Map<string, string>;
+
+    beforeAll(async () => {
+      provider = await MockOidcProvider.start('test-client', 'test-secret');
+    });
+
+    afterAll(async () => {
+      await provider.close();
+    });
+
+    beforeEach(() => {
+      pendingStates = new Map();
+      mockRedisClient.set.mockImplementation(async (key: any, value: any) => {
+        pendingStates.set(key, value);
+        return 'OK';
+      });
+      mockRedisClient.getdel.mockImplementation(async (key: any) => {
+        const value = pendingStates.get(key) ?? null;
+        pendingStates.delete(key);
+        return value;
+      });
+
+      const oauthService = new OAuthService(mockRedisClient, {
+        [OAuthProvider.GOOGLE]: {
+          issuer: provider.issuer,
+          clientId: 'test-client',
+          clientSecret: 'test-secret',
+          callbackUrl,
+          scopes: ['openid', 'email', 'profile']
+        },
+        // No client registered, so the provider is unavailable
+        [OAuthProvider.MICROSOFT]: {
+          issuer: provider.issuer,
+          scopes: ['openid', 'email', 'profile']
+        }
+      });
+
+      oauthAuthService = new AuthService(
+        mockUserRepository as any,
+        mockTokenService,
+        mockSecurityService,
+        mockRedisClient,
+        {} as any,
+        mockResetTokenRepository,
+        oauthService,
+        mockSamlService
+      );
+
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const signIn = async (claims: Record<string, unknown>) => {
+      const { authorizationUrl, state } = await oauthAuthService.startOAuthLogin('google');
+      const code = provider.authorize(authorizationUrl, claims);
+      return { code, state };
+    };
+
+    it('should send the browser to the provider with a PKCE challenge and state', async () => {
+      const { authorizationUrl, state } = await oauthAuthService.startOAuthLogin('google');
+      const params = new URL(authorizationUrl).searchParams;
+
+      expect(authorizationUrl.startsWith(`${provider.issuer}/authorize`)).toBe(true);
+      expect(params.get('state')).toBe(state);
+      expect(params.get('redirect_uri')).toBe(callbackUrl);
+      expect(params.get('code_challenge_method')).toBe('S256');
+
+      const pending = JSON.parse(pendingStates.get(`oauth:state:${state}`)!);
+      expect(params.get('code_challenge'))
+        .toBe(createHash('sha256').update(pending.codeVerifier).digest('base64url'));
+      expect(authorizationUrl).not.toContain(pending.codeVerifier);
+    });
+
+    it('should reject providers without a registered client', async () => {
+      await expect(oauthAuthService.startOAuthLogin('microsoft'))
+        .rejects.toThrow(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      await expect(oauthAuthService.startOAuthLogin('github'))
+        .rejects.toThrow(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    });
+
+    it('should link an existing account by verified email', async () => {
+      const { code, state } = await signIn({ sub: 'google-123', email: 'Test@Example.com', email_verified: true });
+      const existing = { ...mockUser, toAuthUser: jest.fn().mockReturnValue({ id: mockUser.id }) };
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing as any);
+      mockUserRepository.linkOAuthIdentity.mockResolvedValue(true);
+
+      const result = await oauthAuthService.oauthLogin('google', code, state, mockDeviceInfo);
+
+      expect(mockUserRepository.findOne).toHaveBeenNthCalledWith(1, {
+        where: { oauthProvider: OAuthProvider.GOOGLE, oauthId: 'google-123' }
+      });
+      expect(mockUserRepository.findOne).toHaveBeenNthCalledWith(2, { where: { email: 'test@example.com' } });
+      expect(mockUserRepository.linkOAuthIdentity).toHaveBeenCalledWith(
+        mockUser.id, OAuthProvider.GOOGLE, 'google-123', expect.objectContaining({ email: 'test@example.com' })
+      );
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+      expect(result.tokens.accessToken).toBe('mock-access-token');
+    });
+
+    it('should only accept each state once', async () => {
+      const { code, state } = await signIn({ sub: 'google-123', email: 'test@example.com', email_verified: true });
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, toAuthUser: jest.fn() } as any);
+
+      await oauthAuthService.oauthLogin('google', code, state, mockDeviceInfo);
+
+      await expect(oauthAuthService.oauthLogin('google', code, state, mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    });
+
+    it('should not link an account by an unverified email', async () => {
+      const { code, state } = await signIn({ sub: 'google-456', email: 'test@example.com', email_verified: false });
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(oauthAuthService.oauthLogin('google', code, state, mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.OAUTH_EMAIL_NOT_VERIFIED.toString());
+
+      expect(mockUserRepository.linkOAuthIdentity).not.toHaveBeenCalled();
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse email domains outside the allowed list', async () => {
+      jest.replaceProperty(authConfig.oauth2Config, 'allowedDomains', ['example.com']);
+      const { code, state } = await signIn({ sub: 'google-789', email: 'someone@elsewhere.org', email_verified: true });
+
+      await expect(oauthAuthService.oauthLogin('google', code, state, mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED.toString());
+
+      expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+      expect(mockTokenService.generateTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SAML login', () => {
+    const samlIdentity: ISamlIdentity = {
+      organization: 'acme',
+      subject: 'connection-id:jdoe',
+      email: 'jdoe@acme.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      role: UserRole.PROJECT_MANAGER,
+      idpInitiated: false
+    };
+    let tickets: Map<string, string>;
+
+    beforeEach(() => {
+      tickets = new Map();
+      mockRedisClient.set.mockImplementation(async (key: any, value: any) => {
+        tickets.set(key, value);
+        return 'OK';
+      });
+      mockRedisClient.getdel.mockImplementation(async (key: any) => {
+        const value = tickets.get(key) ?? null;
+        tickets.delete(key);
+        return value;
+      });
+
+      mockSamlService.completeLogin.mockResolvedValue(samlIdentity);
+      mockTokenService.generateTokens.mockResolvedValue({
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer'
+      });
+    });
+
+    it('should provision a new user with the mapped role and hand out a single-use ticket', async () => {
+      const created = {
+        ...mockUser,
+        id: 'new-user-id',
+        email: samlIdentity.email,
+        role: UserRole.PROJECT_MANAGER,
+        mfaEnabled: false,
+        toAuthUser: jest.fn().mockReturnValue({ id: 'new-user-id' })
+      };
+      mockUserRepository.findOne.mockResolvedValue(null);
+      mockUserRepository.create.mockResolvedValue(created as any);
+
+      const ticket = await authService.samlLogin('acme', 'base64-response', mockDeviceInfo);
+
+      expect(mockSamlService.completeLogin).toHaveBeenCalledWith('acme', 'base64-response');
+      expect(mockUserRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'jdoe@acme.com',
+        role: UserRole.PROJECT_MANAGER,
+        oauthProvider: SAML_IDENTITY_PROVIDER,
+        oauthId: 'connection-id:jdoe'
+      }));
+      expect(mockUserRepository.updateRole).not.toHaveBeenCalled();
+
+      const result = await authService.redeemSamlTicket(ticket);
+      expect(result.tokens.accessToken).toBe('mock-access-token');
+      expect(result.user).toEqual({ id: 'new-user-id' });
+
+      await expect(authService.redeemSamlTicket(ticket))
+        .rejects.toThrow(ErrorCodes.OAUTH_STATE_INVALID.toString());
+    });
+
+    it('should link an existing account by email and apply the IdP role', async () => {
+      const existing = {
+        ...mockUser,
+        role: UserRole.GUEST,
+        mfaEnabled: false,
+        toAuthUser: jest.fn().mockReturnValue({ id: mockUser.id })
+      };
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing as any);
+      mockUserRepository.linkOAuthIdentity.mockResolvedValue(true);
+
+      await authService.samlLogin('acme', 'base64-response', mockDeviceInfo);
+
+      expect(mockUserRepository.findOne).toHaveBeenNthCalledWith(1, {
+        where: { oauthProvider: SAML_IDENTITY_PROVIDER, oauthId: 'connection-id:jdoe' }
+      });
+      expect(mockUserRepository.linkOAuthIdentity).toHaveBeenCalledWith(
+        mockUser.id, SAML_IDENTITY_PROVIDER, 'connection-id:jdoe', expect.objectContaining({ organization: 'acme' })
+      );
+      expect(mockUserRepository.updateRole).toHaveBeenCalledWith(mockUser.id, UserRole.PROJECT_MANAGER);
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take over an account linked to another identity', async () => {
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockUser } as any);
+      mockUserRepository.linkOAuthIdentity.mockResolvedValue(false);
+
+      await expect(authService.samlLogin('acme', 'base64-response', mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.OAUTH_ACCOUNT_CONFLICT.toString());
+
+      expect(mockTokenService.generateTokens).not.toHaveBeenCalled();
+      expect(mockUserRepository.updateRole).not.toHaveBeenCalled();
+    });
+
+    it('should not sign in when the response fails validation', async () => {
+      mockSamlService.completeLogin.mockRejectedValue(new Error(ErrorCodes.SAML_RESPONSE_INVALID.toString()));
+
+      await expect(authService.samlLogin('acme', 'forged-response', mockDeviceInfo))
+        .rejects.toThrow(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+
+      expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+      expect(mockTokenService.generateTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SamlService', () => {
+    const MockSAML = SAML as unknown as jest.Mock;
+    let samlService: SamlService;
+    let mockConnectionRepository: any;
+    let validatePostResponseAsync: jest.Mock;
+
+    const connection = new SamlConnection({
+      id: 'connection-id',
+      organization: 'acme',
+      name: 'Acme Corp',
+      emailDomains: ['acme.com'],
+      idpEntityId: 'https://idp.acme.com',
+      idpSsoUrl: 'https://idp.acme.com/sso',
+      idpCertificate: '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----',
+      attributeMapping: { email: 'mail', firstName: 'givenName', role: 'groups' },
+      roleMapping: { engineering: UserRole.TEAM_MEMBER, 'eng-leads': UserRole.PROJECT_MANAGER },
+      defaultRole: UserRole.GUEST,
+      allowIdpInitiated: false,
+      enabled: true
+    });
+
+    beforeEach(() => {
+      validatePostResponseAsync = jest.fn();
+      MockSAML.mockImplementation(() => ({ validatePostResponseAsync }));
+      mockConnectionRepository = { findOne: jest.fn().mockResolvedValue(connection), save: jest.fn() };
+      mockRedisClient.set.mockResolvedValue('OK');
+      samlService = new SamlService(mockConnectionRepository, mockRedisClient);
+    });
+
+    it('should map the most privileged role and the email from signed attributes', async () => {
+      validatePostResponseAsync.mockResolvedValue({
+        profile: {
+          nameID: 'jdoe',
+          inResponseTo: '_request-id',
+          attributes: { mail: 'JDoe@Acme.com', givenName: 'Jane', groups: ['engineering', 'eng-leads', 'other'] }
+        },
+        loggedOut: false
+      });
+
+      const identity = await samlService.completeLogin('acme', 'response');
+
+      expect(identity).toEqual(expect.objectContaining({
+        subject: 'connection-id:jdoe',
+        email: 'jdoe@acme.com',
+        firstName: 'Jane',
+        role: UserRole.PROJECT_MANAGER,
+        idpInitiated: false
+      }));
+      expect(MockSAML).toHaveBeenCalledWith(expect.objectContaining({
+        wantAssertionsSigned: true,
+        idpIssuer: 'https://idp.acme.com',
+        callbackUrl: expect.stringContaining('/saml/acme/acs'),
+        validateInResponseTo: ValidateInResponseTo.always
+      }));
+    });
+
+    it('should fall back to the default role and accept unsolicited responses only when allowed', async () => {
+      mockConnectionRepository.findOne.mockResolvedValue(new SamlConnection({ ...connection, allowIdpInitiated: true }));
+      validatePostResponseAsync.mockResolvedValue({
+        profile: { nameID: 'jdoe', attributes: { mail: 'jdoe@acme.com' } },
+        loggedOut: false
+      });
+
+      const identity = await samlService.completeLogin('acme', 'response');
+
+      expect(identity.role).toBe(UserRole.GUEST);
+      expect(identity.idpInitiated).toBe(true);
+      expect(MockSAML).toHaveBeenCalledWith(expect.objectContaining({
+        validateInResponseTo: ValidateInResponseTo.ifPresent
+      }));
+    });
+
+    it('should reject assertions for emails outside the organisation domains', async () => {
+      validatePostResponseAsync.mockResolvedValue({
+        profile: { nameID: 'mallory', attributes: { mail: 'mallory@elsewhere.org' } },
+        loggedOut: false
+      });
+
+      await expect(samlService.completeLogin('acme', 'response'))
+        .rejects.toThrow(ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED.toString());
+    });
+
+    it('should accept each response only once', async () => {
+      validatePostResponseAsync.mockResolvedValue({
+        profile: { nameID: 'jdoe', attributes: { mail: 'jdoe@acme.com' } },
+        loggedOut: false
+      });
+      mockRedisClient.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      await samlService.completeLogin('acme', 'response');
+
+      await expect(samlService.completeLogin('acme', 'response'))
+        .rejects.toThrow(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        `saml:response:${createHash('sha256').update('response').digest('hex')}`, '1', 'EX', expect.any(Number), 'NX'
+      );
+    });
+
+    it('should reject responses that fail signature validation', async () => {
+      validatePostResponseAsync.mockRejectedValue(new Error('Invalid signature'));
+
+      await expect(samlService.completeLogin('acme', 'response'))
+        .rejects.toThrow(ErrorCodes.SAML_RESPONSE_INVALID.toString());
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should refuse sign-in for organisations without an enabled connection', async () => {
+      mockConnectionRepository.findOne.mockResolvedValue(null);
+
+      await expect(samlService.createLoginRequest('unknown'))
+        .rejects.toThrow(ErrorCodes.SAML_CONNECTION_NOT_FOUND.toString());
+      expect(mockConnectionRepository.findOne).toHaveBeenCalledWith({ where: { organization: 'unknown', enabled: true } });
+    });
+  });
 });
\ No newline at end of file
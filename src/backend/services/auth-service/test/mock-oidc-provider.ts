@@ -0,0 +1,147 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { exportJWK, generateKeyPair, JWK, KeyLike, SignJWT } from 'jose'; // v4.15.x
+
+interface IGrant {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Local OpenID Connect provider for exercising the authorization-code flow
+ * end to end. Serves discovery, JWKS and a token endpoint that enforces PKCE,
+ * and stands in for the user's browser sign-in through authorize().
+ */
+export class MockOidcProvider {
+  public issuer = '';
+  private readonly grants = new Map<string, IGrant>();
+  private server!: http.Server;
+  private privateKey!: KeyLike;
+  private publicJwk!: JWK;
+
+  private constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string
+  ) {}
+
+  /**
+   * Start a provider on a free local port
+   */
+  static async start(clientId: string, clientSecret: string): Promise<MockOidcProvider> {
+    const provider = new MockOidcProvider(clientId, clientSecret);
+    const { privateKey, publicKey } = await generateKeyPair('RS256');
+    provider.privateKey = privateKey;
+    provider.publicJwk = { ...(await exportJWK(publicKey)), kid: 'mock-key', alg: 'RS256', use: 'sig' };
+
+    provider.server = http.createServer((req, res) => {
+      provider.handle(req, res).catch(() => provider.send(res, 500, { error: 'server_error' }));
+    });
+    await new Promise<void>(resolve => provider.server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = provider.server.address() as AddressInfo;
+    provider.issuer = `http://127.0.0.1:${port}`;
+    return provider;
+  }
+
+  /**
+   * Sign the user in at the authorization URL and return the code the
+   * provider would redirect back with
+   */
+  authorize(authorizationUrl: string, claims: Record<string, unknown>): string {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get('code_challenge_method') !== 'S256') {
+      throw new Error('PKCE with S256 is required');
+    }
+
+    const code = randomBytes(16).toString('hex');
+    this.grants.set(code, {
+      clientId: params.get('client_id')!,
+      redirectUri: params.get('redirect_uri')!,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+      claims
+    });
+    return code;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === 'GET' && req.url === '/.well-known/openid-configuration') {
+      return this.send(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+
+    if (req.method === 'GET' && req.url === '/jwks') {
+      return this.send(res, 200, { keys: [this.publicJwk] });
+    }
+
+    if (req.method === 'POST' && req.url === '/token') {
+      return this.token(new URLSearchParams(await this.readBody(req)), res);
+    }
+
+    this.send(res, 404, { error: 'not_found' });
+  }
+
+  private async token(params: URLSearchParams, res: ServerResponse): Promise<void> {
+    const code = params.get('code') || '';
+    const grant = this.grants.get(code);
+    // Codes are single-use, like a real provider's
+    this.grants.delete(code);
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      !grant ||
+      params.get('grant_type') !== 'authorization_code' ||
+      params.get('client_id') !== this.clientId ||
+      params.get('client_secret') !== this.clientSecret ||
+      params.get('redirect_uri') !== grant.redirectUri ||
+      challenge !== grant.codeChallenge
+    ) {
+      return this.send(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = await new SignJWT({ nonce: grant.nonce, ...grant.claims })
+      .setProtectedHeader({ alg: 'RS256', kid: 'mock-key' })
+      .setIssuer(this.issuer)
+      .setAudience(grant.clientId)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(this.privateKey);
+
+    this.send(res, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken
+    });
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
\ No newline at end of file
@@ -4,15 +4,27 @@ import {
   ValidationPipe, 
   Logger,
   MiddlewareConsumer, 
-  RequestMethod 
+  RequestMethod,
+  OnApplicationShutdown
 } from '@nestjs/common';
+import { raw } from 'express';
 import helmet from 'helmet';
 import compression from 'compression';
 import { TerminusModule } from '@nestjs/terminus';
 import { PrometheusModule } from '@willsoto/nestjs-prometheus';
 import { FileController } from './controllers/file.controller';
+import { FileDownloadController } from './controllers/file-download.controller';
+import { UploadSessionController } from './controllers/upload-session.controller';
 import { FileService } from './services/file.service';
+import { UploadSessionService } from './services/upload-session.service';
+import { PreviewService } from './services/preview.service';
+import { FileRepository } from './repositories/file.repository';
+import { UploadSessionRepository } from './repositories/upload-session.repository';
+import { FilePreviewRepository } from './repositories/file-preview.repository';
+import { db } from './config/database.config';
 import { storageConfig } from './config/storage.config';
+import { STORAGE_DRIVER } from './storage/storage.driver';
+import { createStorageDriver } from './storage/storage.factory';
 import { HealthController } from './controllers/health.controller';
 import { MetricsService } from './services/metrics.service';
 import { RateLimiterMiddleware } from './middleware/rate-limiter.middleware';
@@ -51,22 +63,52 @@ const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_MAX || '100', 10);
       },
     }),
   ],
-  controllers: [FileController, HealthController],
-  providers: [FileService, MetricsService],
+  controllers: [FileController, FileDownloadController, UploadSessionController, HealthController],
+  providers: [
+    FileService,
+    UploadSessionService,
+    PreviewService,
+    FileRepository,
+    UploadSessionRepository,
+    FilePreviewRepository,
+    MetricsService,
+    { provide: STORAGE_DRIVER, useFactory: () => createStorageDriver(storageConfig) },
+  ],
 })
-export class FileModule {
+export class FileModule implements OnApplicationShutdown {
+  async onApplicationShutdown(): Promise<void> {
+    await db.disconnect();
+  }
+
   configure(consumer: MiddlewareConsumer) {
+    const chunkRoute = { path: 'files/uploads/:sessionId/chunks/:index', method: RequestMethod.PUT };
+
+    // Chunks arrive as raw bytes rather than multipart form data
+    consumer
+      .apply(raw({
+        type: 'application/octet-stream',
+        limit: storageConfig.uploadSessions.maxChunkSize,
+      }))
+      .forRoutes(chunkRoute);
+
     consumer
       .apply(
         helmet(),
         compression(),
         CorrelationIdMiddleware,
         RequestLoggingMiddleware,
+      )
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+
+    // A single large upload sends hundreds of chunks; the gateway rate limits them instead
+    consumer
+      .apply(
         RateLimiterMiddleware.configure({
           windowMs: RATE_LIMIT_WINDOW,
           max: RATE_LIMIT_MAX,
         }),
       )
+      .exclude(chunkRoute)
       .forRoutes({ path: '*', method: RequestMethod.ALL });
   }
 }
@@ -78,13 +120,17 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   try {
+    // Repositories take their connection when the module is created
+    await db.connect();
+    logger.log('Database connection established');
+
     // Create NestJS application
     const app = await NestFactory.create(FileModule, {
       logger: ['error', 'warn', 'log', 'debug'],
       cors: {
         origin: CORS_WHITELIST,
-        methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID'],
+        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'X-Chunk-Checksum'],
         credentials: true,
         maxAge: 86400, // 24 hours
       },
@@ -127,7 +173,7 @@ async function bootstrap() {
     // Start the server
     await app.listen(PORT);
     logger.log(`File Service is running on port ${PORT}`);
-    logger.log(`Storage configuration loaded for bucket: ${storageConfig.s3.bucket}`);
+    logger.log(`Storage configuration loaded for driver: ${storageConfig.driver}`);
     logger.log(`Security features enabled: Virus scanning=${storageConfig.security.virusScan.enabled}, Encryption=${storageConfig.security.encryption.atRest}`);
 
   } catch (error) {
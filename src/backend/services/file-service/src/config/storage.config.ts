@@ -1,11 +1,12 @@
 // @aws-sdk/client-s3 version 3.x
 import { S3 } from '@aws-sdk/client-s3';
 import { IFile } from '../../shared/interfaces/file.interface';
+import { StorageDriverType } from '../storage/storage.driver';
 
 /**
  * Interface for AWS S3 configuration with enhanced security and performance settings
  */
-interface IS3Config {
+export interface IS3Config {
   region: string;
   bucket: string;
   accessKeyId: string;
@@ -28,8 +29,12 @@ interface IS3Config {
 /**
  * Comprehensive storage configuration interface including security and monitoring
  */
-interface IStorageConfig {
+export interface IStorageConfig {
+  driver: StorageDriverType;
   s3: IS3Config;
+  local: {
+    rootPath: string;
+  };
   limits: {
     maxFileSize: number;
     minFileSize: number;
@@ -38,6 +43,29 @@ interface IStorageConfig {
   };
   allowedMimeTypes: string[];
   uploadPath: string;
+  uploadSessions: {
+    maxFileSize: number;
+    defaultChunkSize: number;
+    minChunkSize: number;
+    maxChunkSize: number;
+    ttl: number;
+    completionLease: number;
+    cleanupInterval: number;
+  };
+  signedUrls: {
+    secret: string;
+    expiresIn: number;
+    baseUrl: string;
+  };
+  previews: {
+    enabled: boolean;
+    mimeTypes: string[];
+    thumbnailSize: number;
+    previewSize: number;
+    maxSourceSize: number;
+    pdfRenderer: string;
+    renderTimeout: number;
+  };
   cache: {
     enabled: boolean;
     duration: number;
@@ -91,6 +119,19 @@ export const CACHE_DURATION = 86400; // 24 hours in seconds
 export const UPLOAD_PATH = 'uploads';
 export const MAX_UPLOAD_RETRIES = 3;
 export const VIRUS_SCAN_TIMEOUT = 30000; // 30 seconds
+export const STORAGE_DRIVERS: StorageDriverType[] = ['s3', 'local', 'memory'];
+export const SIGNED_URL_EXPIRES_IN = 300; // 5 minutes in seconds
+export const RESUMABLE_MAX_FILE_SIZE = 5 * 1024 * 1024 * 1024; // 5GB in bytes
+export const RESUMABLE_DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB in bytes
+export const RESUMABLE_MIN_CHUNK_SIZE = 1024 * 1024; // 1MB in bytes
+export const RESUMABLE_MAX_CHUNK_SIZE = 64 * 1024 * 1024; // 64MB in bytes
+export const UPLOAD_SESSION_TTL = 86400; // 24 hours in seconds, extended by every chunk
+export const UPLOAD_COMPLETION_LEASE = 3600; // 1 hour in seconds to assemble a session's chunks
+export const PREVIEW_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
+export const THUMBNAIL_SIZE = 320; // Longest edge in pixels
+export const PREVIEW_SIZE = 1280; // Longest edge in pixels
+export const PREVIEW_MAX_SOURCE_SIZE = MAX_FILE_SIZE; // Larger files, e.g. resumable uploads, get no preview
+export const PREVIEW_RENDER_TIMEOUT = 30000; // 30 seconds
 
 /**
  * Validates the storage configuration for security and completeness
@@ -98,18 +139,33 @@ export const VIRUS_SCAN_TIMEOUT = 30000; // 30 seconds
  * @returns boolean indicating if configuration is valid
  */
 const validateStorageConfig = (config: IStorageConfig): boolean => {
-  if (!config.s3.accessKeyId || !config.s3.secretAccessKey || !config.s3.bucket) {
-    throw new Error('Missing required S3 credentials');
+  if (!STORAGE_DRIVERS.includes(config.driver)) {
+    throw new Error(`Unsupported storage driver: ${config.driver}`);
   }
 
-  if (!config.s3.region) {
-    throw new Error('S3 region must be specified');
+  // S3 settings are only required when S3 is the selected backend
+  if (config.driver === 's3') {
+    if (!config.s3.accessKeyId || !config.s3.secretAccessKey || !config.s3.bucket) {
+      throw new Error('Missing required S3 credentials');
+    }
+
+    if (!config.s3.region) {
+      throw new Error('S3 region must be specified');
+    }
+  }
+
+  if (config.driver === 'local' && !config.local.rootPath) {
+    throw new Error('Local storage path must be specified');
   }
 
   if (!config.security.encryption.atRest) {
     throw new Error('Storage encryption at rest must be enabled');
   }
 
+  if (!config.signedUrls.secret) {
+    throw new Error('Signed URL secret must be specified');
+  }
+
   if (!config.allowedMimeTypes || config.allowedMimeTypes.length === 0) {
     throw new Error('Allowed MIME types must be specified');
   }
@@ -123,6 +179,7 @@ const validateStorageConfig = (config: IStorageConfig): boolean => {
  */
 const getStorageConfig = (): IStorageConfig => {
   const config: IStorageConfig = {
+    driver: (process.env.STORAGE_DRIVER || 's3') as StorageDriverType,
     s3: {
       region: process.env.AWS_REGION || 'us-east-1',
       bucket: process.env.AWS_S3_BUCKET || '',
@@ -142,6 +199,9 @@ const getStorageConfig = (): IStorageConfig => {
         kmsKeyId: process.env.KMS_KEY_ID
       }
     },
+    local: {
+      rootPath: process.env.STORAGE_LOCAL_PATH || './storage'
+    },
     limits: {
       maxFileSize: MAX_FILE_SIZE,
       minFileSize: MIN_FILE_SIZE,
@@ -150,6 +210,29 @@ const getStorageConfig = (): IStorageConfig => {
     },
     allowedMimeTypes: ALLOWED_MIME_TYPES,
     uploadPath: UPLOAD_PATH,
+    uploadSessions: {
+      maxFileSize: parseInt(process.env.RESUMABLE_MAX_FILE_SIZE || String(RESUMABLE_MAX_FILE_SIZE), 10),
+      defaultChunkSize: RESUMABLE_DEFAULT_CHUNK_SIZE,
+      minChunkSize: RESUMABLE_MIN_CHUNK_SIZE,
+      maxChunkSize: RESUMABLE_MAX_CHUNK_SIZE,
+      ttl: parseInt(process.env.UPLOAD_SESSION_TTL || String(UPLOAD_SESSION_TTL), 10),
+      completionLease: parseInt(process.env.UPLOAD_COMPLETION_LEASE || String(UPLOAD_COMPLETION_LEASE), 10),
+      cleanupInterval: 15 * 60 * 1000 // 15 minutes
+    },
+    signedUrls: {
+      secret: process.env.FILE_URL_SIGNING_SECRET || '',
+      expiresIn: parseInt(process.env.FILE_URL_EXPIRES_IN || String(SIGNED_URL_EXPIRES_IN), 10),
+      baseUrl: process.env.FILE_DOWNLOAD_BASE_URL || '/api/v1/files'
+    },
+    previews: {
+      enabled: process.env.PREVIEWS_ENABLED !== 'false',
+      mimeTypes: PREVIEW_MIME_TYPES,
+      thumbnailSize: THUMBNAIL_SIZE,
+      previewSize: PREVIEW_SIZE,
+      maxSourceSize: PREVIEW_MAX_SOURCE_SIZE,
+      pdfRenderer: process.env.PDF_RENDERER_PATH || 'pdftoppm',
+      renderTimeout: PREVIEW_RENDER_TIMEOUT
+    },
     cache: {
       enabled: true,
       duration: CACHE_DURATION,
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  UseInterceptors,
+  Param,
+  Query,
+  StreamableFile,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException
+} from '@nestjs/common';
+import { FileService } from '../services/file.service';
+import { PreviewService } from '../services/preview.service';
+import { FilePreviewKind } from '../../../shared/interfaces/file.interface';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+
+/**
+ * Controller serving downloads through signed URLs. The signature stands in
+ * for authentication, so this controller is deliberately not behind AuthGuard.
+ * @class FileDownloadController
+ */
+@Controller('files')
+@UseInterceptors(LoggingInterceptor)
+export class FileDownloadController {
+  private readonly logger = new Logger(FileDownloadController.name);
+
+  constructor(
+    private readonly fileService: FileService,
+    private readonly previewService: PreviewService
+  ) {}
+
+  /**
+   * Streams a file when the URL signature is valid and has not expired
+   * @param id File identifier
+   * @param expires Expiry in seconds since the epoch
+   * @param version Version to download; the current version when omitted
+   * @param signature URL signature
+   * @returns Promise<StreamableFile> File stream with metadata
+   * @throws ForbiddenException if the signature is invalid or expired
+   * @throws NotFoundException if file not found
+   */
+  @Get(':id/download')
+  async downloadFile(
+    @Param('id') id: string,
+    @Query('expires') expires: string,
+    @Query('version') version: string | undefined,
+    @Query('signature') signature: string
+  ): Promise<StreamableFile> {
+    const versionNumber = version === undefined ? undefined : Number(version);
+
+    if (!this.fileService.verifySignedUrl(id, expires, signature, Date.now(), versionNumber)) {
+      this.logger.warn(`Rejected download with invalid or expired signature: ${id}`);
+      throw new ForbiddenException('Download link is invalid or has expired');
+    }
+
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      if (versionNumber !== undefined) {
+        const fileVersion = await this.fileService.getVersion(id, versionNumber);
+        this.logger.log(`Signed download served: ${id} version ${versionNumber}`);
+
+        return new StreamableFile(await this.fileService.getVersionStream(fileVersion), {
+          type: fileVersion.mimeType,
+          disposition: `attachment; filename="${fileVersion.originalName}"`,
+          length: Number(fileVersion.size)
+        });
+      }
+
+      this.logger.log(`Signed download served: ${id}`);
+
+      return new StreamableFile(await this.fileService.getFileStream(id), {
+        type: file.mimeType,
+        disposition: `attachment; filename="${file.originalName}"`,
+        length: file.size
+      });
+
+    } catch (error) {
+      this.logger.error(`Signed download failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new BadRequestException(`File download failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Serves a preview image when the URL signature is valid and has not expired
+   * @param id File identifier
+   * @param kind Preview kind, thumbnail or preview
+   * @param expires Expiry in seconds since the epoch
+   * @param signature URL signature
+   * @returns Promise<StreamableFile> Preview image, displayed inline
+   * @throws ForbiddenException if the signature is invalid or expired
+   * @throws NotFoundException if the preview does not exist
+   */
+  @Get(':id/previews/:kind')
+  async getPreview(
+    @Param('id') id: string,
+    @Param('kind') kind: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string
+  ): Promise<StreamableFile> {
+    const previewKind = kind.toUpperCase() as FilePreviewKind;
+
+    if (
+      !Object.values(FilePreviewKind).includes(previewKind) ||
+      !this.fileService.verifySignedPreviewUrl(id, previewKind, expires, signature)
+    ) {
+      throw new ForbiddenException('Preview link is invalid or has expired');
+    }
+
+    try {
+      const preview = await this.previewService.getCurrent(id, previewKind);
+
+      return new StreamableFile(await this.previewService.getStream(preview), {
+        type: preview.mimeType,
+        disposition: 'inline',
+        length: preview.size
+      });
+
+    } catch (error) {
+      this.logger.error(`Preview download failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new BadRequestException(`Preview download failed: ${error.message}`);
+    }
+  }
+}
\ No newline at end of file
@@ -7,6 +7,8 @@ import {
   UseInterceptors,
   UploadedFile,
   Param,
+  ParseIntPipe,
+  Query,
   Req,
   StreamableFile,
   Logger,
@@ -17,8 +19,15 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { AuthGuard } from '@nestjs/passport';
 import { Request } from 'express';
-import { FileService } from '../services/file.service';
-import { IFile } from '../../../shared/interfaces/file.interface';
+import { FileService, IFileRequester } from '../services/file.service';
+import {
+  IFile,
+  IFilePreviewLink,
+  IFileVersion,
+  ISignedFileUrl
+} from '../../../shared/interfaces/file.interface';
+import { PreviewService } from '../services/preview.service';
+import { validateFileParent, validatePreviewQuery } from '../validators/file.validator';
 import { LoggingInterceptor } from '../interceptors/logging.interceptor';
 import { QuotaGuard } from '../guards/quota.guard';
 import { PermissionGuard } from '../guards/permission.guard';
@@ -36,7 +45,10 @@ import { storageConfig } from '../config/storage.config';
 export class FileController {
   private readonly logger = new Logger(FileController.name);
 
-  constructor(private readonly fileService: FileService) {}
+  constructor(
+    private readonly fileService: FileService,
+    private readonly previewService: PreviewService
+  ) {}
 
   /**
    * Handles secure file upload with validation, virus scanning, and quota checks
@@ -64,6 +76,14 @@ export class FileController {
         throw new BadRequestException('No file provided');
       }
 
+      const parent = validateFileParent(req.body);
+      if (parent.error) {
+        throw new BadRequestException(parent.error.message);
+      }
+      const { projectId, taskId } = parent.value;
+
+      await this.fileService.assertCanUpload(this.getRequester(req), projectId, taskId);
+
       const fileUpload = {
         originalName: file.originalname,
         mimeType: file.mimetype,
@@ -82,7 +102,9 @@ export class FileController {
       // Process upload with enhanced metadata
       const uploadedFile = await this.fileService.uploadFile({
         ...fileUpload,
-        userId: req.user?.['id'],
+        uploadedBy: req.user?.['id'],
+        projectId,
+        taskId: taskId || null,
         metadata: {
           ipAddress: req.ip,
           userAgent: req.headers['user-agent'],
@@ -96,13 +118,58 @@ export class FileController {
     } catch (error) {
       this.logger.error(`File upload failed: ${error.message}`, error.stack);
       
-      if (error instanceof BadRequestException) {
+      if (error instanceof BadRequestException || error instanceof ForbiddenException) {
         throw error;
       }
       throw new BadRequestException(`File upload failed: ${error.message}`);
     }
   }
 
+  /**
+   * Returns signed preview image links for several files. Files the user cannot
+   * read, and files whose previews are missing or still being generated, are
+   * left out rather than failing the whole lookup.
+   * @param query File IDs as a comma-separated list and an optional preview kind
+   * @param req Express request object for user context
+   * @returns Promise<IFilePreviewLink[]> Preview links
+   * @throws BadRequestException for invalid queries
+   */
+  @Get('previews')
+  async getPreviews(
+    @Query() query: Record<string, string>,
+    @Req() req: Request
+  ): Promise<IFilePreviewLink[]> {
+    try {
+      const { error, value } = validatePreviewQuery(query);
+      if (error) {
+        throw new BadRequestException(error.message);
+      }
+
+      const requester = this.getRequester(req);
+      const readable: string[] = [];
+
+      for (const id of value.ids as string[]) {
+        try {
+          await this.fileService.assertCanRead(await this.fileService.getFile(id), requester);
+          readable.push(id);
+        } catch {
+          // Missing or forbidden files simply get no preview
+        }
+      }
+
+      const previews = await this.previewService.findCurrent(readable, value.kind);
+      return await Promise.all(previews.map(preview => this.fileService.getPreviewUrl(preview)));
+
+    } catch (error) {
+      this.logger.error(`Preview lookup failed: ${error.message}`, error.stack);
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException(`Preview lookup failed: ${error.message}`);
+    }
+  }
+
   /**
    * Retrieves file with streaming support and access control
    * @param id File identifier
@@ -125,6 +192,8 @@ export class FileController {
         throw new NotFoundException('File not found');
       }
 
+      await this.fileService.assertCanRead(file, this.getRequester(req));
+
       // Log access for audit purposes
       this.logger.log(`File access granted: ${id} to user ${req.user?.['id']}`);
 
@@ -137,13 +206,253 @@ export class FileController {
     } catch (error) {
       this.logger.error(`File retrieval failed: ${error.message}`, error.stack);
       
-      if (error instanceof NotFoundException) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
         throw error;
       }
       throw new BadRequestException(`File retrieval failed: ${error.message}`);
     }
   }
 
+  /**
+   * Issues a time-limited signed download URL for a file
+   * @param id File identifier
+   * @param req Express request object for user context
+   * @returns Promise<ISignedFileUrl> Signed URL and its expiry
+   * @throws NotFoundException if file not found
+   * @throws ForbiddenException if access denied
+   */
+  @Get(':id/url')
+  async getSignedUrl(
+    @Param('id') id: string,
+    @Req() req: Request
+  ): Promise<ISignedFileUrl> {
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanRead(file, this.getRequester(req));
+
+      this.logger.log(`Signed URL issued: ${id} to user ${req.user?.['id']}`);
+      return await this.fileService.getDownloadUrl(file);
+
+    } catch (error) {
+      this.logger.error(`Signed URL creation failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new BadRequestException(`Signed URL creation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Lists a file's versions, newest first
+   * @param id File identifier
+   * @param req Express request object for user context
+   * @returns Promise<IFileVersion[]> Version history
+   * @throws NotFoundException if file not found
+   * @throws ForbiddenException if access denied
+   */
+  @Get(':id/versions')
+  async listVersions(
+    @Param('id') id: string,
+    @Req() req: Request
+  ): Promise<IFileVersion[]> {
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanRead(file, this.getRequester(req));
+
+      return await this.fileService.listVersions(id);
+
+    } catch (error) {
+      this.logger.error(`Version listing failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new BadRequestException(`Version listing failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Uploads new content for a file as its next version
+   * @param id File identifier
+   * @param file Uploaded file buffer and metadata
+   * @param req Express request object for user context
+   * @returns Promise<IFile> File metadata for the new version
+   * @throws BadRequestException for validation failures or unchanged content
+   * @throws ForbiddenException if access denied
+   */
+  @Post(':id/versions')
+  @UseInterceptors(FileInterceptor('file', {
+    limits: {
+      fileSize: storageConfig.limits.maxFileSize,
+    },
+  }))
+  @UseGuards(QuotaGuard)
+  async uploadVersion(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Req() req: Request
+  ): Promise<IFile> {
+    try {
+      if (!file) {
+        throw new BadRequestException('No file provided');
+      }
+
+      const existing = await this.fileService.getFile(id);
+      if (!existing) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanUpdate(existing, this.getRequester(req));
+
+      const updated = await this.fileService.uploadVersion(id, {
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        buffer: file.buffer,
+        uploadedBy: req.user?.['id']
+      });
+
+      this.logger.log(`Version ${updated.currentVersion} of file ${id} uploaded by user ${req.user?.['id']}`);
+      return updated;
+
+    } catch (error) {
+      this.logger.error(`Version upload failed: ${error.message}`, error.stack);
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(`Version upload failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Streams the content of one version of a file
+   * @param id File identifier
+   * @param version Version number
+   * @param req Express request object for user context
+   * @returns Promise<StreamableFile> Version content with its metadata
+   * @throws NotFoundException if file or version not found
+   * @throws ForbiddenException if access denied
+   */
+  @Get(':id/versions/:version')
+  async getVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Req() req: Request
+  ): Promise<StreamableFile> {
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanRead(file, this.getRequester(req));
+
+      const fileVersion = await this.fileService.getVersion(id, version);
+
+      return new StreamableFile(await this.fileService.getVersionStream(fileVersion), {
+        type: fileVersion.mimeType,
+        disposition: `attachment; filename="${fileVersion.originalName}"`,
+        length: Number(fileVersion.size)
+      });
+
+    } catch (error) {
+      this.logger.error(`Version retrieval failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new BadRequestException(`Version retrieval failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Issues a time-limited signed download URL for one version of a file
+   * @param id File identifier
+   * @param version Version number
+   * @param req Express request object for user context
+   * @returns Promise<ISignedFileUrl> Signed URL and its expiry
+   * @throws NotFoundException if file or version not found
+   * @throws ForbiddenException if access denied
+   */
+  @Get(':id/versions/:version/url')
+  async getVersionUrl(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Req() req: Request
+  ): Promise<ISignedFileUrl> {
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanRead(file, this.getRequester(req));
+
+      return await this.fileService.getDownloadUrl(file, await this.fileService.getVersion(id, version));
+
+    } catch (error) {
+      this.logger.error(`Version URL creation failed: ${error.message}`, error.stack);
+
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new BadRequestException(`Version URL creation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Makes an older version current again
+   * @param id File identifier
+   * @param version Version number to restore
+   * @param req Express request object for user context
+   * @returns Promise<IFile> File metadata for the restored version
+   * @throws NotFoundException if file or version not found
+   * @throws ForbiddenException if access denied
+   */
+  @Post(':id/versions/:version/restore')
+  async restoreVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Req() req: Request
+  ): Promise<IFile> {
+    try {
+      const file = await this.fileService.getFile(id);
+      if (!file) {
+        throw new NotFoundException('File not found');
+      }
+
+      await this.fileService.assertCanUpdate(file, this.getRequester(req));
+
+      return await this.fileService.restoreVersion(id, version, req.user?.['id']);
+
+    } catch (error) {
+      this.logger.error(`Version restore failed: ${error.message}`, error.stack);
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(`Version restore failed: ${error.message}`);
+    }
+  }
+
   /**
    * Securely deletes file with proper cleanup and audit logging
    * @param id File identifier
@@ -166,7 +475,10 @@ export class FileController {
         throw new NotFoundException('File not found');
       }
 
-      await this.fileService.deleteFile(id);
+      const requester = this.getRequester(req);
+      await this.fileService.assertCanDelete(file, requester);
+
+      await this.fileService.deleteFile(id, requester.id);
 
       // Log deletion for audit purposes
       this.logger.log(`File deleted successfully: ${id} by user ${req.user?.['id']}`);
@@ -174,10 +486,20 @@ export class FileController {
     } catch (error) {
       this.logger.error(`File deletion failed: ${error.message}`, error.stack);
       
-      if (error instanceof NotFoundException) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
         throw error;
       }
       throw new BadRequestException(`File deletion failed: ${error.message}`);
     }
   }
+
+  /**
+   * Extracts the authenticated user for access checks
+   */
+  private getRequester(req: Request): IFileRequester {
+    return {
+      id: req.user?.['id'],
+      role: req.user?.['role']
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  UseGuards,
+  UseInterceptors,
+  Param,
+  Headers,
+  Req,
+  HttpCode,
+  HttpException,
+  Logger,
+  BadRequestException
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import { IFileRequester } from '../services/file.service';
+import { UploadSessionService } from '../services/upload-session.service';
+import { IFile, IUploadSession } from '../../../shared/interfaces/file.interface';
+import { validateUploadSessionCreate } from '../validators/file.validator';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+
+/**
+ * Upload session with the chunk indexes the client still has to send
+ */
+interface IUploadSessionResponse extends IUploadSession {
+  missingChunks: number[];
+}
+
+/**
+ * Controller for resumable chunked uploads of large attachments
+ * @class UploadSessionController
+ */
+@Controller('files/uploads')
+@UseGuards(AuthGuard())
+@UseInterceptors(LoggingInterceptor)
+export class UploadSessionController {
+  private readonly logger = new Logger(UploadSessionController.name);
+
+  constructor(private readonly uploadSessionService: UploadSessionService) {}
+
+  /**
+   * Opens an upload session for a file that will be sent in chunks
+   * @param req Express request object with the file description
+   * @returns Promise<IUploadSessionResponse> New session with its chunk layout
+   * @throws BadRequestException for invalid requests or unsupported files
+   * @throws ForbiddenException if the user cannot upload to the project
+   */
+  @Post()
+  async createSession(@Req() req: Request): Promise<IUploadSessionResponse> {
+    try {
+      const { error, value } = validateUploadSessionCreate(req.body);
+      if (error) {
+        throw new BadRequestException(error.message);
+      }
+
+      const session = await this.uploadSessionService.createSession(value, this.getRequester(req));
+      return this.toResponse(session);
+
+    } catch (error) {
+      this.logger.error(`Upload session creation failed: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Upload session creation failed');
+    }
+  }
+
+  /**
+   * Returns a session and the chunks still missing, so an interrupted upload can resume
+   * @param sessionId Upload session identifier
+   * @param req Express request object for user context
+   * @returns Promise<IUploadSessionResponse> Session state
+   * @throws NotFoundException if the session does not exist
+   */
+  @Get(':sessionId')
+  async getSession(
+    @Param('sessionId') sessionId: string,
+    @Req() req: Request
+  ): Promise<IUploadSessionResponse> {
+    try {
+      const session = await this.uploadSessionService.getSession(sessionId, this.getRequester(req));
+      return this.toResponse(session);
+
+    } catch (error) {
+      this.logger.error(`Upload session lookup failed: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Upload session lookup failed');
+    }
+  }
+
+  /**
+   * Stores one chunk sent as the raw request body
+   * @param sessionId Upload session identifier
+   * @param index Zero-based chunk index
+   * @param checksum Hex SHA-256 of the chunk
+   * @param req Express request object carrying the chunk bytes
+   * @returns Promise<IUploadSessionResponse> Session state after the chunk
+   * @throws BadRequestException for wrong sizes or checksum mismatches
+   * @throws ConflictException if the session no longer accepts chunks
+   */
+  @Put(':sessionId/chunks/:index')
+  async uploadChunk(
+    @Param('sessionId') sessionId: string,
+    @Param('index') index: string,
+    @Headers('x-chunk-checksum') checksum: string,
+    @Req() req: Request
+  ): Promise<IUploadSessionResponse> {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        throw new BadRequestException('Chunk must be sent as application/octet-stream');
+      }
+
+      const session = await this.uploadSessionService.uploadChunk(
+        sessionId,
+        Number(index),
+        req.body,
+        checksum,
+        this.getRequester(req)
+      );
+      return this.toResponse(session);
+
+    } catch (error) {
+      this.logger.error(`Chunk ${index} upload failed for session ${sessionId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Chunk upload failed');
+    }
+  }
+
+  /**
+   * Assembles the uploaded chunks into the final file
+   * @param sessionId Upload session identifier
+   * @param req Express request object for user context
+   * @returns Promise<IFile> Stored file metadata
+   * @throws BadRequestException if chunks are missing or the checksum does not match
+   */
+  @Post(':sessionId/complete')
+  async completeSession(
+    @Param('sessionId') sessionId: string,
+    @Req() req: Request
+  ): Promise<IFile> {
+    try {
+      const file = await this.uploadSessionService.completeSession(sessionId, this.getRequester(req));
+      this.logger.log(`Upload session ${sessionId} completed by user ${req.user?.['id']}`);
+      return file;
+
+    } catch (error) {
+      this.logger.error(`Upload session completion failed: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Upload session completion failed');
+    }
+  }
+
+  /**
+   * Cancels a session and discards its chunks
+   * @param sessionId Upload session identifier
+   * @param req Express request object for user context
+   */
+  @Delete(':sessionId')
+  @HttpCode(204)
+  async abortSession(
+    @Param('sessionId') sessionId: string,
+    @Req() req: Request
+  ): Promise<void> {
+    try {
+      await this.uploadSessionService.abortSession(sessionId, this.getRequester(req));
+
+    } catch (error) {
+      this.logger.error(`Upload session abort failed: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Upload session abort failed');
+    }
+  }
+
+  private toResponse(session: IUploadSession): IUploadSessionResponse {
+    return {
+      ...session,
+      missingChunks: this.uploadSessionService.getMissingChunks(session)
+    };
+  }
+
+  /**
+   * Keeps HTTP errors raised by the service and reports anything else as a bad request
+   */
+  private toHttpException(error: Error, message: string): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    return new BadRequestException(`${message}: ${error.message}`);
+  }
+
+  /**
+   * Extracts the authenticated user for access checks
+   */
+  private getRequester(req: Request): IFileRequester {
+    return {
+      id: req.user?.['id'],
+      role: req.user?.['role']
+    };
+  }
+}
\ No newline at end of file
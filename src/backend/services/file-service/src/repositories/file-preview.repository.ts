@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex'; // v2.4.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import { FilePreviewKind, IFilePreview } from '../../../../shared/interfaces/file.interface';
+
+// Constants for repository operations
+const PREVIEWS_TABLE = 'file_previews';
+const FILES_TABLE = 'files';
+
+const PREVIEW_COLUMNS = [
+  'id',
+  'file_id as fileId',
+  'version',
+  'kind',
+  'path',
+  'mime_type as mimeType',
+  'width',
+  'height',
+  'size',
+  'created_at as createdAt'
+];
+
+/**
+ * Values recorded for a rendered preview
+ */
+export type NewFilePreview = Omit<IFilePreview, 'id' | 'createdAt'>;
+
+/**
+ * Persistence for thumbnails and previews derived from file versions
+ * @class FilePreviewRepository
+ */
+@Injectable()
+export class FilePreviewRepository {
+  private readonly db: Knex;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+  }
+
+  /**
+   * Stores a preview, replacing one generated earlier for the same version and kind
+   * @param preview Preview details
+   * @returns Promise<IFilePreview> Stored preview
+   */
+  async upsert(preview: NewFilePreview): Promise<IFilePreview> {
+    const [stored] = await this.db(PREVIEWS_TABLE)
+      .insert({
+        file_id: preview.fileId,
+        version: preview.version,
+        kind: preview.kind,
+        path: preview.path,
+        mime_type: preview.mimeType,
+        width: preview.width,
+        height: preview.height,
+        size: preview.size
+      })
+      .onConflict(['file_id', 'version', 'kind'])
+      .merge(['path', 'width', 'height', 'size'])
+      .returning(PREVIEW_COLUMNS);
+
+    return stored;
+  }
+
+  /**
+   * Previews of the current versions of the given files
+   * @param fileIds File identifiers
+   * @param kind Only return previews of this kind
+   */
+  async findCurrent(fileIds: string[], kind?: FilePreviewKind): Promise<IFilePreview[]> {
+    return this.db(`${PREVIEWS_TABLE} as p`)
+      .join(`${FILES_TABLE} as f`, (join) => {
+        join.on('f.id', 'p.file_id').andOn('f.current_version', 'p.version');
+      })
+      .whereIn('p.file_id', fileIds)
+      .modify((query) => {
+        if (kind) query.where('p.kind', kind);
+      })
+      .select(PREVIEW_COLUMNS.map(column => `p.${column}`));
+  }
+
+  /**
+   * Storage keys of every preview of a file
+   * @param fileId File identifier
+   */
+  async findPaths(fileId: string): Promise<string[]> {
+    return this.db(PREVIEWS_TABLE).where('file_id', fileId).pluck('path');
+  }
+}
\ No newline at end of file
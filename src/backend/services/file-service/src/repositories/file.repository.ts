@@ -0,0 +1,292 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex'; // v2.4.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import { IFile, IFileVersion } from '../../../../shared/interfaces/file.interface';
+import { TaskActivityType } from '../../../../shared/interfaces/task.interface';
+
+// Constants for repository operations
+const FILES_TABLE = 'files';
+const VERSIONS_TABLE = 'file_versions';
+const TASKS_TABLE = 'tasks';
+const ACTIVITIES_TABLE = 'task_activities';
+const PROJECTS_TABLE = 'projects';
+
+const FILE_COLUMNS = [
+  'id',
+  'name',
+  'original_name as originalName',
+  'mime_type as mimeType',
+  'size',
+  'path',
+  'uploaded_by as uploadedBy',
+  'project_id as projectId',
+  'task_id as taskId',
+  'current_version as currentVersion',
+  'checksum',
+  'created_at as createdAt',
+  'updated_at as updatedAt'
+];
+
+const VERSION_COLUMNS = [
+  'id',
+  'file_id as fileId',
+  'version',
+  'path',
+  'original_name as originalName',
+  'mime_type as mimeType',
+  'size',
+  'checksum',
+  'uploaded_by as uploadedBy',
+  'restored_from as restoredFrom',
+  'created_at as createdAt'
+];
+
+/**
+ * Membership of the project a file belongs to
+ */
+export interface IProjectAccess {
+  ownerId: string;
+  memberIds: string[];
+}
+
+/**
+ * Metadata recorded for a newly stored file
+ */
+export type NewFile = Omit<IFile, 'id' | 'url' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Content and metadata that make up one version of a file
+ */
+export type FileVersionContent = Pick<IFileVersion, 'path' | 'originalName' | 'mimeType' | 'size' | 'checksum'>;
+
+/**
+ * Persistence for file metadata and version history, plus the project and
+ * task lookups access checks depend on
+ * @class FileRepository
+ */
+@Injectable()
+export class FileRepository {
+  private readonly db: Knex;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+  }
+
+  /**
+   * Records a file as its first version and attaches it to its task, adding
+   * the attachment to the task's activity history
+   * @param file File metadata
+   * @returns Promise<IFile> Stored file
+   */
+  async create(file: NewFile): Promise<IFile> {
+    return this.db.transaction(async (trx) => {
+      const [created]: IFile[] = await trx(FILES_TABLE)
+        .insert({
+          name: file.name,
+          original_name: file.originalName,
+          mime_type: file.mimeType,
+          size: file.size,
+          path: file.path,
+          uploaded_by: file.uploadedBy,
+          project_id: file.projectId,
+          task_id: file.taskId,
+          current_version: 1,
+          checksum: file.checksum
+        })
+        .returning(FILE_COLUMNS);
+
+      if (!created) {
+        throw new Error('File metadata was not stored');
+      }
+
+      await trx(VERSIONS_TABLE).insert({
+        file_id: created.id,
+        version: 1,
+        path: file.path,
+        original_name: file.originalName,
+        mime_type: file.mimeType,
+        size: file.size,
+        checksum: file.checksum,
+        uploaded_by: file.uploadedBy
+      });
+
+      // Keep the task's attachment list in step with the file's parent
+      if (created.taskId) {
+        const [task] = await trx(TASKS_TABLE)
+          .where('id', created.taskId)
+          .update({ attachment_ids: trx.raw('array_append(attachment_ids, ?)', [created.id]) })
+          .returning('attachment_ids as attachmentIds');
+
+        if (task && created.uploadedBy) {
+          await this.insertAttachmentActivity(trx, {
+            taskId: created.taskId,
+            userId: created.uploadedBy,
+            type: TaskActivityType.ATTACHMENT_ADDED,
+            fileId: created.id,
+            oldValue: task.attachmentIds.filter((id: string) => id !== created.id),
+            newValue: task.attachmentIds
+          });
+        }
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Loads a file's metadata
+   * @param fileId File identifier
+   * @returns Promise<IFile | null> File, or null if it does not exist
+   */
+  async findById(fileId: string): Promise<IFile | null> {
+    const file = await this.db(FILES_TABLE).where('id', fileId).first(FILE_COLUMNS);
+    return file || null;
+  }
+
+  /**
+   * Deletes a file's metadata and versions and detaches it from its task,
+   * recording the removal in the task's activity history
+   * @param file File to delete
+   * @param deletedBy User deleting the file
+   */
+  async delete(file: Pick<IFile, 'id' | 'taskId'>, deletedBy: string): Promise<void> {
+    await this.db.transaction(async (trx) => {
+      if (file.taskId) {
+        const [task] = await trx(TASKS_TABLE)
+          .where('id', file.taskId)
+          .update({ attachment_ids: trx.raw('array_remove(attachment_ids, ?)', [file.id]) })
+          .returning('attachment_ids as attachmentIds');
+
+        if (task) {
+          await this.insertAttachmentActivity(trx, {
+            taskId: file.taskId,
+            userId: deletedBy,
+            type: TaskActivityType.ATTACHMENT_REMOVED,
+            fileId: file.id,
+            oldValue: [...task.attachmentIds, file.id],
+            newValue: task.attachmentIds
+          });
+        }
+      }
+
+      // Versions and previews are removed by cascade
+      await trx(FILES_TABLE).where('id', file.id).delete();
+    });
+  }
+
+  /**
+   * Lists a file's versions, newest first
+   * @param fileId File identifier
+   */
+  async findVersions(fileId: string): Promise<IFileVersion[]> {
+    return this.db(VERSIONS_TABLE)
+      .where('file_id', fileId)
+      .orderBy('version', 'desc')
+      .select(VERSION_COLUMNS);
+  }
+
+  /**
+   * Loads one version of a file
+   * @param fileId File identifier
+   * @param version Version number
+   * @returns Promise<IFileVersion | null> Version, or null if it does not exist
+   */
+  async findVersion(fileId: string, version: number): Promise<IFileVersion | null> {
+    const fileVersion = await this.db(VERSIONS_TABLE)
+      .where({ file_id: fileId, version })
+      .first(VERSION_COLUMNS);
+    return fileVersion || null;
+  }
+
+  /**
+   * Storage keys of every version's content; restored versions share content
+   * @param fileId File identifier
+   */
+  async findVersionPaths(fileId: string): Promise<string[]> {
+    return this.db(VERSIONS_TABLE).where('file_id', fileId).distinct().pluck('path');
+  }
+
+  /**
+   * Points the file at new content and records it as the next version. Both
+   * happen in one statement so concurrent uploads get distinct version numbers.
+   * @returns Promise<number | null> New version number, or null if the file does not exist
+   */
+  async appendVersion(
+    fileId: string,
+    content: FileVersionContent,
+    uploadedBy: string,
+    restoredFrom: number | null
+  ): Promise<number | null> {
+    const result = await this.db.raw(
+      `WITH bumped AS (
+         UPDATE files
+         SET current_version = current_version + 1,
+             name = :path, path = :path, original_name = :originalName, mime_type = :mimeType,
+             size = :size, checksum = :checksum
+         WHERE id = :fileId
+         RETURNING id, current_version
+       )
+       INSERT INTO file_versions (file_id, version, path, original_name, mime_type, size, checksum, uploaded_by, restored_from)
+       SELECT id, current_version, :path, :originalName, :mimeType, :size, :checksum, :uploadedBy, :restoredFrom FROM bumped
+       RETURNING version`,
+      {
+        fileId,
+        path: content.path,
+        originalName: content.originalName,
+        mimeType: content.mimeType,
+        size: content.size,
+        checksum: content.checksum,
+        uploadedBy,
+        restoredFrom
+      }
+    );
+
+    return result.rows[0]?.version ?? null;
+  }
+
+  /**
+   * Project a task belongs to
+   * @param taskId Task identifier
+   * @returns Promise<string | null> Project identifier, or null if the task does not exist
+   */
+  async findTaskProjectId(taskId: string): Promise<string | null> {
+    const task = await this.db(TASKS_TABLE).where('id', taskId).first('project_id as projectId');
+    return task?.projectId ?? null;
+  }
+
+  /**
+   * Records an attachment change in the same shape the task service uses for
+   * changes to a task's attachment list
+   */
+  private async insertAttachmentActivity(
+    trx: Knex.Transaction,
+    activity: {
+      taskId: string;
+      userId: string;
+      type: TaskActivityType.ATTACHMENT_ADDED | TaskActivityType.ATTACHMENT_REMOVED;
+      fileId: string;
+      oldValue: string[];
+      newValue: string[];
+    }
+  ): Promise<void> {
+    await trx(ACTIVITIES_TABLE).insert({
+      task_id: activity.taskId,
+      user_id: activity.userId,
+      activity_type: activity.type,
+      changes: JSON.stringify({ attachmentIds: { oldValue: activity.oldValue, newValue: activity.newValue } }),
+      metadata: JSON.stringify({ ids: [activity.fileId] })
+    });
+  }
+
+  /**
+   * Owner and members of a project
+   * @param projectId Project identifier
+   * @returns Promise<IProjectAccess | null> Membership, or null if the project does not exist
+   */
+  async findProjectAccess(projectId: string): Promise<IProjectAccess | null> {
+    const project = await this.db(PROJECTS_TABLE)
+      .where('id', projectId)
+      .first('owner_id as ownerId', 'member_ids as memberIds');
+    return project || null;
+  }
+}
\ No newline at end of file
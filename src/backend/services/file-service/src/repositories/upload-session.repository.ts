@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { Knex } from 'knex'; // v2.4.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import { IUploadSession, UploadSessionStatus } from '../../../../shared/interfaces/file.interface';
+
+// Constants for repository operations
+const SESSIONS_TABLE = 'upload_sessions';
+
+const SESSION_COLUMNS = [
+  'id',
+  'uploaded_by as uploadedBy',
+  'project_id as projectId',
+  'task_id as taskId',
+  'original_name as originalName',
+  'mime_type as mimeType',
+  'size',
+  'chunk_size as chunkSize',
+  'total_chunks as totalChunks',
+  'received_chunks as receivedChunks',
+  'checksum',
+  'status',
+  'file_id as fileId',
+  'expires_at as expiresAt',
+  'created_at as createdAt',
+  'updated_at as updatedAt'
+];
+
+/**
+ * Values recorded when a session is opened
+ */
+export type NewUploadSession = Omit<IUploadSession, 'id' | 'receivedChunks' | 'status' | 'fileId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Persistence for resumable upload sessions. Status changes are conditional
+ * updates so concurrent requests for one session cannot both win.
+ * @class UploadSessionRepository
+ */
+@Injectable()
+export class UploadSessionRepository {
+  private readonly db: Knex;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+  }
+
+  /**
+   * Opens a session with no chunks received
+   * @param session Session details
+   * @returns Promise<IUploadSession> Stored session
+   */
+  async create(session: NewUploadSession): Promise<IUploadSession> {
+    const [created] = await this.db(SESSIONS_TABLE)
+      .insert({
+        uploaded_by: session.uploadedBy,
+        project_id: session.projectId,
+        task_id: session.taskId,
+        original_name: session.originalName,
+        mime_type: session.mimeType,
+        size: session.size,
+        chunk_size: session.chunkSize,
+        total_chunks: session.totalChunks,
+        checksum: session.checksum,
+        status: UploadSessionStatus.ACTIVE,
+        expires_at: session.expiresAt
+      })
+      .returning(SESSION_COLUMNS);
+
+    return created;
+  }
+
+  /**
+   * Loads a session
+   * @param sessionId Session identifier
+   * @returns Promise<IUploadSession | null> Session, or null if it does not exist
+   */
+  async findById(sessionId: string): Promise<IUploadSession | null> {
+    const session = await this.db(SESSIONS_TABLE).where('id', sessionId).first(SESSION_COLUMNS);
+    return session || null;
+  }
+
+  /**
+   * Records a received chunk and extends the session's expiry. Done in one
+   * statement so concurrent chunks of a session don't overwrite each other.
+   * @returns Promise Updated chunk list and expiry, or null if the session is no longer active
+   */
+  async addChunk(
+    sessionId: string,
+    index: number,
+    expiresAt: Date
+  ): Promise<Pick<IUploadSession, 'receivedChunks' | 'expiresAt'> | null> {
+    const [updated] = await this.db(SESSIONS_TABLE)
+      .where({ id: sessionId, status: UploadSessionStatus.ACTIVE })
+      .update({
+        received_chunks: this.db.raw('ARRAY(SELECT DISTINCT unnest(received_chunks || ?::integer) ORDER BY 1)', [index]),
+        expires_at: expiresAt
+      })
+      .returning(['received_chunks as receivedChunks', 'expires_at as expiresAt']);
+
+    return updated || null;
+  }
+
+  /**
+   * Moves a session from one status to another if it is still in the first,
+   * setting when it expires in the new status
+   * @returns Promise<boolean> Whether the session was in the expected status
+   */
+  async transition(
+    sessionId: string,
+    from: UploadSessionStatus,
+    to: UploadSessionStatus,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const updated = await this.db(SESSIONS_TABLE)
+      .where({ id: sessionId, status: from })
+      .update({ status: to, expires_at: expiresAt });
+    return updated > 0;
+  }
+
+  /**
+   * Sets a session's status unconditionally
+   */
+  async setStatus(sessionId: string, status: UploadSessionStatus): Promise<void> {
+    await this.db(SESSIONS_TABLE).where('id', sessionId).update({ status });
+  }
+
+  /**
+   * Aborts a session only if it is still active or completing and its expiry
+   * has passed, so a session that received a chunk or finished completing
+   * since it was found expired is left alone
+   * @returns Promise<boolean> Whether the session was aborted
+   */
+  async abortExpired(sessionId: string, now: Date): Promise<boolean> {
+    const updated = await this.db(SESSIONS_TABLE)
+      .where('id', sessionId)
+      .whereIn('status', [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING])
+      .where('expires_at', '<', now)
+      .update({ status: UploadSessionStatus.ABORTED });
+    return updated > 0;
+  }
+
+  /**
+   * Marks a session completed and links the file assembled from it
+   */
+  async complete(sessionId: string, fileId: string): Promise<void> {
+    await this.db(SESSIONS_TABLE)
+      .where('id', sessionId)
+      .update({ status: UploadSessionStatus.COMPLETED, file_id: fileId });
+  }
+
+  /**
+   * Sessions whose expiry has passed: active ones that stopped receiving
+   * chunks and completing ones whose assembly lease ran out
+   * @param now Current time
+   * @param limit Largest number of sessions to return
+   */
+  async findExpired(now: Date, limit: number): Promise<Pick<IUploadSession, 'id' | 'totalChunks'>[]> {
+    return this.db(SESSIONS_TABLE)
+      .whereIn('status', [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING])
+      .where('expires_at', '<', now)
+      .limit(limit)
+      .select('id', 'total_chunks as totalChunks');
+  }
+}
\ No newline at end of file
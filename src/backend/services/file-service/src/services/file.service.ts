@@ -1,12 +1,40 @@
-import { Injectable, Logger, UseInterceptors, CacheInterceptor } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  UseInterceptors,
+  CacheInterceptor,
+  Inject,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { ClamAV } from '@djsolutions/clamav';
 import { Cache } from '@nestjs/cache-manager';
-import { createHash } from 'crypto';
-import { IFile, IFileUpload } from '../../../shared/interfaces/file.interface';
-import { FileModel } from '../models/file.model';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import {
+  FilePreviewKind,
+  IFile,
+  IFilePreview,
+  IFilePreviewLink,
+  IFileUpload,
+  IFileVersion,
+  ISignedFileUrl
+} from '../../../shared/interfaces/file.interface';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
+import { FileRepository, FileVersionContent, IProjectAccess } from '../repositories/file.repository';
 import { storageConfig } from '../config/storage.config';
+import { IStorageDriver, STORAGE_DRIVER } from '../storage/storage.driver';
+import { PreviewService } from './preview.service';
+
+/**
+ * Authenticated user performing a file operation
+ */
+export interface IFileRequester {
+  id: string;
+  role: UserRole;
+}
 
 /**
  * Enhanced service for handling file operations with security, CDN optimization,
@@ -16,26 +44,17 @@ import { storageConfig } from '../config/storage.config';
 @Injectable()
 @UseInterceptors(CacheInterceptor)
 export class FileService {
-  private readonly s3Client: S3Client;
   private readonly virusScanner: ClamAV;
   private readonly logger = new Logger(FileService.name);
   private readonly CACHE_TTL = storageConfig.cache.duration;
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly cacheManager: Cache
+    private readonly cacheManager: Cache,
+    private readonly fileRepository: FileRepository,
+    @Inject(STORAGE_DRIVER) private readonly storage: IStorageDriver,
+    private readonly previewService: PreviewService
   ) {
-    // Initialize S3 client with enhanced configuration
-    this.s3Client = new S3Client({
-      region: storageConfig.s3.region,
-      credentials: {
-        accessKeyId: storageConfig.s3.accessKeyId,
-        secretAccessKey: storageConfig.s3.secretAccessKey,
-      },
-      useAccelerateEndpoint: storageConfig.s3.useAccelerateEndpoint,
-      maxAttempts: storageConfig.limits.maxRetries,
-    });
-
     // Initialize virus scanner
     this.virusScanner = new ClamAV({
       removeInfected: true,
@@ -61,47 +80,25 @@ export class FileService {
       await this.validateFile(fileUpload);
 
       // Perform virus scan if enabled
-      if (storageConfig.security.virusScan.enabled) {
-        const scanResult = await this.virusScanner.scanBuffer(fileUpload.buffer);
-        if (!scanResult.isClean) {
-          throw new Error(`Virus detected in file: ${scanResult.viruses.join(', ')}`);
-        }
-      }
+      await this.scanBuffer(fileUpload.buffer);
 
       // Generate secure file path
-      const filePath = `${storageConfig.uploadPath}/${new Date().getTime()}-${checksum.substring(0, 8)}-${fileUpload.originalName}`;
-
-      // Upload to S3 with encryption and metadata
-      const uploadCommand = new PutObjectCommand({
-        Bucket: storageConfig.s3.bucket,
-        Key: filePath,
-        Body: fileUpload.buffer,
-        ContentType: fileUpload.mimeType,
-        ServerSideEncryption: storageConfig.s3.encryptionConfig.algorithm,
-        Metadata: {
+      const filePath = this.createStoragePath(checksum, fileUpload.originalName);
+
+      // Write content to the configured storage backend with metadata
+      await this.storage.put(filePath, fileUpload.buffer, {
+        contentType: fileUpload.mimeType,
+        metadata: {
           originalName: fileUpload.originalName,
           checksum: checksum,
           uploadedAt: new Date().toISOString(),
         },
       });
 
-      await this.s3Client.send(uploadCommand);
-
-      // Create and save file metadata
-      const fileModel = new FileModel();
-      fileModel.name = filePath;
-      fileModel.originalName = fileUpload.originalName;
-      fileModel.mimeType = fileUpload.mimeType;
-      fileModel.size = fileUpload.size;
-      fileModel.path = filePath;
-      fileModel.url = fileModel.getPublicUrl();
+      const file = await this.registerStoredFile(filePath, fileUpload, checksum);
 
-      // Cache file metadata
-      const cacheKey = `file:${fileModel.id}`;
-      await this.cacheManager.set(cacheKey, fileModel, this.CACHE_TTL);
-
-      this.logger.log(`File uploaded successfully: ${fileModel.id}`);
-      return fileModel;
+      this.logger.log(`File uploaded successfully: ${file.id}`);
+      return file;
 
     } catch (error) {
       this.logger.error(`File upload failed: ${error.message}`, error.stack);
@@ -109,6 +106,58 @@ export class FileService {
     }
   }
 
+  /**
+   * Records metadata for content already written to storage, attaches the file
+   * to its task and caches it
+   * @param path Storage key of the content
+   * @param upload Upload metadata and ownership
+   * @param checksum SHA-256 of the content
+   * @returns Promise<IFile> File metadata with a download URL
+   */
+  async registerStoredFile(
+    path: string,
+    upload: Omit<IFileUpload, 'buffer'>,
+    checksum: string | null
+  ): Promise<IFile> {
+    const file = await this.fileRepository.create({
+      name: path,
+      originalName: upload.originalName,
+      mimeType: upload.mimeType,
+      size: upload.size,
+      path,
+      uploadedBy: upload.uploadedBy,
+      projectId: upload.projectId,
+      taskId: upload.taskId || null,
+      currentVersion: 1,
+      checksum
+    });
+
+    // Cache file metadata; signed URLs expire and are never cached
+    const cacheKey = `file:${file.id}`;
+    await this.cacheManager.set(cacheKey, file, this.CACHE_TTL);
+
+    this.previewService.enqueue(file);
+
+    return { ...file, url: (await this.getDownloadUrl(file)).url };
+  }
+
+  /**
+   * Scans content already written to storage for viruses, deleting it when infected
+   * @param path Storage key of the content
+   * @throws Error if a virus is detected
+   */
+  async scanStoredFile(path: string): Promise<void> {
+    if (!storageConfig.security.virusScan.enabled) {
+      return;
+    }
+
+    const scanResult = await this.virusScanner.scanStream(await this.storage.stream(path));
+    if (!scanResult.isClean) {
+      await this.storage.delete(path);
+      throw new Error(`Virus detected in file: ${scanResult.viruses.join(', ')}`);
+    }
+  }
+
   /**
    * Retrieves file with CDN optimization and caching
    * @param fileId File identifier
@@ -125,18 +174,15 @@ export class FileService {
       }
 
       // Retrieve file metadata
-      const fileModel = await FileModel.findOne({ where: { id: fileId } });
-      if (!fileModel) {
+      const file = await this.fileRepository.findById(fileId);
+      if (!file) {
         throw new Error('File not found');
       }
 
-      // Generate optimized URLs
-      fileModel.url = fileModel.getPublicUrl();
-
       // Cache the result
-      await this.cacheManager.set(cacheKey, fileModel, this.CACHE_TTL);
+      await this.cacheManager.set(cacheKey, file, this.CACHE_TTL);
 
-      return fileModel;
+      return file;
 
     } catch (error) {
       this.logger.error(`File retrieval failed: ${error.message}`, error.stack);
@@ -144,16 +190,369 @@ export class FileService {
     }
   }
 
+  /**
+   * Opens a read stream for the file content in storage
+   * @param fileId File identifier
+   * @returns Promise<Readable> File content stream
+   * @throws Error if file not found or storage read fails
+   */
+  async getFileStream(fileId: string): Promise<Readable> {
+    const file = await this.getFile(fileId);
+    return this.storage.stream(file.path);
+  }
+
+  /**
+   * Uploads new content for an existing file as its next version. The file
+   * keeps its id, so task attachments show the new version without changes.
+   * @param fileId File identifier
+   * @param fileUpload New content and its uploader
+   * @returns Promise<IFile> File metadata for the new version
+   * @throws BadRequestException if the content matches the current version
+   */
+  async uploadVersion(
+    fileId: string,
+    fileUpload: Omit<IFileUpload, 'projectId' | 'taskId'>
+  ): Promise<IFile> {
+    const file = await this.getFile(fileId);
+    const checksum = createHash('sha256').update(fileUpload.buffer).digest('hex');
+
+    if (checksum === file.checksum) {
+      throw new BadRequestException('Content is identical to the current version');
+    }
+
+    await this.validateFile(fileUpload);
+    await this.scanBuffer(fileUpload.buffer);
+
+    const filePath = this.createStoragePath(checksum, fileUpload.originalName);
+    await this.storage.put(filePath, fileUpload.buffer, {
+      contentType: fileUpload.mimeType,
+      metadata: {
+        originalName: fileUpload.originalName,
+        checksum: checksum,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    const updated = await this.appendVersion(fileId, {
+      path: filePath,
+      originalName: fileUpload.originalName,
+      mimeType: fileUpload.mimeType,
+      size: fileUpload.size,
+      checksum
+    }, fileUpload.uploadedBy, null);
+
+    this.logger.log(`File ${fileId} updated to version ${updated.currentVersion}`);
+    return updated;
+  }
+
+  /**
+   * Lists a file's versions, newest first
+   * @param fileId File identifier
+   * @returns Promise<IFileVersion[]> Version history
+   */
+  async listVersions(fileId: string): Promise<IFileVersion[]> {
+    return this.fileRepository.findVersions(fileId);
+  }
+
+  /**
+   * Loads one version of a file
+   * @param fileId File identifier
+   * @param version Version number
+   * @returns Promise<IFileVersion> Version metadata
+   * @throws NotFoundException if the version does not exist
+   */
+  async getVersion(fileId: string, version: number): Promise<IFileVersion> {
+    const fileVersion = await this.fileRepository.findVersion(fileId, version);
+    if (!fileVersion) {
+      throw new NotFoundException(`Version ${version} of file ${fileId} not found`);
+    }
+    return fileVersion;
+  }
+
+  /**
+   * Opens a read stream for one version's content
+   * @param version Version to read
+   * @returns Promise<Readable> Version content stream
+   */
+  async getVersionStream(version: IFileVersion): Promise<Readable> {
+    return this.storage.stream(version.path);
+  }
+
+  /**
+   * Makes an older version current again by appending it as a new version,
+   * so the history is never rewritten
+   * @param fileId File identifier
+   * @param version Version number to restore
+   * @param restoredBy User restoring the version
+   * @returns Promise<IFile> File metadata for the new version
+   * @throws BadRequestException if the version is already current
+   * @throws NotFoundException if the version does not exist
+   */
+  async restoreVersion(fileId: string, version: number, restoredBy: string): Promise<IFile> {
+    const file = await this.getFile(fileId);
+    if (version === file.currentVersion) {
+      throw new BadRequestException(`Version ${version} is already the current version`);
+    }
+
+    const restored = await this.getVersion(fileId, version);
+    const updated = await this.appendVersion(fileId, restored, restoredBy, restored.version);
+
+    this.logger.log(`File ${fileId} restored from version ${version} as version ${updated.currentVersion}`);
+    return updated;
+  }
+
+  /**
+   * Creates a time-limited download URL, served by the storage backend when it
+   * supports presigning and by this service's signed download route otherwise
+   * @param file File to link to
+   * @param version Earlier version to link to instead of the current one
+   * @returns Promise<ISignedFileUrl> Download URL and its expiry
+   */
+  async getDownloadUrl(file: IFile, version?: IFileVersion): Promise<ISignedFileUrl> {
+    const expiresIn = storageConfig.signedUrls.expiresIn;
+    const content = version || file;
+    const url = await this.storage.presign(content.path, expiresIn, { filename: content.originalName });
+
+    if (url) {
+      return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) };
+    }
+    return this.createSignedUrl(file, Date.now(), version?.version);
+  }
+
+  /**
+   * Creates a time-limited download URL that does not require authentication
+   * @param file File to link to
+   * @param now Current time in milliseconds
+   * @param version Version to link to; the current version when omitted
+   * @returns ISignedFileUrl Signed URL and its expiry
+   */
+  createSignedUrl(file: IFile, now: number = Date.now(), version?: number): ISignedFileUrl {
+    const expires = Math.floor(now / 1000) + storageConfig.signedUrls.expiresIn;
+    const signature = this.signDownload(file.id, expires, version);
+    const versionParam = version === undefined ? '' : `&version=${version}`;
+
+    return {
+      url: `${storageConfig.signedUrls.baseUrl}/${file.id}/download?expires=${expires}${versionParam}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  /**
+   * Checks a signed download URL's signature and expiry
+   * @param fileId File identifier from the URL
+   * @param expires Expiry in seconds since the epoch from the URL
+   * @param signature Signature from the URL
+   * @param now Current time in milliseconds
+   * @param version Version from the URL, if any
+   * @returns boolean Whether the download is allowed
+   */
+  verifySignedUrl(
+    fileId: string,
+    expires: string,
+    signature: string,
+    now: number = Date.now(),
+    version?: number
+  ): boolean {
+    const target = version === undefined ? fileId : `${fileId}:${version}`;
+    return this.verifySignature(target, expires, signature, now);
+  }
+
+  /**
+   * Creates a time-limited URL for a preview image, suitable for image tags
+   * @param preview Preview to link to
+   * @returns Promise<IFilePreviewLink> Preview URL, dimensions and expiry
+   */
+  async getPreviewUrl(preview: IFilePreview): Promise<IFilePreviewLink> {
+    const expiresIn = storageConfig.signedUrls.expiresIn;
+    const link = { fileId: preview.fileId, kind: preview.kind, width: preview.width, height: preview.height };
+
+    // No filename, so browsers display the image instead of saving it
+    const url = await this.storage.presign(preview.path, expiresIn);
+    if (url) {
+      return { ...link, url, expiresAt: new Date(Date.now() + expiresIn * 1000) };
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.sign(`${preview.fileId}:preview:${preview.kind}`, expires);
+    return {
+      ...link,
+      url: `${storageConfig.signedUrls.baseUrl}/${preview.fileId}/previews/${preview.kind.toLowerCase()}?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  /**
+   * Checks a signed preview URL's signature and expiry
+   * @param fileId File identifier from the URL
+   * @param kind Preview kind from the URL
+   * @param expires Expiry in seconds since the epoch from the URL
+   * @param signature Signature from the URL
+   * @param now Current time in milliseconds
+   * @returns boolean Whether the preview may be served
+   */
+  verifySignedPreviewUrl(
+    fileId: string,
+    kind: FilePreviewKind,
+    expires: string,
+    signature: string,
+    now: number = Date.now()
+  ): boolean {
+    return this.verifySignature(`${fileId}:preview:${kind}`, expires, signature, now);
+  }
+
+  /**
+   * Ensures the requester may upload to the project and, optionally, the task
+   * @throws BadRequestException if the task is not part of the project
+   * @throws ForbiddenException if the requester is not a project member
+   */
+  async assertCanUpload(requester: IFileRequester, projectId: string, taskId?: string | null): Promise<void> {
+    if (taskId) {
+      const taskProjectId = await this.fileRepository.findTaskProjectId(taskId);
+      if (taskProjectId !== projectId) {
+        throw new BadRequestException('Task does not belong to the project');
+      }
+    }
+
+    await this.assertProjectMember(projectId, requester);
+  }
+
+  /**
+   * Ensures the requester is a member of the file's project
+   * @throws ForbiddenException if access is denied
+   */
+  async assertCanRead(file: IFile, requester: IFileRequester): Promise<void> {
+    await this.assertProjectMember(file.projectId, requester);
+  }
+
+  /**
+   * Ensures the requester may add or restore versions of the file, which any
+   * project member may do
+   * @throws ForbiddenException if access is denied
+   */
+  async assertCanUpdate(file: IFile, requester: IFileRequester): Promise<void> {
+    await this.assertProjectMember(file.projectId, requester);
+  }
+
+  /**
+   * Ensures the requester may delete the file: its uploader or the project
+   * owner, while still a member of the project, or an administrator
+   * @throws ForbiddenException if deletion is not allowed
+   */
+  async assertCanDelete(file: IFile, requester: IFileRequester): Promise<void> {
+    const project = await this.assertProjectMember(file.projectId, requester);
+
+    if (project && file.uploadedBy !== requester.id && project.ownerId !== requester.id) {
+      throw new ForbiddenException('Only the uploader or project owner can delete this file');
+    }
+  }
+
+  /**
+   * Loads the project's membership and rejects non-members. Administrators
+   * bypass the check, in which case null is returned.
+   */
+  private async assertProjectMember(
+    projectId: string | null,
+    requester: IFileRequester
+  ): Promise<IProjectAccess | null> {
+    if (requester.role === UserRole.ADMIN) {
+      return null;
+    }
+
+    // Files uploaded before ownership was tracked have no project and stay admin-only
+    const project = projectId ? await this.fileRepository.findProjectAccess(projectId) : null;
+
+    if (!project || (project.ownerId !== requester.id && !(project.memberIds || []).includes(requester.id))) {
+      throw new ForbiddenException('Access to this file is not allowed');
+    }
+
+    return project;
+  }
+
+  /**
+   * HMAC signature binding a file, and optionally one of its versions, to a download expiry
+   */
+  private signDownload(fileId: string, expires: number, version?: number): string {
+    return this.sign(version === undefined ? fileId : `${fileId}:${version}`, expires);
+  }
+
+  /**
+   * HMAC signature binding a signed URL's target to its expiry
+   */
+  private sign(target: string, expires: number): string {
+    return createHmac('sha256', storageConfig.signedUrls.secret)
+      .update(`${target}:${expires}`)
+      .digest('base64url');
+  }
+
+  private verifySignature(target: string, expires: string, signature: string, now: number): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= now || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(target, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Points the file at new content and records it as the next version
+   */
+  private async appendVersion(
+    fileId: string,
+    content: FileVersionContent,
+    uploadedBy: string,
+    restoredFrom: number | null
+  ): Promise<IFile> {
+    const appended = await this.fileRepository.appendVersion(fileId, content, uploadedBy, restoredFrom);
+
+    if (appended === null) {
+      throw new NotFoundException('File not found');
+    }
+
+    await this.cacheManager.del(`file:${fileId}`);
+    const file = await this.getFile(fileId);
+    this.previewService.enqueue(file);
+
+    return { ...file, url: (await this.getDownloadUrl(file)).url };
+  }
+
+  /**
+   * Scans uploaded content for viruses when scanning is enabled
+   * @throws Error if a virus is detected
+   */
+  private async scanBuffer(buffer: Buffer): Promise<void> {
+    if (!storageConfig.security.virusScan.enabled) {
+      return;
+    }
+
+    const scanResult = await this.virusScanner.scanBuffer(buffer);
+    if (!scanResult.isClean) {
+      throw new Error(`Virus detected in file: ${scanResult.viruses.join(', ')}`);
+    }
+  }
+
+  /**
+   * Storage key for new content, unique per upload
+   */
+  private createStoragePath(checksum: string, originalName: string): string {
+    return `${storageConfig.uploadPath}/${Date.now()}-${checksum.substring(0, 8)}-${originalName}`;
+  }
+
   /**
    * Validates file with comprehensive security checks
    * @param file File upload data
+   * @param maxFileSize Largest accepted size; resumable uploads allow more
    * @returns Promise<boolean> Validation result
    * @throws Error if validation fails
    */
-  private async validateFile(file: IFileUpload): Promise<boolean> {
+  async validateFile(
+    file: Pick<IFileUpload, 'originalName' | 'mimeType' | 'size'>,
+    maxFileSize: number = storageConfig.limits.maxFileSize
+  ): Promise<boolean> {
     // Check file size limits
     if (file.size < storageConfig.limits.minFileSize || 
-        file.size > storageConfig.limits.maxFileSize) {
+        file.size > maxFileSize) {
       throw new Error(`File size ${file.size} bytes is outside allowed range`);
     }
 
@@ -178,29 +577,39 @@ export class FileService {
   /**
    * Deletes file and associated metadata
    * @param fileId File identifier
+   * @param deletedBy User deleting the file
    * @returns Promise<boolean> Deletion result
    * @throws Error if deletion fails
    */
-  async deleteFile(fileId: string): Promise<boolean> {
+  async deleteFile(fileId: string, deletedBy: string): Promise<boolean> {
     try {
-      const fileModel = await FileModel.findOne({ where: { id: fileId } });
-      if (!fileModel) {
+      const file = await this.fileRepository.findById(fileId);
+      if (!file) {
         throw new Error('File not found');
       }
 
-      // Delete from S3
-      const deleteCommand = new DeleteObjectCommand({
-        Bucket: storageConfig.s3.bucket,
-        Key: fileModel.path,
-      });
-      await this.s3Client.send(deleteCommand);
+      // Collect the content of every version and its previews before their rows go
+      const paths = new Set([
+        file.path,
+        ...await this.fileRepository.findVersionPaths(fileId),
+        ...await this.previewService.listPaths(fileId)
+      ]);
+
+      // Delete metadata and detach the file from its task first, so a failed
+      // storage delete leaves unreferenced objects rather than broken files
+      await this.fileRepository.delete(file, deletedBy);
 
       // Remove from cache
       const cacheKey = `file:${fileId}`;
       await this.cacheManager.del(cacheKey);
 
-      // Delete metadata
-      await FileModel.delete(fileId);
+      for (const path of paths) {
+        try {
+          await this.storage.delete(path);
+        } catch (storageError) {
+          this.logger.warn(`Failed to delete stored content ${path} of file ${fileId}: ${storageError.message}`);
+        }
+      }
 
       this.logger.log(`File deleted successfully: ${fileId}`);
       return true;
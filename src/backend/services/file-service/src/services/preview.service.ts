@@ -0,0 +1,178 @@
+import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
+import sharp from 'sharp';
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { Readable } from 'stream';
+import {
+  FilePreviewKind,
+  IFile,
+  IFilePreview
+} from '../../../shared/interfaces/file.interface';
+import { FilePreviewRepository } from '../repositories/file-preview.repository';
+import { storageConfig } from '../config/storage.config';
+import { IStorageDriver, STORAGE_DRIVER } from '../storage/storage.driver';
+
+const execFileAsync = promisify(execFile);
+
+// Previews are derived objects and live apart from uploaded content
+const PREVIEW_KEY_PREFIX = 'previews';
+const PREVIEW_MIME_TYPE = 'image/webp';
+
+/**
+ * Generates thumbnails and first-page previews for images and PDFs, stored
+ * per file version next to the original content
+ * @class PreviewService
+ */
+@Injectable()
+export class PreviewService {
+  private readonly logger = new Logger(PreviewService.name);
+  // Rendering is CPU and memory heavy, so files are processed one at a time
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePreviewRepository: FilePreviewRepository,
+    @Inject(STORAGE_DRIVER) private readonly storage: IStorageDriver
+  ) {}
+
+  /**
+   * Whether previews can be generated for a file
+   */
+  supports(file: Pick<IFile, 'mimeType' | 'size'>): boolean {
+    const previews = storageConfig.previews;
+    return previews.enabled &&
+      previews.mimeTypes.includes(file.mimeType) &&
+      Number(file.size) <= previews.maxSourceSize;
+  }
+
+  /**
+   * Queues preview generation for the file's current version. Uploads don't
+   * wait for it; a failure is logged and leaves the version without previews.
+   * @param file File whose current version needs previews
+   */
+  enqueue(file: IFile): void {
+    if (!this.supports(file)) {
+      return;
+    }
+
+    this.queue = this.queue
+      .then(() => this.generate(file))
+      .then(
+        previews => this.logger.log(`Generated ${previews.length} previews for file ${file.id} version ${file.currentVersion}`),
+        error => this.logger.error(`Preview generation failed for file ${file.id}: ${error.message}`, error.stack)
+      );
+  }
+
+  /**
+   * Renders and stores every preview kind for the file's current version,
+   * replacing previews generated earlier for the same version
+   * @param file File to generate previews for
+   * @returns Promise<IFilePreview[]> Stored previews
+   */
+  async generate(file: IFile): Promise<IFilePreview[]> {
+    const source = await this.storage.get(file.path);
+    const image = file.mimeType === 'application/pdf' ? await this.renderFirstPage(source) : source;
+
+    const sizes: [FilePreviewKind, number][] = [
+      [FilePreviewKind.THUMBNAIL, storageConfig.previews.thumbnailSize],
+      [FilePreviewKind.PREVIEW, storageConfig.previews.previewSize]
+    ];
+    const previews: IFilePreview[] = [];
+
+    for (const [kind, size] of sizes) {
+      // Only the first frame of animated GIFs is used
+      const { data, info } = await sharp(image, { animated: false })
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      const path = `${PREVIEW_KEY_PREFIX}/${file.id}/${file.currentVersion}-${kind.toLowerCase()}.webp`;
+      await this.storage.put(path, data, {
+        contentType: PREVIEW_MIME_TYPE,
+        metadata: { fileId: file.id, version: String(file.currentVersion) },
+      });
+
+      previews.push(await this.filePreviewRepository.upsert({
+        fileId: file.id,
+        version: file.currentVersion,
+        kind,
+        path,
+        mimeType: PREVIEW_MIME_TYPE,
+        width: info.width,
+        height: info.height,
+        size: data.length
+      }));
+    }
+
+    return previews;
+  }
+
+  /**
+   * Previews of the current versions of the given files
+   * @param fileIds File identifiers
+   * @param kind Only return previews of this kind
+   * @returns Promise<IFilePreview[]> Previews that have been generated so far
+   */
+  async findCurrent(fileIds: string[], kind?: FilePreviewKind): Promise<IFilePreview[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    return this.filePreviewRepository.findCurrent(fileIds, kind);
+  }
+
+  /**
+   * Loads one preview of a file's current version
+   * @throws NotFoundException if no such preview has been generated
+   */
+  async getCurrent(fileId: string, kind: FilePreviewKind): Promise<IFilePreview> {
+    const [preview] = await this.findCurrent([fileId], kind);
+    if (!preview) {
+      throw new NotFoundException('Preview not found');
+    }
+    return preview;
+  }
+
+  /**
+   * Opens a read stream for a preview image
+   */
+  async getStream(preview: IFilePreview): Promise<Readable> {
+    return this.storage.stream(preview.path);
+  }
+
+  /**
+   * Storage keys of every preview of a file, for cleanup when it is deleted
+   */
+  async listPaths(fileId: string): Promise<string[]> {
+    return this.filePreviewRepository.findPaths(fileId);
+  }
+
+  /**
+   * Renders a PDF's first page to PNG with poppler's pdftoppm
+   */
+  private async renderFirstPage(pdf: Buffer): Promise<Buffer> {
+    const workDir = await mkdtemp(join(tmpdir(), 'file-preview-'));
+
+    try {
+      const input = join(workDir, 'source.pdf');
+      await writeFile(input, pdf);
+
+      await execFileAsync(storageConfig.previews.pdfRenderer, [
+        '-png',
+        '-f', '1',
+        '-l', '1',
+        '-singlefile',
+        '-scale-to', String(storageConfig.previews.previewSize),
+        input,
+        join(workDir, 'page')
+      ], { timeout: storageConfig.previews.renderTimeout });
+
+      return await readFile(join(workDir, 'page.png'));
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
\ No newline at end of file
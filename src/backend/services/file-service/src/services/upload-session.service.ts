@@ -0,0 +1,347 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException
+} from '@nestjs/common';
+import { createHash, Hash } from 'crypto';
+import { Readable } from 'stream';
+import {
+  IFile,
+  IUploadSession,
+  UploadSessionStatus
+} from '../../../shared/interfaces/file.interface';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
+import { UploadSessionRepository } from '../repositories/upload-session.repository';
+import { FileService, IFileRequester } from './file.service';
+import { storageConfig } from '../config/storage.config';
+import { IStorageDriver, STORAGE_DRIVER } from '../storage/storage.driver';
+
+// Chunks are kept under their own prefix until the session is assembled
+const CHUNK_KEY_PREFIX = 'upload-sessions';
+const CLEANUP_BATCH_SIZE = 50;
+
+/**
+ * Request to start a resumable upload
+ */
+export interface ICreateUploadSession {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  chunkSize?: number;
+  checksum?: string;
+  projectId: string;
+  taskId?: string | null;
+}
+
+/**
+ * Resumable chunked uploads: clients open a session, send fixed-size chunks
+ * with a SHA-256 each, in any order and as often as needed, then ask for the
+ * chunks to be assembled into a file
+ * @class UploadSessionService
+ */
+@Injectable()
+export class UploadSessionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadSessionService.name);
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly fileService: FileService,
+    private readonly uploadSessionRepository: UploadSessionRepository,
+    @Inject(STORAGE_DRIVER) private readonly storage: IStorageDriver
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredSessions().catch(error =>
+        this.logger.error(`Upload session cleanup failed: ${error.message}`, error.stack)
+      );
+    }, storageConfig.uploadSessions.cleanupInterval);
+    this.cleanupTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Starts an upload session after checking the file and the requester's access
+   * @throws BadRequestException for unsupported files or chunk sizes
+   * @throws ForbiddenException if the requester cannot upload to the project
+   */
+  async createSession(request: ICreateUploadSession, requester: IFileRequester): Promise<IUploadSession> {
+    const limits = storageConfig.uploadSessions;
+    const chunkSize = request.chunkSize ?? limits.defaultChunkSize;
+
+    try {
+      await this.fileService.validateFile(request, limits.maxFileSize);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    if (chunkSize < limits.minChunkSize || chunkSize > limits.maxChunkSize) {
+      throw new BadRequestException(
+        `Chunk size must be between ${limits.minChunkSize} and ${limits.maxChunkSize} bytes`
+      );
+    }
+
+    await this.fileService.assertCanUpload(requester, request.projectId, request.taskId);
+
+    const session = await this.uploadSessionRepository.create({
+      uploadedBy: requester.id,
+      projectId: request.projectId,
+      taskId: request.taskId || null,
+      originalName: request.originalName,
+      mimeType: request.mimeType,
+      size: request.size,
+      chunkSize,
+      totalChunks: Math.ceil(request.size / chunkSize),
+      checksum: request.checksum || null,
+      expiresAt: this.nextExpiry()
+    });
+
+    this.logger.log(`Upload session ${session.id} started by user ${requester.id}`);
+    return session;
+  }
+
+  /**
+   * Loads a session owned by the requester, e.g. to resume after a disconnect
+   * @throws NotFoundException if the session does not exist
+   * @throws ForbiddenException if the session belongs to another user
+   */
+  async getSession(sessionId: string, requester: IFileRequester): Promise<IUploadSession> {
+    const session = await this.uploadSessionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundException('Upload session not found');
+    }
+
+    if (session.uploadedBy !== requester.id && requester.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Upload session belongs to another user');
+    }
+
+    return session;
+  }
+
+  /**
+   * Stores one chunk. Sending a chunk again replaces it, so clients can retry
+   * any chunk whose response they did not see.
+   * @throws BadRequestException for out-of-range indexes, wrong sizes or checksum mismatches
+   * @throws ConflictException if the session no longer accepts chunks
+   */
+  async uploadChunk(
+    sessionId: string,
+    index: number,
+    body: Buffer,
+    checksum: string,
+    requester: IFileRequester
+  ): Promise<IUploadSession> {
+    const session = await this.getActiveSession(sessionId, requester);
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new BadRequestException(`Chunk index must be between 0 and ${session.totalChunks - 1}`);
+    }
+
+    const expectedSize = index === session.totalChunks - 1
+      ? Number(session.size) - session.chunkSize * (session.totalChunks - 1)
+      : session.chunkSize;
+    if (body.length !== expectedSize) {
+      throw new BadRequestException(`Chunk ${index} must be ${expectedSize} bytes, got ${body.length}`);
+    }
+
+    const digest = createHash('sha256').update(body).digest('hex');
+    if (!checksum || digest !== checksum.toLowerCase()) {
+      throw new BadRequestException(`Checksum mismatch for chunk ${index}`);
+    }
+
+    await this.storage.put(this.chunkKey(session.id, index), body, {
+      contentType: 'application/octet-stream',
+    });
+
+    const updated = await this.uploadSessionRepository.addChunk(session.id, index, this.nextExpiry());
+
+    if (!updated) {
+      throw new ConflictException('Upload session is no longer accepting chunks');
+    }
+
+    return { ...session, ...updated };
+  }
+
+  /**
+   * Assembles the received chunks in order into the final file, verifying the
+   * whole-file checksum when one was given
+   * @throws BadRequestException if chunks are missing or the file checksum does not match
+   * @throws ConflictException if the session is already being completed
+   */
+  async completeSession(sessionId: string, requester: IFileRequester): Promise<IFile> {
+    const session = await this.getActiveSession(sessionId, requester);
+
+    const missing = this.getMissingChunks(session);
+    if (missing.length > 0) {
+      throw new BadRequestException(`Missing chunks: ${missing.slice(0, 20).join(', ')}`);
+    }
+
+    // Only one request may assemble a session; the lease lets cleanup abort it if that request dies
+    const claimed = await this.uploadSessionRepository.transition(
+      session.id,
+      UploadSessionStatus.ACTIVE,
+      UploadSessionStatus.COMPLETING,
+      new Date(Date.now() + storageConfig.uploadSessions.completionLease * 1000)
+    );
+    if (!claimed) {
+      throw new ConflictException('Upload session is already being completed');
+    }
+
+    const filePath = `${storageConfig.uploadPath}/${Date.now()}-${session.id.substring(0, 8)}-${session.originalName}`;
+    const hash = createHash('sha256');
+
+    try {
+      await this.storage.putStream(filePath, Readable.from(this.readChunks(session, hash)), {
+        contentType: session.mimeType,
+        metadata: {
+          originalName: session.originalName,
+          uploadSessionId: session.id,
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      // Chunks are intact, so the client can simply ask again
+      await this.uploadSessionRepository.transition(
+        session.id,
+        UploadSessionStatus.COMPLETING,
+        UploadSessionStatus.ACTIVE,
+        this.nextExpiry()
+      );
+      throw error;
+    }
+
+    const digest = hash.digest('hex');
+    if (session.checksum && digest !== session.checksum) {
+      await this.storage.delete(filePath);
+      await this.abort(session);
+      throw new BadRequestException('Checksum mismatch for assembled file');
+    }
+
+    let file: IFile;
+    try {
+      await this.fileService.scanStoredFile(filePath);
+      file = await this.fileService.registerStoredFile(filePath, {
+        originalName: session.originalName,
+        mimeType: session.mimeType,
+        size: Number(session.size),
+        uploadedBy: session.uploadedBy,
+        projectId: session.projectId,
+        taskId: session.taskId,
+      }, digest);
+    } catch (error) {
+      await this.storage.delete(filePath);
+      await this.abort(session);
+      throw new BadRequestException(error.message);
+    }
+
+    await this.uploadSessionRepository.complete(session.id, file.id);
+    await this.deleteChunks(session);
+
+    this.logger.log(`Upload session ${session.id} completed as file ${file.id}`);
+    return file;
+  }
+
+  /**
+   * Cancels a session and discards its chunks
+   * @throws ConflictException if the session is no longer active
+   */
+  async abortSession(sessionId: string, requester: IFileRequester): Promise<void> {
+    const session = await this.getActiveSession(sessionId, requester);
+    await this.abort(session);
+    this.logger.log(`Upload session ${session.id} aborted by user ${requester.id}`);
+  }
+
+  /**
+   * Aborts sessions that received no chunk before their expiry, and sessions
+   * whose completion did not finish within its lease
+   * @returns Promise<number> Number of sessions cleaned up
+   */
+  async cleanupExpiredSessions(now: Date = new Date()): Promise<number> {
+    const expired = await this.uploadSessionRepository.findExpired(now, CLEANUP_BATCH_SIZE);
+    let aborted = 0;
+
+    for (const session of expired) {
+      // The session may have received a chunk or finished completing since it was listed
+      if (await this.uploadSessionRepository.abortExpired(session.id, now)) {
+        await this.deleteChunks(session);
+        aborted++;
+      }
+    }
+
+    if (aborted > 0) {
+      this.logger.log(`Cleaned up ${aborted} expired upload sessions`);
+    }
+    return aborted;
+  }
+
+  /**
+   * Indexes of the chunks still to be sent
+   */
+  getMissingChunks(session: IUploadSession): number[] {
+    const received = new Set(session.receivedChunks);
+    return Array.from({ length: session.totalChunks }, (_, index) => index)
+      .filter(index => !received.has(index));
+  }
+
+  private async getActiveSession(sessionId: string, requester: IFileRequester): Promise<IUploadSession> {
+    const session = await this.getSession(sessionId, requester);
+
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw new ConflictException(`Upload session is ${session.status.toLowerCase()}`);
+    }
+
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      await this.abort(session);
+      throw new ConflictException('Upload session has expired');
+    }
+
+    return session;
+  }
+
+  /**
+   * Streams the chunks in order, feeding them through the whole-file hash
+   */
+  private async *readChunks(session: IUploadSession, hash: Hash): AsyncGenerator<Buffer> {
+    for (let index = 0; index < session.totalChunks; index++) {
+      for await (const chunk of await this.storage.stream(this.chunkKey(session.id, index))) {
+        const buffer = Buffer.from(chunk);
+        hash.update(buffer);
+        yield buffer;
+      }
+    }
+  }
+
+  private async abort(session: Pick<IUploadSession, 'id' | 'totalChunks'>): Promise<void> {
+    await this.uploadSessionRepository.setStatus(session.id, UploadSessionStatus.ABORTED);
+    await this.deleteChunks(session);
+  }
+
+  /**
+   * Deletes every possible chunk, including ones written but never recorded
+   */
+  private async deleteChunks(session: Pick<IUploadSession, 'id' | 'totalChunks'>): Promise<void> {
+    for (let index = 0; index < session.totalChunks; index++) {
+      await this.storage.delete(this.chunkKey(session.id, index));
+    }
+  }
+
+  private chunkKey(sessionId: string, index: number): string {
+    return `${CHUNK_KEY_PREFIX}/${sessionId}/${index}`;
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + storageConfig.uploadSessions.ttl * 1000);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  IStorageDriver,
+  IStoragePutOptions,
+  StorageObjectNotFoundError
+} from './storage.driver';
+
+/**
+ * Storage driver writing objects to a directory on local disk, for
+ * environments without access to S3
+ * @class LocalStorageDriver
+ */
+export class LocalStorageDriver implements IStorageDriver {
+  private readonly rootPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = resolve(rootPath);
+  }
+
+  async put(key: string, body: Buffer, _options: IStoragePutOptions): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async putStream(key: string, body: Readable, _options: IStoragePutOptions): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await pipeline(body, createWriteStream(filePath));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error) {
+      throw this.translateError(error, key);
+    }
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+
+    // Fail before handing out the stream so callers can return a 404
+    try {
+      await stat(filePath);
+    } catch (error) {
+      throw this.translateError(error, key);
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Maps a key to a path inside the root directory, rejecting keys that
+   * would escape it
+   */
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.rootPath, key);
+    if (!filePath.startsWith(`${this.rootPath}${sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private translateError(error: any, key: string): Error {
+    return error?.code === 'ENOENT' ? new StorageObjectNotFoundError(key) : error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+import {
+  IStorageDriver,
+  IStoragePutOptions,
+  StorageObjectNotFoundError
+} from './storage.driver';
+
+/**
+ * Object held by the in-memory driver
+ */
+interface IMemoryObject {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Storage driver keeping objects in process memory, for tests and throwaway
+ * environments. Contents are lost when the process exits.
+ * @class MemoryStorageDriver
+ */
+export class MemoryStorageDriver implements IStorageDriver {
+  private readonly objects = new Map<string, IMemoryObject>();
+
+  async put(key: string, body: Buffer, options: IStoragePutOptions): Promise<void> {
+    this.objects.set(key, {
+      body: Buffer.from(body),
+      contentType: options.contentType,
+      metadata: { ...options.metadata },
+    });
+  }
+
+  async putStream(key: string, body: Readable, options: IStoragePutOptions): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+    }
+    await this.put(key, Buffer.concat(chunks), options);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return Buffer.from(this.getObject(key).body);
+  }
+
+  async stream(key: string): Promise<Readable> {
+    return Readable.from([this.getObject(key).body]);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Whether an object exists, for assertions in tests
+   */
+  has(key: string): boolean {
+    return this.objects.has(key);
+  }
+
+  private getObject(key: string): IMemoryObject {
+    const object = this.objects.get(key);
+    if (!object) {
+      throw new StorageObjectNotFoundError(key);
+    }
+    return object;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
+import {
+  IStorageDriver,
+  IStoragePresignOptions,
+  IStoragePutOptions,
+  StorageObjectNotFoundError
+} from './storage.driver';
+import { IS3Config } from '../config/storage.config';
+
+/**
+ * Storage driver for AWS S3 and S3-compatible object stores
+ * @class S3StorageDriver
+ */
+export class S3StorageDriver implements IStorageDriver {
+  private readonly s3Client: S3Client;
+
+  constructor(private readonly config: IS3Config, maxAttempts: number) {
+    this.s3Client = new S3Client({
+      region: config.region,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+      useAccelerateEndpoint: config.useAccelerateEndpoint,
+      maxAttempts,
+    });
+  }
+
+  async put(key: string, body: Buffer, options: IStoragePutOptions): Promise<void> {
+    await this.s3Client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ServerSideEncryption: this.config.encryptionConfig.algorithm,
+      Metadata: options.metadata,
+    }));
+  }
+
+  async putStream(key: string, body: Readable, options: IStoragePutOptions): Promise<void> {
+    // Streams of unknown length are sent as a multipart upload
+    await new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ServerSideEncryption: this.config.encryptionConfig.algorithm,
+        Metadata: options.metadata,
+      },
+    }).done();
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.getObject(key);
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const response = await this.getObject(key);
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+  }
+
+  async presign(key: string, expiresIn: number, options: IStoragePresignOptions = {}): Promise<string | null> {
+    return getSignedUrl(
+      this.s3Client,
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ResponseContentDisposition: options.filename
+          ? `attachment; filename="${options.filename}"`
+          : undefined,
+      }),
+      { expiresIn }
+    );
+  }
+
+  private async getObject(key: string) {
+    try {
+      return await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+      }));
+    } catch (error) {
+      if (error?.name === 'NoSuchKey') {
+        throw new StorageObjectNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token for the configured storage driver
+ */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Supported storage backends, selected with STORAGE_DRIVER
+ */
+export type StorageDriverType = 's3' | 'local' | 'memory';
+
+/**
+ * Options applied when writing an object
+ */
+export interface IStoragePutOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Options applied when presigning a download
+ */
+export interface IStoragePresignOptions {
+  /** File name offered to the browser when saving the download */
+  filename?: string;
+}
+
+/**
+ * Backend-agnostic object storage used by the file service
+ * @interface IStorageDriver
+ */
+export interface IStorageDriver {
+  /** Writes an object, replacing any existing object with the same key */
+  put(key: string, body: Buffer, options: IStoragePutOptions): Promise<void>;
+
+  /** Writes an object from a stream without buffering it in memory */
+  putStream(key: string, body: Readable, options: IStoragePutOptions): Promise<void>;
+
+  /** Reads a whole object into memory */
+  get(key: string): Promise<Buffer>;
+
+  /** Opens a read stream for an object */
+  stream(key: string): Promise<Readable>;
+
+  /** Deletes an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Creates a direct, time-limited download URL. Backends that cannot serve
+   * downloads themselves resolve to null and the file service signs its own URL.
+   */
+  presign(key: string, expiresIn: number, options?: IStoragePresignOptions): Promise<string | null>;
+}
+
+/**
+ * Error thrown when an object does not exist in storage
+ */
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
\ No newline at end of file
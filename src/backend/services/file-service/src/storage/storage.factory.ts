@@ -0,0 +1,23 @@
+import { IStorageConfig } from '../config/storage.config';
+import { IStorageDriver } from './storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+import { MemoryStorageDriver } from './memory-storage.driver';
+
+/**
+ * Creates the storage driver selected by the storage configuration
+ * @param config Storage configuration
+ * @returns IStorageDriver Configured driver
+ */
+export const createStorageDriver = (config: IStorageConfig): IStorageDriver => {
+  switch (config.driver) {
+    case 'local':
+      return new LocalStorageDriver(config.local.rootPath);
+    case 'memory':
+      return new MemoryStorageDriver();
+    case 's3':
+      return new S3StorageDriver(config.s3, config.limits.maxRetries);
+    default:
+      throw new Error(`Unsupported storage driver: ${config.driver}`);
+  }
+};
\ No newline at end of file
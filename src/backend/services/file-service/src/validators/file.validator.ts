@@ -6,7 +6,7 @@
  */
 
 import Joi from 'joi'; // v17.9.0
-import { IFile, IFileUpload } from '../../../shared/interfaces/file.interface';
+import { FilePreviewKind, IFile, IFileUpload } from '../../../shared/interfaces/file.interface';
 import { validateUUID } from '../../../shared/utils/validation.util';
 
 // File Validation Constants
@@ -23,6 +23,7 @@ const FILE_NAME_MAX_LENGTH = 255;
 const FILE_NAME_REGEX = /^[a-zA-Z0-9-_. ]+$/;
 const VALIDATION_CACHE_TTL = 3600; // 1 hour
 const MAX_VALIDATION_ATTEMPTS = 5;
+const MAX_PREVIEW_FILE_IDS = 50;
 
 /**
  * Enhanced Joi schema for file metadata validation
@@ -111,6 +112,80 @@ export const fileUploadSchema = Joi.object<IFileUpload>({
     })
 });
 
+/**
+ * Joi schema for the project and optional task an upload belongs to
+ */
+export const fileParentSchema = Joi.object({
+  projectId: Joi.string()
+    .required()
+    .uuid()
+    .messages({
+      'any.required': 'Project ID is required',
+      'string.guid': 'Invalid project ID format'
+    }),
+
+  taskId: Joi.string()
+    .uuid()
+    .allow(null, '')
+    .messages({
+      'string.guid': 'Invalid task ID format'
+    })
+});
+
+/**
+ * Joi schema for starting a resumable upload session. File type and size
+ * limits are checked by the file service against the storage configuration.
+ */
+export const uploadSessionCreateSchema = fileParentSchema.keys({
+  originalName: Joi.string()
+    .required()
+    .max(FILE_NAME_MAX_LENGTH)
+    .pattern(FILE_NAME_REGEX)
+    .messages({
+      'string.pattern.base': 'Original file name contains invalid characters'
+    }),
+
+  mimeType: Joi.string()
+    .required()
+    .max(127),
+
+  size: Joi.number()
+    .required()
+    .integer()
+    .positive(),
+
+  chunkSize: Joi.number()
+    .integer()
+    .positive(),
+
+  checksum: Joi.string()
+    .pattern(/^[a-f0-9]{64}$/)
+    .messages({
+      'string.pattern.base': 'Invalid checksum format'
+    })
+});
+
+/**
+ * Joi schema for looking up previews of several files at once, e.g. for a
+ * board of task cards
+ */
+export const previewQuerySchema = Joi.object({
+  ids: Joi.array()
+    .required()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(MAX_PREVIEW_FILE_IDS)
+    .unique()
+    .messages({
+      'array.max': `At most ${MAX_PREVIEW_FILE_IDS} file IDs can be requested at once`,
+      'string.guid': 'Invalid file ID format'
+    }),
+
+  kind: Joi.string()
+    .uppercase()
+    .valid(...Object.values(FilePreviewKind))
+});
+
 /**
  * Validates file metadata with enhanced security checks and content verification
  * @param file - File metadata to validate
@@ -217,4 +292,37 @@ export const validateFileId = (fileId: string): boolean => {
   } catch (error) {
     return false;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Validates the parent entity fields of an upload request
+ * @param body - Multipart form fields
+ * @returns Joi validation result
+ */
+export const validateFileParent = (body: any): Joi.ValidationResult =>
+  fileParentSchema.validate(
+    { projectId: body?.projectId, taskId: body?.taskId },
+    { abortEarly: false }
+  );
+
+/**
+ * Validates a request to start a resumable upload session
+ * @param body - Request body
+ * @returns Joi validation result
+ */
+export const validateUploadSessionCreate = (body: any): Joi.ValidationResult =>
+  uploadSessionCreateSchema.validate(body, { abortEarly: false, stripUnknown: true });
+
+/**
+ * Validates a preview lookup, where ids is a comma-separated list
+ * @param query - Request query parameters
+ * @returns Joi validation result
+ */
+export const validatePreviewQuery = (query: any): Joi.ValidationResult =>
+  previewQuerySchema.validate(
+    {
+      ids: typeof query?.ids === 'string' ? query.ids.split(',').filter(Boolean) : query?.ids,
+      kind: query?.kind
+    },
+    { abortEarly: false }
+  );
\ No newline at end of file
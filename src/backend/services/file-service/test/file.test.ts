@@ -1,36 +1,69 @@
 import { Test } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { Cache } from '@nestjs/cache-manager';
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { ClamAV } from '@djsolutions/clamav';
-import { FileService } from '../src/services/file.service';
-import { IFile, IFileUpload } from '../../../shared/interfaces/file.interface';
-import { FileModel } from '../src/models/file.model';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { FileService, IFileRequester } from '../src/services/file.service';
+import { UploadSessionService } from '../src/services/upload-session.service';
+import { PreviewService } from '../src/services/preview.service';
+import {
+  FilePreviewKind,
+  IFile,
+  IFileUpload,
+  IUploadSession,
+  UploadSessionStatus
+} from '../../../shared/interfaces/file.interface';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
+import { FileRepository } from '../src/repositories/file.repository';
+import { FilePreviewRepository } from '../src/repositories/file-preview.repository';
+import { UploadSessionRepository } from '../src/repositories/upload-session.repository';
 import { storageConfig } from '../src/config/storage.config';
-
-// Mock external dependencies
-jest.mock('@aws-sdk/client-s3');
+import { STORAGE_DRIVER } from '../src/storage/storage.driver';
+import { MemoryStorageDriver } from '../src/storage/memory-storage.driver';
+import { LocalStorageDriver } from '../src/storage/local-storage.driver';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+// Mock external dependencies; file content goes to the in-memory storage driver
 jest.mock('@djsolutions/clamav');
-jest.mock('../src/models/file.model');
 
 describe('FileService', () => {
   let fileService: FileService;
   let configService: ConfigService;
   let cacheManager: Cache;
-
-  const mockS3Client = {
-    send: jest.fn()
-  };
+  let storage: MemoryStorageDriver;
 
   const mockVirusScanner = {
     scanBuffer: jest.fn()
   };
 
+  const mockPreviewService = {
+    enqueue: jest.fn(),
+    listPaths: jest.fn().mockResolvedValue([])
+  };
+
+  const mockFileRepository = {
+    create: jest.fn(),
+    findById: jest.fn(),
+    delete: jest.fn(),
+    findVersions: jest.fn(),
+    findVersion: jest.fn(),
+    findVersionPaths: jest.fn(),
+    appendVersion: jest.fn(),
+    findTaskProjectId: jest.fn(),
+    findProjectAccess: jest.fn()
+  };
+
   const mockFile: IFileUpload = {
     originalName: 'test-document.pdf',
     mimeType: 'application/pdf',
     size: 1024 * 1024, // 1MB
-    buffer: Buffer.from('test file content')
+    buffer: Buffer.from('test file content'),
+    uploadedBy: 'a1b2c3d4-e5f6-4a5b-8c7d-9e8f7a6b5c4d',
+    projectId: '5f0c6a1e-2b3d-4c5e-9f8a-7b6c5d4e3f2a'
   };
 
   const mockFileMetadata: IFile = {
@@ -40,12 +73,20 @@ describe('FileService', () => {
     mimeType: 'application/pdf',
     size: 1024 * 1024,
     path: 'uploads/test-document.pdf',
-    url: 'https://cdn.example.com/uploads/test-document.pdf',
+    uploadedBy: mockFile.uploadedBy,
+    projectId: mockFile.projectId,
+    taskId: null,
+    currentVersion: 1,
+    checksum: null,
     createdAt: new Date(),
     updatedAt: new Date()
   };
 
   beforeEach(async () => {
+    storage = new MemoryStorageDriver();
+    mockFileRepository.findVersionPaths.mockResolvedValue([]);
+    (ClamAV as jest.Mock).mockImplementation(() => mockVirusScanner);
+
     const module = await Test.createTestingModule({
       providers: [
         FileService,
@@ -64,6 +105,18 @@ describe('FileService', () => {
             set: jest.fn(),
             del: jest.fn()
           }
+        },
+        {
+          provide: FileRepository,
+          useValue: mockFileRepository
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: storage
+        },
+        {
+          provide: PreviewService,
+          useValue: mockPreviewService
         }
       ]
     }).compile();
@@ -71,10 +124,6 @@ describe('FileService', () => {
     fileService = module.get<FileService>(FileService);
     configService = module.get<ConfigService>(ConfigService);
     cacheManager = module.get<Cache>(Cache);
-
-    // Mock S3 client implementation
-    (S3Client as jest.Mock).mockImplementation(() => mockS3Client);
-    (ClamAV as jest.Mock).mockImplementation(() => mockVirusScanner);
   });
 
   afterEach(() => {
@@ -86,23 +135,19 @@ describe('FileService', () => {
       // Mock virus scan result
       mockVirusScanner.scanBuffer.mockResolvedValue({ isClean: true });
 
-      // Mock S3 upload
-      mockS3Client.send.mockResolvedValue({});
-
-      // Mock file model creation
-      (FileModel as any).mockImplementation(() => ({
-        ...mockFileMetadata,
-        save: jest.fn().mockResolvedValue(mockFileMetadata),
-        getPublicUrl: jest.fn().mockReturnValue(mockFileMetadata.url)
-      }));
+      // Mock file metadata creation
+      mockFileRepository.create.mockImplementation(async file => ({ ...mockFileMetadata, ...file, id: mockFileMetadata.id }));
 
       const result = await fileService.uploadFile(mockFile);
 
       expect(result).toBeDefined();
       expect(result.id).toBe(mockFileMetadata.id);
+      expect(result.uploadedBy).toBe(mockFile.uploadedBy);
+      expect(result.url).toContain(`/${mockFileMetadata.id}/download?expires=`);
       expect(mockVirusScanner.scanBuffer).toHaveBeenCalledWith(mockFile.buffer);
-      expect(mockS3Client.send).toHaveBeenCalledWith(expect.any(PutObjectCommand));
+      expect(await storage.get(mockFileRepository.create.mock.calls[0][0].path)).toEqual(mockFile.buffer);
       expect(cacheManager.set).toHaveBeenCalled();
+      expect(mockPreviewService.enqueue).toHaveBeenCalledWith(expect.objectContaining({ id: mockFileMetadata.id }));
     });
 
     it('should reject upload when virus is detected', async () => {
@@ -141,26 +186,23 @@ describe('FileService', () => {
 
       expect(result).toEqual(mockFileMetadata);
       expect(cacheManager.get).toHaveBeenCalledWith(`file:${mockFileMetadata.id}`);
-      expect(FileModel.findOne).not.toHaveBeenCalled();
+      expect(mockFileRepository.findById).not.toHaveBeenCalled();
     });
 
     it('should fetch and cache file if not in cache', async () => {
       cacheManager.get.mockResolvedValue(null);
-      (FileModel.findOne as jest.Mock).mockResolvedValue({
-        ...mockFileMetadata,
-        getPublicUrl: jest.fn().mockReturnValue(mockFileMetadata.url)
-      });
+      mockFileRepository.findById.mockResolvedValue({ ...mockFileMetadata });
 
       const result = await fileService.getFile(mockFileMetadata.id);
 
       expect(result).toEqual(mockFileMetadata);
-      expect(FileModel.findOne).toHaveBeenCalled();
+      expect(mockFileRepository.findById).toHaveBeenCalledWith(mockFileMetadata.id);
       expect(cacheManager.set).toHaveBeenCalled();
     });
 
     it('should throw error if file not found', async () => {
       cacheManager.get.mockResolvedValue(null);
-      (FileModel.findOne as jest.Mock).mockResolvedValue(null);
+      mockFileRepository.findById.mockResolvedValue(null);
 
       await expect(fileService.getFile('non-existent-id')).rejects.toThrow('File not found');
     });
@@ -168,32 +210,428 @@ describe('FileService', () => {
 
   describe('deleteFile', () => {
     it('should successfully delete file and metadata', async () => {
-      (FileModel.findOne as jest.Mock).mockResolvedValue({
+      mockFileRepository.findById.mockResolvedValue({
         ...mockFileMetadata,
         path: mockFileMetadata.path
       });
-      mockS3Client.send.mockResolvedValue({});
-      (FileModel.delete as jest.Mock).mockResolvedValue({ affected: 1 });
+      await storage.put(mockFileMetadata.path, mockFile.buffer, { contentType: mockFile.mimeType });
+      await storage.put('uploads/test-document-v1.pdf', mockFile.buffer, { contentType: mockFile.mimeType });
+      await storage.put('previews/test-document-thumbnail.webp', mockFile.buffer, { contentType: 'image/webp' });
+      mockPreviewService.listPaths.mockResolvedValueOnce(['previews/test-document-thumbnail.webp']);
+      mockFileRepository.findVersionPaths.mockResolvedValue(['uploads/test-document-v1.pdf', mockFileMetadata.path]);
 
-      const result = await fileService.deleteFile(mockFileMetadata.id);
+      const result = await fileService.deleteFile(mockFileMetadata.id, mockFileMetadata.uploadedBy);
 
       expect(result).toBe(true);
-      expect(mockS3Client.send).toHaveBeenCalledWith(expect.any(DeleteObjectCommand));
+      expect(storage.has(mockFileMetadata.path)).toBe(false);
+      expect(storage.has('uploads/test-document-v1.pdf')).toBe(false);
+      expect(storage.has('previews/test-document-thumbnail.webp')).toBe(false);
       expect(cacheManager.del).toHaveBeenCalledWith(`file:${mockFileMetadata.id}`);
-      expect(FileModel.delete).toHaveBeenCalledWith(mockFileMetadata.id);
+      expect(mockFileRepository.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: mockFileMetadata.id }),
+        mockFileMetadata.uploadedBy
+      );
     });
 
     it('should throw error if file not found during deletion', async () => {
-      (FileModel.findOne as jest.Mock).mockResolvedValue(null);
+      mockFileRepository.findById.mockResolvedValue(null);
+
+      await expect(fileService.deleteFile('non-existent-id', mockFileMetadata.uploadedBy)).rejects.toThrow('File not found');
+    });
+
+    it('should keep stored content when the metadata cannot be deleted', async () => {
+      mockFileRepository.findById.mockResolvedValue(mockFileMetadata);
+      mockFileRepository.findVersionPaths.mockResolvedValue([mockFileMetadata.path]);
+      mockFileRepository.delete.mockRejectedValueOnce(new Error('Database error'));
+      await storage.put(mockFileMetadata.path, mockFile.buffer, { contentType: mockFile.mimeType });
 
-      await expect(fileService.deleteFile('non-existent-id')).rejects.toThrow('File not found');
+      await expect(fileService.deleteFile(mockFileMetadata.id, mockFileMetadata.uploadedBy)).rejects.toThrow('File deletion failed');
+      expect(storage.has(mockFileMetadata.path)).toBe(true);
     });
 
-    it('should handle S3 deletion errors', async () => {
-      (FileModel.findOne as jest.Mock).mockResolvedValue(mockFileMetadata);
-      mockS3Client.send.mockRejectedValue(new Error('S3 error'));
+    it('should delete the metadata even when stored content cannot be removed', async () => {
+      mockFileRepository.findById.mockResolvedValue(mockFileMetadata);
+      mockFileRepository.findVersionPaths.mockResolvedValue([mockFileMetadata.path]);
+      const storageDelete = jest.spyOn(storage, 'delete').mockRejectedValue(new Error('Storage error'));
+
+      await expect(fileService.deleteFile(mockFileMetadata.id, mockFileMetadata.uploadedBy)).resolves.toBe(true);
+      expect(mockFileRepository.delete).toHaveBeenCalled();
+      expect(storageDelete).toHaveBeenCalledWith(mockFileMetadata.path);
+      storageDelete.mockRestore();
+    });
+  });
+
+  describe('getFileStream', () => {
+    it('should stream stored content', async () => {
+      cacheManager.get.mockResolvedValue(mockFileMetadata);
+      await storage.put(mockFileMetadata.path, mockFile.buffer, { contentType: mockFile.mimeType });
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of await fileService.getFileStream(mockFileMetadata.id)) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks)).toEqual(mockFile.buffer);
+    });
+  });
+
+  describe('LocalStorageDriver', () => {
+    let rootPath: string;
+    let driver: LocalStorageDriver;
+
+    beforeEach(async () => {
+      rootPath = await mkdtemp(join(tmpdir(), 'file-service-'));
+      driver = new LocalStorageDriver(rootPath);
+    });
+
+    afterEach(async () => {
+      await rm(rootPath, { recursive: true, force: true });
+    });
+
+    it('should write, read and delete objects on disk', async () => {
+      await driver.put('uploads/report.pdf', mockFile.buffer, { contentType: mockFile.mimeType });
+      expect(await driver.get('uploads/report.pdf')).toEqual(mockFile.buffer);
+
+      await driver.delete('uploads/report.pdf');
+      await expect(driver.get('uploads/report.pdf')).rejects.toThrow('Storage object not found');
+    });
+
+    it('should reject keys outside the storage directory', async () => {
+      await expect(
+        driver.put('../outside.txt', mockFile.buffer, { contentType: 'text/plain' })
+      ).rejects.toThrow('Invalid storage key');
+    });
+  });
+
+  describe('signed URLs', () => {
+    it('should accept a URL it signed until it expires', () => {
+      const now = Date.now();
+      const { url, expiresAt } = fileService.createSignedUrl(mockFileMetadata, now);
+      const params = new URL(url, 'https://app.example.com').searchParams;
+
+      expect(expiresAt.getTime()).toBe((Math.floor(now / 1000) + storageConfig.signedUrls.expiresIn) * 1000);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, params.get('expires')!, params.get('signature')!, now)).toBe(true);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, params.get('expires')!, params.get('signature')!, expiresAt.getTime())).toBe(false);
+    });
+
+    it('should reject a signature used for another file or expiry', () => {
+      const { url } = fileService.createSignedUrl(mockFileMetadata);
+      const params = new URL(url, 'https://app.example.com').searchParams;
+      const expires = params.get('expires')!;
+      const signature = params.get('signature')!;
+
+      expect(fileService.verifySignedUrl('non-existent-id', expires, signature)).toBe(false);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, String(Number(expires) + 3600), signature)).toBe(false);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, expires, '')).toBe(false);
+    });
+
+    it('should bind a version URL to that version', () => {
+      const now = Date.now();
+      const { url } = fileService.createSignedUrl(mockFileMetadata, now, 2);
+      const params = new URL(url, 'https://app.example.com').searchParams;
+      const expires = params.get('expires')!;
+      const signature = params.get('signature')!;
+
+      expect(params.get('version')).toBe('2');
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, expires, signature, now, 2)).toBe(true);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, expires, signature, now, 1)).toBe(false);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, expires, signature, now)).toBe(false);
+    });
+  });
+
+  describe('previews', () => {
+    let previewService: PreviewService;
+
+    beforeEach(() => {
+      const previewRepository = {
+        upsert: jest.fn().mockImplementation(async preview => ({
+          ...preview,
+          id: 'b8c9d0e1-f2a3-4b1c-9d4e-6f5a4b3c2d1e',
+          createdAt: new Date()
+        }))
+      };
+      previewService = new PreviewService(previewRepository as unknown as FilePreviewRepository, storage);
+    });
+
+    it('should store a thumbnail and a preview scaled down from an image', async () => {
+      const image = await sharp({
+        create: { width: 2000, height: 1000, channels: 3, background: '#3366cc' }
+      }).png().toBuffer();
+      const imageFile: IFile = { ...mockFileMetadata, mimeType: 'image/png', path: 'uploads/diagram.png', currentVersion: 2 };
+      await storage.put(imageFile.path, image, { contentType: 'image/png' });
+
+      const previews = await previewService.generate(imageFile);
+
+      const thumbnail = previews.find(preview => preview.kind === FilePreviewKind.THUMBNAIL)!;
+      const preview = previews.find(preview => preview.kind === FilePreviewKind.PREVIEW)!;
+      expect([thumbnail.width, thumbnail.height]).toEqual([storageConfig.previews.thumbnailSize, storageConfig.previews.thumbnailSize / 2]);
+      expect([preview.width, preview.height]).toEqual([storageConfig.previews.previewSize, storageConfig.previews.previewSize / 2]);
+      expect(thumbnail.path).toBe(`previews/${imageFile.id}/2-thumbnail.webp`);
+      expect((await sharp(await storage.get(thumbnail.path)).metadata()).format).toBe('webp');
+    });
+
+    it('should only preview supported files within the size limit', () => {
+      expect(previewService.supports({ mimeType: 'image/jpeg', size: 1024 })).toBe(true);
+      expect(previewService.supports({ mimeType: 'application/pdf', size: 1024 })).toBe(true);
+      expect(previewService.supports({ mimeType: 'application/zip', size: 1024 })).toBe(false);
+      expect(previewService.supports({ mimeType: 'image/png', size: storageConfig.previews.maxSourceSize + 1 })).toBe(false);
+    });
+
+    it('should sign preview URLs for one file and kind only', async () => {
+      const now = Date.now();
+      const link = await fileService.getPreviewUrl({
+        id: 'b8c9d0e1-f2a3-4b1c-9d4e-6f5a4b3c2d1e',
+        fileId: mockFileMetadata.id,
+        version: 1,
+        kind: FilePreviewKind.THUMBNAIL,
+        path: `previews/${mockFileMetadata.id}/1-thumbnail.webp`,
+        mimeType: 'image/webp',
+        width: 320,
+        height: 160,
+        size: 2048,
+        createdAt: new Date()
+      });
+      const params = new URL(link.url, 'https://app.example.com').searchParams;
+      const expires = params.get('expires')!;
+      const signature = params.get('signature')!;
+
+      expect(link.url).toContain(`/${mockFileMetadata.id}/previews/thumbnail?`);
+      expect(fileService.verifySignedPreviewUrl(mockFileMetadata.id, FilePreviewKind.THUMBNAIL, expires, signature, now)).toBe(true);
+      expect(fileService.verifySignedPreviewUrl(mockFileMetadata.id, FilePreviewKind.PREVIEW, expires, signature, now)).toBe(false);
+      expect(fileService.verifySignedUrl(mockFileMetadata.id, expires, signature, now)).toBe(false);
+    });
+  });
+
+  describe('versions', () => {
+    const revision = Buffer.from('revised file content');
+
+    it('should store new content as the next version of the same file', async () => {
+      mockVirusScanner.scanBuffer.mockResolvedValue({ isClean: true });
+      (cacheManager.get as jest.Mock)
+        .mockResolvedValueOnce(mockFileMetadata)
+        .mockResolvedValueOnce({ ...mockFileMetadata, currentVersion: 2 });
+      mockFileRepository.appendVersion.mockResolvedValue(2);
+
+      const result = await fileService.uploadVersion(mockFileMetadata.id, {
+        ...mockFile,
+        buffer: revision
+      });
+
+      const [fileId, content] = mockFileRepository.appendVersion.mock.calls[0];
+      expect(result.id).toBe(mockFileMetadata.id);
+      expect(result.currentVersion).toBe(2);
+      expect(fileId).toBe(mockFileMetadata.id);
+      expect(content.checksum).toBe(createHash('sha256').update(revision).digest('hex'));
+      expect(await storage.get(content.path)).toEqual(revision);
+      expect(cacheManager.del).toHaveBeenCalledWith(`file:${mockFileMetadata.id}`);
+    });
+
+    it('should reject content identical to the current version', async () => {
+      (cacheManager.get as jest.Mock).mockResolvedValue({
+        ...mockFileMetadata,
+        checksum: createHash('sha256').update(revision).digest('hex')
+      });
+
+      await expect(
+        fileService.uploadVersion(mockFileMetadata.id, { ...mockFile, buffer: revision })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockFileRepository.appendVersion).not.toHaveBeenCalled();
+    });
+
+    it('should restore an older version by appending it as a new version', async () => {
+      const firstVersion = {
+        id: 'a7b8c9d0-e1f2-4a0b-8c3d-5e4f3a2b1c0d',
+        fileId: mockFileMetadata.id,
+        version: 1,
+        path: 'uploads/test-document-v1.pdf',
+        originalName: 'test-document.pdf',
+        mimeType: 'application/pdf',
+        size: 2048,
+        checksum: null,
+        uploadedBy: mockFile.uploadedBy,
+        restoredFrom: null,
+        createdAt: new Date()
+      };
+      (cacheManager.get as jest.Mock).mockResolvedValue({ ...mockFileMetadata, currentVersion: 3 });
+      mockFileRepository.findVersion.mockResolvedValue(firstVersion);
+      mockFileRepository.appendVersion.mockResolvedValue(4);
+
+      await fileService.restoreVersion(mockFileMetadata.id, 1, mockFile.uploadedBy);
+
+      expect(mockFileRepository.appendVersion).toHaveBeenCalledWith(
+        mockFileMetadata.id,
+        firstVersion,
+        mockFile.uploadedBy,
+        1
+      );
+      await expect(fileService.restoreVersion(mockFileMetadata.id, 3, mockFile.uploadedBy)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('access control', () => {
+    const member: IFileRequester = { id: 'b2c3d4e5-f6a7-4b6c-9d8e-0f9a8b7c6d5e', role: UserRole.TEAM_MEMBER };
+    const outsider: IFileRequester = { id: 'c3d4e5f6-a7b8-4c7d-8e9f-1a0b9c8d7e6f', role: UserRole.TEAM_MEMBER };
+    const owner: IFileRequester = { id: 'd4e5f6a7-b8c9-4d8e-9f0a-2b1c0d9e8f7a', role: UserRole.PROJECT_MANAGER };
+
+    beforeEach(() => {
+      mockFileRepository.findProjectAccess.mockResolvedValue({
+        ownerId: owner.id,
+        memberIds: [member.id, mockFile.uploadedBy]
+      });
+    });
+
+    it('should allow project members to read and deny everyone else', async () => {
+      await expect(fileService.assertCanRead(mockFileMetadata, member)).resolves.toBeUndefined();
+      await expect(fileService.assertCanRead(mockFileMetadata, outsider)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only let the uploader, project owner or an admin delete', async () => {
+      const uploader: IFileRequester = { id: mockFile.uploadedBy, role: UserRole.TEAM_MEMBER };
+      const admin: IFileRequester = { id: outsider.id, role: UserRole.ADMIN };
+
+      await expect(fileService.assertCanDelete(mockFileMetadata, uploader)).resolves.toBeUndefined();
+      await expect(fileService.assertCanDelete(mockFileMetadata, owner)).resolves.toBeUndefined();
+      await expect(fileService.assertCanDelete(mockFileMetadata, admin)).resolves.toBeUndefined();
+      await expect(fileService.assertCanDelete(mockFileMetadata, member)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should keep files without a project admin-only', async () => {
+      const legacyFile: IFile = { ...mockFileMetadata, uploadedBy: null, projectId: null };
+
+      await expect(fileService.assertCanRead(legacyFile, owner)).rejects.toThrow(ForbiddenException);
+      await expect(fileService.assertCanRead(legacyFile, { ...owner, role: UserRole.ADMIN })).resolves.toBeUndefined();
+    });
+
+    it('should reject uploads to a task outside the project', async () => {
+      mockFileRepository.findTaskProjectId.mockResolvedValue('another-project');
+
+      await expect(
+        fileService.assertCanUpload(member, mockFile.projectId, 'e5f6a7b8-c9d0-4e9f-8a1b-3c2d1e0f9a8b')
+      ).rejects.toThrow('Task does not belong to the project');
+    });
+  });
+
+  describe('UploadSessionService', () => {
+    const uploader: IFileRequester = { id: mockFile.uploadedBy, role: UserRole.TEAM_MEMBER };
+    const content = Buffer.from('resumable upload content');
+    const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+    const mockUploadSessionRepository = {
+      findById: jest.fn(),
+      addChunk: jest.fn(),
+      transition: jest.fn(),
+      setStatus: jest.fn(),
+      abortExpired: jest.fn(),
+      complete: jest.fn(),
+      findExpired: jest.fn()
+    };
+
+    let uploadSessionService: UploadSessionService;
+    let session: IUploadSession;
+
+    beforeEach(() => {
+      uploadSessionService = new UploadSessionService(
+        fileService,
+        mockUploadSessionRepository as unknown as UploadSessionRepository,
+        storage
+      );
+      session = {
+        id: 'f6a7b8c9-d0e1-4f0a-9b2c-4d3e2f1a0b9c',
+        uploadedBy: uploader.id,
+        projectId: mockFile.projectId,
+        taskId: null,
+        originalName: 'recording.mp4',
+        mimeType: 'video/mp4',
+        size: content.length,
+        chunkSize: 10,
+        totalChunks: 3,
+        receivedChunks: [],
+        checksum: sha256(content),
+        status: UploadSessionStatus.ACTIVE,
+        fileId: null,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      mockUploadSessionRepository.findById.mockImplementation(async () => session);
+    });
+
+    it('should reject a chunk whose checksum does not match', async () => {
+      const chunk = content.subarray(0, 10);
+
+      await expect(
+        uploadSessionService.uploadChunk(session.id, 0, chunk, sha256(Buffer.from('tampered!!')), uploader)
+      ).rejects.toThrow(BadRequestException);
+      expect(storage.has(`upload-sessions/${session.id}/0`)).toBe(false);
+    });
+
+    it('should store a chunk and record it on the session', async () => {
+      const chunk = content.subarray(20);
+      mockUploadSessionRepository.addChunk.mockResolvedValue({ receivedChunks: [2], expiresAt: session.expiresAt });
+
+      const result = await uploadSessionService.uploadChunk(session.id, 2, chunk, sha256(chunk), uploader);
+
+      expect(await storage.get(`upload-sessions/${session.id}/2`)).toEqual(chunk);
+      expect(uploadSessionService.getMissingChunks(result)).toEqual([0, 1]);
+    });
+
+    it('should assemble chunks in order and verify the file checksum on completion', async () => {
+      for (let index = 0; index < session.totalChunks; index++) {
+        await storage.put(`upload-sessions/${session.id}/${index}`, content.subarray(index * 10, index * 10 + 10), {
+          contentType: 'application/octet-stream'
+        });
+      }
+      session.receivedChunks = [2, 0, 1];
+      mockUploadSessionRepository.transition.mockResolvedValue(true);
+      jest.spyOn(fileService, 'scanStoredFile').mockResolvedValue(undefined);
+      const register = jest.spyOn(fileService, 'registerStoredFile').mockResolvedValue(mockFileMetadata);
+
+      const file = await uploadSessionService.completeSession(session.id, uploader);
+
+      const [path] = register.mock.calls[0];
+      expect(file.id).toBe(mockFileMetadata.id);
+      expect(await storage.get(path)).toEqual(content);
+      expect(storage.has(`upload-sessions/${session.id}/0`)).toBe(false);
+    });
+
+    it('should hold a lease while completing so a stalled completion is cleaned up', async () => {
+      session.receivedChunks = [0, 1, 2];
+      mockUploadSessionRepository.transition.mockResolvedValue(true);
+      jest.spyOn(storage, 'putStream').mockRejectedValueOnce(new Error('Storage error'));
+
+      const before = Date.now();
+      await expect(uploadSessionService.completeSession(session.id, uploader)).rejects.toThrow('Storage error');
+
+      const [, from, to, leaseUntil] = mockUploadSessionRepository.transition.mock.calls[0];
+      expect([from, to]).toEqual([UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING]);
+      expect(leaseUntil.getTime()).toBeGreaterThanOrEqual(before + storageConfig.uploadSessions.completionLease * 1000);
+      expect(mockUploadSessionRepository.transition.mock.calls[1].slice(1, 3))
+        .toEqual([UploadSessionStatus.COMPLETING, UploadSessionStatus.ACTIVE]);
+
+      // A completing session past its lease is aborted like an idle one
+      await storage.put(`upload-sessions/${session.id}/0`, content.subarray(0, 10), {
+        contentType: 'application/octet-stream'
+      });
+      mockUploadSessionRepository.findExpired.mockResolvedValue([{ id: session.id, totalChunks: session.totalChunks }]);
+      mockUploadSessionRepository.abortExpired.mockResolvedValue(true);
+      const now = new Date();
+
+      expect(await uploadSessionService.cleanupExpiredSessions(now)).toBe(1);
+      expect(mockUploadSessionRepository.abortExpired).toHaveBeenCalledWith(session.id, now);
+      expect(storage.has(`upload-sessions/${session.id}/0`)).toBe(false);
+    });
+
+    it('should leave sessions that were revived after being found expired', async () => {
+      await storage.put(`upload-sessions/${session.id}/0`, content.subarray(0, 10), {
+        contentType: 'application/octet-stream'
+      });
+      mockUploadSessionRepository.findExpired.mockResolvedValue([{ id: session.id, totalChunks: session.totalChunks }]);
+      // A chunk arrived and pushed the expiry out before the abort ran
+      mockUploadSessionRepository.abortExpired.mockResolvedValue(false);
 
-      await expect(fileService.deleteFile(mockFileMetadata.id)).rejects.toThrow('File deletion failed');
+      expect(await uploadSessionService.cleanupExpiredSessions()).toBe(0);
+      expect(mockUploadSessionRepository.setStatus).not.toHaveBeenCalled();
+      expect(storage.has(`upload-sessions/${session.id}/0`)).toBe(true);
     });
   });
 });
\ No newline at end of file
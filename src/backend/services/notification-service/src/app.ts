@@ -15,7 +15,12 @@ import rateLimit from 'express-rate-limit'; // ^6.0.0
 import promClient from 'prom-client'; // ^14.0.0
 import { NotificationController } from './controllers/notification.controller';
 import { NotificationService } from './services/notification.service';
+import { DigestService } from './services/digest.service';
+import { NotificationRequestService } from './services/notification-request.service';
+import { EmailService } from './services/email.service';
+import { DigestSettingsRepository } from './repositories/digest-settings.repository';
 import { emailConfig } from './config/email.config';
+import { db } from './config/database.config';
 
 class App {
   private readonly app: Application;
@@ -23,6 +28,8 @@ class App {
   private readonly metricsRegistry: promClient.Registry;
   private notificationController: NotificationController;
   private notificationService: NotificationService;
+  private digestService: DigestService;
+  private notificationRequestService: NotificationRequestService;
   private redisClient: Redis;
 
   constructor() {
@@ -93,8 +100,12 @@ class App {
       });
 
       this.logger.info('MongoDB connected successfully');
+
+      // Project and team digest settings are read from PostgreSQL
+      await db.connect();
+      this.logger.info('PostgreSQL connected successfully');
     } catch (error) {
-      this.logger.error('Failed to connect to MongoDB:', error);
+      this.logger.error('Failed to connect to databases:', error);
       process.exit(1);
     }
   }
@@ -201,6 +212,26 @@ class App {
       this.logger
     );
 
+    const emailService = new EmailService();
+
+    // Scheduled daily and weekly email digests
+    this.digestService = new DigestService(
+      emailService,
+      this.notificationService,
+      new DigestSettingsRepository(this.logger),
+      this.logger
+    );
+    this.digestService.start();
+
+    // Emails and notifications queued by other services
+    this.notificationRequestService = new NotificationRequestService(
+      this.redisClient,
+      emailService,
+      this.notificationService,
+      this.logger
+    );
+    this.notificationRequestService.start();
+
     // API routes
     this.app.use('/api/v1', this.notificationController.getRouter());
 
@@ -268,6 +299,7 @@ class App {
 
     try {
       await mongoose.connection.close();
+      await db.disconnect();
       await this.redisClient.quit();
       
       this.logger.info('Graceful shutdown completed');
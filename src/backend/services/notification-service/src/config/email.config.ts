@@ -20,6 +20,12 @@ const logger = winston.createLogger({
   ]
 });
 
+/**
+ * Template keys: one per notification type plus the periodic digest and
+ * account emails that bypass notification preferences
+ */
+export type EmailTemplateKey = NotificationType | 'DIGEST' | 'PASSWORD_RESET' | 'TEAM_INVITATION';
+
 /**
  * Interface for comprehensive email service configuration
  */
@@ -47,7 +53,7 @@ export interface IEmailConfig {
   };
   templates: {
     directory: string;
-    mapping: Record<NotificationType, string>;
+    mapping: Record<EmailTemplateKey, string>;
     validation: {
       enabled: boolean;
       strictMode: boolean;
@@ -115,10 +121,13 @@ const SMTP_CONFIG = {
 };
 
 // Template mapping configuration with validation
-const TEMPLATE_MAPPING: Record<NotificationType, string> = {
+const TEMPLATE_MAPPING: Record<EmailTemplateKey, string> = {
   TASK_ASSIGNED: 'task-assigned.hbs',
   TASK_UPDATED: 'task-updated.hbs',
-  PROJECT_CREATED: 'project-created.hbs'
+  PROJECT_CREATED: 'project-created.hbs',
+  DIGEST: 'digest.hbs',
+  PASSWORD_RESET: 'password-reset.hbs',
+  TEAM_INVITATION: 'team-invitation.hbs'
 };
 
 // Enhanced default email settings with security headers
@@ -0,0 +1,39 @@
+/**
+ * Web Push Configuration
+ * Version: 1.0.0
+ * VAPID credentials and delivery settings for browser push notifications.
+ * Push delivery is disabled when no VAPID key pair is configured.
+ */
+
+/**
+ * Interface for Web Push configuration
+ */
+export interface IPushConfig {
+  vapid: {
+    publicKey: string;
+    privateKey: string;
+    subject: string;
+  };
+  ttl: number;
+  maxSubscriptionsPerUser: number;
+  maxFailures: number;
+  requestTimeout: number;
+  allowInsecureEndpoints: boolean;
+}
+
+/**
+ * Web Push configuration loaded from the environment
+ */
+export const pushConfig: IPushConfig = {
+  vapid: {
+    publicKey: process.env.VAPID_PUBLIC_KEY || '',
+    privateKey: process.env.VAPID_PRIVATE_KEY || '',
+    subject: process.env.VAPID_SUBJECT || 'mailto:notifications@taskmanagement.local'
+  },
+  ttl: Number(process.env.PUSH_TTL) || 24 * 60 * 60, // 24 hours
+  maxSubscriptionsPerUser: 10,
+  maxFailures: 5,
+  requestTimeout: 10000,
+  // Only enable for local push endpoint stubs, browsers always use HTTPS endpoints
+  allowInsecureEndpoints: process.env.PUSH_ALLOW_INSECURE_ENDPOINTS === 'true'
+};
\ No newline at end of file
@@ -16,6 +16,7 @@ import {
   NotificationPriority,
   INotificationPreferences 
 } from '../../../shared/interfaces/notification.interface';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
 
 /**
  * Enhanced controller for handling notification-related HTTP requests
@@ -82,6 +83,37 @@ export class NotificationController {
       this.rateLimit.bind(this),
       this.updatePreferences.bind(this)
     );
+
+    this.router.get(
+      '/notifications/push/public-key',
+      this.rateLimit.bind(this),
+      this.getPushPublicKey.bind(this)
+    );
+
+    this.router.post(
+      '/notifications/push/subscriptions',
+      this.validateRequest,
+      this.rateLimit.bind(this),
+      this.registerPushSubscription.bind(this)
+    );
+
+    this.router.get(
+      '/notifications/admin/dead-letters',
+      this.rateLimit.bind(this),
+      this.getDeadLetters.bind(this)
+    );
+
+    this.router.post(
+      '/notifications/admin/dead-letters/:jobId/replay',
+      this.rateLimit.bind(this),
+      this.replayDeadLetter.bind(this)
+    );
+
+    this.router.delete(
+      '/notifications/push/subscriptions',
+      this.rateLimit.bind(this),
+      this.removePushSubscription.bind(this)
+    );
   }
 
   /**
@@ -250,6 +282,114 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Get the VAPID public key for browser push subscriptions
+   */
+  public async getPushPublicKey(_req: Request, res: Response): Promise<Response> {
+    const publicKey = this.notificationService.getPushPublicKey();
+
+    if (!publicKey) {
+      return res.status(503).json({ error: 'Push notifications are not configured' });
+    }
+
+    return res.status(200).json({ publicKey });
+  }
+
+  /**
+   * Register a browser push subscription for the current device
+   */
+  public async registerPushSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.user.id;
+
+      await this.notificationService.registerPushSubscription(
+        userId,
+        req.body,
+        req.headers['user-agent']
+      );
+
+      this.logger.info('Push subscription registered:', { userId });
+      return res.status(201).json({ message: 'Push subscription registered' });
+    } catch (error) {
+      this.logger.error('Error registering push subscription:', error);
+      return res.status(400).json({
+        error: 'Failed to register push subscription',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * Remove a browser push subscription
+   */
+  public async removePushSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.user.id;
+
+      await this.notificationService.removePushSubscription(
+        userId,
+        req.query.endpoint as string
+      );
+
+      this.logger.info('Push subscription removed:', { userId });
+      return res.status(204).send();
+    } catch (error) {
+      this.logger.error('Error removing push subscription:', error);
+      return res.status(500).json({
+        error: 'Failed to remove push subscription',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * List deliveries that exhausted their retries (admin only)
+   */
+  public async getDeadLetters(req: Request, res: Response): Promise<Response> {
+    try {
+      if (req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const deadLetters = await this.notificationService.getDeadLetters(offset, limit);
+      return res.status(200).json(deadLetters);
+    } catch (error) {
+      this.logger.error('Error fetching dead-lettered deliveries:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch dead-lettered deliveries',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * Replay a dead-lettered delivery (admin only)
+   */
+  public async replayDeadLetter(req: Request, res: Response): Promise<Response> {
+    try {
+      if (req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const job = await this.notificationService.replayDeadLetter(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Dead-lettered delivery not found' });
+      }
+
+      this.logger.info('Dead-lettered delivery replayed:', { jobId: job.id, userId: req.user.id });
+      return res.status(202).json(job);
+    } catch (error) {
+      this.logger.error('Error replaying dead-lettered delivery:', error);
+      return res.status(500).json({
+        error: 'Failed to replay dead-lettered delivery',
+        details: error.message
+      });
+    }
+  }
+
   /**
    * Get router instance
    */
@@ -0,0 +1,76 @@
+/**
+ * Notification Digest Model Definition
+ * Version: 1.0.0
+ * Records the email digests sent to each recipient so a period is never
+ * digested twice, even when several service instances run the digest job.
+ */
+
+import { Schema, model, Document } from 'mongoose';
+import {
+  INotificationDigest,
+  NotificationDeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+
+/**
+ * Extended interface for Digest document with Mongoose specifics
+ */
+export interface INotificationDigestDocument extends INotificationDigest, Document {}
+
+/**
+ * Mongoose schema definition for sent digests
+ */
+const DigestSchema = new Schema<INotificationDigestDocument>({
+  recipientId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  frequency: {
+    type: String,
+    enum: ['DAILY', 'WEEKLY'],
+    required: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  notificationIds: {
+    type: [String],
+    default: []
+  },
+  messageId: {
+    type: String,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: Object.values(NotificationDeliveryStatus),
+    default: NotificationDeliveryStatus.PENDING,
+    required: true
+  },
+  sentAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'notification_digests',
+  strict: true
+});
+
+/**
+ * One digest per recipient, schedule and period; the unique index is what
+ * lets concurrent job runs claim a period safely
+ */
+DigestSchema.index(
+  { recipientId: 1, frequency: 1, periodStart: 1 },
+  { unique: true, name: 'idx_digest_recipient_period' }
+);
+
+// Create and export the Digest model
+const DigestModel = model<INotificationDigestDocument>(
+  'NotificationDigest',
+  DigestSchema
+);
+
+export default DigestModel;
\ No newline at end of file
@@ -100,6 +100,10 @@ const NotificationSchema = new Schema<INotificationDocument>({
     type: Date,
     default: null
   },
+  digestedAt: {
+    type: Date,
+    default: null
+  },
   expiresAt: {
     type: Date,
     default: () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
@@ -130,6 +134,11 @@ NotificationSchema.index(
   { background: true, name: 'idx_delivery_recipient' }
 );
 
+NotificationSchema.index(
+  { digestedAt: 1, createdAt: 1, recipientId: 1 },
+  { background: true, name: 'idx_digest_pending' }
+);
+
 NotificationSchema.index(
   { expiresAt: 1 },
   { expireAfterSeconds: 0, name: 'idx_ttl' }
@@ -0,0 +1,68 @@
+/**
+ * Push Subscription Model Definition
+ * Version: 1.0.0
+ * Stores one browser push subscription per device, keyed by its endpoint.
+ */
+
+import { Schema, model, Document } from 'mongoose';
+import { IPushSubscription } from '../../../shared/interfaces/notification.interface';
+
+/**
+ * Extended interface for Push Subscription document with Mongoose specifics
+ */
+interface IPushSubscriptionDocument extends IPushSubscription, Document {
+  userId: string;
+  userAgent: string | null;
+  failureCount: number;
+  lastSuccessAt: Date | null;
+}
+
+/**
+ * Mongoose schema definition for push subscriptions
+ */
+const PushSubscriptionSchema = new Schema<IPushSubscriptionDocument>({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  endpoint: {
+    type: String,
+    required: true,
+    unique: true,
+    maxlength: 2048
+  },
+  keys: {
+    p256dh: { type: String, required: true },
+    auth: { type: String, required: true }
+  },
+  expirationTime: {
+    type: Number,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null,
+    maxlength: 512
+  },
+  failureCount: {
+    type: Number,
+    default: 0
+  },
+  lastSuccessAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'push_subscriptions',
+  strict: true
+});
+
+// Create and export the Push Subscription model
+const PushSubscriptionModel = model<IPushSubscriptionDocument>(
+  'PushSubscription',
+  PushSubscriptionSchema
+);
+
+export default PushSubscriptionModel;
\ No newline at end of file
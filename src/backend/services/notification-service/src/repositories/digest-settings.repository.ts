@@ -0,0 +1,73 @@
+/**
+ * Digest Settings Repository
+ * Version: 1.0.0
+ * Reads the digest settings stored by the project and team services, so the
+ * digest job honours what users opted into there.
+ */
+
+import { Knex } from 'knex'; // v2.4.x
+import { Logger } from 'winston';
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import { DigestFrequency } from '../../../../shared/interfaces/notification.interface';
+import { TeamStatus } from '../../../../shared/interfaces/team.interface';
+
+// Tables owned by the project and team services; read only
+const PROJECTS_TABLE = 'projects';
+const TEAMS_TABLE = 'teams';
+const MEMBERS_TABLE = 'team_members';
+
+export class DigestSettingsRepository {
+  private readonly db: Knex;
+
+  constructor(private readonly logger: Logger) {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+  }
+
+  /**
+   * Digest frequency configured in each project's notification settings
+   * @param projectIds Project IDs
+   * @returns Frequency by project ID; projects without one are left out
+   */
+  public async findProjectFrequencies(projectIds: string[]): Promise<Map<string, DigestFrequency>> {
+    if (projectIds.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const rows: Array<{ id: string; digestFrequency: DigestFrequency | null }> = await this.db(PROJECTS_TABLE)
+        .whereIn('id', projectIds)
+        .select('id', this.db.raw(`settings->'notifications'->>'digestFrequency' as "digestFrequency"`));
+
+      return new Map(
+        rows
+          .filter(row => row.digestFrequency)
+          .map(row => [row.id, row.digestFrequency as DigestFrequency])
+      );
+    } catch (error) {
+      this.logger.error('Failed to load project digest settings', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any team the user belongs to has the daily digest turned on
+   * @param userId User ID
+   */
+  public async hasTeamDailyDigest(userId: string): Promise<boolean> {
+    try {
+      const team = await this.db(`${TEAMS_TABLE} as t`)
+        .join(`${MEMBERS_TABLE} as m`, 'm.team_id', 't.id')
+        .where('m.user_id', userId)
+        .whereNot('t.status', TeamStatus.DELETED)
+        .whereRaw(`(t.notification_settings->>'dailyDigest')::boolean`)
+        .first('t.id');
+
+      return Boolean(team);
+    } catch (error) {
+      this.logger.error('Failed to load team digest settings', { error, userId });
+      throw error;
+    }
+  }
+}
+
+export default DigestSettingsRepository;
\ No newline at end of file
@@ -0,0 +1,336 @@
+/**
+ * Notification Delivery Queue Implementation
+ * Version: 1.0.0
+ * Redis-backed delivery queue with persisted attempt counts, exponential
+ * backoff retries and a dead-letter list for deliveries that keep failing.
+ */
+
+import Redis from 'ioredis';
+import { Logger } from 'winston';
+import NotificationModel from '../models/notification.model';
+import {
+  INotification,
+  NotificationChannel,
+  NotificationDeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+
+// Redis keys
+const JOB_KEY_PREFIX = 'notifications:delivery:job:';
+const SCHEDULED_KEY = 'notifications:delivery:scheduled';
+const PROCESSING_KEY = 'notifications:delivery:processing';
+const DEAD_LETTER_KEY = 'notifications:delivery:dead';
+
+// Dead-lettered jobs are kept as long as the notifications they refer to;
+// the list of them expires with the most recent one
+const DEAD_LETTER_TTL = 30 * 24 * 60 * 60; // 30 days
+
+// Moves a job between two sorted sets in one step, so a crash cannot leave it
+// in neither. Returns 0 when the job was not in the source set.
+const MOVE_JOB_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+  return 1
+end
+return 0`;
+
+/**
+ * Persisted state of one notification delivery on one channel
+ */
+export interface IDeliveryJob {
+  id: string;
+  notificationId: string;
+  channel: NotificationChannel;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  createdAt: string;
+  nextAttemptAt: string | null;
+  deadLetteredAt: string | null;
+}
+
+/**
+ * Configuration interface for the delivery queue
+ */
+export interface DeliveryQueueConfig {
+  maxAttempts: number;
+  retryDelay: number;
+  pollInterval: number;
+  leaseDuration: number;
+  batchSize: number;
+}
+
+/**
+ * Delivers a notification on a channel, throwing when the attempt fails
+ */
+export type DeliveryHandler = (notification: INotification) => Promise<void>;
+
+/**
+ * Reports delivery status changes made by the queue
+ */
+export type DeliveryStatusListener = (
+  notificationId: string,
+  status: NotificationDeliveryStatus
+) => Promise<void>;
+
+/**
+ * Durable delivery queue shared by every notification service instance
+ */
+export class DeliveryQueue {
+  private readonly handlers: Map<NotificationChannel, DeliveryHandler>;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly redisClient: Redis,
+    private readonly logger: Logger,
+    private readonly config: DeliveryQueueConfig,
+    private readonly onStatusChange: DeliveryStatusListener
+  ) {
+    this.handlers = new Map();
+  }
+
+  /**
+   * Register the delivery handler for a channel
+   */
+  public registerHandler(channel: NotificationChannel, handler: DeliveryHandler): void {
+    this.handlers.set(channel, handler);
+  }
+
+  /**
+   * Start polling for scheduled retries
+   */
+  public start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.processDue().catch(error =>
+        this.logger.error('Error processing delivery queue:', error)
+      );
+    }, this.config.pollInterval);
+    this.pollTimer.unref();
+  }
+
+  /**
+   * Stop polling for scheduled retries
+   */
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Persist a delivery job and make the first attempt straight away.
+   * The job is leased while the attempt runs, so it is retried if this
+   * instance stops before finishing.
+   */
+  public async enqueue(
+    notificationId: string,
+    channel: NotificationChannel,
+    now: Date = new Date()
+  ): Promise<IDeliveryJob> {
+    const job: IDeliveryJob = {
+      id: `${notificationId}:${channel}`,
+      notificationId,
+      channel,
+      attempts: 0,
+      maxAttempts: this.config.maxAttempts,
+      lastError: null,
+      createdAt: now.toISOString(),
+      nextAttemptAt: null,
+      deadLetteredAt: null
+    };
+
+    await this.saveJob(job);
+    await this.redisClient.zadd(PROCESSING_KEY, now.getTime() + this.config.leaseDuration, job.id);
+
+    return this.attempt(job, now);
+  }
+
+  /**
+   * Run every retry that is due and requeue jobs whose lease expired
+   */
+  public async processDue(now: Date = new Date()): Promise<number> {
+    await this.recoverExpiredLeases(now);
+
+    const dueIds = await this.redisClient.zrangebyscore(
+      SCHEDULED_KEY, 0, now.getTime(), 'LIMIT', 0, this.config.batchSize
+    );
+    let processed = 0;
+
+    for (const jobId of dueIds) {
+      // Only the instance that moves the entry runs the attempt
+      if (!await this.moveJob(SCHEDULED_KEY, PROCESSING_KEY, jobId, now.getTime() + this.config.leaseDuration)) {
+        continue;
+      }
+
+      const job = await this.getJob(jobId);
+      if (!job) {
+        await this.redisClient.zrem(PROCESSING_KEY, jobId);
+        continue;
+      }
+
+      await this.attempt(job, now);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * List dead-lettered jobs, most recent first
+   */
+  public async listDeadLetters(
+    offset: number = 0,
+    limit: number = 20
+  ): Promise<{ jobs: IDeliveryJob[]; total: number }> {
+    const jobIds = await this.redisClient.lrange(DEAD_LETTER_KEY, offset, offset + limit - 1);
+    const jobs = await Promise.all(jobIds.map(jobId => this.getJob(jobId)));
+
+    // Drop entries whose job data has expired
+    const expiredIds = jobIds.filter((_, index) => jobs[index] === null);
+    if (expiredIds.length > 0) {
+      const pipeline = this.redisClient.pipeline();
+      expiredIds.forEach(jobId => pipeline.lrem(DEAD_LETTER_KEY, 0, jobId));
+      await pipeline.exec();
+    }
+
+    const total = await this.redisClient.llen(DEAD_LETTER_KEY);
+    return { jobs: jobs.filter((job): job is IDeliveryJob => job !== null), total };
+  }
+
+  /**
+   * Move a dead-lettered job back onto the queue with a fresh attempt budget
+   */
+  public async replayDeadLetter(jobId: string, now: Date = new Date()): Promise<IDeliveryJob | null> {
+    if (await this.redisClient.lrem(DEAD_LETTER_KEY, 0, jobId) === 0) {
+      return null;
+    }
+
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    job.attempts = 0;
+    job.maxAttempts = this.config.maxAttempts;
+    job.nextAttemptAt = now.toISOString();
+    job.deadLetteredAt = null;
+
+    await this.redisClient.multi()
+      .set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job))
+      .zadd(SCHEDULED_KEY, now.getTime(), job.id)
+      .exec();
+    await this.onStatusChange(job.notificationId, NotificationDeliveryStatus.RETRYING);
+
+    this.logger.info(`Replaying dead-lettered delivery ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Run one delivery attempt and record its outcome
+   */
+  private async attempt(job: IDeliveryJob, now: Date): Promise<IDeliveryJob> {
+    const handler = this.handlers.get(job.channel);
+    const notification = await NotificationModel.findById(job.notificationId);
+
+    // The notification expired or was deleted while the job was waiting
+    if (!notification || !handler) {
+      await this.removeJob(job.id);
+      return job;
+    }
+
+    try {
+      await handler(notification);
+      await this.removeJob(job.id);
+      return job;
+    } catch (error) {
+      job.attempts++;
+      job.lastError = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Delivery attempt ${job.attempts} for ${job.id} failed:`, error);
+    }
+
+    if (job.attempts >= job.maxAttempts) {
+      return this.deadLetter(job, now);
+    }
+
+    const retryAt = now.getTime() + this.config.retryDelay * Math.pow(2, job.attempts - 1);
+    job.nextAttemptAt = new Date(retryAt).toISOString();
+
+    await this.redisClient.multi()
+      .set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job))
+      .zadd(SCHEDULED_KEY, retryAt, job.id)
+      .zrem(PROCESSING_KEY, job.id)
+      .exec();
+    await this.onStatusChange(job.notificationId, NotificationDeliveryStatus.RETRYING);
+
+    return job;
+  }
+
+  /**
+   * Park a job that exhausted its attempts for inspection and replay
+   */
+  private async deadLetter(job: IDeliveryJob, now: Date): Promise<IDeliveryJob> {
+    job.nextAttemptAt = null;
+    job.deadLetteredAt = now.toISOString();
+
+    await this.redisClient.multi()
+      .set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job), 'EX', DEAD_LETTER_TTL)
+      .lpush(DEAD_LETTER_KEY, job.id)
+      .expire(DEAD_LETTER_KEY, DEAD_LETTER_TTL)
+      .zrem(PROCESSING_KEY, job.id)
+      .exec();
+    await this.onStatusChange(job.notificationId, NotificationDeliveryStatus.DEAD_LETTERED);
+
+    this.logger.warn(`Delivery ${job.id} dead-lettered after ${job.attempts} attempts`);
+    return job;
+  }
+
+  /**
+   * Put jobs back on the schedule when the instance running them stopped
+   */
+  private async recoverExpiredLeases(now: Date): Promise<void> {
+    const expiredIds = await this.redisClient.zrangebyscore(PROCESSING_KEY, 0, now.getTime());
+
+    for (const jobId of expiredIds) {
+      await this.moveJob(PROCESSING_KEY, SCHEDULED_KEY, jobId, now.getTime());
+    }
+  }
+
+  /**
+   * Atomically move a job from one sorted set to another with a new score
+   */
+  private async moveJob(from: string, to: string, jobId: string, score: number): Promise<boolean> {
+    const moved = await this.redisClient.eval(MOVE_JOB_SCRIPT, 2, from, to, jobId, score);
+    return moved === 1;
+  }
+
+  /**
+   * Load a persisted job
+   */
+  private async getJob(jobId: string): Promise<IDeliveryJob | null> {
+    const job = await this.redisClient.get(`${JOB_KEY_PREFIX}${jobId}`);
+    return job ? JSON.parse(job) : null;
+  }
+
+  /**
+   * Persist a job, optionally expiring it
+   */
+  private async saveJob(job: IDeliveryJob, ttl?: number): Promise<void> {
+    if (ttl) {
+      await this.redisClient.set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job), 'EX', ttl);
+    } else {
+      await this.redisClient.set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job));
+    }
+  }
+
+  /**
+   * Delete a finished job and release its lease
+   */
+  private async removeJob(jobId: string): Promise<void> {
+    await this.redisClient.del(`${JOB_KEY_PREFIX}${jobId}`);
+    await this.redisClient.zrem(PROCESSING_KEY, jobId);
+  }
+}
+
+export default DeliveryQueue;
\ No newline at end of file
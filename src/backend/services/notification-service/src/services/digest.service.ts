@@ -0,0 +1,313 @@
+/**
+ * Notification Digest Service Implementation
+ * Version: 1.0.0
+ * Periodically summarises unread and undelivered notifications into a single
+ * daily or weekly email per recipient.
+ */
+
+import { Types } from 'mongoose';
+import { Logger } from 'winston';
+import NotificationModel from '../models/notification.model';
+import DigestModel, { INotificationDigestDocument } from '../models/digest.model';
+import EmailService from './email.service';
+import { NotificationService } from './notification.service';
+import { DigestSettingsRepository } from '../repositories/digest-settings.repository';
+import {
+  DigestFrequency,
+  INotification,
+  INotificationPreferences,
+  NotificationDeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+
+// Digest constants
+const DIGEST_RUN_INTERVAL = 60 * 60 * 1000; // 1 hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DIGEST_ITEMS = 50;
+const DUPLICATE_KEY_ERROR = 11000;
+const CLAIM_LEASE_DURATION = 15 * 60 * 1000; // 15 minutes
+
+type ScheduledFrequency = Exclude<DigestFrequency, 'NONE'>;
+type PendingNotification = INotification & { _id: Types.ObjectId };
+
+const PERIOD_DAYS: Record<ScheduledFrequency, number> = {
+  DAILY: 1,
+  WEEKLY: 7
+};
+
+/**
+ * Builds and sends email digests for recipients who opted into them
+ */
+export class DigestService {
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly notificationService: NotificationService,
+    private readonly digestSettingsRepository: DigestSettingsRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Start the scheduled digest job
+   */
+  public start(interval: number = DIGEST_RUN_INTERVAL): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.runDigests().catch(error =>
+        this.logger.error('Error running notification digests:', error)
+      );
+    }, interval);
+
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Send every digest that is due, returning the number of emails sent
+   */
+  public async runDigests(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+
+    for (const frequency of Object.keys(PERIOD_DAYS) as ScheduledFrequency[]) {
+      sent += await this.runDigest(frequency, now);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send the digest for one schedule, covering the period that ended before `now`
+   */
+  public async runDigest(frequency: ScheduledFrequency, now: Date = new Date()): Promise<number> {
+    const periodDays = PERIOD_DAYS[frequency];
+    if (periodDays === undefined) {
+      return 0;
+    }
+
+    const periodStart = getPeriodStart(frequency, now);
+    const since = new Date(periodStart.getTime() - periodDays * DAY_MS);
+    const filter = buildPendingFilter(since, periodStart);
+
+    const recipientIds: string[] = await NotificationModel.distinct('recipientId', filter);
+    let sent = 0;
+
+    for (const recipientId of recipientIds) {
+      try {
+        const preferences = await this.notificationService.getNotificationPreferences(recipientId);
+        if (!preferences.emailEnabled) {
+          continue;
+        }
+
+        const pending: PendingNotification[] = await NotificationModel
+          .find({ ...filter, recipientId })
+          .select({ _id: 1, metadata: 1 })
+          .lean<PendingNotification[]>();
+        const resolveFrequency = await this.getFrequencyResolver(recipientId, preferences, pending);
+        const dueIds = pending
+          .filter(notification => resolveFrequency(notification) === frequency)
+          .map(notification => notification._id);
+
+        if (dueIds.length > 0 && await this.sendDigest(recipientId, frequency, periodStart, since, {
+          ...filter,
+          _id: { $in: dueIds }
+        })) {
+          sent++;
+        }
+      } catch (error) {
+        this.logger.error(`Error sending ${frequency} digest to ${recipientId}:`, error);
+      }
+    }
+
+    this.logger.info(`Sent ${sent} ${frequency} notification digests`, { periodStart });
+    return sent;
+  }
+
+  /**
+   * Builds a function giving the schedule each notification is digested on.
+   * A personal frequency other than NONE applies to everything; otherwise the
+   * frequency set on the notification's project is used, and notifications
+   * outside a project fall back to the daily digest of the user's teams.
+   */
+  private async getFrequencyResolver(
+    recipientId: string,
+    preferences: INotificationPreferences,
+    notifications: PendingNotification[]
+  ): Promise<(notification: PendingNotification) => DigestFrequency> {
+    const personal = preferences.digestFrequency || 'NONE';
+    if (personal !== 'NONE') {
+      return () => personal;
+    }
+
+    const projectIds = [...new Set(
+      notifications.map(notification => projectIdOf(notification)).filter((id): id is string => Boolean(id))
+    )];
+    const projectFrequencies = await this.digestSettingsRepository.findProjectFrequencies(projectIds);
+    const teamFrequency: DigestFrequency = await this.digestSettingsRepository.hasTeamDailyDigest(recipientId)
+      ? 'DAILY'
+      : 'NONE';
+
+    return (notification) => {
+      const projectId = projectIdOf(notification);
+      return (projectId && projectFrequencies.get(projectId)) || teamFrequency;
+    };
+  }
+
+  /**
+   * Claim the recipient's period, or take over a claim left PENDING by a run
+   * that stopped before finishing. Returns null when another run holds it.
+   */
+  private async claimPeriod(
+    recipientId: string,
+    frequency: ScheduledFrequency,
+    periodStart: Date
+  ): Promise<INotificationDigestDocument | null> {
+    try {
+      return await DigestModel.create({ recipientId, frequency, periodStart });
+    } catch (error) {
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+
+    // The takeover may repeat an email the stopped run sent but never recorded
+    return await DigestModel.findOneAndUpdate(
+      {
+        recipientId,
+        frequency,
+        periodStart,
+        status: NotificationDeliveryStatus.PENDING,
+        updatedAt: { $lt: new Date(Date.now() - CLAIM_LEASE_DURATION) }
+      },
+      { $set: { status: NotificationDeliveryStatus.PENDING } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Claim the recipient's period, send the email and record what it contained
+   */
+  private async sendDigest(
+    recipientId: string,
+    frequency: ScheduledFrequency,
+    periodStart: Date,
+    since: Date,
+    filter: Record<string, any>
+  ): Promise<boolean> {
+    const digest = await this.claimPeriod(recipientId, frequency, periodStart);
+    if (!digest) {
+      return false;
+    }
+
+    let delivered = false;
+    try {
+      delivered = await this.deliverDigest(digest, recipientId, frequency, since, filter);
+      return delivered;
+    } finally {
+      // Release the claim so the next run retries this period
+      if (!delivered) {
+        await DigestModel.deleteOne({ _id: digest._id, status: NotificationDeliveryStatus.PENDING });
+      }
+    }
+  }
+
+  /**
+   * Send the email for a claimed period and complete the claim
+   */
+  private async deliverDigest(
+    digest: INotificationDigestDocument,
+    recipientId: string,
+    frequency: ScheduledFrequency,
+    since: Date,
+    filter: Record<string, any>
+  ): Promise<boolean> {
+    const notifications: PendingNotification[] = await NotificationModel
+      .find({ ...filter, recipientId })
+      .sort({ createdAt: -1 })
+      .lean<PendingNotification[]>();
+
+    const recipientEmail = notifications.find(n => n.metadata?.recipientEmail)?.metadata.recipientEmail;
+    if (notifications.length === 0 || !recipientEmail) {
+      return false;
+    }
+
+    const periodLabel = frequency === 'DAILY' ? 'daily' : 'weekly';
+    const result = await this.emailService.sendDigest(
+      recipientEmail,
+      `Your ${periodLabel} notification summary`,
+      {
+        periodLabel,
+        since: since.toISOString().slice(0, 10),
+        total: notifications.length,
+        single: notifications.length === 1,
+        remaining: Math.max(notifications.length - MAX_DIGEST_ITEMS, 0),
+        items: notifications.slice(0, MAX_DIGEST_ITEMS).map(({ title, message, link, type, createdAt }) => ({
+          title,
+          message,
+          link,
+          type,
+          createdAt
+        }))
+      }
+    );
+
+    if (!result.success) {
+      throw result.error || new Error('Digest delivery failed');
+    }
+
+    const notificationIds = notifications.map(n => n._id.toString());
+    const sentAt = new Date();
+
+    // Complete the claim first: once the email is out the period must not be
+    // released, even if marking the notifications fails below
+    digest.notificationIds = notificationIds;
+    digest.messageId = result.messageId || null;
+    digest.status = NotificationDeliveryStatus.DELIVERED;
+    digest.sentAt = sentAt;
+    await digest.save();
+
+    try {
+      await NotificationModel.updateMany(
+        { _id: { $in: notificationIds } },
+        { $set: { digestedAt: sentAt } }
+      );
+    } catch (error) {
+      this.logger.error(`Error marking notifications of ${frequency} digest for ${recipientId}:`, error);
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Start of the current digest period in UTC: midnight for daily digests,
+ * Monday midnight for weekly digests
+ */
+export const getPeriodStart = (frequency: ScheduledFrequency, now: Date): Date => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  if (frequency === 'WEEKLY') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+
+  return start;
+};
+
+/**
+ * Project a notification is about, as recorded by the service that raised it
+ */
+const projectIdOf = (notification: Pick<INotification, 'metadata'>): string | undefined =>
+  notification.metadata?.projectId;
+
+/**
+ * Notifications created in the period that are still unread or undelivered
+ * and have not been part of an earlier digest
+ */
+const buildPendingFilter = (since: Date, until: Date): Record<string, any> => ({
+  digestedAt: null,
+  createdAt: { $gte: since, $lt: until },
+  deliveryStatus: { $ne: NotificationDeliveryStatus.SUPPRESSED },
+  $or: [
+    { read: false },
+    { deliveryStatus: { $ne: NotificationDeliveryStatus.DELIVERED } }
+  ]
+});
+
+export default DigestService;
\ No newline at end of file
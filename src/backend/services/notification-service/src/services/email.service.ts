@@ -52,7 +52,7 @@ interface IEmailTemplate {
   localizations: Record<string, TemplateDelegate>;
 }
 
-interface IDeliveryResult {
+export interface IDeliveryResult {
   success: boolean;
   messageId?: string;
   error?: Error;
@@ -298,6 +298,75 @@ export class EmailService {
     return this.sendEmail(emailOptions);
   }
 
+  /**
+   * Send a digest email summarising several notifications
+   */
+  public async sendDigest(to: string, subject: string, context: Record<string, any>): Promise<IDeliveryResult> {
+    return this.sendEmail({
+      to,
+      subject,
+      template: 'DIGEST',
+      context,
+      securityHeaders: {
+        dkim: true,
+        spf: true,
+        contentSecurityPolicy: "default-src 'self'"
+      },
+      deliveryOptions: {
+        priority: 'low',
+        retryCount: 3,
+        timeout: 30000
+      }
+    });
+  }
+
+  /**
+   * Send a password reset link. Sent directly rather than as a notification,
+   * so quiet hours and muted types never hold it back.
+   */
+  public async sendPasswordReset(to: string, context: Record<string, any>): Promise<IDeliveryResult> {
+    return this.sendEmail({
+      to,
+      subject: 'Reset your password',
+      template: 'PASSWORD_RESET',
+      context,
+      securityHeaders: {
+        dkim: true,
+        spf: true,
+        contentSecurityPolicy: "default-src 'self'"
+      },
+      // Opens and clicks are not tracked so the reset link is never rewritten
+      deliveryOptions: {
+        priority: 'high',
+        retryCount: 3,
+        timeout: 30000
+      }
+    });
+  }
+
+  /**
+   * Send an invitation to join a team. The invitee may not have an account
+   * yet, so there are no notification preferences to consult.
+   */
+  public async sendTeamInvitation(to: string, context: Record<string, any>): Promise<IDeliveryResult> {
+    return this.sendEmail({
+      to,
+      subject: `You're invited to join ${context.teamName}`,
+      template: 'TEAM_INVITATION',
+      context,
+      securityHeaders: {
+        dkim: true,
+        spf: true,
+        contentSecurityPolicy: "default-src 'self'"
+      },
+      deliveryOptions: {
+        priority: 'normal',
+        retryCount: 3,
+        timeout: 30000
+      }
+    });
+  }
+
   /**
    * Get delivery status for a specific message
    */
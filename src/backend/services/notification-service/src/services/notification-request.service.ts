@@ -0,0 +1,146 @@
+/**
+ * Notification Request Service Implementation
+ * Version: 1.0.0
+ * Handles emails and notifications other services queue in Redis, retrying
+ * failed requests a few times before giving up on them.
+ */
+
+import Redis from 'ioredis';
+import { Logger } from 'winston';
+import EmailService, { IDeliveryResult } from './email.service';
+import NotificationService from './notification.service';
+import {
+  IEmailRequest,
+  INotificationRequest,
+  TransactionalEmailType
+} from '../../../../shared/interfaces/notification.interface';
+import {
+  NOTIFICATION_REQUEST_QUEUE,
+  QueuedNotificationRequest,
+  enqueueNotificationRequest
+} from '../../../../shared/utils/notification.util';
+
+// Request processing constants
+const REQUEST_POLL_INTERVAL = 1000; // 1 second
+const REQUEST_BATCH_SIZE = 50;
+const MAX_REQUEST_ATTEMPTS = 3;
+
+/**
+ * Takes queued requests off the shared queue and delivers them
+ */
+export class NotificationRequestService {
+  constructor(
+    private readonly redisClient: Redis,
+    private readonly emailService: EmailService,
+    private readonly notificationService: NotificationService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Start polling the request queue
+   */
+  public start(interval: number = REQUEST_POLL_INTERVAL): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.processRequests().catch(error =>
+        this.logger.error('Error processing notification requests:', error)
+      );
+    }, interval);
+
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Handle up to one batch of queued requests, returning the number handled
+   */
+  public async processRequests(limit: number = REQUEST_BATCH_SIZE): Promise<number> {
+    const failed: Array<{ request: QueuedNotificationRequest; error: unknown }> = [];
+    let handled = 0;
+
+    while (handled < limit) {
+      const raw = await this.redisClient.rpop(NOTIFICATION_REQUEST_QUEUE);
+      if (!raw) {
+        break;
+      }
+      handled++;
+
+      let request: QueuedNotificationRequest;
+      try {
+        request = JSON.parse(raw);
+      } catch (error) {
+        this.logger.error('Discarding malformed notification request', { error });
+        continue;
+      }
+
+      try {
+        await this.handle(request);
+      } catch (error) {
+        failed.push({ request, error });
+      }
+    }
+
+    // Retried on the next run rather than straight away
+    for (const { request, error } of failed) {
+      await this.retry(request, error);
+    }
+
+    return handled;
+  }
+
+  private async handle(request: QueuedNotificationRequest): Promise<void> {
+    switch (request.kind) {
+      case 'email':
+        return this.sendEmail(request);
+      case 'notification':
+        return this.sendNotification(request);
+      default:
+        throw new Error(`Unsupported notification request: ${(request as { kind: string }).kind}`);
+    }
+  }
+
+  private async sendEmail(request: IEmailRequest): Promise<void> {
+    let result: IDeliveryResult;
+
+    switch (request.type) {
+      case TransactionalEmailType.PASSWORD_RESET:
+        result = await this.emailService.sendPasswordReset(request.to, request.context);
+        break;
+      case TransactionalEmailType.TEAM_INVITATION:
+        result = await this.emailService.sendTeamInvitation(request.to, request.context);
+        break;
+      default:
+        throw new Error(`Unsupported email type: ${request.type}`);
+    }
+
+    if (!result.success) {
+      throw result.error || new Error('Email delivery failed');
+    }
+  }
+
+  private async sendNotification(request: INotificationRequest): Promise<void> {
+    const { recipientId } = request.notification;
+    if (!recipientId) {
+      throw new Error('Notification request has no recipient');
+    }
+
+    const preferences = await this.notificationService.getNotificationPreferences(recipientId);
+    await this.notificationService.createNotification(request.notification, preferences);
+  }
+
+  /**
+   * Queue a failed request again, or drop it once it has used its attempts
+   */
+  private async retry(request: QueuedNotificationRequest, error: unknown): Promise<void> {
+    const attempts = (request.attempts || 0) + 1;
+
+    if (attempts >= MAX_REQUEST_ATTEMPTS) {
+      this.logger.error('Giving up on notification request', { error, kind: request.kind, attempts });
+      return;
+    }
+
+    this.logger.error('Notification request failed, retrying', { error, kind: request.kind, attempts });
+    await enqueueNotificationRequest(this.redisClient, { ...request, attempts });
+  }
+}
+
+export default NotificationRequestService;
\ No newline at end of file
@@ -10,12 +10,29 @@ import { Logger } from 'winston';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
 import NotificationModel from '../models/notification.model';
 import EmailService from './email.service';
+import PushService from './push.service';
+import DeliveryQueue, { IDeliveryJob } from './delivery-queue.service';
 import { 
   INotification, 
   INotificationPreferences,
+  IPushSubscription,
+  NotificationChannel,
   NotificationDeliveryStatus,
   NotificationType 
 } from '../../../shared/interfaces/notification.interface';
+import { RealtimeEventType, RealtimeRoomType } from '../../../shared/interfaces/realtime.interface';
+import { DEFAULT_NOTIFICATION_PREFERENCES, evaluatePreferences } from '../utils/preference.util';
+import { publishRealtimeEvent, realtimeRoom } from '../../../shared/utils/realtime.util';
+
+// Deferred delivery constants
+const DEFERRED_QUEUE_KEY = 'notifications:deferred';
+const DEFERRED_POLL_INTERVAL = 60 * 1000; // 1 minute
+const DEFERRED_BATCH_SIZE = 100;
+
+// Delivery queue constants
+const DELIVERY_POLL_INTERVAL = 5 * 1000; // 5 seconds
+const DELIVERY_LEASE_DURATION = 5 * 60 * 1000; // 5 minutes
+const DELIVERY_BATCH_SIZE = 100;
 
 /**
  * Configuration interface for notification service
@@ -38,21 +55,16 @@ interface NotificationConfig {
  * Enhanced Notification Service with comprehensive delivery tracking and reliability
  */
 export class NotificationService {
-  private readonly maxRetries: number;
-  private readonly retryDelay: number;
   private readonly rateLimiter: RateLimiterRedis;
-  private readonly deliveryTracking: Map<string, number>;
+  private readonly deliveryQueue: DeliveryQueue;
 
   constructor(
     private readonly emailService: EmailService,
     private readonly redisClient: Redis,
     private readonly logger: Logger,
-    private readonly config: NotificationConfig
+    private readonly config: NotificationConfig,
+    private readonly pushService: PushService = new PushService(logger)
   ) {
-    this.maxRetries = config.maxRetries;
-    this.retryDelay = config.retryDelay;
-    this.deliveryTracking = new Map();
-
     // Initialize rate limiter
     this.rateLimiter = new RateLimiterRedis({
       storeClient: redisClient,
@@ -61,8 +73,32 @@ export class NotificationService {
       blockDuration: 60 // Block for 1 minute if limit exceeded
     });
 
+    // Email and push deliveries are retried through the durable queue
+    this.deliveryQueue = new DeliveryQueue(
+      redisClient,
+      logger,
+      {
+        maxAttempts: config.maxRetries,
+        retryDelay: config.retryDelay,
+        pollInterval: DELIVERY_POLL_INTERVAL,
+        leaseDuration: DELIVERY_LEASE_DURATION,
+        batchSize: DELIVERY_BATCH_SIZE
+      },
+      this.updateDeliveryStatus.bind(this)
+    );
+    this.deliveryQueue.registerHandler(NotificationChannel.EMAIL, this.deliverEmailNotification.bind(this));
+    this.deliveryQueue.registerHandler(NotificationChannel.PUSH, this.deliverPushNotification.bind(this));
+    this.deliveryQueue.start();
+
     // Initialize Redis subscription for real-time updates
     this.initializeRedisSubscription();
+
+    // Release notifications held back by quiet hours once they end
+    setInterval(() => {
+      this.processDeferredNotifications().catch(error =>
+        this.logger.error('Error processing deferred notifications:', error)
+      );
+    }, DEFERRED_POLL_INTERVAL).unref();
   }
 
   /**
@@ -106,9 +142,6 @@ export class NotificationService {
         createdAt: new Date()
       });
 
-      // Track delivery attempt
-      this.deliveryTracking.set(notification.id, 0);
-
       // Process notification through enabled channels
       await this.processNotificationChannels(notification, preferences);
 
@@ -120,83 +153,144 @@ export class NotificationService {
   }
 
   /**
-   * Process notification through configured delivery channels
+   * Evaluate recipient preferences and deliver, defer or suppress the notification
    */
   private async processNotificationChannels(
     notification: INotification,
-    preferences: INotificationPreferences
+    preferences: INotificationPreferences,
+    now: Date = new Date()
   ): Promise<void> {
-    const deliveryPromises: Promise<void>[] = [];
+    const decision = evaluatePreferences(notification, preferences, now);
+
+    if (decision.action === 'DROP') {
+      this.logger.info(`Notification ${notification.id} suppressed: ${decision.reason}`);
+      await this.updateDeliveryStatus(notification.id, NotificationDeliveryStatus.SUPPRESSED);
+      notification.deliveryStatus = NotificationDeliveryStatus.SUPPRESSED;
+      return;
+    }
+
+    if (decision.action === 'DEFER') {
+      await this.redisClient.zadd(DEFERRED_QUEUE_KEY, decision.deliverAt.getTime(), notification.id);
+      await this.updateDeliveryStatus(notification.id, NotificationDeliveryStatus.DEFERRED);
+      notification.deliveryStatus = NotificationDeliveryStatus.DEFERRED;
+      this.logger.info(`Notification ${notification.id} deferred until ${decision.deliverAt.toISOString()}`);
+      return;
+    }
+
+    await this.deliverToChannels(notification, decision.channels);
+  }
+
+  /**
+   * Deliver a notification through the given channels
+   */
+  private async deliverToChannels(
+    notification: INotification,
+    channels: NotificationChannel[]
+  ): Promise<void> {
+    const deliveryPromises: Promise<unknown>[] = [];
 
     // Email channel
-    if (this.config.channels.email && preferences.emailEnabled) {
-      deliveryPromises.push(this.deliverEmailNotification(notification));
+    if (this.config.channels.email && channels.includes(NotificationChannel.EMAIL)) {
+      deliveryPromises.push(this.deliveryQueue.enqueue(notification.id, NotificationChannel.EMAIL));
     }
 
     // In-app channel
-    if (this.config.channels.inApp && preferences.inAppEnabled) {
+    if (this.config.channels.inApp && channels.includes(NotificationChannel.IN_APP)) {
       deliveryPromises.push(this.deliverInAppNotification(notification));
     }
 
     // Push channel
-    if (this.config.channels.push && preferences.pushEnabled) {
-      deliveryPromises.push(this.deliverPushNotification(notification));
+    if (this.config.channels.push && channels.includes(NotificationChannel.PUSH)) {
+      deliveryPromises.push(this.deliveryQueue.enqueue(notification.id, NotificationChannel.PUSH));
     }
 
     await Promise.allSettled(deliveryPromises);
   }
 
   /**
-   * Deliver notification via email with retry mechanism
+   * Deliver deferred notifications whose quiet hours window has ended.
+   * Preferences are evaluated again so changes made in the meantime apply.
    */
-  private async deliverEmailNotification(
-    notification: INotification
-  ): Promise<void> {
-    let attempts = this.deliveryTracking.get(notification.id) || 0;
+  public async processDeferredNotifications(now: Date = new Date()): Promise<number> {
+    const dueIds = await this.redisClient.zrangebyscore(
+      DEFERRED_QUEUE_KEY, 0, now.getTime(), 'LIMIT', 0, DEFERRED_BATCH_SIZE
+    );
+    let released = 0;
+
+    for (const notificationId of dueIds) {
+      // Only the instance that removes the entry delivers it
+      if (await this.redisClient.zrem(DEFERRED_QUEUE_KEY, notificationId) === 0) {
+        continue;
+      }
 
-    while (attempts < this.maxRetries) {
       try {
-        const result = await this.emailService.sendNotification(notification);
-        
-        if (result.success) {
-          await this.updateDeliveryStatus(
-            notification.id,
-            NotificationDeliveryStatus.DELIVERED
-          );
-          return;
+        const notification = await NotificationModel.findById(notificationId);
+        if (!notification) {
+          continue;
         }
-        
-        attempts++;
-        this.deliveryTracking.set(notification.id, attempts);
-        
-        // Exponential backoff
-        await new Promise(resolve => 
-          setTimeout(resolve, this.retryDelay * Math.pow(2, attempts))
-        );
+
+        const preferences = await this.getNotificationPreferences(notification.recipientId);
+        await this.processNotificationChannels(notification, preferences, now);
+        released++;
       } catch (error) {
-        this.logger.error(`Email delivery attempt ${attempts + 1} failed:`, error);
-        
-        if (attempts === this.maxRetries - 1) {
-          await this.updateDeliveryStatus(
-            notification.id,
-            NotificationDeliveryStatus.FAILED
-          );
-          throw error;
-        }
+        // Put the entry back so the next poll retries it
+        this.logger.error(`Error releasing deferred notification ${notificationId}:`, error);
+        await this.redisClient.zadd(DEFERRED_QUEUE_KEY, now.getTime(), notificationId);
       }
     }
+
+    return released;
+  }
+
+  /**
+   * Get user notification preferences, falling back to defaults
+   */
+  public async getNotificationPreferences(userId: string): Promise<INotificationPreferences> {
+    try {
+      const storedPreferences = await this.redisClient.get(`user:${userId}:preferences`);
+
+      return {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...(storedPreferences ? JSON.parse(storedPreferences) : {}),
+        userId
+      };
+    } catch (error) {
+      this.logger.error('Error fetching notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver notification via email; failed attempts are retried by the delivery queue
+   */
+  private async deliverEmailNotification(
+    notification: INotification
+  ): Promise<void> {
+    const result = await this.emailService.sendNotification(notification);
+
+    if (!result.success) {
+      throw result.error || new Error('Email delivery failed');
+    }
+
+    await this.updateDeliveryStatus(
+      notification.id,
+      NotificationDeliveryStatus.DELIVERED
+    );
   }
 
   /**
-   * Deliver in-app notification
+   * Deliver in-app notification through the realtime service, which keeps it
+   * for replay if the recipient is offline briefly
    */
   private async deliverInAppNotification(
     notification: INotification
   ): Promise<void> {
     try {
-      await this.redisClient.publish(
-        `user:${notification.recipientId}:notifications`,
-        JSON.stringify(notification)
+      await publishRealtimeEvent(
+        this.redisClient,
+        realtimeRoom(RealtimeRoomType.USER, notification.recipientId),
+        RealtimeEventType.NOTIFICATION,
+        notification
       );
       
       await this.updateDeliveryStatus(
@@ -214,13 +308,62 @@ export class NotificationService {
   }
 
   /**
-   * Deliver push notification (placeholder for future implementation)
+   * Deliver push notification to every registered device of the recipient
    */
   private async deliverPushNotification(
     notification: INotification
   ): Promise<void> {
-    // Placeholder for push notification implementation
-    this.logger.info('Push notification delivery not implemented');
+    const result = await this.pushService.sendToUser(notification.recipientId, {
+      title: notification.title,
+      body: notification.message,
+      link: notification.link,
+      notificationId: notification.id,
+      type: notification.type
+    });
+
+    if (result.delivered > 0) {
+      await this.updateDeliveryStatus(
+        notification.id,
+        NotificationDeliveryStatus.DELIVERED
+      );
+    } else if (result.failed > 0) {
+      throw new Error(`Push delivery failed for ${result.failed} device(s)`);
+    }
+  }
+
+  /**
+   * Register a browser push subscription for the user's device
+   */
+  public async registerPushSubscription(
+    userId: string,
+    subscription: IPushSubscription,
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      await this.pushService.subscribe(userId, subscription, userAgent);
+    } catch (error) {
+      this.logger.error('Error registering push subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a browser push subscription
+   */
+  public async removePushSubscription(userId: string, endpoint: string): Promise<boolean> {
+    try {
+      return await this.pushService.unsubscribe(userId, endpoint);
+    } catch (error) {
+      this.logger.error('Error removing push subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * VAPID public key used by browsers to subscribe
+   */
+  public getPushPublicKey(): string {
+    return this.pushService.getPublicKey();
   }
 
   /**
@@ -277,6 +420,40 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Run delivery retries that are due
+   */
+  public async processDeliveryQueue(now: Date = new Date()): Promise<number> {
+    return this.deliveryQueue.processDue(now);
+  }
+
+  /**
+   * List deliveries that exhausted their retries
+   */
+  public async getDeadLetters(
+    offset: number = 0,
+    limit: number = 20
+  ): Promise<{ jobs: IDeliveryJob[]; total: number }> {
+    try {
+      return await this.deliveryQueue.listDeadLetters(offset, limit);
+    } catch (error) {
+      this.logger.error('Error fetching dead-lettered deliveries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a dead-lettered delivery for another round of attempts
+   */
+  public async replayDeadLetter(jobId: string): Promise<IDeliveryJob | null> {
+    try {
+      return await this.deliveryQueue.replayDeadLetter(jobId);
+    } catch (error) {
+      this.logger.error('Error replaying dead-lettered delivery:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get notification delivery status
    */
@@ -0,0 +1,235 @@
+/**
+ * Web Push Service Implementation
+ * Version: 1.0.0
+ * Registers browser push subscriptions and delivers VAPID-signed, encrypted
+ * Web Push messages, pruning subscriptions the push service reports as gone.
+ */
+
+import webpush from 'web-push'; // ^3.6.0
+import { Logger } from 'winston';
+import PushSubscriptionModel from '../models/push-subscription.model';
+import { pushConfig, IPushConfig } from '../config/push.config';
+import { IPushSubscription } from '../../../shared/interfaces/notification.interface';
+import { hasPublicHost } from '../../../shared/utils/network.util';
+
+// Push service responses meaning the subscription no longer exists
+const EXPIRED_STATUS_CODES = [404, 410];
+
+/**
+ * Payload rendered by the web app service worker
+ */
+export interface IPushPayload {
+  title: string;
+  body: string;
+  link?: string | null;
+  notificationId?: string;
+  type?: string;
+}
+
+/**
+ * Outcome of sending a push message to all of a user's devices
+ */
+export interface IPushDeliveryResult {
+  delivered: number;
+  failed: number;
+  pruned: number;
+}
+
+/**
+ * Web Push delivery with per-device subscription management
+ */
+export class PushService {
+  constructor(
+    private readonly logger: Logger,
+    private readonly config: IPushConfig = pushConfig
+  ) {}
+
+  /**
+   * Whether VAPID credentials are configured
+   */
+  public isEnabled(): boolean {
+    return Boolean(this.config.vapid.publicKey && this.config.vapid.privateKey);
+  }
+
+  /**
+   * VAPID public key the browser needs to create a subscription
+   */
+  public getPublicKey(): string {
+    return this.config.vapid.publicKey;
+  }
+
+  /**
+   * Register or refresh a device subscription for a user
+   */
+  public async subscribe(
+    userId: string,
+    subscription: IPushSubscription,
+    userAgent?: string
+  ): Promise<void> {
+    await this.validateSubscription(subscription);
+
+    // An endpoint belongs to one browser profile, so re-registering moves it to the new user
+    await PushSubscriptionModel.findOneAndUpdate(
+      { endpoint: subscription.endpoint },
+      {
+        $set: {
+          userId,
+          keys: subscription.keys,
+          expirationTime: subscription.expirationTime ?? null,
+          userAgent: userAgent?.slice(0, 512) || null,
+          failureCount: 0
+        }
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    // Keep only the most recently registered devices
+    const stale = await PushSubscriptionModel
+      .find({ userId })
+      .sort({ updatedAt: -1 })
+      .skip(this.config.maxSubscriptionsPerUser)
+      .select('_id')
+      .lean();
+
+    if (stale.length > 0) {
+      await PushSubscriptionModel.deleteMany({ _id: { $in: stale.map(doc => doc._id) } });
+    }
+  }
+
+  /**
+   * Remove a device subscription, e.g. when the user disables push in the browser
+   */
+  public async unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+    const result = await PushSubscriptionModel.deleteOne({ userId, endpoint });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Send a push message to every registered device of a user
+   */
+  public async sendToUser(userId: string, payload: IPushPayload): Promise<IPushDeliveryResult> {
+    const result: IPushDeliveryResult = { delivered: 0, failed: 0, pruned: 0 };
+
+    if (!this.isEnabled()) {
+      this.logger.warn('Push delivery skipped: VAPID keys are not configured');
+      return result;
+    }
+
+    const subscriptions = await PushSubscriptionModel.find({ userId }).lean();
+    const now = Date.now();
+
+    await Promise.all(subscriptions.map(async (subscription) => {
+      if (subscription.expirationTime && subscription.expirationTime <= now) {
+        await PushSubscriptionModel.deleteOne({ _id: subscription._id });
+        result.pruned++;
+        return;
+      }
+
+      // The endpoint host may have been re-pointed since the device subscribed
+      if (!(await this.isAllowedEndpoint(new URL(subscription.endpoint)))) {
+        await PushSubscriptionModel.deleteOne({ _id: subscription._id });
+        result.pruned++;
+        this.logger.warn(`Pruned push subscription for user ${userId} with a non-public endpoint`);
+        return;
+      }
+
+      const statusCode = await this.sendToSubscription(subscription, payload);
+
+      if (statusCode >= 200 && statusCode < 300) {
+        await PushSubscriptionModel.updateOne(
+          { _id: subscription._id },
+          { $set: { failureCount: 0, lastSuccessAt: new Date() } }
+        );
+        result.delivered++;
+        return;
+      }
+
+      result.failed++;
+
+      if (EXPIRED_STATUS_CODES.includes(statusCode) ||
+          subscription.failureCount + 1 >= this.config.maxFailures) {
+        await PushSubscriptionModel.deleteOne({ _id: subscription._id });
+        result.pruned++;
+        this.logger.info(`Pruned push subscription for user ${userId}`, { statusCode });
+      } else {
+        await PushSubscriptionModel.updateOne(
+          { _id: subscription._id },
+          { $inc: { failureCount: 1 } }
+        );
+      }
+    }));
+
+    return result;
+  }
+
+  /**
+   * Encrypt, sign and post a message to one push endpoint, returning the HTTP
+   * status (0 when the endpoint could not be reached)
+   */
+  private async sendToSubscription(
+    subscription: IPushSubscription,
+    payload: IPushPayload
+  ): Promise<number> {
+    const request = webpush.generateRequestDetails(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify(payload),
+      {
+        TTL: this.config.ttl,
+        vapidDetails: this.config.vapid
+      }
+    );
+
+    try {
+      const response = await fetch(request.endpoint, {
+        method: request.method,
+        headers: request.headers as Record<string, string>,
+        body: request.body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.requestTimeout)
+      });
+      return response.status;
+    } catch (error) {
+      this.logger.error('Push endpoint request failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Reject subscriptions that browsers could not have produced
+   */
+  private async validateSubscription(subscription: IPushSubscription): Promise<void> {
+    let endpoint: URL;
+    try {
+      endpoint = new URL(subscription?.endpoint);
+    } catch {
+      throw new Error('Invalid push subscription endpoint');
+    }
+
+    if (endpoint.protocol !== 'https:' &&
+        !(this.config.allowInsecureEndpoints && endpoint.protocol === 'http:')) {
+      throw new Error('Push subscription endpoint must use HTTPS');
+    }
+
+    if (!(await this.isAllowedEndpoint(endpoint))) {
+      throw new Error('Push subscription endpoint must be a public host');
+    }
+
+    if (!subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new Error('Push subscription keys are required');
+    }
+  }
+
+  /**
+   * Whether messages may be posted to an endpoint. Push services are public
+   * hosts, so endpoints resolving to internal addresses are refused; local
+   * stubs are only reachable with insecure endpoints allowed.
+   */
+  private async isAllowedEndpoint(endpoint: URL): Promise<boolean> {
+    if (endpoint.username || endpoint.password) {
+      return false;
+    }
+    return this.config.allowInsecureEndpoints || hasPublicHost(endpoint);
+  }
+}
+
+export default PushService;
\ No newline at end of file
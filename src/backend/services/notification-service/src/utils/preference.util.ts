@@ -0,0 +1,165 @@
+/**
+ * Notification Preference Utility Functions
+ * Version: 1.0.0
+ * Evaluates a recipient's muted types, priority threshold, per-type channel
+ * routing and quiet hours before a notification is delivered
+ */
+
+import {
+  INotification,
+  INotificationPreferences,
+  NotificationChannel,
+  NotificationPriority
+} from '../../../shared/interfaces/notification.interface';
+
+// Preference Constants
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = {
+  [NotificationPriority.LOW]: 0,
+  [NotificationPriority.MEDIUM]: 1,
+  [NotificationPriority.HIGH]: 2
+};
+
+/**
+ * Outcome of evaluating a notification against recipient preferences
+ */
+export type PreferenceDecision =
+  | { action: 'DELIVER'; channels: NotificationChannel[] }
+  | { action: 'DEFER'; channels: NotificationChannel[]; deliverAt: Date }
+  | { action: 'DROP'; reason: string };
+
+/**
+ * Preferences applied to users who have never saved their own
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<INotificationPreferences, 'userId'> = {
+  emailEnabled: true,
+  pushEnabled: false,
+  inAppEnabled: true,
+  mutedTypes: [],
+  priorityThreshold: NotificationPriority.LOW,
+  quietHours: {
+    start: '00:00',
+    end: '00:00',
+    timezone: 'UTC'
+  },
+  digestFrequency: 'NONE',
+  deliveryChannels: {}
+};
+
+/**
+ * Decides whether, when and where a notification should be delivered
+ * @param notification - Notification about to be delivered
+ * @param preferences - Recipient preferences
+ * @param now - Evaluation time
+ * @returns PreferenceDecision describing the delivery action
+ */
+export const evaluatePreferences = (
+  notification: Pick<INotification, 'type' | 'priority'>,
+  preferences: INotificationPreferences,
+  now: Date = new Date()
+): PreferenceDecision => {
+  if ((preferences.mutedTypes || []).includes(notification.type)) {
+    return { action: 'DROP', reason: `${notification.type} notifications are muted` };
+  }
+
+  const threshold = preferences.priorityThreshold || NotificationPriority.LOW;
+  if (PRIORITY_RANK[notification.priority] < PRIORITY_RANK[threshold]) {
+    return { action: 'DROP', reason: `Priority ${notification.priority} is below ${threshold}` };
+  }
+
+  const channels = resolveChannels(notification.type, preferences);
+  if (channels.length === 0) {
+    return { action: 'DROP', reason: 'No delivery channels enabled' };
+  }
+
+  const quietHoursEnd = getQuietHoursEnd(preferences.quietHours, now);
+  if (quietHoursEnd) {
+    return { action: 'DEFER', channels, deliverAt: quietHoursEnd };
+  }
+
+  return { action: 'DELIVER', channels };
+};
+
+/**
+ * Resolves the channels for a notification type. Per-type routing narrows the
+ * globally enabled channels; it never enables a channel the user switched off.
+ */
+export const resolveChannels = (
+  type: INotification['type'],
+  preferences: INotificationPreferences
+): NotificationChannel[] => {
+  const enabled: NotificationChannel[] = [];
+  if (preferences.emailEnabled) enabled.push(NotificationChannel.EMAIL);
+  if (preferences.inAppEnabled) enabled.push(NotificationChannel.IN_APP);
+  if (preferences.pushEnabled) enabled.push(NotificationChannel.PUSH);
+
+  const routed = preferences.deliveryChannels?.[type];
+  return routed ? enabled.filter(channel => routed.includes(channel)) : enabled;
+};
+
+/**
+ * Returns the instant the current quiet hours window ends, or null when the
+ * recipient is outside quiet hours. Windows may span midnight, e.g. 22:00-06:00.
+ */
+export const getQuietHoursEnd = (
+  quietHours: INotificationPreferences['quietHours'] | undefined,
+  now: Date
+): Date | null => {
+  if (!quietHours) {
+    return null;
+  }
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const local = getLocalMinutes(now, quietHours.timezone);
+  const inQuietHours = start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+
+  if (!inQuietHours) {
+    return null;
+  }
+
+  const minutesUntilEnd = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const endsAt = new Date(now.getTime() + minutesUntilEnd * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+};
+
+/**
+ * Converts "HH:mm" to minutes after midnight, or null when the value is malformed
+ */
+const toMinutes = (time: string): number | null => {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    return null;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * Minutes after local midnight in an IANA timezone, treating unknown zones as UTC
+ */
+const getLocalMinutes = (date: Date, timezone: string): number => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+  } catch {
+    return date.getUTCHours() * 60 + date.getUTCMinutes();
+  }
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return value('hour') * 60 + value('minute');
+};
\ No newline at end of file
@@ -1,15 +1,28 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createECDH, randomBytes } from 'crypto';
+import webpush from 'web-push';
 import Redis from 'ioredis-mock';
 import { faker } from '@faker-js/faker';
 import NotificationService from '../src/services/notification.service';
 import NotificationModel from '../src/models/notification.model';
+import DigestModel from '../src/models/digest.model';
+import DigestService from '../src/services/digest.service';
+import NotificationRequestService from '../src/services/notification-request.service';
+import { DigestSettingsRepository } from '../src/repositories/digest-settings.repository';
+import PushService from '../src/services/push.service';
+import PushSubscriptionModel from '../src/models/push-subscription.model';
+import { pushConfig } from '../src/config/push.config';
 import { 
   INotification, 
   NotificationType, 
   NotificationPriority,
   NotificationDeliveryStatus,
-  INotificationPreferences 
+  INotificationPreferences,
+  TransactionalEmailType
 } from '../../../shared/interfaces/notification.interface';
+import { NOTIFICATION_REQUEST_QUEUE, enqueueNotificationRequest } from '../../../shared/utils/notification.util';
 import EmailService from '../src/services/email.service';
 import { Logger } from 'winston';
 
@@ -35,6 +48,12 @@ describe('NotificationService', () => {
   };
 
   beforeAll(async () => {
+    // Pin the clock to midday UTC so quiet hours are deterministic
+    jest.useFakeTimers({
+      doNotFake: ['setTimeout', 'setInterval', 'setImmediate', 'nextTick'],
+      now: new Date('2024-01-15T12:00:00Z')
+    });
+
     // Setup MongoDB memory server
     mongoServer = await MongoMemoryServer.create({
       instance: {
@@ -76,6 +95,7 @@ describe('NotificationService', () => {
   afterAll(async () => {
     await mongoServer.stop();
     await redisClient.quit();
+    jest.useRealTimers();
     jest.clearAllMocks();
   });
 
@@ -165,14 +185,97 @@ describe('NotificationService', () => {
         }
       };
 
+      (emailService.sendNotification as jest.Mock).mockClear();
+
       const notification = await notificationService.createNotification(
         notificationData,
         preferences
       );
 
-      expect(notification.deliveryStatus).toBe(NotificationDeliveryStatus.DELIVERED);
+      // The first attempt fails and a retry is scheduled in the delivery queue
+      expect((await NotificationModel.findById(notification.id))?.deliveryStatus)
+        .toBe(NotificationDeliveryStatus.RETRYING);
+
+      await notificationService.processDeliveryQueue(new Date(Date.now() + mockConfig.retryDelay));
+
+      expect((await NotificationModel.findById(notification.id))?.deliveryStatus)
+        .toBe(NotificationDeliveryStatus.DELIVERED);
       expect(emailService.sendNotification).toHaveBeenCalledTimes(2);
     });
+
+    it('should dead-letter deliveries that exhaust their retries and replay them', async () => {
+      jest.spyOn(emailService, 'sendNotification').mockRejectedValue(new Error('Delivery failed'));
+
+      const notificationData: Partial<INotification> = {
+        type: NotificationType.TASK_ASSIGNED,
+        title: 'New Task Assignment',
+        message: 'You have been assigned a new task',
+        recipientId: faker.string.uuid(),
+        senderId: faker.string.uuid(),
+        priority: NotificationPriority.HIGH,
+        metadata: {
+          recipientEmail: faker.internet.email()
+        }
+      };
+
+      const preferences: INotificationPreferences = {
+        userId: notificationData.recipientId!,
+        emailEnabled: true,
+        pushEnabled: false,
+        inAppEnabled: false,
+        mutedTypes: [],
+        priorityThreshold: NotificationPriority.LOW,
+        quietHours: {
+          start: '22:00',
+          end: '06:00',
+          timezone: 'UTC'
+        },
+        deliveryChannels: {}
+      };
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+
+      // Attempts 2 and 3 run once their backoff has elapsed
+      for (let hour = 1; hour < mockConfig.maxRetries; hour++) {
+        await notificationService.processDeliveryQueue(new Date(Date.now() + hour * 60 * 60 * 1000));
+      }
+
+      expect((await NotificationModel.findById(notification.id))?.deliveryStatus)
+        .toBe(NotificationDeliveryStatus.DEAD_LETTERED);
+
+      const { jobs } = await notificationService.getDeadLetters();
+      const job = jobs.find(deadLetter => deadLetter.notificationId === notification.id);
+      expect(job).toMatchObject({ attempts: mockConfig.maxRetries, lastError: 'Delivery failed' });
+
+      // The list expires along with the dead-lettered job data
+      expect(await redisClient.ttl('notifications:delivery:dead')).toBeGreaterThan(0);
+
+      jest.spyOn(emailService, 'sendNotification').mockResolvedValue({
+        success: true,
+        messageId: faker.string.uuid(),
+        timestamp: new Date(),
+        attempts: 1
+      });
+
+      expect(await notificationService.replayDeadLetter(job!.id)).not.toBeNull();
+      expect(await notificationService.replayDeadLetter(job!.id)).toBeNull();
+
+      await notificationService.processDeliveryQueue(new Date(Date.now() + 1000));
+
+      expect((await NotificationModel.findById(notification.id))?.deliveryStatus)
+        .toBe(NotificationDeliveryStatus.DELIVERED);
+    });
+
+    it('should drop dead-letter entries whose job data has expired', async () => {
+      await redisClient.lpush('notifications:delivery:dead', 'expired-job');
+
+      const before = await redisClient.llen('notifications:delivery:dead');
+      const { jobs, total } = await notificationService.getDeadLetters();
+
+      expect(jobs.find(job => job.id === 'expired-job')).toBeUndefined();
+      expect(total).toBe(before - 1);
+      expect(await redisClient.lrange('notifications:delivery:dead', 0, -1)).not.toContain('expired-job');
+    });
   });
 
   describe('Rate Limiting', () => {
@@ -253,6 +356,457 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('Preference Evaluation', () => {
+    const buildNotification = (overrides: Partial<INotification> = {}): Partial<INotification> => ({
+      type: NotificationType.TASK_UPDATED,
+      title: 'Task Update',
+      message: 'Task status has changed',
+      recipientId: faker.string.uuid(),
+      senderId: faker.string.uuid(),
+      priority: NotificationPriority.MEDIUM,
+      metadata: {
+        taskId: faker.string.uuid(),
+        recipientEmail: faker.internet.email()
+      },
+      ...overrides
+    });
+
+    const buildPreferences = (
+      userId: string,
+      overrides: Partial<INotificationPreferences> = {}
+    ): INotificationPreferences => ({
+      userId,
+      emailEnabled: true,
+      pushEnabled: false,
+      inAppEnabled: true,
+      mutedTypes: [],
+      priorityThreshold: NotificationPriority.LOW,
+      quietHours: {
+        start: '22:00',
+        end: '06:00',
+        timezone: 'UTC'
+      },
+      deliveryChannels: {},
+      ...overrides
+    });
+
+    beforeEach(() => {
+      (emailService.sendNotification as jest.Mock).mockClear();
+    });
+
+    it('should suppress notifications of muted types', async () => {
+      const notificationData = buildNotification();
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        mutedTypes: [NotificationType.TASK_UPDATED]
+      });
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+
+      const stored = await NotificationModel.findById(notification.id);
+      expect(stored?.deliveryStatus).toBe(NotificationDeliveryStatus.SUPPRESSED);
+      expect(emailService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should suppress notifications below the priority threshold', async () => {
+      const notificationData = buildNotification({ priority: NotificationPriority.LOW });
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        priorityThreshold: NotificationPriority.HIGH
+      });
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+
+      const stored = await NotificationModel.findById(notification.id);
+      expect(stored?.deliveryStatus).toBe(NotificationDeliveryStatus.SUPPRESSED);
+      expect(emailService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should only deliver through the channels routed for the type', async () => {
+      const notificationData = buildNotification();
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        deliveryChannels: {
+          [NotificationType.TASK_UPDATED]: ['inApp']
+        }
+      });
+
+      await notificationService.createNotification(notificationData, preferences);
+
+      expect(emailService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should defer notifications until quiet hours end in the user timezone', async () => {
+      // 12:00 UTC is 07:00 in New York (EST)
+      const notificationData = buildNotification();
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        quietHours: {
+          start: '21:00',
+          end: '08:00',
+          timezone: 'America/New_York'
+        }
+      });
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+
+      const stored = await NotificationModel.findById(notification.id);
+      expect(stored?.deliveryStatus).toBe(NotificationDeliveryStatus.DEFERRED);
+      expect(emailService.sendNotification).not.toHaveBeenCalled();
+
+      const deliverAt = await redisClient.zscore('notifications:deferred', notification.id);
+      expect(Number(deliverAt)).toBe(new Date('2024-01-15T13:00:00Z').getTime());
+    });
+
+    it('should deliver deferred notifications once quiet hours end', async () => {
+      const notificationData = buildNotification();
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        quietHours: {
+          start: '11:00',
+          end: '13:00',
+          timezone: 'UTC'
+        }
+      });
+      await redisClient.set(`user:${notificationData.recipientId}:preferences`, JSON.stringify(preferences));
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+      expect(await notificationService.processDeferredNotifications()).toBe(0);
+
+      const released = await notificationService.processDeferredNotifications(
+        new Date('2024-01-15T13:00:00Z')
+      );
+
+      expect(released).toBeGreaterThanOrEqual(1);
+      expect(await redisClient.zscore('notifications:deferred', notification.id)).toBeNull();
+      expect(emailService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ title: notificationData.title })
+      );
+    });
+
+    it('should requeue deferred notifications whose delivery fails', async () => {
+      const notificationData = buildNotification();
+      const preferences = buildPreferences(notificationData.recipientId!, {
+        quietHours: {
+          start: '11:00',
+          end: '13:00',
+          timezone: 'UTC'
+        }
+      });
+
+      const notification = await notificationService.createNotification(notificationData, preferences);
+      const releaseAt = new Date('2024-01-15T13:00:00Z');
+      const getPreferences = jest.spyOn(notificationService, 'getNotificationPreferences')
+        .mockRejectedValue(new Error('Redis unavailable'));
+
+      const released = await notificationService.processDeferredNotifications(releaseAt);
+      getPreferences.mockRestore();
+
+      expect(released).toBe(0);
+      expect(Number(await redisClient.zscore('notifications:deferred', notification.id))).toBe(releaseAt.getTime());
+    });
+  });
+
+  describe('Email Digests', () => {
+    let digestService: DigestService;
+    const digestSettings = {
+      findProjectFrequencies: jest.fn(),
+      hasTeamDailyDigest: jest.fn()
+    };
+
+    beforeEach(() => {
+      digestSettings.findProjectFrequencies.mockResolvedValue(new Map());
+      digestSettings.hasTeamDailyDigest.mockResolvedValue(false);
+    });
+
+    beforeAll(() => {
+      digestService = new DigestService(
+        emailService,
+        notificationService,
+        digestSettings as unknown as DigestSettingsRepository,
+        mockLogger as Logger
+      );
+      jest.spyOn(emailService, 'sendDigest').mockImplementation(async () => ({
+        success: true,
+        messageId: faker.string.uuid(),
+        timestamp: new Date(),
+        attempts: 1
+      }));
+    });
+
+    const createUnread = async (recipientId: string, recipientEmail: string, projectId?: string) =>
+      NotificationModel.create({
+        type: NotificationType.TASK_UPDATED,
+        title: 'Task Update',
+        message: 'Task status has changed',
+        recipientId,
+        senderId: faker.string.uuid(),
+        priority: NotificationPriority.MEDIUM,
+        deliveryStatus: NotificationDeliveryStatus.DELIVERED,
+        metadata: projectId ? { recipientEmail, projectId } : { recipientEmail }
+      });
+
+    it('should send one digest per recipient and never digest a notification twice', async () => {
+      const recipientId = faker.string.uuid();
+      const recipientEmail = faker.internet.email();
+      await notificationService.updateNotificationPreferences(recipientId, { digestFrequency: 'DAILY' });
+
+      const first = await createUnread(recipientId, recipientEmail);
+      const second = await createUnread(recipientId, recipientEmail);
+
+      // The clock is pinned to 2024-01-15, so the next day's run covers these notifications
+      const nextDay = new Date('2024-01-16T01:00:00Z');
+      expect(await digestService.runDigest('DAILY', nextDay)).toBe(1);
+      expect(emailService.sendDigest).toHaveBeenCalledWith(
+        recipientEmail,
+        expect.any(String),
+        expect.objectContaining({ total: 2 })
+      );
+
+      const digest = await DigestModel.findOne({ recipientId });
+      expect(digest?.notificationIds).toEqual(expect.arrayContaining([first.id, second.id]));
+      expect((await NotificationModel.findById(first.id))?.digestedAt).toBeTruthy();
+
+      expect(await digestService.runDigest('DAILY', nextDay)).toBe(0);
+      expect(await digestService.runDigest('DAILY', new Date('2024-01-16T13:00:00Z'))).toBe(0);
+      expect(emailService.sendDigest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip recipients without a matching digest frequency', async () => {
+      const recipientId = faker.string.uuid();
+      await notificationService.updateNotificationPreferences(recipientId, { digestFrequency: 'WEEKLY' });
+      await createUnread(recipientId, faker.internet.email());
+
+      expect(await digestService.runDigest('DAILY', new Date('2024-01-16T01:00:00Z'))).toBe(0);
+      expect(await DigestModel.countDocuments({ recipientId })).toBe(0);
+    });
+
+    it('should follow the project digest frequency when no personal one is set', async () => {
+      const recipientId = faker.string.uuid();
+      const dailyProject = faker.string.uuid();
+      const weeklyProject = faker.string.uuid();
+      digestSettings.findProjectFrequencies.mockResolvedValue(new Map([
+        [dailyProject, 'DAILY'],
+        [weeklyProject, 'WEEKLY']
+      ]));
+      const daily = await createUnread(recipientId, faker.internet.email(), dailyProject);
+      await createUnread(recipientId, faker.internet.email(), weeklyProject);
+
+      expect(await digestService.runDigest('DAILY', new Date('2024-01-16T01:00:00Z'))).toBe(1);
+
+      const digest = await DigestModel.findOne({ recipientId, frequency: 'DAILY' });
+      expect(digest?.notificationIds).toEqual([daily.id]);
+    });
+
+    it('should send a daily digest to members of a team with the daily digest turned on', async () => {
+      const recipientId = faker.string.uuid();
+      digestSettings.hasTeamDailyDigest.mockResolvedValue(true);
+      await createUnread(recipientId, faker.internet.email());
+
+      expect(await digestService.runDigest('DAILY', new Date('2024-01-16T01:00:00Z'))).toBe(1);
+      expect(digestSettings.hasTeamDailyDigest).toHaveBeenCalledWith(recipientId);
+    });
+
+    it('should release the claim when sending fails and take over stale claims', async () => {
+      const recipientId = faker.string.uuid();
+      const nextDay = new Date('2024-01-16T01:00:00Z');
+      await notificationService.updateNotificationPreferences(recipientId, { digestFrequency: 'DAILY' });
+      await createUnread(recipientId, faker.internet.email());
+
+      (emailService.sendDigest as jest.Mock).mockImplementationOnce(async () => ({
+        success: false,
+        error: new Error('SMTP unavailable'),
+        timestamp: new Date(),
+        attempts: 3
+      }));
+      expect(await digestService.runDigest('DAILY', nextDay)).toBe(0);
+      expect(await DigestModel.countDocuments({ recipientId })).toBe(0);
+
+      // A claim left behind by a run that stopped mid-send
+      await DigestModel.collection.insertOne({
+        recipientId,
+        frequency: 'DAILY',
+        periodStart: new Date('2024-01-16T00:00:00Z'),
+        notificationIds: [],
+        status: NotificationDeliveryStatus.PENDING,
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+        updatedAt: new Date(Date.now() - 60 * 60 * 1000)
+      });
+
+      expect(await digestService.runDigest('DAILY', nextDay)).toBe(1);
+      expect((await DigestModel.findOne({ recipientId }))?.status).toBe(NotificationDeliveryStatus.DELIVERED);
+    });
+  });
+
+  describe('Notification Requests', () => {
+    let requestService: NotificationRequestService;
+
+    beforeEach(async () => {
+      await redisClient.del(NOTIFICATION_REQUEST_QUEUE);
+      requestService = new NotificationRequestService(
+        redisClient as any,
+        emailService,
+        notificationService,
+        mockLogger as Logger
+      );
+    });
+
+    it('should send queued transactional emails in order', async () => {
+      const send = jest.spyOn(emailService, 'sendPasswordReset').mockResolvedValue({
+        success: true,
+        messageId: faker.string.uuid(),
+        timestamp: new Date(),
+        attempts: 1
+      });
+      const recipients = [faker.internet.email(), faker.internet.email()];
+
+      for (const to of recipients) {
+        await enqueueNotificationRequest(redisClient as any, {
+          kind: 'email',
+          type: TransactionalEmailType.PASSWORD_RESET,
+          to,
+          context: { link: 'https://app.example.com/reset?token=abc' }
+        });
+      }
+
+      expect(await requestService.processRequests()).toBe(2);
+      expect(send.mock.calls.map(([to]) => to)).toEqual(recipients);
+      expect(await redisClient.llen(NOTIFICATION_REQUEST_QUEUE)).toBe(0);
+    });
+
+    it('should retry failed requests a limited number of times', async () => {
+      const send = jest.spyOn(emailService, 'sendPasswordReset').mockResolvedValue({
+        success: false,
+        error: new Error('SMTP unavailable'),
+        timestamp: new Date(),
+        attempts: 1
+      });
+
+      await enqueueNotificationRequest(redisClient as any, {
+        kind: 'email',
+        type: TransactionalEmailType.PASSWORD_RESET,
+        to: faker.internet.email(),
+        context: {}
+      });
+
+      // Each pass fails once and queues the request again until it gives up
+      for (let pass = 0; pass < 5; pass++) {
+        await requestService.processRequests();
+      }
+
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(await redisClient.llen(NOTIFICATION_REQUEST_QUEUE)).toBe(0);
+    });
+
+    it('should create queued notifications with the recipient\'s preferences', async () => {
+      const recipientId = faker.string.uuid();
+      const create = jest.spyOn(notificationService, 'createNotification').mockResolvedValue({} as INotification);
+
+      await enqueueNotificationRequest(redisClient as any, {
+        kind: 'notification',
+        notification: {
+          type: NotificationType.MENTION,
+          title: 'You were mentioned on Release checklist',
+          message: 'Can you review this?',
+          recipientId,
+          senderId: faker.string.uuid(),
+          priority: NotificationPriority.MEDIUM
+        }
+      });
+
+      expect(await requestService.processRequests()).toBe(1);
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ type: NotificationType.MENTION, recipientId }),
+        await notificationService.getNotificationPreferences(recipientId)
+      );
+      create.mockRestore();
+    });
+  });
+
+  describe('Push Delivery', () => {
+    let pushServer: Server;
+    let pushBaseUrl: string;
+    let pushService: PushService;
+    const receivedHeaders: IncomingHttpHeaders[] = [];
+
+    // Local stand-in for a browser push service
+    beforeAll(async () => {
+      pushServer = createServer((req, res) => {
+        receivedHeaders.push(req.headers);
+        req.resume();
+        res.statusCode = req.url?.startsWith('/gone') ? 410 : 201;
+        res.end();
+      });
+      await new Promise<void>(resolve => pushServer.listen(0, '127.0.0.1', resolve));
+      pushBaseUrl = `http://127.0.0.1:${(pushServer.address() as AddressInfo).port}`;
+
+      const vapidKeys = webpush.generateVAPIDKeys();
+      pushService = new PushService(mockLogger as Logger, {
+        ...pushConfig,
+        vapid: { ...vapidKeys, subject: 'mailto:test@example.com' },
+        allowInsecureEndpoints: true
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => pushServer.close(resolve));
+    });
+
+    const buildSubscription = (path: string) => {
+      const clientKeys = createECDH('prime256v1');
+      clientKeys.generateKeys();
+
+      return {
+        endpoint: `${pushBaseUrl}${path}`,
+        keys: {
+          p256dh: clientKeys.getPublicKey().toString('base64url'),
+          auth: randomBytes(16).toString('base64url')
+        }
+      };
+    };
+
+    it('should deliver VAPID-signed messages and prune expired subscriptions', async () => {
+      const userId = faker.string.uuid();
+      await pushService.subscribe(userId, buildSubscription(`/ok/${faker.string.uuid()}`));
+      await pushService.subscribe(userId, buildSubscription(`/gone/${faker.string.uuid()}`));
+
+      const result = await pushService.sendToUser(userId, {
+        title: 'New Task Assignment',
+        body: 'You have been assigned a new task'
+      });
+
+      expect(result).toEqual({ delivered: 1, failed: 1, pruned: 1 });
+      expect(receivedHeaders).toHaveLength(2);
+      receivedHeaders.forEach(headers => {
+        expect(headers.authorization).toMatch(/^vapid t=.+, k=.+/);
+        expect(headers['content-encoding']).toBe('aes128gcm');
+      });
+
+      const remaining = await PushSubscriptionModel.find({ userId });
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].endpoint).toContain('/ok/');
+    });
+
+    it('should reject insecure endpoints unless explicitly allowed', async () => {
+      const securePushService = new PushService(mockLogger as Logger, {
+        ...pushConfig,
+        allowInsecureEndpoints: false
+      });
+
+      await expect(
+        securePushService.subscribe(faker.string.uuid(), buildSubscription('/ok/insecure'))
+      ).rejects.toThrow('HTTPS');
+    });
+
+    it('should reject endpoints that resolve to internal addresses', async () => {
+      const securePushService = new PushService(mockLogger as Logger, {
+        ...pushConfig,
+        allowInsecureEndpoints: false
+      });
+
+      for (const host of ['127.0.0.1', 'localhost', '[::1]', '169.254.169.254']) {
+        const subscription = { ...buildSubscription('/ok/internal'), endpoint: `https://${host}/ok/internal` };
+        await expect(securePushService.subscribe(faker.string.uuid(), subscription))
+          .rejects.toThrow('public host');
+      }
+    });
+  });
+
   describe('Real-time Updates', () => {
     it('should handle real-time notification status updates', async () => {
       const notification = await NotificationModel.create({
@@ -5,7 +5,7 @@
  * database connectivity, and robust error handling for the project management service.
  */
 
-import express, { Express, Request, Response, NextFunction } from 'express'; // ^4.18.0
+import express, { Express, Request, Response, NextFunction, Router } from 'express'; // ^4.18.0
 import cors from 'cors'; // ^2.8.5
 import helmet from 'helmet'; // ^7.0.0
 import compression from 'compression'; // ^1.7.4
@@ -15,6 +15,10 @@ import { expressjwt as jwt } from 'express-jwt'; // ^8.4.1
 import Logger from '../../../shared/utils/logger.util';
 import { errorHandler } from '../../../shared/middleware/error-handler';
 import { ProjectController } from './controllers/project.controller';
+import { WebhookController } from './controllers/webhook.controller';
+import { WebhookService } from './services/webhook.service';
+import { WebhookRepository } from './repositories/webhook.repository';
+import { ProjectRepository } from './repositories/project.repository';
 import { db } from './config/database.config';
 import { HttpStatusCodes } from '../../../shared/constants/status-codes';
 
@@ -35,6 +39,25 @@ const logger = Logger.getInstance('ProjectService', {
   enableFile: true
 });
 
+// Webhook routes are bound once the database connects, see startServer
+const webhookRouter = Router();
+
+type ControllerHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+/**
+ * Bind the webhook controller's handlers to their routes
+ */
+function bindWebhookRoutes(router: Router, controller: WebhookController): void {
+  const bind = (handler: ControllerHandler) => handler.bind(controller);
+
+  router.get('/:id/webhooks', bind(controller.listWebhooks));
+  router.post('/:id/webhooks', bind(controller.createWebhook));
+  router.patch('/:id/webhooks/:webhookId', bind(controller.updateWebhook));
+  router.delete('/:id/webhooks/:webhookId', bind(controller.deleteWebhook));
+  router.post('/:id/webhooks/:webhookId/test', bind(controller.sendTestEvent));
+  router.get('/:id/webhooks/:webhookId/deliveries', bind(controller.getDeliveries));
+}
+
 /**
  * Initialize Express application with comprehensive middleware chain
  */
@@ -78,7 +101,7 @@ function initializeApp(): Express {
         callback(new Error('Not allowed by CORS'));
       }
     },
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Correlation-ID'],
     credentials: true,
     maxAge: 600 // 10 minutes
@@ -118,6 +141,8 @@ function initializeApp(): Express {
   const projectController = new ProjectController();
   app.use(BASE_PATH, projectController.router);
 
+  app.use(BASE_PATH, webhookRouter);
+
   // Health check endpoint
   app.get('/health', (req: Request, res: Response) => {
     res.status(HttpStatusCodes.OK).json({
@@ -148,13 +173,18 @@ async function startServer(app: Express): Promise<void> {
     await db.connect();
     logger.info('Database connection established');
 
+    // Repositories take their connection when constructed, so wire up after connecting
+    const webhookService = new WebhookService(new WebhookRepository(), new ProjectRepository());
+    bindWebhookRoutes(webhookRouter, new WebhookController(webhookService));
+    webhookService.start();
+
     // Start HTTP server
     const server = app.listen(PORT, () => {
       logger.info(`Project service listening on port ${PORT}`);
     });
 
     // Graceful shutdown handling
-    setupGracefulShutdown(server, db);
+    setupGracefulShutdown(server, db, webhookService);
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
@@ -164,9 +194,10 @@ async function startServer(app: Express): Promise<void> {
 /**
  * Configure graceful shutdown handlers
  */
-function setupGracefulShutdown(server: any, database: any): void {
+function setupGracefulShutdown(server: any, database: any, webhookService: WebhookService): void {
   const shutdown = async () => {
     logger.info('Received shutdown signal');
+    webhookService.stop();
 
     server.close(async () => {
       logger.info('HTTP server closed');
@@ -0,0 +1,162 @@
+import { Controller, Get, Post, Patch, Delete } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express'; // ^4.18.0
+import { StatusCodes } from 'http-status-codes'; // ^2.2.0
+import Logger from '../../../../shared/utils/logger.util';
+import WebhookService from '../services/webhook.service';
+import { validateWebhookCreate, validateWebhookUpdate } from '../validators/webhook.validator';
+import { validatePaginationParams } from '../../../../shared/validators/common.validator';
+
+/**
+ * Manages outbound webhooks of a project
+ */
+@Controller('projects')
+export class WebhookController {
+  private readonly logger: Logger;
+
+  constructor(private readonly webhookService: WebhookService) {
+    this.logger = Logger.getInstance('WebhookController', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * List project webhooks
+   */
+  @Get('/:id/webhooks')
+  public async listWebhooks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const webhooks = await this.webhookService.listWebhooks(req.params.id, req.user.id);
+      res.json(webhooks);
+    } catch (error) {
+      this.logger.error('Failed to list webhooks', {
+        error,
+        projectId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a webhook, returning its signing secret once
+   */
+  @Post('/:id/webhooks')
+  public async createWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateWebhookCreate(req.body);
+      const webhook = await this.webhookService.createWebhook(req.params.id, validatedData, req.user.id);
+
+      res.status(StatusCodes.CREATED).json(webhook);
+    } catch (error) {
+      this.logger.error('Failed to create webhook', {
+        error,
+        projectId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a webhook's endpoint, events or active state
+   */
+  @Patch('/:id/webhooks/:webhookId')
+  public async updateWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateWebhookUpdate(req.body);
+      const webhook = await this.webhookService.updateWebhook(
+        req.params.id,
+        req.params.webhookId,
+        validatedData,
+        req.user.id
+      );
+
+      res.json(webhook);
+    } catch (error) {
+      this.logger.error('Failed to update webhook', {
+        error,
+        projectId: req.params.id,
+        webhookId: req.params.webhookId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a webhook
+   */
+  @Delete('/:id/webhooks/:webhookId')
+  public async deleteWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.webhookService.deleteWebhook(req.params.id, req.params.webhookId, req.user.id);
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.logger.error('Failed to delete webhook', {
+        error,
+        projectId: req.params.id,
+        webhookId: req.params.webhookId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Send a test event and return the delivery outcome
+   */
+  @Post('/:id/webhooks/:webhookId/test')
+  public async sendTestEvent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const delivery = await this.webhookService.sendTestEvent(
+        req.params.id,
+        req.params.webhookId,
+        req.user.id
+      );
+
+      res.json(delivery);
+    } catch (error) {
+      this.logger.error('Failed to send webhook test event', {
+        error,
+        projectId: req.params.id,
+        webhookId: req.params.webhookId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the delivery log of a webhook
+   */
+  @Get('/:id/webhooks/:webhookId/deliveries')
+  public async getDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pagination = validatePaginationParams(req.query);
+      if (pagination.error) {
+        throw pagination.error;
+      }
+
+      const deliveries = await this.webhookService.getDeliveries(
+        req.params.id,
+        req.params.webhookId,
+        pagination.value,
+        req.user.id
+      );
+
+      res.set('Cache-Control', 'no-store');
+      res.json(deliveries);
+    } catch (error) {
+      this.logger.error('Failed to retrieve webhook deliveries', {
+        error,
+        projectId: req.params.id,
+        webhookId: req.params.webhookId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+}
+
+export default WebhookController;
\ No newline at end of file
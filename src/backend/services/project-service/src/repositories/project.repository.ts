@@ -4,6 +4,8 @@ import { Project } from '../models/project.model';
 import { IProject, ProjectStatus, ProjectMetadata, IProjectStats } from '../../../../shared/interfaces/project.interface';
 import DatabaseConnection from '../../../../shared/utils/database.util';
 import { ErrorCodes } from '../../../../shared/constants/error-codes';
+import { IWebhookEvent } from '../../../../shared/interfaces/webhook.interface';
+import { enqueueWebhookEvent } from '../../../../shared/utils/webhook.util';
 
 // Constants for repository operations
 const DEFAULT_PAGE_SIZE = 20;
@@ -219,6 +221,40 @@ export class ProjectRepository {
     }
   }
 
+  /**
+   * Counts project tasks grouped by workflow status
+   * @param projectId Project ID
+   * @returns Task counts keyed by status
+   */
+  public async countTasksByStatus(projectId: string): Promise<Record<string, number>> {
+    try {
+      const counts = await this.db('tasks')
+        .where({ projectId })
+        .select('status')
+        .groupBy('status')
+        .count('* as count');
+
+      return this.groupByField(counts, 'status');
+    } catch (error) {
+      this.logger.error('Failed to count tasks by status', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Queues an event for the project's webhook subscribers
+   * @param event Webhook event
+   * @returns Number of deliveries queued
+   */
+  public async enqueueWebhookEvent(event: IWebhookEvent): Promise<number> {
+    try {
+      return await enqueueWebhookEvent(this.db, event);
+    } catch (error) {
+      this.logger.error('Failed to queue webhook event', { error, projectId: event.projectId, type: event.type });
+      throw error;
+    }
+  }
+
   /**
    * Helper method to get task distribution stats
    * @param projectId Project ID
@@ -0,0 +1,376 @@
+import { Knex } from 'knex'; // v2.4.x
+import Logger from '../../../../shared/utils/logger.util'; // v3.8.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import {
+  IWebhookDelivery,
+  IWebhookSubscription,
+  WebhookDeliveryStatus
+} from '../../../../shared/interfaces/webhook.interface';
+
+// Constants for repository operations
+const SUBSCRIPTIONS_TABLE = 'webhook_subscriptions';
+const DELIVERIES_TABLE = 'webhook_deliveries';
+const DEFAULT_PAGE_SIZE = 20;
+
+// The signing secret is deliberately left out and only read by the dispatcher
+const SUBSCRIPTION_COLUMNS = [
+  'id',
+  'project_id as projectId',
+  'url',
+  'events',
+  'description',
+  'is_active as isActive',
+  'created_by as createdBy',
+  'created_at as createdAt',
+  'updated_at as updatedAt'
+];
+
+const DELIVERY_COLUMNS = [
+  'id',
+  'subscription_id as subscriptionId',
+  'event_id as eventId',
+  'event_type as eventType',
+  'payload',
+  'status',
+  'attempts',
+  'response_status as responseStatus',
+  'response_body as responseBody',
+  'error',
+  'duration_ms as durationMs',
+  'next_attempt_at as nextAttemptAt',
+  'delivered_at as deliveredAt',
+  'created_at as createdAt'
+];
+
+/**
+ * Delivery claimed by the dispatcher along with its subscription endpoint
+ */
+export interface IClaimedWebhookDelivery extends IWebhookDelivery {
+  url: string;
+  secret: string;
+  isActive: boolean;
+}
+
+/**
+ * Outcome of one delivery attempt
+ */
+export interface IWebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+}
+
+/**
+ * Repository class for webhook subscriptions and their delivery log
+ */
+export class WebhookRepository {
+  private readonly db: Knex;
+  private readonly logger: Logger;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+    this.logger = Logger.getInstance('WebhookRepository', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Creates a webhook subscription
+   * @param subscription Subscription data including its signing secret
+   * @returns Created subscription
+   */
+  public async create(
+    subscription: Pick<IWebhookSubscription, 'projectId' | 'url' | 'events' | 'description' | 'createdBy'> & { secret: string }
+  ): Promise<IWebhookSubscription> {
+    try {
+      const [created] = await this.db(SUBSCRIPTIONS_TABLE)
+        .insert({
+          project_id: subscription.projectId,
+          url: subscription.url,
+          secret: subscription.secret,
+          events: subscription.events,
+          description: subscription.description,
+          created_by: subscription.createdBy
+        })
+        .returning(SUBSCRIPTION_COLUMNS);
+
+      return created;
+    } catch (error) {
+      this.logger.error('Failed to create webhook subscription', { error, projectId: subscription.projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the webhook subscriptions of a project
+   * @param projectId Project ID
+   * @returns Subscriptions, newest first
+   */
+  public async findByProject(projectId: string): Promise<IWebhookSubscription[]> {
+    try {
+      return await this.db(SUBSCRIPTIONS_TABLE)
+        .where({ project_id: projectId })
+        .select(SUBSCRIPTION_COLUMNS)
+        .orderBy('created_at', 'desc');
+    } catch (error) {
+      this.logger.error('Failed to list webhook subscriptions', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the webhook subscriptions of a project
+   * @param projectId Project ID
+   * @returns Subscription count
+   */
+  public async countByProject(projectId: string): Promise<number> {
+    const result = await this.db(SUBSCRIPTIONS_TABLE)
+      .where({ project_id: projectId })
+      .count('id as count')
+      .first();
+
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Retrieves a subscription belonging to a project
+   * @param projectId Project ID
+   * @param id Subscription ID
+   * @returns Subscription or null
+   */
+  public async findById(projectId: string, id: string): Promise<IWebhookSubscription | null> {
+    try {
+      const subscription = await this.db(SUBSCRIPTIONS_TABLE)
+        .where({ id, project_id: projectId })
+        .first(SUBSCRIPTION_COLUMNS);
+
+      return subscription || null;
+    } catch (error) {
+      this.logger.error('Failed to retrieve webhook subscription', { error, webhookId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a subscription belonging to a project
+   * @param projectId Project ID
+   * @param id Subscription ID
+   * @param updateData Fields to update
+   * @returns Updated subscription or null
+   */
+  public async update(
+    projectId: string,
+    id: string,
+    updateData: Partial<Pick<IWebhookSubscription, 'url' | 'events' | 'description' | 'isActive'>>
+  ): Promise<IWebhookSubscription | null> {
+    try {
+      const [updated] = await this.db(SUBSCRIPTIONS_TABLE)
+        .where({ id, project_id: projectId })
+        .update({
+          url: updateData.url,
+          events: updateData.events,
+          description: updateData.description,
+          is_active: updateData.isActive
+        })
+        .returning(SUBSCRIPTION_COLUMNS);
+
+      return updated || null;
+    } catch (error) {
+      this.logger.error('Failed to update webhook subscription', { error, webhookId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a subscription and its delivery log
+   * @param projectId Project ID
+   * @param id Subscription ID
+   * @returns Boolean indicating success
+   */
+  public async delete(projectId: string, id: string): Promise<boolean> {
+    try {
+      const deleted = await this.db(SUBSCRIPTIONS_TABLE)
+        .where({ id, project_id: projectId })
+        .delete();
+
+      return deleted > 0;
+    } catch (error) {
+      this.logger.error('Failed to delete webhook subscription', { error, webhookId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists deliveries of a subscription with pagination
+   * @param subscriptionId Subscription ID
+   * @param page Page number
+   * @param pageSize Page size
+   * @returns Paginated delivery log, newest first
+   */
+  public async findDeliveries(
+    subscriptionId: string,
+    page: number = 1,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<{ data: IWebhookDelivery[]; total: number }> {
+    try {
+      const [deliveries, total] = await Promise.all([
+        this.db(DELIVERIES_TABLE)
+          .where({ subscription_id: subscriptionId })
+          .select(DELIVERY_COLUMNS)
+          .orderBy('created_at', 'desc')
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        this.db(DELIVERIES_TABLE)
+          .where({ subscription_id: subscriptionId })
+          .count('id as count')
+          .first()
+      ]);
+
+      return {
+        data: deliveries,
+        total: parseInt(total?.count as string) || 0
+      };
+    } catch (error) {
+      this.logger.error('Failed to list webhook deliveries', { error, subscriptionId });
+      throw error;
+    }
+  }
+
+  /**
+   * Claims deliveries that are due. Claimed rows are pushed back by the lease
+   * duration, so a dispatcher that dies mid-attempt only delays the retry.
+   * @param limit Maximum deliveries to claim
+   * @param leaseMs Lease duration in milliseconds
+   * @param now Current time
+   * @returns Claimed deliveries with their endpoints
+   */
+  public async claimDueDeliveries(
+    limit: number,
+    leaseMs: number,
+    now: Date = new Date()
+  ): Promise<IClaimedWebhookDelivery[]> {
+    return this.claim(query => query.limit(limit), leaseMs, now);
+  }
+
+  /**
+   * Claims a single due delivery, e.g. to attempt a test event inline
+   * @param id Delivery ID
+   * @param leaseMs Lease duration in milliseconds
+   * @param now Current time
+   * @returns Claimed delivery, or null when another dispatcher holds it
+   */
+  public async claimDelivery(
+    id: string,
+    leaseMs: number,
+    now: Date = new Date()
+  ): Promise<IClaimedWebhookDelivery | null> {
+    const [claimed] = await this.claim(query => query.where('d.id', id), leaseMs, now);
+    return claimed || null;
+  }
+
+  /**
+   * Records the outcome of a delivery attempt
+   * @param id Delivery ID
+   * @param result Attempt outcome
+   */
+  public async recordAttempt(id: string, result: IWebhookAttemptResult): Promise<void> {
+    try {
+      await this.db(DELIVERIES_TABLE)
+        .where({ id })
+        .update({
+          status: result.status,
+          attempts: result.attempts,
+          response_status: result.responseStatus,
+          response_body: result.responseBody,
+          error: result.error,
+          duration_ms: result.durationMs,
+          next_attempt_at: result.nextAttemptAt,
+          delivered_at: result.deliveredAt
+        });
+    } catch (error) {
+      this.logger.error('Failed to record webhook delivery attempt', { error, deliveryId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Queues a delivery of an event to a single subscription, e.g. a test event
+   * @param delivery Delivery to queue
+   * @returns Queued delivery
+   */
+  public async createDelivery(
+    delivery: Pick<IWebhookDelivery, 'subscriptionId' | 'eventId' | 'eventType' | 'payload'>
+  ): Promise<IWebhookDelivery> {
+    try {
+      const [created] = await this.db(DELIVERIES_TABLE)
+        .insert({
+          subscription_id: delivery.subscriptionId,
+          event_id: delivery.eventId,
+          event_type: delivery.eventType,
+          payload: JSON.stringify(delivery.payload),
+          status: WebhookDeliveryStatus.PENDING,
+          next_attempt_at: new Date()
+        })
+        .returning(DELIVERY_COLUMNS);
+
+      return created;
+    } catch (error) {
+      this.logger.error('Failed to queue webhook delivery', { error, subscriptionId: delivery.subscriptionId });
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method to lock due deliveries and push them back by the lease
+   * @param scope Narrows the due deliveries to claim
+   * @param leaseMs Lease duration in milliseconds
+   * @param now Current time
+   * @returns Claimed deliveries with their endpoints
+   */
+  private async claim(
+    scope: (query: Knex.QueryBuilder) => Knex.QueryBuilder,
+    leaseMs: number,
+    now: Date
+  ): Promise<IClaimedWebhookDelivery[]> {
+    const trx = await this.db.transaction();
+
+    try {
+      const due = await scope(
+        trx(`${DELIVERIES_TABLE} as d`)
+          .join(`${SUBSCRIPTIONS_TABLE} as s`, 's.id', 'd.subscription_id')
+          .whereIn('d.status', [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.RETRYING])
+          .andWhere('d.next_attempt_at', '<=', now)
+          .orderBy('d.next_attempt_at', 'asc')
+      )
+        .forUpdate('d')
+        .skipLocked()
+        .select(
+          ...DELIVERY_COLUMNS.map(column => `d.${column}`),
+          's.url',
+          's.secret',
+          's.is_active as isActive'
+        );
+
+      if (due.length > 0) {
+        await trx(DELIVERIES_TABLE)
+          .whereIn('id', due.map(delivery => delivery.id))
+          .update({ next_attempt_at: new Date(now.getTime() + leaseMs) });
+      }
+
+      await trx.commit();
+      return due;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to claim webhook deliveries', { error });
+      throw error;
+    }
+  }
+}
+
+export default WebhookRepository;
\ No newline at end of file
@@ -4,9 +4,20 @@ import Redis from 'ioredis'; // v5.0.0
 import Logger from '../../../../shared/utils/logger.util'; // v3.8.0
 import ProjectRepository from '../repositories/project.repository';
 import NotificationService from '../../notification-service/src/services/notification.service';
-import { IProject, ProjectStatus, ProjectMetadata } from '../../../../shared/interfaces/project.interface';
+import {
+  IProject,
+  ProjectStatus,
+  ProjectMetadata,
+  ProjectSettings,
+  ProjectWorkflow
+} from '../../../../shared/interfaces/project.interface';
+import { DEFAULT_TASK_WORKFLOW, validateWorkflowDefinition } from '../../../../shared/utils/workflow.util';
 import { NotificationType, NotificationPriority } from '../../../../shared/interfaces/notification.interface';
 import { ErrorCodes } from '../../../../shared/constants/error-codes';
+import { WebhookEventType } from '../../../../shared/interfaces/webhook.interface';
+import { createWebhookEvent } from '../../../../shared/utils/webhook.util';
+import { RealtimeEventType, RealtimeRoomType } from '../../../../shared/interfaces/realtime.interface';
+import { publishRealtimeEvent, realtimeRoom } from '../../../../shared/utils/realtime.util';
 
 // Constants for service configuration
 const CACHE_TTL = 3600; // 1 hour
@@ -52,11 +63,15 @@ export class ProjectService {
       // Validate team project limit
       await this.validateTeamProjectLimit(projectData.teamId);
 
+      const workflow = projectData.settings?.workflow || DEFAULT_TASK_WORKFLOW;
+      this.validateWorkflow(workflow);
+
       // Create project with transaction support
       const project = await this.projectRepository.create({
         ...projectData,
         ownerId: userId,
         status: ProjectStatus.PLANNING,
+        settings: { ...projectData.settings, workflow } as ProjectSettings,
         metadata: this.initializeProjectMetadata(projectData.metadata)
       });
 
@@ -115,9 +130,20 @@ export class ProjectService {
       // Validate update permissions
       await this.validateProjectAccess(currentProject, userId);
 
+      // Workflow changes must be well formed and keep every status still in use
+      const workflow = updateData.settings?.workflow;
+      if (workflow) {
+        this.validateWorkflow(workflow);
+        await this.validateWorkflowStatusesInUse(projectId, workflow);
+      }
+
       // Update project
       const updatedProject = await this.projectRepository.update(projectId, {
         ...updateData,
+        settings: {
+          ...currentProject.settings,
+          ...updateData.settings
+        },
         metadata: {
           ...currentProject.metadata,
           ...updateData.metadata
@@ -126,6 +152,11 @@ export class ProjectService {
 
       // Update cache
       await this.cacheProjectData(updatedProject);
+      if (workflow) {
+        await this.redisClient.del(`${PROJECT_CACHE_PREFIX}${projectId}:workflow`);
+      }
+
+      const changes = this.getProjectChanges(currentProject, updatedProject);
 
       // Send update notification
       await this.circuitBreaker.fire({
@@ -138,10 +169,13 @@ export class ProjectService {
         metadata: {
           projectId: updatedProject.id,
           projectName: updatedProject.name,
-          changes: this.getProjectChanges(currentProject, updatedProject)
+          changes
         }
       });
 
+      await this.publishWebhookEvents(updatedProject, changes, userId);
+      await this.publishRealtimeUpdate(updatedProject, changes);
+
       return updatedProject;
     } catch (error) {
       this.logger.error('Failed to update project', {
@@ -227,6 +261,36 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Helper method to validate a workflow definition
+   */
+  private validateWorkflow(workflow: ProjectWorkflow): void {
+    const { isValid, errors } = validateWorkflowDefinition(workflow);
+    if (!isValid) {
+      this.logger.warn('Rejected invalid project workflow', { errors });
+      throw new Error(ErrorCodes.INVALID_WORKFLOW_DEFINITION.toString());
+    }
+  }
+
+  /**
+   * Helper method to ensure no status with existing tasks is removed from the workflow
+   */
+  private async validateWorkflowStatusesInUse(
+    projectId: string,
+    workflow: ProjectWorkflow
+  ): Promise<void> {
+    const taskCounts = await this.projectRepository.countTasksByStatus(projectId);
+    const statusKeys = new Set(workflow.statuses.map(status => status.key));
+    const orphaned = Object.keys(taskCounts).filter(
+      status => (taskCounts[status] ?? 0) > 0 && !statusKeys.has(status)
+    );
+
+    if (orphaned.length > 0) {
+      this.logger.warn('Workflow update would orphan tasks', { projectId, orphaned });
+      throw new Error(ErrorCodes.INVALID_WORKFLOW_DEFINITION.toString());
+    }
+  }
+
   /**
    * Helper method to initialize project metadata
    */
@@ -269,6 +333,58 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Helper method to queue webhook events for a project update; a queueing
+   * failure must not fail an update that is already saved
+   */
+  private async publishWebhookEvents(
+    project: IProject,
+    changes: Record<string, { old: any; new: any }>,
+    userId: string
+  ): Promise<void> {
+    const types = [WebhookEventType.PROJECT_UPDATED];
+    if (changes.status) {
+      types.push(WebhookEventType.PROJECT_STATUS_CHANGED);
+    }
+    if (changes.settings) {
+      types.push(WebhookEventType.PROJECT_SETTINGS_UPDATED);
+    }
+
+    try {
+      for (const type of types) {
+        await this.projectRepository.enqueueWebhookEvent(
+          createWebhookEvent(type, project.id, { project, changes }, userId)
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to publish project webhook events', { error, projectId: project.id });
+    }
+  }
+
+  /**
+   * Helper method to push the new values of changed fields to clients in the
+   * project's room; failures are logged for the same reason as webhook events
+   */
+  private async publishRealtimeUpdate(
+    project: IProject,
+    changes: Record<string, { old: any; new: any }>
+  ): Promise<void> {
+    try {
+      await publishRealtimeEvent(
+        this.redisClient,
+        realtimeRoom(RealtimeRoomType.PROJECT, project.id),
+        RealtimeEventType.PROJECT_UPDATED,
+        {
+          projectId: project.id,
+          changes: Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.new])),
+          timestamp: new Date().toISOString()
+        }
+      );
+    } catch (error) {
+      this.logger.error('Failed to publish project realtime event', { error, projectId: project.id });
+    }
+  }
+
   /**
    * Helper method to get project changes for notifications
    */
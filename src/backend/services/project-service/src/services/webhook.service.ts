@@ -0,0 +1,362 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import Logger from '../../../../shared/utils/logger.util'; // v3.8.0
+import ProjectRepository from '../repositories/project.repository';
+import WebhookRepository, { IClaimedWebhookDelivery } from '../repositories/webhook.repository';
+import {
+  IWebhookDelivery,
+  IWebhookSubscription,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../../../../shared/interfaces/webhook.interface';
+import { IProject } from '../../../../shared/interfaces/project.interface';
+import {
+  createWebhookEvent,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from '../../../../shared/utils/webhook.util';
+import { hasPublicHost } from '../../../../shared/utils/network.util';
+import { ErrorCodes } from '../../../../shared/constants/error-codes';
+
+// Constants for webhook delivery
+const MAX_WEBHOOKS_PER_PROJECT = 10;
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+const REQUEST_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '10000', 10);
+const ALLOW_INSECURE_URLS = process.env.WEBHOOK_ALLOW_INSECURE_URLS === 'true';
+const RETRY_BASE_DELAY = 30 * 1000; // 30 seconds, doubled after every failure
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000; // 6 hours
+const POLL_INTERVAL = 5000;
+const BATCH_SIZE = 20;
+const LEASE_DURATION = REQUEST_TIMEOUT * 2;
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+const SECRET_BYTES = 32;
+const USER_AGENT = 'TaskManagement-Webhooks/1.0';
+
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger: Logger;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly projectRepository: ProjectRepository
+  ) {
+    this.logger = Logger.getInstance('WebhookService', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  public onModuleInit(): void {
+    this.start();
+  }
+
+  public onModuleDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Starts dispatching queued deliveries
+   */
+  public start(interval: number = POLL_INTERVAL): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.processDueDeliveries().catch(error =>
+        this.logger.error('Failed to process webhook deliveries', { error })
+      );
+    }, interval);
+    this.pollTimer.unref();
+  }
+
+  /**
+   * Stops dispatching queued deliveries
+   */
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Lists the webhooks of a project
+   */
+  public async listWebhooks(projectId: string, userId: string): Promise<IWebhookSubscription[]> {
+    await this.getProject(projectId, userId);
+    return this.webhookRepository.findByProject(projectId);
+  }
+
+  /**
+   * Creates a webhook. The generated signing secret is only returned here.
+   */
+  public async createWebhook(
+    projectId: string,
+    data: Pick<IWebhookSubscription, 'url' | 'events'> & { description?: string },
+    userId: string
+  ): Promise<IWebhookSubscription> {
+    try {
+      await this.validateOwnerAccess(projectId, userId);
+      await this.validateWebhookUrl(data.url);
+
+      if (await this.webhookRepository.countByProject(projectId) >= MAX_WEBHOOKS_PER_PROJECT) {
+        throw new Error(`Project has reached maximum webhook limit of ${MAX_WEBHOOKS_PER_PROJECT}`);
+      }
+
+      const secret = randomBytes(SECRET_BYTES).toString('hex');
+      const webhook = await this.webhookRepository.create({
+        projectId,
+        url: data.url,
+        events: data.events,
+        description: data.description || null,
+        createdBy: userId,
+        secret
+      });
+
+      this.logger.info('Webhook created', { projectId, webhookId: webhook.id, userId });
+      return { ...webhook, secret };
+    } catch (error) {
+      this.logger.error('Failed to create webhook', { error, projectId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a webhook's endpoint, event filter or active state
+   */
+  public async updateWebhook(
+    projectId: string,
+    webhookId: string,
+    data: Partial<Pick<IWebhookSubscription, 'url' | 'events' | 'description' | 'isActive'>>,
+    userId: string
+  ): Promise<IWebhookSubscription> {
+    try {
+      await this.validateOwnerAccess(projectId, userId);
+      if (data.url) {
+        await this.validateWebhookUrl(data.url);
+      }
+
+      const webhook = await this.webhookRepository.update(projectId, webhookId, data);
+      if (!webhook) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      this.logger.info('Webhook updated', { projectId, webhookId, userId });
+      return webhook;
+    } catch (error) {
+      this.logger.error('Failed to update webhook', { error, projectId, webhookId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a webhook along with its delivery log
+   */
+  public async deleteWebhook(projectId: string, webhookId: string, userId: string): Promise<void> {
+    await this.validateOwnerAccess(projectId, userId);
+
+    if (!await this.webhookRepository.delete(projectId, webhookId)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    this.logger.info('Webhook deleted', { projectId, webhookId, userId });
+  }
+
+  /**
+   * Sends a test event straight away and returns the logged delivery
+   */
+  public async sendTestEvent(projectId: string, webhookId: string, userId: string): Promise<IWebhookDelivery> {
+    await this.validateOwnerAccess(projectId, userId);
+
+    const webhook = await this.getWebhook(projectId, webhookId);
+    const event = createWebhookEvent(WebhookEventType.WEBHOOK_TEST, projectId, {
+      webhookId,
+      message: 'This is a test event'
+    }, userId);
+
+    const delivery = await this.webhookRepository.createDelivery({
+      subscriptionId: webhook.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: event
+    });
+
+    // Attempted inline so the caller sees the result; failures follow the normal retry schedule
+    const claimed = await this.webhookRepository.claimDelivery(delivery.id, LEASE_DURATION);
+
+    return claimed ? this.attemptDelivery(claimed) : delivery;
+  }
+
+  /**
+   * Lists the delivery log of a webhook
+   */
+  public async getDeliveries(
+    projectId: string,
+    webhookId: string,
+    pagination: { page: number; pageSize: number },
+    userId: string
+  ): Promise<{ data: IWebhookDelivery[]; total: number }> {
+    await this.getProject(projectId, userId);
+    await this.getWebhook(projectId, webhookId);
+
+    return this.webhookRepository.findDeliveries(webhookId, pagination.page, pagination.pageSize);
+  }
+
+  /**
+   * Attempts every delivery that is due, returning how many were attempted
+   */
+  public async processDueDeliveries(now: Date = new Date()): Promise<number> {
+    const deliveries = await this.webhookRepository.claimDueDeliveries(
+      BATCH_SIZE,
+      LEASE_DURATION,
+      now
+    );
+
+    for (const delivery of deliveries) {
+      await this.attemptDelivery(delivery);
+    }
+
+    return deliveries.length;
+  }
+
+  /**
+   * Posts a signed delivery and records the outcome, scheduling a retry with
+   * exponential backoff until the attempts run out
+   */
+  private async attemptDelivery(delivery: IClaimedWebhookDelivery): Promise<IWebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    if (!delivery.isActive) {
+      error = 'Webhook is disabled';
+    } else {
+      try {
+        await this.validateWebhookUrl(delivery.url);
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(startedAt / 1000);
+        const response = await fetch(delivery.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': USER_AGENT,
+            [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+            [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.secret, timestamp, body)
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+        });
+
+        responseStatus = response.status;
+        responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+        if (!response.ok) {
+          error = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : String(requestError);
+      }
+    }
+
+    const succeeded = error === null;
+    const canRetry = !succeeded && delivery.isActive && attempts < MAX_ATTEMPTS;
+    const result = {
+      status: succeeded
+        ? WebhookDeliveryStatus.SUCCEEDED
+        : canRetry ? WebhookDeliveryStatus.RETRYING : WebhookDeliveryStatus.FAILED,
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt,
+      nextAttemptAt: canRetry ? new Date(Date.now() + getRetryDelay(attempts)) : null,
+      deliveredAt: succeeded ? new Date() : null
+    };
+
+    await this.webhookRepository.recordAttempt(delivery.id, result);
+
+    if (!succeeded) {
+      this.logger.warn('Webhook delivery attempt failed', {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        attempts,
+        error
+      });
+    }
+
+    const { url, secret, isActive, ...logged } = delivery;
+    return { ...logged, ...result };
+  }
+
+  /**
+   * Helper method to load a webhook of a project
+   */
+  private async getWebhook(projectId: string, webhookId: string): Promise<IWebhookSubscription> {
+    const webhook = await this.webhookRepository.findById(projectId, webhookId);
+    if (!webhook) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+    return webhook;
+  }
+
+  /**
+   * Helper method to load a project the user owns or is a member of
+   */
+  private async getProject(projectId: string, userId: string): Promise<IProject> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    if (project.ownerId !== userId && !project.memberIds.includes(userId)) {
+      throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    }
+    return project;
+  }
+
+  /**
+   * Helper method to ensure only the project owner manages webhooks
+   */
+  private async validateOwnerAccess(projectId: string, userId: string): Promise<void> {
+    const project = await this.getProject(projectId, userId);
+    if (project.ownerId !== userId) {
+      throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    }
+  }
+
+  /**
+   * Helper method to reject webhook URLs that are not public HTTPS endpoints.
+   * Hostnames are resolved so a public name cannot point at an internal service.
+   */
+  private async validateWebhookUrl(value: string): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new Error(ErrorCodes.INVALID_WEBHOOK_URL.toString());
+    }
+
+    if (ALLOW_INSECURE_URLS) {
+      return;
+    }
+
+    if (url.protocol !== 'https:' || url.username || url.password || !(await hasPublicHost(url))) {
+      throw new Error(ErrorCodes.INVALID_WEBHOOK_URL.toString());
+    }
+  }
+}
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY * Math.pow(2, attempts - 1), RETRY_MAX_DELAY);
+
+export default WebhookService;
\ No newline at end of file
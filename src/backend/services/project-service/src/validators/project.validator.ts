@@ -8,7 +8,12 @@
 import Joi from 'joi'; // v17.9.0
 import { validateUUID } from '../../../../shared/utils/validation.util';
 import { validateDateRange } from '../../../../shared/validators/common.validator';
-import { ProjectStatus, IProject } from '../../../../shared/interfaces/project.interface';
+import {
+  ProjectStatus,
+  IProject,
+  WorkflowStatusCategory,
+  WorkflowTransitionGuard
+} from '../../../../shared/interfaces/project.interface';
 
 // Validation Constants
 const PROJECT_NAME_MIN_LENGTH = 3;
@@ -17,6 +22,8 @@ const PROJECT_DESCRIPTION_MAX_LENGTH = 1000;
 const MAX_TEAM_MEMBERS = 100;
 const VALIDATION_CACHE_TTL = 300;
 const MAX_VALIDATION_RETRIES = 3;
+const MAX_WORKFLOW_STATUSES = 20;
+const WORKFLOW_STATUS_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,49}$/;
 
 // Status Transition Rules
 const ALLOWED_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
@@ -27,6 +34,36 @@ const ALLOWED_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
   [ProjectStatus.ARCHIVED]: []
 };
 
+// Joi Schema for a project task workflow definition
+const workflowSchema = Joi.object({
+  initialStatus: Joi.string().pattern(WORKFLOW_STATUS_KEY_PATTERN).required(),
+  statuses: Joi.array()
+    .items(Joi.object({
+      key: Joi.string().pattern(WORKFLOW_STATUS_KEY_PATTERN).required(),
+      name: Joi.string().trim().min(1).max(50).required(),
+      category: Joi.string().valid(...Object.values(WorkflowStatusCategory)).required(),
+      color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/),
+      order: Joi.number().integer().min(0).required()
+    }))
+    .min(1)
+    .max(MAX_WORKFLOW_STATUSES)
+    .unique('key')
+    .required(),
+  transitions: Joi.array()
+    .items(Joi.object({
+      from: Joi.string().pattern(WORKFLOW_STATUS_KEY_PATTERN).required(),
+      to: Joi.string().pattern(WORKFLOW_STATUS_KEY_PATTERN).required(),
+      guards: Joi.array()
+        .items(Joi.string().valid(...Object.values(WorkflowTransitionGuard)))
+        .unique()
+    }))
+    .required()
+}).messages({
+  'array.max': `Workflow cannot exceed ${MAX_WORKFLOW_STATUSES} statuses`,
+  'array.unique': 'Workflow status keys must be unique',
+  'string.pattern.base': 'Invalid workflow status key'
+});
+
 // Enhanced Joi Schema for Project Creation
 export const projectCreateSchema = Joi.object({
   name: Joi.string()
@@ -97,7 +134,11 @@ export const projectCreateSchema = Joi.object({
     .messages({
       'date.base': 'Invalid end date format',
       'date.greater': 'End date must be after start date'
-    })
+    }),
+
+  settings: Joi.object({
+    workflow: workflowSchema
+  }).unknown(true)
 }).options({ abortEarly: false, stripUnknown: true });
 
 // Enhanced Joi Schema for Project Updates
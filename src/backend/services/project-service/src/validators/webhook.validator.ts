@@ -0,0 +1,75 @@
+/**
+ * Webhook Validation Module
+ * Version: 1.0.0
+ * Validation schemas for project webhook subscriptions
+ */
+
+import Joi from 'joi'; // v17.9.0
+import { WebhookEventType } from '../../../../shared/interfaces/webhook.interface';
+
+// Validation Constants
+const WEBHOOK_URL_MAX_LENGTH = 2048;
+const WEBHOOK_DESCRIPTION_MAX_LENGTH = 255;
+
+// Test events are sent on request and cannot be subscribed to
+export const SUBSCRIBABLE_WEBHOOK_EVENTS = Object.values(WebhookEventType)
+  .filter(type => type !== WebhookEventType.WEBHOOK_TEST);
+
+// Joi Schema for Webhook Creation
+export const webhookCreateSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ['https', 'http'] })
+    .max(WEBHOOK_URL_MAX_LENGTH)
+    .required()
+    .messages({
+      'string.uri': 'Webhook URL must be a valid URL',
+      'string.max': `Webhook URL cannot exceed ${WEBHOOK_URL_MAX_LENGTH} characters`
+    }),
+
+  events: Joi.array()
+    .items(Joi.string().valid(...SUBSCRIBABLE_WEBHOOK_EVENTS))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': 'Unknown webhook event type',
+      'array.min': 'Select at least one event'
+    }),
+
+  description: Joi.string()
+    .trim()
+    .max(WEBHOOK_DESCRIPTION_MAX_LENGTH)
+    .allow('')
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Webhook Updates
+export const webhookUpdateSchema = webhookCreateSchema
+  .fork(['url', 'events'], (schema) => schema.optional())
+  .keys({ isActive: Joi.boolean() })
+  .min(1);
+
+/**
+ * Validates webhook creation data
+ * @param data - Webhook subscription data
+ * @returns Validated data
+ */
+export const validateWebhookCreate = async (data: unknown) => {
+  try {
+    return await webhookCreateSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Webhook validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates webhook update data
+ * @param data - Partial webhook subscription data
+ * @returns Validated data
+ */
+export const validateWebhookUpdate = async (data: unknown) => {
+  try {
+    return await webhookUpdateSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Webhook update validation failed: ${error.message}`);
+  }
+};
\ No newline at end of file
@@ -8,6 +8,9 @@ import { ErrorCodes } from '../../../shared/constants/error-codes';
 import { HttpStatusCodes } from '../../../shared/constants/status-codes';
 import { ProjectStatus } from '../../../shared/interfaces/project.interface';
 import { DatabaseConnection } from '../../../shared/utils/database.util';
+import { signWebhookPayload, verifyWebhookSignature } from '../../../shared/utils/webhook.util';
+import { WebhookEventType } from '../../../shared/interfaces/webhook.interface';
+import { getRetryDelay } from '../src/services/webhook.service';
 import Logger from '../../../shared/utils/logger.util';
 
 // Test constants
@@ -330,6 +333,85 @@ describe('Project Service API Tests', () => {
     });
   });
 
+  describe('Webhook Tests', () => {
+    let testProject: any;
+    const TEST_WEBHOOK = {
+      url: 'https://example.com/hooks/tasks',
+      events: [WebhookEventType.TASK_CREATED, WebhookEventType.TASK_STATUS_CHANGED],
+      description: 'CI pipeline'
+    };
+
+    beforeEach(async () => {
+      const response = await request
+        .post(API_BASE_PATH)
+        .set('Authorization', AUTH_TOKEN)
+        .send(TEST_PROJECT);
+      testProject = response.body;
+    });
+
+    test('should return the signing secret only on creation', async () => {
+      const created = await request
+        .post(`${API_BASE_PATH}/${testProject.id}/webhooks`)
+        .set('Authorization', AUTH_TOKEN)
+        .send(TEST_WEBHOOK)
+        .expect(HttpStatusCodes.CREATED);
+
+      expect(created.body).toMatchObject({
+        url: TEST_WEBHOOK.url,
+        events: TEST_WEBHOOK.events,
+        isActive: true
+      });
+      expect(created.body.secret).toMatch(/^[0-9a-f]{64}$/);
+
+      const list = await request
+        .get(`${API_BASE_PATH}/${testProject.id}/webhooks`)
+        .set('Authorization', AUTH_TOKEN)
+        .expect(HttpStatusCodes.OK);
+
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0].secret).toBeUndefined();
+    });
+
+    test('should reject webhook URLs that are not public HTTPS endpoints', async () => {
+      for (const url of ['http://example.com/hooks', 'https://127.0.0.1/hooks', 'https://169.254.169.254/latest']) {
+        const response = await request
+          .post(`${API_BASE_PATH}/${testProject.id}/webhooks`)
+          .set('Authorization', AUTH_TOKEN)
+          .send({ ...TEST_WEBHOOK, url })
+          .expect(HttpStatusCodes.BAD_REQUEST);
+
+        expect(response.body.code).toBe(ErrorCodes.INVALID_WEBHOOK_URL);
+      }
+    });
+
+    test('should reject subscriptions to unknown events', async () => {
+      await request
+        .post(`${API_BASE_PATH}/${testProject.id}/webhooks`)
+        .set('Authorization', AUTH_TOKEN)
+        .send({ ...TEST_WEBHOOK, events: [WebhookEventType.WEBHOOK_TEST] })
+        .expect(HttpStatusCodes.BAD_REQUEST);
+    });
+
+    test('should sign payloads so tampering is detected', () => {
+      const body = JSON.stringify({ id: 'event-1', type: WebhookEventType.TASK_CREATED });
+      const timestamp = 1704067200;
+      const signature = signWebhookPayload('secret', timestamp, body);
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature('secret', timestamp, body, signature)).toBe(true);
+      expect(verifyWebhookSignature('secret', timestamp + 1, body, signature)).toBe(false);
+      expect(verifyWebhookSignature('secret', timestamp, `${body} `, signature)).toBe(false);
+      expect(verifyWebhookSignature('other-secret', timestamp, body, signature)).toBe(false);
+    });
+
+    test('should back off exponentially between delivery attempts', () => {
+      expect(getRetryDelay(1)).toBe(30 * 1000);
+      expect(getRetryDelay(2)).toBe(60 * 1000);
+      expect(getRetryDelay(5)).toBe(8 * 60 * 1000);
+      expect(getRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
   describe('Security Tests', () => {
     test('should enforce authentication', async () => {
       await request
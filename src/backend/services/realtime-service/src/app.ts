@@ -0,0 +1,142 @@
+/**
+ * Realtime Service Entry Point
+ * Version: 1.0.0
+ * Socket.IO server for web clients: authenticates sockets with the access
+ * token, joins them to the project, task and team rooms they may see, and
+ * fans out events other services publish to Redis.
+ */
+
+import express, { Express, Request, Response } from 'express'; // ^4.18.0
+import { createServer } from 'http';
+import helmet from 'helmet'; // ^7.0.0
+import Redis from 'ioredis'; // ^5.3.0
+import { Server } from 'socket.io'; // ^4.6.1
+import Logger from '../../../shared/utils/logger.util';
+import { RealtimeGateway } from './gateways/realtime.gateway';
+import { RealtimeService } from './services/realtime.service';
+import { RoomAccessRepository } from './repositories/room-access.repository';
+import { realtimeConfig } from './config/realtime.config';
+import { db } from './config/database.config';
+import { HttpStatusCodes } from '../../../shared/constants/status-codes';
+import { REALTIME_CHANNEL_PATTERN } from '../../../shared/utils/realtime.util';
+
+// Environment constants
+const PORT = process.env.PORT || 3006;
+const API_VERSION = 'v1';
+
+// Initialize logger
+const logger = Logger.getInstance('RealtimeService', {
+  enableConsole: true,
+  enableFile: true
+});
+
+/**
+ * Initialize the Express application serving health checks
+ */
+function initializeApp(): Express {
+  const app = express();
+
+  app.use(helmet({
+    crossOriginResourcePolicy: { policy: "same-site" },
+    frameguard: { action: 'deny' },
+    hidePoweredBy: true,
+    noSniff: true
+  }));
+
+  // Health check endpoint
+  app.get('/health', (_req: Request, res: Response) => {
+    res.status(HttpStatusCodes.OK).json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      version: API_VERSION
+    });
+  });
+
+  app.use((_req: Request, res: Response) => {
+    res.status(HttpStatusCodes.NOT_FOUND).json({
+      status: 'error',
+      message: 'Resource not found'
+    });
+  });
+
+  return app;
+}
+
+/**
+ * Start the socket server once the database and Redis are reachable
+ */
+async function startServer(app: Express): Promise<void> {
+  try {
+    await db.connect();
+    logger.info('Database connection established');
+
+    // Subscribed connections cannot run other commands, so replay reads use a second one
+    const redisClient = new Redis(realtimeConfig.redisUrl, { maxRetriesPerRequest: 3 });
+    const subscriber = redisClient.duplicate();
+    redisClient.on('error', (error) => logger.error('Redis connection error', { error }));
+    subscriber.on('error', (error) => logger.error('Redis subscriber error', { error }));
+
+    const server = createServer(app);
+    const io = new Server(server, {
+      path: realtimeConfig.socketPath,
+      cors: {
+        origin: realtimeConfig.allowedOrigins,
+        credentials: true
+      }
+    });
+
+    const gateway = new RealtimeGateway(io, new RealtimeService(new RoomAccessRepository(), redisClient));
+    gateway.attach();
+
+    await subscriber.psubscribe(REALTIME_CHANNEL_PATTERN);
+    subscriber.on('pmessage', (_pattern: string, channel: string, message: string) => {
+      gateway.broadcast(channel, message);
+    });
+    logger.info('Subscribed to realtime events');
+
+    server.listen(PORT, () => {
+      logger.info(`Realtime service listening on port ${PORT}`);
+    });
+
+    setupGracefulShutdown(io, [subscriber, redisClient]);
+  } catch (error) {
+    logger.error('Failed to start server:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Configure graceful shutdown handlers
+ */
+function setupGracefulShutdown(io: Server, redisClients: Redis[]): void {
+  const shutdown = async () => {
+    logger.info('Received shutdown signal');
+
+    // Closing the socket server also closes the HTTP server
+    io.close(async () => {
+      logger.info('Socket server closed');
+
+      try {
+        await Promise.all(redisClients.map(client => client.quit()));
+        await db.disconnect();
+        logger.info('Redis and database connections closed');
+        process.exit(0);
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      }
+    });
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+// Initialize and start the application
+const app = initializeApp();
+startServer(app).catch(error => {
+  logger.error('Startup error:', error);
+  process.exit(1);
+});
+
+export default app;
\ No newline at end of file
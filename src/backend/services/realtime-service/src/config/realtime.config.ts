@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Realtime service configuration: socket authentication, the
+ * Redis connection events arrive on, and limits on rooms and replay.
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // v16.x
+
+// Load environment variables
+config();
+
+export const realtimeConfig = {
+  // Public key the auth service's RS256 access tokens are verified with
+  jwtSecret: process.env.JWT_SECRET!,
+
+  redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+
+  socketPath: process.env.REALTIME_SOCKET_PATH || '/realtime',
+  allowedOrigins: [process.env.FRONTEND_URL, process.env.ADMIN_URL].filter(Boolean) as string[],
+
+  // Rooms a single socket may be subscribed to, besides its own user room
+  maxRoomsPerSocket: parseInt(process.env.REALTIME_MAX_ROOMS || '50', 10),
+
+  // Seconds between checks that a socket's user still has access to the
+  // rooms it joined, so removed members stop receiving their events
+  accessRecheckInterval: parseInt(process.env.REALTIME_ACCESS_RECHECK_INTERVAL || '60', 10),
+
+  // Missed events replayed on resume; beyond this the client should refetch.
+  // Kept well below the events Redis retains per room, so a gap left by
+  // trimming always comes back as truncated
+  maxReplayEvents: parseInt(process.env.REALTIME_MAX_REPLAY || '200', 10)
+};
+
+export default realtimeConfig;
\ No newline at end of file
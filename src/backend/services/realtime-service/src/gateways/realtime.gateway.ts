@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Socket.IO gateway: authenticates connections, handles room
+ * subscriptions and fans out events published to Redis.
+ * @version 1.0.0
+ */
+
+import { Server, Socket } from 'socket.io'; // v4.6.x
+import Logger from '../../../../shared/utils/logger.util';
+import { RealtimeService, RealtimeUser } from '../services/realtime.service';
+import { realtimeConfig } from '../config/realtime.config';
+import { ErrorCodes, ErrorMessages } from '../../../../shared/constants/error-codes';
+import {
+  IRealtimeEvent,
+  IRealtimeSubscription,
+  IRealtimeSubscriptionAck,
+  RealtimeEventType,
+  RealtimeRoomType
+} from '../../../../shared/interfaces/realtime.interface';
+import { ITeamRealtimeUpdate, TeamAuditAction } from '../../../../shared/interfaces/team.interface';
+import { isRealtimeEventId, realtimeRoom, roomFromChannel } from '../../../../shared/utils/realtime.util';
+
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // Longest delay setTimeout accepts
+
+type Ack = (response: IRealtimeSubscriptionAck) => void;
+
+/**
+ * Turns a thrown error code into a message safe to send to the client
+ */
+const toClientError = (error: Error): string =>
+  ErrorMessages[Number(error.message) as ErrorCodes] || 'Request could not be completed';
+
+export class RealtimeGateway {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly io: Server,
+    private readonly realtimeService: RealtimeService
+  ) {
+    this.logger = Logger.getInstance('RealtimeGateway', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Registers the handshake check and connection handlers
+   */
+  public attach(): void {
+    this.io.use((socket, next) => {
+      try {
+        socket.data.user = this.realtimeService.authenticate(this.getToken(socket));
+        next();
+      } catch (error) {
+        next(new Error(toClientError(error)));
+      }
+    });
+
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Emits an event received on a Redis channel to its room
+   * @param channel Channel the event was published on
+   * @param message Serialized event
+   */
+  public broadcast(channel: string, message: string): void {
+    const room = roomFromChannel(channel);
+    if (!room) return;
+
+    try {
+      const event: IRealtimeEvent = JSON.parse(message);
+      this.io.to(room).emit(event.type, event.payload, { id: event.id, room });
+
+      if (event.type === RealtimeEventType.TEAM_UPDATED) {
+        this.applyTeamUpdate(room, event.payload as ITeamRealtimeUpdate);
+      }
+    } catch (error) {
+      this.logger.error('Dropped malformed realtime event', { error, channel });
+    }
+  }
+
+  /**
+   * Takes sockets out of a team room once they no longer belong in it, right
+   * after they received the event saying so
+   */
+  private applyTeamUpdate(room: string, update: ITeamRealtimeUpdate): void {
+    if (update.action === TeamAuditAction.TEAM_DELETED) {
+      this.io.in(room).socketsLeave(room);
+    } else if (update.action === TeamAuditAction.MEMBER_REMOVED && update.memberId) {
+      this.io.in(realtimeRoom(RealtimeRoomType.USER, update.memberId)).socketsLeave(room);
+    }
+  }
+
+  /**
+   * Joins the user's own room, replays what it missed and listens for
+   * subscriptions. Access to joined rooms is checked again periodically, and
+   * the socket is closed when its token expires, so the client reconnects
+   * with a fresh one.
+   */
+  private async handleConnection(socket: Socket): Promise<void> {
+    const user: RealtimeUser = socket.data.user;
+    const userRoom = this.realtimeService.userRoom(user);
+
+    const expiry = setTimeout(
+      () => socket.disconnect(true),
+      Math.min(Math.max(user.expiresAt - Date.now(), 0), MAX_TIMER_DELAY)
+    );
+
+    socket.on('subscribe', (subscription: IRealtimeSubscription, ack?: Ack) =>
+      this.handleSubscribe(socket, user, subscription, ack));
+    socket.on('unsubscribe', (subscription: IRealtimeSubscription, ack?: Ack) =>
+      this.handleUnsubscribe(socket, subscription, ack));
+    const recheck = setInterval(
+      () => this.recheckRooms(socket, user, userRoom),
+      realtimeConfig.accessRecheckInterval * 1000
+    );
+
+    socket.on('disconnect', () => {
+      clearTimeout(expiry);
+      clearInterval(recheck);
+    });
+
+    try {
+      // A malformed id only costs the replay, not the connection
+      const lastEventId = socket.handshake.auth?.lastEventId;
+      await this.join(socket, userRoom, isRealtimeEventId(lastEventId) ? lastEventId : undefined);
+    } catch (error) {
+      this.logger.error('Failed to replay user events', { error, userId: user.id });
+    }
+  }
+
+  /**
+   * Joins a project, task or team room the user has access to
+   */
+  private async handleSubscribe(
+    socket: Socket,
+    user: RealtimeUser,
+    subscription: IRealtimeSubscription,
+    ack?: Ack
+  ): Promise<void> {
+    const reply: Ack = typeof ack === 'function' ? ack : () => undefined;
+
+    try {
+      const room = await this.realtimeService.authorize(user, subscription);
+
+      // Own socket id and user room do not count towards the limit
+      if (!socket.rooms.has(room) && socket.rooms.size - 2 >= realtimeConfig.maxRoomsPerSocket) {
+        throw new Error(ErrorCodes.REALTIME_ROOM_LIMIT_REACHED.toString());
+      }
+
+      const { replayed, truncated } = await this.join(socket, room, subscription.lastEventId);
+      reply({ ok: true, room, replayed, truncated });
+    } catch (error) {
+      this.logger.info('Subscription refused', { userId: user.id, subscription, reason: error.message });
+      reply({ ok: false, error: toClientError(error) });
+    }
+  }
+
+  /**
+   * Leaves the rooms the user has lost access to since joining them, such as
+   * a project they were removed from
+   */
+  private async recheckRooms(socket: Socket, user: RealtimeUser, userRoom: string): Promise<void> {
+    for (const room of [...socket.rooms]) {
+      if (room === socket.id || room === userRoom) continue;
+
+      try {
+        if (!await this.realtimeService.canStayInRoom(user, room)) {
+          await socket.leave(room);
+          this.logger.info('Socket removed from room after access was revoked', { userId: user.id, room });
+        }
+      } catch (error) {
+        this.logger.error('Failed to recheck room access', { error, userId: user.id, room });
+      }
+    }
+  }
+
+  /**
+   * Leaves a room; leaving one the socket is not in is not an error, and no
+   * access check is needed to leave
+   */
+  private async handleUnsubscribe(
+    socket: Socket,
+    subscription: IRealtimeSubscription,
+    ack?: Ack
+  ): Promise<void> {
+    const reply: Ack = typeof ack === 'function' ? ack : () => undefined;
+
+    try {
+      const room = this.realtimeService.resolveRoom(subscription);
+      await socket.leave(room);
+      reply({ ok: true, room });
+    } catch (error) {
+      reply({ ok: false, error: toClientError(error) });
+    }
+  }
+
+  /**
+   * Joins a room before reading missed events, so nothing published in
+   * between is lost. An event can then arrive twice; clients drop ids they
+   * have already seen.
+   */
+  private async join(
+    socket: Socket,
+    room: string,
+    lastEventId?: string
+  ): Promise<{ replayed: number; truncated: boolean }> {
+    await socket.join(room);
+
+    const { events, truncated } = await this.realtimeService.replay(room, lastEventId);
+    for (const event of events) {
+      socket.emit(event.type, event.payload, { id: event.id, room });
+    }
+
+    return { replayed: events.length, truncated };
+  }
+
+  /**
+   * Reads the access token from the handshake auth payload or the
+   * Authorization header
+   */
+  private getToken(socket: Socket): string | undefined {
+    if (typeof socket.handshake.auth?.token === 'string') {
+      return socket.handshake.auth.token;
+    }
+
+    const [scheme, token] = (socket.handshake.headers.authorization || '').split(' ');
+    return scheme === 'Bearer' ? token : undefined;
+  }
+}
+
+export default RealtimeGateway;
\ No newline at end of file
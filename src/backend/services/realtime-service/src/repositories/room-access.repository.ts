@@ -0,0 +1,110 @@
+import { Knex } from 'knex'; // v2.4.x
+import Logger from '../../../../shared/utils/logger.util'; // v3.8.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import { TeamStatus } from '../../../../shared/interfaces/team.interface';
+
+// Constants for repository operations
+const PROJECTS_TABLE = 'projects';
+const TASKS_TABLE = 'tasks';
+const TEAMS_TABLE = 'teams';
+const MEMBERS_TABLE = 'team_members';
+
+/**
+ * Read-only membership checks deciding which rooms a user may join. Admins
+ * skip membership, but the project, task or team must still exist.
+ */
+export class RoomAccessRepository {
+  private readonly db: Knex;
+  private readonly logger: Logger;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+    this.logger = Logger.getInstance('RoomAccessRepository', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Whether a user owns or is a member of a project
+   * @param projectId Project ID
+   * @param userId User ID
+   * @param isAdmin Skip the membership check
+   */
+  public async canAccessProject(projectId: string, userId: string, isAdmin: boolean): Promise<boolean> {
+    try {
+      const project = await this.db(`${PROJECTS_TABLE} as p`)
+        .where('p.id', projectId)
+        .modify((query) => {
+          if (!isAdmin) this.whereProjectMember(query, userId);
+        })
+        .first('p.id');
+
+      return Boolean(project);
+    } catch (error) {
+      this.logger.error('Failed to check project access', { error, projectId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a user has access to the project a task belongs to
+   * @param taskId Task ID
+   * @param userId User ID
+   * @param isAdmin Skip the membership check
+   */
+  public async canAccessTask(taskId: string, userId: string, isAdmin: boolean): Promise<boolean> {
+    try {
+      const task = await this.db(`${TASKS_TABLE} as t`)
+        .join(`${PROJECTS_TABLE} as p`, 'p.id', 't.project_id')
+        .where('t.id', taskId)
+        .modify((query) => {
+          if (!isAdmin) this.whereProjectMember(query, userId);
+        })
+        .first('t.id');
+
+      return Boolean(task);
+    } catch (error) {
+      this.logger.error('Failed to check task access', { error, taskId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a user is a member of a team that has not been deleted
+   * @param teamId Team ID
+   * @param userId User ID
+   * @param isAdmin Skip the membership check
+   */
+  public async canAccessTeam(teamId: string, userId: string, isAdmin: boolean): Promise<boolean> {
+    try {
+      const team = await this.db(`${TEAMS_TABLE} as t`)
+        .where('t.id', teamId)
+        .whereNot('t.status', TeamStatus.DELETED)
+        .modify((query) => {
+          if (!isAdmin) {
+            query.whereExists(
+              this.db(MEMBERS_TABLE)
+                .whereRaw('team_members.team_id = t.id')
+                .andWhere('team_members.user_id', userId)
+            );
+          }
+        })
+        .first('t.id');
+
+      return Boolean(team);
+    } catch (error) {
+      this.logger.error('Failed to check team access', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Restricts a query joined on projects as "p" to those the user is in
+   */
+  private whereProjectMember(query: Knex.QueryBuilder, userId: string): void {
+    query.where((builder) => {
+      builder.where('p.owner_id', userId).orWhereRaw('? = ANY(p.member_ids)', [userId]);
+    });
+  }
+}
\ No newline at end of file
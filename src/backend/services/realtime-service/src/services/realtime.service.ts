@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Realtime service: authenticates socket connections with the
+ * access token, decides which rooms a user may join and replays the events a
+ * reconnecting client missed.
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis'; // v5.3.x
+import * as jwt from 'jsonwebtoken'; // v9.0.0
+import { RoomAccessRepository } from '../repositories/room-access.repository';
+import { realtimeConfig } from '../config/realtime.config';
+import {
+  IRealtimeEvent,
+  IRealtimeSubscription,
+  RealtimeRoomType
+} from '../../../../shared/interfaces/realtime.interface';
+import { UserRole } from '../../../../shared/interfaces/auth.interface';
+import { ErrorCodes } from '../../../../shared/constants/error-codes';
+import {
+  isRealtimeEventId,
+  readRealtimeEvents,
+  realtimeRoom
+} from '../../../../shared/utils/realtime.util';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ACCESS_TOKEN_TYPE = 'access';
+
+// Subscription fields and the room each one names
+const SUBSCRIPTION_ROOMS: Array<[keyof IRealtimeSubscription, RealtimeRoomType]> = [
+  ['projectId', RealtimeRoomType.PROJECT],
+  ['taskId', RealtimeRoomType.TASK],
+  ['teamId', RealtimeRoomType.TEAM]
+];
+
+/**
+ * The authenticated user behind a socket
+ */
+export interface RealtimeUser {
+  id: string;
+  isAdmin: boolean;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Events replayed to a client, oldest first
+ */
+export interface RealtimeReplay {
+  events: IRealtimeEvent[];
+  truncated: boolean;
+}
+
+export class RealtimeService {
+  constructor(
+    private readonly roomAccessRepository: RoomAccessRepository,
+    private readonly redisClient: Redis
+  ) {}
+
+  /**
+   * Verifies an access token issued by the auth service
+   * @param token Bearer token sent with the handshake
+   * @returns The user the token was issued to
+   */
+  public authenticate(token: string | undefined): RealtimeUser {
+    if (!token) {
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, realtimeConfig.jwtSecret, { algorithms: ['RS256'] }) as jwt.JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error(ErrorCodes.TOKEN_EXPIRED.toString());
+      }
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    // Refresh tokens are signed with the same key but must not open a socket
+    if (!payload.sub || payload.type !== ACCESS_TOKEN_TYPE || !payload.exp) {
+      throw new Error(ErrorCodes.INVALID_CREDENTIALS.toString());
+    }
+
+    const roles: string[] = payload.roles || (payload.role ? [payload.role] : []);
+    return {
+      id: payload.sub,
+      isAdmin: roles.includes(UserRole.ADMIN),
+      expiresAt: payload.exp * 1000
+    };
+  }
+
+  /**
+   * Room every socket of a user joins on connect
+   */
+  public userRoom(user: RealtimeUser): string {
+    return realtimeRoom(RealtimeRoomType.USER, user.id);
+  }
+
+  /**
+   * Resolves the room a subscription names
+   * @param subscription Subscribe or unsubscribe message from the client
+   * @returns Room name
+   */
+  public resolveRoom(subscription: IRealtimeSubscription): string {
+    return realtimeRoom(...this.parseSubscription(subscription));
+  }
+
+  /**
+   * Resolves the room a subscription names and checks the user may join it
+   * @param user Authenticated user
+   * @param subscription Subscribe message from the client
+   * @returns Room name
+   */
+  public async authorize(user: RealtimeUser, subscription: IRealtimeSubscription): Promise<string> {
+    const [type, id] = this.parseSubscription(subscription);
+
+    if (!await this.hasAccess(user, type, id)) {
+      throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    }
+
+    return realtimeRoom(type, id);
+  }
+
+  /**
+   * Checks again whether the user may stay in a project, task or team room
+   * they joined earlier
+   * @param user Authenticated user
+   * @param room Room name
+   */
+  public async canStayInRoom(user: RealtimeUser, room: string): Promise<boolean> {
+    const [type, id] = room.split(':') as [RealtimeRoomType, string];
+    if (!SUBSCRIPTION_ROOMS.some(([, roomType]) => roomType === type)) {
+      return false;
+    }
+
+    return this.hasAccess(user, type, id);
+  }
+
+  /**
+   * Reads the events of a room published after the last one a client saw
+   * @param room Room the client has just joined
+   * @param lastEventId Last event id the client received, if any
+   */
+  public async replay(room: string, lastEventId?: string): Promise<RealtimeReplay> {
+    if (lastEventId === undefined) {
+      return { events: [], truncated: false };
+    }
+    if (!isRealtimeEventId(lastEventId)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    // Read one extra event to tell whether anything was left out
+    const events = await readRealtimeEvents(
+      this.redisClient,
+      room,
+      lastEventId,
+      realtimeConfig.maxReplayEvents + 1
+    );
+
+    return {
+      events: events.slice(0, realtimeConfig.maxReplayEvents),
+      truncated: events.length > realtimeConfig.maxReplayEvents
+    };
+  }
+
+  /**
+   * Checks membership of the project, task or team behind a room
+   */
+  private async hasAccess(user: RealtimeUser, type: RealtimeRoomType, id: string): Promise<boolean> {
+    switch (type) {
+      case RealtimeRoomType.PROJECT:
+        return this.roomAccessRepository.canAccessProject(id, user.id, user.isAdmin);
+      case RealtimeRoomType.TASK:
+        return this.roomAccessRepository.canAccessTask(id, user.id, user.isAdmin);
+      default:
+        return this.roomAccessRepository.canAccessTeam(id, user.id, user.isAdmin);
+    }
+  }
+
+  /**
+   * Picks the single room id out of a subscribe message and checks the id
+   * it resumes from
+   */
+  private parseSubscription(subscription: IRealtimeSubscription): [RealtimeRoomType, string] {
+    const named = SUBSCRIPTION_ROOMS.filter(([field]) => subscription?.[field] !== undefined);
+
+    if (named.length !== 1) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    const [field, type] = named[0];
+    const id = subscription[field];
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+    if (subscription.lastEventId !== undefined && !isRealtimeEventId(subscription.lastEventId)) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    return [type, id];
+  }
+}
+
+export default RealtimeService;
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { generateKeyPairSync } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import Redis from 'ioredis';
+import { Server } from 'socket.io';
+import { RealtimeService, RealtimeUser } from '../src/services/realtime.service';
+import { RealtimeGateway } from '../src/gateways/realtime.gateway';
+import { RoomAccessRepository } from '../src/repositories/room-access.repository';
+import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { RealtimeEventType } from '../../../shared/interfaces/realtime.interface';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
+import { TeamAuditAction } from '../../../shared/interfaces/team.interface';
+
+// Mock services and dependencies
+jest.mock('../src/repositories/room-access.repository');
+jest.mock('../../../shared/utils/logger.util');
+jest.mock('../src/config/realtime.config', () => ({
+  realtimeConfig: {
+    // Read lazily: the key pair is generated after mocks are hoisted
+    get jwtSecret() {
+      return mockKeys.publicKey;
+    },
+    maxRoomsPerSocket: 50,
+    maxReplayEvents: 2
+  }
+}));
+
+const mockKeys = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+// Test constants
+const USER_ID = '0a4b6f0e-8d2c-4f0a-b1a6-2c3d4e5f6a01';
+const PROJECT_ID = '7f1b7a4e-3c1d-4c39-9a53-0d6c2e5b8a11';
+const TASK_ID = '5d2c1b0a-9e8f-4a7b-8c6d-5e4f3a2b1c01';
+const TEAM_ID = '9c8b7a6d-5e4f-4a3b-8c2d-1e0f9a8b7c01';
+
+const MEMBER: RealtimeUser = { id: USER_ID, isAdmin: false, expiresAt: Date.now() + 15 * 60 * 1000 };
+
+const signToken = (payload: Record<string, any>, options: jwt.SignOptions = {}): string =>
+  jwt.sign(payload, mockKeys.privateKey, { algorithm: 'RS256', expiresIn: '15m', ...options });
+
+const streamEntry = (id: string, type: RealtimeEventType, payload: Record<string, any>): [string, string[]] => [
+  id,
+  ['event', JSON.stringify({ type, payload, occurredAt: '2024-01-01T00:00:00.000Z' })]
+];
+
+describe('RealtimeService', () => {
+  let realtimeService: RealtimeService;
+  let roomAccessRepository: jest.Mocked<RoomAccessRepository>;
+  let redisClient: { xrange: jest.Mock<any> };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    roomAccessRepository = new RoomAccessRepository() as jest.Mocked<RoomAccessRepository>;
+    roomAccessRepository.canAccessProject.mockResolvedValue(true);
+    roomAccessRepository.canAccessTask.mockResolvedValue(true);
+    roomAccessRepository.canAccessTeam.mockResolvedValue(true);
+
+    redisClient = { xrange: jest.fn<any>().mockResolvedValue([]) };
+
+    realtimeService = new RealtimeService(roomAccessRepository, redisClient as unknown as Redis);
+  });
+
+  describe('Authentication', () => {
+    test('should identify the user of a valid access token', () => {
+      const token = signToken({ sub: USER_ID, roles: [UserRole.ADMIN], type: 'access' });
+
+      const user = realtimeService.authenticate(token);
+
+      expect(user.id).toBe(USER_ID);
+      expect(user.isAdmin).toBe(true);
+      expect(user.expiresAt).toBeGreaterThan(Date.now());
+    });
+
+    test('should reject a missing token or a refresh token', () => {
+      const refreshToken = signToken({ sub: USER_ID, type: 'refresh' });
+
+      expect(() => realtimeService.authenticate(undefined))
+        .toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+      expect(() => realtimeService.authenticate(refreshToken))
+        .toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+    });
+
+    test('should reject expired tokens and tokens signed with another key', () => {
+      const expired = signToken({ sub: USER_ID, type: 'access' }, { expiresIn: -60 });
+      const { privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' }
+      });
+      const forged = jwt.sign({ sub: USER_ID, type: 'access' }, privateKey, { algorithm: 'RS256', expiresIn: '15m' });
+
+      expect(() => realtimeService.authenticate(expired)).toThrow(ErrorCodes.TOKEN_EXPIRED.toString());
+      expect(() => realtimeService.authenticate(forged)).toThrow(ErrorCodes.INVALID_CREDENTIALS.toString());
+    });
+  });
+
+  describe('Room Access', () => {
+    test('should resolve project, task and team rooms for members', async () => {
+      await expect(realtimeService.authorize(MEMBER, { projectId: PROJECT_ID })).resolves.toBe(`project:${PROJECT_ID}`);
+      await expect(realtimeService.authorize(MEMBER, { taskId: TASK_ID })).resolves.toBe(`task:${TASK_ID}`);
+      await expect(realtimeService.authorize(MEMBER, { teamId: TEAM_ID })).resolves.toBe(`team:${TEAM_ID}`);
+
+      expect(roomAccessRepository.canAccessProject).toHaveBeenCalledWith(PROJECT_ID, USER_ID, false);
+      expect(roomAccessRepository.canAccessTask).toHaveBeenCalledWith(TASK_ID, USER_ID, false);
+      expect(roomAccessRepository.canAccessTeam).toHaveBeenCalledWith(TEAM_ID, USER_ID, false);
+    });
+
+    test('should refuse rooms the user is not a member of', async () => {
+      roomAccessRepository.canAccessTask.mockResolvedValue(false);
+
+      await expect(realtimeService.authorize(MEMBER, { taskId: TASK_ID }))
+        .rejects.toThrow(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    });
+
+    test('should let administrators skip the membership check', async () => {
+      await realtimeService.authorize({ ...MEMBER, isAdmin: true }, { projectId: PROJECT_ID });
+
+      expect(roomAccessRepository.canAccessProject).toHaveBeenCalledWith(PROJECT_ID, USER_ID, true);
+    });
+
+    test('should reject subscriptions that do not name exactly one valid room', async () => {
+      const invalid = [
+        {},
+        { projectId: PROJECT_ID, taskId: TASK_ID },
+        { projectId: 'not-a-uuid' },
+        { projectId: PROJECT_ID, lastEventId: '$' }
+      ];
+
+      for (const subscription of invalid) {
+        await expect(realtimeService.authorize(MEMBER, subscription))
+          .rejects.toThrow(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+      expect(roomAccessRepository.canAccessProject).not.toHaveBeenCalled();
+    });
+
+    test('should recheck access to rooms joined earlier', async () => {
+      roomAccessRepository.canAccessTeam.mockResolvedValue(false);
+
+      await expect(realtimeService.canStayInRoom(MEMBER, `project:${PROJECT_ID}`)).resolves.toBe(true);
+      await expect(realtimeService.canStayInRoom(MEMBER, `team:${TEAM_ID}`)).resolves.toBe(false);
+      await expect(realtimeService.canStayInRoom(MEMBER, `user:${USER_ID}`)).resolves.toBe(false);
+
+      expect(roomAccessRepository.canAccessTeam).toHaveBeenCalledWith(TEAM_ID, USER_ID, false);
+    });
+  });
+
+  describe('Resume', () => {
+    const room = `project:${PROJECT_ID}`;
+
+    test('should not read the stream when the client has no last event', async () => {
+      const replay = await realtimeService.replay(room);
+
+      expect(replay).toEqual({ events: [], truncated: false });
+      expect(redisClient.xrange).not.toHaveBeenCalled();
+    });
+
+    test('should replay events published after the last one seen', async () => {
+      redisClient.xrange.mockResolvedValue([
+        streamEntry('1700000000001-0', RealtimeEventType.TASK_UPDATED, { id: TASK_ID })
+      ]);
+
+      const replay = await realtimeService.replay(room, '1700000000000-0');
+
+      expect(redisClient.xrange).toHaveBeenCalledWith(
+        `realtime:stream:${room}`, '(1700000000000-0', '+', 'COUNT', 3
+      );
+      expect(replay.truncated).toBe(false);
+      expect(replay.events).toEqual([{
+        id: '1700000000001-0',
+        room,
+        type: RealtimeEventType.TASK_UPDATED,
+        payload: { id: TASK_ID },
+        occurredAt: '2024-01-01T00:00:00.000Z'
+      }]);
+    });
+
+    test('should report a truncated replay when more events were missed than allowed', async () => {
+      redisClient.xrange.mockResolvedValue([
+        streamEntry('1700000000001-0', RealtimeEventType.TASK_CREATED, { id: TASK_ID }),
+        streamEntry('1700000000002-0', RealtimeEventType.TASK_UPDATED, { id: TASK_ID }),
+        streamEntry('1700000000003-0', RealtimeEventType.TASK_UPDATED, { id: TASK_ID })
+      ]);
+
+      const replay = await realtimeService.replay(room, '1700000000000-0');
+
+      expect(replay.truncated).toBe(true);
+      expect(replay.events.map(event => event.id)).toEqual(['1700000000001-0', '1700000000002-0']);
+    });
+  });
+});
+
+describe('RealtimeGateway', () => {
+  const teamRoom = `team:${TEAM_ID}`;
+  let io: { to: jest.Mock<any>; in: jest.Mock<any> };
+  let emit: jest.Mock<any>;
+  let socketsLeave: jest.Mock<any>;
+  let gateway: RealtimeGateway;
+
+  const publishTeamUpdate = (action: TeamAuditAction, memberId?: string) => gateway.broadcast(
+    `realtime:${teamRoom}`,
+    JSON.stringify({
+      id: '1700000000001-0',
+      room: teamRoom,
+      type: RealtimeEventType.TEAM_UPDATED,
+      payload: { teamId: TEAM_ID, action, memberId, timestamp: '2024-01-01T00:00:00.000Z' },
+      occurredAt: '2024-01-01T00:00:00.000Z'
+    })
+  );
+
+  beforeEach(() => {
+    emit = jest.fn();
+    socketsLeave = jest.fn();
+    io = {
+      to: jest.fn<any>().mockReturnValue({ emit }),
+      in: jest.fn<any>().mockReturnValue({ socketsLeave })
+    };
+
+    gateway = new RealtimeGateway(io as unknown as Server, {} as RealtimeService);
+  });
+
+  test('should take a removed member\'s sockets out of the team room after telling them', () => {
+    publishTeamUpdate(TeamAuditAction.MEMBER_REMOVED, USER_ID);
+
+    expect(io.to).toHaveBeenCalledWith(teamRoom);
+    expect(emit).toHaveBeenCalledWith(
+      RealtimeEventType.TEAM_UPDATED,
+      expect.objectContaining({ action: TeamAuditAction.MEMBER_REMOVED, memberId: USER_ID }),
+      { id: '1700000000001-0', room: teamRoom }
+    );
+    expect(io.in).toHaveBeenCalledWith(`user:${USER_ID}`);
+    expect(socketsLeave).toHaveBeenCalledWith(teamRoom);
+  });
+
+  test('should leave membership alone for other team changes', () => {
+    publishTeamUpdate(TeamAuditAction.MEMBER_ADDED, USER_ID);
+    publishTeamUpdate(TeamAuditAction.SETTINGS_UPDATED);
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(socketsLeave).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -12,8 +12,16 @@ import { Cache } from 'cache-manager'; // v5.2.0
 import { WebSocketGateway } from '@nestjs/websockets'; // v9.0.0
 
 import { TaskService } from '../services/task.service';
-import { validateCreateTask, validateUpdateTask } from '../validators/task.validator';
-import { ITask, TaskStatus, TaskPriority } from '../../../../shared/interfaces/task.interface';
+import {
+  validateCreateTask,
+  validateUpdateTask,
+  validateTaskDependency,
+  validateChecklistItem,
+  validateComment,
+  validateActivityQuery,
+  validateSearchQuery
+} from '../validators/task.validator';
+import { ITask, TaskPriority } from '../../../../shared/interfaces/task.interface';
 import { AuthGuard } from '../../../../shared/guards/auth.guard';
 import { RoleGuard } from '../../../../shared/guards/role.guard';
 import { CacheInterceptor } from '../../../../shared/interceptors/cache.interceptor';
@@ -140,7 +148,7 @@ export class TaskController {
 
       // Update task using circuit breaker
       const updatedTask = await this.circuitBreaker.fire(async () => {
-        return await this.taskService.updateTask(taskId, taskData, userId);
+        return await this.taskService.updateTask(taskId, taskData, userId, req.user.role);
       });
 
       // Invalidate cache
@@ -166,6 +174,36 @@ export class TaskController {
     }
   }
 
+  /**
+   * Full-text search across tasks, projects and comments the user can access.
+   * Registered before /:id so "search" is not treated as a task ID.
+   */
+  @Get('/search')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async search(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validationResult = validateSearchQuery(req.query);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const { q, types, projectId, limit, offset } = validationResult.value;
+
+      const response = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.search(
+          { query: q, types, projectId, limit, offset },
+          req.user.id,
+          req.user.role
+        );
+      });
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Retrieves task by ID with caching
    */
@@ -239,6 +277,304 @@ export class TaskController {
     }
   }
 
+  /**
+   * Retrieves the checklist of a task
+   */
+  @Get('/:id/checklist')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async getChecklist(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const items = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.getChecklist(req.params.id);
+      });
+
+      res.json(items);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Adds a checklist item to a task
+   */
+  @Post('/:id/checklist')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async addChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const taskId = req.params.id;
+
+      const validationResult = validateChecklistItem(req.body);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const item = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.addChecklistItem(taskId, validationResult.value.content, req.user.id);
+      });
+
+      // Invalidate cache
+      await this.cache.del(`task:${taskId}`);
+
+      res.status(201).json(item);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Edits or checks off a checklist item
+   */
+  @Patch('/:id/checklist/:itemId')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async updateChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, itemId } = req.params;
+
+      const validationResult = validateChecklistItem(req.body, true);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const item = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.updateChecklistItem(taskId, itemId, validationResult.value, req.user.id);
+      });
+
+      // Invalidate cache
+      await this.cache.del(`task:${taskId}`);
+
+      res.json(item);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Removes a checklist item from a task
+   */
+  @Delete('/:id/checklist/:itemId')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async removeChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, itemId } = req.params;
+
+      await this.circuitBreaker.fire(async () => {
+        return await this.taskService.removeChecklistItem(taskId, itemId, req.user.id);
+      });
+
+      // Invalidate cache
+      await this.cache.del(`task:${taskId}`);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a page of a task's activity history
+   */
+  @Get('/:id/activity')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async getActivity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validationResult = validateActivityQuery(req.query);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const page = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.getActivity(req.params.id, validationResult.value);
+      });
+
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the comment threads of a task
+   */
+  @Get('/:id/comments')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async getComments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const threads = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.getComments(req.params.id);
+      });
+
+      res.json(threads);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Adds a comment or a reply to a task
+   */
+  @Post('/:id/comments')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async addComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const taskId = req.params.id;
+
+      const validationResult = validateComment(req.body);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const comment = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.addComment(taskId, validationResult.value, req.user.id);
+      });
+
+      res.status(201).json(comment);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Edits a comment
+   */
+  @Put('/:id/comments/:commentId')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async updateComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, commentId } = req.params;
+
+      const validationResult = validateComment(req.body, true);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const comment = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.updateComment(taskId, commentId, validationResult.value.content, req.user.id);
+      });
+
+      res.json(comment);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deletes a comment
+   */
+  @Delete('/:id/comments/:commentId')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async removeComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, commentId } = req.params;
+
+      await this.circuitBreaker.fire(async () => {
+        return await this.taskService.removeComment(taskId, commentId, req.user.id, req.user.role);
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the edit history of a comment
+   */
+  @Get('/:id/comments/:commentId/history')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async getCommentHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, commentId } = req.params;
+
+      const history = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.getCommentHistory(taskId, commentId);
+      });
+
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves the dependency graph around a task
+   */
+  @Get('/:id/dependencies')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async getTaskDependencies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const graph = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.getDependencyGraph(req.params.id, req.user.id, req.user.role);
+      });
+
+      res.json(graph);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Links a task to another task
+   */
+  @Post('/:id/dependencies')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async addTaskDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const taskId = req.params.id;
+      const userId = req.user.id;
+
+      const validationResult = validateTaskDependency(req.body);
+      if (validationResult.error) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const dependency = await this.circuitBreaker.fire(async () => {
+        return await this.taskService.addDependency(taskId, validationResult.value, userId, req.user.role);
+      });
+
+      // Emit real-time update
+      this.wsGateway.server.emit('taskDependencyAdded', dependency);
+
+      res.status(201).json(dependency);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Removes a dependency from a task
+   */
+  @Delete('/:id/dependencies/:dependencyId')
+  @UseGuards(RoleGuard)
+  @RateLimit({ windowMs: RATE_LIMIT_WINDOW, max: RATE_LIMIT_MAX })
+  public async removeTaskDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: taskId, dependencyId } = req.params;
+
+      await this.circuitBreaker.fire(async () => {
+        return await this.taskService.removeDependency(taskId, dependencyId, req.user.id, req.user.role);
+      });
+
+      // Emit real-time update
+      this.wsGateway.server.emit('taskDependencyRemoved', { taskId, dependencyId });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Retrieves tasks by project with filtering and pagination
    */
@@ -248,7 +584,7 @@ export class TaskController {
   public async getProjectTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const projectId = req.params.projectId;
-      const { status, priority, page, limit } = req.query;
+      const { status, priority, page, limit, tree } = req.query;
 
       // Check cache first
       const cacheKey = `project:${projectId}:tasks:${JSON.stringify(req.query)}`;
@@ -261,10 +597,11 @@ export class TaskController {
       // Fetch tasks using circuit breaker
       const tasks = await this.circuitBreaker.fire(async () => {
         return await this.taskService.getProjectTasks(projectId, {
-          status: status as TaskStatus,
+          status: status as string,
           priority: priority as TaskPriority,
           page: parseInt(page as string),
-          limit: parseInt(limit as string)
+          limit: parseInt(limit as string),
+          tree: tree === 'true'
         });
       });
 
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Checklist item model implementation using Objection.js
+ * for lightweight to-do entries attached to a task.
+ * @version 1.0.0
+ */
+
+import { Model } from 'objection'; // v3.0.0
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { ITaskChecklistItem } from '../../../shared/interfaces/task.interface';
+import { db } from '../config/database.config';
+
+// Configure Objection.js to use the database instance
+Model.knex(db.getKnex());
+
+/**
+ * Checklist item model ordered by position within its task
+ */
+export class ChecklistItemModel extends Model implements ITaskChecklistItem {
+  id!: string;
+  taskId!: string;
+  content!: string;
+  isCompleted!: boolean;
+  position!: number;
+  completedBy!: string | null;
+  completedAt!: Date | null;
+  createdAt!: Date;
+  updatedAt!: Date;
+
+  static tableName = 'task_checklist_items';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['taskId', 'content'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      taskId: { type: 'string', format: 'uuid' },
+      content: { type: 'string', minLength: 1, maxLength: 255 },
+      isCompleted: { type: 'boolean' },
+      position: { type: 'integer', minimum: 0 },
+      completedBy: { type: ['string', 'null'], format: 'uuid' },
+      completedAt: { type: ['string', 'null'], format: 'date-time' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  };
+
+  static modifiers = {
+    ordered(query: any) {
+      query.orderBy('position', 'asc');
+    }
+  };
+
+  /**
+   * Lifecycle hook before insert
+   */
+  async $beforeInsert(context: any) {
+    await super.$beforeInsert(context);
+
+    this.id = uuidv4();
+    this.isCompleted = this.isCompleted || false;
+    this.createdAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Lifecycle hook before update
+   */
+  async $beforeUpdate(opt: any, context: any) {
+    await super.$beforeUpdate(opt, context);
+
+    this.updatedAt = new Date();
+  }
+}
+
+export default ChecklistItemModel;
\ No newline at end of file
@@ -8,7 +8,7 @@ import { Model, AjvValidator } from 'objection'; // v3.0.0
 import { v4 as uuidv4 } from 'uuid'; // v9.0.0
 import { ITask, TaskStatus, TaskPriority } from '../../../shared/interfaces/task.interface';
 import { db } from '../config/database.config';
-import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { ChecklistItemModel } from './checklist-item.model';
 
 // Configure Objection.js to use the database instance
 Model.knex(db.getKnex());
@@ -22,13 +22,14 @@ export class TaskModel extends Model implements ITask {
   title!: string;
   description!: string;
   projectId!: string;
-  status!: TaskStatus;
+  status!: string;
   priority!: TaskPriority;
   assigneeIds!: string[];
   creatorId!: string;
   dueDate!: Date;
   attachmentIds!: string[];
   tags!: string[];
+  parentTaskId?: string | null;
   createdAt!: Date;
   updatedAt!: Date;
 
@@ -43,7 +44,7 @@ export class TaskModel extends Model implements ITask {
       title: { type: 'string', minLength: 1, maxLength: 255 },
       description: { type: 'string', maxLength: 2000 },
       projectId: { type: 'string', format: 'uuid' },
-      status: { type: 'string', enum: Object.values(TaskStatus) },
+      status: { type: 'string', pattern: '^[A-Z][A-Z0-9_]{0,49}$' },
       priority: { type: 'string', enum: Object.values(TaskPriority) },
       assigneeIds: { 
         type: 'array',
@@ -59,6 +60,7 @@ export class TaskModel extends Model implements ITask {
         type: 'array',
         items: { type: 'string', maxLength: 50 }
       },
+      parentTaskId: { type: ['string', 'null'], format: 'uuid' },
       createdAt: { type: 'string', format: 'date-time' },
       updatedAt: { type: 'string', format: 'date-time' }
     }
@@ -88,6 +90,22 @@ export class TaskModel extends Model implements ITask {
         from: 'tasks.id',
         to: 'attachments.taskId'
       }
+    },
+    subtasks: {
+      relation: Model.HasManyRelation,
+      modelClass: TaskModel,
+      join: {
+        from: 'tasks.id',
+        to: 'tasks.parentTaskId'
+      }
+    },
+    checklist: {
+      relation: Model.HasManyRelation,
+      modelClass: ChecklistItemModel,
+      join: {
+        from: 'tasks.id',
+        to: 'task_checklist_items.taskId'
+      }
     }
   };
 
@@ -128,11 +146,6 @@ export class TaskModel extends Model implements ITask {
     this.createdAt = new Date();
     this.updatedAt = new Date();
     
-    // Validate status transitions
-    if (!this.validateStatusTransition(this.status, TaskStatus.TODO)) {
-      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
-    }
-    
     // Initialize arrays if not provided
     this.assigneeIds = this.assigneeIds || [];
     this.attachmentIds = this.attachmentIds || [];
@@ -141,33 +154,12 @@ export class TaskModel extends Model implements ITask {
 
   /**
    * Lifecycle hook before update
+   * Status transitions are validated by TaskService against the project workflow
    */
   async $beforeUpdate(opt: any, context: any) {
     await super.$beforeUpdate(opt, context);
     
     this.updatedAt = new Date();
-
-    // Get current state for validation
-    const current = await TaskModel.query().findById(this.id);
-    if (current && this.status !== current.status) {
-      if (!this.validateStatusTransition(this.status, current.status)) {
-        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
-      }
-    }
-  }
-
-  /**
-   * Validates task status transitions
-   */
-  private validateStatusTransition(newStatus: TaskStatus, oldStatus: TaskStatus): boolean {
-    const allowedTransitions: Record<TaskStatus, TaskStatus[]> = {
-      [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS],
-      [TaskStatus.IN_PROGRESS]: [TaskStatus.REVIEW, TaskStatus.TODO],
-      [TaskStatus.REVIEW]: [TaskStatus.DONE, TaskStatus.IN_PROGRESS],
-      [TaskStatus.DONE]: [TaskStatus.REVIEW]
-    };
-
-    return allowedTransitions[oldStatus]?.includes(newStatus) || oldStatus === newStatus;
   }
 
   /**
@@ -175,7 +167,7 @@ export class TaskModel extends Model implements ITask {
    */
   static get QueryBuilder() {
     return class extends Model.QueryBuilder {
-      findByProjectAndStatus(projectId: string, status: TaskStatus) {
+      findByProjectAndStatus(projectId: string, status: string) {
         return this.where({ projectId, status });
       }
 
@@ -7,9 +7,116 @@
 import { Transaction } from 'objection'; // v3.0.0
 import { Logger } from '../../../../shared/utils/logger.util'; // v3.8.2
 import { DatabaseConnection } from '../../../../shared/utils/database.util';
-import { ITask, TaskStatus, TaskPriority } from '../../../../shared/interfaces/task.interface';
+import {
+  ITask,
+  ITaskActivity,
+  ITaskChecklistItem,
+  ITaskComment,
+  ITaskCommentEdit,
+  ITaskDependency,
+  ITaskProgress,
+  ITaskTreeNode,
+  TaskActivityType,
+  TaskDependencyType,
+  TaskPriority
+} from '../../../../shared/interfaces/task.interface';
+import { ProjectWorkflow } from '../../../../shared/interfaces/project.interface';
+import { DEFAULT_TASK_WORKFLOW, isDoneStatus } from '../../../../shared/utils/workflow.util';
 import { TaskModel } from '../models/task.model';
+import { ChecklistItemModel } from '../models/checklist-item.model';
 import { ErrorCodes } from '../../../../shared/constants/error-codes';
+import { IWebhookEvent } from '../../../../shared/interfaces/webhook.interface';
+import { ISearchQuery, ISearchResult, SearchResultType } from '../../../../shared/interfaces/search.interface';
+import { enqueueWebhookEvent } from '../../../../shared/utils/webhook.util';
+import {
+  TaskActivityEntry,
+  buildCreatedActivity,
+  checklistActivity,
+  dependencyActivities,
+  diffTaskActivities
+} from '../utils/activity.util';
+
+// Workflow status keys are upper snake case, e.g. IN_PROGRESS
+const STATUS_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,49}$/;
+
+// Matched terms are delimited with control characters so the service can
+// HTML-escape the snippet before turning them into <mark> tags
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_STOP = '\u0003';
+const SEARCH_HEADLINE_OPTIONS = [
+  `StartSel=${SEARCH_HIGHLIGHT_START}`,
+  `StopSel=${SEARCH_HIGHLIGHT_STOP}`,
+  'MaxWords=35',
+  'MinWords=15',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "'
+].join(', ');
+
+// One branch per searchable record type, all returning the same columns
+const SEARCH_BRANCHES: Record<SearchResultType, string> = {
+  [SearchResultType.TASK]: `
+    SELECT 'task' AS type, t.id, t.title, coalesce(t.description, '') AS body,
+           ts_rank_cd(t.search_vector, q.query) AS rank, t.project_id, NULL::uuid AS task_id, t.updated_at
+    FROM tasks t CROSS JOIN q
+    WHERE t.search_vector @@ q.query AND t.project_id IN (SELECT id FROM accessible)`,
+  [SearchResultType.PROJECT]: `
+    SELECT 'project' AS type, p.id, p.name AS title, coalesce(p.description, '') AS body,
+           ts_rank_cd(p.search_vector, q.query) AS rank, p.id AS project_id, NULL::uuid AS task_id, p.updated_at
+    FROM projects p CROSS JOIN q
+    WHERE p.search_vector @@ q.query AND p.id IN (SELECT id FROM accessible)`,
+  [SearchResultType.COMMENT]: `
+    SELECT 'comment' AS type, c.id, t.title, c.content AS body,
+           ts_rank_cd(c.search_vector, q.query) AS rank, t.project_id, t.id AS task_id, c.updated_at
+    FROM task_comments c JOIN tasks t ON t.id = c.task_id CROSS JOIN q
+    WHERE c.search_vector @@ q.query AND c.deleted_at IS NULL
+      AND t.project_id IN (SELECT id FROM accessible)`
+};
+
+const DEPENDENCY_COLUMNS = [
+  'id',
+  'source_task_id as sourceTaskId',
+  'target_task_id as targetTaskId',
+  'type',
+  'created_by as createdBy',
+  'created_at as createdAt'
+];
+
+const COMMENT_COLUMNS = [
+  'id',
+  'task_id as taskId',
+  'user_id as userId',
+  'content',
+  'parent_id as parentId',
+  'mentioned_user_ids as mentionedUserIds',
+  'edited_at as editedAt',
+  'deleted_at as deletedAt',
+  'created_at as createdAt',
+  'updated_at as updatedAt'
+];
+
+const ACTIVITY_COLUMNS = [
+  'id',
+  'task_id as taskId',
+  'user_id as userId',
+  'activity_type as type',
+  'changes',
+  'metadata',
+  'created_at as timestamp'
+];
+
+const COMMENT_EDIT_COLUMNS = [
+  'id',
+  'comment_id as commentId',
+  'content',
+  'edited_by as editedBy',
+  'created_at as createdAt'
+];
+
+// One page of a listing; LIMIT and OFFSET are applied in SQL
+type TaskPage = { limit: number; offset: number };
+
+// Search row as returned by pg; the window count comes back as a bigint string
+type SearchRow = Omit<ISearchResult, 'rank'> & { rank: number | string; total: string };
 
 /**
  * Enhanced repository class implementing secure and optimized data access patterns
@@ -17,6 +124,7 @@ import { ErrorCodes } from '../../../../shared/constants/error-codes';
  */
 export class TaskRepository {
   private readonly taskModel: typeof TaskModel;
+  private readonly checklistItemModel: typeof ChecklistItemModel;
   private readonly dbConnection: DatabaseConnection;
   private readonly logger: Logger;
 
@@ -28,6 +136,7 @@ export class TaskRepository {
       migrations: { directory: '', tableName: '' }
     });
     this.taskModel = TaskModel;
+    this.checklistItemModel = ChecklistItemModel;
     this.logger = Logger.getInstance('TaskRepository', {
       enableConsole: true,
       enableFile: true
@@ -51,6 +160,8 @@ export class TaskRepository {
         .insert(taskData)
         .withGraphFetched('[project, comments, attachments]');
 
+      await this.insertActivities(trx, [buildCreatedActivity(task)]);
+
       // Log audit trail
       await this.logger.audit('Task created', {
         resourceId: task.id,
@@ -70,19 +181,34 @@ export class TaskRepository {
   /**
    * Retrieves task by ID with optimized loading and security checks
    * @param id - Task ID
-   * @returns Promise<ITask | null> - Found task with relationships or null
+   * @returns Promise<ITask | null> - Found task with its subtask tree and
+   * progress rolled up from every level, or null
    */
   public async findById(id: string): Promise<ITask | null> {
     try {
       const task = await this.taskModel.query()
         .findById(id)
-        .withGraphFetched('[project, comments, attachments]');
+        .withGraphFetched('[project, comments, attachments, checklist(ordered)]');
 
       if (!task) {
         return null;
       }
 
-      return task;
+      const descendantIds = (await this.findDescendants(id)).map(descendant => descendant.id);
+      const descendants = descendantIds.length > 0
+        ? await this.taskModel.query().whereIn('id', descendantIds).withGraphFetched('checklist(ordered)')
+        : [];
+
+      const workflow = await this.getProjectWorkflow(task.projectId);
+      const [root] = this.buildTaskTree([{ ...task, parentTaskId: null }, ...descendants], workflow);
+      if (!root) {
+        throw new Error(ErrorCodes.TASK_NOT_FOUND.toString());
+      }
+      return {
+        ...task,
+        subtasks: root.subtasks,
+        progress: root.progress
+      } as ITask;
     } catch (error) {
       this.logger.error('Failed to find task', { error });
       throw error;
@@ -90,12 +216,14 @@ export class TaskRepository {
   }
 
   /**
-   * Updates task with optimistic locking and validation
+   * Updates task with optimistic locking and validation, recording what
+   * changed in the task activity log
    * @param id - Task ID
    * @param taskData - Updated task data
+   * @param userId - Acting user
    * @returns Promise<ITask> - Updated task
    */
-  public async update(id: string, taskData: Partial<ITask>): Promise<ITask> {
+  public async update(id: string, taskData: Partial<ITask>, userId: string): Promise<ITask> {
     const trx = await this.dbConnection.getKnex().transaction();
 
     try {
@@ -119,6 +247,9 @@ export class TaskRepository {
         })
         .withGraphFetched('[project, comments, attachments]');
 
+      // Diff against the locked row so concurrent updates are each recorded once
+      await this.insertActivities(trx, diffTaskActivities(currentTask, taskData, userId));
+
       // Log audit trail
       await this.logger.audit('Task updated', {
         resourceId: id,
@@ -174,13 +305,30 @@ export class TaskRepository {
    * Finds tasks by project with pagination and filtering
    * @param projectId - Project ID
    * @param filters - Query filters
-   * @returns Promise<ITask[]> - List of tasks
+   * @param options - Pass asTree to nest subtasks under their parents with rolled-up progress,
+   * and page to fetch one page of tasks, or of root tasks when asTree is set
+   * @returns Promise<ITask[]> - List of tasks, or root task nodes when asTree is set
    */
   public async findByProject(
     projectId: string,
-    filters: { status?: TaskStatus; priority?: TaskPriority } = {}
-  ): Promise<ITask[]> {
+    filters?: { status?: string; priority?: TaskPriority },
+    options?: { asTree?: false; page?: TaskPage }
+  ): Promise<ITask[]>;
+  public async findByProject(
+    projectId: string,
+    filters: { status?: string; priority?: TaskPriority },
+    options: { asTree: true; page?: TaskPage }
+  ): Promise<ITaskTreeNode[]>;
+  public async findByProject(
+    projectId: string,
+    filters: { status?: string; priority?: TaskPriority } = {},
+    options: { asTree?: boolean; page?: TaskPage } = {}
+  ): Promise<ITask[] | ITaskTreeNode[]> {
     try {
+      if (options.asTree) {
+        return await this.findProjectTree(projectId, filters, options.page);
+      }
+
       let query = this.taskModel.query()
         .where('projectId', projectId)
         .withGraphFetched('[comments, attachments]');
@@ -193,6 +341,10 @@ export class TaskRepository {
         query = query.where('priority', filters.priority);
       }
 
+      if (options.page) {
+        query = query.limit(options.page.limit).offset(options.page.offset);
+      }
+
       return await query.orderBy('createdAt', 'desc');
     } catch (error) {
       this.logger.error('Failed to find tasks by project', { error });
@@ -217,6 +369,855 @@ export class TaskRepository {
     }
   }
 
+  /**
+   * Loads the task workflow configured in the owning project's settings
+   * @param projectId - Project ID
+   * @returns Promise<ProjectWorkflow> - Project workflow or the default workflow
+   */
+  public async getProjectWorkflow(projectId: string): Promise<ProjectWorkflow> {
+    try {
+      const project = await this.dbConnection.getKnex()('projects')
+        .where({ id: projectId })
+        .first('settings');
+
+      if (!project) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      return project.settings?.workflow || DEFAULT_TASK_WORKFLOW;
+    } catch (error) {
+      this.logger.error('Failed to load project workflow', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Queues an event for the webhook subscribers of the task's project
+   * @param event - Webhook event
+   * @returns Promise<number> - Number of deliveries queued
+   */
+  public async enqueueWebhookEvent(event: IWebhookEvent): Promise<number> {
+    try {
+      return await enqueueWebhookEvent(this.dbConnection.getKnex(), event);
+    } catch (error) {
+      this.logger.error('Failed to queue webhook event', { error, projectId: event.projectId, type: event.type });
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search over tasks, projects and comments in projects the user
+   * can access, ranked by relevance with highlighted snippets
+   * @param search - Search query
+   * @param userId - Searching user
+   * @param isAdmin - Whether the user may search every project
+   * @returns Promise of the requested page and the total number of hits
+   */
+  public async search(
+    search: ISearchQuery,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<{ results: ISearchResult[]; total: number }> {
+    try {
+      const branches = search.types.map(type => SEARCH_BRANCHES[type]).join(' UNION ALL ');
+
+      const result = await this.dbConnection.getKnex().raw<{ rows: SearchRow[] }>(
+        `WITH q AS (SELECT websearch_to_tsquery('english', ?) AS query),
+         accessible AS (
+           SELECT id FROM projects
+           WHERE (?::boolean OR owner_id = ? OR ? = ANY(member_ids))
+             AND (?::uuid IS NULL OR id = ?)
+         )
+         SELECT page.type, page.id, page.title,
+                ts_headline('english', page.body, q.query, ?) AS snippet,
+                page.rank, page.project_id AS "projectId", page.task_id AS "taskId",
+                page.updated_at AS "updatedAt", page.total
+         FROM (
+           SELECT results.*, count(*) OVER () AS total
+           FROM (${branches}) results
+           ORDER BY rank DESC, updated_at DESC
+           LIMIT ? OFFSET ?
+         ) page CROSS JOIN q
+         ORDER BY page.rank DESC, page.updated_at DESC`,
+        [
+          search.query,
+          isAdmin,
+          userId,
+          userId,
+          search.projectId || null,
+          search.projectId || null,
+          SEARCH_HEADLINE_OPTIONS,
+          search.limit,
+          search.offset
+        ]
+      );
+
+      return {
+        results: result.rows.map(({ total, rank, ...row }) => ({ ...row, rank: Number(rank) })),
+        total: parseInt(result.rows[0]?.total, 10) || 0
+      };
+    } catch (error) {
+      this.logger.error('Failed to search', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the parent chain of a task, nearest parent first
+   * @param taskId - Task ID
+   * @returns Promise<string[]> - Ancestor task IDs
+   */
+  public async findAncestorIds(taskId: string): Promise<string[]> {
+    try {
+      const result = await this.dbConnection.getKnex().raw(
+        `WITH RECURSIVE ancestors(id, parent_task_id, depth) AS (
+           SELECT id, parent_task_id, 0 FROM tasks WHERE id = ?
+           UNION ALL
+           SELECT t.id, t.parent_task_id, a.depth + 1 FROM tasks t
+           JOIN ancestors a ON t.id = a.parent_task_id
+           WHERE a.depth < 50
+         )
+         SELECT id FROM ancestors WHERE depth > 0 ORDER BY depth`,
+        [taskId]
+      );
+
+      return result.rows.map((row: { id: string }) => row.id);
+    } catch (error) {
+      this.logger.error('Failed to find task ancestors', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every task below a task, children first
+   * @param taskId - Task ID
+   * @returns Promise of descendant IDs with their depth below the task, starting at 1
+   */
+  public async findDescendants(taskId: string): Promise<Array<{ id: string; depth: number }>> {
+    try {
+      const result = await this.dbConnection.getKnex().raw(
+        `WITH RECURSIVE descendants(id, depth) AS (
+           SELECT id, 1 FROM tasks WHERE parent_task_id = ?
+           UNION ALL
+           SELECT t.id, d.depth + 1 FROM tasks t
+           JOIN descendants d ON t.parent_task_id = d.id
+           WHERE d.depth < 50
+         )
+         SELECT id, depth FROM descendants ORDER BY depth`,
+        [taskId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      this.logger.error('Failed to find task descendants', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists checklist items of a task in display order
+   * @param taskId - Task ID
+   * @returns Promise<ITaskChecklistItem[]> - Checklist items
+   */
+  public async findChecklist(taskId: string): Promise<ITaskChecklistItem[]> {
+    try {
+      return await this.checklistItemModel.query()
+        .where('taskId', taskId)
+        .modify('ordered');
+    } catch (error) {
+      this.logger.error('Failed to find task checklist', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a checklist item to a task and records it in the task's activity log
+   * @param taskId - Task ID
+   * @param content - Item text
+   * @param userId - Acting user
+   * @returns Promise<ITaskChecklistItem> - Created item
+   */
+  public async createChecklistItem(taskId: string, content: string, userId: string): Promise<ITaskChecklistItem> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const last = await this.checklistItemModel.query(trx)
+        .where('taskId', taskId)
+        .max('position as position')
+        .first() as unknown as { position: number | null } | undefined;
+
+      const item = await this.checklistItemModel.query(trx).insert({
+        taskId,
+        content,
+        position: last?.position === null || last?.position === undefined ? 0 : last.position + 1
+      });
+
+      await this.insertActivities(trx, [checklistActivity(item, TaskActivityType.CHECKLIST_ITEM_ADDED, userId)]);
+
+      await trx.commit();
+      return item;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to create checklist item', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a checklist item, recording who completed it. Checking an item
+   * off is also recorded in the task's activity log.
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param changes - Fields to change
+   * @param userId - Acting user
+   * @returns Promise<ITaskChecklistItem | null> - Updated item or null when not found
+   */
+  public async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    changes: Partial<Pick<ITaskChecklistItem, 'content' | 'isCompleted' | 'position'>>,
+    userId: string
+  ): Promise<ITaskChecklistItem | null> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const existing = await this.checklistItemModel.query(trx)
+        .findOne({ id: itemId, taskId })
+        .forUpdate();
+
+      if (!existing) {
+        await trx.rollback();
+        return null;
+      }
+
+      const patch: Partial<ITaskChecklistItem> = { ...changes };
+      if (changes.isCompleted !== undefined) {
+        patch.completedBy = changes.isCompleted ? userId : null;
+        patch.completedAt = changes.isCompleted ? new Date() : null;
+      }
+
+      const [item] = await this.checklistItemModel.query(trx)
+        .where({ id: itemId, taskId })
+        .patch(patch)
+        .returning('*');
+
+      if (item && item.isCompleted && !existing.isCompleted) {
+        await this.insertActivities(trx, [checklistActivity(item, TaskActivityType.CHECKLIST_ITEM_COMPLETED, userId)]);
+      }
+
+      await trx.commit();
+      return item || null;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to update checklist item', { error, itemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a checklist item from a task and records the removal in the
+   * task's activity log
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param userId - Acting user
+   * @returns Promise<boolean> - Deletion success status
+   */
+  public async deleteChecklistItem(taskId: string, itemId: string, userId: string): Promise<boolean> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const [deleted] = await this.checklistItemModel.query(trx)
+        .where({ id: itemId, taskId })
+        .delete()
+        .returning('*');
+
+      if (deleted) {
+        await this.insertActivities(trx, [checklistActivity(deleted, TaskActivityType.CHECKLIST_ITEM_REMOVED, userId)]);
+      }
+
+      await trx.commit();
+      return Boolean(deleted);
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to delete checklist item', { error, itemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a page of a task's activity, newest first
+   * @param taskId - Task ID
+   * @param page - Page size, offset and optional activity types to include
+   * @returns Promise of the requested page and the total number of entries
+   */
+  public async findActivities(
+    taskId: string,
+    page: { limit: number; offset: number; types?: TaskActivityType[] }
+  ): Promise<{ activities: ITaskActivity[]; total: number }> {
+    try {
+      const query = this.dbConnection.getKnex()('task_activities')
+        .where('task_id', taskId)
+        .modify((builder) => {
+          if (page.types?.length) {
+            builder.whereIn('activity_type', page.types);
+          }
+        });
+
+      const [activities, count] = await Promise.all([
+        query.clone()
+          .orderBy([{ column: 'created_at', order: 'desc' }, { column: 'id', order: 'desc' }])
+          .limit(page.limit)
+          .offset(page.offset)
+          .select(ACTIVITY_COLUMNS),
+        query.clone().count<{ count: string }[]>('* as count').first()
+      ]);
+
+      return { activities, total: parseInt(String(count?.count ?? 0), 10) };
+    } catch (error) {
+      this.logger.error('Failed to find task activity', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every comment on a task, including deleted ones, oldest first
+   * @param taskId - Task ID
+   * @returns Promise<ITaskComment[]> - Comments and replies
+   */
+  public async findComments(taskId: string): Promise<ITaskComment[]> {
+    try {
+      return await this.dbConnection.getKnex()('task_comments')
+        .where('task_id', taskId)
+        .orderBy('created_at', 'asc')
+        .select(COMMENT_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find task comments', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a comment on a task
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @returns Promise<ITaskComment | null> - Comment or null when not found
+   */
+  public async findComment(taskId: string, commentId: string): Promise<ITaskComment | null> {
+    try {
+      const comment = await this.dbConnection.getKnex()('task_comments')
+        .where({ id: commentId, task_id: taskId })
+        .first(COMMENT_COLUMNS);
+
+      return comment || null;
+    } catch (error) {
+      this.logger.error('Failed to find task comment', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a comment to a task and records it in the task activity log
+   * @param comment - Comment to create
+   * @returns Promise<ITaskComment> - Created comment
+   */
+  public async createComment(
+    comment: Pick<ITaskComment, 'taskId' | 'userId' | 'content' | 'parentId' | 'mentionedUserIds'>
+  ): Promise<ITaskComment> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const [created] = await trx('task_comments')
+        .insert({
+          task_id: comment.taskId,
+          user_id: comment.userId,
+          content: comment.content,
+          parent_id: comment.parentId,
+          mentioned_user_ids: comment.mentionedUserIds
+        })
+        .returning(COMMENT_COLUMNS);
+
+      await this.insertActivities(trx, [{
+        taskId: comment.taskId,
+        userId: comment.userId,
+        type: TaskActivityType.COMMENT_ADDED,
+        changes: { comment: { oldValue: null, newValue: created.id } },
+        metadata: {
+          commentId: created.id,
+          parentId: created.parentId,
+          mentionedUserIds: created.mentionedUserIds
+        }
+      }]);
+
+      await trx.commit();
+      return created;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to create task comment', { error, taskId: comment.taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the text of a comment, keeping the previous text as an edit
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param changes - New text and the users it mentions
+   * @param userId - Editing user
+   * @returns Promise<ITaskComment | null> - Updated comment or null when not found or deleted
+   */
+  public async updateComment(
+    taskId: string,
+    commentId: string,
+    changes: Pick<ITaskComment, 'content' | 'mentionedUserIds'>,
+    userId: string
+  ): Promise<ITaskComment | null> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const current = await trx('task_comments')
+        .where({ id: commentId, task_id: taskId })
+        .whereNull('deleted_at')
+        .forUpdate()
+        .first('content');
+
+      if (!current) {
+        await trx.rollback();
+        return null;
+      }
+
+      await trx('task_comment_edits').insert({
+        comment_id: commentId,
+        content: current.content,
+        edited_by: userId
+      });
+
+      const [updated] = await trx('task_comments')
+        .where({ id: commentId })
+        .update({
+          content: changes.content,
+          mentioned_user_ids: changes.mentionedUserIds,
+          edited_at: trx.fn.now()
+        })
+        .returning(COMMENT_COLUMNS);
+
+      await trx.commit();
+      return updated;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to update task comment', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Soft-deletes a comment so its replies keep their place in the thread.
+   * The text and its edit history are removed.
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @returns Promise<boolean> - Deletion success status
+   */
+  public async deleteComment(taskId: string, commentId: string): Promise<boolean> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const deleted = await trx('task_comments')
+        .where({ id: commentId, task_id: taskId })
+        .whereNull('deleted_at')
+        .update({ content: '', mentioned_user_ids: '{}', deleted_at: trx.fn.now() });
+
+      await trx('task_comment_edits').where('comment_id', commentId).delete();
+
+      await trx.commit();
+      return deleted > 0;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to delete task comment', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the previous versions of a comment, newest first
+   * @param commentId - Comment ID
+   * @returns Promise<ITaskCommentEdit[]> - Edit history
+   */
+  public async findCommentEdits(commentId: string): Promise<ITaskCommentEdit[]> {
+    try {
+      return await this.dbConnection.getKnex()('task_comment_edits')
+        .where('comment_id', commentId)
+        .orderBy('created_at', 'desc')
+        .select(COMMENT_EDIT_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find comment edit history', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves mentioned email addresses to active users who can access the project
+   * @param projectId - Project the comment belongs to
+   * @param emails - Lower-cased email addresses
+   * @returns Promise of matching user IDs and emails
+   */
+  public async findProjectUsersByEmail(
+    projectId: string,
+    emails: string[]
+  ): Promise<Array<{ id: string; email: string }>> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.dbConnection.getKnex()('users as u')
+        .whereIn(this.dbConnection.getKnex().raw('lower(u.email)'), emails)
+        .whereNull('u.deleted_at')
+        .whereRaw(
+          'EXISTS (SELECT 1 FROM projects p WHERE p.id = ? AND (p.owner_id = u.id OR u.id = ANY(p.member_ids)))',
+          [projectId]
+        )
+        .select('u.id', 'u.email');
+    } catch (error) {
+      this.logger.error('Failed to resolve mentioned users', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that every project exists and the user owns or is a member of each
+   * @param projectIds - Project IDs, duplicates allowed
+   * @param userId - Acting user
+   * @param isAdmin - Whether membership is skipped
+   * @returns Promise<boolean> - Whether all projects are accessible
+   */
+  public async canAccessProjects(projectIds: string[], userId: string, isAdmin: boolean): Promise<boolean> {
+    const uniqueIds = [...new Set(projectIds)];
+
+    try {
+      const result = await this.dbConnection.getKnex()('projects')
+        .whereIn('id', uniqueIds)
+        .modify((builder) => {
+          if (!isAdmin) {
+            builder.where((query) => {
+              query.where('owner_id', userId).orWhereRaw('? = ANY(member_ids)', [userId]);
+            });
+          }
+        })
+        .count<{ count: string }[]>('* as count')
+        .first();
+
+      return parseInt(String(result?.count ?? 0), 10) === uniqueIds.length;
+    } catch (error) {
+      this.logger.error('Failed to check project access', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Links two tasks, rejecting links that would close a cycle, and records
+   * the link in the activity log of both tasks
+   * @param dependency - Dependency to create
+   * @returns Promise<ITaskDependency> - Created dependency
+   */
+  public async createDependency(
+    dependency: Pick<ITaskDependency, 'sourceTaskId' | 'targetTaskId' | 'type' | 'createdBy'>
+  ): Promise<ITaskDependency> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const { sourceTaskId, targetTaskId, type } = dependency;
+
+      // Serialise concurrent link changes so two inserts cannot close a cycle together
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', ['task_dependencies']);
+
+      const closesCycle = type === TaskDependencyType.RELATES_TO
+        ? await this.dependencyExists(targetTaskId, sourceTaskId, type, trx)
+        : await this.hasDependencyPath(targetTaskId, sourceTaskId, type, trx);
+
+      if (closesCycle) {
+        throw new Error(ErrorCodes.TASK_DEPENDENCY_CYCLE.toString());
+      }
+
+      const [created] = await trx('task_dependencies')
+        .insert({
+          source_task_id: sourceTaskId,
+          target_task_id: targetTaskId,
+          type,
+          created_by: dependency.createdBy
+        })
+        .returning(DEPENDENCY_COLUMNS);
+
+      await this.insertActivities(trx, dependencyActivities(created, TaskActivityType.DEPENDENCY_ADDED, created.createdBy));
+
+      await trx.commit();
+      return created;
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to create task dependency', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a dependency attached to the given task and records the removal
+   * in the activity log of both tasks
+   * @param taskId - Task on either end of the dependency
+   * @param dependencyId - Dependency ID
+   * @param userId - Acting user
+   * @returns Promise<boolean> - Deletion success status
+   */
+  public async deleteDependency(taskId: string, dependencyId: string, userId: string): Promise<boolean> {
+    const trx = await this.dbConnection.getKnex().transaction();
+
+    try {
+      const [deleted] = await trx('task_dependencies')
+        .where({ id: dependencyId })
+        .andWhere((query) => {
+          query.where('source_task_id', taskId).orWhere('target_task_id', taskId);
+        })
+        .delete()
+        .returning(DEPENDENCY_COLUMNS);
+
+      if (deleted) {
+        await this.insertActivities(trx, dependencyActivities(deleted, TaskActivityType.DEPENDENCY_REMOVED, userId));
+      }
+
+      await trx.commit();
+      return Boolean(deleted);
+    } catch (error) {
+      await trx.rollback();
+      this.logger.error('Failed to delete task dependency', { error, dependencyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds every dependency touching any of the given tasks
+   * @param taskIds - Task IDs
+   * @returns Promise<ITaskDependency[]> - Dependencies in either direction
+   */
+  public async findDependencies(taskIds: string[]): Promise<ITaskDependency[]> {
+    try {
+      return await this.dbConnection.getKnex()('task_dependencies')
+        .select(DEPENDENCY_COLUMNS)
+        .whereIn('source_task_id', taskIds)
+        .orWhereIn('target_task_id', taskIds)
+        .orderBy('created_at', 'asc');
+    } catch (error) {
+      this.logger.error('Failed to find task dependencies', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the tasks that block the given task
+   * @param taskId - Blocked task ID
+   * @returns Promise of blocking task summaries
+   */
+  public async findBlockers(taskId: string): Promise<Array<Pick<ITask, 'id' | 'title' | 'status' | 'projectId'>>> {
+    try {
+      return await this.dbConnection.getKnex()('task_dependencies as d')
+        .join('tasks as t', 't.id', 'd.source_task_id')
+        .where({ 'd.target_task_id': taskId, 'd.type': TaskDependencyType.BLOCKS })
+        .select('t.id', 't.title', 't.status', 't.project_id as projectId');
+    } catch (error) {
+      this.logger.error('Failed to find task blockers', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Loads lightweight task summaries for graph rendering
+   * @param taskIds - Task IDs
+   * @returns Promise of task summaries
+   */
+  public async findSummaries(taskIds: string[]): Promise<Array<Pick<ITask, 'id' | 'title' | 'status' | 'projectId'>>> {
+    try {
+      return await this.dbConnection.getKnex()('tasks')
+        .whereIn('id', taskIds)
+        .select('id', 'title', 'status', 'project_id as projectId');
+    } catch (error) {
+      this.logger.error('Failed to find task summaries', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Writes task activity entries as part of the caller's transaction
+   */
+  private async insertActivities(trx: Transaction, entries: TaskActivityEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await trx('task_activities').insert(entries.map(entry => ({
+      task_id: entry.taskId,
+      user_id: entry.userId,
+      activity_type: entry.type,
+      changes: JSON.stringify(entry.changes),
+      metadata: JSON.stringify(entry.metadata)
+    })));
+  }
+
+  /**
+   * Checks whether toTaskId is reachable from fromTaskId along dependencies of one type
+   */
+  private async hasDependencyPath(
+    fromTaskId: string,
+    toTaskId: string,
+    type: TaskDependencyType,
+    trx: Transaction
+  ): Promise<boolean> {
+    const result = await trx.raw(
+      `WITH RECURSIVE reachable(task_id) AS (
+         SELECT target_task_id FROM task_dependencies WHERE source_task_id = ? AND type = ?
+         UNION
+         SELECT d.target_task_id FROM task_dependencies d
+         JOIN reachable r ON d.source_task_id = r.task_id
+         WHERE d.type = ?
+       )
+       SELECT EXISTS (SELECT 1 FROM reachable WHERE task_id = ?) AS has_path`,
+      [fromTaskId, type, type, toTaskId]
+    );
+
+    return fromTaskId === toTaskId || Boolean(result.rows[0]?.has_path);
+  }
+
+  /**
+   * Checks whether a direct dependency already exists
+   */
+  private async dependencyExists(
+    sourceTaskId: string,
+    targetTaskId: string,
+    type: TaskDependencyType,
+    trx: Transaction
+  ): Promise<boolean> {
+    const existing = await trx('task_dependencies')
+      .where({ source_task_id: sourceTaskId, target_task_id: targetTaskId, type })
+      .first('id');
+
+    return Boolean(existing);
+  }
+
+  /**
+   * Loads a page of root tasks with every matching task below them as a tree.
+   * Matching tasks whose parent does not match become roots, as in buildTaskTree.
+   */
+  private async findProjectTree(
+    projectId: string,
+    filters: { status?: string; priority?: TaskPriority },
+    page?: TaskPage
+  ): Promise<ITaskTreeNode[]> {
+    const result = await this.dbConnection.getKnex().raw(
+      `WITH RECURSIVE matching AS (
+         SELECT id, parent_task_id, created_at FROM tasks
+         WHERE project_id = ?
+           AND (?::text IS NULL OR status = ?)
+           AND (?::text IS NULL OR priority = ?)
+       ),
+       roots AS (
+         SELECT m.id FROM matching m
+         WHERE NOT EXISTS (SELECT 1 FROM matching p WHERE p.id = m.parent_task_id)
+         ORDER BY m.created_at DESC, m.id
+         LIMIT ? OFFSET ?
+       ),
+       tree(id, depth) AS (
+         SELECT id, 0 FROM roots
+         UNION ALL
+         SELECT m.id, tree.depth + 1 FROM matching m
+         JOIN tree ON m.parent_task_id = tree.id
+         WHERE tree.depth < 50
+       )
+       SELECT id FROM tree`,
+      [
+        projectId,
+        filters.status || null,
+        filters.status || null,
+        filters.priority || null,
+        filters.priority || null,
+        page?.limit ?? null,
+        page?.offset ?? 0
+      ]
+    );
+
+    const ids = result.rows.map((row: { id: string }) => row.id);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const tasks = await this.taskModel.query()
+      .whereIn('id', ids)
+      .withGraphFetched('[comments, attachments, checklist(ordered)]')
+      .orderBy([{ column: 'createdAt', order: 'desc' }, { column: 'id' }]);
+
+    const workflow = await this.getProjectWorkflow(projectId);
+    return this.buildTaskTree(tasks, workflow);
+  }
+
+  /**
+   * Nests tasks under their parents and rolls progress up from the leaves.
+   * Tasks whose parent is filtered out become roots.
+   */
+  private buildTaskTree(tasks: ITask[], workflow: ProjectWorkflow): ITaskTreeNode[] {
+    const nodes = new Map<string, ITaskTreeNode>(
+      tasks.map(task => [task.id, {
+        ...task,
+        subtasks: [],
+        checklist: (task as ITaskTreeNode).checklist || [],
+        progress: undefined as unknown as ITaskProgress
+      }])
+    );
+    const roots: ITaskTreeNode[] = [];
+
+    nodes.forEach(node => {
+      const parent = node.parentTaskId ? nodes.get(node.parentTaskId) : undefined;
+      if (parent) {
+        parent.subtasks.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+    const rollUp = (node: ITaskTreeNode): void => {
+      node.subtasks.forEach(rollUp);
+      node.progress = this.calculateProgress(node, node.subtasks, node.checklist, workflow);
+    };
+    roots.forEach(rollUp);
+
+    return roots;
+  }
+
+  /**
+   * Calculates completion counts for a task. Each subtask and checklist item weighs
+   * the same; an open subtask contributes its own rolled-up percentage.
+   */
+  private calculateProgress(
+    task: ITask,
+    subtasks: Array<ITask & { progress?: ITaskProgress }>,
+    checklist: ITaskChecklistItem[],
+    workflow: ProjectWorkflow
+  ): ITaskProgress {
+    const subtaskScores = subtasks.map(subtask =>
+      isDoneStatus(workflow, subtask.status) ? 100 : subtask.progress?.percentage || 0
+    );
+    const completedSubtasks = subtasks.filter(subtask => isDoneStatus(workflow, subtask.status)).length;
+    const completedChecklistItems = checklist.filter(item => item.isCompleted).length;
+    const units = subtasks.length + checklist.length;
+
+    const percentage = units === 0
+      ? (isDoneStatus(workflow, task.status) ? 100 : 0)
+      : Math.round(
+        (subtaskScores.reduce((sum, score) => sum + score, 0) + completedChecklistItems * 100) / units
+      );
+
+    return {
+      completedSubtasks,
+      totalSubtasks: subtasks.length,
+      completedChecklistItems,
+      totalChecklistItems: checklist.length,
+      percentage
+    };
+  }
+
   /**
    * Validates task data against business rules
    * @param taskData - Task data to validate
@@ -231,7 +1232,7 @@ export class TaskRepository {
       throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
     }
 
-    if (taskData.status && !Object.values(TaskStatus).includes(taskData.status)) {
+    if (taskData.status && !STATUS_KEY_PATTERN.test(taskData.status)) {
       throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
     }
 
@@ -9,14 +9,52 @@ import { CircuitBreaker } from 'opossum'; // v6.0.0
 import Redis from 'ioredis'; // v5.0.0
 import * as Prometheus from 'prom-client'; // v14.0.0
 import { Logger } from '../../../../shared/utils/logger.util';
-import { TaskRepository } from '../repositories/task.repository';
-import { ITask, TaskStatus, TaskPriority } from '../../../../shared/interfaces/task.interface';
+import {
+  TaskRepository,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_STOP
+} from '../repositories/task.repository';
+import {
+  ITask,
+  ITaskActivityPage,
+  ITaskChecklistItem,
+  ITaskComment,
+  ITaskCommentEdit,
+  ITaskCommentThread,
+  ITaskTreeNode,
+  ITaskDependency,
+  ITaskDependencyGraph,
+  TaskActivityType,
+  TaskDependencyType,
+  TaskPriority
+} from '../../../../shared/interfaces/task.interface';
+import { ProjectWorkflow } from '../../../../shared/interfaces/project.interface';
+import { UserRole } from '../../../../shared/interfaces/auth.interface';
+import { NotificationPriority, NotificationType } from '../../../../shared/interfaces/notification.interface';
+import { evaluateTransition, isDoneStatus } from '../../../../shared/utils/workflow.util';
 import { ErrorCodes } from '../../../../shared/constants/error-codes';
+import { WebhookEventType } from '../../../../shared/interfaces/webhook.interface';
+import { createWebhookEvent } from '../../../../shared/utils/webhook.util';
+import { RealtimeEventType, RealtimeRoomType } from '../../../../shared/interfaces/realtime.interface';
+import { publishRealtimeEvent, realtimeRoom } from '../../../../shared/utils/realtime.util';
+import { enqueueNotificationRequest } from '../../../../shared/utils/notification.util';
+import { ISearchQuery, ISearchResponse } from '../../../../shared/interfaces/search.interface';
 
 const CACHE_TTL = 3600; // 1 hour
+const WORKFLOW_CACHE_TTL = 300; // 5 minutes, invalidated by project-service on settings changes
 const RATE_LIMIT_WINDOW = 60; // 1 minute
 const RATE_LIMIT_MAX_REQUESTS = 100;
 const CIRCUIT_BREAKER_TIMEOUT = 3000; // 3 seconds
+const DEPENDENCY_GRAPH_MAX_DEPTH = 5;
+const DEPENDENCY_GRAPH_MAX_NODES = 200;
+const MAX_SUBTASK_DEPTH = 3; // Levels of nesting below a top-level task
+const MAX_MENTIONS_PER_COMMENT = 20;
+const MENTION_EXCERPT_LENGTH = 200;
+
+// Users are mentioned by email, e.g. "@jane.doe@example.com"
+const MENTION_PATTERN = /(^|[^\w.@])@([a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})/gi;
+// Markdown code spans and fenced blocks, where an @ is not a mention
+const MARKDOWN_CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
 
 @Injectable()
 export class TaskService {
@@ -89,12 +127,19 @@ export class TaskService {
         throw new Error(ErrorCodes.EXTERNAL_SERVICE_TIMEOUT.toString());
       }
 
+      // New tasks always enter the project workflow at its initial status
+      const workflow = await this.getProjectWorkflow(taskData.projectId);
+
+      if (taskData.parentTaskId) {
+        await this.validateParentTask(taskData.projectId!, taskData.parentTaskId);
+      }
+
       // Create task using circuit breaker
       const task = await this.taskCircuitBreaker.fire(async () => {
         const newTask = await this.taskRepository.create({
           ...taskData,
           creatorId,
-          status: TaskStatus.TODO,
+          status: workflow.initialStatus,
           createdAt: new Date(),
           updatedAt: new Date()
         });
@@ -120,6 +165,9 @@ export class TaskService {
         action: 'CREATE'
       });
 
+      await this.publishWebhookEvent(WebhookEventType.TASK_CREATED, task.projectId, { task }, creatorId);
+      await this.publishRealtime(this.taskRooms(task), RealtimeEventType.TASK_CREATED, task);
+
       return task;
     } catch (error) {
       this.taskOperationsCounter.inc({ operation: 'create', status: 'error' });
@@ -134,7 +182,8 @@ export class TaskService {
   public async updateTask(
     taskId: string,
     updateData: Partial<ITask>,
-    userId: string
+    userId: string,
+    userRole?: UserRole
   ): Promise<ITask> {
     const timer = this.taskOperationsDuration.startTimer({ operation: 'update' });
 
@@ -154,9 +203,39 @@ export class TaskService {
         }
       }
 
-      // Validate status transition
-      if (updateData.status && !this.isValidStatusTransition(task.status, updateData.status)) {
-        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      if (updateData.parentTaskId && updateData.parentTaskId !== task.parentTaskId) {
+        await this.validateParentTask(task.projectId, updateData.parentTaskId, taskId);
+      }
+
+      // Validate status transition against the project workflow and its guards
+      if (updateData.status && updateData.status !== task.status) {
+        const workflow = await this.getProjectWorkflow(task.projectId);
+        const transition = evaluateTransition(workflow, {
+          task,
+          toStatus: updateData.status,
+          actorId: userId,
+          actorRole: userRole
+        });
+
+        if (!transition.allowed) {
+          this.logger.warn('Rejected task status transition', {
+            taskId,
+            userId,
+            from: task.status,
+            to: updateData.status,
+            reason: transition.reason
+          });
+          throw new Error(transition.code!.toString());
+        }
+
+        // Finished statuses stay out of reach until every blocker is finished too
+        if (isDoneStatus(workflow, updateData.status)) {
+          const openBlockers = await this.getOpenBlockers(taskId);
+          if (openBlockers.length > 0) {
+            this.logger.warn('Rejected completion of blocked task', { taskId, userId, openBlockers });
+            throw new Error(ErrorCodes.TASK_BLOCKED.toString());
+          }
+        }
       }
 
       // Update task using circuit breaker
@@ -164,7 +243,7 @@ export class TaskService {
         const result = await this.taskRepository.update(taskId, {
           ...updateData,
           updatedAt: new Date()
-        });
+        }, userId);
 
         // Invalidate cache
         await this.redisClient.del(`task:${taskId}`);
@@ -183,6 +262,19 @@ export class TaskService {
         action: 'UPDATE'
       });
 
+      await this.publishWebhookEvent(WebhookEventType.TASK_UPDATED, task.projectId, {
+        task: updatedTask,
+        changes: updateData
+      }, userId);
+      if (updateData.status && updateData.status !== task.status) {
+        await this.publishWebhookEvent(WebhookEventType.TASK_STATUS_CHANGED, task.projectId, {
+          task: updatedTask,
+          from: task.status,
+          to: updateData.status
+        }, userId);
+      }
+      await this.publishRealtime(this.taskRooms(task), RealtimeEventType.TASK_UPDATED, updatedTask);
+
       return updatedTask;
     } catch (error) {
       this.taskOperationsCounter.inc({ operation: 'update', status: 'error' });
@@ -192,17 +284,741 @@ export class TaskService {
   }
 
   /**
-   * Validates task status transitions
+   * Retrieves project tasks, optionally as a subtask tree with rolled-up progress
+   */
+  public async getProjectTasks(
+    projectId: string,
+    options: { status?: string; priority?: TaskPriority; page?: number; limit?: number; tree?: boolean }
+  ): Promise<ITask[] | ITaskTreeNode[]> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'list' });
+    const { status, priority, page, limit, tree } = options;
+
+    try {
+      const filters = { status, priority };
+      // Pagination applies to top-level nodes when returning a tree
+      const pageWindow = page && limit ? { limit, offset: (page - 1) * limit } : undefined;
+      const tasks = await this.taskCircuitBreaker.fire(async () => {
+        return tree
+          ? await this.taskRepository.findByProject(projectId, filters, { asTree: true, page: pageWindow })
+          : await this.taskRepository.findByProject(projectId, filters, { page: pageWindow });
+      });
+
+      this.taskOperationsCounter.inc({ operation: 'list', status: 'success' });
+      timer({ operation: 'list' });
+
+      return tasks;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'list', status: 'error' });
+      this.logger.error('Failed to get project tasks', { error, projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * Searches tasks, projects and comments the user can access. Snippets are
+   * HTML-escaped with matched terms wrapped in <mark> tags.
+   */
+  public async search(search: ISearchQuery, userId: string, userRole?: UserRole): Promise<ISearchResponse> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'search' });
+
+    try {
+      const { results, total } = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.search(search, userId, userRole === UserRole.ADMIN);
+      });
+
+      this.taskOperationsCounter.inc({ operation: 'search', status: 'success' });
+      timer({ operation: 'search' });
+
+      return {
+        results: results.map(result => ({ ...result, snippet: highlightSnippet(result.snippet) })),
+        total,
+        limit: search.limit,
+        offset: search.offset
+      };
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'search', status: 'error' });
+      this.logger.error('Failed to search', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a page of a task's activity history, newest first
+   */
+  public async getActivity(
+    taskId: string,
+    page: { limit: number; offset: number; types?: TaskActivityType[] }
+  ): Promise<ITaskActivityPage> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'activity' });
+
+    try {
+      const { activities, total } = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.findActivities(taskId, page);
+      });
+
+      this.taskOperationsCounter.inc({ operation: 'activity', status: 'success' });
+      timer({ operation: 'activity' });
+
+      return { activities, total, limit: page.limit, offset: page.offset };
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'activity', status: 'error' });
+      this.logger.error('Failed to get task activity', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves checklist items of a task
+   */
+  public async getChecklist(taskId: string): Promise<ITaskChecklistItem[]> {
+    return await this.taskCircuitBreaker.fire(async () => {
+      return await this.taskRepository.findChecklist(taskId);
+    });
+  }
+
+  /**
+   * Adds a checklist item to a task
+   */
+  public async addChecklistItem(taskId: string, content: string, userId: string): Promise<ITaskChecklistItem> {
+    try {
+      const item = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.createChecklistItem(taskId, content, userId);
+      });
+
+      await this.redisClient.del(`task:${taskId}`);
+      this.taskOperationsCounter.inc({ operation: 'add_checklist_item', status: 'success' });
+
+      await this.logger.audit('Checklist item added', {
+        resourceId: taskId,
+        userId,
+        action: 'ADD_CHECKLIST_ITEM',
+        details: { itemId: item.id }
+      });
+
+      return item;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'add_checklist_item', status: 'error' });
+      this.logger.error('Failed to add checklist item', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates or checks off a checklist item
+   */
+  public async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    changes: Partial<Pick<ITaskChecklistItem, 'content' | 'isCompleted' | 'position'>>,
+    userId: string
+  ): Promise<ITaskChecklistItem> {
+    try {
+      const item = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.updateChecklistItem(taskId, itemId, changes, userId);
+      });
+
+      if (!item) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      await this.redisClient.del(`task:${taskId}`);
+      this.taskOperationsCounter.inc({ operation: 'update_checklist_item', status: 'success' });
+
+      return item;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'update_checklist_item', status: 'error' });
+      this.logger.error('Failed to update checklist item', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a checklist item from a task
+   */
+  public async removeChecklistItem(taskId: string, itemId: string, userId: string): Promise<void> {
+    try {
+      const deleted = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.deleteChecklistItem(taskId, itemId, userId);
+      });
+
+      if (!deleted) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      await this.redisClient.del(`task:${taskId}`);
+      this.taskOperationsCounter.inc({ operation: 'remove_checklist_item', status: 'success' });
+
+      await this.logger.audit('Checklist item removed', {
+        resourceId: taskId,
+        userId,
+        action: 'REMOVE_CHECKLIST_ITEM',
+        details: { itemId }
+      });
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'remove_checklist_item', status: 'error' });
+      this.logger.error('Failed to remove checklist item', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the comment threads of a task. Deleted comments are kept as
+   * empty placeholders while they still have replies.
+   */
+  public async getComments(taskId: string): Promise<ITaskCommentThread[]> {
+    try {
+      const comments = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.findComments(taskId);
+      });
+
+      const threads = new Map<string, ITaskCommentThread>();
+      for (const comment of comments.filter(comment => !comment.parentId)) {
+        threads.set(comment.id, { ...comment, replies: [] });
+      }
+      for (const reply of comments.filter(comment => comment.parentId && !comment.deletedAt)) {
+        threads.get(reply.parentId!)?.replies.push(reply);
+      }
+
+      return [...threads.values()].filter(thread => !thread.deletedAt || thread.replies.length > 0);
+    } catch (error) {
+      this.logger.error('Failed to get task comments', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a comment or a reply to a task and notifies mentioned users.
+   * Replies to a reply join the thread of its top-level comment.
+   */
+  public async addComment(
+    taskId: string,
+    commentData: { content: string; parentId?: string },
+    userId: string
+  ): Promise<ITaskComment> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'add_comment' });
+
+    try {
+      const [task] = await this.taskRepository.findSummaries([taskId]);
+      if (!task) {
+        throw new Error(ErrorCodes.TASK_NOT_FOUND.toString());
+      }
+
+      let parentId: string | null = null;
+      if (commentData.parentId) {
+        const parent = await this.taskRepository.findComment(taskId, commentData.parentId);
+        if (!parent || parent.deletedAt) {
+          throw new Error(ErrorCodes.TASK_COMMENT_NOT_FOUND.toString());
+        }
+        parentId = parent.parentId || parent.id;
+      }
+
+      const mentionedUserIds = await this.resolveMentions(task.projectId, commentData.content, userId);
+
+      const comment = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.createComment({
+          taskId,
+          userId,
+          content: commentData.content,
+          parentId,
+          mentionedUserIds
+        });
+      });
+
+      this.taskOperationsCounter.inc({ operation: 'add_comment', status: 'success' });
+      timer({ operation: 'add_comment' });
+
+      await this.logger.audit('Task comment added', {
+        resourceId: taskId,
+        userId,
+        action: 'ADD_COMMENT',
+        details: { commentId: comment.id, parentId, mentionedUserIds }
+      });
+
+      await this.notifyMentions(task, comment, mentionedUserIds, userId);
+      await this.publishRealtime(this.taskRooms(task), RealtimeEventType.COMMENT_CREATED, comment);
+
+      return comment;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'add_comment', status: 'error' });
+      this.logger.error('Failed to add task comment', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Edits the text of a comment. Only the author may edit, and only users
+   * mentioned for the first time are notified.
+   */
+  public async updateComment(
+    taskId: string,
+    commentId: string,
+    content: string,
+    userId: string
+  ): Promise<ITaskComment> {
+    try {
+      const existing = await this.findActiveComment(taskId, commentId);
+      if (existing.userId !== userId) {
+        throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+      }
+
+      const [task] = await this.taskRepository.findSummaries([taskId]);
+      if (!task) {
+        throw new Error(ErrorCodes.TASK_NOT_FOUND.toString());
+      }
+      const mentionedUserIds = await this.resolveMentions(task.projectId, content, userId);
+
+      const comment = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.updateComment(taskId, commentId, { content, mentionedUserIds }, userId);
+      });
+
+      if (!comment) {
+        throw new Error(ErrorCodes.TASK_COMMENT_NOT_FOUND.toString());
+      }
+
+      this.taskOperationsCounter.inc({ operation: 'update_comment', status: 'success' });
+
+      await this.logger.audit('Task comment edited', {
+        resourceId: taskId,
+        userId,
+        action: 'UPDATE_COMMENT',
+        details: { commentId }
+      });
+
+      await this.notifyMentions(
+        task,
+        comment,
+        mentionedUserIds.filter(id => !existing.mentionedUserIds.includes(id)),
+        userId
+      );
+      await this.publishRealtime(this.taskRooms(task), RealtimeEventType.COMMENT_UPDATED, comment);
+
+      return comment;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'update_comment', status: 'error' });
+      this.logger.error('Failed to update task comment', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a comment; allowed for its author and administrators
    */
-  private isValidStatusTransition(currentStatus: TaskStatus, newStatus: TaskStatus): boolean {
-    const allowedTransitions: Record<TaskStatus, TaskStatus[]> = {
-      [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS],
-      [TaskStatus.IN_PROGRESS]: [TaskStatus.REVIEW, TaskStatus.TODO],
-      [TaskStatus.REVIEW]: [TaskStatus.DONE, TaskStatus.IN_PROGRESS],
-      [TaskStatus.DONE]: [TaskStatus.REVIEW]
-    };
+  public async removeComment(taskId: string, commentId: string, userId: string, userRole?: UserRole): Promise<void> {
+    try {
+      const existing = await this.findActiveComment(taskId, commentId);
+      if (existing.userId !== userId && userRole !== UserRole.ADMIN) {
+        throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+      }
+
+      const deleted = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.deleteComment(taskId, commentId);
+      });
+
+      if (!deleted) {
+        throw new Error(ErrorCodes.TASK_COMMENT_NOT_FOUND.toString());
+      }
+
+      this.taskOperationsCounter.inc({ operation: 'remove_comment', status: 'success' });
+
+      await this.logger.audit('Task comment removed', {
+        resourceId: taskId,
+        userId,
+        action: 'REMOVE_COMMENT',
+        details: { commentId, authorId: existing.userId }
+      });
 
-    return allowedTransitions[currentStatus]?.includes(newStatus) || currentStatus === newStatus;
+      await this.publishRealtime(
+        [realtimeRoom(RealtimeRoomType.TASK, taskId)],
+        RealtimeEventType.COMMENT_DELETED,
+        { id: commentId, taskId, parentId: existing.parentId }
+      );
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'remove_comment', status: 'error' });
+      this.logger.error('Failed to remove task comment', { error, commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the previous versions of a comment, newest first
+   */
+  public async getCommentHistory(taskId: string, commentId: string): Promise<ITaskCommentEdit[]> {
+    await this.findActiveComment(taskId, commentId);
+
+    return await this.taskCircuitBreaker.fire(async () => {
+      return await this.taskRepository.findCommentEdits(commentId);
+    });
+  }
+
+  /**
+   * Links a task to another task with cycle detection. The user must have
+   * access to the projects of both tasks.
+   */
+  public async addDependency(
+    taskId: string,
+    dependencyData: { targetTaskId: string; type: TaskDependencyType },
+    userId: string,
+    userRole?: UserRole
+  ): Promise<ITaskDependency> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'add_dependency' });
+
+    try {
+      const { targetTaskId, type } = dependencyData;
+      if (taskId === targetTaskId) {
+        throw new Error(ErrorCodes.TASK_DEPENDENCY_CYCLE.toString());
+      }
+
+      const tasks = await this.taskRepository.findSummaries([taskId, targetTaskId]);
+      if (tasks.length !== 2) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+      await this.assertProjectAccess(tasks.map(task => task.projectId), userId, userRole);
+
+      const dependency = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.createDependency({
+          sourceTaskId: taskId,
+          targetTaskId,
+          type,
+          createdBy: userId
+        });
+      });
+
+      this.taskOperationsCounter.inc({ operation: 'add_dependency', status: 'success' });
+      timer({ operation: 'add_dependency' });
+
+      await this.logger.audit('Task dependency added', {
+        resourceId: taskId,
+        userId,
+        action: 'ADD_DEPENDENCY',
+        details: { dependencyId: dependency.id, targetTaskId, type }
+      });
+
+      const sourceTask = tasks.find(summary => summary.id === taskId)!;
+      await this.publishWebhookEvent(
+        WebhookEventType.TASK_DEPENDENCY_ADDED,
+        sourceTask.projectId,
+        { dependency },
+        userId
+      );
+
+      return dependency;
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'add_dependency', status: 'error' });
+      this.logger.error('Failed to add task dependency', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a dependency from a task. Like adding one, this needs access to
+   * the projects of the tasks on both ends.
+   */
+  public async removeDependency(
+    taskId: string,
+    dependencyId: string,
+    userId: string,
+    userRole?: UserRole
+  ): Promise<void> {
+    try {
+      const dependency = (await this.taskRepository.findDependencies([taskId]))
+        .find(existing => existing.id === dependencyId);
+      if (!dependency) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      const tasks = await this.taskRepository.findSummaries([dependency.sourceTaskId, dependency.targetTaskId]);
+      await this.assertProjectAccess(tasks.map(summary => summary.projectId), userId, userRole);
+      const task = tasks.find(summary => summary.id === taskId);
+
+      const deleted = await this.taskCircuitBreaker.fire(async () => {
+        return await this.taskRepository.deleteDependency(taskId, dependencyId, userId);
+      });
+
+      if (!deleted) {
+        throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+      }
+
+      this.taskOperationsCounter.inc({ operation: 'remove_dependency', status: 'success' });
+
+      await this.logger.audit('Task dependency removed', {
+        resourceId: taskId,
+        userId,
+        action: 'REMOVE_DEPENDENCY',
+        details: { dependencyId }
+      });
+
+      if (task) {
+        await this.publishWebhookEvent(
+          WebhookEventType.TASK_DEPENDENCY_REMOVED,
+          task.projectId,
+          { taskId, dependencyId },
+          userId
+        );
+      }
+    } catch (error) {
+      this.taskOperationsCounter.inc({ operation: 'remove_dependency', status: 'error' });
+      this.logger.error('Failed to remove task dependency', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the dependency graph reachable from a task, bounded in depth and size.
+   * Tasks in projects the user cannot access are left out and not walked past.
+   */
+  public async getDependencyGraph(
+    taskId: string,
+    userId: string,
+    userRole?: UserRole
+  ): Promise<ITaskDependencyGraph> {
+    const timer = this.taskOperationsDuration.startTimer({ operation: 'dependency_graph' });
+
+    try {
+      const [root] = await this.taskRepository.findSummaries([taskId]);
+      if (!root) {
+        throw new Error(ErrorCodes.TASK_NOT_FOUND.toString());
+      }
+      await this.assertProjectAccess([root.projectId], userId, userRole);
+
+      const projectAccess = new Map<string, boolean>([[root.projectId, true]]);
+      const summaries = new Map([[root.id, root]]);
+      const edges = new Map<string, ITaskDependency>();
+      let frontier = [taskId];
+
+      for (let depth = 0; depth < DEPENDENCY_GRAPH_MAX_DEPTH && frontier.length > 0; depth++) {
+        const dependencies = await this.taskRepository.findDependencies(frontier);
+        const discovered = new Set<string>();
+
+        for (const dependency of dependencies) {
+          edges.set(dependency.id, dependency);
+          for (const id of [dependency.sourceTaskId, dependency.targetTaskId]) {
+            if (!summaries.has(id)) {
+              discovered.add(id);
+            }
+          }
+        }
+
+        const next: string[] = [];
+        for (const task of await this.taskRepository.findSummaries([...discovered])) {
+          if (!projectAccess.has(task.projectId)) {
+            projectAccess.set(
+              task.projectId,
+              await this.taskRepository.canAccessProjects([task.projectId], userId, userRole === UserRole.ADMIN)
+            );
+          }
+          if (projectAccess.get(task.projectId) && summaries.size < DEPENDENCY_GRAPH_MAX_NODES) {
+            summaries.set(task.id, task);
+            next.push(task.id);
+          }
+        }
+
+        frontier = next;
+      }
+
+      const workflows = new Map<string, ProjectWorkflow>();
+      for (const task of summaries.values()) {
+        if (!workflows.has(task.projectId)) {
+          workflows.set(task.projectId, await this.getProjectWorkflow(task.projectId));
+        }
+      }
+
+      timer({ operation: 'dependency_graph' });
+
+      return {
+        rootTaskId: taskId,
+        nodes: [...summaries.values()].map(task => ({
+          ...task,
+          isDone: isDoneStatus(workflows.get(task.projectId)!, task.status)
+        })),
+        // Edges to tasks the user cannot see or cut off by the node limit are dropped
+        edges: [...edges.values()].filter(
+          edge => summaries.has(edge.sourceTaskId) && summaries.has(edge.targetTaskId)
+        )
+      };
+    } catch (error) {
+      this.logger.error('Failed to build task dependency graph', { error, taskId });
+      throw error;
+    }
+  }
+
+  /**
+   * Ensures a parent task belongs to the same project, is not a descendant of the
+   * task being moved and keeps the hierarchy within MAX_SUBTASK_DEPTH. A task that
+   * is moved brings its own subtasks along, so their depth counts too.
+   */
+  private async validateParentTask(projectId: string, parentTaskId: string, taskId?: string): Promise<void> {
+    const [parent] = await this.taskRepository.findSummaries([parentTaskId]);
+    if (!parent || parent.projectId !== projectId || parentTaskId === taskId) {
+      throw new Error(ErrorCodes.INVALID_TASK_HIERARCHY.toString());
+    }
+
+    const ancestorIds = await this.taskRepository.findAncestorIds(parentTaskId);
+    if (taskId && ancestorIds.includes(taskId)) {
+      throw new Error(ErrorCodes.INVALID_TASK_HIERARCHY.toString());
+    }
+
+    const descendants = taskId ? await this.taskRepository.findDescendants(taskId) : [];
+    const subtreeDepth = Math.max(0, ...descendants.map(descendant => descendant.depth));
+    if (ancestorIds.length + 1 + subtreeDepth > MAX_SUBTASK_DEPTH) {
+      throw new Error(ErrorCodes.INVALID_TASK_HIERARCHY.toString());
+    }
+  }
+
+  /**
+   * Ensures the user owns or is a member of every given project;
+   * administrators only need the projects to exist
+   */
+  private async assertProjectAccess(projectIds: string[], userId: string, userRole?: UserRole): Promise<void> {
+    const allowed = await this.taskRepository.canAccessProjects(projectIds, userId, userRole === UserRole.ADMIN);
+    if (!allowed) {
+      throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    }
+  }
+
+  /**
+   * Returns the IDs of blocking tasks that are not in a finished status
+   */
+  private async getOpenBlockers(taskId: string): Promise<string[]> {
+    const blockers = await this.taskRepository.findBlockers(taskId);
+    const openBlockers: string[] = [];
+
+    for (const blocker of blockers) {
+      const workflow = await this.getProjectWorkflow(blocker.projectId);
+      if (!isDoneStatus(workflow, blocker.status)) {
+        openBlockers.push(blocker.id);
+      }
+    }
+
+    return openBlockers;
+  }
+
+  /**
+   * Loads a comment that has not been deleted
+   */
+  private async findActiveComment(taskId: string, commentId: string): Promise<ITaskComment> {
+    const comment = await this.taskRepository.findComment(taskId, commentId);
+    if (!comment || comment.deletedAt) {
+      throw new Error(ErrorCodes.TASK_COMMENT_NOT_FOUND.toString());
+    }
+    return comment;
+  }
+
+  /**
+   * Resolves the users mentioned in a comment, ignoring addresses of people
+   * outside the project and the author themselves
+   */
+  private async resolveMentions(projectId: string, content: string, authorId: string): Promise<string[]> {
+    const emails = new Set<string>();
+    for (const match of content.replace(MARKDOWN_CODE_PATTERN, ' ').matchAll(MENTION_PATTERN)) {
+      if (match[2]) {
+        emails.add(match[2].toLowerCase());
+      }
+    }
+
+    const users = await this.taskRepository.findProjectUsersByEmail(
+      projectId,
+      [...emails].slice(0, MAX_MENTIONS_PER_COMMENT)
+    );
+    return users.map(user => user.id).filter(id => id !== authorId);
+  }
+
+  /**
+   * Queues a mention notification for each user with the notification
+   * service. Failures are logged per recipient so one bad request does not
+   * undo the saved comment.
+   */
+  private async notifyMentions(
+    task: Pick<ITask, 'id' | 'title' | 'projectId'>,
+    comment: ITaskComment,
+    recipientIds: string[],
+    senderId: string
+  ): Promise<void> {
+    const excerpt = comment.content.replace(/\s+/g, ' ').trim().slice(0, MENTION_EXCERPT_LENGTH);
+
+    for (const recipientId of recipientIds) {
+      try {
+        await enqueueNotificationRequest(this.redisClient, {
+          kind: 'notification',
+          notification: {
+            type: NotificationType.MENTION,
+            title: `You were mentioned on ${task.title}`,
+            message: excerpt,
+            link: `/tasks/${task.id}#comment-${comment.id}`,
+            recipientId,
+            senderId,
+            priority: NotificationPriority.MEDIUM,
+            metadata: {
+              taskId: task.id,
+              projectId: task.projectId,
+              commentId: comment.id
+            }
+          }
+        });
+      } catch (error) {
+        this.logger.error('Failed to queue mention notification', { error, commentId: comment.id, recipientId });
+      }
+    }
+  }
+
+  /**
+   * Retrieves the project workflow with caching
+   */
+  private async getProjectWorkflow(projectId: string): Promise<ProjectWorkflow> {
+    const cacheKey = `project:${projectId}:workflow`;
+    const cachedWorkflow = await this.redisClient.get(cacheKey);
+    if (cachedWorkflow) {
+      return JSON.parse(cachedWorkflow);
+    }
+
+    const workflow = await this.taskCircuitBreaker.fire(async () => {
+      return await this.taskRepository.getProjectWorkflow(projectId);
+    });
+
+    await this.redisClient.setex(cacheKey, WORKFLOW_CACHE_TTL, JSON.stringify(workflow));
+    return workflow;
+  }
+
+  /**
+   * Queues a webhook event for the project's subscribers. Failures are logged
+   * rather than thrown since the change itself has already been saved.
+   */
+  private async publishWebhookEvent(
+    type: WebhookEventType,
+    projectId: string,
+    data: Record<string, any>,
+    actorId: string
+  ): Promise<void> {
+    try {
+      await this.taskRepository.enqueueWebhookEvent(createWebhookEvent(type, projectId, data, actorId));
+    } catch (error) {
+      this.logger.error('Failed to publish task webhook event', { error, projectId, type });
+    }
+  }
+
+  /**
+   * Rooms that hear about changes to a task: its project and the task itself
+   */
+  private taskRooms(task: Pick<ITask, 'id' | 'projectId'>): string[] {
+    return [
+      realtimeRoom(RealtimeRoomType.PROJECT, task.projectId),
+      realtimeRoom(RealtimeRoomType.TASK, task.id)
+    ];
+  }
+
+  /**
+   * Pushes an event to connected clients; like webhook events, a failure is
+   * logged and does not fail the change that was already saved
+   */
+  private async publishRealtime(
+    rooms: string[],
+    type: RealtimeEventType,
+    payload: Record<string, any>
+  ): Promise<void> {
+    try {
+      await Promise.all(rooms.map(room => publishRealtimeEvent(this.redisClient, room, type, payload)));
+    } catch (error) {
+      this.logger.error('Failed to publish realtime event', { error, rooms, type });
+    }
   }
 
   /**
@@ -243,4 +1059,21 @@ export class TaskService {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escapes a search snippet and turns the repository's highlight markers into <mark> tags
+ */
+const highlightSnippet = (snippet: string): string =>
+  (snippet || '')
+    .replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+    .split(SEARCH_HIGHLIGHT_START).join('<mark>')
+    .split(SEARCH_HIGHLIGHT_STOP).join('</mark>');
\ No newline at end of file
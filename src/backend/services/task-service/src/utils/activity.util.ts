@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Builds typed task activity entries from the difference between
+ * a stored task and the changes applied to it.
+ * @version 1.0.0
+ */
+
+import {
+  ITask,
+  ITaskActivity,
+  ITaskChecklistItem,
+  ITaskDependency,
+  TaskActivityType
+} from '../../../../shared/interfaces/task.interface';
+
+export type TaskActivityEntry = Pick<ITaskActivity, 'taskId' | 'userId' | 'type' | 'changes' | 'metadata'>;
+
+// Fields with an activity type of their own
+const FIELD_ACTIVITY_TYPES: Array<[keyof ITask, TaskActivityType]> = [
+  ['status', TaskActivityType.STATUS_CHANGED],
+  ['priority', TaskActivityType.PRIORITY_CHANGED],
+  ['dueDate', TaskActivityType.DUE_DATE_CHANGED]
+];
+
+// ID lists reported as separate added and removed entries
+const LIST_ACTIVITY_TYPES: Array<[keyof ITask, TaskActivityType, TaskActivityType]> = [
+  ['assigneeIds', TaskActivityType.ASSIGNEE_ADDED, TaskActivityType.ASSIGNEE_REMOVED],
+  ['attachmentIds', TaskActivityType.ATTACHMENT_ADDED, TaskActivityType.ATTACHMENT_REMOVED]
+];
+
+// Remaining fields, grouped into a single UPDATED entry
+const UPDATED_FIELDS: Array<keyof ITask> = ['title', 'description', 'tags', 'parentTaskId'];
+
+/**
+ * Brings stored and submitted values to one shape so they compare equal,
+ * e.g. a Date from the database and an ISO string from the request
+ */
+const normalize = (field: keyof ITask, value: any): any => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (field === 'dueDate') {
+    return new Date(value).toISOString();
+  }
+  return value;
+};
+
+const isSame = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Records the values a task was created with
+ */
+export const buildCreatedActivity = (task: ITask): TaskActivityEntry => {
+  const changes: ITaskActivity['changes'] = {};
+  const fields = [
+    ...FIELD_ACTIVITY_TYPES.map(([field]) => field),
+    ...LIST_ACTIVITY_TYPES.map(([field]) => field),
+    ...UPDATED_FIELDS
+  ];
+
+  for (const field of fields) {
+    const value = normalize(field, task[field]);
+    if (value !== null && !(Array.isArray(value) && value.length === 0)) {
+      changes[field] = { oldValue: null, newValue: value };
+    }
+  }
+
+  return {
+    taskId: task.id,
+    userId: task.creatorId,
+    type: TaskActivityType.CREATED,
+    changes,
+    metadata: { projectId: task.projectId }
+  };
+};
+
+/**
+ * Compares a stored task with an update and returns one entry per kind of
+ * change. Fields missing from the update are left out.
+ */
+export const diffTaskActivities = (
+  before: ITask,
+  update: Partial<ITask>,
+  userId: string
+): TaskActivityEntry[] => {
+  const entries: TaskActivityEntry[] = [];
+  const entry = (type: TaskActivityType, changes: ITaskActivity['changes'], metadata: Record<string, any> = {}) =>
+    entries.push({ taskId: before.id, userId, type, changes, metadata });
+
+  for (const [field, type] of FIELD_ACTIVITY_TYPES) {
+    if (!(field in update)) continue;
+
+    const oldValue = normalize(field, before[field]);
+    const newValue = normalize(field, update[field]);
+    if (!isSame(oldValue, newValue)) {
+      entry(type, { [field]: { oldValue, newValue } });
+    }
+  }
+
+  for (const [field, addedType, removedType] of LIST_ACTIVITY_TYPES) {
+    if (!(field in update)) continue;
+
+    const oldValue: string[] = (before[field] as string[]) || [];
+    const newValue: string[] = (update[field] as string[]) || [];
+    const added = newValue.filter(id => !oldValue.includes(id));
+    const removed = oldValue.filter(id => !newValue.includes(id));
+
+    if (added.length > 0) {
+      entry(addedType, { [field]: { oldValue, newValue } }, { ids: added });
+    }
+    if (removed.length > 0) {
+      entry(removedType, { [field]: { oldValue, newValue } }, { ids: removed });
+    }
+  }
+
+  const changes: ITaskActivity['changes'] = {};
+  for (const field of UPDATED_FIELDS) {
+    if (!(field in update)) continue;
+
+    const oldValue = normalize(field, before[field]);
+    const newValue = normalize(field, update[field]);
+    if (!isSame(oldValue, newValue)) {
+      changes[field] = { oldValue, newValue };
+    }
+  }
+  if (Object.keys(changes).length > 0) {
+    entry(TaskActivityType.UPDATED, changes);
+  }
+
+  return entries;
+};
+
+/**
+ * Records a dependency being added or removed on the tasks at both ends, so
+ * it shows in either task's history
+ */
+export const dependencyActivities = (
+  dependency: ITaskDependency,
+  type: TaskActivityType.DEPENDENCY_ADDED | TaskActivityType.DEPENDENCY_REMOVED,
+  userId: string
+): TaskActivityEntry[] => {
+  const isAdded = type === TaskActivityType.DEPENDENCY_ADDED;
+  const metadata = {
+    dependencyId: dependency.id,
+    sourceTaskId: dependency.sourceTaskId,
+    targetTaskId: dependency.targetTaskId,
+    dependencyType: dependency.type
+  };
+
+  return [dependency.sourceTaskId, dependency.targetTaskId].map(taskId => ({
+    taskId,
+    userId,
+    type,
+    changes: {
+      dependency: isAdded
+        ? { oldValue: null, newValue: dependency.id }
+        : { oldValue: dependency.id, newValue: null }
+    },
+    metadata
+  }));
+};
+
+/**
+ * Builds the activity entry for a checklist item being added, checked off or removed
+ */
+export const checklistActivity = (
+  item: ITaskChecklistItem,
+  type: TaskActivityType.CHECKLIST_ITEM_ADDED | TaskActivityType.CHECKLIST_ITEM_COMPLETED | TaskActivityType.CHECKLIST_ITEM_REMOVED,
+  userId: string
+): TaskActivityEntry => ({
+  taskId: item.taskId,
+  userId,
+  type,
+  changes: {
+    checklistItem: type === TaskActivityType.CHECKLIST_ITEM_REMOVED
+      ? { oldValue: item.id, newValue: null }
+      : type === TaskActivityType.CHECKLIST_ITEM_ADDED
+        ? { oldValue: null, newValue: item.id }
+        : { oldValue: false, newValue: true }
+  },
+  metadata: {
+    checklistItemId: item.id,
+    content: item.content
+  }
+});
\ No newline at end of file
@@ -9,7 +9,8 @@ import Joi from 'joi'; // v17.9.0
 import sanitizeHtml from 'sanitize-html'; // v2.11.0
 import { Cache } from 'cache-manager'; // v5.2.0
 import { createLogger } from 'winston'; // v3.8.0
-import { TaskPriority, TaskStatus, TaskActivityType } from '../../../shared/interfaces/task.interface';
+import { TaskPriority, TaskActivityType, TaskDependencyType } from '../../../shared/interfaces/task.interface';
+import { SearchResultType } from '../../../../shared/interfaces/search.interface';
 
 // Validation Constants
 const TITLE_MIN_LENGTH = 3;
@@ -20,6 +21,12 @@ const MAX_TAGS = 5;
 const VALIDATION_CACHE_TTL = 300; // seconds
 const MAX_VALIDATION_ATTEMPTS = 5;
 const VALIDATION_RATE_LIMIT = 100; // per minute
+const CHECKLIST_ITEM_MAX_LENGTH = 255;
+const COMMENT_MAX_LENGTH = 10000;
+const SEARCH_QUERY_MAX_LENGTH = 200;
+const SEARCH_MAX_LIMIT = 50;
+const ACTIVITY_MAX_LIMIT = 100;
+const STATUS_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,49}$/; // Workflow status key, validated against the project workflow by TaskService
 
 // Configure validation logger
 const validationLogger = createLogger({
@@ -84,9 +91,9 @@ export const createTaskSchema = Joi.object({
 
   status: Joi.string()
     .required()
-    .valid(...Object.values(TaskStatus))
+    .pattern(STATUS_KEY_PATTERN)
     .messages({
-      'any.only': 'Invalid task status'
+      'string.pattern.base': 'Invalid task status'
     }),
 
   assigneeIds: Joi.array()
@@ -116,6 +123,13 @@ export const createTaskSchema = Joi.object({
       'string.pattern.base': 'Tags can only contain letters, numbers, and hyphens'
     }),
 
+  parentTaskId: Joi.string()
+    .uuid()
+    .allow(null)
+    .messages({
+      'string.guid': 'Invalid parent task ID format'
+    }),
+
   attachments: Joi.array()
     .items(Joi.object({
       id: Joi.string().uuid().required(),
@@ -195,6 +209,165 @@ export const validateUpdateTask = async (
   return validateCreateTask(taskData, cache);
 };
 
+/**
+ * Joi schema for linking a task to another task
+ */
+export const taskDependencySchema = Joi.object({
+  targetTaskId: Joi.string()
+    .required()
+    .uuid()
+    .messages({
+      'string.empty': 'Target task ID is required',
+      'string.guid': 'Invalid target task ID format'
+    }),
+
+  type: Joi.string()
+    .required()
+    .valid(...Object.values(TaskDependencyType))
+    .messages({
+      'any.only': 'Invalid dependency type'
+    })
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Validates task dependency data
+ */
+export const validateTaskDependency = (dependencyData: any): Joi.ValidationResult =>
+  taskDependencySchema.validate(dependencyData);
+
+/**
+ * Joi schema for adding a checklist item
+ */
+export const checklistItemCreateSchema = Joi.object({
+  content: Joi.string()
+    .required()
+    .trim()
+    .min(1)
+    .max(CHECKLIST_ITEM_MAX_LENGTH)
+    .messages({
+      'string.empty': 'Checklist item text is required',
+      'string.max': `Checklist item cannot exceed ${CHECKLIST_ITEM_MAX_LENGTH} characters`
+    })
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Joi schema for editing or checking off a checklist item
+ */
+export const checklistItemUpdateSchema = Joi.object({
+  content: Joi.string()
+    .trim()
+    .min(1)
+    .max(CHECKLIST_ITEM_MAX_LENGTH),
+  isCompleted: Joi.boolean(),
+  position: Joi.number().integer().min(0)
+}).min(1).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Validates checklist item data, sanitizing the item text
+ */
+export const validateChecklistItem = (itemData: any, isUpdate = false): Joi.ValidationResult => {
+  if (itemData?.content) {
+    itemData.content = sanitizeHtml(itemData.content, { allowedTags: [] });
+  }
+
+  return (isUpdate ? checklistItemUpdateSchema : checklistItemCreateSchema).validate(itemData);
+};
+
+/**
+ * Joi schema for adding a comment or a reply
+ */
+export const commentCreateSchema = Joi.object({
+  content: Joi.string()
+    .required()
+    .trim()
+    .min(1)
+    .max(COMMENT_MAX_LENGTH)
+    .messages({
+      'string.empty': 'Comment text is required',
+      'string.max': `Comment cannot exceed ${COMMENT_MAX_LENGTH} characters`
+    }),
+  parentId: Joi.string()
+    .uuid()
+    .messages({
+      'string.guid': 'Invalid parent comment ID format'
+    })
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Joi schema for editing a comment
+ */
+export const commentUpdateSchema = Joi.object({
+  content: Joi.string()
+    .required()
+    .trim()
+    .min(1)
+    .max(COMMENT_MAX_LENGTH)
+    .messages({
+      'string.empty': 'Comment text is required',
+      'string.max': `Comment cannot exceed ${COMMENT_MAX_LENGTH} characters`
+    })
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Validates comment data. Content is markdown and is stored as written;
+ * clients render it with raw HTML disabled, so it is not HTML-sanitized here.
+ */
+export const validateComment = (commentData: any, isUpdate = false): Joi.ValidationResult =>
+  (isUpdate ? commentUpdateSchema : commentCreateSchema).validate(commentData);
+
+/**
+ * Joi schema for full-text search query parameters; types is a comma separated list
+ */
+export const searchQuerySchema = Joi.object({
+  q: Joi.string()
+    .required()
+    .trim()
+    .min(1)
+    .max(SEARCH_QUERY_MAX_LENGTH)
+    .messages({
+      'string.empty': 'Search query is required',
+      'string.max': `Search query cannot exceed ${SEARCH_QUERY_MAX_LENGTH} characters`
+    }),
+  types: Joi.array()
+    .items(Joi.string().valid(...Object.values(SearchResultType)))
+    .single()
+    .unique()
+    .default(Object.values(SearchResultType)),
+  projectId: Joi.string().uuid(),
+  limit: Joi.number().integer().min(1).max(SEARCH_MAX_LIMIT).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Validates full-text search query parameters
+ */
+export const validateSearchQuery = (params: any): Joi.ValidationResult =>
+  searchQuerySchema.validate({
+    ...params,
+    types: typeof params?.types === 'string' ? params.types.split(',') : params?.types
+  });
+
+/**
+ * Joi schema for activity history query parameters; types is a comma separated list
+ */
+export const activityQuerySchema = Joi.object({
+  types: Joi.array()
+    .items(Joi.string().valid(...Object.values(TaskActivityType)))
+    .single()
+    .unique(),
+  limit: Joi.number().integer().min(1).max(ACTIVITY_MAX_LIMIT).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+}).options({ stripUnknown: true, abortEarly: false });
+
+/**
+ * Validates activity history query parameters
+ */
+export const validateActivityQuery = (params: any): Joi.ValidationResult =>
+  activityQuerySchema.validate({
+    ...params,
+    types: typeof params?.types === 'string' ? params.types.split(',') : params?.types
+  });
+
 /**
  * Validates task activity log entry
  */
@@ -12,8 +12,25 @@ import MockRedis from 'ioredis-mock';
 import { GenericContainer, StartedTestContainer } from 'testcontainers';
 import app from '../src/app';
 import { TaskService } from '../src/services/task.service';
-import { TaskStatus, TaskPriority } from '../../../shared/interfaces/task.interface';
+import { diffTaskActivities } from '../src/utils/activity.util';
+import {
+  ITask,
+  TaskActivityType,
+  TaskStatus,
+  TaskPriority,
+  TaskDependencyType
+} from '../../../shared/interfaces/task.interface';
 import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { UserRole } from '../../../shared/interfaces/auth.interface';
+import {
+  WorkflowStatusCategory,
+  WorkflowTransitionGuard
+} from '../../../shared/interfaces/project.interface';
+import {
+  DEFAULT_TASK_WORKFLOW,
+  evaluateTransition,
+  validateWorkflowDefinition
+} from '../../../shared/utils/workflow.util';
 import { HttpStatusCodes } from '../../../shared/constants/status-codes';
 
 // Test context interface
@@ -174,6 +191,367 @@ describe('Task Service Integration Tests', () => {
     });
   });
 
+  describe('Task Dependencies', () => {
+    it('should reject dependencies that create a cycle', async () => {
+      const userId = faker.string.uuid();
+      const first = await context.taskService.createTask(generateTaskData(), userId);
+      const second = await context.taskService.createTask(generateTaskData(), userId);
+      const third = await context.taskService.createTask(generateTaskData(), userId);
+
+      await context.taskService.addDependency(first.id, { targetTaskId: second.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN);
+      await context.taskService.addDependency(second.id, { targetTaskId: third.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN);
+
+      const response = await context.testServer
+        .post(`/api/v1/tasks/${third.id}/dependencies`)
+        .send({ targetTaskId: first.id, type: TaskDependencyType.BLOCKS })
+        .expect(HttpStatusCodes.CONFLICT);
+
+      expect(response.body.code).toBe(ErrorCodes.TASK_DEPENDENCY_CYCLE);
+    });
+
+    it('should not complete a task while a blocker is open', async () => {
+      const userId = faker.string.uuid();
+      const blocker = await context.taskService.createTask(generateTaskData(), userId);
+      const blocked = await context.taskService.createTask(generateTaskData(), userId);
+      await context.taskService.addDependency(blocker.id, { targetTaskId: blocked.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN);
+
+      for (const status of [TaskStatus.IN_PROGRESS, TaskStatus.REVIEW]) {
+        await context.taskService.updateTask(blocked.id, { status }, userId);
+      }
+
+      const response = await context.testServer
+        .put(`/api/v1/tasks/${blocked.id}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(HttpStatusCodes.CONFLICT);
+
+      expect(response.body.code).toBe(ErrorCodes.TASK_BLOCKED);
+    });
+
+    it('should return the dependency graph around a task', async () => {
+      const userId = faker.string.uuid();
+      const blocker = await context.taskService.createTask(generateTaskData(), userId);
+      const blocked = await context.taskService.createTask(generateTaskData(), userId);
+      await context.taskService.addDependency(blocker.id, { targetTaskId: blocked.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/${blocked.id}/dependencies`)
+        .expect(HttpStatusCodes.OK);
+
+      expect(response.body.nodes).toHaveLength(2);
+      expect(response.body.edges[0].sourceTaskId).toBe(blocker.id);
+    });
+
+    it('should not link tasks in projects the user cannot access', async () => {
+      const userId = faker.string.uuid();
+      const own = await context.taskService.createTask(generateTaskData(), userId);
+      const foreign = await context.taskService.createTask(generateTaskData(), faker.string.uuid());
+
+      await expect(
+        context.taskService.addDependency(own.id, { targetTaskId: foreign.id, type: TaskDependencyType.RELATES_TO }, userId)
+      ).rejects.toThrow(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    });
+
+    it('should leave tasks the user cannot access out of the dependency graph', async () => {
+      const userId = faker.string.uuid();
+      const own = await context.taskService.createTask(generateTaskData(), userId);
+      const foreign = await context.taskService.createTask(generateTaskData(), faker.string.uuid());
+      await context.taskService.addDependency(own.id, { targetTaskId: foreign.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN);
+
+      const graph = await context.taskService.getDependencyGraph(own.id, userId);
+
+      expect(graph.nodes.map(node => node.id)).toEqual([own.id]);
+      expect(graph.edges).toHaveLength(0);
+      await expect(context.taskService.getDependencyGraph(foreign.id, userId))
+        .rejects.toThrow(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    });
+
+    it('should record added and removed dependencies on both tasks', async () => {
+      const userId = faker.string.uuid();
+      const blocker = await context.taskService.createTask(generateTaskData(), userId);
+      const blocked = await context.taskService.createTask(generateTaskData(), userId);
+      const dependency = await context.taskService.addDependency(
+        blocker.id, { targetTaskId: blocked.id, type: TaskDependencyType.BLOCKS }, userId, UserRole.ADMIN
+      );
+      await context.taskService.removeDependency(blocked.id, dependency.id, userId, UserRole.ADMIN);
+
+      for (const task of [blocker, blocked]) {
+        const page = await context.taskService.getActivity(task.id, {
+          limit: 10,
+          offset: 0,
+          types: [TaskActivityType.DEPENDENCY_ADDED, TaskActivityType.DEPENDENCY_REMOVED]
+        });
+        expect(page.activities.map(activity => activity.type)).toEqual([
+          TaskActivityType.DEPENDENCY_REMOVED,
+          TaskActivityType.DEPENDENCY_ADDED
+        ]);
+        expect(page.activities[0].metadata.dependencyId).toBe(dependency.id);
+      }
+    });
+  });
+
+  describe('Subtasks and Checklists', () => {
+    it('should roll up subtask and checklist progress in the project tree', async () => {
+      const userId = faker.string.uuid();
+      const parentData = generateTaskData();
+      const parent = await context.taskService.createTask(parentData, userId);
+      await context.taskService.createTask({ ...generateTaskData(), projectId: parentData.projectId, parentTaskId: parent.id }, userId);
+      const item = await context.taskService.addChecklistItem(parent.id, 'Write release notes', userId);
+      await context.taskService.addChecklistItem(parent.id, 'Update changelog', userId);
+      await context.taskService.updateChecklistItem(parent.id, item.id, { isCompleted: true }, userId);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/project/${parentData.projectId}?tree=true`)
+        .expect(HttpStatusCodes.OK);
+
+      const root = response.body.find((task: any) => task.id === parent.id);
+      expect(root.subtasks).toHaveLength(1);
+      expect(root.progress).toMatchObject({
+        completedSubtasks: 0,
+        totalSubtasks: 1,
+        completedChecklistItems: 1,
+        totalChecklistItems: 2
+      });
+    });
+
+    it('should roll progress up from grandchildren when fetching a task', async () => {
+      const userId = faker.string.uuid();
+      const taskData = generateTaskData();
+      const parent = await context.taskService.createTask(taskData, userId);
+      const child = await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId, parentTaskId: parent.id }, userId);
+      const grandchild = await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId, parentTaskId: child.id }, userId);
+      const item = await context.taskService.addChecklistItem(grandchild.id, 'Check copy', userId);
+      await context.taskService.addChecklistItem(grandchild.id, 'Check links', userId);
+      await context.taskService.updateChecklistItem(grandchild.id, item.id, { isCompleted: true }, userId);
+
+      const fetched = await context.taskService.getTaskById(parent.id);
+
+      expect(fetched?.progress).toMatchObject({ totalSubtasks: 1, percentage: 50 });
+    });
+
+    it('should count the moved subtree when checking the nesting depth', async () => {
+      const userId = faker.string.uuid();
+      const taskData = generateTaskData();
+      const inProject = (parentTaskId: string) => ({ ...generateTaskData(), projectId: taskData.projectId, parentTaskId });
+      const target = await context.taskService.createTask(taskData, userId);
+      const nested = await context.taskService.createTask(inProject(target.id), userId);
+      const moved = await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId }, userId);
+      const movedChild = await context.taskService.createTask(inProject(moved.id), userId);
+      await context.taskService.createTask(inProject(movedChild.id), userId);
+
+      // nested sits one level down, so moved would put its grandchild four levels deep
+      await expect(
+        context.taskService.updateTask(moved.id, { parentTaskId: nested.id }, userId)
+      ).rejects.toThrow(ErrorCodes.INVALID_TASK_HIERARCHY.toString());
+    });
+
+    it('should page root tasks of the project tree', async () => {
+      const userId = faker.string.uuid();
+      const taskData = generateTaskData();
+      const first = await context.taskService.createTask(taskData, userId);
+      await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId, parentTaskId: first.id }, userId);
+      await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId }, userId);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/project/${taskData.projectId}?tree=true&page=2&limit=1`)
+        .expect(HttpStatusCodes.OK);
+
+      expect(response.body.map((task: any) => task.id)).toEqual([first.id]);
+      expect(response.body[0].subtasks).toHaveLength(1);
+    });
+
+    it('should reject a parent task that would create a loop', async () => {
+      const userId = faker.string.uuid();
+      const taskData = generateTaskData();
+      const parent = await context.taskService.createTask(taskData, userId);
+      const child = await context.taskService.createTask({ ...generateTaskData(), projectId: taskData.projectId, parentTaskId: parent.id }, userId);
+
+      const response = await context.testServer
+        .put(`/api/v1/tasks/${parent.id}`)
+        .send({ parentTaskId: child.id })
+        .expect(HttpStatusCodes.BAD_REQUEST);
+
+      expect(response.body.code).toBe(ErrorCodes.INVALID_TASK_HIERARCHY);
+    });
+  });
+
+  describe('Activity History', () => {
+    it('should record typed activity for each change, newest first', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      await context.taskService.updateTask(task.id, {
+        status: TaskStatus.IN_PROGRESS,
+        priority: TaskPriority.LOW,
+        assigneeIds: [...task.assigneeIds, userId]
+      }, userId);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/${task.id}/activity?limit=10`)
+        .expect(HttpStatusCodes.OK);
+
+      expect(response.body.total).toBe(4);
+      expect(response.body.activities.map((activity: any) => activity.type)).toEqual(expect.arrayContaining([
+        TaskActivityType.STATUS_CHANGED,
+        TaskActivityType.PRIORITY_CHANGED,
+        TaskActivityType.ASSIGNEE_ADDED
+      ]));
+      expect(response.body.activities[3].type).toBe(TaskActivityType.CREATED);
+    });
+
+    it('should page and filter activity by type', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      await context.taskService.updateTask(task.id, { status: TaskStatus.IN_PROGRESS }, userId);
+      await context.taskService.updateTask(task.id, { status: TaskStatus.REVIEW }, userId);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/${task.id}/activity?types=${TaskActivityType.STATUS_CHANGED}&limit=1&offset=1`)
+        .expect(HttpStatusCodes.OK);
+
+      expect(response.body).toMatchObject({ total: 2, limit: 1, offset: 1 });
+      expect(response.body.activities[0].changes.status).toEqual({
+        oldValue: task.status,
+        newValue: TaskStatus.IN_PROGRESS
+      });
+
+      await context.testServer
+        .get(`/api/v1/tasks/${task.id}/activity?types=RENAMED`)
+        .expect(HttpStatusCodes.BAD_REQUEST);
+    });
+
+    it('should record checklist items being added, checked off and removed', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      const item = await context.taskService.addChecklistItem(task.id, 'Write release notes', userId);
+      await context.taskService.updateChecklistItem(task.id, item.id, { isCompleted: true }, userId);
+      await context.taskService.updateChecklistItem(task.id, item.id, { content: 'Write the release notes' }, userId);
+      await context.taskService.removeChecklistItem(task.id, item.id, userId);
+
+      const page = await context.taskService.getActivity(task.id, {
+        limit: 10,
+        offset: 0,
+        types: [
+          TaskActivityType.CHECKLIST_ITEM_ADDED,
+          TaskActivityType.CHECKLIST_ITEM_COMPLETED,
+          TaskActivityType.CHECKLIST_ITEM_REMOVED
+        ]
+      });
+
+      expect(page.activities.map(activity => activity.type)).toEqual([
+        TaskActivityType.CHECKLIST_ITEM_REMOVED,
+        TaskActivityType.CHECKLIST_ITEM_COMPLETED,
+        TaskActivityType.CHECKLIST_ITEM_ADDED
+      ]);
+      expect(page.activities.every(activity => activity.metadata.checklistItemId === item.id)).toBe(true);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should thread replies to a reply under the top-level comment', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      const comment = await context.taskService.addComment(task.id, { content: 'Needs **design** review' }, userId);
+      const reply = await context.taskService.addComment(task.id, { content: 'On it', parentId: comment.id }, userId);
+      await context.taskService.addComment(task.id, { content: 'Thanks', parentId: reply.id }, userId);
+
+      const response = await context.testServer
+        .get(`/api/v1/tasks/${task.id}/comments`)
+        .expect(HttpStatusCodes.OK);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].content).toBe('Needs **design** review');
+      expect(response.body[0].replies).toHaveLength(2);
+      expect(response.body[0].replies.every((item: any) => item.parentId === comment.id)).toBe(true);
+    });
+
+    it('should keep edit history and only let the author edit', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      const comment = await context.taskService.addComment(task.id, { content: 'First draft' }, userId);
+
+      const edited = await context.taskService.updateComment(task.id, comment.id, 'Second draft', userId);
+      expect(edited.editedAt).not.toBeNull();
+
+      const history = await context.taskService.getCommentHistory(task.id, comment.id);
+      expect(history.map(edit => edit.content)).toEqual(['First draft']);
+
+      await expect(
+        context.taskService.updateComment(task.id, comment.id, 'Hijacked', faker.string.uuid())
+      ).rejects.toThrow(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    });
+
+    it('should keep deleted comments with replies as placeholders', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+      const answered = await context.taskService.addComment(task.id, { content: 'Question' }, userId);
+      await context.taskService.addComment(task.id, { content: 'Answer', parentId: answered.id }, userId);
+      const lonely = await context.taskService.addComment(task.id, { content: 'Typo' }, userId);
+
+      await context.taskService.removeComment(task.id, answered.id, userId);
+      await context.taskService.removeComment(task.id, lonely.id, userId);
+
+      const threads = await context.taskService.getComments(task.id);
+      expect(threads).toHaveLength(1);
+      expect(threads[0]).toMatchObject({ id: answered.id, content: '' });
+      expect(threads[0].deletedAt).not.toBeNull();
+      expect(threads[0].replies).toHaveLength(1);
+
+      await context.testServer
+        .delete(`/api/v1/tasks/${task.id}/comments/${lonely.id}`)
+        .expect(HttpStatusCodes.NOT_FOUND);
+    });
+
+    it('should ignore mentions of people outside the project and inside code', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask(generateTaskData(), userId);
+
+      const comment = await context.taskService.addComment(task.id, {
+        content: 'cc @outsider@example.com, see `@config@example.com`'
+      }, userId);
+
+      expect(comment.mentionedUserIds).toEqual([]);
+    });
+
+    it('should reject empty comments', async () => {
+      const task = await context.taskService.createTask(generateTaskData(), faker.string.uuid());
+
+      await context.testServer
+        .post(`/api/v1/tasks/${task.id}/comments`)
+        .send({ content: '   ' })
+        .expect(HttpStatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('Search', () => {
+    it('should return ranked task matches with escaped, highlighted snippets', async () => {
+      const userId = faker.string.uuid();
+      const task = await context.taskService.createTask({
+        ...generateTaskData(),
+        title: 'Migrate invoicing service',
+        description: 'Move <legacy> invoicing jobs to the new queue'
+      }, userId);
+
+      const response = await context.testServer
+        .get('/api/v1/tasks/search?q=invoicing&types=task')
+        .expect(HttpStatusCodes.OK);
+
+      const result = response.body.results.find((item: any) => item.id === task.id);
+      expect(result.type).toBe('task');
+      expect(result.snippet).toContain('<mark>invoicing</mark>');
+      expect(result.snippet).toContain('&lt;legacy&gt;');
+      expect(response.body.total).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should reject empty queries and unknown result types', async () => {
+      await context.testServer
+        .get('/api/v1/tasks/search?q=')
+        .expect(HttpStatusCodes.BAD_REQUEST);
+
+      await context.testServer
+        .get('/api/v1/tasks/search?q=invoice&types=user')
+        .expect(HttpStatusCodes.BAD_REQUEST);
+    });
+  });
+
   describe('Real-time Updates', () => {
     it('should process real-time updates via Redis', async () => {
       const task = await context.taskService.createTask(generateTaskData(), faker.string.uuid());
@@ -189,6 +567,107 @@ describe('Task Service Integration Tests', () => {
   });
 });
 
+describe('Task Workflow Rules', () => {
+  const assigneeId = faker.string.uuid();
+  const creatorId = faker.string.uuid();
+  const guardedWorkflow = {
+    ...DEFAULT_TASK_WORKFLOW,
+    transitions: [
+      ...DEFAULT_TASK_WORKFLOW.transitions.filter(t => t.to !== TaskStatus.DONE),
+      {
+        from: TaskStatus.REVIEW,
+        to: TaskStatus.DONE,
+        guards: [WorkflowTransitionGuard.MANAGER_ONLY]
+      }
+    ]
+  };
+  const task = { status: TaskStatus.REVIEW, assigneeIds: [assigneeId], creatorId };
+
+  it('should accept the default workflow', () => {
+    expect(validateWorkflowDefinition(DEFAULT_TASK_WORKFLOW).isValid).toBe(true);
+  });
+
+  it('should reject workflows without a done status or with unknown transitions', () => {
+    const result = validateWorkflowDefinition({
+      initialStatus: 'BACKLOG',
+      statuses: [
+        { key: 'BACKLOG', name: 'Backlog', category: WorkflowStatusCategory.TODO, order: 0 }
+      ],
+      transitions: [{ from: 'BACKLOG', to: 'SHIPPED' }]
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('should reject transitions missing from the workflow', () => {
+    const result = evaluateTransition(DEFAULT_TASK_WORKFLOW, {
+      task: { ...task, status: TaskStatus.TODO },
+      toStatus: TaskStatus.DONE,
+      actorId: assigneeId
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe(ErrorCodes.INVALID_STATUS_TRANSITION);
+  });
+
+  it('should enforce transition guards', () => {
+    const denied = evaluateTransition(guardedWorkflow, {
+      task,
+      toStatus: TaskStatus.DONE,
+      actorId: assigneeId,
+      actorRole: UserRole.TEAM_MEMBER
+    });
+    const allowed = evaluateTransition(guardedWorkflow, {
+      task,
+      toStatus: TaskStatus.DONE,
+      actorId: assigneeId,
+      actorRole: UserRole.PROJECT_MANAGER
+    });
+
+    expect(denied.code).toBe(ErrorCodes.TRANSITION_NOT_PERMITTED);
+    expect(allowed.allowed).toBe(true);
+  });
+});
+
+describe('Task Activity Diffs', () => {
+  const userId = faker.string.uuid();
+  const [kept, dropped, added] = [faker.string.uuid(), faker.string.uuid(), faker.string.uuid()];
+  const task = {
+    ...generateTaskData(),
+    id: faker.string.uuid(),
+    dueDate: new Date('2026-03-01T00:00:00.000Z'),
+    assigneeIds: [kept, dropped],
+    attachmentIds: []
+  } as unknown as ITask;
+
+  it('should ignore fields that are missing or unchanged', () => {
+    expect(diffTaskActivities(task, {
+      title: task.title,
+      dueDate: '2026-03-01T00:00:00.000Z' as unknown as Date
+    }, userId)).toEqual([]);
+  });
+
+  it('should split assignee changes into added and removed entries', () => {
+    const entries = diffTaskActivities(task, { assigneeIds: [kept, added] }, userId);
+
+    expect(entries.map(entry => [entry.type, entry.metadata.ids])).toEqual([
+      [TaskActivityType.ASSIGNEE_ADDED, [added]],
+      [TaskActivityType.ASSIGNEE_REMOVED, [dropped]]
+    ]);
+  });
+
+  it('should group other field changes into one update entry', () => {
+    const [entry] = diffTaskActivities(task, { title: 'Renamed', tags: [] }, userId);
+
+    expect(entry.type).toBe(TaskActivityType.UPDATED);
+    expect(entry.changes).toEqual({
+      title: { oldValue: task.title, newValue: 'Renamed' },
+      tags: { oldValue: task.tags, newValue: [] }
+    });
+  });
+});
+
 describe('Task Service Security Tests', () => {
   let context: TestContext;
 
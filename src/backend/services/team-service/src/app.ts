@@ -0,0 +1,227 @@
+/**
+ * Team Service Entry Point
+ * Version: 1.0.0
+ * Express server for team management: teams, their settings, members and
+ * emailed invitations, and the audit log of changes made to them.
+ */
+
+import express, { Express, Request, Response, NextFunction, Router } from 'express'; // ^4.18.0
+import cors from 'cors'; // ^2.8.5
+import helmet from 'helmet'; // ^7.0.0
+import compression from 'compression'; // ^1.7.4
+import morgan from 'morgan'; // ^1.10.0
+import rateLimit from 'express-rate-limit'; // ^6.7.0
+import { expressjwt as jwt, Params as JwtParams } from 'express-jwt'; // ^8.4.1
+import Redis from 'ioredis'; // ^5.3.0
+import Logger from '../../../shared/utils/logger.util';
+import { errorHandler } from '../../../shared/middleware/error-handler';
+import { TeamController } from './controllers/team.controller';
+import { TeamService } from './services/team.service';
+import { TeamRepository } from './repositories/team.repository';
+import { db } from './config/database.config';
+import { HttpStatusCodes } from '../../../shared/constants/status-codes';
+
+// Environment constants
+const PORT = process.env.PORT || 3005;
+const API_VERSION = 'v1';
+const BASE_PATH = `/api/${API_VERSION}/teams`;
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX = 100;
+// Invitation links are answered by people who may not have an account yet
+const INVITATION_PATHS = ['preview', 'accept', 'reject'].map(action => `${BASE_PATH}/invitations/${action}`);
+const CORS_WHITELIST = [
+  process.env.FRONTEND_URL,
+  process.env.ADMIN_URL
+].filter(Boolean);
+
+// Initialize logger
+const logger = Logger.getInstance('TeamService', {
+  enableConsole: true,
+  enableFile: true
+});
+
+type ControllerHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+/**
+ * Bind the team controller's handlers to their routes
+ */
+function createTeamRouter(controller: TeamController): Router {
+  const router = Router();
+  const bind = (handler: ControllerHandler) => handler.bind(controller);
+
+  router.post('/invitations/preview', bind(controller.previewInvitation));
+  router.post('/invitations/accept', bind(controller.acceptInvitation));
+  router.post('/invitations/reject', bind(controller.rejectInvitation));
+
+  router.get('/', bind(controller.listTeams));
+  router.post('/', bind(controller.createTeam));
+  router.get('/:id', bind(controller.getTeam));
+  router.put('/:id', bind(controller.updateTeam));
+  router.delete('/:id', bind(controller.deleteTeam));
+  router.get('/:id/settings', bind(controller.getSettings));
+  router.put('/:id/settings', bind(controller.updateSettings));
+  router.get('/:id/members', bind(controller.listMembers));
+  router.post('/:id/members', bind(controller.addMember));
+  router.put('/:id/members/:userId', bind(controller.updateMemberRole));
+  router.delete('/:id/members/:userId', bind(controller.removeMember));
+  router.get('/:id/invitations', bind(controller.listInvitations));
+  router.post('/:id/invitations', bind(controller.createInvitation));
+  router.post('/:id/invitations/:invitationId/resend', bind(controller.resendInvitation));
+  router.delete('/:id/invitations/:invitationId', bind(controller.revokeInvitation));
+  router.get('/:id/audit-logs', bind(controller.getAuditLog));
+
+  return router;
+}
+
+/**
+ * Initialize Express application with comprehensive middleware chain
+ */
+function initializeApp(teamController: TeamController): Express {
+  const app = express();
+
+  // Security middleware
+  app.use(helmet({
+    contentSecurityPolicy: {
+      directives: {
+        defaultSrc: ["'self'"],
+        objectSrc: ["'none'"],
+        frameSrc: ["'none'"]
+      }
+    },
+    crossOriginResourcePolicy: { policy: "same-site" },
+    frameguard: { action: 'deny' },
+    hidePoweredBy: true,
+    hsts: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    noSniff: true,
+    referrerPolicy: { policy: 'same-origin' }
+  }));
+
+  // CORS configuration
+  app.use(cors({
+    origin: (origin, callback) => {
+      if (!origin || CORS_WHITELIST.includes(origin)) {
+        callback(null, true);
+      } else {
+        callback(new Error('Not allowed by CORS'));
+      }
+    },
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Correlation-ID'],
+    credentials: true,
+    maxAge: 600 // 10 minutes
+  }));
+
+  // Rate limiting
+  app.use(rateLimit({
+    windowMs: RATE_LIMIT_WINDOW,
+    max: RATE_LIMIT_MAX,
+    message: 'Too many requests from this IP, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false
+  }));
+
+  // General middleware
+  app.use(compression());
+  app.use(morgan('combined', {
+    stream: { write: message => logger.info(message.trim()) }
+  }));
+  app.use(express.json({ limit: '10kb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10kb' }));
+
+  // JWT Authentication; a session is optional when answering an invitation
+  const jwtOptions: JwtParams = {
+    secret: process.env.JWT_SECRET!,
+    algorithms: ['RS256'],
+    requestProperty: 'user',
+    getToken: (req: Request) => {
+      if (req.headers.authorization?.split(' ')[0] === 'Bearer') {
+        return req.headers.authorization.split(' ')[1];
+      }
+      return undefined;
+    }
+  };
+  app.use(jwt(jwtOptions).unless({ path: ['/health', '/metrics', ...INVITATION_PATHS] }));
+  app.use(INVITATION_PATHS, jwt({ ...jwtOptions, credentialsRequired: false }));
+
+  // API routes
+  app.use(BASE_PATH, createTeamRouter(teamController));
+
+  // Health check endpoint
+  app.get('/health', (req: Request, res: Response) => {
+    res.status(HttpStatusCodes.OK).json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      version: API_VERSION
+    });
+  });
+
+  // Error handling
+  app.use((req: Request, res: Response) => {
+    res.status(HttpStatusCodes.NOT_FOUND).json({
+      status: 'error',
+      message: 'Resource not found'
+    });
+  });
+  app.use(errorHandler);
+
+  return app;
+}
+
+/**
+ * Start server with database connection and error handling
+ */
+async function startServer(): Promise<void> {
+  try {
+    await db.connect();
+    logger.info('Database connection established');
+
+    // Queues invitation emails for the notification service and publishes team events
+    const redisClient = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', { maxRetriesPerRequest: 3 });
+    redisClient.on('error', (error) => logger.error('Redis connection error', { error }));
+
+    // Repositories take their connection when constructed, so wire up after connecting
+    const teamController = new TeamController(new TeamService(new TeamRepository(), redisClient));
+    const app = initializeApp(teamController);
+
+    const server = app.listen(PORT, () => {
+      logger.info(`Team service listening on port ${PORT}`);
+    });
+
+    setupGracefulShutdown(server, db, redisClient);
+  } catch (error) {
+    logger.error('Failed to start server:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Configure graceful shutdown handlers
+ */
+function setupGracefulShutdown(server: any, database: any, redisClient: Redis): void {
+  const shutdown = async () => {
+    logger.info('Received shutdown signal');
+
+    server.close(async () => {
+      logger.info('HTTP server closed');
+
+      try {
+        await redisClient.quit();
+        await database.disconnect();
+        logger.info('Redis and database connections closed');
+        process.exit(0);
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      }
+    });
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+// Start the application
+startServer().catch(error => {
+  logger.error('Startup error:', error);
+  process.exit(1);
+});
\ No newline at end of file
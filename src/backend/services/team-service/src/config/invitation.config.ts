@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Team invitation configuration: token lifetime and signing,
+ * and the web app page that emailed links point at.
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // v16.x
+
+// Load environment variables
+config();
+
+export const invitationConfig = {
+  tokenTtl: parseInt(process.env.TEAM_INVITATION_TTL || '604800', 10), // 7 days in seconds
+  tokenBytes: 32,
+
+  // Tokens are stored as an HMAC under this secret, so a leaked table cannot
+  // be used to redeem outstanding invitations
+  tokenSecret: process.env.TEAM_INVITATION_SECRET!,
+
+  acceptUrl: process.env.TEAM_INVITATION_URL || 'http://localhost:3000/auth/accept-invitation'
+};
+
+export default invitationConfig;
\ No newline at end of file
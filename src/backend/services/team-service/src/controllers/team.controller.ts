@@ -0,0 +1,410 @@
+import { Controller, Get, Post, Put, Delete } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express'; // ^4.18.0
+import { StatusCodes } from 'http-status-codes'; // ^2.2.0
+import Logger from '../../../../shared/utils/logger.util';
+import TeamService from '../services/team.service';
+import {
+  validateTeamCreate,
+  validateTeamInvitationAccept,
+  validateTeamInvitationCreate,
+  validateTeamInvitationToken,
+  validateTeamMemberAdd,
+  validateTeamMemberRole,
+  validateTeamSettings,
+  validateTeamUpdate
+} from '../validators/team.validator';
+import { validatePaginationParams } from '../../../../shared/validators/common.validator';
+
+/**
+ * Manages teams, their settings, membership and invitations
+ */
+@Controller('teams')
+export class TeamController {
+  private readonly logger: Logger;
+
+  constructor(private readonly teamService: TeamService) {
+    this.logger = Logger.getInstance('TeamController', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * List the teams of the current user
+   */
+  @Get()
+  public async listTeams(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const teams = await this.teamService.listTeams(req.user.id);
+      res.json(teams);
+    } catch (error) {
+      this.logger.error('Failed to list teams', {
+        error,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a team owned by the current user
+   */
+  @Post()
+  public async createTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateTeamCreate(req.body);
+      const team = await this.teamService.createTeam(validatedData, req.user.id);
+
+      res.status(StatusCodes.CREATED).json(team);
+    } catch (error) {
+      this.logger.error('Failed to create team', {
+        error,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a team
+   */
+  @Get('/:id')
+  public async getTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const team = await this.teamService.getTeam(req.params.id, req.user.id);
+      res.json(team);
+    } catch (error) {
+      this.logger.error('Failed to retrieve team', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a team's name, description or status
+   */
+  @Put('/:id')
+  public async updateTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateTeamUpdate(req.body);
+      const team = await this.teamService.updateTeam(req.params.id, validatedData, req.user.id);
+
+      res.json(team);
+    } catch (error) {
+      this.logger.error('Failed to update team', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a team
+   */
+  @Delete('/:id')
+  public async deleteTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.teamService.deleteTeam(req.params.id, req.user.id);
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.logger.error('Failed to delete team', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a team's settings
+   */
+  @Get('/:id/settings')
+  public async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const settings = await this.teamService.getSettings(req.params.id, req.user.id);
+      res.json(settings);
+    } catch (error) {
+      this.logger.error('Failed to retrieve team settings', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a team's settings
+   */
+  @Put('/:id/settings')
+  public async updateSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateTeamSettings(req.body);
+      const settings = await this.teamService.updateSettings(req.params.id, validatedData, req.user.id);
+
+      res.json(settings);
+    } catch (error) {
+      this.logger.error('Failed to update team settings', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * List a team's members
+   */
+  @Get('/:id/members')
+  public async listMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const members = await this.teamService.listMembers(req.params.id, req.user.id);
+      res.json(members);
+    } catch (error) {
+      this.logger.error('Failed to list team members', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Add a member to a team
+   */
+  @Post('/:id/members')
+  public async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateTeamMemberAdd(req.body);
+      const member = await this.teamService.addMember(req.params.id, validatedData, req.user.id);
+
+      res.status(StatusCodes.CREATED).json(member);
+    } catch (error) {
+      this.logger.error('Failed to add team member', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Change a member's role
+   */
+  @Put('/:id/members/:userId')
+  public async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { role } = await validateTeamMemberRole(req.body);
+      const member = await this.teamService.updateMemberRole(
+        req.params.id,
+        req.params.userId,
+        role,
+        req.user.id
+      );
+
+      res.json(member);
+    } catch (error) {
+      this.logger.error('Failed to change team member role', {
+        error,
+        teamId: req.params.id,
+        memberId: req.params.userId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a member, or leave the team when removing oneself
+   */
+  @Delete('/:id/members/:userId')
+  public async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.teamService.removeMember(req.params.id, req.params.userId, req.user.id);
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.logger.error('Failed to remove team member', {
+        error,
+        teamId: req.params.id,
+        memberId: req.params.userId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * List a team's pending invitations
+   */
+  @Get('/:id/invitations')
+  public async listInvitations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitations = await this.teamService.listInvitations(req.params.id, req.user.id);
+      res.json(invitations);
+    } catch (error) {
+      this.logger.error('Failed to list team invitations', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Email an invitation to join a team
+   */
+  @Post('/:id/invitations')
+  public async createInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const validatedData = await validateTeamInvitationCreate(req.body);
+      const invitation = await this.teamService.createInvitation(req.params.id, validatedData, req.user.id);
+
+      res.status(StatusCodes.CREATED).json(invitation);
+    } catch (error) {
+      this.logger.error('Failed to create team invitation', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Email a pending invitation again with a new link
+   */
+  @Post('/:id/invitations/:invitationId/resend')
+  public async resendInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await this.teamService.resendInvitation(
+        req.params.id,
+        req.params.invitationId,
+        req.user.id
+      );
+
+      res.json(invitation);
+    } catch (error) {
+      this.logger.error('Failed to resend team invitation', {
+        error,
+        teamId: req.params.id,
+        invitationId: req.params.invitationId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  @Delete('/:id/invitations/:invitationId')
+  public async revokeInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.teamService.revokeInvitation(req.params.id, req.params.invitationId, req.user.id);
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.logger.error('Failed to revoke team invitation', {
+        error,
+        teamId: req.params.id,
+        invitationId: req.params.invitationId,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Describe the invitation behind an emailed link; no session is required
+   */
+  @Post('/invitations/preview')
+  public async previewInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = await validateTeamInvitationToken(req.body);
+      const preview = await this.teamService.previewInvitation(token);
+
+      res.set('Cache-Control', 'no-store');
+      res.json(preview);
+    } catch (error) {
+      this.logger.error('Failed to preview team invitation', {
+        error,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Accept an invitation as the signed-in user, or register to accept it
+   */
+  @Post('/invitations/accept')
+  public async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, ...registration } = await validateTeamInvitationAccept(req.body);
+      const result = await this.teamService.acceptInvitation(token, registration, req.user?.id);
+
+      res.status(StatusCodes.CREATED).json(result);
+    } catch (error) {
+      this.logger.error('Failed to accept team invitation', {
+        error,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Decline an invitation
+   */
+  @Post('/invitations/reject')
+  public async rejectInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = await validateTeamInvitationToken(req.body);
+      await this.teamService.rejectInvitation(token, req.user?.id);
+
+      res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.logger.error('Failed to reject team invitation', {
+        error,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Get a page of the team audit log
+   */
+  @Get('/:id/audit-logs')
+  public async getAuditLog(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pagination = validatePaginationParams(req.query);
+      if (pagination.error) {
+        throw pagination.error;
+      }
+
+      const auditLog = await this.teamService.getAuditLog(req.params.id, pagination.value, req.user.id);
+
+      res.set('Cache-Control', 'no-store');
+      res.json(auditLog);
+    } catch (error) {
+      this.logger.error('Failed to retrieve team audit log', {
+        error,
+        teamId: req.params.id,
+        userId: req.user?.id
+      });
+      next(error);
+    }
+  }
+}
+
+export default TeamController;
\ No newline at end of file
@@ -0,0 +1,752 @@
+import { Knex } from 'knex'; // v2.4.x
+import Logger from '../../../../shared/utils/logger.util'; // v3.8.x
+import DatabaseConnection from '../../../../shared/utils/database.util';
+import {
+  ITeam,
+  ITeamAuditLog,
+  ITeamInvitation,
+  ITeamMember,
+  ITeamSettings,
+  TeamInvitationStatus,
+  TeamRole,
+  TeamStatus
+} from '../../../../shared/interfaces/team.interface';
+import { UserRole } from '../../../../shared/interfaces/auth.interface';
+
+// Constants for repository operations
+const TEAMS_TABLE = 'teams';
+const MEMBERS_TABLE = 'team_members';
+const AUDIT_TABLE = 'team_audit_logs';
+const INVITATIONS_TABLE = 'team_invitations';
+const USERS_TABLE = 'users';
+const DEFAULT_PAGE_SIZE = 20;
+
+const TEAM_COLUMNS = [
+  't.id',
+  't.name',
+  't.description',
+  't.owner_id as ownerId',
+  't.status',
+  't.created_at as createdAt',
+  't.updated_at as updatedAt'
+];
+
+const SETTINGS_COLUMNS = [
+  'id as teamId',
+  'is_private as isPrivate',
+  'allow_invites as allowInvites',
+  'notification_settings as notificationSettings',
+  'max_members as maxMembers',
+  'default_member_role as defaultMemberRole'
+];
+
+const MEMBER_COLUMNS = [
+  'team_id as teamId',
+  'user_id as userId',
+  'role',
+  'joined_at as joinedAt'
+];
+
+const AUDIT_COLUMNS = [
+  'id',
+  'team_id as teamId',
+  'actor_id as actorId',
+  'action',
+  'details',
+  'created_at as timestamp'
+];
+
+// The token hash is never selected
+const INVITATION_COLUMNS = [
+  'id',
+  'team_id as teamId',
+  'inviter_id as inviterId',
+  'invitee_email as inviteeEmail',
+  'role',
+  'status',
+  'expires_at as expiresAt',
+  'responded_at as respondedAt',
+  'created_at as createdAt'
+];
+
+const USER_COLUMNS = [
+  'id',
+  'email',
+  'first_name as firstName',
+  'last_name as lastName'
+];
+
+// Settings columns keyed by their interface field
+const SETTINGS_FIELDS: Record<keyof Omit<ITeamSettings, 'teamId'>, string> = {
+  isPrivate: 'is_private',
+  allowInvites: 'allow_invites',
+  notificationSettings: 'notification_settings',
+  maxMembers: 'max_members',
+  defaultMemberRole: 'default_member_role'
+};
+
+/**
+ * Membership as stored; permissions are derived from the role by the service
+ */
+export type TeamMemberRecord = Omit<ITeamMember, 'permissions'>;
+
+/**
+ * Audit entry written alongside a change
+ */
+export type TeamAuditEntry = Pick<ITeamAuditLog, 'actorId' | 'action' | 'details'>;
+
+/**
+ * The parts of a user account the team service needs
+ */
+export interface TeamUserRecord {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+/**
+ * Account an invitation is accepted with: an existing user, or a new one
+ * registered in the same transaction
+ */
+export type InvitationAccount =
+  | { userId: string }
+  | { email: string; passwordHash: string; firstName: string; lastName: string };
+
+/**
+ * Outcome of redeeming an invitation
+ */
+export type InvitationAcceptResult =
+  | { status: 'accepted'; member: TeamMemberRecord }
+  | { status: 'invalid' }
+  | { status: 'full' };
+
+/**
+ * Repository class for teams, their members and invitations, and the team
+ * audit log. Every change is written in the same transaction as its audit
+ * entry.
+ */
+export class TeamRepository {
+  private readonly db: Knex;
+  private readonly logger: Logger;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance({} as any).getKnex();
+    this.logger = Logger.getInstance('TeamRepository', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Creates a team with its creator as owner
+   * @param team Team data
+   * @param audit Audit entry for the creation
+   * @returns Created team
+   */
+  public async create(
+    team: Pick<ITeam, 'name' | 'description' | 'ownerId'> & Partial<Omit<ITeamSettings, 'teamId'>>,
+    audit: TeamAuditEntry
+  ): Promise<ITeam> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const [{ id }] = await trx(TEAMS_TABLE)
+          .insert({
+            name: team.name,
+            description: team.description,
+            owner_id: team.ownerId,
+            ...this.toSettingsRow(team)
+          })
+          .returning('id');
+
+        await trx(MEMBERS_TABLE).insert({
+          team_id: id,
+          user_id: team.ownerId,
+          role: TeamRole.OWNER
+        });
+        await this.recordAudit(trx, id, audit);
+
+        return this.selectTeams(trx).where('t.id', id).first();
+      });
+    } catch (error) {
+      this.logger.error('Failed to create team', { error, ownerId: team.ownerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a team by ID, including deleted teams
+   * @param teamId Team ID
+   * @returns Team, or undefined when it does not exist
+   */
+  public async findById(teamId: string): Promise<ITeam | undefined> {
+    try {
+      return await this.selectTeams(this.db).where('t.id', teamId).first();
+    } catch (error) {
+      this.logger.error('Failed to find team', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the teams a user belongs to
+   * @param userId User ID
+   * @returns Teams that have not been deleted, by name
+   */
+  public async findByMember(userId: string): Promise<ITeam[]> {
+    try {
+      return await this.selectTeams(this.db)
+        .whereExists(
+          this.db(MEMBERS_TABLE)
+            .whereRaw('team_members.team_id = t.id')
+            .andWhere('team_members.user_id', userId)
+        )
+        .whereNot('t.status', TeamStatus.DELETED)
+        .orderBy('t.name');
+    } catch (error) {
+      this.logger.error('Failed to list teams', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a team's details
+   * @param teamId Team ID
+   * @param changes Fields to change
+   * @param audit Audit entry for the change
+   * @returns Updated team
+   */
+  public async update(
+    teamId: string,
+    changes: Partial<Pick<ITeam, 'name' | 'description' | 'status'>>,
+    audit: TeamAuditEntry
+  ): Promise<ITeam> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        await trx(TEAMS_TABLE).where({ id: teamId }).update(changes);
+        await this.recordAudit(trx, teamId, audit);
+
+        return this.selectTeams(trx).where('t.id', teamId).first();
+      });
+    } catch (error) {
+      this.logger.error('Failed to update team', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a team's settings
+   * @param teamId Team ID
+   * @returns Settings, or undefined when the team does not exist
+   */
+  public async findSettings(teamId: string): Promise<ITeamSettings | undefined> {
+    try {
+      return await this.db(TEAMS_TABLE).where({ id: teamId }).first(SETTINGS_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find team settings', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a team's settings. The team row is locked while members are
+   * counted, so the member limit cannot drop below the current team size.
+   * @param teamId Team ID
+   * @param changes Settings to change
+   * @param audit Audit entry for the change
+   * @returns Updated settings, or null when the team has more members than the new limit
+   */
+  public async updateSettings(
+    teamId: string,
+    changes: Partial<Omit<ITeamSettings, 'teamId'>>,
+    audit: TeamAuditEntry
+  ): Promise<ITeamSettings | null> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        await trx(TEAMS_TABLE).where({ id: teamId }).forUpdate().first('id');
+
+        if (changes.maxMembers !== undefined && await this.countMembers(teamId, trx) > changes.maxMembers) {
+          return null;
+        }
+
+        const [settings] = await trx(TEAMS_TABLE)
+          .where({ id: teamId })
+          .update(this.toSettingsRow(changes))
+          .returning(SETTINGS_COLUMNS);
+        await this.recordAudit(trx, teamId, audit);
+
+        return settings;
+      });
+    } catch (error) {
+      this.logger.error('Failed to update team settings', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the members of a team
+   * @param teamId Team ID
+   * @returns Members in the order they joined
+   */
+  public async findMembers(teamId: string): Promise<TeamMemberRecord[]> {
+    try {
+      return await this.db(MEMBERS_TABLE)
+        .where({ team_id: teamId })
+        .select(MEMBER_COLUMNS)
+        .orderBy('joined_at');
+    } catch (error) {
+      this.logger.error('Failed to list team members', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one membership
+   * @param teamId Team ID
+   * @param userId User ID
+   * @returns Membership, or undefined when the user is not a member
+   */
+  public async findMember(teamId: string, userId: string): Promise<TeamMemberRecord | undefined> {
+    try {
+      return await this.db(MEMBERS_TABLE)
+        .where({ team_id: teamId, user_id: userId })
+        .first(MEMBER_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find team member', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a member unless the team is full. The team row is locked while
+   * members are counted, so concurrent additions cannot exceed the limit.
+   * @param teamId Team ID
+   * @param userId User ID
+   * @param role Role of the new member
+   * @param audit Audit entry for the addition
+   * @returns Added member, or null when the team has reached its member limit
+   */
+  public async addMember(
+    teamId: string,
+    userId: string,
+    role: TeamRole,
+    audit: TeamAuditEntry
+  ): Promise<TeamMemberRecord | null> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const team = await trx(TEAMS_TABLE).where({ id: teamId }).forUpdate().first('max_members');
+
+        if (await this.countMembers(teamId, trx) >= team.max_members) {
+          return null;
+        }
+
+        const [member] = await trx(MEMBERS_TABLE)
+          .insert({ team_id: teamId, user_id: userId, role })
+          .returning(MEMBER_COLUMNS);
+        await this.recordAudit(trx, teamId, audit);
+
+        return member;
+      });
+    } catch (error) {
+      this.logger.error('Failed to add team member', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes a member's role
+   * @param teamId Team ID
+   * @param userId User ID
+   * @param role New role
+   * @param audit Audit entry for the change
+   * @returns Updated member
+   */
+  public async updateMemberRole(
+    teamId: string,
+    userId: string,
+    role: TeamRole,
+    audit: TeamAuditEntry
+  ): Promise<TeamMemberRecord> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const [member] = await trx(MEMBERS_TABLE)
+          .where({ team_id: teamId, user_id: userId })
+          .update({ role })
+          .returning(MEMBER_COLUMNS);
+        await this.recordAudit(trx, teamId, audit);
+
+        return member;
+      });
+    } catch (error) {
+      this.logger.error('Failed to update team member role', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a member
+   * @param teamId Team ID
+   * @param userId User ID
+   * @param audit Audit entry for the removal
+   */
+  public async removeMember(teamId: string, userId: string, audit: TeamAuditEntry): Promise<void> {
+    try {
+      await this.db.transaction(async (trx) => {
+        await trx(MEMBERS_TABLE).where({ team_id: teamId, user_id: userId }).delete();
+        await this.recordAudit(trx, teamId, audit);
+      });
+    } catch (error) {
+      this.logger.error('Failed to remove team member', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the members of a team
+   * @param teamId Team ID
+   * @param db Connection or transaction to count with
+   * @returns Member count
+   */
+  public async countMembers(teamId: string, db: Knex | Knex.Transaction = this.db): Promise<number> {
+    const result = await db(MEMBERS_TABLE)
+      .where({ team_id: teamId })
+      .count('user_id as count')
+      .first();
+
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Lists a team's audit log
+   * @param teamId Team ID
+   * @param page Page number
+   * @param pageSize Page size
+   * @returns Page of entries, newest first, with the total count
+   */
+  public async findAuditLogs(
+    teamId: string,
+    page: number = 1,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<{ data: ITeamAuditLog[]; total: number }> {
+    try {
+      const [entries, total] = await Promise.all([
+        this.db(AUDIT_TABLE)
+          .where({ team_id: teamId })
+          .select(AUDIT_COLUMNS)
+          .orderBy('created_at', 'desc')
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        this.db(AUDIT_TABLE)
+          .where({ team_id: teamId })
+          .count('id as count')
+          .first()
+      ]);
+
+      return {
+        data: entries,
+        total: parseInt(total?.count as string) || 0
+      };
+    } catch (error) {
+      this.logger.error('Failed to list team audit log', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a user account by ID
+   * @param userId User ID
+   * @returns User, or undefined when there is no such active account
+   */
+  public async findUserById(userId: string): Promise<TeamUserRecord | undefined> {
+    try {
+      return await this.db(USERS_TABLE).where({ id: userId }).whereNull('deleted_at').first(USER_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find user', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a user account by email
+   * @param email Lower-cased email address
+   * @returns User, or undefined when there is no such active account
+   */
+  public async findUserByEmail(email: string): Promise<TeamUserRecord | undefined> {
+    try {
+      return await this.db(USERS_TABLE).where({ email }).whereNull('deleted_at').first(USER_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find user by email', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates an invitation. Any invitation still pending for the same address
+   * is revoked, so only the most recently emailed link works.
+   * @param invitation Invitation data
+   * @param tokenHash Keyed hash of the emailed token
+   * @param audit Audit entry for the invitation
+   * @returns Created invitation
+   */
+  public async createInvitation(
+    invitation: Pick<ITeamInvitation, 'teamId' | 'inviterId' | 'inviteeEmail' | 'role' | 'expiresAt'>,
+    tokenHash: string,
+    audit: TeamAuditEntry
+  ): Promise<ITeamInvitation> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        await trx(INVITATIONS_TABLE)
+          .where({
+            team_id: invitation.teamId,
+            invitee_email: invitation.inviteeEmail,
+            status: TeamInvitationStatus.PENDING
+          })
+          .update({ status: TeamInvitationStatus.REVOKED, responded_at: trx.fn.now() });
+
+        const [created] = await trx(INVITATIONS_TABLE)
+          .insert({
+            team_id: invitation.teamId,
+            inviter_id: invitation.inviterId,
+            invitee_email: invitation.inviteeEmail,
+            role: invitation.role,
+            token_hash: tokenHash,
+            expires_at: invitation.expiresAt
+          })
+          .returning(INVITATION_COLUMNS);
+        await this.recordAudit(trx, invitation.teamId, audit);
+
+        return created;
+      });
+    } catch (error) {
+      this.logger.error('Failed to create team invitation', { error, teamId: invitation.teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a team's pending invitations, including expired ones that can
+   * still be resent
+   * @param teamId Team ID
+   * @returns Pending invitations, newest first
+   */
+  public async findPendingInvitations(teamId: string): Promise<ITeamInvitation[]> {
+    try {
+      return await this.db(INVITATIONS_TABLE)
+        .where({ team_id: teamId, status: TeamInvitationStatus.PENDING })
+        .select(INVITATION_COLUMNS)
+        .orderBy('created_at', 'desc');
+    } catch (error) {
+      this.logger.error('Failed to list team invitations', { error, teamId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one of a team's invitations
+   * @param teamId Team ID
+   * @param invitationId Invitation ID
+   * @returns Invitation, or undefined when the team has no such invitation
+   */
+  public async findInvitation(teamId: string, invitationId: string): Promise<ITeamInvitation | undefined> {
+    try {
+      return await this.db(INVITATIONS_TABLE)
+        .where({ id: invitationId, team_id: teamId })
+        .first(INVITATION_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find team invitation', { error, teamId, invitationId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the invitation an emailed token belongs to
+   * @param tokenHash Keyed hash of the token
+   * @returns Invitation, or undefined when no invitation was issued with the token
+   */
+  public async findInvitationByToken(tokenHash: string): Promise<ITeamInvitation | undefined> {
+    try {
+      return await this.db(INVITATIONS_TABLE).where({ token_hash: tokenHash }).first(INVITATION_COLUMNS);
+    } catch (error) {
+      this.logger.error('Failed to find team invitation by token', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces a pending invitation's token and expiry, invalidating the
+   * previously emailed link
+   * @param invitationId Invitation ID
+   * @param tokenHash Keyed hash of the new token
+   * @param expiresAt New expiry
+   * @param audit Audit entry for the resend
+   * @returns Updated invitation, or null when it is no longer pending
+   */
+  public async renewInvitation(
+    invitationId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    audit: TeamAuditEntry
+  ): Promise<ITeamInvitation | null> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const [invitation] = await trx(INVITATIONS_TABLE)
+          .where({ id: invitationId, status: TeamInvitationStatus.PENDING })
+          .update({ token_hash: tokenHash, expires_at: expiresAt })
+          .returning(INVITATION_COLUMNS);
+
+        if (!invitation) {
+          return null;
+        }
+        await this.recordAudit(trx, invitation.teamId, audit);
+
+        return invitation;
+      });
+    } catch (error) {
+      this.logger.error('Failed to renew team invitation', { error, invitationId });
+      throw error;
+    }
+  }
+
+  /**
+   * Answers a pending invitation without adding a member, by rejecting or
+   * revoking it. Expired invitations can still be revoked but not rejected.
+   * @param invitationId Invitation ID
+   * @param status REJECTED or REVOKED
+   * @param audit Audit entry for the answer
+   * @returns Updated invitation, or null when it can no longer be answered
+   */
+  public async closeInvitation(
+    invitationId: string,
+    status: TeamInvitationStatus.REJECTED | TeamInvitationStatus.REVOKED,
+    audit: TeamAuditEntry
+  ): Promise<ITeamInvitation | null> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const query = trx(INVITATIONS_TABLE)
+          .where({ id: invitationId, status: TeamInvitationStatus.PENDING });
+        if (status === TeamInvitationStatus.REJECTED) {
+          query.andWhere('expires_at', '>', trx.fn.now());
+        }
+
+        const [invitation] = await query
+          .update({ status, responded_at: trx.fn.now() })
+          .returning(INVITATION_COLUMNS);
+
+        if (!invitation) {
+          return null;
+        }
+        await this.recordAudit(trx, invitation.teamId, audit);
+
+        return invitation;
+      });
+    } catch (error) {
+      this.logger.error('Failed to close team invitation', { error, invitationId, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Redeems an invitation, registering the invitee first when they have no
+   * account. The invitation and team rows are locked so the invitation is
+   * used once and the member limit holds; if anything fails, no account is
+   * left behind.
+   * @param invitationId Invitation ID
+   * @param account Existing user, or the account to register
+   * @param audit Audit entry for the acceptance; the actor is the new member
+   * @returns The new membership, or why the invitation could not be accepted
+   */
+  public async acceptInvitation(
+    invitationId: string,
+    account: InvitationAccount,
+    audit: Omit<TeamAuditEntry, 'actorId'>
+  ): Promise<InvitationAcceptResult> {
+    try {
+      return await this.db.transaction(async (trx) => {
+        const invitation = await trx(INVITATIONS_TABLE)
+          .where({ id: invitationId, status: TeamInvitationStatus.PENDING })
+          .andWhere('expires_at', '>', trx.fn.now())
+          .forUpdate()
+          .first('team_id', 'role');
+
+        if (!invitation) {
+          return { status: 'invalid' };
+        }
+
+        const team = await trx(TEAMS_TABLE).where({ id: invitation.team_id }).forUpdate().first('max_members');
+        if (await this.countMembers(invitation.team_id, trx) >= team.max_members) {
+          return { status: 'full' };
+        }
+
+        const userId = 'userId' in account
+          ? account.userId
+          : (await trx(USERS_TABLE)
+            .insert({
+              email: account.email,
+              password_hash: account.passwordHash,
+              first_name: account.firstName,
+              last_name: account.lastName,
+              role: UserRole.TEAM_MEMBER
+            })
+            .returning('id'))[0].id;
+
+        await trx(INVITATIONS_TABLE)
+          .where({ id: invitationId })
+          .update({
+            status: TeamInvitationStatus.ACCEPTED,
+            responded_at: trx.fn.now(),
+            accepted_by: userId
+          });
+
+        const [member] = await trx(MEMBERS_TABLE)
+          .insert({ team_id: invitation.team_id, user_id: userId, role: invitation.role })
+          .returning(MEMBER_COLUMNS);
+        await this.recordAudit(trx, invitation.team_id, { ...audit, actorId: userId });
+
+        return { status: 'accepted', member };
+      });
+    } catch (error) {
+      this.logger.error('Failed to accept team invitation', { error, invitationId });
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method selecting teams with their member and project IDs
+   */
+  private selectTeams(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db(`${TEAMS_TABLE} as t`).select([
+      ...TEAM_COLUMNS,
+      db.raw(`ARRAY(SELECT user_id FROM ${MEMBERS_TABLE} WHERE team_id = t.id ORDER BY joined_at) as "memberIds"`),
+      db.raw('ARRAY(SELECT id FROM projects WHERE team_id = t.id ORDER BY created_at) as "projectIds"')
+    ]);
+  }
+
+  /**
+   * Helper method mapping settings fields to their columns
+   */
+  private toSettingsRow(settings: Partial<Omit<ITeamSettings, 'teamId'>>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+
+    for (const [field, column] of Object.entries(SETTINGS_FIELDS)) {
+      const value = settings[field as keyof typeof SETTINGS_FIELDS];
+      if (value !== undefined) {
+        row[column] = field === 'notificationSettings' ? JSON.stringify(value) : value;
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Helper method writing an audit entry within a transaction
+   */
+  private async recordAudit(trx: Knex.Transaction, teamId: string, audit: TeamAuditEntry): Promise<void> {
+    await trx(AUDIT_TABLE).insert({
+      team_id: teamId,
+      actor_id: audit.actorId,
+      action: audit.action,
+      details: JSON.stringify(audit.details)
+    });
+  }
+}
+
+export default TeamRepository;
\ No newline at end of file
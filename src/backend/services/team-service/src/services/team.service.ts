@@ -0,0 +1,783 @@
+import { Injectable } from '@nestjs/common';
+import { createHmac, randomBytes } from 'crypto';
+import Redis from 'ioredis'; // v5.3.x
+import Logger from '../../../../shared/utils/logger.util'; // v3.8.0
+import TeamRepository, { InvitationAccount, TeamMemberRecord } from '../repositories/team.repository';
+import { invitationConfig } from '../config/invitation.config';
+import { enqueueNotificationRequest } from '../../../../shared/utils/notification.util';
+import { hashPassword, validatePasswordPolicy } from '../../../../shared/utils/password.util';
+import { TransactionalEmailType } from '../../../../shared/interfaces/notification.interface';
+import { RealtimeEventType, RealtimeRoomType } from '../../../../shared/interfaces/realtime.interface';
+import { publishRealtimeEvent, realtimeRoom } from '../../../../shared/utils/realtime.util';
+import {
+  DEFAULT_TEAM_NOTIFICATION_SETTINGS,
+  ITeam,
+  ITeamAuditLog,
+  ITeamInvitation,
+  ITeamMember,
+  ITeamNotificationSettings,
+  ITeamRealtimeUpdate,
+  ITeamSettings,
+  TeamAuditAction,
+  TeamInvitationStatus,
+  TeamRole,
+  TeamStatus,
+  TEAM_ROLE_PERMISSIONS
+} from '../../../../shared/interfaces/team.interface';
+import { ErrorCodes } from '../../../../shared/constants/error-codes';
+
+// Higher ranks may manage members of lower ranks, and only grant lower roles
+const ROLE_RANK: Record<TeamRole, number> = {
+  [TeamRole.OWNER]: 3,
+  [TeamRole.ADMIN]: 2,
+  [TeamRole.MEMBER]: 1
+};
+
+export interface ITeamCreateData {
+  name: string;
+  description?: string;
+  settings?: ITeamSettingsUpdate;
+}
+
+export type ITeamUpdateData = Partial<Pick<ITeam, 'name' | 'description'>> & {
+  status?: TeamStatus.ACTIVE | TeamStatus.INACTIVE;
+};
+
+export type ITeamSettingsUpdate = Partial<Omit<ITeamSettings, 'teamId' | 'notificationSettings'>> & {
+  notificationSettings?: Partial<ITeamNotificationSettings>;
+};
+
+/**
+ * What the holder of an invitation link is shown before answering it
+ */
+export interface ITeamInvitationPreview {
+  teamId: string;
+  teamName: string;
+  inviteeEmail: string;
+  role: TeamRole;
+  expiresAt: Date;
+  accountExists: boolean;
+}
+
+/**
+ * Details needed to register when accepting without an account
+ */
+export interface ITeamInvitationAcceptData {
+  firstName?: string;
+  lastName?: string;
+  password?: string;
+}
+
+@Injectable()
+export class TeamService {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly teamRepository: TeamRepository,
+    private readonly redisClient: Redis
+  ) {
+    this.logger = Logger.getInstance('TeamService', {
+      enableConsole: true,
+      enableFile: true
+    });
+  }
+
+  /**
+   * Lists the teams the user belongs to
+   */
+  public async listTeams(userId: string): Promise<ITeam[]> {
+    return this.teamRepository.findByMember(userId);
+  }
+
+  /**
+   * Gets a team. Private teams are only visible to their members.
+   */
+  public async getTeam(teamId: string, userId: string): Promise<ITeam> {
+    const team = await this.getActiveTeam(teamId);
+    await this.validateVisibility(teamId, userId);
+    return team;
+  }
+
+  /**
+   * Creates a team owned by the user
+   */
+  public async createTeam(data: ITeamCreateData, userId: string): Promise<ITeam> {
+    try {
+      const team = await this.teamRepository.create(
+        {
+          name: data.name,
+          description: data.description || null,
+          ownerId: userId,
+          ...data.settings,
+          notificationSettings: { ...DEFAULT_TEAM_NOTIFICATION_SETTINGS, ...data.settings?.notificationSettings }
+        },
+        { actorId: userId, action: TeamAuditAction.TEAM_CREATED, details: { name: data.name } }
+      );
+
+      this.logger.info('Team created', { teamId: team.id, userId });
+      return team;
+    } catch (error) {
+      this.logger.error('Failed to create team', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a team's name, description or status
+   */
+  public async updateTeam(teamId: string, data: ITeamUpdateData, userId: string): Promise<ITeam> {
+    try {
+      await this.getActiveTeam(teamId);
+      await this.authorize(teamId, userId, 'team:update');
+
+      const team = await this.teamRepository.update(teamId, data, {
+        actorId: userId,
+        action: TeamAuditAction.TEAM_UPDATED,
+        details: { changes: data }
+      });
+      await this.publishTeamUpdate(teamId, TeamAuditAction.TEAM_UPDATED);
+
+      this.logger.info('Team updated', { teamId, userId });
+      return team;
+    } catch (error) {
+      this.logger.error('Failed to update team', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a team. The team is kept as deleted so its projects and audit
+   * log survive; only the owner may delete it.
+   */
+  public async deleteTeam(teamId: string, userId: string): Promise<void> {
+    try {
+      await this.getActiveTeam(teamId);
+      await this.authorize(teamId, userId, 'team:delete');
+
+      await this.teamRepository.update(teamId, { status: TeamStatus.DELETED }, {
+        actorId: userId,
+        action: TeamAuditAction.TEAM_DELETED,
+        details: {}
+      });
+      await this.publishTeamUpdate(teamId, TeamAuditAction.TEAM_DELETED);
+
+      this.logger.info('Team deleted', { teamId, userId });
+    } catch (error) {
+      this.logger.error('Failed to delete team', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a team's settings
+   */
+  public async getSettings(teamId: string, userId: string): Promise<ITeamSettings> {
+    await this.getActiveTeam(teamId);
+    await this.authorize(teamId, userId, 'team:read');
+    return (await this.teamRepository.findSettings(teamId))!;
+  }
+
+  /**
+   * Updates a team's settings. Notification settings are merged with the
+   * current ones, and the member limit cannot drop below the team's size.
+   */
+  public async updateSettings(
+    teamId: string,
+    data: ITeamSettingsUpdate,
+    userId: string
+  ): Promise<ITeamSettings> {
+    try {
+      await this.getActiveTeam(teamId);
+      await this.authorize(teamId, userId, 'settings:manage');
+
+      const current = (await this.teamRepository.findSettings(teamId))!;
+      const settings = await this.teamRepository.updateSettings(
+        teamId,
+        {
+          ...data,
+          notificationSettings: data.notificationSettings
+            ? { ...current.notificationSettings, ...data.notificationSettings }
+            : undefined
+        },
+        { actorId: userId, action: TeamAuditAction.SETTINGS_UPDATED, details: { changes: data } }
+      );
+
+      if (!settings) {
+        throw new Error(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+      }
+      await this.publishTeamUpdate(teamId, TeamAuditAction.SETTINGS_UPDATED);
+
+      this.logger.info('Team settings updated', { teamId, userId });
+      return settings;
+    } catch (error) {
+      this.logger.error('Failed to update team settings', { error, teamId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a team's members
+   */
+  public async listMembers(teamId: string, userId: string): Promise<ITeamMember[]> {
+    await this.getActiveTeam(teamId);
+    await this.validateVisibility(teamId, userId);
+
+    const members = await this.teamRepository.findMembers(teamId);
+    return members.map(member => this.toMember(member));
+  }
+
+  /**
+   * Adds a member, with the team's default role unless one is given
+   */
+  public async addMember(
+    teamId: string,
+    data: { userId: string; role?: TeamRole },
+    actorId: string
+  ): Promise<ITeamMember> {
+    try {
+      await this.getActiveTeam(teamId);
+      const actor = await this.authorize(teamId, actorId, 'members:manage');
+
+      const role = data.role || (await this.teamRepository.findSettings(teamId))!.defaultMemberRole;
+      this.validateRoleGrant(actor, role);
+
+      if (await this.teamRepository.findMember(teamId, data.userId)) {
+        throw new Error(ErrorCodes.TEAM_MEMBER_EXISTS.toString());
+      }
+
+      const member = await this.teamRepository.addMember(teamId, data.userId, role, {
+        actorId,
+        action: TeamAuditAction.MEMBER_ADDED,
+        details: { userId: data.userId, role }
+      });
+
+      if (!member) {
+        throw new Error(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+      }
+      await this.publishTeamUpdate(teamId, TeamAuditAction.MEMBER_ADDED, { memberId: data.userId });
+
+      this.logger.info('Team member added', { teamId, memberId: data.userId, role, userId: actorId });
+      return this.toMember(member);
+    } catch (error) {
+      this.logger.error('Failed to add team member', { error, teamId, memberId: data.userId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes a member's role. The owner's role cannot be changed.
+   */
+  public async updateMemberRole(
+    teamId: string,
+    memberId: string,
+    role: TeamRole,
+    actorId: string
+  ): Promise<ITeamMember> {
+    try {
+      await this.getActiveTeam(teamId);
+      const actor = await this.authorize(teamId, actorId, 'members:manage');
+      const target = await this.getMember(teamId, memberId);
+
+      this.validateMemberManagement(actor, target);
+      this.validateRoleGrant(actor, role);
+
+      if (target.role === role) {
+        return this.toMember(target);
+      }
+
+      const member = await this.teamRepository.updateMemberRole(teamId, memberId, role, {
+        actorId,
+        action: TeamAuditAction.MEMBER_ROLE_CHANGED,
+        details: { userId: memberId, from: target.role, to: role }
+      });
+      await this.publishTeamUpdate(teamId, TeamAuditAction.MEMBER_ROLE_CHANGED, { memberId });
+
+      this.logger.info('Team member role changed', { teamId, memberId, role, userId: actorId });
+      return this.toMember(member);
+    } catch (error) {
+      this.logger.error('Failed to change team member role', { error, teamId, memberId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a member. Any member other than the owner may also leave the team.
+   */
+  public async removeMember(teamId: string, memberId: string, actorId: string): Promise<void> {
+    try {
+      await this.getActiveTeam(teamId);
+      const target = await this.getMember(teamId, memberId);
+
+      if (memberId !== actorId) {
+        const actor = await this.authorize(teamId, actorId, 'members:manage');
+        this.validateMemberManagement(actor, target);
+      } else if (target.role === TeamRole.OWNER) {
+        throw new Error(ErrorCodes.TEAM_OWNER_REQUIRED.toString());
+      }
+
+      await this.teamRepository.removeMember(teamId, memberId, {
+        actorId,
+        action: TeamAuditAction.MEMBER_REMOVED,
+        details: { userId: memberId, role: target.role }
+      });
+      await this.publishTeamUpdate(teamId, TeamAuditAction.MEMBER_REMOVED, { memberId });
+
+      this.logger.info('Team member removed', { teamId, memberId, userId: actorId });
+    } catch (error) {
+      this.logger.error('Failed to remove team member', { error, teamId, memberId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a team's audit log
+   */
+  public async getAuditLog(
+    teamId: string,
+    pagination: { page: number; pageSize: number },
+    userId: string
+  ): Promise<{ data: ITeamAuditLog[]; total: number }> {
+    await this.getActiveTeam(teamId);
+    await this.authorize(teamId, userId, 'audit:read');
+
+    return this.teamRepository.findAuditLogs(teamId, pagination.page, pagination.pageSize);
+  }
+
+  /**
+   * Lists a team's pending invitations
+   */
+  public async listInvitations(teamId: string, userId: string): Promise<ITeamInvitation[]> {
+    await this.getActiveTeam(teamId);
+    await this.authorize(teamId, userId, 'members:manage');
+
+    return this.teamRepository.findPendingInvitations(teamId);
+  }
+
+  /**
+   * Emails an invitation to join a team. Owners and admins may invite with
+   * any role below their own; when the team allows invites, members may
+   * invite others as members.
+   */
+  public async createInvitation(
+    teamId: string,
+    data: { inviteeEmail: string; role?: TeamRole },
+    actorId: string
+  ): Promise<ITeamInvitation> {
+    const inviteeEmail = data.inviteeEmail.toLowerCase();
+
+    try {
+      const team = await this.getActiveTeam(teamId);
+      const actor = await this.authorize(teamId, actorId, 'team:read');
+      const settings = (await this.teamRepository.findSettings(teamId))!;
+
+      const role = data.role || settings.defaultMemberRole;
+      if (TEAM_ROLE_PERMISSIONS[actor.role].includes('members:manage')) {
+        this.validateRoleGrant(actor, role);
+      } else if (!settings.allowInvites || role !== TeamRole.MEMBER) {
+        throw new Error(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+      }
+
+      const invitee = await this.teamRepository.findUserByEmail(inviteeEmail);
+      if (invitee && await this.teamRepository.findMember(teamId, invitee.id)) {
+        throw new Error(ErrorCodes.TEAM_MEMBER_EXISTS.toString());
+      }
+
+      // Checked again when the invitation is accepted, under a lock
+      if (await this.teamRepository.countMembers(teamId) >= settings.maxMembers) {
+        throw new Error(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+      }
+
+      const token = randomBytes(invitationConfig.tokenBytes).toString('base64url');
+      const invitation = await this.teamRepository.createInvitation(
+        {
+          teamId,
+          inviterId: actorId,
+          inviteeEmail,
+          role,
+          expiresAt: new Date(Date.now() + invitationConfig.tokenTtl * 1000)
+        },
+        this.hashInvitationToken(token),
+        {
+          actorId,
+          action: TeamAuditAction.INVITATION_CREATED,
+          details: { inviteeEmail, role }
+        }
+      );
+
+      await this.sendInvitation(team, invitation, token, actorId);
+      await this.publishTeamUpdate(teamId, TeamAuditAction.INVITATION_CREATED, { invitationId: invitation.id });
+
+      this.logger.info('Team invitation created', { teamId, invitationId: invitation.id, role, userId: actorId });
+      return invitation;
+    } catch (error) {
+      this.logger.error('Failed to create team invitation', { error, teamId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Emails a pending invitation again with a new link and expiry. The
+   * previously sent link stops working.
+   */
+  public async resendInvitation(teamId: string, invitationId: string, actorId: string): Promise<ITeamInvitation> {
+    try {
+      const team = await this.getActiveTeam(teamId);
+      const current = await this.getManageableInvitation(teamId, invitationId, actorId);
+
+      const token = randomBytes(invitationConfig.tokenBytes).toString('base64url');
+      const invitation = await this.teamRepository.renewInvitation(
+        current.id,
+        this.hashInvitationToken(token),
+        new Date(Date.now() + invitationConfig.tokenTtl * 1000),
+        {
+          actorId,
+          action: TeamAuditAction.INVITATION_RESENT,
+          details: { invitationId, inviteeEmail: current.inviteeEmail }
+        }
+      );
+
+      if (!invitation) {
+        throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+      }
+
+      await this.sendInvitation(team, invitation, token, actorId);
+      await this.publishTeamUpdate(teamId, TeamAuditAction.INVITATION_RESENT, { invitationId });
+
+      this.logger.info('Team invitation resent', { teamId, invitationId, userId: actorId });
+      return invitation;
+    } catch (error) {
+      this.logger.error('Failed to resend team invitation', { error, teamId, invitationId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a pending invitation so its link can no longer be used
+   */
+  public async revokeInvitation(teamId: string, invitationId: string, actorId: string): Promise<void> {
+    try {
+      await this.getActiveTeam(teamId);
+      const current = await this.getManageableInvitation(teamId, invitationId, actorId);
+
+      const invitation = await this.teamRepository.closeInvitation(current.id, TeamInvitationStatus.REVOKED, {
+        actorId,
+        action: TeamAuditAction.INVITATION_REVOKED,
+        details: { invitationId, inviteeEmail: current.inviteeEmail }
+      });
+
+      if (!invitation) {
+        throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+      }
+      await this.publishTeamUpdate(teamId, TeamAuditAction.INVITATION_REVOKED, { invitationId });
+
+      this.logger.info('Team invitation revoked', { teamId, invitationId, userId: actorId });
+    } catch (error) {
+      this.logger.error('Failed to revoke team invitation', { error, teamId, invitationId, userId: actorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Describes the invitation behind an emailed link, and whether accepting
+   * it needs the invitee to register or sign in
+   */
+  public async previewInvitation(token: string): Promise<ITeamInvitationPreview> {
+    const invitation = await this.getRedeemableInvitation(token);
+    const team = await this.getActiveTeam(invitation.teamId);
+
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      inviteeEmail: invitation.inviteeEmail,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      accountExists: Boolean(await this.teamRepository.findUserByEmail(invitation.inviteeEmail))
+    };
+  }
+
+  /**
+   * Accepts an invitation. A signed-in user must be the invitee; without a
+   * session, the invitee is registered from the given details, unless they
+   * already have an account and must sign in first.
+   */
+  public async acceptInvitation(
+    token: string,
+    data: ITeamInvitationAcceptData,
+    userId?: string
+  ): Promise<{ member: ITeamMember; registered: boolean }> {
+    try {
+      const invitation = await this.getRedeemableInvitation(token);
+      await this.getActiveTeam(invitation.teamId);
+
+      let account: InvitationAccount;
+      if (userId) {
+        const user = await this.teamRepository.findUserById(userId);
+        if (!user || user.email.toLowerCase() !== invitation.inviteeEmail) {
+          throw new Error(ErrorCodes.TEAM_INVITATION_EMAIL_MISMATCH.toString());
+        }
+        if (await this.teamRepository.findMember(invitation.teamId, userId)) {
+          throw new Error(ErrorCodes.TEAM_MEMBER_EXISTS.toString());
+        }
+        account = { userId };
+      } else {
+        if (await this.teamRepository.findUserByEmail(invitation.inviteeEmail)) {
+          throw new Error(ErrorCodes.TEAM_INVITATION_SIGN_IN_REQUIRED.toString());
+        }
+        account = await this.prepareRegistration(invitation.inviteeEmail, data);
+      }
+
+      const registered = !userId;
+      const result = await this.teamRepository.acceptInvitation(invitation.id, account, {
+        action: TeamAuditAction.INVITATION_ACCEPTED,
+        details: { invitationId: invitation.id, role: invitation.role, registered }
+      });
+
+      if (result.status === 'invalid') {
+        throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+      }
+      if (result.status === 'full') {
+        throw new Error(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+      }
+      await this.publishTeamUpdate(invitation.teamId, TeamAuditAction.INVITATION_ACCEPTED, {
+        memberId: result.member.userId,
+        invitationId: invitation.id
+      });
+
+      this.logger.info('Team invitation accepted', {
+        teamId: invitation.teamId,
+        invitationId: invitation.id,
+        memberId: result.member.userId,
+        registered
+      });
+      return { member: this.toMember(result.member), registered };
+    } catch (error) {
+      this.logger.error('Failed to accept team invitation', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Declines an invitation. Holding the emailed link is enough; no account
+   * is needed.
+   */
+  public async rejectInvitation(token: string, userId?: string): Promise<void> {
+    try {
+      const current = await this.getRedeemableInvitation(token);
+
+      const invitation = await this.teamRepository.closeInvitation(current.id, TeamInvitationStatus.REJECTED, {
+        actorId: userId || null,
+        action: TeamAuditAction.INVITATION_REJECTED,
+        details: { invitationId: current.id, inviteeEmail: current.inviteeEmail }
+      });
+
+      if (!invitation) {
+        throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+      }
+      await this.publishTeamUpdate(current.teamId, TeamAuditAction.INVITATION_REJECTED, { invitationId: current.id });
+
+      this.logger.info('Team invitation rejected', { teamId: current.teamId, invitationId: current.id });
+    } catch (error) {
+      this.logger.error('Failed to reject team invitation', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method loading a team that has not been deleted
+   */
+  private async getActiveTeam(teamId: string): Promise<ITeam> {
+    const team = await this.teamRepository.findById(teamId);
+    if (!team || team.status === TeamStatus.DELETED) {
+      throw new Error(ErrorCodes.TEAM_NOT_FOUND.toString());
+    }
+    return team;
+  }
+
+  /**
+   * Helper method loading a membership
+   */
+  private async getMember(teamId: string, userId: string): Promise<TeamMemberRecord> {
+    const member = await this.teamRepository.findMember(teamId, userId);
+    if (!member) {
+      throw new Error(ErrorCodes.TEAM_MEMBER_NOT_FOUND.toString());
+    }
+    return member;
+  }
+
+  /**
+   * Helper method checking the user's team role grants a permission
+   */
+  private async authorize(teamId: string, userId: string, permission: string): Promise<TeamMemberRecord> {
+    const member = await this.teamRepository.findMember(teamId, userId);
+    if (!member) {
+      throw new Error(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+    }
+    if (!TEAM_ROLE_PERMISSIONS[member.role].includes(permission)) {
+      throw new Error(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+    }
+    return member;
+  }
+
+  /**
+   * Helper method hiding private teams from users outside them
+   */
+  private async validateVisibility(teamId: string, userId: string): Promise<void> {
+    const settings = await this.teamRepository.findSettings(teamId);
+    if (settings?.isPrivate && !(await this.teamRepository.findMember(teamId, userId))) {
+      throw new Error(ErrorCodes.TEAM_NOT_FOUND.toString());
+    }
+  }
+
+  /**
+   * Helper method allowing members to be managed only by higher roles.
+   * Nobody outranks the owner, so the owner can never be removed or demoted.
+   */
+  private validateMemberManagement(actor: TeamMemberRecord, target: TeamMemberRecord): void {
+    if (target.role === TeamRole.OWNER) {
+      throw new Error(ErrorCodes.TEAM_OWNER_REQUIRED.toString());
+    }
+    if (ROLE_RANK[actor.role] <= ROLE_RANK[target.role]) {
+      throw new Error(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+    }
+  }
+
+  /**
+   * Helper method allowing only roles below the actor's own to be granted
+   */
+  private validateRoleGrant(actor: TeamMemberRecord, role: TeamRole): void {
+    if (ROLE_RANK[actor.role] <= ROLE_RANK[role]) {
+      throw new Error(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+    }
+  }
+
+  /**
+   * Helper method loading a pending invitation that the actor may resend or
+   * revoke: their own, or any when they manage members
+   */
+  private async getManageableInvitation(
+    teamId: string,
+    invitationId: string,
+    actorId: string
+  ): Promise<ITeamInvitation> {
+    const invitation = await this.teamRepository.findInvitation(teamId, invitationId);
+    if (!invitation) {
+      throw new Error(ErrorCodes.TEAM_INVITATION_NOT_FOUND.toString());
+    }
+
+    await this.authorize(teamId, actorId, invitation.inviterId === actorId ? 'team:read' : 'members:manage');
+
+    if (invitation.status !== TeamInvitationStatus.PENDING) {
+      throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+    }
+    return invitation;
+  }
+
+  /**
+   * Helper method loading the pending, unexpired invitation an emailed
+   * token belongs to
+   */
+  private async getRedeemableInvitation(token: string): Promise<ITeamInvitation> {
+    const invitation = await this.teamRepository.findInvitationByToken(this.hashInvitationToken(token));
+    if (
+      !invitation ||
+      invitation.status !== TeamInvitationStatus.PENDING ||
+      new Date(invitation.expiresAt).getTime() <= Date.now()
+    ) {
+      throw new Error(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+    }
+    return invitation;
+  }
+
+  /**
+   * Helper method checking registration details against the shared password
+   * policy and hashing the password so the auth service can verify it
+   */
+  private async prepareRegistration(
+    email: string,
+    data: ITeamInvitationAcceptData
+  ): Promise<InvitationAccount> {
+    if (!data.firstName || !data.lastName || !data.password) {
+      throw new Error(ErrorCodes.REQUIRED_FIELD_MISSING.toString());
+    }
+    if (!validatePasswordPolicy(data.password).isValid) {
+      throw new Error(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+    }
+
+    return {
+      email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      passwordHash: await hashPassword(data.password)
+    };
+  }
+
+  /**
+   * Helper method queueing the invitation email for the notification service.
+   * The invitation is kept when queueing fails so it can be resent.
+   */
+  private async sendInvitation(
+    team: ITeam,
+    invitation: ITeamInvitation,
+    token: string,
+    inviterId: string
+  ): Promise<void> {
+    const inviter = await this.teamRepository.findUserById(inviterId);
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(' ') || inviter?.email;
+
+    try {
+      await enqueueNotificationRequest(this.redisClient, {
+        kind: 'email',
+        type: TransactionalEmailType.TEAM_INVITATION,
+        to: invitation.inviteeEmail,
+        context: {
+          email: invitation.inviteeEmail,
+          teamName: team.name,
+          inviterName: inviterName || 'A team member',
+          role: invitation.role.toLowerCase(),
+          link: `${invitationConfig.acceptUrl}?token=${encodeURIComponent(token)}`,
+          expiresInDays: Math.round(invitationConfig.tokenTtl / 86400)
+        }
+      });
+    } catch (error) {
+      this.logger.error('Failed to queue team invitation email', { error, teamId: team.id, invitationId: invitation.id });
+      throw new Error(ErrorCodes.EXTERNAL_SERVICE_TIMEOUT.toString());
+    }
+  }
+
+  /**
+   * Helper method telling clients in the team's room what changed. Failures
+   * are logged rather than thrown, since the change itself has been saved.
+   */
+  private async publishTeamUpdate(
+    teamId: string,
+    action: TeamAuditAction,
+    subject: Pick<ITeamRealtimeUpdate, 'memberId' | 'invitationId'> = {}
+  ): Promise<void> {
+    try {
+      await publishRealtimeEvent<ITeamRealtimeUpdate>(
+        this.redisClient,
+        realtimeRoom(RealtimeRoomType.TEAM, teamId),
+        RealtimeEventType.TEAM_UPDATED,
+        { teamId, action, ...subject, timestamp: new Date().toISOString() }
+      );
+    } catch (error) {
+      this.logger.error('Failed to publish team realtime event', { error, teamId, action });
+    }
+  }
+
+  /**
+   * Helper method hashing an invitation token under the signing secret
+   */
+  private hashInvitationToken(token: string): string {
+    return createHmac('sha256', invitationConfig.tokenSecret).update(token).digest('hex');
+  }
+
+  /**
+   * Helper method attaching the permissions granted by a member's role
+   */
+  private toMember(member: TeamMemberRecord): ITeamMember {
+    return { ...member, permissions: TEAM_ROLE_PERMISSIONS[member.role] };
+  }
+}
+
+export default TeamService;
\ No newline at end of file
@@ -0,0 +1,226 @@
+/**
+ * Team Validation Module
+ * Version: 1.0.0
+ * Validation schemas for teams, their settings and membership changes
+ */
+
+import Joi from 'joi'; // v17.9.0
+import {
+  TeamRole,
+  TeamStatus,
+  TEAM_MAX_MEMBERS,
+  TEAM_MIN_MEMBERS
+} from '../../../../shared/interfaces/team.interface';
+
+// Validation Constants
+const TEAM_NAME_MIN_LENGTH = 3;
+const TEAM_NAME_MAX_LENGTH = 100;
+const TEAM_DESCRIPTION_MAX_LENGTH = 1000;
+
+// Ownership cannot be granted through membership changes
+const ASSIGNABLE_ROLES = [TeamRole.ADMIN, TeamRole.MEMBER];
+
+// Joi Schema for Team Settings Updates
+export const teamSettingsSchema = Joi.object({
+  isPrivate: Joi.boolean(),
+  allowInvites: Joi.boolean(),
+  notificationSettings: Joi.object({
+    emailNotifications: Joi.boolean(),
+    taskUpdates: Joi.boolean(),
+    membershipChanges: Joi.boolean(),
+    projectUpdates: Joi.boolean(),
+    dailyDigest: Joi.boolean()
+  }).min(1),
+  maxMembers: Joi.number()
+    .integer()
+    .min(TEAM_MIN_MEMBERS)
+    .max(TEAM_MAX_MEMBERS)
+    .messages({
+      'number.min': `Teams must allow at least ${TEAM_MIN_MEMBERS} members`,
+      'number.max': `Teams cannot exceed ${TEAM_MAX_MEMBERS} members`
+    }),
+  defaultMemberRole: Joi.string()
+    .valid(...ASSIGNABLE_ROLES)
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Team Creation
+export const teamCreateSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(TEAM_NAME_MIN_LENGTH)
+    .max(TEAM_NAME_MAX_LENGTH)
+    .required()
+    .messages({
+      'string.min': `Team name must be at least ${TEAM_NAME_MIN_LENGTH} characters`,
+      'string.max': `Team name cannot exceed ${TEAM_NAME_MAX_LENGTH} characters`
+    }),
+
+  description: Joi.string()
+    .trim()
+    .max(TEAM_DESCRIPTION_MAX_LENGTH)
+    .allow(''),
+
+  settings: teamSettingsSchema
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Team Updates; deletion has its own endpoint
+export const teamUpdateSchema = teamCreateSchema
+  .fork(['name'], (schema) => schema.optional())
+  .keys({
+    settings: Joi.forbidden(),
+    status: Joi.string().valid(TeamStatus.ACTIVE, TeamStatus.INACTIVE)
+  })
+  .min(1);
+
+const memberRoleSchema = Joi.string()
+  .valid(...ASSIGNABLE_ROLES)
+  .messages({
+    'any.only': 'Members can only be given the ADMIN or MEMBER role'
+  });
+
+// Joi Schema for Adding Members
+export const teamMemberAddSchema = Joi.object({
+  userId: Joi.string()
+    .uuid()
+    .required(),
+
+  role: memberRoleSchema
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Member Role Changes
+export const teamMemberRoleSchema = Joi.object({
+  role: memberRoleSchema.required()
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Team Invitations
+export const teamInvitationCreateSchema = Joi.object({
+  inviteeEmail: Joi.string()
+    .trim()
+    .email()
+    .max(255)
+    .required(),
+
+  role: memberRoleSchema
+}).options({ abortEarly: false, stripUnknown: true });
+
+const invitationTokenSchema = Joi.string()
+  .max(256)
+  .required();
+
+// Joi Schema for Previewing or Rejecting an Invitation
+export const teamInvitationTokenSchema = Joi.object({
+  token: invitationTokenSchema
+}).options({ abortEarly: false, stripUnknown: true });
+
+// Joi Schema for Accepting an Invitation; the registration details are only
+// needed when the invitee has no account
+export const teamInvitationAcceptSchema = Joi.object({
+  token: invitationTokenSchema,
+  firstName: Joi.string().trim().min(1).max(100),
+  lastName: Joi.string().trim().min(1).max(100),
+  password: Joi.string().max(128)
+}).options({ abortEarly: false, stripUnknown: true });
+
+/**
+ * Validates team creation data
+ * @param data - Team data
+ * @returns Validated data
+ */
+export const validateTeamCreate = async (data: unknown) => {
+  try {
+    return await teamCreateSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates team update data
+ * @param data - Partial team data
+ * @returns Validated data
+ */
+export const validateTeamUpdate = async (data: unknown) => {
+  try {
+    return await teamUpdateSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team update validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates team settings updates
+ * @param data - Partial team settings
+ * @returns Validated data
+ */
+export const validateTeamSettings = async (data: unknown) => {
+  try {
+    return await teamSettingsSchema.min(1).validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team settings validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates a new team member
+ * @param data - Member user ID and optional role
+ * @returns Validated data
+ */
+export const validateTeamMemberAdd = async (data: unknown) => {
+  try {
+    return await teamMemberAddSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team member validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates a member role change
+ * @param data - New role
+ * @returns Validated data
+ */
+export const validateTeamMemberRole = async (data: unknown) => {
+  try {
+    return await teamMemberRoleSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team member role validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates a new team invitation
+ * @param data - Invitee email and optional role
+ * @returns Validated data
+ */
+export const validateTeamInvitationCreate = async (data: unknown) => {
+  try {
+    return await teamInvitationCreateSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team invitation validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates an invitation token
+ * @param data - Emailed invitation token
+ * @returns Validated data
+ */
+export const validateTeamInvitationToken = async (data: unknown) => {
+  try {
+    return await teamInvitationTokenSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team invitation token validation failed: ${error.message}`);
+  }
+};
+
+/**
+ * Validates an invitation acceptance
+ * @param data - Emailed invitation token and optional registration details
+ * @returns Validated data
+ */
+export const validateTeamInvitationAccept = async (data: unknown) => {
+  try {
+    return await teamInvitationAcceptSchema.validateAsync(data);
+  } catch (error) {
+    throw new Error(`Team invitation acceptance validation failed: ${error.message}`);
+  }
+};
\ No newline at end of file
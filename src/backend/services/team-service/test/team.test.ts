@@ -0,0 +1,403 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { TeamService } from '../src/services/team.service';
+import { TeamRepository, TeamMemberRecord } from '../src/repositories/team.repository';
+import { validateTeamMemberAdd, validateTeamSettings } from '../src/validators/team.validator';
+import { ErrorCodes } from '../../../shared/constants/error-codes';
+import { NOTIFICATION_REQUEST_QUEUE } from '../../../shared/utils/notification.util';
+import { TransactionalEmailType } from '../../../shared/interfaces/notification.interface';
+import { RealtimeEventType } from '../../../shared/interfaces/realtime.interface';
+import {
+  DEFAULT_TEAM_NOTIFICATION_SETTINGS,
+  ITeam,
+  ITeamInvitation,
+  ITeamSettings,
+  TeamAuditAction,
+  TeamInvitationStatus,
+  TeamRole,
+  TeamStatus
+} from '../../../shared/interfaces/team.interface';
+
+// Mock services and dependencies
+jest.mock('../src/repositories/team.repository');
+jest.mock('../../../shared/utils/logger.util');
+jest.mock('argon2', () => ({ hash: jest.fn(async () => 'argon2-hash') }));
+jest.mock('../src/config/invitation.config', () => ({
+  invitationConfig: {
+    tokenTtl: 604800,
+    tokenBytes: 32,
+    tokenSecret: 'test-invitation-secret',
+    acceptUrl: 'http://localhost:3000/auth/accept-invitation'
+  }
+}));
+
+// Test constants
+const TEAM_ID = '7f1b7a4e-3c1d-4c39-9a53-0d6c2e5b8a11';
+const OWNER_ID = '0a4b6f0e-8d2c-4f0a-b1a6-2c3d4e5f6a01';
+const ADMIN_ID = '0a4b6f0e-8d2c-4f0a-b1a6-2c3d4e5f6a02';
+const MEMBER_ID = '0a4b6f0e-8d2c-4f0a-b1a6-2c3d4e5f6a03';
+const OUTSIDER_ID = '0a4b6f0e-8d2c-4f0a-b1a6-2c3d4e5f6a04';
+const INVITATION_ID = '5d2c1b0a-9e8f-4a7b-8c6d-5e4f3a2b1c01';
+const INVITEE_EMAIL = 'new.hire@example.com';
+
+const TEST_TEAM: ITeam = {
+  id: TEAM_ID,
+  name: 'Platform',
+  description: 'Platform engineering',
+  ownerId: OWNER_ID,
+  memberIds: [OWNER_ID, ADMIN_ID, MEMBER_ID],
+  projectIds: [],
+  status: TeamStatus.ACTIVE,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z')
+};
+
+const TEST_SETTINGS: ITeamSettings = {
+  teamId: TEAM_ID,
+  isPrivate: true,
+  allowInvites: true,
+  notificationSettings: DEFAULT_TEAM_NOTIFICATION_SETTINGS,
+  maxMembers: 10,
+  defaultMemberRole: TeamRole.MEMBER
+};
+
+const MEMBERS: Record<string, TeamMemberRecord> = {
+  [OWNER_ID]: { teamId: TEAM_ID, userId: OWNER_ID, role: TeamRole.OWNER, joinedAt: new Date() },
+  [ADMIN_ID]: { teamId: TEAM_ID, userId: ADMIN_ID, role: TeamRole.ADMIN, joinedAt: new Date() },
+  [MEMBER_ID]: { teamId: TEAM_ID, userId: MEMBER_ID, role: TeamRole.MEMBER, joinedAt: new Date() }
+};
+
+const TEST_INVITATION: ITeamInvitation = {
+  id: INVITATION_ID,
+  teamId: TEAM_ID,
+  inviterId: MEMBER_ID,
+  inviteeEmail: INVITEE_EMAIL,
+  role: TeamRole.MEMBER,
+  status: TeamInvitationStatus.PENDING,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  respondedAt: null,
+  createdAt: new Date()
+};
+
+describe('Team Service Tests', () => {
+  let repository: jest.Mocked<TeamRepository>;
+  let redisClient: { lpush: jest.Mock; xadd: jest.Mock; pipeline: jest.Mock };
+  let realtimePipeline: { expire: jest.Mock; publish: jest.Mock; exec: jest.Mock };
+  let service: TeamService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    repository = new TeamRepository() as jest.Mocked<TeamRepository>;
+    repository.findById.mockResolvedValue(TEST_TEAM);
+    repository.findSettings.mockResolvedValue(TEST_SETTINGS);
+    repository.findMember.mockImplementation(async (_teamId, userId) => MEMBERS[userId]);
+
+    realtimePipeline = {
+      expire: jest.fn().mockReturnThis(),
+      publish: jest.fn().mockReturnThis(),
+      exec: jest.fn()
+    };
+    redisClient = {
+      lpush: jest.fn(),
+      xadd: jest.fn().mockResolvedValue('1-0' as never),
+      pipeline: jest.fn().mockReturnValue(realtimePipeline as never)
+    };
+
+    service = new TeamService(repository, redisClient as any);
+  });
+
+  describe('Team Management Tests', () => {
+    test('should create a team with default notification settings and an audit entry', async () => {
+      repository.create.mockResolvedValue(TEST_TEAM);
+
+      await service.createTeam({ name: 'Platform', settings: { notificationSettings: { dailyDigest: true } } }, OWNER_ID);
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerId: OWNER_ID,
+          notificationSettings: { ...DEFAULT_TEAM_NOTIFICATION_SETTINGS, dailyDigest: true }
+        }),
+        { actorId: OWNER_ID, action: TeamAuditAction.TEAM_CREATED, details: { name: 'Platform' } }
+      );
+    });
+
+    test('should hide private teams from users outside them', async () => {
+      await expect(service.getTeam(TEAM_ID, OUTSIDER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_NOT_FOUND.toString());
+      await expect(service.getTeam(TEAM_ID, MEMBER_ID)).resolves.toEqual(TEST_TEAM);
+    });
+
+    test('should treat deleted teams as missing', async () => {
+      repository.findById.mockResolvedValue({ ...TEST_TEAM, status: TeamStatus.DELETED });
+
+      await expect(service.getTeam(TEAM_ID, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_NOT_FOUND.toString());
+    });
+
+    test('should only let the owner delete a team', async () => {
+      await expect(service.deleteTeam(TEAM_ID, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+
+      await service.deleteTeam(TEAM_ID, OWNER_ID);
+
+      expect(repository.update).toHaveBeenCalledWith(
+        TEAM_ID,
+        { status: TeamStatus.DELETED },
+        expect.objectContaining({ action: TeamAuditAction.TEAM_DELETED })
+      );
+    });
+
+    test('should not let the member limit drop below the team size', async () => {
+      repository.updateSettings.mockResolvedValue(null);
+
+      await expect(service.updateSettings(TEAM_ID, { maxMembers: 10 }, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+    });
+
+    test('should merge notification settings with the current ones', async () => {
+      repository.updateSettings.mockResolvedValue(TEST_SETTINGS);
+
+      await service.updateSettings(TEAM_ID, { notificationSettings: { dailyDigest: true } }, OWNER_ID);
+
+      expect(repository.updateSettings).toHaveBeenCalledWith(
+        TEAM_ID,
+        expect.objectContaining({
+          notificationSettings: { ...DEFAULT_TEAM_NOTIFICATION_SETTINGS, dailyDigest: true }
+        }),
+        expect.objectContaining({ action: TeamAuditAction.SETTINGS_UPDATED })
+      );
+    });
+
+    test('should reject member limits outside the supported range', async () => {
+      await expect(validateTeamSettings({ maxMembers: 5 })).rejects.toThrow();
+      await expect(validateTeamSettings({ maxMembers: 10001 })).rejects.toThrow();
+      await expect(validateTeamSettings({ maxMembers: 10000 })).resolves.toEqual({ maxMembers: 10000 });
+    });
+  });
+
+  describe('Team Membership Tests', () => {
+    test('should add members with the default role and derived permissions', async () => {
+      repository.addMember.mockImplementation(async (teamId, userId, role) =>
+        ({ teamId, userId, role, joinedAt: new Date() }));
+
+      const member = await service.addMember(TEAM_ID, { userId: OUTSIDER_ID }, ADMIN_ID);
+
+      expect(member).toMatchObject({ userId: OUTSIDER_ID, role: TeamRole.MEMBER, permissions: ['team:read'] });
+      expect(repository.addMember).toHaveBeenCalledWith(TEAM_ID, OUTSIDER_ID, TeamRole.MEMBER, {
+        actorId: ADMIN_ID,
+        action: TeamAuditAction.MEMBER_ADDED,
+        details: { userId: OUTSIDER_ID, role: TeamRole.MEMBER }
+      });
+    });
+
+    test('should reject new members once the team is full', async () => {
+      repository.addMember.mockResolvedValue(null);
+
+      await expect(service.addMember(TEAM_ID, { userId: OUTSIDER_ID }, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+    });
+
+    test('should reject adding an existing member', async () => {
+      await expect(service.addMember(TEAM_ID, { userId: MEMBER_ID }, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_MEMBER_EXISTS.toString());
+      expect(repository.addMember).not.toHaveBeenCalled();
+    });
+
+    test('should only let roles below the actor be granted', async () => {
+      await expect(service.addMember(TEAM_ID, { userId: OUTSIDER_ID, role: TeamRole.ADMIN }, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+      await expect(service.updateMemberRole(TEAM_ID, MEMBER_ID, TeamRole.ADMIN, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+      await expect(validateTeamMemberAdd({ userId: OUTSIDER_ID, role: TeamRole.OWNER })).rejects.toThrow();
+    });
+
+    test('should record role changes made by the owner', async () => {
+      repository.updateMemberRole.mockResolvedValue({ ...MEMBERS[MEMBER_ID], role: TeamRole.ADMIN });
+
+      const member = await service.updateMemberRole(TEAM_ID, MEMBER_ID, TeamRole.ADMIN, OWNER_ID);
+
+      expect(member.permissions).toContain('members:manage');
+      expect(repository.updateMemberRole).toHaveBeenCalledWith(TEAM_ID, MEMBER_ID, TeamRole.ADMIN, {
+        actorId: OWNER_ID,
+        action: TeamAuditAction.MEMBER_ROLE_CHANGED,
+        details: { userId: MEMBER_ID, from: TeamRole.MEMBER, to: TeamRole.ADMIN }
+      });
+    });
+
+    test('should never remove or demote the owner', async () => {
+      await expect(service.removeMember(TEAM_ID, OWNER_ID, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_OWNER_REQUIRED.toString());
+      await expect(service.removeMember(TEAM_ID, OWNER_ID, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_OWNER_REQUIRED.toString());
+      await expect(service.updateMemberRole(TEAM_ID, OWNER_ID, TeamRole.MEMBER, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_OWNER_REQUIRED.toString());
+      expect(repository.removeMember).not.toHaveBeenCalled();
+    });
+
+    test('should stop admins from removing other admins', async () => {
+      repository.findMember.mockImplementation(async (_teamId, userId) =>
+        userId === MEMBER_ID ? { ...MEMBERS[MEMBER_ID], role: TeamRole.ADMIN } : MEMBERS[userId]);
+
+      await expect(service.removeMember(TEAM_ID, MEMBER_ID, ADMIN_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+    });
+
+    test('should let members leave a team', async () => {
+      await service.removeMember(TEAM_ID, MEMBER_ID, MEMBER_ID);
+
+      expect(repository.removeMember).toHaveBeenCalledWith(TEAM_ID, MEMBER_ID, {
+        actorId: MEMBER_ID,
+        action: TeamAuditAction.MEMBER_REMOVED,
+        details: { userId: MEMBER_ID, role: TeamRole.MEMBER }
+      });
+    });
+
+    test('should tell the team room which member was removed', async () => {
+      await service.removeMember(TEAM_ID, MEMBER_ID, OWNER_ID);
+
+      const [channel, message] = realtimePipeline.publish.mock.calls[0] as [string, string];
+      const event = JSON.parse(message);
+
+      expect(channel).toBe(`realtime:team:${TEAM_ID}`);
+      expect(event).toMatchObject({
+        type: RealtimeEventType.TEAM_UPDATED,
+        payload: { teamId: TEAM_ID, action: TeamAuditAction.MEMBER_REMOVED, memberId: MEMBER_ID }
+      });
+    });
+
+    test('should restrict the audit log to owners and admins', async () => {
+      repository.findAuditLogs.mockResolvedValue({ data: [], total: 0 });
+
+      await expect(service.getAuditLog(TEAM_ID, { page: 1, pageSize: 20 }, MEMBER_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+      await expect(service.getAuditLog(TEAM_ID, { page: 1, pageSize: 20 }, OUTSIDER_ID))
+        .rejects.toThrow(ErrorCodes.RESOURCE_ACCESS_DENIED.toString());
+      await expect(service.getAuditLog(TEAM_ID, { page: 1, pageSize: 20 }, ADMIN_ID))
+        .resolves.toEqual({ data: [], total: 0 });
+    });
+  });
+
+  describe('Team Invitation Tests', () => {
+    beforeEach(() => {
+      repository.findInvitation.mockResolvedValue(TEST_INVITATION);
+      repository.findInvitationByToken.mockResolvedValue(TEST_INVITATION);
+      repository.countMembers.mockResolvedValue(3);
+    });
+
+    test('should email a single-use link and store only a hash of its token', async () => {
+      repository.createInvitation.mockResolvedValue(TEST_INVITATION);
+
+      await service.createInvitation(TEAM_ID, { inviteeEmail: 'New.Hire@Example.com' }, ADMIN_ID);
+
+      const [invitation, tokenHash, audit] = repository.createInvitation.mock.calls[0];
+      const [queue, queued] = redisClient.lpush.mock.calls[0] as [string, string];
+      const request = JSON.parse(queued);
+      const token = new URL(request.context.link).searchParams.get('token')!;
+
+      expect(invitation).toMatchObject({ inviteeEmail: INVITEE_EMAIL, role: TeamRole.MEMBER, inviterId: ADMIN_ID });
+      expect(queue).toBe(NOTIFICATION_REQUEST_QUEUE);
+      expect(request).toMatchObject({ kind: 'email', type: TransactionalEmailType.TEAM_INVITATION, to: INVITEE_EMAIL });
+      expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(tokenHash).not.toContain(token);
+      expect(audit).toMatchObject({ actorId: ADMIN_ID, action: TeamAuditAction.INVITATION_CREATED });
+    });
+
+    test('should only let members invite others as members when the team allows it', async () => {
+      repository.createInvitation.mockResolvedValue(TEST_INVITATION);
+
+      await expect(service.createInvitation(TEAM_ID, { inviteeEmail: INVITEE_EMAIL, role: TeamRole.ADMIN }, MEMBER_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+      await expect(service.createInvitation(TEAM_ID, { inviteeEmail: INVITEE_EMAIL }, MEMBER_ID)).resolves.toBeDefined();
+
+      repository.findSettings.mockResolvedValue({ ...TEST_SETTINGS, allowInvites: false });
+      await expect(service.createInvitation(TEAM_ID, { inviteeEmail: INVITEE_EMAIL }, MEMBER_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+    });
+
+    test('should not invite existing members', async () => {
+      repository.findUserByEmail.mockResolvedValue({ id: MEMBER_ID, email: INVITEE_EMAIL, firstName: null, lastName: null });
+
+      await expect(service.createInvitation(TEAM_ID, { inviteeEmail: INVITEE_EMAIL }, OWNER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_MEMBER_EXISTS.toString());
+      expect(redisClient.lpush).not.toHaveBeenCalled();
+    });
+
+    test('should reject expired and already answered invitations', async () => {
+      repository.findInvitationByToken.mockResolvedValue({ ...TEST_INVITATION, expiresAt: new Date(Date.now() - 1000) });
+      await expect(service.previewInvitation('token'))
+        .rejects.toThrow(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+
+      repository.findInvitationByToken.mockResolvedValue({ ...TEST_INVITATION, status: TeamInvitationStatus.ACCEPTED });
+      await expect(service.acceptInvitation('token', {}, OUTSIDER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_INVITATION_INVALID.toString());
+      expect(repository.acceptInvitation).not.toHaveBeenCalled();
+    });
+
+    test('should attach a signed-in user only when the invitation was sent to them', async () => {
+      repository.findUserById.mockResolvedValue({ id: OUTSIDER_ID, email: 'someone.else@example.com', firstName: null, lastName: null });
+      await expect(service.acceptInvitation('token', {}, OUTSIDER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_INVITATION_EMAIL_MISMATCH.toString());
+
+      repository.findUserById.mockResolvedValue({ id: OUTSIDER_ID, email: 'New.Hire@example.com', firstName: null, lastName: null });
+      repository.acceptInvitation.mockResolvedValue({
+        status: 'accepted',
+        member: { teamId: TEAM_ID, userId: OUTSIDER_ID, role: TeamRole.MEMBER, joinedAt: new Date() }
+      });
+
+      const result = await service.acceptInvitation('token', {}, OUTSIDER_ID);
+
+      expect(result).toMatchObject({ registered: false, member: { userId: OUTSIDER_ID, permissions: ['team:read'] } });
+      expect(repository.acceptInvitation).toHaveBeenCalledWith(INVITATION_ID, { userId: OUTSIDER_ID }, expect.objectContaining({
+        action: TeamAuditAction.INVITATION_ACCEPTED
+      }));
+    });
+
+    test('should register invitees without an account and ask existing users to sign in', async () => {
+      repository.findUserByEmail.mockResolvedValue({ id: OUTSIDER_ID, email: INVITEE_EMAIL, firstName: null, lastName: null });
+      await expect(service.acceptInvitation('token', { firstName: 'New', lastName: 'Hire', password: 'Str0ng!Passw0rd' }))
+        .rejects.toThrow(ErrorCodes.TEAM_INVITATION_SIGN_IN_REQUIRED.toString());
+
+      repository.findUserByEmail.mockResolvedValue(undefined);
+      await expect(service.acceptInvitation('token', { firstName: 'New', lastName: 'Hire', password: 'weak' }))
+        .rejects.toThrow(ErrorCodes.INVALID_INPUT_FORMAT.toString());
+
+      repository.acceptInvitation.mockResolvedValue({
+        status: 'accepted',
+        member: { teamId: TEAM_ID, userId: OUTSIDER_ID, role: TeamRole.MEMBER, joinedAt: new Date() }
+      });
+      const result = await service.acceptInvitation('token', { firstName: 'New', lastName: 'Hire', password: 'Str0ng!Passw0rd' });
+
+      expect(result.registered).toBe(true);
+      expect(repository.acceptInvitation).toHaveBeenCalledWith(
+        INVITATION_ID,
+        { email: INVITEE_EMAIL, firstName: 'New', lastName: 'Hire', passwordHash: 'argon2-hash' },
+        expect.objectContaining({ details: expect.objectContaining({ registered: true }) })
+      );
+    });
+
+    test('should not accept invitations once the team is full', async () => {
+      repository.findUserById.mockResolvedValue({ id: OUTSIDER_ID, email: INVITEE_EMAIL, firstName: null, lastName: null });
+      repository.acceptInvitation.mockResolvedValue({ status: 'full' });
+
+      await expect(service.acceptInvitation('token', {}, OUTSIDER_ID))
+        .rejects.toThrow(ErrorCodes.TEAM_MEMBER_LIMIT_REACHED.toString());
+    });
+
+    test('should let inviters and member managers resend or revoke invitations', async () => {
+      repository.findInvitation.mockResolvedValue({ ...TEST_INVITATION, inviterId: ADMIN_ID });
+      await expect(service.revokeInvitation(TEAM_ID, INVITATION_ID, MEMBER_ID))
+        .rejects.toThrow(ErrorCodes.INSUFFICIENT_PERMISSIONS.toString());
+
+      repository.renewInvitation.mockResolvedValue(TEST_INVITATION);
+      await service.resendInvitation(TEAM_ID, INVITATION_ID, OWNER_ID);
+
+      expect(repository.renewInvitation).toHaveBeenCalledWith(
+        INVITATION_ID,
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.any(Date),
+        expect.objectContaining({ actorId: OWNER_ID, action: TeamAuditAction.INVITATION_RESENT })
+      );
+      expect(JSON.parse(redisClient.lpush.mock.calls[0][1] as string)).toMatchObject({ to: INVITEE_EMAIL });
+    });
+  });
+});
\ No newline at end of file
@@ -29,18 +29,48 @@ export enum ErrorCodes {
   // Authentication Errors (1000-1999)
   INVALID_CREDENTIALS = 1001,
   TOKEN_EXPIRED = 1002,
+  INVALID_RESET_TOKEN = 1003,
+  MFA_ALREADY_ENABLED = 1004,
+  MFA_NOT_ENABLED = 1005,
+  MFA_ENROLLMENT_EXPIRED = 1006,
+  SESSION_NOT_FOUND = 1007,
+  OAUTH_STATE_INVALID = 1008,
+  OAUTH_EMAIL_NOT_VERIFIED = 1009,
+  OAUTH_ACCOUNT_CONFLICT = 1010,
+  SAML_CONNECTION_NOT_FOUND = 1011,
+  SAML_RESPONSE_INVALID = 1012,
+  TEAM_INVITATION_SIGN_IN_REQUIRED = 1013,
 
   // Authorization Errors (2000-2999)
   INSUFFICIENT_PERMISSIONS = 2001,
   RESOURCE_ACCESS_DENIED = 2002,
+  TRANSITION_NOT_PERMITTED = 2003,
+  OAUTH_DOMAIN_NOT_ALLOWED = 2004,
+  TEAM_INVITATION_EMAIL_MISMATCH = 2005,
 
   // Validation Errors (3000-3999)
   INVALID_INPUT_FORMAT = 3001,
   REQUIRED_FIELD_MISSING = 3002,
+  INVALID_WORKFLOW_DEFINITION = 3003,
+  INVALID_TASK_HIERARCHY = 3004,
+  INVALID_WEBHOOK_URL = 3005,
 
   // Business Logic Errors (4000-4999)
   TASK_ALREADY_COMPLETED = 4001,
   PROJECT_ALREADY_ARCHIVED = 4002,
+  INVALID_STATUS_TRANSITION = 4003,
+  TASK_DEPENDENCY_CYCLE = 4004,
+  TASK_BLOCKED = 4005,
+  TEAM_NOT_FOUND = 4006,
+  TEAM_MEMBER_NOT_FOUND = 4007,
+  TEAM_MEMBER_EXISTS = 4008,
+  TEAM_MEMBER_LIMIT_REACHED = 4009,
+  TEAM_OWNER_REQUIRED = 4010,
+  TEAM_INVITATION_NOT_FOUND = 4011,
+  TEAM_INVITATION_INVALID = 4012,
+  TASK_COMMENT_NOT_FOUND = 4013,
+  REALTIME_ROOM_LIMIT_REACHED = 4014,
+  TASK_NOT_FOUND = 4015,
 
   // System Errors (5000-5999)
   DATABASE_CONNECTION_ERROR = 5001,
@@ -48,7 +78,8 @@ export enum ErrorCodes {
 
   // Integration Errors (6000-6999)
   EXTERNAL_SERVICE_TIMEOUT = 6001,
-  INTEGRATION_SYNC_FAILED = 6002
+  INTEGRATION_SYNC_FAILED = 6002,
+  OAUTH_PROVIDER_ERROR = 6003
 }
 
 /**
@@ -57,16 +88,47 @@ export enum ErrorCodes {
 export const ErrorMessages: Record<ErrorCodes, string> = {
   [ErrorCodes.INVALID_CREDENTIALS]: 'Invalid credentials provided',
   [ErrorCodes.TOKEN_EXPIRED]: 'Authentication token has expired',
+  [ErrorCodes.INVALID_RESET_TOKEN]: 'Password reset link is invalid or has expired',
+  [ErrorCodes.MFA_ALREADY_ENABLED]: 'Two-factor authentication is already enabled',
+  [ErrorCodes.MFA_NOT_ENABLED]: 'Two-factor authentication is not enabled',
+  [ErrorCodes.MFA_ENROLLMENT_EXPIRED]: 'Two-factor setup has expired, please start again',
+  [ErrorCodes.SESSION_NOT_FOUND]: 'Session not found or already signed out',
+  [ErrorCodes.OAUTH_STATE_INVALID]: 'Sign-in request is invalid or has expired, please try again',
+  [ErrorCodes.OAUTH_EMAIL_NOT_VERIFIED]: 'The identity provider has not verified this email address',
+  [ErrorCodes.OAUTH_ACCOUNT_CONFLICT]: 'This account is already linked to a different sign-in identity',
+  [ErrorCodes.SAML_CONNECTION_NOT_FOUND]: 'Single sign-on is not configured for this organisation',
+  [ErrorCodes.SAML_RESPONSE_INVALID]: 'The single sign-on response could not be verified',
+  [ErrorCodes.TEAM_INVITATION_SIGN_IN_REQUIRED]: 'An account already exists for this email, sign in to accept the invitation',
   [ErrorCodes.INSUFFICIENT_PERMISSIONS]: 'Insufficient permissions to perform this action',
   [ErrorCodes.RESOURCE_ACCESS_DENIED]: 'Access to requested resource is denied',
+  [ErrorCodes.TRANSITION_NOT_PERMITTED]: 'You are not allowed to move this task to the requested status',
+  [ErrorCodes.OAUTH_DOMAIN_NOT_ALLOWED]: 'Sign-in is not allowed for this email domain',
+  [ErrorCodes.TEAM_INVITATION_EMAIL_MISMATCH]: 'This invitation was sent to a different email address',
   [ErrorCodes.INVALID_INPUT_FORMAT]: 'Invalid input format detected',
   [ErrorCodes.REQUIRED_FIELD_MISSING]: 'Required field is missing',
+  [ErrorCodes.INVALID_WORKFLOW_DEFINITION]: 'Project workflow definition is invalid',
+  [ErrorCodes.INVALID_TASK_HIERARCHY]: 'Parent task is invalid for this task',
+  [ErrorCodes.INVALID_WEBHOOK_URL]: 'Webhook URL must be a public HTTPS endpoint',
   [ErrorCodes.TASK_ALREADY_COMPLETED]: 'Task has already been marked as completed',
   [ErrorCodes.PROJECT_ALREADY_ARCHIVED]: 'Project is already in archived state',
+  [ErrorCodes.INVALID_STATUS_TRANSITION]: 'Status transition is not allowed by the project workflow',
+  [ErrorCodes.TASK_DEPENDENCY_CYCLE]: 'Task dependency would create a circular relationship',
+  [ErrorCodes.TASK_BLOCKED]: 'Task cannot be completed while blocking tasks are still open',
+  [ErrorCodes.TEAM_NOT_FOUND]: 'Team not found',
+  [ErrorCodes.TEAM_MEMBER_NOT_FOUND]: 'User is not a member of this team',
+  [ErrorCodes.TEAM_MEMBER_EXISTS]: 'User is already a member of this team',
+  [ErrorCodes.TEAM_MEMBER_LIMIT_REACHED]: 'Team has reached its maximum number of members',
+  [ErrorCodes.TEAM_OWNER_REQUIRED]: 'The team owner cannot be removed or demoted',
+  [ErrorCodes.TEAM_INVITATION_NOT_FOUND]: 'Team invitation not found',
+  [ErrorCodes.TEAM_INVITATION_INVALID]: 'Team invitation is invalid, has expired or has already been answered',
+  [ErrorCodes.TASK_COMMENT_NOT_FOUND]: 'Comment not found',
+  [ErrorCodes.REALTIME_ROOM_LIMIT_REACHED]: 'Too many subscriptions on this connection',
+  [ErrorCodes.TASK_NOT_FOUND]: 'Task not found',
   [ErrorCodes.DATABASE_CONNECTION_ERROR]: 'Unable to connect to database',
   [ErrorCodes.CACHE_SERVICE_ERROR]: 'Cache service is unavailable',
   [ErrorCodes.EXTERNAL_SERVICE_TIMEOUT]: 'External service request timed out',
-  [ErrorCodes.INTEGRATION_SYNC_FAILED]: 'Failed to synchronize with external system'
+  [ErrorCodes.INTEGRATION_SYNC_FAILED]: 'Failed to synchronize with external system',
+  [ErrorCodes.OAUTH_PROVIDER_ERROR]: 'The identity provider could not complete sign-in'
 };
 
 /**
@@ -68,6 +68,83 @@ export interface IAuthResponse {
   sessionId: string;
 }
 
+/**
+ * Signed-in session as shown to its owner; tokens are never included
+ */
+export interface ISessionInfo {
+  id: string;
+  deviceId: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: Date;
+  lastActiveAt: Date; // Last sign-in or token refresh
+  current: boolean;
+}
+
+/**
+ * External identity providers users can sign in with
+ */
+export enum OAuthProvider {
+  GOOGLE = 'google',
+  MICROSOFT = 'microsoft'
+}
+
+/**
+ * Provider sign-in request; the client redirects the browser to authorizationUrl
+ * and keeps state to check against the callback
+ */
+export interface IOAuthAuthorization {
+  authorizationUrl: string;
+  state: string;
+  expiresAt: Date;
+}
+
+/**
+ * Identity provider value recorded on accounts signed in through SAML
+ */
+export const SAML_IDENTITY_PROVIDER = 'saml' as const;
+
+/**
+ * External identity an account can be linked to
+ */
+export type IdentityProvider = OAuthProvider | typeof SAML_IDENTITY_PROVIDER;
+
+/**
+ * SAML attribute names holding each user property in an organisation's assertions
+ */
+export interface ISamlAttributeMapping {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+}
+
+/**
+ * Per-organisation SAML identity provider configuration
+ */
+export interface ISamlConnection {
+  organization: string;
+  name: string;
+  emailDomains: string[];
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificate: string;
+  attributeMapping: ISamlAttributeMapping;
+  // Role attribute values, e.g. IdP group names, to the role they grant
+  roleMapping: Record<string, UserRole>;
+  defaultRole: UserRole;
+  allowIdpInitiated: boolean;
+  enabled: boolean;
+}
+
+/**
+ * SP-initiated sign-in request; the client redirects the browser to redirectUrl
+ */
+export interface ISamlLoginRequest {
+  redirectUrl: string;
+  expiresAt: Date;
+}
+
 /**
  * User roles with hierarchical access levels
  * Follows principle of least privilege
@@ -85,5 +162,25 @@ export enum UserRole {
 export enum MFAMethod {
   TOTP = 'TOTP',
   SMS = 'SMS',
-  EMAIL = 'EMAIL'
+  EMAIL = 'EMAIL',
+  BACKUP_CODE = 'BACKUP_CODE'
+}
+
+/**
+ * A user's second-factor configuration, without any secrets
+ */
+export interface IMFAStatus {
+  enabled: boolean;
+  methods: MFAMethod[];
+  backupCodesRemaining: number;
+}
+
+/**
+ * Pending TOTP enrollment, shown once so the user can add it to an authenticator app
+ */
+export interface IMFAEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL encoding otpauthUrl
+  expiresAt: Date;
 }
\ No newline at end of file
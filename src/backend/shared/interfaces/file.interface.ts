@@ -22,8 +22,23 @@ export interface IFile {
   /** Storage path/key in object storage */
   path: string;
 
-  /** Public access URL for the file */
-  url: string;
+  /** User who uploaded the file (null for files uploaded before ownership was tracked) */
+  uploadedBy: string | null;
+
+  /** Project the file belongs to; access is derived from its membership */
+  projectId: string | null;
+
+  /** Task the file is attached to, if any */
+  taskId: string | null;
+
+  /** Version the file's content, name and type currently come from */
+  currentVersion: number;
+
+  /** SHA-256 of the current version's content (null for files uploaded before versioning) */
+  checksum: string | null;
+
+  /** Time-limited signed download URL, generated per request and never stored */
+  url?: string;
 
   /** Timestamp when file was created */
   createdAt: Date;
@@ -49,4 +64,212 @@ export interface IFileUpload {
 
   /** Binary content of the file */
   buffer: Buffer;
+
+  /** Uploading user */
+  uploadedBy: string;
+
+  /** Owning project */
+  projectId: string;
+
+  /** Task to attach the file to */
+  taskId?: string | null;
+}
+
+/**
+ * Short-lived download link for a file
+ * @interface ISignedFileUrl
+ */
+export interface ISignedFileUrl {
+  /** Signed download URL */
+  url: string;
+
+  /** When the signature stops being accepted */
+  expiresAt: Date;
+}
+
+/**
+ * One revision of a file. Versions are never modified; restoring an older
+ * version appends a new version pointing at the same content.
+ * @interface IFileVersion
+ */
+export interface IFileVersion {
+  /** Unique identifier for the version */
+  id: string;
+
+  /** File this version belongs to */
+  fileId: string;
+
+  /** Version number, starting at 1 */
+  version: number;
+
+  /** Storage path/key of this version's content */
+  path: string;
+
+  /** File name as uploaded for this version */
+  originalName: string;
+
+  /** MIME type of this version */
+  mimeType: string;
+
+  /** Size of this version in bytes */
+  size: number;
+
+  /** SHA-256 of the content */
+  checksum: string | null;
+
+  /** User who uploaded or restored this version */
+  uploadedBy: string | null;
+
+  /** Version this one restored, if it was created by a restore */
+  restoredFrom: number | null;
+
+  /** Timestamp when the version was created */
+  createdAt: Date;
+}
+
+/**
+ * Lifecycle of a resumable upload session
+ * @enum UploadSessionStatus
+ */
+export enum UploadSessionStatus {
+  /** Accepting chunks */
+  ACTIVE = 'ACTIVE',
+
+  /** Chunks are being assembled into the final file */
+  COMPLETING = 'COMPLETING',
+
+  /** Assembled and registered as a file */
+  COMPLETED = 'COMPLETED',
+
+  /** Cancelled by the uploader or expired */
+  ABORTED = 'ABORTED'
+}
+
+/**
+ * Resumable upload of a large file sent as fixed-size chunks.
+ * Clients resume after a disconnect by fetching the session and sending the
+ * chunks missing from receivedChunks.
+ * @interface IUploadSession
+ */
+export interface IUploadSession {
+  /** Unique identifier for the session */
+  id: string;
+
+  /** Uploading user; sessions are only visible to them */
+  uploadedBy: string;
+
+  /** Project the assembled file will belong to */
+  projectId: string;
+
+  /** Task the assembled file will be attached to, if any */
+  taskId: string | null;
+
+  /** Original file name as uploaded by user */
+  originalName: string;
+
+  /** MIME type of the file */
+  mimeType: string;
+
+  /** Total file size in bytes */
+  size: number;
+
+  /** Size of every chunk except the last, in bytes */
+  chunkSize: number;
+
+  /** Number of chunks making up the file */
+  totalChunks: number;
+
+  /** Zero-based indexes of the chunks received so far */
+  receivedChunks: number[];
+
+  /** Optional SHA-256 of the whole file, checked after assembly */
+  checksum: string | null;
+
+  /** Current session state */
+  status: UploadSessionStatus;
+
+  /** File created from the session once completed */
+  fileId: string | null;
+
+  /** When an idle session is discarded; extended by every chunk, and set to the assembly lease while completing */
+  expiresAt: Date;
+
+  /** Timestamp when the session was created */
+  createdAt: Date;
+
+  /** Timestamp when the session was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Kinds of image derived from a file for inline display
+ * @enum FilePreviewKind
+ */
+export enum FilePreviewKind {
+  /** Small image for task cards and lists */
+  THUMBNAIL = 'THUMBNAIL',
+
+  /** Larger image for detail views */
+  PREVIEW = 'PREVIEW'
+}
+
+/**
+ * Image derived from one version of a file: a scaled-down copy of an image
+ * or a rendering of a PDF's first page
+ * @interface IFilePreview
+ */
+export interface IFilePreview {
+  /** Unique identifier for the preview */
+  id: string;
+
+  /** File the preview was derived from */
+  fileId: string;
+
+  /** Version of the file the preview shows */
+  version: number;
+
+  /** Size class of the preview */
+  kind: FilePreviewKind;
+
+  /** Storage path/key of the preview image */
+  path: string;
+
+  /** MIME type of the preview image */
+  mimeType: string;
+
+  /** Width in pixels */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** Size of the preview image in bytes */
+  size: number;
+
+  /** Timestamp when the preview was generated */
+  createdAt: Date;
+}
+
+/**
+ * Short-lived link to a file's preview, for use in image tags
+ * @interface IFilePreviewLink
+ */
+export interface IFilePreviewLink {
+  /** File the preview belongs to */
+  fileId: string;
+
+  /** Size class of the preview */
+  kind: FilePreviewKind;
+
+  /** Signed URL of the preview image */
+  url: string;
+
+  /** Width in pixels */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** When the signature stops being accepted */
+  expiresAt: Date;
 }
\ No newline at end of file
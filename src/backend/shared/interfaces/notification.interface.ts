@@ -35,10 +35,45 @@ export enum NotificationPriority {
  */
 export enum NotificationDeliveryStatus {
   PENDING = 'PENDING',
+  DEFERRED = 'DEFERRED',           // Held back until the recipient's quiet hours end
+  SUPPRESSED = 'SUPPRESSED',       // Dropped by the recipient's muted types or priority threshold
+  RETRYING = 'RETRYING',           // Last attempt failed, another is scheduled
+  DEAD_LETTERED = 'DEAD_LETTERED', // Retries exhausted, waiting for an admin replay
   DELIVERED = 'DELIVERED',
   FAILED = 'FAILED'
 }
 
+/**
+ * Delivery channels that can be enabled per notification type
+ */
+export enum NotificationChannel {
+  EMAIL = 'email',
+  IN_APP = 'inApp',
+  PUSH = 'push'
+}
+
+/**
+ * Browser push subscription as produced by PushManager.subscribe()
+ */
+export interface IPushSubscription {
+  /** Push service URL unique to the browser and device */
+  endpoint: string;
+
+  /** Client keys used to encrypt the payload */
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+
+  /** Time in epoch milliseconds when the browser expires the subscription */
+  expirationTime?: number | null;
+}
+
+/**
+ * How often unread and undelivered notifications are summarised by email
+ */
+export type DigestFrequency = 'NONE' | 'DAILY' | 'WEEKLY';
+
 /**
  * Core notification interface with comprehensive tracking and delivery features
  */
@@ -84,6 +119,9 @@ export interface INotification {
 
   /** Current delivery status */
   deliveryStatus: NotificationDeliveryStatus;
+
+  /** Timestamp when the notification was included in an email digest */
+  digestedAt?: Date | null;
 }
 
 /**
@@ -115,8 +153,77 @@ export interface INotificationPreferences {
     timezone: string;   // IANA timezone identifier
   };
 
-  /** Delivery channel preferences per notification type */
+  /** Email digest schedule, 'NONE' when omitted */
+  digestFrequency?: DigestFrequency;
+
+  /** Delivery channel preferences per notification type, falling back to the *Enabled flags */
   deliveryChannels: {
-    [key in NotificationType]: string[];  // Array of enabled delivery channels
+    [key in NotificationType]?: string[];  // Array of enabled NotificationChannel values
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Record of an email digest sent to a recipient for one period
+ */
+export interface INotificationDigest {
+  /** Unique identifier for the digest */
+  id: string;
+
+  /** ID of the user receiving the digest */
+  recipientId: string;
+
+  /** Schedule the digest was sent for */
+  frequency: Exclude<DigestFrequency, 'NONE'>;
+
+  /** Start of the period covered by the digest */
+  periodStart: Date;
+
+  /** Notifications summarised in the digest */
+  notificationIds: string[];
+
+  /** Email message ID returned by the mail transport */
+  messageId: string | null;
+
+  /** Delivery status of the digest email */
+  status: NotificationDeliveryStatus;
+
+  /** Timestamp when the digest email was sent */
+  sentAt: Date | null;
+}
+
+/**
+ * Emails sent directly rather than as notifications, e.g. to people who may
+ * not have an account or preferences yet
+ */
+export enum TransactionalEmailType {
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  TEAM_INVITATION = 'TEAM_INVITATION'
+}
+
+/**
+ * Request for the notification service to send a transactional email
+ */
+export interface IEmailRequest {
+  kind: 'email';
+  type: TransactionalEmailType;
+
+  /** Recipient address */
+  to: string;
+
+  /** Values for the email template */
+  context: Record<string, any>;
+}
+
+/**
+ * Request for the notification service to notify a user, delivered through
+ * the channels their preferences allow
+ */
+export interface INotificationRequest {
+  kind: 'notification';
+  notification: Partial<INotification>;
+}
+
+/**
+ * Work other services queue for the notification service
+ */
+export type NotificationRequest = IEmailRequest | INotificationRequest;
\ No newline at end of file
@@ -6,6 +6,7 @@
  */
 
 import { IAuthUser } from '../interfaces/auth.interface';
+import { DigestFrequency } from '../interfaces/notification.interface';
 
 /**
  * Project lifecycle states with strict type safety
@@ -37,7 +38,7 @@ interface NotificationSettings {
   notifyOnTaskUpdates: boolean;
   notifyOnComments: boolean;
   notifyOnMemberChanges: boolean;
-  digestFrequency: 'NONE' | 'DAILY' | 'WEEKLY';
+  digestFrequency: DigestFrequency;
 }
 
 /**
@@ -66,6 +67,55 @@ interface CustomFieldDefinitions {
   }>;
 }
 
+/**
+ * Coarse lifecycle bucket a workflow status belongs to, used wherever the
+ * system needs to know whether a task is open or finished
+ */
+export enum WorkflowStatusCategory {
+  TODO = 'TODO',
+  IN_PROGRESS = 'IN_PROGRESS',
+  DONE = 'DONE'
+}
+
+/**
+ * Conditions that must hold before a workflow transition is allowed
+ */
+export enum WorkflowTransitionGuard {
+  ASSIGNEE_ONLY = 'ASSIGNEE_ONLY',
+  CREATOR_ONLY = 'CREATOR_ONLY',
+  MANAGER_ONLY = 'MANAGER_ONLY',
+  REQUIRES_ASSIGNEE = 'REQUIRES_ASSIGNEE'
+}
+
+/**
+ * Single status (board column) within a project workflow
+ */
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: WorkflowStatusCategory;
+  color?: string;
+  order: number;
+}
+
+/**
+ * Allowed move between two workflow statuses with optional guards
+ */
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  guards?: WorkflowTransitionGuard[];
+}
+
+/**
+ * Project-specific task workflow definition
+ */
+export interface ProjectWorkflow {
+  initialStatus: string;
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+}
+
 /**
  * Project configuration settings
  */
@@ -75,6 +125,7 @@ export interface ProjectSettings {
   notifications: NotificationSettings;
   permissions: PermissionSettings;
   customFields: CustomFieldDefinitions;
+  workflow: ProjectWorkflow;
 }
 
 /**
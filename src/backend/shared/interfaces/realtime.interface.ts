@@ -0,0 +1,74 @@
+/**
+ * Realtime Interfaces
+ * Version: 1.0.0
+ * Defines the rooms WebSocket clients can join, the events pushed to them and
+ * the messages exchanged with the realtime service.
+ */
+
+/**
+ * Kinds of room a socket can be in. Sockets join their own user room on
+ * connect; the others are joined on request, subject to membership.
+ */
+export enum RealtimeRoomType {
+  PROJECT = 'project',
+  TASK = 'task',
+  TEAM = 'team',
+  USER = 'user'
+}
+
+/**
+ * Event names emitted to clients
+ */
+export enum RealtimeEventType {
+  TASK_CREATED = 'task.create',
+  TASK_UPDATED = 'task.update',
+  COMMENT_CREATED = 'comment.create',
+  COMMENT_UPDATED = 'comment.update',
+  COMMENT_DELETED = 'comment.delete',
+  PROJECT_UPDATED = 'project.update',
+  TEAM_UPDATED = 'team.update',
+  NOTIFICATION = 'notification'
+}
+
+/**
+ * An event as published to Redis. The id is the Redis stream entry id, which
+ * increases within a room and is what clients resume from.
+ */
+export interface IRealtimeEvent<T = Record<string, any>> {
+  id: string;
+  room: string;
+  type: RealtimeEventType;
+  payload: T;
+  occurredAt: string;
+}
+
+/**
+ * Sent alongside every payload so clients can track the last event seen
+ */
+export interface IRealtimeEventMeta {
+  id: string;
+  room: string;
+}
+
+/**
+ * Body of a subscribe or unsubscribe message. Exactly one room id is given;
+ * lastEventId asks for the events missed since then.
+ */
+export interface IRealtimeSubscription {
+  projectId?: string;
+  taskId?: string;
+  teamId?: string;
+  lastEventId?: string;
+}
+
+/**
+ * Acknowledgement of a subscribe message. truncated is set when more events
+ * were missed than can be replayed, and the client should refetch instead.
+ */
+export interface IRealtimeSubscriptionAck {
+  ok: boolean;
+  room?: string;
+  replayed?: number;
+  truncated?: boolean;
+  error?: string;
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Search Interfaces
+ * Version: 1.0.0
+ * Defines the full-text search query and result shapes shared by the
+ * services and the API gateway.
+ */
+
+/**
+ * Kinds of records returned by full-text search
+ */
+export enum SearchResultType {
+  TASK = 'task',
+  PROJECT = 'project',
+  COMMENT = 'comment'
+}
+
+/**
+ * Full-text search request
+ */
+export interface ISearchQuery {
+  query: string;
+  types: SearchResultType[];
+  projectId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A ranked search hit. Snippets are HTML-escaped text in which matched terms
+ * are wrapped in <mark> tags.
+ */
+export interface ISearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+  projectId: string;
+  taskId: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Page of search results
+ */
+export interface ISearchResponse {
+  results: ISearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+}
\ No newline at end of file
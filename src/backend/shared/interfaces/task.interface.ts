@@ -19,7 +19,8 @@ export enum TaskPriority {
 }
 
 /**
- * Task lifecycle states with strict type safety
+ * Statuses of the default project workflow. Projects may define their own
+ * statuses, so task status values are not limited to this enum.
  */
 export enum TaskStatus {
   TODO = 'TODO',
@@ -41,7 +42,22 @@ export enum TaskActivityType {
   ATTACHMENT_ADDED = 'ATTACHMENT_ADDED',
   ATTACHMENT_REMOVED = 'ATTACHMENT_REMOVED',
   COMMENT_ADDED = 'COMMENT_ADDED',
-  DUE_DATE_CHANGED = 'DUE_DATE_CHANGED'
+  DUE_DATE_CHANGED = 'DUE_DATE_CHANGED',
+  DEPENDENCY_ADDED = 'DEPENDENCY_ADDED',
+  DEPENDENCY_REMOVED = 'DEPENDENCY_REMOVED',
+  CHECKLIST_ITEM_ADDED = 'CHECKLIST_ITEM_ADDED',
+  CHECKLIST_ITEM_COMPLETED = 'CHECKLIST_ITEM_COMPLETED',
+  CHECKLIST_ITEM_REMOVED = 'CHECKLIST_ITEM_REMOVED'
+}
+
+/**
+ * Relationship types between tasks, read as "source <type> target".
+ * Blocked-by is the inverse of BLOCKS and is not stored separately.
+ */
+export enum TaskDependencyType {
+  BLOCKS = 'BLOCKS',
+  RELATES_TO = 'RELATES_TO',
+  DUPLICATES = 'DUPLICATES'
 }
 
 /**
@@ -53,29 +69,109 @@ export interface ITask {
   title: string;
   description: string;
   projectId: string;
-  status: TaskStatus;
+  status: TaskStatus | string; // Key of a status in the project workflow
   priority: TaskPriority;
   assigneeIds: string[];
   creatorId: string;
   dueDate: Date;
   attachmentIds: string[];
   tags: string[];
+  parentTaskId?: string | null; // Parent task when this task is a subtask
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * Interface for task comments with audit capabilities
+ * Lightweight checklist entry on a task
+ */
+export interface ITaskChecklistItem {
+  id: string;
+  taskId: string;
+  content: string;
+  isCompleted: boolean;
+  position: number;
+  completedBy: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Completion counts rolled up from subtasks and checklist items
+ */
+export interface ITaskProgress {
+  completedSubtasks: number;
+  totalSubtasks: number;
+  completedChecklistItems: number;
+  totalChecklistItems: number;
+  percentage: number;
+}
+
+/**
+ * Task with its subtasks and rolled-up progress, as returned for task trees
+ */
+export interface ITaskTreeNode extends ITask {
+  subtasks: ITaskTreeNode[];
+  checklist: ITaskChecklistItem[];
+  progress: ITaskProgress;
+}
+
+/**
+ * Directed relationship between two tasks
+ */
+export interface ITaskDependency {
+  id: string;
+  sourceTaskId: string;
+  targetTaskId: string;
+  type: TaskDependencyType;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Dependency graph around a task for release planning
+ */
+export interface ITaskDependencyGraph {
+  rootTaskId: string;
+  nodes: Array<Pick<ITask, 'id' | 'title' | 'status' | 'projectId'> & { isDone: boolean }>;
+  edges: ITaskDependency[];
+}
+
+/**
+ * Interface for task comments with audit capabilities. Content is markdown;
+ * replies always point at a top-level comment, so threads are one level deep.
  */
 export interface ITaskComment {
   id: string;
   taskId: string;
   userId: string;
   content: string;
+  parentId: string | null;
+  mentionedUserIds: string[];
+  editedAt: Date | null;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Top-level comment with its replies, oldest first
+ */
+export interface ITaskCommentThread extends ITaskComment {
+  replies: ITaskComment[];
+}
+
+/**
+ * Previous text of a comment, recorded each time it is edited
+ */
+export interface ITaskCommentEdit {
+  id: string;
+  commentId: string;
+  content: string;
+  editedBy: string;
+  createdAt: Date;
+}
+
 /**
  * Enhanced interface for detailed task activity tracking
  * Provides comprehensive audit trail with change history
@@ -91,4 +187,14 @@ export interface ITaskActivity {
   }>;
   metadata: Record<string, any>;
   timestamp: Date;
+}
+
+/**
+ * Page of a task's activity history, newest first
+ */
+export interface ITaskActivityPage {
+  activities: ITaskActivity[];
+  total: number;
+  limit: number;
+  offset: number;
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Team Interfaces
+ * Version: 1.0.0
+ * Defines teams, their members and settings, and the audit log recorded for
+ * every change made to a team.
+ */
+
+/**
+ * Role of a member within a team, from most to least privileged
+ */
+export enum TeamRole {
+  OWNER = 'OWNER',
+  ADMIN = 'ADMIN',
+  MEMBER = 'MEMBER'
+}
+
+/**
+ * Lifecycle of a team. Deleted teams are kept so their projects and audit
+ * history remain intact.
+ */
+export enum TeamStatus {
+  ACTIVE = 'ACTIVE',
+  INACTIVE = 'INACTIVE',
+  DELETED = 'DELETED'
+}
+
+/**
+ * Changes recorded in the team audit log
+ */
+export enum TeamAuditAction {
+  TEAM_CREATED = 'team.created',
+  TEAM_UPDATED = 'team.updated',
+  TEAM_DELETED = 'team.deleted',
+  SETTINGS_UPDATED = 'team.settings_updated',
+  MEMBER_ADDED = 'member.added',
+  MEMBER_REMOVED = 'member.removed',
+  MEMBER_ROLE_CHANGED = 'member.role_changed',
+  INVITATION_CREATED = 'invitation.created',
+  INVITATION_RESENT = 'invitation.resent',
+  INVITATION_REVOKED = 'invitation.revoked',
+  INVITATION_ACCEPTED = 'invitation.accepted',
+  INVITATION_REJECTED = 'invitation.rejected'
+}
+
+/**
+ * Lifecycle of a team invitation. Expiry is not a status: a pending
+ * invitation past its expiry simply can no longer be redeemed.
+ */
+export enum TeamInvitationStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+  REVOKED = 'REVOKED'
+}
+
+// Bounds for the configurable team size
+export const TEAM_MIN_MEMBERS = 10;
+export const TEAM_MAX_MEMBERS = 10000;
+
+/**
+ * Permissions granted by each team role
+ */
+export const TEAM_ROLE_PERMISSIONS: Record<TeamRole, string[]> = {
+  [TeamRole.OWNER]: ['team:read', 'team:update', 'team:delete', 'members:manage', 'settings:manage', 'audit:read'],
+  [TeamRole.ADMIN]: ['team:read', 'team:update', 'members:manage', 'settings:manage', 'audit:read'],
+  [TeamRole.MEMBER]: ['team:read']
+};
+
+/**
+ * Team-wide notification preferences
+ */
+export interface ITeamNotificationSettings {
+  emailNotifications: boolean;
+  taskUpdates: boolean;
+  membershipChanges: boolean;
+  projectUpdates: boolean;
+  dailyDigest: boolean;
+}
+
+export const DEFAULT_TEAM_NOTIFICATION_SETTINGS: ITeamNotificationSettings = {
+  emailNotifications: true,
+  taskUpdates: true,
+  membershipChanges: true,
+  projectUpdates: true,
+  dailyDigest: false
+};
+
+/**
+ * A team with the members and projects that belong to it
+ */
+export interface ITeam {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerId: string;
+  memberIds: string[];
+  projectIds: string[];
+  status: TeamStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A user's membership of a team
+ */
+export interface ITeamMember {
+  teamId: string;
+  userId: string;
+  role: TeamRole;
+  joinedAt: Date;
+  permissions: string[];
+}
+
+/**
+ * Configuration that controls membership and visibility of a team
+ */
+export interface ITeamSettings {
+  teamId: string;
+  isPrivate: boolean;
+  allowInvites: boolean;
+  notificationSettings: ITeamNotificationSettings;
+  maxMembers: number;
+  defaultMemberRole: TeamRole;
+}
+
+/**
+ * An emailed invitation to join a team. The token that redeems it is only
+ * ever sent to the invitee and is never returned by the API.
+ */
+export interface ITeamInvitation {
+  id: string;
+  teamId: string;
+  inviterId: string | null;
+  inviteeEmail: string;
+  role: TeamRole;
+  status: TeamInvitationStatus;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * A change made to a team and who made it
+ */
+export interface ITeamAuditLog {
+  id: string;
+  teamId: string;
+  actorId: string | null;
+  action: TeamAuditAction;
+  details: Record<string, any>;
+  timestamp: Date;
+}
+
+/**
+ * Payload of the realtime event sent to a team's room when the team changes.
+ * memberId names the member a membership change is about, and invitationId
+ * the invitation an invitation change is about.
+ */
+export interface ITeamRealtimeUpdate {
+  teamId: string;
+  action: TeamAuditAction;
+  memberId?: string;
+  invitationId?: string;
+  timestamp: string;
+}
\ No newline at end of file
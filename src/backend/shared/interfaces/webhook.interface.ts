@@ -0,0 +1,80 @@
+/**
+ * Webhook Interfaces
+ * Version: 1.0.0
+ * Defines outbound webhook subscriptions, the events they can receive and the
+ * delivery log kept for every attempt to call a subscriber.
+ */
+
+/**
+ * Events a project webhook can subscribe to
+ */
+export enum WebhookEventType {
+  TASK_CREATED = 'task.created',
+  TASK_UPDATED = 'task.updated',
+  TASK_STATUS_CHANGED = 'task.status_changed',
+  TASK_DEPENDENCY_ADDED = 'task.dependency_added',
+  TASK_DEPENDENCY_REMOVED = 'task.dependency_removed',
+  PROJECT_UPDATED = 'project.updated',
+  PROJECT_STATUS_CHANGED = 'project.status_changed',
+  PROJECT_SETTINGS_UPDATED = 'project.settings_updated',
+  WEBHOOK_TEST = 'webhook.test'
+}
+
+/**
+ * Lifecycle of a single webhook delivery
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  RETRYING = 'RETRYING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * A project's subscription to outbound events. The signing secret is only
+ * returned when the subscription is created.
+ */
+export interface IWebhookSubscription {
+  id: string;
+  projectId: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  secret?: string;
+}
+
+/**
+ * Body posted to subscribers
+ */
+export interface IWebhookEvent<T = Record<string, any>> {
+  id: string;
+  type: WebhookEventType;
+  projectId: string;
+  actorId: string | null;
+  occurredAt: string;
+  data: T;
+}
+
+/**
+ * Delivery log entry for one event sent to one subscription
+ */
+export interface IWebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: IWebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
\ No newline at end of file
@@ -79,12 +79,31 @@ const logger = Logger.getInstance('ErrorHandler', {
 const statusCodeMap = new Map<ErrorCodes, HttpStatusCodes>([
   [ErrorCodes.INVALID_CREDENTIALS, HttpStatusCodes.UNAUTHORIZED],
   [ErrorCodes.TOKEN_EXPIRED, HttpStatusCodes.UNAUTHORIZED],
+  [ErrorCodes.TEAM_INVITATION_SIGN_IN_REQUIRED, HttpStatusCodes.UNAUTHORIZED],
   [ErrorCodes.INSUFFICIENT_PERMISSIONS, HttpStatusCodes.FORBIDDEN],
   [ErrorCodes.RESOURCE_ACCESS_DENIED, HttpStatusCodes.FORBIDDEN],
+  [ErrorCodes.TRANSITION_NOT_PERMITTED, HttpStatusCodes.FORBIDDEN],
+  [ErrorCodes.TEAM_INVITATION_EMAIL_MISMATCH, HttpStatusCodes.FORBIDDEN],
   [ErrorCodes.INVALID_INPUT_FORMAT, HttpStatusCodes.BAD_REQUEST],
   [ErrorCodes.REQUIRED_FIELD_MISSING, HttpStatusCodes.BAD_REQUEST],
+  [ErrorCodes.INVALID_WORKFLOW_DEFINITION, HttpStatusCodes.BAD_REQUEST],
+  [ErrorCodes.INVALID_TASK_HIERARCHY, HttpStatusCodes.BAD_REQUEST],
+  [ErrorCodes.INVALID_WEBHOOK_URL, HttpStatusCodes.BAD_REQUEST],
   [ErrorCodes.TASK_ALREADY_COMPLETED, HttpStatusCodes.CONFLICT],
   [ErrorCodes.PROJECT_ALREADY_ARCHIVED, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.INVALID_STATUS_TRANSITION, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TASK_DEPENDENCY_CYCLE, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TASK_BLOCKED, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TEAM_NOT_FOUND, HttpStatusCodes.NOT_FOUND],
+  [ErrorCodes.TEAM_MEMBER_NOT_FOUND, HttpStatusCodes.NOT_FOUND],
+  [ErrorCodes.TEAM_MEMBER_EXISTS, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TEAM_MEMBER_LIMIT_REACHED, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TEAM_OWNER_REQUIRED, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TEAM_INVITATION_NOT_FOUND, HttpStatusCodes.NOT_FOUND],
+  [ErrorCodes.TEAM_INVITATION_INVALID, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TASK_COMMENT_NOT_FOUND, HttpStatusCodes.NOT_FOUND],
+  [ErrorCodes.REALTIME_ROOM_LIMIT_REACHED, HttpStatusCodes.CONFLICT],
+  [ErrorCodes.TASK_NOT_FOUND, HttpStatusCodes.NOT_FOUND],
   [ErrorCodes.DATABASE_CONNECTION_ERROR, HttpStatusCodes.SERVICE_UNAVAILABLE],
   [ErrorCodes.CACHE_SERVICE_ERROR, HttpStatusCodes.SERVICE_UNAVAILABLE],
   [ErrorCodes.EXTERNAL_SERVICE_TIMEOUT, HttpStatusCodes.SERVICE_UNAVAILABLE]
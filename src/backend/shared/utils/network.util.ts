@@ -0,0 +1,55 @@
+/**
+ * Network Utility Functions
+ * Version: 1.0.0
+ * Checks the hosts of user-supplied URLs the services send requests to, so a
+ * public name cannot be used to reach loopback, link-local or internal services
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// Address ranges outbound requests must never reach
+const PRIVATE_IPV4_RANGES: Array<[number, number]> = [
+  [0x00000000, 8],   // 0.0.0.0/8
+  [0x0a000000, 8],   // 10.0.0.0/8
+  [0x64400000, 10],  // 100.64.0.0/10
+  [0x7f000000, 8],   // 127.0.0.0/8
+  [0xa9fe0000, 16],  // 169.254.0.0/16
+  [0xac100000, 12],  // 172.16.0.0/12
+  [0xc0a80000, 16]   // 192.168.0.0/16
+];
+
+/**
+ * Whether an address is loopback, link-local or otherwise not publicly routable
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  if (isIP(address) === 6) {
+    const normalized = address.toLowerCase();
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped?.[1]) {
+      return isPrivateAddress(mapped[1]);
+    }
+    return normalized === '::' || normalized === '::1' ||
+      /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+  }
+
+  const value = address.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+  return PRIVATE_IPV4_RANGES.some(([network, bits]) =>
+    (value >>> (32 - bits)) === (network >>> (32 - bits))
+  );
+};
+
+/**
+ * Whether a URL host only resolves to public addresses. Hosts that do not
+ * resolve count as not public.
+ * @param url - Parsed URL whose hostname is checked
+ * @returns True when every resolved address is publicly routable
+ */
+export const hasPublicHost = async (url: URL): Promise<boolean> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true }).catch(() => [])).map(({ address }) => address);
+
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+};
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Notification Utility Functions
+ * Version: 1.0.0
+ * Queues emails and notifications for the notification service through Redis,
+ * so other services never load its delivery code or credentials
+ */
+
+import Redis from 'ioredis'; // v5.3.x
+import { NotificationRequest } from '../interfaces/notification.interface';
+
+// Requests are pushed on the left and taken from the right, oldest first
+export const NOTIFICATION_REQUEST_QUEUE = 'notifications:requests';
+
+/**
+ * Queued request with the number of failed attempts to handle it
+ */
+export type QueuedNotificationRequest = NotificationRequest & { attempts?: number };
+
+/**
+ * Queues a request for the notification service
+ */
+export const enqueueNotificationRequest = async (
+  redis: Redis,
+  request: QueuedNotificationRequest
+): Promise<void> => {
+  await redis.lpush(NOTIFICATION_REQUEST_QUEUE, JSON.stringify(request));
+};
\ No newline at end of file
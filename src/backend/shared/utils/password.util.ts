@@ -0,0 +1,66 @@
+/**
+ * Password Utility Functions
+ * Version: 1.0.0
+ * Password policy and hashing shared by every service that sets passwords,
+ * so accounts created outside the auth service can still sign in there
+ */
+
+import { hash } from 'argon2'; // v0.31.x
+
+/**
+ * Complexity rules a new password must meet
+ */
+export const PASSWORD_POLICY = {
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true
+};
+
+// Argon2id parameters the auth service verifies passwords against
+const PASSWORD_HASH_OPTIONS = {
+  type: 2, // Argon2id
+  memoryCost: 65536, // 64MB
+  timeCost: 3,
+  parallelism: 4
+} as const;
+
+/**
+ * Validates a password against the password policy
+ * @param password - Password to validate
+ * @returns Validation result with success status and error messages
+ */
+export const validatePasswordPolicy = (password: string): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  // Check minimum length
+  if (password.length < PASSWORD_POLICY.minLength) {
+    errors.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters long`);
+  }
+
+  // Check complexity requirements
+  if (PASSWORD_POLICY.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter');
+  }
+  if (PASSWORD_POLICY.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter');
+  }
+  if (PASSWORD_POLICY.requireNumbers && !/\d/.test(password)) {
+    errors.push('Password must contain at least one number');
+  }
+  if (PASSWORD_POLICY.requireSpecialChars && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
+    errors.push('Password must contain at least one special character');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Hashes a password with Argon2id for storage
+ * @param password - Plain text password
+ */
+export const hashPassword = (password: string): Promise<string> => hash(password, PASSWORD_HASH_OPTIONS);
\ No newline at end of file
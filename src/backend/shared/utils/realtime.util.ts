@@ -0,0 +1,96 @@
+/**
+ * Realtime Utility Functions
+ * Version: 1.0.0
+ * Publishes events for WebSocket clients through Redis. Each event is appended
+ * to a capped stream for its room before it is broadcast, so the realtime
+ * service can replay what a reconnecting client missed.
+ */
+
+import Redis from 'ioredis'; // v5.3.x
+import {
+  IRealtimeEvent,
+  RealtimeEventType,
+  RealtimeRoomType
+} from '../interfaces/realtime.interface';
+
+// Pub/sub channels are "realtime:<room>"; the realtime service subscribes to the pattern
+export const REALTIME_CHANNEL_PREFIX = 'realtime:';
+export const REALTIME_CHANNEL_PATTERN = `${REALTIME_CHANNEL_PREFIX}*`;
+
+const STREAM_PREFIX = 'realtime:stream:';
+const STREAM_MAX_LENGTH = 1000; // Events kept per room
+const STREAM_TTL = 24 * 60 * 60; // 1 day after the last event
+const STREAM_FIELD = 'event';
+
+/**
+ * Builds a room name, e.g. "project:<id>"
+ */
+export const realtimeRoom = (type: RealtimeRoomType, id: string): string => `${type}:${id}`;
+
+/**
+ * Reads the room back from a pub/sub channel name
+ */
+export const roomFromChannel = (channel: string): string | null =>
+  channel.startsWith(REALTIME_CHANNEL_PREFIX) ? channel.slice(REALTIME_CHANNEL_PREFIX.length) : null;
+
+/**
+ * Orders two stream entry ids ("<ms>-<seq>")
+ * @returns Negative, zero or positive like a sort comparator
+ */
+export const compareRealtimeEventIds = (a: string, b: string): number => {
+  const [aTime = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bTime = 0, bSeq = 0] = b.split('-').map(Number);
+  return aTime !== bTime ? aTime - bTime : (aSeq || 0) - (bSeq || 0);
+};
+
+/**
+ * Whether a string is a stream entry id a client may resume from
+ */
+export const isRealtimeEventId = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{1,15}-\d{1,10}$/.test(value);
+
+/**
+ * Records an event for a room and broadcasts it to connected clients
+ * @returns The published event, including its stream id
+ */
+export const publishRealtimeEvent = async <T extends Record<string, any>>(
+  redis: Redis,
+  room: string,
+  type: RealtimeEventType,
+  payload: T
+): Promise<IRealtimeEvent<T>> => {
+  const stream = `${STREAM_PREFIX}${room}`;
+  const occurredAt = new Date().toISOString();
+
+  const id = await redis.xadd(
+    stream,
+    'MAXLEN', '~', STREAM_MAX_LENGTH,
+    '*',
+    STREAM_FIELD, JSON.stringify({ type, payload, occurredAt })
+  );
+  const event: IRealtimeEvent<T> = { id: id as string, room, type, payload, occurredAt };
+
+  await redis.pipeline()
+    .expire(stream, STREAM_TTL)
+    .publish(`${REALTIME_CHANNEL_PREFIX}${room}`, JSON.stringify(event))
+    .exec();
+
+  return event;
+};
+
+/**
+ * Reads the events of a room published after the given id, oldest first
+ */
+export const readRealtimeEvents = async (
+  redis: Redis,
+  room: string,
+  afterId: string,
+  count: number
+): Promise<IRealtimeEvent[]> => {
+  const entries = await redis.xrange(`${STREAM_PREFIX}${room}`, `(${afterId}`, '+', 'COUNT', count);
+
+  return entries.map(([id, fields]) => {
+    const { type, payload, occurredAt } = JSON.parse(fields[fields.indexOf(STREAM_FIELD) + 1]);
+    return { id, room, type, payload, occurredAt };
+  });
+};
\ No newline at end of file
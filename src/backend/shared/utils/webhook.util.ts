@@ -0,0 +1,100 @@
+/**
+ * Webhook Utility Functions
+ * Version: 1.0.0
+ * Signs outbound webhook payloads and records events for delivery, so any
+ * service can publish events that the project service then dispatches
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Knex } from 'knex'; // v2.4.x
+import {
+  IWebhookEvent,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../interfaces/webhook.interface';
+
+// Headers sent with every delivery
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * Signs a payload as HMAC-SHA256 over "<timestamp>.<body>". Including the
+ * timestamp lets receivers reject replayed deliveries.
+ * @param secret - Subscription signing secret
+ * @param timestamp - Unix time in seconds sent alongside the signature
+ * @param body - Exact request body
+ * @returns Signature header value
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `${SIGNATURE_PREFIX}${digest}`;
+};
+
+/**
+ * Verifies a signature produced by signWebhookPayload in constant time
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean => {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature || '');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Builds an event envelope
+ */
+export const createWebhookEvent = <T extends Record<string, any>>(
+  type: WebhookEventType,
+  projectId: string,
+  data: T,
+  actorId: string | null = null
+): IWebhookEvent<T> => ({
+  id: randomUUID(),
+  type,
+  projectId,
+  actorId,
+  occurredAt: new Date().toISOString(),
+  data
+});
+
+/**
+ * Queues an event for every active subscription of its project that listens
+ * for it. Pass the caller's transaction to publish only if it commits.
+ * @returns Number of deliveries queued
+ */
+export const enqueueWebhookEvent = async (
+  db: Knex | Knex.Transaction,
+  event: IWebhookEvent
+): Promise<number> => {
+  const subscriptions: Array<{ id: string }> = await db('webhook_subscriptions')
+    .where({ project_id: event.projectId, is_active: true })
+    .whereRaw('? = ANY(events)', [event.type])
+    .select('id');
+
+  if (subscriptions.length === 0) {
+    return 0;
+  }
+
+  await db('webhook_deliveries').insert(subscriptions.map(({ id }) => ({
+    subscription_id: id,
+    event_id: event.id,
+    event_type: event.type,
+    payload: JSON.stringify(event),
+    status: WebhookDeliveryStatus.PENDING,
+    next_attempt_at: new Date(event.occurredAt)
+  })));
+
+  return subscriptions.length;
+};
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Task Workflow Utility Functions
+ * Version: 1.0.0
+ * Provides the default project workflow along with definition validation and
+ * transition evaluation shared by the project and task services
+ */
+
+import { UserRole } from '../interfaces/auth.interface';
+import { ITask, TaskStatus } from '../interfaces/task.interface';
+import {
+  ProjectWorkflow,
+  WorkflowStatusCategory,
+  WorkflowTransitionGuard
+} from '../interfaces/project.interface';
+import { ErrorCodes } from '../constants/error-codes';
+
+// Workflow Constants
+const STATUS_KEY_REGEX = /^[A-Z][A-Z0-9_]{0,49}$/;
+const MAX_WORKFLOW_STATUSES = 20;
+const MANAGER_ROLES: string[] = [UserRole.ADMIN, UserRole.PROJECT_MANAGER];
+
+// Interfaces
+interface WorkflowValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+interface TransitionContext {
+  task: Pick<ITask, 'status' | 'assigneeIds' | 'creatorId'>;
+  toStatus: string;
+  actorId: string;
+  actorRole?: UserRole | string;
+}
+
+interface TransitionResult {
+  allowed: boolean;
+  code?: ErrorCodes;
+  reason?: string;
+}
+
+/**
+ * Workflow applied to projects that have not configured their own,
+ * equivalent to the original TODO → IN_PROGRESS → REVIEW → DONE graph
+ */
+export const DEFAULT_TASK_WORKFLOW: ProjectWorkflow = {
+  initialStatus: TaskStatus.TODO,
+  statuses: [
+    { key: TaskStatus.TODO, name: 'To Do', category: WorkflowStatusCategory.TODO, order: 0 },
+    { key: TaskStatus.IN_PROGRESS, name: 'In Progress', category: WorkflowStatusCategory.IN_PROGRESS, order: 1 },
+    { key: TaskStatus.REVIEW, name: 'Review', category: WorkflowStatusCategory.IN_PROGRESS, order: 2 },
+    { key: TaskStatus.DONE, name: 'Done', category: WorkflowStatusCategory.DONE, order: 3 }
+  ],
+  transitions: [
+    { from: TaskStatus.TODO, to: TaskStatus.IN_PROGRESS },
+    { from: TaskStatus.IN_PROGRESS, to: TaskStatus.REVIEW },
+    { from: TaskStatus.IN_PROGRESS, to: TaskStatus.TODO },
+    { from: TaskStatus.REVIEW, to: TaskStatus.DONE },
+    { from: TaskStatus.REVIEW, to: TaskStatus.IN_PROGRESS },
+    { from: TaskStatus.DONE, to: TaskStatus.REVIEW }
+  ]
+};
+
+/**
+ * Validates the structure of a workflow definition
+ * @param workflow - Workflow to validate
+ * @returns WorkflowValidationResult listing every problem found
+ */
+export const validateWorkflowDefinition = (workflow: ProjectWorkflow): WorkflowValidationResult => {
+  const errors: string[] = [];
+
+  if (!workflow || !Array.isArray(workflow.statuses) || !Array.isArray(workflow.transitions)) {
+    return { isValid: false, errors: ['Workflow must define statuses and transitions'] };
+  }
+
+  if (workflow.statuses.length === 0 || workflow.statuses.length > MAX_WORKFLOW_STATUSES) {
+    errors.push(`Workflow must define between 1 and ${MAX_WORKFLOW_STATUSES} statuses`);
+  }
+
+  const keys = new Set<string>();
+  workflow.statuses.forEach((status) => {
+    if (!STATUS_KEY_REGEX.test(status.key)) {
+      errors.push(`Status key "${status.key}" must be upper case letters, digits or underscores`);
+    }
+    if (keys.has(status.key)) {
+      errors.push(`Status key "${status.key}" is defined more than once`);
+    }
+    if (!Object.values(WorkflowStatusCategory).includes(status.category)) {
+      errors.push(`Status "${status.key}" has an invalid category`);
+    }
+    keys.add(status.key);
+  });
+
+  if (!keys.has(workflow.initialStatus)) {
+    errors.push(`Initial status "${workflow.initialStatus}" is not part of the workflow`);
+  }
+
+  if (!workflow.statuses.some((status) => status.category === WorkflowStatusCategory.DONE)) {
+    errors.push('Workflow must contain at least one status in the DONE category');
+  }
+
+  const seenTransitions = new Set<string>();
+  workflow.transitions.forEach(({ from, to, guards = [] }) => {
+    if (!keys.has(from) || !keys.has(to)) {
+      errors.push(`Transition ${from} → ${to} references an unknown status`);
+    }
+    if (from === to) {
+      errors.push(`Transition ${from} → ${to} must change the status`);
+    }
+    if (seenTransitions.has(`${from}:${to}`)) {
+      errors.push(`Transition ${from} → ${to} is defined more than once`);
+    }
+    guards.forEach((guard) => {
+      if (!Object.values(WorkflowTransitionGuard).includes(guard)) {
+        errors.push(`Transition ${from} → ${to} uses unknown guard "${guard}"`);
+      }
+    });
+    seenTransitions.add(`${from}:${to}`);
+  });
+
+  return { isValid: errors.length === 0, errors };
+};
+
+/**
+ * Evaluates whether a task may move to a new status under the given workflow
+ * @param workflow - Project workflow
+ * @param context - Task, target status and acting user
+ * @returns TransitionResult with the error code to surface when rejected
+ */
+export const evaluateTransition = (
+  workflow: ProjectWorkflow,
+  context: TransitionContext
+): TransitionResult => {
+  const { task, toStatus, actorId, actorRole } = context;
+
+  if (task.status === toStatus) {
+    return { allowed: true };
+  }
+
+  if (!workflow.statuses.some((status) => status.key === toStatus)) {
+    return {
+      allowed: false,
+      code: ErrorCodes.INVALID_STATUS_TRANSITION,
+      reason: `Status "${toStatus}" is not part of the project workflow`
+    };
+  }
+
+  const transition = workflow.transitions.find(
+    ({ from, to }) => from === task.status && to === toStatus
+  );
+  if (!transition) {
+    return {
+      allowed: false,
+      code: ErrorCodes.INVALID_STATUS_TRANSITION,
+      reason: `Cannot move from ${task.status} to ${toStatus}`
+    };
+  }
+
+  for (const guard of transition.guards || []) {
+    const failure = checkGuard(guard, task, actorId, actorRole);
+    if (failure) {
+      return { allowed: false, code: ErrorCodes.TRANSITION_NOT_PERMITTED, reason: failure };
+    }
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Resolves the category of a status key, or undefined for unknown keys
+ */
+export const getStatusCategory = (
+  workflow: ProjectWorkflow,
+  statusKey: string
+): WorkflowStatusCategory | undefined =>
+  workflow.statuses.find((status) => status.key === statusKey)?.category;
+
+/**
+ * Checks whether a status key counts as finished work
+ */
+export const isDoneStatus = (workflow: ProjectWorkflow, statusKey: string): boolean =>
+  getStatusCategory(workflow, statusKey) === WorkflowStatusCategory.DONE;
+
+/**
+ * Evaluates a single guard, returning a failure reason when it does not hold
+ */
+const checkGuard = (
+  guard: WorkflowTransitionGuard,
+  task: TransitionContext['task'],
+  actorId: string,
+  actorRole?: UserRole | string
+): string | null => {
+  switch (guard) {
+    case WorkflowTransitionGuard.ASSIGNEE_ONLY:
+      return (task.assigneeIds || []).includes(actorId)
+        ? null
+        : 'Only assignees can perform this transition';
+    case WorkflowTransitionGuard.CREATOR_ONLY:
+      return task.creatorId === actorId
+        ? null
+        : 'Only the task creator can perform this transition';
+    case WorkflowTransitionGuard.MANAGER_ONLY:
+      return actorRole && MANAGER_ROLES.includes(actorRole)
+        ? null
+        : 'Only project managers can perform this transition';
+    case WorkflowTransitionGuard.REQUIRES_ASSIGNEE:
+      return (task.assigneeIds || []).length > 0
+        ? null
+        : 'Task must be assigned before this transition';
+    default:
+      return `Unknown guard ${guard}`;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * Push Notification Service Worker
+ * Displays Web Push messages from the notification service and focuses or
+ * opens the app when a notification is clicked
+ * @version 1.0.0
+ */
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: 'Task Management', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.notificationId,
+      data: { link: payload.link || '/dashboard/notifications' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  // Only navigate within the app
+  const link = new URL(event.notification.data.link, self.location.origin);
+  const target = link.origin === self.location.origin
+    ? link.href
+    : new URL('/dashboard/notifications', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === target);
+      return existing ? existing.focus() : self.clients.openWindow(target);
+    })
+  );
+});
\ No newline at end of file
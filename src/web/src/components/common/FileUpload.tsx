@@ -12,6 +12,8 @@ import { ErrorBoundary } from 'react-error-boundary';
 import Button from './Button';
 import Loading from './Loading';
 import StorageService from '../../services/storage.service';
+import { fileService } from '../../services/file.service';
+import { IFile, IUploadProgress } from '../../interfaces/file.interface';
 import { COLORS, SPACING, TRANSITIONS, TYPOGRAPHY } from '../../constants/theme.constants';
 
 // File upload container with drag-and-drop support
@@ -66,7 +68,10 @@ interface FileUploadProps {
   maxFiles?: number;
   chunkSize?: number;
   compression?: boolean;
-  onUpload: (files: File[]) => Promise<void>;
+  projectId?: string;             // Uploads straight to this project in resumable chunks
+  taskId?: string;
+  onUpload?: (files: File[]) => Promise<void>;
+  onComplete?: (files: IFile[]) => void;
   onProgress?: (progress: number) => void;
   onError?: (error: Error) => void;
   onCancel?: () => void;
@@ -80,7 +85,10 @@ const FileUpload: React.FC<FileUploadProps> = ({
   maxFiles = 10,
   chunkSize = 1024 * 1024, // 1MB chunks
   compression = false,
+  projectId,
+  taskId,
   onUpload,
+  onComplete,
   onProgress,
   onError,
   onCancel,
@@ -90,7 +98,12 @@ const FileUpload: React.FC<FileUploadProps> = ({
   const [files, setFiles] = useState<File[]>([]);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [chunkProgress, setChunkProgress] = useState<Record<number, IUploadProgress>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Files finished before a pause are not sent again on resume
+  const completedRef = useRef<IFile[]>([]);
   const storageService = new StorageService();
 
   const validateFiles = useCallback(async (newFiles: File[]): Promise<File[]> => {
@@ -166,15 +179,43 @@ const FileUpload: React.FC<FileUploadProps> = ({
     setFiles(prev => [...prev, ...validFiles]);
   }, [validateFiles]);
 
+  const uploadChunked = useCallback(async (signal: AbortSignal): Promise<void> => {
+    for (const [index, file] of files.entries()) {
+      if (index < completedRef.current.length) continue;
+
+      completedRef.current.push(await fileService.uploadChunked(file, {
+        projectId: projectId!,
+        taskId,
+        signal,
+        onProgress: progress => {
+          setChunkProgress(prev => ({ ...prev, [index]: progress }));
+          setUploadProgress(Math.round(((index + progress.uploadedChunks / progress.totalChunks) / files.length) * 100));
+          onProgress?.(progress.uploadedChunks / progress.totalChunks);
+        }
+      }));
+    }
+
+    onComplete?.(completedRef.current);
+    completedRef.current = [];
+  }, [files, projectId, taskId, onProgress, onComplete]);
+
   const handleUpload = useCallback(async () => {
     if (!files.length || isUploading) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsUploading(true);
-    setUploadProgress(0);
+    setIsPaused(false);
 
     try {
-      await onUpload(files);
+      if (projectId) {
+        await uploadChunked(controller.signal);
+      } else {
+        setUploadProgress(0);
+        await onUpload?.(files);
+      }
       setFiles([]);
+      setChunkProgress({});
       setUploadProgress(100);
       // Announce completion to screen readers
       const announcement = document.createElement('div');
@@ -184,20 +225,36 @@ const FileUpload: React.FC<FileUploadProps> = ({
       document.body.appendChild(announcement);
       setTimeout(() => document.body.removeChild(announcement), 1000);
     } catch (error) {
-      onError?.(error as Error);
+      if (controller.signal.aborted) {
+        setIsPaused(true);
+      } else {
+        onError?.(error as Error);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsUploading(false);
     }
-  }, [files, isUploading, onUpload, onError]);
+  }, [files, isUploading, projectId, uploadChunked, onUpload, onError]);
+
+  const handlePause = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleCancel = useCallback(() => {
-    if (isUploading) {
+    abortControllerRef.current?.abort();
+    if (isUploading || isPaused) {
       onCancel?.();
     }
+    if (projectId) {
+      files.forEach(file => fileService.cancelUpload(file).catch(error => onError?.(error as Error)));
+    }
     setFiles([]);
+    setChunkProgress({});
+    completedRef.current = [];
     setUploadProgress(0);
     setIsUploading(false);
-  }, [isUploading, onCancel]);
+    setIsPaused(false);
+  }, [files, isUploading, isPaused, projectId, onCancel, onError]);
 
   return (
     <ErrorBoundary
@@ -241,13 +298,19 @@ const FileUpload: React.FC<FileUploadProps> = ({
             {files.map((file, index) => (
               <FileItem key={`${file.name}-${index}`} role="listitem">
                 <span>{file.name}</span>
-                <span>{`${(file.size / 1024).toFixed(1)} KB`}</span>
+                {chunkProgress[index] ? (
+                  <span aria-live="polite">
+                    {`Chunk ${chunkProgress[index].uploadedChunks} of ${chunkProgress[index].totalChunks}`}
+                  </span>
+                ) : (
+                  <span>{`${(file.size / 1024).toFixed(1)} KB`}</span>
+                )}
               </FileItem>
             ))}
           </FileList>
         )}
 
-        {isUploading && (
+        {(isUploading || isPaused) && (
           <div role="progressbar" aria-valuenow={uploadProgress} aria-valuemin={0} aria-valuemax={100}>
             <LinearProgress
               variant="determinate"
@@ -265,8 +328,17 @@ const FileUpload: React.FC<FileUploadProps> = ({
             loading={isUploading}
             ariaLabel="Upload files"
           >
-            {isUploading ? <Loading size="small" /> : 'Upload'}
+            {isUploading ? <Loading size="small" /> : isPaused ? 'Resume' : 'Upload'}
           </Button>
+          {projectId && isUploading && (
+            <Button
+              variant="OUTLINED"
+              onClick={handlePause}
+              ariaLabel="Pause upload"
+            >
+              Pause
+            </Button>
+          )}
           <Button
             variant="OUTLINED"
             onClick={handleCancel}
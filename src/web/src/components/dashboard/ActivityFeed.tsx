@@ -5,14 +5,15 @@ import Card from '../common/Card';
 import { useWebSocket } from '../../hooks/useWebSocket';
 import { useTheme } from '../../hooks/useTheme';
 import { TRANSITIONS } from '../../constants/theme.constants';
+import { TaskService } from '../../services/task.service';
+import { ITaskActivity, TaskActivityType } from '../../interfaces/task.interface';
 
 /**
  * Props interface for ActivityFeed component
  */
 interface ActivityFeedProps extends BaseComponentProps {
+  taskId?: string; // Show the history of a single task instead of the global feed
   maxItems?: number;
-  refreshInterval?: number;
-  retryAttempts?: number;
   cacheTimeout?: number;
 }
 
@@ -35,6 +36,48 @@ interface ActivityItem {
   status: 'pending' | 'success' | 'error';
 }
 
+const TASK_ACTIVITY_LABELS: Partial<Record<TaskActivityType, string>> = {
+  [TaskActivityType.CREATED]: 'Task created',
+  [TaskActivityType.UPDATED]: 'Task updated',
+  [TaskActivityType.STATUS_CHANGED]: 'Status changed',
+  [TaskActivityType.PRIORITY_CHANGED]: 'Priority changed',
+  [TaskActivityType.ASSIGNEE_ADDED]: 'Assignee added',
+  [TaskActivityType.ASSIGNEE_REMOVED]: 'Assignee removed',
+  [TaskActivityType.COMMENT_ADDED]: 'Comment added',
+  [TaskActivityType.ATTACHMENT_ADDED]: 'Attachment added',
+  [TaskActivityType.ATTACHMENT_REMOVED]: 'Attachment removed',
+  [TaskActivityType.DUE_DATE_CHANGED]: 'Due date changed'
+};
+
+const MAX_CHANGE_VALUE_LENGTH = 60;
+
+const formatChangeValue = (value: any): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return 'none';
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return text.length > MAX_CHANGE_VALUE_LENGTH ? `${text.slice(0, MAX_CHANGE_VALUE_LENGTH)}…` : text;
+};
+
+/**
+ * Maps a stored task activity onto a feed item
+ */
+const toActivityItem = (activity: ITaskActivity): ActivityItem => ({
+  id: activity.id,
+  type: 'task',
+  action: activity.type,
+  timestamp: new Date(activity.timestamp),
+  userId: activity.userId,
+  details: {
+    title: TASK_ACTIVITY_LABELS[activity.type] || 'Task updated',
+    description: Object.entries(activity.changes)
+      .map(([field, { oldValue, newValue }]) => `${field}: ${formatChangeValue(oldValue)} → ${formatChangeValue(newValue)}`)
+      .join('; '),
+    entityId: activity.taskId,
+    entityType: 'task',
+    changes: activity.changes
+  },
+  status: 'success'
+});
+
 /**
  * Real-time activity feed component that displays recent updates and notifications
  * Implements WebSocket-based updates with optimistic rendering and error recovery
@@ -42,9 +85,8 @@ interface ActivityItem {
 const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
   className,
   style,
+  taskId,
   maxItems = 50,
-  refreshInterval = 30000,
-  retryAttempts = 3,
   cacheTimeout = 300000, // 5 minutes
   testId = 'activity-feed'
 }) => {
@@ -52,26 +94,24 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const taskService = useMemo(() => new TaskService(), []);
 
   // Initialize WebSocket connection
   const {
     isConnected,
     subscribe,
     resetConnection
-  } = useWebSocket('/ws/activities', {
-    autoReconnect: true,
-    maxRetries: retryAttempts,
-    heartbeatInterval: refreshInterval
-  });
+  } = useWebSocket(taskId ? { taskId } : undefined);
 
   /**
    * Processes and merges new activities with existing ones
    */
-  const processActivities = useCallback((newActivities: ActivityItem[]) => {
+  const processActivities = useCallback((newActivities: ActivityItem[], limit: number = maxItems) => {
     setActivities(current => {
       const merged = [...newActivities, ...current]
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-        .slice(0, maxItems);
+        .slice(0, limit);
 
       // Remove duplicates based on ID
       return Array.from(
@@ -84,6 +124,8 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
    * Handles optimistic updates for new activities
    */
   const handleNewActivity = useCallback((activity: ActivityItem) => {
+    if (taskId && activity.details.entityId !== taskId) return;
+
     const optimisticActivity = {
       ...activity,
       status: 'pending' as const,
@@ -102,7 +144,7 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
         )
       );
     }, 1000);
-  }, [maxItems]);
+  }, [maxItems, taskId]);
 
   /**
    * Subscribes to WebSocket events for real-time updates
@@ -124,9 +166,18 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
   /**
    * Fetches initial activity data
    */
-  const fetchActivities = useCallback(async () => {
+  const fetchActivities = useCallback(async (offset: number = 0) => {
     try {
       setIsLoading(true);
+
+      if (taskId) {
+        const page = await taskService.getTaskActivity(taskId, { limit: maxItems, offset });
+        processActivities(page.activities.map(toActivityItem), offset + maxItems);
+        setTotal(page.total);
+        setError(null);
+        return;
+      }
+
       const response = await fetch('/api/v1/activities');
       if (!response.ok) throw new Error('Failed to fetch activities');
       
@@ -139,9 +190,10 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
     } finally {
       setIsLoading(false);
     }
-  }, [processActivities]);
+  }, [processActivities, taskId, taskService, maxItems]);
 
   useEffect(() => {
+    setActivities([]);
     fetchActivities();
   }, [fetchActivities]);
 
@@ -237,7 +289,7 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
       data-testid={testId}
     >
       <div className="activity-feed__header">
-        <h3>Activity Feed</h3>
+        <h3>{taskId ? 'Activity' : 'Activity Feed'}</h3>
         {!isConnected && (
           <span className="activity-feed__connection-status" role="status">
             Reconnecting...
@@ -252,6 +304,16 @@ const ActivityFeed: React.FC<ActivityFeedProps> = React.memo(({
       <div className="activity-feed__list" role="list">
         {activities.map(renderActivityItem)}
       </div>
+
+      {taskId && total !== null && activities.length < total && (
+        <button
+          className="activity-feed__load-more"
+          onClick={() => fetchActivities(activities.length)}
+          disabled={isLoading}
+        >
+          Load more
+        </button>
+      )}
     </div>
   );
 });
@@ -16,8 +16,6 @@ interface TeamActivityProps {
   teamId: string;
   maxItems?: number;
   className?: string;
-  refreshInterval?: number;
-  retryAttempts?: number;
 }
 
 /**
@@ -57,9 +55,7 @@ const ErrorFallback: React.FC<{ error: Error }> = ({ error }) => (
 const TeamActivity: React.FC<TeamActivityProps> = React.memo(({
   teamId,
   maxItems = 50,
-  className,
-  refreshInterval = 30000,
-  retryAttempts = 3
+  className
 }) => {
   // State management
   const [activities, setActivities] = useState<ActivityItem[]>([]);
@@ -67,16 +63,12 @@ const TeamActivity: React.FC<TeamActivityProps> = React.memo(({
   const [isLoading, setIsLoading] = useState(true);
 
   // Hooks
-  const { user, token } = useAuth();
+  const { user } = useAuth();
   const { 
     connect, 
     subscribe, 
     isConnected 
-  } = useWebSocket(`/ws/teams/${teamId}/activity`, {
-    autoReconnect: true,
-    maxRetries: retryAttempts,
-    headers: { Authorization: `Bearer ${token}` }
-  });
+  } = useWebSocket({ teamId });
 
   // Memoized virtual list configuration
   const listConfig = useMemo(() => ({
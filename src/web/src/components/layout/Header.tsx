@@ -5,16 +5,33 @@
  */
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom'; // ^6.0.0
 import { IconButton } from '@mui/material'; // v5.0.0
 import clsx from 'clsx'; // v2.0.0
+import DOMPurify from 'dompurify'; // v2.4.0
 import Avatar from '../common/Avatar';
 import Dropdown from '../common/Dropdown';
 import useAuth from '../../hooks/useAuth';
 import useTheme from '../../hooks/useTheme';
+import useDebounce from '../../hooks/useDebounce';
+import { taskService } from '../../services/task.service';
+import { ISearchResult } from '../../interfaces/task.interface';
+import { ROUTES } from '../../constants/routes.constants';
 import { BaseComponentProps } from '../../types/components.types';
 import { THEME_MODES } from '../../constants/theme.constants';
 import styles from './Header.module.css';
 
+// Search constants
+const SEARCH_DEBOUNCE_DELAY = 300;
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_RESULT_LIMIT = 8;
+
+const SEARCH_TYPE_LABELS: Record<ISearchResult['type'], string> = {
+  task: 'Task',
+  project: 'Project',
+  comment: 'Comment',
+};
+
 /**
  * Props interface for Header component
  */
@@ -31,6 +48,7 @@ interface HeaderProps extends BaseComponentProps {
  * - Secure authentication integration
  * - WCAG 2.1 Level AA compliance
  * - Cross-tab synchronization
+ * - Global full-text search across tasks, projects and comments
  */
 const Header: React.FC<HeaderProps> = ({
   onMenuClick,
@@ -41,10 +59,17 @@ const Header: React.FC<HeaderProps> = ({
   // State and refs
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const profileRef = useRef<HTMLDivElement>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<ISearchResult[]>([]);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
 
   // Custom hooks
+  const navigate = useNavigate();
   const { user, logout, isLoading } = useAuth();
   const { themeMode, toggleTheme } = useTheme();
+  const debouncedSearchTerm = useDebounce(searchTerm.trim(), SEARCH_DEBOUNCE_DELAY);
 
   /**
    * Profile menu options with role-based items
@@ -108,6 +133,74 @@ const Header: React.FC<HeaderProps> = ({
     };
   }, [isProfileOpen]);
 
+  /**
+   * Runs the global search once typing pauses, ignoring stale responses
+   */
+  useEffect(() => {
+    if (!user || debouncedSearchTerm.length < SEARCH_MIN_LENGTH) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsSearching(true);
+
+    taskService.search(debouncedSearchTerm, { limit: SEARCH_RESULT_LIMIT })
+      .then((response) => {
+        if (isCurrent) {
+          setSearchResults(response.results);
+          setIsSearchOpen(true);
+        }
+      })
+      .catch(() => {
+        if (isCurrent) {
+          setSearchResults([]);
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsSearching(false);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [debouncedSearchTerm, user]);
+
+  /**
+   * Closes the search results when clicking elsewhere
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
+        setIsSearchOpen(false);
+      }
+    };
+
+    if (isSearchOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isSearchOpen]);
+
+  /**
+   * Opens the task or project a search result belongs to
+   */
+  const handleSearchSelect = useCallback((result: ISearchResult) => {
+    const path = result.type === 'project'
+      ? ROUTES.PROJECTS.DETAIL.replace(':id', result.id)
+      : ROUTES.TASKS.DETAIL.replace(':id', result.taskId ?? result.id);
+
+    setIsSearchOpen(false);
+    setSearchTerm('');
+    navigate(path);
+  }, [navigate]);
+
   /**
    * Generates header class names based on state
    */
@@ -142,6 +235,51 @@ const Header: React.FC<HeaderProps> = ({
           <h1 className={styles.headerTitle}>Task Management</h1>
         </div>
 
+        {user && (
+          <div className={styles.headerSearch} ref={searchRef}>
+            <input
+              type="search"
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
+              onFocus={() => setIsSearchOpen(searchResults.length > 0)}
+              onKeyDown={(event) => event.key === 'Escape' && setIsSearchOpen(false)}
+              placeholder="Search tasks, projects and comments"
+              aria-label="Search"
+              aria-expanded={isSearchOpen}
+              aria-controls="header-search-results"
+              aria-busy={isSearching}
+              role="combobox"
+              className={styles.searchInput}
+            />
+
+            {isSearchOpen && debouncedSearchTerm.length >= SEARCH_MIN_LENGTH && (
+              <ul id="header-search-results" role="listbox" className={styles.searchResults}>
+                {searchResults.length === 0 && !isSearching && (
+                  <li className={styles.searchEmpty}>No results</li>
+                )}
+                {searchResults.map((result) => (
+                  <li key={`${result.type}:${result.id}`} role="option" aria-selected={false}>
+                    <button
+                      type="button"
+                      onClick={() => handleSearchSelect(result)}
+                      className={styles.searchResult}
+                    >
+                      <span className={styles.searchResultType}>{SEARCH_TYPE_LABELS[result.type]}</span>
+                      <span className={styles.searchResultTitle}>{result.title}</span>
+                      <span
+                        className={styles.searchResultSnippet}
+                        dangerouslySetInnerHTML={{
+                          __html: DOMPurify.sanitize(result.snippet, { ALLOWED_TAGS: ['mark'], ALLOWED_ATTR: [] }),
+                        }}
+                      />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         <div className={styles.headerRight} ref={profileRef}>
           {user && (
             <>
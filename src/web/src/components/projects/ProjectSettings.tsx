@@ -13,7 +13,22 @@ import { toast } from 'react-toastify'; // ^9.0.0
 
 import { IProject, IProjectSettings, IProjectAuditLog } from '../../interfaces/project.interface';
 import { useAuth } from '../../hooks/useAuth';
-import { SecurityLevel } from '../../interfaces/project.interface';
+import {
+  SecurityLevel,
+  IProjectWorkflow,
+  IProjectWebhook,
+  IWebhookDelivery,
+  WebhookEventType,
+  WorkflowStatusCategory,
+  WorkflowGuard
+} from '../../interfaces/project.interface';
+import { projectService } from '../../services/project.service';
+import {
+  DEFAULT_PROJECT_WORKFLOW,
+  getOrderedStatuses,
+  getWorkflowError,
+  toStatusKey
+} from '../../utils/workflow.utils';
 
 // Props interface with enhanced security and validation
 interface ProjectSettingsProps {
@@ -62,12 +77,31 @@ const ValidationMessage = styled.span`
   display: block;
 `;
 
+const WorkflowRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-bottom: 0.5rem;
+`;
+
 const AuditMessage = styled.div`
   font-size: 0.875rem;
   color: ${({ theme }) => theme.text.secondary};
   margin-top: 0.5rem;
 `;
 
+const SecretBox = styled.code`
+  display: block;
+  padding: 0.5rem;
+  word-break: break-all;
+  background: ${({ theme }) => theme.background.paper};
+  border: 1px solid ${({ theme }) => theme.border.light};
+  border-radius: 4px;
+`;
+
+// Number of recent deliveries shown per webhook
+const WEBHOOK_DELIVERY_PAGE_SIZE = 10;
+
 // Settings validation hook
 const useSettingsValidation = (settings: IProjectSettings) => {
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -90,12 +124,245 @@ const useSettingsValidation = (settings: IProjectSettings) => {
       newErrors.securityLevel = 'Public security level conflicts with private project setting';
     }
 
+    // Validate workflow structure
+    const workflowError = settings.workflow && getWorkflowError(settings.workflow);
+    if (workflowError) {
+      newErrors.workflow = workflowError;
+    }
+
     setErrors(newErrors);
   }, [settings]);
 
   return { errors, isValid: Object.keys(errors).length === 0 };
 };
 
+// Webhook subscriptions of the project, their test events and delivery logs
+const WebhookSettings: React.FC<{ projectId: string; isReadOnly: boolean }> = ({
+  projectId,
+  isReadOnly
+}) => {
+  const [webhooks, setWebhooks] = useState<IProjectWebhook[]>([]);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<WebhookEventType[]>([]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Record<string, IWebhookDelivery[]>>({});
+
+  const loadWebhooks = useCallback(async () => {
+    const response = await projectService.getWebhooks(projectId);
+    if (response.success) {
+      setWebhooks(response.data);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    const response = await projectService.getWebhookDeliveries(
+      projectId,
+      webhookId,
+      1,
+      WEBHOOK_DELIVERY_PAGE_SIZE
+    );
+    if (response.success) {
+      setDeliveries(prev => ({ ...prev, [webhookId]: response.data.data }));
+    } else {
+      toast.error('Failed to load webhook deliveries');
+    }
+  }, [projectId]);
+
+  const handleToggleEvent = useCallback((event: WebhookEventType) => {
+    setNewEvents(prev => prev.includes(event)
+      ? prev.filter(e => e !== event)
+      : [...prev, event]);
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    const response = await projectService.createWebhook(projectId, {
+      url: newUrl.trim(),
+      events: newEvents,
+      description: newDescription.trim() || undefined
+    });
+
+    if (!response.success) {
+      toast.error(response.error || 'Failed to create webhook');
+      return;
+    }
+
+    setCreatedSecret(response.data.secret || null);
+    setNewUrl('');
+    setNewDescription('');
+    setNewEvents([]);
+    toast.success('Webhook created');
+    await loadWebhooks();
+  }, [projectId, newUrl, newEvents, newDescription, loadWebhooks]);
+
+  const handleToggleActive = useCallback(async (webhook: IProjectWebhook) => {
+    const response = await projectService.updateWebhook(projectId, webhook.id, {
+      isActive: !webhook.isActive
+    });
+
+    if (response.success) {
+      setWebhooks(prev => prev.map(w => (w.id === webhook.id ? response.data : w)));
+    } else {
+      toast.error('Failed to update webhook');
+    }
+  }, [projectId]);
+
+  const handleDelete = useCallback(async (webhookId: string) => {
+    const response = await projectService.deleteWebhook(projectId, webhookId);
+
+    if (response.success) {
+      setWebhooks(prev => prev.filter(w => w.id !== webhookId));
+      toast.success('Webhook deleted');
+    } else {
+      toast.error('Failed to delete webhook');
+    }
+  }, [projectId]);
+
+  const handleSendTest = useCallback(async (webhookId: string) => {
+    const response = await projectService.sendWebhookTestEvent(projectId, webhookId);
+
+    if (response.success && response.data.status === 'SUCCEEDED') {
+      toast.success('Test event delivered');
+    } else {
+      toast.error(response.success
+        ? `Test event failed: ${response.data.error || response.data.responseStatus}`
+        : 'Failed to send test event');
+    }
+    await loadDeliveries(webhookId);
+  }, [projectId, loadDeliveries]);
+
+  return (
+    <SettingsGroup aria-labelledby="webhooks-heading">
+      <Label as="h3" id="webhooks-heading">
+        Webhooks
+      </Label>
+
+      {createdSecret && (
+        <SettingField role="status">
+          <Label as="p">
+            Signing secret — copy it now, it will not be shown again
+          </Label>
+          <SecretBox>{createdSecret}</SecretBox>
+          <button type="button" onClick={() => setCreatedSecret(null)}>
+            Done
+          </button>
+        </SettingField>
+      )}
+
+      <SettingField role="list" aria-label="Project webhooks">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} role="listitem">
+            <WorkflowRow>
+              <input
+                type="checkbox"
+                id={`webhook-active-${webhook.id}`}
+                checked={webhook.isActive}
+                onChange={() => handleToggleActive(webhook)}
+                disabled={isReadOnly}
+              />
+              <label htmlFor={`webhook-active-${webhook.id}`}>
+                {webhook.description || webhook.url}
+              </label>
+              <button
+                type="button"
+                onClick={() => handleSendTest(webhook.id)}
+                disabled={isReadOnly || !webhook.isActive}
+              >
+                Send Test Event
+              </button>
+              <button type="button" onClick={() => loadDeliveries(webhook.id)}>
+                Recent Deliveries
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(webhook.id)}
+                disabled={isReadOnly}
+                aria-label={`Delete webhook ${webhook.url}`}
+              >
+                Delete
+              </button>
+            </WorkflowRow>
+            <AuditMessage>
+              {webhook.url} · {webhook.events.join(', ')}
+            </AuditMessage>
+            {deliveries[webhook.id] && (
+              <ul aria-label={`Recent deliveries for ${webhook.url}`}>
+                {deliveries[webhook.id].length === 0 && <li>No deliveries yet</li>}
+                {deliveries[webhook.id].map(delivery => (
+                  <li key={delivery.id}>
+                    {new Date(delivery.createdAt).toLocaleString()} · {delivery.eventType} ·{' '}
+                    {delivery.status} ({delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'})
+                    {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                    {delivery.error && ` · ${delivery.error}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </SettingField>
+
+      <SettingField>
+        <Label htmlFor="webhookUrl">
+          Payload URL
+        </Label>
+        <input
+          type="url"
+          id="webhookUrl"
+          value={newUrl}
+          placeholder="https://example.com/webhooks"
+          maxLength={2048}
+          onChange={e => setNewUrl(e.target.value)}
+          disabled={isReadOnly}
+        />
+      </SettingField>
+
+      <SettingField>
+        <Label htmlFor="webhookDescription">
+          Description
+        </Label>
+        <input
+          type="text"
+          id="webhookDescription"
+          value={newDescription}
+          maxLength={255}
+          onChange={e => setNewDescription(e.target.value)}
+          disabled={isReadOnly}
+        />
+      </SettingField>
+
+      <SettingField role="group" aria-label="Webhook events">
+        {Object.values(WebhookEventType).map(event => (
+          <WorkflowRow key={event}>
+            <input
+              type="checkbox"
+              id={`webhook-event-${event}`}
+              checked={newEvents.includes(event)}
+              onChange={() => handleToggleEvent(event)}
+              disabled={isReadOnly}
+            />
+            <label htmlFor={`webhook-event-${event}`}>
+              {event}
+            </label>
+          </WorkflowRow>
+        ))}
+      </SettingField>
+
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={isReadOnly || !newUrl.trim() || newEvents.length === 0}
+      >
+        Add Webhook
+      </button>
+    </SettingsGroup>
+  );
+};
+
 export const ProjectSettings: React.FC<ProjectSettingsProps> = React.memo(({
   projectId,
   initialSettings,
@@ -104,7 +371,11 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = React.memo(({
   onAuditLog
 }) => {
   const { hasPermission } = useAuth();
-  const [settings, setSettings] = useState<IProjectSettings>(initialSettings);
+  const [settings, setSettings] = useState<IProjectSettings>({
+    ...initialSettings,
+    workflow: initialSettings.workflow || DEFAULT_PROJECT_WORKFLOW
+  });
+  const [newStatusName, setNewStatusName] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const { errors, isValid } = useSettingsValidation(settings);
   const previousSettings = useRef<IProjectSettings>(initialSettings);
@@ -165,6 +436,83 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = React.memo(({
     });
   }, [isReadOnly, hasPermission, debouncedUpdate]);
 
+  // Handle workflow change, only persisting workflows the task service will accept
+  const handleWorkflowChange = useCallback((
+    update: (workflow: IProjectWorkflow) => IProjectWorkflow
+  ) => {
+    if (isReadOnly || !hasPermission('UPDATE_PROJECT_SETTINGS')) {
+      return;
+    }
+
+    setSettings(prev => {
+      const newSettings = { ...prev, workflow: update(prev.workflow) };
+      if (!getWorkflowError(newSettings.workflow)) {
+        debouncedUpdate(newSettings);
+      }
+      return newSettings;
+    });
+  }, [isReadOnly, hasPermission, debouncedUpdate]);
+
+  const handleAddStatus = useCallback(() => {
+    const key = toStatusKey(newStatusName);
+    if (!key) {
+      return;
+    }
+
+    handleWorkflowChange(workflow => ({
+      ...workflow,
+      statuses: [
+        ...workflow.statuses,
+        {
+          key,
+          name: newStatusName.trim(),
+          category: WorkflowStatusCategory.IN_PROGRESS,
+          order: workflow.statuses.length
+        }
+      ]
+    }));
+    setNewStatusName('');
+  }, [newStatusName, handleWorkflowChange]);
+
+  const handleRemoveStatus = useCallback((key: string) => {
+    handleWorkflowChange(workflow => {
+      const statuses = getOrderedStatuses(workflow)
+        .filter(status => status.key !== key)
+        .map((status, order) => ({ ...status, order }));
+
+      return {
+        initialStatus: workflow.initialStatus === key ? statuses[0]?.key : workflow.initialStatus,
+        statuses,
+        transitions: workflow.transitions.filter(({ from, to }) => from !== key && to !== key)
+      };
+    });
+  }, [handleWorkflowChange]);
+
+  const handleToggleTransition = useCallback((from: string, to: string) => {
+    handleWorkflowChange(workflow => {
+      const exists = workflow.transitions.some(t => t.from === from && t.to === to);
+      return {
+        ...workflow,
+        transitions: exists
+          ? workflow.transitions.filter(t => !(t.from === from && t.to === to))
+          : [...workflow.transitions, { from, to }]
+      };
+    });
+  }, [handleWorkflowChange]);
+
+  const handleGuardChange = useCallback((from: string, to: string, guard: string) => {
+    handleWorkflowChange(workflow => ({
+      ...workflow,
+      transitions: workflow.transitions.map(t =>
+        t.from === from && t.to === to
+          ? { ...t, guards: guard ? [guard as WorkflowGuard] : [] }
+          : t
+      )
+    }));
+  }, [handleWorkflowChange]);
+
+  const orderedStatuses = getOrderedStatuses(settings.workflow);
+
   if (!hasPermission('VIEW_PROJECT_SETTINGS')) {
     return <div>You don't have permission to view project settings</div>;
   }
@@ -269,6 +617,146 @@ export const ProjectSettings: React.FC<ProjectSettingsProps> = React.memo(({
         </SettingField>
       </SettingsGroup>
 
+      <SettingsGroup aria-labelledby="workflow-heading">
+        <Label as="h3" id="workflow-heading">
+          Task Workflow
+        </Label>
+
+        <SettingField>
+          <Label htmlFor="initialStatus">
+            Initial Status
+          </Label>
+          <select
+            id="initialStatus"
+            value={settings.workflow.initialStatus}
+            onChange={e => handleWorkflowChange(workflow => ({ ...workflow, initialStatus: e.target.value }))}
+            disabled={isReadOnly}
+          >
+            {orderedStatuses.map(status => (
+              <option key={status.key} value={status.key}>
+                {status.name}
+              </option>
+            ))}
+          </select>
+        </SettingField>
+
+        <SettingField role="list" aria-label="Workflow statuses">
+          {orderedStatuses.map(status => (
+            <WorkflowRow key={status.key} role="listitem">
+              <input
+                type="text"
+                aria-label={`Name of status ${status.key}`}
+                value={status.name}
+                maxLength={50}
+                onChange={e => handleWorkflowChange(workflow => ({
+                  ...workflow,
+                  statuses: workflow.statuses.map(s =>
+                    s.key === status.key ? { ...s, name: e.target.value } : s
+                  )
+                }))}
+                disabled={isReadOnly}
+              />
+              <select
+                aria-label={`Category of status ${status.name}`}
+                value={status.category}
+                onChange={e => handleWorkflowChange(workflow => ({
+                  ...workflow,
+                  statuses: workflow.statuses.map(s =>
+                    s.key === status.key
+                      ? { ...s, category: e.target.value as WorkflowStatusCategory }
+                      : s
+                  )
+                }))}
+                disabled={isReadOnly}
+              >
+                {Object.values(WorkflowStatusCategory).map(category => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => handleRemoveStatus(status.key)}
+                disabled={isReadOnly || orderedStatuses.length === 1}
+                aria-label={`Remove status ${status.name}`}
+              >
+                Remove
+              </button>
+            </WorkflowRow>
+          ))}
+          <WorkflowRow>
+            <input
+              type="text"
+              aria-label="New status name"
+              value={newStatusName}
+              maxLength={50}
+              onChange={e => setNewStatusName(e.target.value)}
+              disabled={isReadOnly}
+            />
+            <button
+              type="button"
+              onClick={handleAddStatus}
+              disabled={isReadOnly || !toStatusKey(newStatusName)}
+            >
+              Add Status
+            </button>
+          </WorkflowRow>
+        </SettingField>
+
+        <SettingField role="group" aria-label="Workflow transitions">
+          {orderedStatuses.map(from => orderedStatuses
+            .filter(to => to.key !== from.key)
+            .map(to => {
+              const transition = settings.workflow.transitions.find(
+                t => t.from === from.key && t.to === to.key
+              );
+              const id = `transition-${from.key}-${to.key}`;
+
+              return (
+                <WorkflowRow key={id}>
+                  <input
+                    type="checkbox"
+                    id={id}
+                    checked={!!transition}
+                    onChange={() => handleToggleTransition(from.key, to.key)}
+                    disabled={isReadOnly}
+                  />
+                  <label htmlFor={id}>
+                    {from.name} → {to.name}
+                  </label>
+                  {transition && (
+                    <select
+                      aria-label={`Guard for ${from.name} to ${to.name}`}
+                      value={transition.guards?.[0] || ''}
+                      onChange={e => handleGuardChange(from.key, to.key, e.target.value)}
+                      disabled={isReadOnly}
+                    >
+                      <option value="">Anyone</option>
+                      {Object.values(WorkflowGuard).map(guard => (
+                        <option key={guard} value={guard}>
+                          {guard}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </WorkflowRow>
+              );
+            })
+          )}
+        </SettingField>
+
+        {errors.workflow && (
+          <ValidationMessage id="workflow-error" role="alert">
+            {errors.workflow}
+          </ValidationMessage>
+        )}
+      </SettingsGroup>
+
+      {hasPermission('UPDATE_PROJECT_SETTINGS') && (
+        <WebhookSettings projectId={projectId} isReadOnly={isReadOnly} />
+      )}
+
       {isSaving && (
         <AuditMessage>
           Saving changes...
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'; // ^18.0.0
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  IconButton,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Tooltip,
+  Typography
+} from '@mui/material'; // ^5.0.0
+import { Download, ExpandLess, History, Restore, Upload } from '@mui/icons-material';
+
+import { FilePreviewKind, IFilePreviewLink, IFileVersion } from '../../interfaces/file.interface';
+import { fileService } from '../../services/file.service';
+
+/**
+ * Props interface for TaskAttachments component
+ */
+interface TaskAttachmentsProps {
+  attachmentIds: string[];
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const openDownload = (url: string): void => {
+  window.open(url, '_blank', 'noopener');
+};
+
+/**
+ * TaskAttachments lists a task's files with their version history. Any
+ * version can be downloaded or restored, and a revised file can be uploaded
+ * as the next version of an attachment. Images and PDFs show an inline
+ * thumbnail that opens the larger preview.
+ */
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ attachmentIds }) => {
+  const [versions, setVersions] = useState<Record<string, IFileVersion[]>>({});
+  const [previews, setPreviews] = useState<Record<string, Partial<Record<FilePreviewKind, IFilePreviewLink>>>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<string | null>(null);
+
+  const loadVersions = useCallback(async (fileId: string) => {
+    const fileVersions = await fileService.getVersions(fileId);
+    setVersions(prev => ({ ...prev, [fileId]: fileVersions }));
+  }, []);
+
+  const loadPreviews = useCallback(async (fileIds: string[]) => {
+    const links = await fileService.getPreviews(fileIds);
+    setPreviews(prev => {
+      const next = { ...prev };
+      fileIds.forEach(fileId => {
+        delete next[fileId];
+      });
+      links.forEach(link => {
+        next[link.fileId] = { ...next[link.fileId], [link.kind]: link };
+      });
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    Promise.all(attachmentIds.map(loadVersions)).catch(err => setError((err as Error).message));
+    // A missing preview only costs the inline image, so failures are not surfaced
+    loadPreviews(attachmentIds).catch(err => console.error('Error fetching previews:', err));
+  }, [attachmentIds, loadVersions, loadPreviews]);
+
+  const runAction = useCallback(async (fileId: string, action: () => Promise<unknown>) => {
+    setBusyFileId(fileId);
+    setError(null);
+    try {
+      await action();
+      await loadVersions(fileId);
+      // Previews for the new version are rendered in the background and may not exist yet
+      await loadPreviews([fileId]).catch(() => undefined);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyFileId(null);
+    }
+  }, [loadVersions, loadPreviews]);
+
+  const handleDownload = useCallback((fileId: string, version?: number) => {
+    const request = version === undefined
+      ? fileService.getDownloadUrl(fileId)
+      : fileService.getVersionUrl(fileId, version);
+
+    request
+      .then(({ url }) => openDownload(url))
+      .catch(err => setError((err as Error).message));
+  }, []);
+
+  const handleRestore = useCallback((fileId: string, version: number) => {
+    runAction(fileId, () => fileService.restoreVersion(fileId, version));
+  }, [runAction]);
+
+  const handleChooseRevision = useCallback((fileId: string) => {
+    uploadTargetRef.current = fileId;
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleRevisionSelected = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const fileId = uploadTargetRef.current;
+    event.target.value = '';
+
+    if (file && fileId) {
+      runAction(fileId, () => fileService.uploadVersion(fileId, file));
+    }
+  }, [runAction]);
+
+  if (attachmentIds.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No attachments
+      </Typography>
+    );
+  }
+
+  return (
+    <Box role="region" aria-label="Attachments">
+      <Typography variant="h6" gutterBottom>
+        Attachments
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1 }}>
+          {error}
+        </Alert>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        onChange={handleRevisionSelected}
+        style={{ display: 'none' }}
+        aria-hidden="true"
+      />
+
+      <List dense>
+        {attachmentIds.map(fileId => {
+          const history = versions[fileId] || [];
+          const [current, ...previous] = history;
+          const isExpanded = expanded === fileId;
+          const isBusy = busyFileId === fileId;
+          const thumbnail = previews[fileId]?.[FilePreviewKind.THUMBNAIL];
+          const preview = previews[fileId]?.[FilePreviewKind.PREVIEW];
+
+          return (
+            <React.Fragment key={fileId}>
+              <ListItem
+                secondaryAction={
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    <Tooltip title="Download">
+                      <IconButton aria-label="Download" onClick={() => handleDownload(fileId)} disabled={!current}>
+                        <Download fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Upload new version">
+                      <IconButton
+                        aria-label="Upload new version"
+                        onClick={() => handleChooseRevision(fileId)}
+                        disabled={isBusy}
+                      >
+                        <Upload fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Version history">
+                      <span>
+                        <IconButton
+                          aria-label="Version history"
+                          aria-expanded={isExpanded}
+                          onClick={() => setExpanded(isExpanded ? null : fileId)}
+                          disabled={previous.length === 0}
+                        >
+                          {isExpanded ? <ExpandLess fontSize="small" /> : <History fontSize="small" />}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                {thumbnail && (
+                  <ListItemAvatar sx={{ mr: 1 }}>
+                    <Box
+                      component="img"
+                      src={thumbnail.url}
+                      alt={current ? `Preview of ${current.originalName}` : 'Attachment preview'}
+                      loading="lazy"
+                      onClick={() => preview && openDownload(preview.url)}
+                      sx={{
+                        width: 64,
+                        height: 64,
+                        objectFit: 'cover',
+                        borderRadius: 1,
+                        cursor: preview ? 'zoom-in' : 'default'
+                      }}
+                    />
+                  </ListItemAvatar>
+                )}
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <span>{current?.originalName || 'Loading...'}</span>
+                      {current && <Chip size="small" label={`v${current.version}`} />}
+                    </Box>
+                  }
+                  secondary={current && `${formatSize(current.size)} · ${new Date(current.createdAt).toLocaleString()}`}
+                />
+              </ListItem>
+
+              <Collapse in={isExpanded} timeout="auto" unmountOnExit>
+                <List dense disablePadding sx={{ pl: 4 }} aria-label="Previous versions">
+                  {previous.map(version => (
+                    <ListItem
+                      key={version.id}
+                      secondaryAction={
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          <Tooltip title={`Download version ${version.version}`}>
+                            <IconButton
+                              aria-label={`Download version ${version.version}`}
+                              onClick={() => handleDownload(fileId, version.version)}
+                            >
+                              <Download fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Button
+                            size="small"
+                            startIcon={<Restore fontSize="small" />}
+                            onClick={() => handleRestore(fileId, version.version)}
+                            disabled={isBusy}
+                          >
+                            Restore
+                          </Button>
+                        </Box>
+                      }
+                    >
+                      <ListItemText
+                        primary={`v${version.version} · ${version.originalName}`}
+                        secondary={[
+                          formatSize(version.size),
+                          new Date(version.createdAt).toLocaleString(),
+                          version.restoredFrom ? `restored from v${version.restoredFrom}` : null
+                        ].filter(Boolean).join(' · ')}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Collapse>
+            </React.Fragment>
+          );
+        })}
+      </List>
+    </Box>
+  );
+};
+
+export default TaskAttachments;
\ No newline at end of file
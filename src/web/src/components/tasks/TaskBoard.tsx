@@ -1,13 +1,22 @@
 import React, { useEffect, useCallback, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
-import { useTheme, styled } from '@mui/material';
+import { useTheme, styled, Theme } from '@mui/material';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import TaskCard from './TaskCard';
 import useWebSocket from '../../hooks/useWebSocket';
-import { TaskStatus, ITask, TaskPriority } from '../../interfaces/task.interface';
+import useTaskThumbnails from '../../hooks/useTaskThumbnails';
+import { ITask, TaskPriority } from '../../interfaces/task.interface';
+import { IFilePreviewLink } from '../../interfaces/file.interface';
+import { IProjectWorkflow, IWorkflowStatus } from '../../interfaces/project.interface';
 import { BaseComponentProps } from '../../types/components.types';
 import { TRANSITIONS } from '../../constants/theme.constants';
+import {
+  DEFAULT_PROJECT_WORKFLOW,
+  CATEGORY_COLORS,
+  getOrderedStatuses,
+  canTransition,
+} from '../../utils/workflow.utils';
 
 // Styled components for the board layout
 const BoardContainer = styled('div')(({ theme }) => ({
@@ -45,21 +54,145 @@ const TaskList = styled('div')({
 // Interface for component props
 interface TaskBoardProps extends BaseComponentProps {
   projectId?: string;
+  workflow?: IProjectWorkflow;
   onTaskClick?: (taskId: string) => void;
-  onStatusChange?: (taskId: string, newStatus: TaskStatus) => void;
+  onStatusChange?: (taskId: string, newStatus: string) => void;
   virtualizeThreshold?: number;
 }
 
-// Task status configuration with display names and colors
-const TASK_STATUSES = {
-  [TaskStatus.TODO]: { label: 'To Do', color: 'grey.500' },
-  [TaskStatus.IN_PROGRESS]: { label: 'In Progress', color: 'info.main' },
-  [TaskStatus.REVIEW]: { label: 'Review', color: 'warning.main' },
-  [TaskStatus.DONE]: { label: 'Done', color: 'success.main' },
+interface WorkflowColumnProps {
+  status: IWorkflowStatus;
+  tasks: ITask[];
+  thumbnails: Record<string, IFilePreviewLink>;
+  onTaskClick?: (taskId: string) => void;
+  virtualizeThreshold: number;
+}
+
+// Priority ordering used when sorting tasks within a column
+const PRIORITY_ORDER = {
+  [TaskPriority.URGENT]: 0,
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 2,
+  [TaskPriority.LOW]: 3,
+};
+
+/**
+ * Resolves a status color, accepting either a hex value or a theme palette path
+ */
+const resolveColor = (theme: Theme, color: string): string => {
+  if (color.startsWith('#')) return color;
+  return color.split('.').reduce((value: any, key) => value?.[key], theme.palette) || color;
+};
+
+/**
+ * Single workflow column, virtualized once it exceeds the threshold
+ */
+const WorkflowColumn: React.FC<WorkflowColumnProps> = ({
+  status,
+  tasks,
+  thumbnails,
+  onTaskClick,
+  virtualizeThreshold,
+}) => {
+  const theme = useTheme();
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: tasks.length,
+    getScrollElement: () => listRef.current,
+    estimateSize: () => 100,
+    overscan: 5,
+  });
+
+  const renderCard = (task: ITask, isDragging: boolean) => (
+    <TaskCard
+      task={task}
+      thumbnail={thumbnails[task.id]}
+      onClick={() => onTaskClick?.(task.id)}
+      style={{
+        opacity: isDragging ? 0.6 : 1,
+        transform: isDragging ? 'scale(1.02)' : 'scale(1)',
+        transition: TRANSITIONS.duration.standard,
+      }}
+    />
+  );
+
+  return (
+    <Column>
+      <h3 style={{ color: resolveColor(theme, status.color || CATEGORY_COLORS[status.category]) }}>
+        {status.name}
+      </h3>
+      <Droppable droppableId={status.key}>
+        {(provided, snapshot) => (
+          <TaskList
+            ref={(el) => {
+              provided.innerRef(el);
+              listRef.current = el;
+            }}
+            style={{
+              backgroundColor: snapshot.isDraggingOver
+                ? theme.palette.action.hover
+                : 'transparent',
+            }}
+            {...provided.droppableProps}
+          >
+            {tasks.length > virtualizeThreshold ? (
+              virtualizer.getVirtualItems().map((virtualRow) => {
+                const task = tasks[virtualRow.index];
+                return (
+                  <Draggable
+                    key={task.id}
+                    draggableId={task.id}
+                    index={virtualRow.index}
+                  >
+                    {(dragProvided, dragSnapshot) => (
+                      <div
+                        ref={dragProvided.innerRef}
+                        {...dragProvided.draggableProps}
+                        {...dragProvided.dragHandleProps}
+                        style={{
+                          ...dragProvided.draggableProps.style,
+                          top: virtualRow.start,
+                          position: 'absolute',
+                          width: '100%',
+                        }}
+                      >
+                        {renderCard(task, dragSnapshot.isDragging)}
+                      </div>
+                    )}
+                  </Draggable>
+                );
+              })
+            ) : (
+              tasks.map((task, index) => (
+                <Draggable
+                  key={task.id}
+                  draggableId={task.id}
+                  index={index}
+                >
+                  {(dragProvided, dragSnapshot) => (
+                    <div
+                      ref={dragProvided.innerRef}
+                      {...dragProvided.draggableProps}
+                      {...dragProvided.dragHandleProps}
+                    >
+                      {renderCard(task, dragSnapshot.isDragging)}
+                    </div>
+                  )}
+                </Draggable>
+              ))
+            )}
+            {provided.placeholder}
+          </TaskList>
+        )}
+      </Droppable>
+    </Column>
+  );
 };
 
 const TaskBoard: React.FC<TaskBoardProps> = ({
   projectId,
+  workflow: workflowProp,
   onTaskClick,
   onStatusChange,
   virtualizeThreshold = 20,
@@ -68,35 +201,36 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
   testId = 'task-board',
 }) => {
   const dispatch = useDispatch();
-  const { theme } = useTheme();
-  const columnRefs = useRef<Record<TaskStatus, HTMLDivElement | null>>({} as any);
 
   // WebSocket setup for real-time updates
-  const { subscribe } = useWebSocket();
+  const { subscribe } = useWebSocket(projectId ? { projectId } : undefined);
 
   // Get tasks from Redux store
   const tasks = useSelector((state: RootState) => 
     projectId ? state.tasks.items.filter(task => task.projectId === projectId) : state.tasks.items
   );
 
+  // Columns follow the project workflow, falling back to the default workflow
+  const projectWorkflow = useSelector((state: RootState) =>
+    projectId
+      ? state.projects.projects.find(project => project.id === projectId)?.settings?.workflow
+      : undefined
+  );
+  const workflow = workflowProp || projectWorkflow || DEFAULT_PROJECT_WORKFLOW;
+  const thumbnails = useTaskThumbnails(tasks);
+  const statuses = useMemo(() => getOrderedStatuses(workflow), [workflow]);
+
   // Memoized task grouping by status
   const tasksByStatus = useMemo(() => {
-    const grouped = Object.values(TaskStatus).reduce((acc, status) => ({
+    const grouped = statuses.reduce((acc, status) => ({
       ...acc,
-      [status]: tasks.filter(task => task.status === status),
-    }), {} as Record<TaskStatus, ITask[]>);
+      [status.key]: tasks.filter(task => task.status === status.key),
+    }), {} as Record<string, ITask[]>);
 
     // Sort tasks by priority and due date
-    Object.values(TaskStatus).forEach(status => {
-      grouped[status].sort((a, b) => {
-        const priorityOrder = {
-          [TaskPriority.URGENT]: 0,
-          [TaskPriority.HIGH]: 1,
-          [TaskPriority.MEDIUM]: 2,
-          [TaskPriority.LOW]: 3,
-        };
-        
-        const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+    Object.values(grouped).forEach(columnTasks => {
+      columnTasks.sort((a, b) => {
+        const priorityDiff = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
         if (priorityDiff !== 0) return priorityDiff;
         
         return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
@@ -104,21 +238,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     });
 
     return grouped;
-  }, [tasks]);
-
-  // Virtualization setup for each column
-  const virtualizers = useMemo(() => 
-    Object.values(TaskStatus).reduce((acc, status) => ({
-      ...acc,
-      [status]: useVirtualizer({
-        count: tasksByStatus[status].length,
-        getScrollElement: () => columnRefs.current[status],
-        estimateSize: () => 100,
-        overscan: 5,
-      }),
-    }), {} as Record<TaskStatus, ReturnType<typeof useVirtualizer>>),
-    [tasksByStatus]
-  );
+  }, [tasks, statuses]);
 
   // Handle drag end event
   const handleDragEnd = useCallback((result: DropResult) => {
@@ -130,7 +250,12 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
       return;
     }
 
-    const newStatus = destination.droppableId as TaskStatus;
+    const newStatus = destination.droppableId;
+
+    // Drops onto a column without a workflow transition snap back
+    if (!canTransition(workflow, source.droppableId, newStatus)) {
+      return;
+    }
     
     // Optimistic update
     dispatch({
@@ -145,7 +270,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
 
     // Notify backend
     onStatusChange?.(draggableId, newStatus);
-  }, [dispatch, onStatusChange]);
+  }, [dispatch, onStatusChange, workflow]);
 
   // Subscribe to real-time task updates
   useEffect(() => {
@@ -168,94 +293,15 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
       aria-label="Task Board"
     >
       <DragDropContext onDragEnd={handleDragEnd}>
-        {Object.entries(TASK_STATUSES).map(([status, { label, color }]) => (
-          <Column key={status}>
-            <h3 style={{ color: theme.palette[color] }}>{label}</h3>
-            <Droppable droppableId={status}>
-              {(provided, snapshot) => (
-                <TaskList
-                  ref={(el) => {
-                    provided.innerRef(el);
-                    columnRefs.current[status as TaskStatus] = el;
-                  }}
-                  style={{
-                    backgroundColor: snapshot.isDraggingOver
-                      ? theme.palette.action.hover
-                      : 'transparent',
-                  }}
-                  {...provided.droppableProps}
-                >
-                  {tasksByStatus[status as TaskStatus].length > virtualizeThreshold ? (
-                    virtualizers[status as TaskStatus].getVirtualItems().map((virtualRow) => {
-                      const task = tasksByStatus[status as TaskStatus][virtualRow.index];
-                      return (
-                        <Draggable
-                          key={task.id}
-                          draggableId={task.id}
-                          index={virtualRow.index}
-                        >
-                          {(dragProvided, dragSnapshot) => (
-                            <div
-                              ref={dragProvided.innerRef}
-                              {...dragProvided.draggableProps}
-                              {...dragProvided.dragHandleProps}
-                              style={{
-                                ...dragProvided.draggableProps.style,
-                                top: virtualRow.start,
-                                position: 'absolute',
-                                width: '100%',
-                              }}
-                            >
-                              <TaskCard
-                                task={task}
-                                onClick={() => onTaskClick?.(task.id)}
-                                style={{
-                                  opacity: dragSnapshot.isDragging ? 0.6 : 1,
-                                  transform: dragSnapshot.isDragging
-                                    ? 'scale(1.02)'
-                                    : 'scale(1)',
-                                  transition: TRANSITIONS.duration.standard,
-                                }}
-                              />
-                            </div>
-                          )}
-                        </Draggable>
-                      );
-                    })
-                  ) : (
-                    tasksByStatus[status as TaskStatus].map((task, index) => (
-                      <Draggable
-                        key={task.id}
-                        draggableId={task.id}
-                        index={index}
-                      >
-                        {(dragProvided, dragSnapshot) => (
-                          <div
-                            ref={dragProvided.innerRef}
-                            {...dragProvided.draggableProps}
-                            {...dragProvided.dragHandleProps}
-                          >
-                            <TaskCard
-                              task={task}
-                              onClick={() => onTaskClick?.(task.id)}
-                              style={{
-                                opacity: dragSnapshot.isDragging ? 0.6 : 1,
-                                transform: dragSnapshot.isDragging
-                                  ? 'scale(1.02)'
-                                  : 'scale(1)',
-                                transition: TRANSITIONS.duration.standard,
-                              }}
-                            />
-                          </div>
-                        )}
-                      </Draggable>
-                    ))
-                  )}
-                  {provided.placeholder}
-                </TaskList>
-              )}
-            </Droppable>
-          </Column>
+        {statuses.map((status) => (
+          <WorkflowColumn
+            key={status.key}
+            status={status}
+            tasks={tasksByStatus[status.key]}
+            thumbnails={thumbnails}
+            onTaskClick={onTaskClick}
+            virtualizeThreshold={virtualizeThreshold}
+          />
         ))}
       </DragDropContext>
     </BoardContainer>
@@ -4,6 +4,7 @@ import Card from '../common/Card';
 import Badge from '../common/Badge';
 import Avatar from '../common/Avatar';
 import { ITask, TaskPriority, TaskStatus } from '../../interfaces/task.interface';
+import { IFilePreviewLink } from '../../interfaces/file.interface';
 import { useTheme } from '../../hooks/useTheme';
 import { BaseComponentProps } from '../../types/components.types';
 
@@ -23,6 +24,8 @@ interface TaskCardProps extends BaseComponentProps {
   ariaLabel?: string;
   /** Tab order for keyboard navigation */
   tabIndex?: number;
+  /** Thumbnail of the task's first previewable attachment */
+  thumbnail?: IFilePreviewLink;
 }
 
 /**
@@ -41,8 +44,8 @@ const getPriorityColor = (priority: TaskPriority, theme: Theme): string => {
 /**
  * Maps task status to theme-aware color scheme
  */
-const getStatusColor = (status: TaskStatus, theme: Theme): string => {
-  const colors = {
+const getStatusColor = (status: TaskStatus | string, theme: Theme): string => {
+  const colors: Record<string, string> = {
     [TaskStatus.TODO]: theme.palette.grey[500],
     [TaskStatus.IN_PROGRESS]: theme.palette.info.main,
     [TaskStatus.REVIEW]: theme.palette.warning.main,
@@ -76,6 +79,7 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({
   style,
   ariaLabel,
   tabIndex = 0,
+  thumbnail,
 }) => {
   const { theme } = useTheme();
 
@@ -136,6 +140,26 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({
         </div>
       </div>
 
+      {thumbnail && (
+        <img
+          className="task-card__thumbnail"
+          src={thumbnail.url}
+          alt=""
+          loading="lazy"
+          width={thumbnail.width}
+          height={thumbnail.height}
+          style={{
+            display: 'block',
+            width: '100%',
+            height: 'auto',
+            maxHeight: 160,
+            objectFit: 'cover',
+            borderRadius: theme.shape.borderRadius,
+            marginTop: theme.spacing(1),
+          }}
+        />
+      )}
+
       {task.description && (
         <p
           className="task-card__description"
@@ -150,6 +174,25 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({
           <span>Due: {formatDueDate(task.dueDate)}</span>
         </div>
 
+        {task.progress && (task.progress.totalSubtasks > 0 || task.progress.totalChecklistItems > 0) && (
+          <div className="task-card__progress" style={{ color: theme.palette.text.secondary }}>
+            {task.progress.totalSubtasks > 0 && (
+              <span
+                aria-label={`${task.progress.completedSubtasks} of ${task.progress.totalSubtasks} subtasks done`}
+              >
+                Subtasks {task.progress.completedSubtasks}/{task.progress.totalSubtasks}
+              </span>
+            )}
+            {task.progress.totalChecklistItems > 0 && (
+              <span
+                aria-label={`${task.progress.completedChecklistItems} of ${task.progress.totalChecklistItems} checklist items done`}
+              >
+                Checklist {task.progress.completedChecklistItems}/{task.progress.totalChecklistItems}
+              </span>
+            )}
+          </div>
+        )}
+
         {showAssignees && task.assigneeIds.length > 0 && (
           <div
             className="task-card__assignees"
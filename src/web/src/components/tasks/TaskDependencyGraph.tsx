@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react'; // ^18.0.0
+import { Box, Typography, useTheme } from '@mui/material'; // ^5.0.0
+
+import {
+  ITaskDependencyGraph,
+  ITaskDependencyNode,
+  TaskDependencyType
+} from '../../interfaces/task.interface';
+
+// Layout constants in SVG units
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 48;
+const COLUMN_GAP = 60;
+const ROW_GAP = 16;
+
+/**
+ * Props interface for TaskDependencyGraph component
+ */
+interface TaskDependencyGraphProps {
+  graph: ITaskDependencyGraph;
+  onTaskClick?: (taskId: string) => void;
+}
+
+interface PositionedNode extends ITaskDependencyNode {
+  x: number;
+  y: number;
+}
+
+/**
+ * Places nodes in columns so blockers sit left of the tasks they block.
+ * Related and duplicate links keep both tasks in the same column.
+ */
+const layoutGraph = (graph: ITaskDependencyGraph): PositionedNode[] => {
+  const levels = new Map<string, number>([[graph.rootTaskId, 0]]);
+  const queue = [graph.rootTaskId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const level = levels.get(current)!;
+
+    graph.edges.forEach(({ sourceTaskId, targetTaskId, type }) => {
+      const offset = type === TaskDependencyType.BLOCKS ? 1 : 0;
+      const neighbour =
+        sourceTaskId === current ? { id: targetTaskId, level: level + offset }
+        : targetTaskId === current ? { id: sourceTaskId, level: level - offset }
+        : null;
+
+      if (neighbour && !levels.has(neighbour.id)) {
+        levels.set(neighbour.id, neighbour.level);
+        queue.push(neighbour.id);
+      }
+    });
+  }
+
+  const minLevel = Math.min(...levels.values());
+  const rowsPerColumn = new Map<number, number>();
+
+  return graph.nodes
+    .filter(node => levels.has(node.id))
+    .map(node => {
+      const column = levels.get(node.id)! - minLevel;
+      const row = rowsPerColumn.get(column) || 0;
+      rowsPerColumn.set(column, row + 1);
+
+      return {
+        ...node,
+        x: column * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP)
+      };
+    });
+};
+
+/**
+ * TaskDependencyGraph renders blocking, related and duplicate links around a task
+ */
+const TaskDependencyGraph: React.FC<TaskDependencyGraphProps> = React.memo(({ graph, onTaskClick }) => {
+  const theme = useTheme();
+  const nodes = useMemo(() => layoutGraph(graph), [graph]);
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+
+  if (graph.edges.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No linked tasks
+      </Typography>
+    );
+  }
+
+  const width = Math.max(...nodes.map(node => node.x)) + NODE_WIDTH;
+  const height = Math.max(...nodes.map(node => node.y)) + NODE_HEIGHT;
+
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label="Task dependency graph"
+      >
+        <defs>
+          <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={theme.palette.text.secondary} />
+          </marker>
+        </defs>
+
+        {graph.edges.map(edge => {
+          const source = nodesById.get(edge.sourceTaskId);
+          const target = nodesById.get(edge.targetTaskId);
+          if (!source || !target) return null;
+
+          const isBlocking = edge.type === TaskDependencyType.BLOCKS;
+          const openBlocker = isBlocking && !source.isDone;
+
+          return (
+            <line
+              key={edge.id}
+              x1={source.x + (isBlocking ? NODE_WIDTH : NODE_WIDTH / 2)}
+              y1={source.y + (isBlocking ? NODE_HEIGHT / 2 : NODE_HEIGHT)}
+              x2={target.x + (isBlocking ? 0 : NODE_WIDTH / 2)}
+              y2={target.y + (isBlocking ? NODE_HEIGHT / 2 : 0)}
+              stroke={openBlocker ? theme.palette.error.main : theme.palette.text.secondary}
+              strokeWidth={openBlocker ? 2 : 1}
+              strokeDasharray={isBlocking ? undefined : '4 4'}
+              markerEnd={isBlocking ? 'url(#dependency-arrow)' : undefined}
+            >
+              <title>{edge.type.replace('_', ' ').toLowerCase()}</title>
+            </line>
+          );
+        })}
+
+        {nodes.map(node => (
+          <g
+            key={node.id}
+            transform={`translate(${node.x}, ${node.y})`}
+            onClick={() => onTaskClick?.(node.id)}
+            style={{ cursor: onTaskClick ? 'pointer' : 'default' }}
+            role="button"
+            aria-label={`${node.title} (${node.status})`}
+          >
+            <rect
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={theme.shape.borderRadius}
+              fill={node.id === graph.rootTaskId ? theme.palette.action.selected : theme.palette.background.paper}
+              stroke={node.isDone ? theme.palette.success.main : theme.palette.divider}
+            />
+            <text x={8} y={20} fontSize={13} fill={theme.palette.text.primary}>
+              {node.title.length > 24 ? `${node.title.slice(0, 23)}…` : node.title}
+            </text>
+            <text x={8} y={38} fontSize={11} fill={theme.palette.text.secondary}>
+              {node.status}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </Box>
+  );
+});
+
+TaskDependencyGraph.displayName = 'TaskDependencyGraph';
+
+export default TaskDependencyGraph;
\ No newline at end of file
@@ -12,12 +12,24 @@ import {
   Stack,
   Box,
   IconButton,
-  Grid
+  Grid,
+  Checkbox,
+  FormControlLabel,
+  TextField,
+  LinearProgress
 } from '@mui/material'; // ^5.0.0
 
-import { ITask, TaskStatus, TaskPriority } from '../../interfaces/task.interface';
+import {
+  ITask,
+  ITaskDependencyGraph,
+  TaskStatus,
+  TaskPriority,
+  TaskDependencyType
+} from '../../interfaces/task.interface';
 import { useTasks } from '../../hooks/useTasks';
 import { useWebSocket } from '../../hooks/useWebSocket';
+import { taskService } from '../../services/task.service';
+import TaskDependencyGraph from './TaskDependencyGraph';
 
 /**
  * Props interface for TaskDetail component
@@ -38,11 +50,13 @@ const TaskDetail: React.FC<TaskDetailProps> = React.memo(({ taskId, onClose, onE
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [dependencyGraph, setDependencyGraph] = useState<ITaskDependencyGraph | null>(null);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
 
   // Hooks
   const navigate = useNavigate();
   const { updateTask, deleteTask } = useTasks();
-  const { subscribe } = useWebSocket();
+  const { subscribe } = useWebSocket({ taskId });
 
   // Refs for tracking mounted state and optimistic updates
   const isMounted = useRef(true);
@@ -88,6 +102,25 @@ const TaskDetail: React.FC<TaskDetailProps> = React.memo(({ taskId, onClose, onE
     };
   }, [taskId, updateTask, subscribe, onError]);
 
+  // Fetch the dependency graph separately so a slow graph does not block the details
+  useEffect(() => {
+    taskService.getTaskDependencies(taskId)
+      .then(graph => {
+        if (isMounted.current) {
+          setDependencyGraph(graph);
+        }
+      })
+      .catch(err => onError(err as Error));
+  }, [taskId, task?.status, onError]);
+
+  // Blocking tasks that are not yet finished
+  const openBlockers = dependencyGraph
+    ? dependencyGraph.edges
+        .filter(edge => edge.type === TaskDependencyType.BLOCKS && edge.targetTaskId === taskId)
+        .map(edge => dependencyGraph.nodes.find(node => node.id === edge.sourceTaskId))
+        .filter(node => node && !node.isDone)
+    : [];
+
   /**
    * Handles task status updates with optimistic UI
    */
@@ -160,6 +193,61 @@ const TaskDetail: React.FC<TaskDetailProps> = React.memo(({ taskId, onClose, onE
     }
   }, [task, updateTask, onError]);
 
+  /**
+   * Handles checking off checklist items with optimistic UI
+   */
+  const handleChecklistToggle = useCallback(async (itemId: string, isCompleted: boolean) => {
+    if (!task) return;
+
+    const originalTask = { ...task };
+    const withItem = (prevTask: ITask | null) => prevTask ? {
+      ...prevTask,
+      checklist: prevTask.checklist?.map(item =>
+        item.id === itemId ? { ...item, isCompleted } : item
+      )
+    } : null;
+
+    try {
+      // Optimistic update
+      setTask(withItem);
+      await taskService.updateChecklistItem(task.id, itemId, { isCompleted });
+    } catch (err) {
+      // Revert optimistic update on error
+      if (isMounted.current) {
+        setTask(originalTask);
+        setError('Failed to update checklist');
+        onError(err as Error);
+      }
+    }
+  }, [task, onError]);
+
+  /**
+   * Adds a checklist item to the end of the checklist
+   */
+  const handleChecklistAdd = useCallback(async () => {
+    const content = newChecklistItem.trim();
+    if (!task || !content) return;
+
+    try {
+      setIsSaving(true);
+      const item = await taskService.addChecklistItem(task.id, content);
+      if (isMounted.current) {
+        setTask(prevTask => prevTask ? {
+          ...prevTask,
+          checklist: [...(prevTask.checklist || []), item]
+        } : null);
+        setNewChecklistItem('');
+      }
+    } catch (err) {
+      setError('Failed to add checklist item');
+      onError(err as Error);
+    } finally {
+      if (isMounted.current) {
+        setIsSaving(false);
+      }
+    }
+  }, [task, newChecklistItem, onError]);
+
   /**
    * Handles task deletion with confirmation
    */
@@ -308,6 +396,98 @@ const TaskDetail: React.FC<TaskDetailProps> = React.memo(({ taskId, onClose, onE
           </Typography>
         </Box>
 
+        {/* Subtasks */}
+        {task.subtasks && task.subtasks.length > 0 && (
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Subtasks {task.progress?.completedSubtasks ?? 0}/{task.subtasks.length}
+            </Typography>
+            {task.progress && (
+              <LinearProgress
+                variant="determinate"
+                value={task.progress.percentage}
+                aria-label={`${task.progress.percentage}% complete`}
+                sx={{ mb: 1 }}
+              />
+            )}
+            <Stack spacing={1}>
+              {task.subtasks.map((subtask) => (
+                <Box
+                  key={subtask.id}
+                  display="flex"
+                  justifyContent="space-between"
+                  alignItems="center"
+                  onClick={() => navigate(`/tasks/${subtask.id}`)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <Typography variant="body2">{subtask.title}</Typography>
+                  <Chip label={subtask.status} size="small" />
+                </Box>
+              ))}
+            </Stack>
+          </Box>
+        )}
+
+        {/* Checklist */}
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>
+            Checklist {task.checklist?.filter(item => item.isCompleted).length ?? 0}/{task.checklist?.length ?? 0}
+          </Typography>
+          <Stack>
+            {task.checklist?.map((item) => (
+              <FormControlLabel
+                key={item.id}
+                control={
+                  <Checkbox
+                    checked={item.isCompleted}
+                    onChange={(e) => handleChecklistToggle(item.id, e.target.checked)}
+                    disabled={isSaving}
+                  />
+                }
+                label={item.content}
+              />
+            ))}
+          </Stack>
+          <Stack direction="row" spacing={1} mt={1}>
+            <TextField
+              size="small"
+              placeholder="Add an item"
+              value={newChecklistItem}
+              onChange={(e) => setNewChecklistItem(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleChecklistAdd()}
+              inputProps={{ maxLength: 255, 'aria-label': 'New checklist item' }}
+              disabled={isSaving}
+            />
+            <Button
+              variant="outlined"
+              onClick={handleChecklistAdd}
+              disabled={isSaving || !newChecklistItem.trim()}
+            >
+              Add
+            </Button>
+          </Stack>
+        </Box>
+
+        {/* Dependencies */}
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>
+            Dependencies
+          </Typography>
+          {openBlockers.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Blocked by {openBlockers.length} open {openBlockers.length === 1 ? 'task' : 'tasks'}
+            </Alert>
+          )}
+          {dependencyGraph ? (
+            <TaskDependencyGraph
+              graph={dependencyGraph}
+              onTaskClick={(id) => id !== taskId && navigate(`/tasks/${id}`)}
+            />
+          ) : (
+            <CircularProgress size={24} />
+          )}
+        </Box>
+
         {/* Loading Overlay */}
         {isSaving && (
           <Box
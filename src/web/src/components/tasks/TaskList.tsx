@@ -5,6 +5,7 @@ import { useVirtualizer } from '@tanstack/react-virtual'; // ^3.0.0
 import TaskCard from './TaskCard';
 import { ITask, TaskStatus, TaskPriority, TaskFilter } from '../../interfaces/task.interface';
 import { TaskService } from '../../services/task.service';
+import useTaskThumbnails from '../../hooks/useTaskThumbnails';
 
 /**
  * Props interface for TaskList component with enhanced accessibility and filtering
@@ -48,6 +49,7 @@ const TaskList: React.FC<TaskListProps> = React.memo(({
   // Hooks
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const thumbnails = useTaskThumbnails(tasks);
 
   // Virtual list configuration
   const rowVirtualizer = useVirtualizer({
@@ -103,8 +105,10 @@ const TaskList: React.FC<TaskListProps> = React.memo(({
    * Sets up real-time task updates subscription
    */
   useEffect(() => {
+    if (!projectId) return;
+
     const taskService = new TaskService();
-    const subscription = taskService.getTaskUpdates().subscribe(updatedTask => {
+    const subscription = taskService.getTaskUpdates(projectId).subscribe(updatedTask => {
       setTasks(currentTasks => {
         const taskIndex = currentTasks.findIndex(t => t.id === updatedTask.id);
         if (taskIndex === -1) return currentTasks;
@@ -118,7 +122,7 @@ const TaskList: React.FC<TaskListProps> = React.memo(({
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [projectId]);
 
   // Fetch tasks on filter change
   useEffect(() => {
@@ -205,6 +209,7 @@ const TaskList: React.FC<TaskListProps> = React.memo(({
             >
               <TaskCard
                 task={task}
+                thumbnail={thumbnails[task.id]}
                 onClick={(event) => handleTaskClick(task, event)}
                 showAssignees={!isMobile}
                 maxAssignees={3}
@@ -1,6 +1,7 @@
 /**
  * @fileoverview Team Members management component with virtualized list support
- * Implements Material Design 3.0 components and real-time WebSocket updates
+ * Implements Material Design 3.0 components and real-time WebSocket updates,
+ * and lists pending invitations with resend and revoke actions
  * @version 1.0.0
  */
 
@@ -16,6 +17,7 @@ import {
   CircularProgress,
   Alert,
   Paper,
+  Chip,
   useTheme,
   useMediaQuery
 } from '@mui/material';
@@ -23,13 +25,15 @@ import {
   PersonAdd as PersonAddIcon,
   MoreVert as MoreVertIcon,
   Edit as EditIcon,
-  Delete as DeleteIcon
+  Delete as DeleteIcon,
+  Send as SendIcon,
+  Cancel as CancelIcon
 } from '@mui/icons-material';
 
 import Avatar from '../common/Avatar';
 import { useWebSocket } from '../../hooks/useWebSocket';
-import { API_ENDPOINTS } from '../../constants/api.constants';
 import { Size } from '../../types/common.types';
+import { ITeamInvitation } from '../../interfaces/team.interface';
 
 /**
  * Team member interface with role-based access control
@@ -69,10 +73,13 @@ interface VirtualListOptions {
 interface TeamMembersProps {
   teamId: string;
   members: ITeamMember[];
+  invitations?: ITeamInvitation[];
   virtualizedOptions?: VirtualListOptions;
   onMemberAdd?: (userId: string, role: TeamRole) => Promise<void>;
   onMemberRemove?: (userId: string) => Promise<void>;
   onRoleChange?: (userId: string, newRole: TeamRole) => Promise<void>;
+  onInvitationResend?: (invitationId: string) => Promise<ITeamInvitation>;
+  onInvitationRevoke?: (invitationId: string) => Promise<void>;
   onError?: (error: Error) => void;
 }
 
@@ -82,16 +89,20 @@ interface TeamMembersProps {
 const TeamMembers: React.FC<TeamMembersProps> = ({
   teamId,
   members,
+  invitations = [],
   virtualizedOptions = { itemHeight: 72, overscanCount: 5 },
   onMemberAdd,
   onMemberRemove,
   onRoleChange,
+  onInvitationResend,
+  onInvitationRevoke,
   onError
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   
   const [localMembers, setLocalMembers] = useState<ITeamMember[]>(members);
+  const [localInvitations, setLocalInvitations] = useState<ITeamInvitation[]>(invitations);
   const [selectedMember, setSelectedMember] = useState<ITeamMember | null>(null);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [loading, setLoading] = useState<boolean>(false);
@@ -101,7 +112,7 @@ const TeamMembers: React.FC<TeamMembersProps> = ({
   const listHeight = useMemo(() => Math.min(window.innerHeight * 0.7, 600), []);
 
   // WebSocket connection for real-time updates
-  const { subscribe } = useWebSocket(API_ENDPOINTS.TEAMS.BASE);
+  const { subscribe } = useWebSocket({ teamId });
 
   /**
    * Handles member menu opening
@@ -164,6 +175,46 @@ const TeamMembers: React.FC<TeamMembersProps> = ({
     }
   }, [selectedMember, onMemberRemove, onError]);
 
+  /**
+   * Handles resending an invitation with a fresh link and expiry
+   */
+  const handleInvitationResend = useCallback(async (invitation: ITeamInvitation) => {
+    if (!onInvitationResend) return;
+
+    setLoading(true);
+    try {
+      const renewed = await onInvitationResend(invitation.id);
+      setLocalInvitations(prev =>
+        prev.map(item => item.id === renewed.id ? renewed : item)
+      );
+    } catch (err) {
+      const error = err as Error;
+      setError(error.message);
+      onError?.(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [onInvitationResend, onError]);
+
+  /**
+   * Handles revoking a pending invitation
+   */
+  const handleInvitationRevoke = useCallback(async (invitation: ITeamInvitation) => {
+    if (!onInvitationRevoke) return;
+
+    setLoading(true);
+    try {
+      await onInvitationRevoke(invitation.id);
+      setLocalInvitations(prev => prev.filter(item => item.id !== invitation.id));
+    } catch (err) {
+      const error = err as Error;
+      setError(error.message);
+      onError?.(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [onInvitationRevoke, onError]);
+
   /**
    * Renders individual team member row
    */
@@ -210,6 +261,11 @@ const TeamMembers: React.FC<TeamMembersProps> = ({
     );
   }, [localMembers, theme, handleMenuOpen]);
 
+  // Keep invitations in sync when the parent reloads them
+  useEffect(() => {
+    setLocalInvitations(invitations);
+  }, [invitations]);
+
   // Subscribe to real-time member updates
   useEffect(() => {
     const unsubscribe = subscribe<ITeamMember>('team.member.update', (updatedMember) => {
@@ -268,6 +324,62 @@ const TeamMembers: React.FC<TeamMembersProps> = ({
         </VirtualList>
       </Box>
 
+      {localInvitations.length > 0 && (
+        <Box
+          sx={{ borderTop: `1px solid ${theme.palette.divider}` }}
+          role="list"
+          aria-label="Pending invitations"
+        >
+          <Typography variant="subtitle2" sx={{ px: 2, pt: 2 }}>
+            Pending invitations
+          </Typography>
+          {localInvitations.map((invitation) => {
+            const expired = new Date(invitation.expiresAt).getTime() <= Date.now();
+
+            return (
+              <Box
+                key={invitation.id}
+                sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1 }}
+                role="listitem"
+                aria-label={`Invitation for ${invitation.inviteeEmail}`}
+              >
+                <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                  <Typography variant="body1" noWrap>{invitation.inviteeEmail}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {invitation.role.toLowerCase()}
+                    {!isMobile && ` · ${expired ? 'expired' : 'expires'} ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                  </Typography>
+                </Box>
+                {expired && <Chip label="Expired" size="small" color="warning" sx={{ mr: 1 }} />}
+                <Tooltip title="Resend invitation">
+                  <span>
+                    <IconButton
+                      onClick={() => handleInvitationResend(invitation)}
+                      disabled={loading || !onInvitationResend}
+                      aria-label={`Resend invitation to ${invitation.inviteeEmail}`}
+                    >
+                      <SendIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Revoke invitation">
+                  <span>
+                    <IconButton
+                      onClick={() => handleInvitationRevoke(invitation)}
+                      disabled={loading || !onInvitationRevoke}
+                      aria-label={`Revoke invitation to ${invitation.inviteeEmail}`}
+                      sx={{ color: theme.palette.error.main }}
+                    >
+                      <CancelIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
       <Menu
         anchorEl={anchorEl}
         open={Boolean(anchorEl)}
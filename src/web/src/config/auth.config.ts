@@ -88,12 +88,12 @@ export const authConfig = {
       google: {
         clientId: process.env.VITE_GOOGLE_CLIENT_ID,
         redirectUri: process.env.VITE_GOOGLE_REDIRECT_URI,
-        scopes: ['email', 'profile']
+        scopes: ['openid', 'email', 'profile']
       },
       microsoft: {
         clientId: process.env.VITE_MS_CLIENT_ID,
         redirectUri: process.env.VITE_MS_REDIRECT_URI,
-        scopes: ['user.read', 'email']
+        scopes: ['openid', 'email', 'profile']
       }
     },
     defaultProvider: 'google',
@@ -24,6 +24,7 @@ interface TaskEndpoints {
   UPDATE: string;
   DELETE: string;
   ASSIGN: string;
+  SEARCH: string;
 }
 
 interface ProjectEndpoints {
@@ -34,6 +35,8 @@ interface ProjectEndpoints {
   UPDATE: string;
   DELETE: string;
   MEMBERS: string;
+  WEBHOOKS: string;
+  WEBHOOK: string;
 }
 
 interface TeamEndpoints {
@@ -51,6 +54,15 @@ interface FileEndpoints {
   UPLOAD: string;
   DOWNLOAD: string;
   DELETE: string;
+  UPLOAD_SESSIONS: string;
+  UPLOAD_SESSION: string;
+  UPLOAD_CHUNK: string;
+  UPLOAD_COMPLETE: string;
+  URL: string;
+  VERSIONS: string;
+  VERSION_URL: string;
+  VERSION_RESTORE: string;
+  PREVIEWS: string;
 }
 
 export interface ApiEndpoints {
@@ -76,7 +88,8 @@ export const API_ENDPOINTS: Readonly<ApiEndpoints> = Object.freeze({
     CREATE: `${API_BASE_URL}/tasks`,
     UPDATE: `${API_BASE_URL}/tasks/:id`,
     DELETE: `${API_BASE_URL}/tasks/:id`,
-    ASSIGN: `${API_BASE_URL}/tasks/:id/assign`
+    ASSIGN: `${API_BASE_URL}/tasks/:id/assign`,
+    SEARCH: `${API_BASE_URL}/tasks/search`
   }),
   PROJECTS: Object.freeze({
     BASE: `${API_BASE_URL}/projects`,
@@ -85,7 +98,9 @@ export const API_ENDPOINTS: Readonly<ApiEndpoints> = Object.freeze({
     CREATE: `${API_BASE_URL}/projects`,
     UPDATE: `${API_BASE_URL}/projects/:id`,
     DELETE: `${API_BASE_URL}/projects/:id`,
-    MEMBERS: `${API_BASE_URL}/projects/:id/members`
+    MEMBERS: `${API_BASE_URL}/projects/:id/members`,
+    WEBHOOKS: `${API_BASE_URL}/projects/:id/webhooks`,
+    WEBHOOK: `${API_BASE_URL}/projects/:id/webhooks/:webhookId`
   }),
   TEAMS: Object.freeze({
     BASE: `${API_BASE_URL}/teams`,
@@ -100,7 +115,16 @@ export const API_ENDPOINTS: Readonly<ApiEndpoints> = Object.freeze({
     BASE: `${API_BASE_URL}/files`,
     UPLOAD: `${API_BASE_URL}/files/upload`,
     DOWNLOAD: `${API_BASE_URL}/files/:id/download`,
-    DELETE: `${API_BASE_URL}/files/:id`
+    DELETE: `${API_BASE_URL}/files/:id`,
+    UPLOAD_SESSIONS: `${API_BASE_URL}/files/uploads`,
+    UPLOAD_SESSION: `${API_BASE_URL}/files/uploads/:sessionId`,
+    UPLOAD_CHUNK: `${API_BASE_URL}/files/uploads/:sessionId/chunks/:index`,
+    UPLOAD_COMPLETE: `${API_BASE_URL}/files/uploads/:sessionId/complete`,
+    URL: `${API_BASE_URL}/files/:id/url`,
+    VERSIONS: `${API_BASE_URL}/files/:id/versions`,
+    VERSION_URL: `${API_BASE_URL}/files/:id/versions/:version/url`,
+    VERSION_RESTORE: `${API_BASE_URL}/files/:id/versions/:version/restore`,
+    PREVIEWS: `${API_BASE_URL}/files/previews`
   })
 });
 
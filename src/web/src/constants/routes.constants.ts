@@ -21,9 +21,11 @@ export const ROUTES = {
     LOGIN: '/auth/login',
     REGISTER: '/auth/register',
     RESET_PASSWORD: '/auth/reset-password',
+    ACCEPT_INVITATION: '/auth/accept-invitation',
     VERIFY_EMAIL: '/auth/verify-email',
     LOGOUT: '/auth/logout',
     TWO_FACTOR: '/auth/2fa',
+    OAUTH_CALLBACK: '/auth/callback/:provider',
   },
 
   DASHBOARD: {
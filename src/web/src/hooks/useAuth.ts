@@ -15,7 +15,11 @@ import {
   ILoginCredentials,
   IAuthUser,
   IAuthResponse,
-  MFAMethod
+  IMFAStatus,
+  IMFAEnrollment,
+  ISessionInfo,
+  MFAMethod,
+  OAuthProvider
 } from '../interfaces/auth.interface';
 
 // Security configuration for authentication rate limiting
@@ -134,6 +138,199 @@ export function useAuth() {
     }
   }, [apm, authService, dispatch]);
 
+  /**
+   * Password reset email request with monitoring
+   */
+  const requestPasswordReset = useCallback(async (email: string): Promise<void> => {
+    const transaction = apm.startTransaction('request_password_reset', 'auth');
+
+    try {
+      await authService.requestPasswordReset(email);
+      transaction?.setOutcome('success');
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Password reset with monitoring; the server signs out every session
+   */
+  const resetPassword = useCallback(async (token: string, newPassword: string): Promise<void> => {
+    const transaction = apm.startTransaction('reset_password', 'auth');
+
+    try {
+      await authService.resetPassword(token, newPassword);
+      dispatch({ type: 'AUTH_LOGOUT' });
+      transaction?.setOutcome('success');
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService, dispatch]);
+
+  /**
+   * Two-factor authentication status lookup
+   */
+  const getMfaStatus = useCallback(async (): Promise<IMFAStatus> => {
+    return authService.getMfaStatus();
+  }, [authService]);
+
+  /**
+   * TOTP enrollment start with monitoring
+   */
+  const startMfaEnrollment = useCallback(async (): Promise<IMFAEnrollment> => {
+    const transaction = apm.startTransaction('start_mfa_enrollment', 'auth');
+
+    try {
+      const enrollment = await authService.startMfaEnrollment();
+      transaction?.setOutcome('success');
+      return enrollment;
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * TOTP enrollment confirmation with monitoring; returns the backup codes
+   */
+  const confirmMfaEnrollment = useCallback(async (code: string): Promise<string[]> => {
+    const transaction = apm.startTransaction('confirm_mfa_enrollment', 'auth');
+
+    try {
+      const backupCodes = await authService.confirmMfaEnrollment(code);
+      transaction?.setOutcome('success');
+      return backupCodes;
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Backup code regeneration with monitoring
+   */
+  const regenerateBackupCodes = useCallback(async (password: string): Promise<string[]> => {
+    const transaction = apm.startTransaction('regenerate_backup_codes', 'auth');
+
+    try {
+      const backupCodes = await authService.regenerateBackupCodes(password);
+      transaction?.setOutcome('success');
+      return backupCodes;
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * MFA disable with monitoring
+   */
+  const disableMfa = useCallback(async (password: string, code: string): Promise<void> => {
+    const transaction = apm.startTransaction('disable_mfa', 'auth');
+
+    try {
+      await authService.disableMfa(password, code);
+      transaction?.setOutcome('success');
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Signed-in session listing
+   */
+  const getSessions = useCallback(async (): Promise<ISessionInfo[]> => {
+    return authService.getSessions();
+  }, [authService]);
+
+  /**
+   * Identity provider sign-in; leaves the app for the provider's sign-in page
+   */
+  const startOAuthLogin = useCallback(async (provider: OAuthProvider): Promise<void> => {
+    const transaction = apm.startTransaction('oauth_login_start', 'auth');
+
+    try {
+      const { authorizationUrl, state } = await authService.getOAuthAuthorization(provider);
+      // Checked against the state the provider redirects back with
+      sessionStorage.setItem('oauth_state', state);
+      transaction?.setOutcome('success');
+      window.location.assign(authorizationUrl);
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Organisation single sign-on; leaves the app for the SAML identity provider
+   */
+  const startSamlLogin = useCallback(async (organization: string): Promise<void> => {
+    const transaction = apm.startTransaction('saml_login_start', 'auth');
+
+    try {
+      const { redirectUrl } = await authService.getSamlLoginRequest(organization);
+      transaction?.setOutcome('success');
+      window.location.assign(redirectUrl);
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Single session sign-out with monitoring
+   */
+  const revokeSession = useCallback(async (sessionId: string): Promise<void> => {
+    const transaction = apm.startTransaction('revoke_session', 'auth');
+
+    try {
+      await authService.revokeSession(sessionId);
+      transaction?.setOutcome('success');
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
+  /**
+   * Sign-out of every other session with monitoring
+   */
+  const revokeOtherSessions = useCallback(async (): Promise<number> => {
+    const transaction = apm.startTransaction('revoke_other_sessions', 'auth');
+
+    try {
+      const revoked = await authService.revokeOtherSessions();
+      transaction?.setOutcome('success');
+      return revoked;
+    } catch (error) {
+      transaction?.setOutcome('failure');
+      throw error;
+    } finally {
+      transaction?.end();
+    }
+  }, [apm, authService]);
+
   /**
    * Session validation with monitoring
    */
@@ -188,9 +385,21 @@ export function useAuth() {
     error: authState.error,
     securityStatus,
     login,
+    startOAuthLogin,
+    startSamlLogin,
     logout,
     verifyMfa,
     validateSession,
-    rotateToken
+    rotateToken,
+    requestPasswordReset,
+    resetPassword,
+    getMfaStatus,
+    startMfaEnrollment,
+    confirmMfaEnrollment,
+    regenerateBackupCodes,
+    disableMfa,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions
   };
 }
\ No newline at end of file
@@ -39,6 +39,8 @@ interface UseNotificationReturn {
   hasUnread: boolean;
   connectionStatus: WebSocketStatus;
   groupedNotifications: GroupedNotifications;
+  enablePush: () => Promise<boolean>;
+  disablePush: () => Promise<void>;
 }
 
 /**
@@ -166,6 +168,19 @@ export function useNotification(): UseNotificationReturn {
     };
   }, [online, handleNewNotification, processOfflineQueue, notificationService]);
 
+  /**
+   * Registers or removes this browser's push subscription
+   */
+  const enablePush = useCallback(
+    () => notificationService.enablePushNotifications(),
+    [notificationService]
+  );
+
+  const disablePush = useCallback(
+    () => notificationService.disablePushNotifications(),
+    [notificationService]
+  );
+
   // Calculate unread notifications
   const hasUnread = notifications.some(notification => !notification.autoHide);
 
@@ -180,7 +195,9 @@ export function useNotification(): UseNotificationReturn {
     markAsRead,
     hasUnread,
     connectionStatus,
-    groupedNotifications
+    groupedNotifications,
+    enablePush,
+    disablePush
   };
 }
 
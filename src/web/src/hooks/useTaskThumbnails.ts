@@ -0,0 +1,65 @@
+import { useState, useEffect, useMemo } from 'react'; // react@^18.0.0
+import { ITask } from '../interfaces/task.interface';
+import { FilePreviewKind, IFilePreviewLink } from '../interfaces/file.interface';
+import { fileService } from '../services/file.service';
+
+/**
+ * Loads a thumbnail for each task, taken from its first attachment that has one.
+ * Thumbnails for every task are fetched together, so a board or list makes a
+ * single lookup instead of one per card.
+ *
+ * @param {ITask[]} tasks - Tasks being displayed
+ * @returns {Record<string, IFilePreviewLink>} Thumbnails keyed by task id
+ *
+ * @example
+ * const thumbnails = useTaskThumbnails(tasks);
+ * <TaskCard task={task} thumbnail={thumbnails[task.id]} />
+ */
+const useTaskThumbnails = (tasks: ITask[]): Record<string, IFilePreviewLink> => {
+  const [previews, setPreviews] = useState<Map<string, IFilePreviewLink>>(new Map());
+
+  // Only refetch when the set of attachments changes, not on every task update
+  const attachmentKey = useMemo(() => {
+    const ids = new Set(tasks.flatMap(task => task.attachmentIds || []));
+    return Array.from(ids).sort().join(',');
+  }, [tasks]);
+
+  useEffect(() => {
+    if (!attachmentKey) {
+      setPreviews(new Map());
+      return;
+    }
+
+    let cancelled = false;
+
+    fileService.getPreviews(attachmentKey.split(','), FilePreviewKind.THUMBNAIL)
+      .then(links => {
+        if (!cancelled) {
+          setPreviews(new Map(links.map(link => [link.fileId, link])));
+        }
+      })
+      .catch(error => {
+        // Cards simply render without thumbnails
+        console.error('Error fetching task thumbnails:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachmentKey]);
+
+  return useMemo(() => {
+    const thumbnails: Record<string, IFilePreviewLink> = {};
+
+    tasks.forEach(task => {
+      const attachmentId = (task.attachmentIds || []).find(id => previews.has(id));
+      if (attachmentId) {
+        thumbnails[task.id] = previews.get(attachmentId)!;
+      }
+    });
+
+    return thumbnails;
+  }, [tasks, previews]);
+};
+
+export default useTaskThumbnails;
\ No newline at end of file
@@ -24,7 +24,8 @@ export enum UserRole {
  */
 export enum MFAMethod {
   TOTP = 'TOTP', // Time-based One-Time Password
-  SMS = 'SMS'    // SMS-based verification
+  SMS = 'SMS',   // SMS-based verification
+  BACKUP_CODE = 'BACKUP_CODE' // Single-use recovery code
 }
 
 /**
@@ -76,4 +77,62 @@ export interface IMFACredentials {
   userId: string;
   code: string;
   method: MFAMethod;
+}
+
+/**
+ * Enum defining identity providers available for social sign-in
+ */
+export enum OAuthProvider {
+  GOOGLE = 'google',
+  MICROSOFT = 'microsoft'
+}
+
+/**
+ * Interface for a pending identity provider sign-in
+ */
+export interface IOAuthAuthorization {
+  authorizationUrl: string;
+  state: string;
+  expiresAt: string;
+}
+
+/**
+ * Interface for a pending SAML single sign-on request
+ */
+export interface ISamlLoginRequest {
+  redirectUrl: string;
+  expiresAt: string;
+}
+
+/**
+ * Interface for a signed-in session listed in security settings
+ */
+export interface ISessionInfo {
+  id: string;
+  deviceId: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+/**
+ * Interface for the current user's two-factor authentication settings
+ */
+export interface IMFAStatus {
+  enabled: boolean;
+  methods: MFAMethod[];
+  backupCodesRemaining: number;
+}
+
+/**
+ * Interface for a pending TOTP enrollment
+ * qrCode is a data URL encoding otpauthUrl
+ */
+export interface IMFAEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+  expiresAt: string;
 }
\ No newline at end of file
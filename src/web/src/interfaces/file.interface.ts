@@ -0,0 +1,106 @@
+/**
+ * @fileoverview File attachment interfaces for the Task Management System
+ * Provides type definitions for stored files and resumable uploads
+ * @version 1.0.0
+ */
+
+import { ID, Timestamp } from '../types/common.types';
+
+/**
+ * Lifecycle of a resumable upload session
+ */
+export enum UploadSessionStatus {
+    ACTIVE = 'ACTIVE',
+    COMPLETING = 'COMPLETING',
+    COMPLETED = 'COMPLETED',
+    ABORTED = 'ABORTED'
+}
+
+/**
+ * Rendered image variants of a file
+ */
+export enum FilePreviewKind {
+    THUMBNAIL = 'THUMBNAIL',
+    PREVIEW = 'PREVIEW'
+}
+
+/**
+ * Stored file metadata; url is a short-lived signed download link
+ */
+export interface IFile {
+    id: ID;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    uploadedBy: ID | null;
+    projectId: ID | null;
+    taskId: ID | null;
+    currentVersion: number;
+    checksum: string | null;
+    url?: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+/**
+ * One revision of a file; restores are recorded as new versions
+ */
+export interface IFileVersion {
+    id: ID;
+    fileId: ID;
+    version: number;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    checksum: string | null;
+    uploadedBy: ID | null;
+    restoredFrom: number | null;  // Version this one restored
+    createdAt: Timestamp;
+}
+
+/**
+ * Short-lived download link
+ */
+export interface ISignedFileUrl {
+    url: string;
+    expiresAt: Timestamp;
+}
+
+/**
+ * Short-lived link to a file's thumbnail or preview image
+ */
+export interface IFilePreviewLink {
+    fileId: ID;
+    kind: FilePreviewKind;
+    url: string;
+    width: number;
+    height: number;
+    expiresAt: Timestamp;
+}
+
+/**
+ * Resumable upload of a large file sent as fixed-size chunks
+ */
+export interface IUploadSession {
+    id: ID;
+    projectId: ID;
+    taskId: ID | null;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    chunkSize: number;
+    totalChunks: number;
+    receivedChunks: number[];
+    missingChunks: number[];      // Chunks the client still has to send
+    status: UploadSessionStatus;
+    fileId: ID | null;
+    expiresAt: Timestamp;
+}
+
+/**
+ * Progress of a chunked upload, reported after every stored chunk
+ */
+export interface IUploadProgress {
+    uploadedChunks: number;
+    totalChunks: number;
+}
\ No newline at end of file
@@ -5,7 +5,7 @@
  */
 
 import { BaseEntity } from './common.interface';
-import { Priority } from '../types/common.types';
+import { Priority, Timestamp } from '../types/common.types';
 
 /**
  * Security level enum for project access control
@@ -39,6 +39,59 @@ export enum AccessLevel {
     ADMIN = 'ADMIN'
 }
 
+/**
+ * Workflow status category enum
+ * Groups custom statuses into the lifecycle stages used for reporting
+ */
+export enum WorkflowStatusCategory {
+    TODO = 'TODO',
+    IN_PROGRESS = 'IN_PROGRESS',
+    DONE = 'DONE'
+}
+
+/**
+ * Workflow transition guard enum
+ * Restricts who may move a task along a transition
+ */
+export enum WorkflowGuard {
+    ASSIGNEE_ONLY = 'ASSIGNEE_ONLY',
+    CREATOR_ONLY = 'CREATOR_ONLY',
+    MANAGER_ONLY = 'MANAGER_ONLY',
+    REQUIRES_ASSIGNEE = 'REQUIRES_ASSIGNEE'
+}
+
+/**
+ * Workflow status interface
+ * Defines a single column of the project task board
+ */
+export interface IWorkflowStatus {
+    key: string;
+    name: string;
+    category: WorkflowStatusCategory;
+    color?: string;
+    order: number;
+}
+
+/**
+ * Workflow transition interface
+ * Defines an allowed move between two statuses
+ */
+export interface IWorkflowTransition {
+    from: string;
+    to: string;
+    guards?: WorkflowGuard[];
+}
+
+/**
+ * Project workflow interface
+ * Describes the statuses and transitions tasks follow within a project
+ */
+export interface IProjectWorkflow {
+    initialStatus: string;
+    statuses: IWorkflowStatus[];
+    transitions: IWorkflowTransition[];
+}
+
 /**
  * Core project interface extending BaseEntity
  * Implements comprehensive project data structure with type safety
@@ -51,6 +104,7 @@ export interface IProject extends BaseEntity {
     startDate: Timestamp;
     endDate: Timestamp;
     progress: number;
+    settings?: IProjectSettings;
 }
 
 /**
@@ -65,6 +119,7 @@ export interface IProjectSettings {
     auditLoggingEnabled: boolean;
     maxTeamSize: number;
     securityLevel: SecurityLevel;
+    workflow: IProjectWorkflow;
 }
 
 /**
@@ -93,6 +148,55 @@ export interface IProjectStats {
     lastActivityAt: Timestamp;
 }
 
+/**
+ * Project and task events a webhook can subscribe to
+ */
+export enum WebhookEventType {
+    TASK_CREATED = 'task.created',
+    TASK_UPDATED = 'task.updated',
+    TASK_STATUS_CHANGED = 'task.status_changed',
+    TASK_DEPENDENCY_ADDED = 'task.dependency_added',
+    TASK_DEPENDENCY_REMOVED = 'task.dependency_removed',
+    PROJECT_UPDATED = 'project.updated',
+    PROJECT_STATUS_CHANGED = 'project.status_changed',
+    PROJECT_SETTINGS_UPDATED = 'project.settings_updated'
+}
+
+/**
+ * Outbound webhook subscription of a project
+ * The signing secret is only present in the response to its creation
+ */
+export interface IProjectWebhook {
+    id: string;
+    projectId: string;
+    url: string;
+    events: WebhookEventType[];
+    description: string | null;
+    isActive: boolean;
+    createdBy: string;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+    secret?: string;
+}
+
+/**
+ * Delivery log entry for a webhook
+ */
+export interface IWebhookDelivery {
+    id: string;
+    subscriptionId: string;
+    eventId: string;
+    eventType: string;
+    status: 'PENDING' | 'RETRYING' | 'SUCCEEDED' | 'FAILED';
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    durationMs: number | null;
+    nextAttemptAt: Timestamp | null;
+    deliveredAt: Timestamp | null;
+    createdAt: Timestamp;
+}
+
 /**
  * Project audit log interface for compliance
  * Records project-related activities for auditing
@@ -0,0 +1,46 @@
+/**
+ * Realtime Interfaces
+ * Messages exchanged with the realtime service over Socket.IO
+ * @version 1.0.0
+ */
+
+/**
+ * Event names pushed by the realtime service
+ */
+export type RealtimeEventType =
+  | 'task.create'
+  | 'task.update'
+  | 'comment.create'
+  | 'comment.update'
+  | 'comment.delete'
+  | 'project.update'
+  | 'team.update'
+  | 'notification';
+
+/**
+ * Room to subscribe to; exactly one id is set
+ */
+export type RealtimeRoom =
+  | { projectId: string }
+  | { taskId: string }
+  | { teamId: string };
+
+/**
+ * Sent alongside every event payload
+ */
+export interface IRealtimeEventMeta {
+  id: string;
+  room: string;
+}
+
+/**
+ * Acknowledgement of a subscribe message. truncated means more events were
+ * missed than the server replays, so the data should be refetched.
+ */
+export interface IRealtimeSubscriptionAck {
+  ok: boolean;
+  room?: string;
+  replayed?: number;
+  truncated?: boolean;
+  error?: string;
+}
\ No newline at end of file
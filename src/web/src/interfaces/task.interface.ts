@@ -19,8 +19,8 @@ export enum TaskPriority {
 }
 
 /**
- * Task workflow states with strict value typing
- * Represents the different stages in a task's lifecycle
+ * Statuses of the default project workflow
+ * Projects may define additional status keys in their workflow settings
  */
 export enum TaskStatus {
     TODO = 'TODO',
@@ -45,18 +45,29 @@ export enum TaskActivityType {
     ATTACHMENT_REMOVED = 'ATTACHMENT_REMOVED',
     DUE_DATE_CHANGED = 'DUE_DATE_CHANGED',
     TAG_ADDED = 'TAG_ADDED',
-    TAG_REMOVED = 'TAG_REMOVED'
+    TAG_REMOVED = 'TAG_REMOVED',
+    DEPENDENCY_ADDED = 'DEPENDENCY_ADDED',
+    DEPENDENCY_REMOVED = 'DEPENDENCY_REMOVED'
 }
 
 /**
- * Type for tracking changes in task properties
+ * Relationship types between tasks, read as "source <type> target"
+ * Blocked-by is the inverse of BLOCKS
+ */
+export enum TaskDependencyType {
+    BLOCKS = 'BLOCKS',
+    RELATES_TO = 'RELATES_TO',
+    DUPLICATES = 'DUPLICATES'
+}
+
+/**
+ * Type for tracking changes in task properties, keyed by field name
  * Enables detailed activity logging
  */
-export type TaskChanges = {
-    field: string;
+export type TaskChanges = Record<string, {
     oldValue: any;
     newValue: any;
-};
+}>;
 
 /**
  * Core interface for task data with comprehensive property definitions
@@ -66,13 +77,41 @@ export interface ITask extends BaseEntity {
     title: string;                // Task title with max length validation
     description: string;          // Detailed task description
     projectId: ID;               // Reference to parent project
-    status: TaskStatus;          // Current workflow state
+    status: TaskStatus | string; // Key of a status in the project workflow
     priority: TaskPriority;      // Task priority level
     assigneeIds: ID[];          // List of assigned user IDs
     creatorId: ID;              // Reference to task creator
     dueDate: Timestamp;         // Task deadline
     attachmentIds: ID[];        // List of attached file IDs
     tags: string[];             // List of task labels/tags
+    parentTaskId?: ID | null;   // Parent task when this task is a subtask
+    subtasks?: ITask[];         // Child tasks, present on task trees and details
+    checklist?: ITaskChecklistItem[]; // Checklist items in display order
+    progress?: ITaskProgress;   // Completion rolled up from subtasks and checklist
+}
+
+/**
+ * Interface for lightweight checklist entries on a task
+ */
+export interface ITaskChecklistItem {
+    id: ID;
+    taskId: ID;                 // Reference to parent task
+    content: string;            // Item text
+    isCompleted: boolean;       // Whether the item is checked off
+    position: number;           // Display order within the checklist
+    completedBy: ID | null;     // User who checked the item off
+    completedAt: Timestamp | null;
+}
+
+/**
+ * Interface for completion counts rolled up from subtasks and checklist items
+ */
+export interface ITaskProgress {
+    completedSubtasks: number;
+    totalSubtasks: number;
+    completedChecklistItems: number;
+    totalChecklistItems: number;
+    percentage: number;         // 0-100
 }
 
 /**
@@ -82,7 +121,29 @@ export interface ITask extends BaseEntity {
 export interface ITaskComment extends BaseEntity {
     taskId: ID;                 // Reference to parent task
     userId: ID;                 // Reference to comment author
-    content: string;            // Comment content with validation
+    content: string;            // Markdown, empty once deleted
+    parentId: ID | null;        // Top-level comment this replies to
+    mentionedUserIds: ID[];     // Users notified by @email mentions
+    editedAt: Timestamp | null;
+    deletedAt: Timestamp | null;
+}
+
+/**
+ * Top-level comment with its replies, oldest first
+ */
+export interface ITaskCommentThread extends ITaskComment {
+    replies: ITaskComment[];
+}
+
+/**
+ * Previous text of an edited comment
+ */
+export interface ITaskCommentEdit {
+    id: ID;
+    commentId: ID;
+    content: string;
+    editedBy: ID;
+    createdAt: Timestamp;
 }
 
 /**
@@ -94,9 +155,52 @@ export interface ITaskActivity extends BaseEntity {
     userId: ID;                 // Reference to user who performed the activity
     type: TaskActivityType;     // Type of activity performed
     changes: TaskChanges;       // Detailed change information
+    metadata: Record<string, any>; // e.g. ids added or removed for list fields
     timestamp: Timestamp;       // When the activity occurred
 }
 
+/**
+ * Page of a task's activity history, newest first
+ */
+export interface ITaskActivityPage {
+    activities: ITaskActivity[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Interface for directed links between tasks
+ */
+export interface ITaskDependency {
+    id: ID;
+    sourceTaskId: ID;           // Task the relationship starts from
+    targetTaskId: ID;           // Task the relationship points to
+    type: TaskDependencyType;   // Relationship type
+    createdBy: ID;              // User who created the link
+    createdAt: Timestamp;
+}
+
+/**
+ * Node of a task dependency graph
+ */
+export interface ITaskDependencyNode {
+    id: ID;
+    title: string;
+    status: string;
+    projectId: ID;
+    isDone: boolean;            // Whether the status is in a DONE workflow category
+}
+
+/**
+ * Dependency graph around a task for release planning
+ */
+export interface ITaskDependencyGraph {
+    rootTaskId: ID;
+    nodes: ITaskDependencyNode[];
+    edges: ITaskDependency[];
+}
+
 /**
  * Interface for task creation payload
  * Omits system-generated fields from ITask
@@ -115,7 +219,7 @@ export type UpdateTaskPayload = Partial<Omit<ITask, keyof BaseEntity>> & { id: I
  */
 export interface TaskFilter {
     projectId?: ID;
-    status?: TaskStatus[];
+    status?: string[];
     priority?: TaskPriority[];
     assigneeIds?: ID[];
     creatorId?: ID;
@@ -123,4 +227,33 @@ export interface TaskFilter {
     dueDateTo?: Timestamp;
     tags?: string[];
     searchTerm?: string;
+}
+
+/**
+ * Record types covered by full-text search
+ */
+export type SearchResultType = 'task' | 'project' | 'comment';
+
+/**
+ * Single full-text search hit; snippet is escaped HTML with <mark> highlights
+ */
+export interface ISearchResult {
+    type: SearchResultType;
+    id: ID;
+    title: string;
+    snippet: string;
+    rank: number;
+    projectId: ID;
+    taskId: ID | null;            // Parent task of a comment hit
+    updatedAt: Timestamp;
+}
+
+/**
+ * Paginated full-text search response
+ */
+export interface ISearchResponse {
+    results: ISearchResult[];
+    total: number;
+    limit: number;
+    offset: number;
 }
\ No newline at end of file
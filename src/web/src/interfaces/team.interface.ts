@@ -80,11 +80,34 @@ export interface ITeamInvitation {
     inviterId: string;           // Inviting member's user ID
     inviteeEmail: string;        // Invitee's email address
     role: TeamRole;              // Proposed member role
-    status: 'PENDING' | 'ACCEPTED' | 'REJECTED'; // Invitation status
+    status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'REVOKED'; // Invitation status
     expiresAt: string;           // Invitation expiration timestamp
+    respondedAt: string | null;  // When the invitation was answered or revoked
     createdAt: string;           // Invitation creation timestamp
 }
 
+/**
+ * Interface for the invitation behind an emailed link
+ * Shown to the invitee before they accept or decline
+ */
+export interface ITeamInvitationPreview {
+    teamId: string;              // Target team ID
+    teamName: string;            // Target team display name
+    inviteeEmail: string;        // Address the invitation was sent to
+    role: TeamRole;              // Role granted on acceptance
+    expiresAt: string;           // Invitation expiration timestamp
+    accountExists: boolean;      // Whether the invitee must sign in rather than register
+}
+
+/**
+ * Interface for registration details sent when accepting without an account
+ */
+export interface ITeamInvitationRegistration {
+    firstName: string;
+    lastName: string;
+    password: string;
+}
+
 /**
  * Interface for team audit log entries
  * Tracks important team-related events and changes
@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Team Invitation Page Component
+ * Opened from an emailed team invitation. Signed-in invitees accept with one
+ * click, invitees without an account register as they accept, and either can
+ * decline. WCAG 2.1 Level AA compliant.
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form'; // v7.0.0
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'; // v6.0.0
+
+import { useAuth } from '../../hooks/useAuth';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Card from '../../components/common/Card';
+import { TeamService } from '../../services/team.service';
+import { apiService } from '../../services/api.service';
+import { ITeamInvitationPreview } from '../../interfaces/team.interface';
+import { ROUTES } from '../../constants/routes.constants';
+import { COLORS, SPACING } from '../../constants/theme.constants';
+
+// Interface for registration form data
+interface RegistrationForm {
+  firstName: string;
+  lastName: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*(),.?":{}|<>]).{12,}$/;
+
+const errorStyle: React.CSSProperties = {
+  color: COLORS.light.text.error,
+  fontSize: '14px',
+  marginTop: SPACING.scale[1]
+};
+
+/**
+ * Team Invitation Page Component
+ */
+const AcceptInvitation: React.FC = React.memo(() => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, user } = useAuth();
+  const teamService = useMemo(() => new TeamService(apiService), []);
+  const token = searchParams.get('token');
+
+  const [preview, setPreview] = useState<ITeamInvitationPreview | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [declined, setDeclined] = useState<boolean>(false);
+
+  const {
+    register,
+    handleSubmit,
+    getValues,
+    formState: { errors }
+  } = useForm<RegistrationForm>({
+    mode: 'onChange',
+    defaultValues: { firstName: '', lastName: '', password: '', confirmPassword: '' }
+  });
+
+  // Load the invitation behind the link
+  useEffect(() => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    teamService.previewInvitation(token)
+      .then(setPreview)
+      .catch(() => setPreview(null))
+      .finally(() => setLoading(false));
+  }, [teamService, token]);
+
+  const emailMismatch = Boolean(
+    isAuthenticated && user && preview &&
+    user.email.toLowerCase() !== preview.inviteeEmail.toLowerCase()
+  );
+
+  // Accept as the signed-in user, or register with the form details
+  const accept = useCallback(async (registration?: RegistrationForm) => {
+    if (!token || !preview) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { registered } = await teamService.acceptInvitation(
+        token,
+        registration && {
+          firstName: registration.firstName,
+          lastName: registration.lastName,
+          password: registration.password
+        }
+      );
+
+      if (registered) {
+        navigate(ROUTES.AUTH.LOGIN, {
+          replace: true,
+          state: { message: `Your account is ready and you've joined ${preview.teamName}. Please sign in.` }
+        });
+      } else {
+        navigate(ROUTES.TEAMS.DETAIL.replace(':id', preview.teamId), { replace: true });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not accept the invitation. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [token, preview, teamService, navigate]);
+
+  const decline = useCallback(async () => {
+    if (!token) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await teamService.rejectInvitation(token);
+      setDeclined(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not decline the invitation. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [token, teamService]);
+
+  const signIn = useCallback(() => {
+    navigate(ROUTES.AUTH.LOGIN, {
+      state: { from: `${location.pathname}${location.search}` }
+    });
+  }, [navigate, location]);
+
+  const renderContent = () => {
+    if (loading) {
+      return <p role="status" aria-live="polite">Loading invitation…</p>;
+    }
+
+    if (!preview) {
+      return (
+        <p role="alert" style={{ color: COLORS.light.text.primary }}>
+          This invitation link is invalid, has expired or has already been used.
+          Ask a team admin to send you a new one.
+        </p>
+      );
+    }
+
+    if (declined) {
+      return (
+        <p role="status" aria-live="polite" style={{ color: COLORS.light.text.primary }}>
+          You've declined the invitation to join {preview.teamName}.
+        </p>
+      );
+    }
+
+    const declineButton = (
+      <Button
+        variant="SECONDARY"
+        size="LARGE"
+        onClick={decline}
+        disabled={submitting}
+        fullWidth
+      >
+        Decline
+      </Button>
+    );
+
+    return (
+      <>
+        <p style={{ marginBottom: SPACING.scale[4], color: COLORS.light.text.secondary }}>
+          You've been invited to join <strong>{preview.teamName}</strong> as{' '}
+          {preview.role.toLowerCase()}. The invitation was sent to {preview.inviteeEmail} and expires on{' '}
+          {new Date(preview.expiresAt).toLocaleDateString()}.
+        </p>
+
+        {error && (
+          <div role="alert" aria-live="polite" style={{ ...errorStyle, marginBottom: SPACING.scale[4] }}>
+            {error}
+          </div>
+        )}
+
+        {isAuthenticated ? (
+          <>
+            {emailMismatch && (
+              <p role="alert" style={{ ...errorStyle, marginBottom: SPACING.scale[4] }}>
+                You're signed in as {user?.email}. Sign in as {preview.inviteeEmail} to accept.
+              </p>
+            )}
+            <div style={{ marginBottom: SPACING.scale[2] }}>
+              <Button
+                variant="PRIMARY"
+                size="LARGE"
+                onClick={() => accept()}
+                disabled={submitting || emailMismatch}
+                loading={submitting}
+                fullWidth
+                aria-busy={submitting}
+              >
+                Accept Invitation
+              </Button>
+            </div>
+            {declineButton}
+          </>
+        ) : preview.accountExists ? (
+          <>
+            <div style={{ marginBottom: SPACING.scale[2] }}>
+              <Button variant="PRIMARY" size="LARGE" onClick={signIn} fullWidth>
+                Sign In to Accept
+              </Button>
+            </div>
+            {declineButton}
+          </>
+        ) : (
+          <form
+            onSubmit={handleSubmit((data) => accept(data))}
+            noValidate
+            aria-label="Create an account to join the team"
+          >
+            {([
+              ['firstName', 'First name', 'text'],
+              ['lastName', 'Last name', 'text'],
+              ['password', 'Password', 'password'],
+              ['confirmPassword', 'Confirm password', 'password']
+            ] as const).map(([name, label, type]) => (
+              <div key={name} style={{ marginBottom: SPACING.scale[4] }}>
+                <Input
+                  {...register(name, {
+                    required: `${label} is required`,
+                    ...(name === 'password' && {
+                      pattern: {
+                        value: PASSWORD_PATTERN,
+                        message: 'Use at least 12 characters with uppercase, lowercase, a number and a special character'
+                      }
+                    }),
+                    ...(name === 'confirmPassword' && {
+                      validate: (value: string) => value === getValues('password') || 'Passwords must match'
+                    })
+                  })}
+                  type={type}
+                  name={name}
+                  placeholder={label}
+                  aria-label={label}
+                  aria-invalid={Boolean(errors[name])}
+                  aria-describedby={errors[name] ? `${name}-error` : undefined}
+                  error={errors[name]?.message}
+                />
+                {errors[name] && (
+                  <span id={`${name}-error`} role="alert" style={errorStyle}>
+                    {errors[name]?.message}
+                  </span>
+                )}
+              </div>
+            ))}
+
+            <div style={{ marginBottom: SPACING.scale[2] }}>
+              <Button
+                type="submit"
+                variant="PRIMARY"
+                size="LARGE"
+                disabled={submitting}
+                loading={submitting}
+                fullWidth
+                aria-busy={submitting}
+              >
+                Create Account and Join
+              </Button>
+            </div>
+            {declineButton}
+          </form>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Card
+      role="main"
+      aria-labelledby="accept-invitation-title"
+      style={{
+        maxWidth: '400px',
+        margin: '48px auto',
+        padding: SPACING.scale[6]
+      }}
+    >
+      <h1
+        id="accept-invitation-title"
+        style={{
+          fontSize: '24px',
+          marginBottom: SPACING.scale[4],
+          color: COLORS.light.text.primary
+        }}
+      >
+        Team Invitation
+      </h1>
+
+      {renderContent()}
+    </Card>
+  );
+});
+
+AcceptInvitation.displayName = 'AcceptInvitation';
+
+export default AcceptInvitation;
\ No newline at end of file
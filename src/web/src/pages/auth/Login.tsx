@@ -5,13 +5,16 @@
  * @version 1.0.0
  */
 
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
 import { useNavigate } from 'react-router-dom'; // ^6.0.0
 import { useTheme } from '@mui/material'; // ^5.0.0
 import styled from '@emotion/styled'; // ^11.0.0
 import LoginForm from '../../components/auth/LoginForm';
 import { useAuth } from '../../hooks/useAuth';
 import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import { OAuthProvider } from '../../interfaces/auth.interface';
 import { COLORS, SPACING, TYPOGRAPHY, TRANSITIONS } from '../../constants/theme.constants';
 
 // Constants for security monitoring and accessibility
@@ -69,13 +72,31 @@ const LoginDescription = styled.p`
   margin: 0;
 `;
 
+const SocialSignIn = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${SPACING.scale[3]};
+  margin-top: ${SPACING.scale[6]};
+`;
+
+const SocialSignInError = styled.p`
+  font-family: ${TYPOGRAPHY.fontFamilies.primary};
+  font-size: ${TYPOGRAPHY.fontSizes.sm};
+  color: ${({ theme }) => theme.palette.error.main};
+  margin: 0;
+`;
+
 /**
  * Enhanced login page component with security monitoring and accessibility
  */
 const Login: React.FC = React.memo(() => {
   const navigate = useNavigate();
   const theme = useTheme();
-  const { isAuthenticated, securityStatus } = useAuth();
+  const { isAuthenticated, securityStatus, startOAuthLogin, startSamlLogin } = useAuth();
+  const [pendingProvider, setPendingProvider] = useState<OAuthProvider | 'saml' | null>(null);
+  const [oauthError, setOauthError] = useState<string | null>(null);
+  const [showSso, setShowSso] = useState(false);
+  const [organization, setOrganization] = useState('');
 
   // Redirect authenticated users
   useEffect(() => {
@@ -110,6 +131,31 @@ const Login: React.FC = React.memo(() => {
     }
   }, [handleSecurityEvent]);
 
+  // Leave for the identity provider; the callback page finishes sign-in
+  const handleOAuthLogin = useCallback(async (provider: OAuthProvider) => {
+    setOauthError(null);
+    setPendingProvider(provider);
+    try {
+      await startOAuthLogin(provider);
+    } catch {
+      setPendingProvider(null);
+      setOauthError('Sign-in with this provider is unavailable. Please try again later.');
+    }
+  }, [startOAuthLogin]);
+
+  // Organisation single sign-on goes through the organisation's SAML identity provider
+  const handleSamlLogin = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    setOauthError(null);
+    setPendingProvider('saml');
+    try {
+      await startSamlLogin(organization.trim().toLowerCase());
+    } catch {
+      setPendingProvider(null);
+      setOauthError('Single sign-on is not available for this organisation.');
+    }
+  }, [organization, startSamlLogin]);
+
   return (
     <LoginContainer
       role="main"
@@ -141,6 +187,60 @@ const Login: React.FC = React.memo(() => {
           onRateLimit={handleRateLimit}
           aria-labelledby="login-title"
         />
+
+        <SocialSignIn>
+          <Button
+            variant="SECONDARY"
+            fullWidth
+            disabled={pendingProvider !== null}
+            loading={pendingProvider === OAuthProvider.GOOGLE}
+            onClick={() => handleOAuthLogin(OAuthProvider.GOOGLE)}
+          >
+            Continue with Google
+          </Button>
+          <Button
+            variant="SECONDARY"
+            fullWidth
+            disabled={pendingProvider !== null}
+            loading={pendingProvider === OAuthProvider.MICROSOFT}
+            onClick={() => handleOAuthLogin(OAuthProvider.MICROSOFT)}
+          >
+            Continue with Microsoft
+          </Button>
+          {showSso ? (
+            <form onSubmit={handleSamlLogin} aria-label="Single sign-on form">
+              <Input
+                name="organization"
+                value={organization}
+                onChange={(event) => setOrganization(event.target.value)}
+                placeholder="Organisation ID"
+                aria-label="Organisation ID"
+                required
+              />
+              <Button
+                type="submit"
+                variant="SECONDARY"
+                fullWidth
+                disabled={pendingProvider !== null || !organization.trim()}
+                loading={pendingProvider === 'saml'}
+              >
+                Continue with SSO
+              </Button>
+            </form>
+          ) : (
+            <Button
+              variant="SECONDARY"
+              fullWidth
+              disabled={pendingProvider !== null}
+              onClick={() => setShowSso(true)}
+            >
+              Sign in with SSO
+            </Button>
+          )}
+          {oauthError && (
+            <SocialSignInError role="alert">{oauthError}</SocialSignInError>
+          )}
+        </SocialSignIn>
       </LoginCard>
     </LoginContainer>
   );
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Identity Provider Callback Page Component
+ * Finishes signing in after Google or Microsoft redirects back with an
+ * authorization code, or after the server accepts an organisation's SAML
+ * assertion and redirects back with a sign-in ticket, then continues to the
+ * dashboard.
+ * @version 1.0.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch } from 'react-redux'; // v8.1.0
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'; // v6.0.0
+
+import Card from '../../components/common/Card';
+import { oauthLogin, samlLogin } from '../../store/auth/auth.actions';
+import { OAuthProvider } from '../../interfaces/auth.interface';
+import { ROUTES } from '../../constants/routes.constants';
+import { AppDispatch } from '../../types/store.types';
+import { COLORS, SPACING } from '../../constants/theme.constants';
+
+// Provider segment the server redirects to after SAML single sign-on
+const SAML_PROVIDER = 'saml';
+
+/**
+ * Identity provider callback page
+ */
+const OAuthCallback: React.FC = React.memo(() => {
+  const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const { provider } = useParams<{ provider: string }>();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  // Authorization codes are single-use, so never redeem one twice
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    if (redeemed.current) return;
+    redeemed.current = true;
+
+    if (provider === SAML_PROVIDER) {
+      const ticket = searchParams.get('ticket');
+      if (searchParams.get('error') || !ticket) {
+        setError('Single sign-on did not complete. Contact your administrator if this keeps happening.');
+        return;
+      }
+
+      dispatch(samlLogin({ ticket }))
+        .unwrap()
+        .then(() => navigate(ROUTES.DASHBOARD.ROOT, { replace: true }))
+        .catch(() => setError('We could not sign you in. Please try again.'));
+      return;
+    }
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+
+    if (searchParams.get('error') || !code || !state) {
+      setError('Sign-in was cancelled or did not complete.');
+      return;
+    }
+    if (!Object.values(OAuthProvider).includes(provider as OAuthProvider)) {
+      setError('This sign-in provider is not supported.');
+      return;
+    }
+
+    dispatch(oauthLogin({ provider: provider as OAuthProvider, code, state }))
+      .unwrap()
+      .then(() => navigate(ROUTES.DASHBOARD.ROOT, { replace: true }))
+      .catch(() => setError('We could not sign you in. Please try again.'));
+  }, [dispatch, navigate, provider, searchParams]);
+
+  return (
+    <Card
+      role="main"
+      aria-labelledby="oauth-callback-title"
+      style={{
+        maxWidth: '400px',
+        margin: '48px auto',
+        padding: SPACING.scale[6]
+      }}
+    >
+      <h1
+        id="oauth-callback-title"
+        style={{
+          fontSize: '24px',
+          marginBottom: SPACING.scale[4],
+          color: COLORS.light.text.primary
+        }}
+      >
+        {error ? 'Sign-in Failed' : 'Signing You In'}
+      </h1>
+
+      {error ? (
+        <>
+          <p role="alert" style={{ color: COLORS.light.text.error, marginBottom: SPACING.scale[4] }}>
+            {error}
+          </p>
+          <Link to={ROUTES.AUTH.LOGIN}>Back to sign in</Link>
+        </>
+      ) : (
+        <p role="status" aria-live="polite" style={{ color: COLORS.light.text.secondary }}>
+          Finishing sign-in, please wait.
+        </p>
+      )}
+    </Card>
+  );
+});
+
+OAuthCallback.displayName = 'OAuthCallback';
+
+export default OAuthCallback;
\ No newline at end of file
@@ -1,10 +1,11 @@
 /**
  * @fileoverview Password Reset Page Component
- * Implements secure password reset with WCAG 2.1 Level AA compliance
+ * Implements secure password reset with WCAG 2.1 Level AA compliance.
+ * Without a token in the URL the page asks for an email to send a reset link to.
  * @version 1.0.0
  */
 
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useForm } from 'react-hook-form'; // v7.0.0
 import { useNavigate, useSearchParams } from 'react-router-dom'; // v6.0.0
 import * as yup from 'yup'; // v1.0.0
@@ -21,7 +22,7 @@ const validationSchema = yup.object().shape({
   password: yup
     .string()
     .required('Password is required')
-    .min(8, 'Password must be at least 8 characters')
+    .min(12, 'Password must be at least 12 characters')
     .matches(
       /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
       'Password must contain uppercase, lowercase, number, and special character'
@@ -38,12 +39,110 @@ interface ResetPasswordForm {
   confirmPassword: string;
 }
 
+// Interface for reset request form data
+interface RequestResetForm {
+  email: string;
+}
+
 // Rate limiting configuration
 const RATE_LIMIT = {
   MAX_ATTEMPTS: 3,
   WINDOW_MS: 300000 // 5 minutes
 };
 
+/**
+ * Reset request form shown when the page is opened without a token
+ */
+const RequestResetLink: React.FC = () => {
+  const { requestPasswordReset, loading } = useAuth();
+  const [submitted, setSubmitted] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError
+  } = useForm<RequestResetForm>({
+    mode: 'onChange',
+    defaultValues: { email: '' }
+  });
+
+  const onSubmit = useCallback(async (data: RequestResetForm) => {
+    try {
+      await requestPasswordReset(data.email);
+      analytics.track('Password Reset Requested', {
+        timestamp: new Date().toISOString()
+      });
+      setSubmitted(true);
+    } catch {
+      setError('email', {
+        type: 'manual',
+        message: 'Could not send a reset link. Please try again later.'
+      });
+    }
+  }, [requestPasswordReset, setError]);
+
+  if (submitted) {
+    // Same wording whether or not the account exists
+    return (
+      <p role="status" aria-live="polite" style={{ color: COLORS.light.text.primary }}>
+        If an account exists for that email, we've sent a link to reset your password.
+        The link expires in one hour.
+      </p>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      noValidate
+      aria-label="Password reset request form"
+    >
+      <p style={{ marginBottom: SPACING.scale[4], color: COLORS.light.text.secondary }}>
+        Enter your account email and we'll send you a link to choose a new password.
+      </p>
+
+      <div style={{ marginBottom: SPACING.scale[6] }}>
+        <Input
+          {...register('email', { required: 'Email is required' })}
+          type="email"
+          name="email"
+          placeholder="Email"
+          aria-label="Email"
+          aria-invalid={Boolean(errors.email)}
+          aria-describedby={errors.email ? 'email-error' : undefined}
+          error={errors.email?.message}
+        />
+        {errors.email && (
+          <span
+            id="email-error"
+            role="alert"
+            style={{
+              color: COLORS.light.text.error,
+              fontSize: '14px',
+              marginTop: SPACING.scale[1]
+            }}
+          >
+            {errors.email.message}
+          </span>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        variant="PRIMARY"
+        size="LARGE"
+        disabled={loading}
+        loading={loading}
+        fullWidth
+        aria-busy={loading}
+      >
+        Send Reset Link
+      </Button>
+    </form>
+  );
+};
+
 /**
  * Password Reset Page Component
  * Implements secure password reset with accessibility features
@@ -68,16 +167,6 @@ const ResetPassword: React.FC = React.memo(() => {
     }
   });
 
-  // Validate token on mount
-  useEffect(() => {
-    if (!resetToken) {
-      navigate('/login', { replace: true });
-      analytics.track('Invalid Reset Token', {
-        error: 'Missing token'
-      });
-    }
-  }, [resetToken, navigate]);
-
   // Handle form submission with rate limiting
   const onSubmit = useCallback(async (data: ResetPasswordForm) => {
     try {
@@ -108,7 +197,7 @@ const ResetPassword: React.FC = React.memo(() => {
 
       setError('password', {
         type: 'manual',
-        message: 'Failed to reset password. Please try again.'
+        message: 'Failed to reset password. The link may have expired; request a new one and try again.'
       });
     }
   }, [resetToken, resetPassword, navigate, setError]);
@@ -134,89 +223,93 @@ const ResetPassword: React.FC = React.memo(() => {
         Reset Your Password
       </h1>
 
-      <form
-        onSubmit={handleSubmit(onSubmit)}
-        noValidate
-        aria-label="Password reset form"
-      >
-        <div style={{ marginBottom: SPACING.scale[4] }}>
-          <Input
-            {...register('password')}
-            type="password"
-            name="password"
-            placeholder="New password"
-            aria-label="New password"
-            aria-invalid={Boolean(errors.password)}
-            aria-describedby={errors.password ? 'password-error' : undefined}
-            error={errors.password?.message}
-          />
-          {errors.password && (
-            <span
-              id="password-error"
-              role="alert"
-              style={{
-                color: COLORS.light.text.error,
-                fontSize: '14px',
-                marginTop: SPACING.scale[1]
-              }}
-            >
-              {errors.password.message}
-            </span>
-          )}
-        </div>
-
-        <div style={{ marginBottom: SPACING.scale[6] }}>
-          <Input
-            {...register('confirmPassword')}
-            type="password"
-            name="confirmPassword"
-            placeholder="Confirm password"
-            aria-label="Confirm password"
-            aria-invalid={Boolean(errors.confirmPassword)}
-            aria-describedby={errors.confirmPassword ? 'confirm-password-error' : undefined}
-            error={errors.confirmPassword?.message}
-          />
-          {errors.confirmPassword && (
-            <span
-              id="confirm-password-error"
+      {!resetToken ? (
+        <RequestResetLink />
+      ) : (
+        <form
+          onSubmit={handleSubmit(onSubmit)}
+          noValidate
+          aria-label="Password reset form"
+        >
+          <div style={{ marginBottom: SPACING.scale[4] }}>
+            <Input
+              {...register('password')}
+              type="password"
+              name="password"
+              placeholder="New password"
+              aria-label="New password"
+              aria-invalid={Boolean(errors.password)}
+              aria-describedby={errors.password ? 'password-error' : undefined}
+              error={errors.password?.message}
+            />
+            {errors.password && (
+              <span
+                id="password-error"
+                role="alert"
+                style={{
+                  color: COLORS.light.text.error,
+                  fontSize: '14px',
+                  marginTop: SPACING.scale[1]
+                }}
+              >
+                {errors.password.message}
+              </span>
+            )}
+          </div>
+
+          <div style={{ marginBottom: SPACING.scale[6] }}>
+            <Input
+              {...register('confirmPassword')}
+              type="password"
+              name="confirmPassword"
+              placeholder="Confirm password"
+              aria-label="Confirm password"
+              aria-invalid={Boolean(errors.confirmPassword)}
+              aria-describedby={errors.confirmPassword ? 'confirm-password-error' : undefined}
+              error={errors.confirmPassword?.message}
+            />
+            {errors.confirmPassword && (
+              <span
+                id="confirm-password-error"
+                role="alert"
+                style={{
+                  color: COLORS.light.text.error,
+                  fontSize: '14px',
+                  marginTop: SPACING.scale[1]
+                }}
+              >
+                {errors.confirmPassword.message}
+              </span>
+            )}
+          </div>
+
+          {error && (
+            <div
               role="alert"
+              aria-live="polite"
               style={{
                 color: COLORS.light.text.error,
-                fontSize: '14px',
-                marginTop: SPACING.scale[1]
+                marginBottom: SPACING.scale[4],
+                fontSize: '14px'
               }}
             >
-              {errors.confirmPassword.message}
-            </span>
+              {error}
+            </div>
           )}
-        </div>
 
-        {error && (
-          <div
-            role="alert"
-            aria-live="polite"
-            style={{
-              color: COLORS.light.text.error,
-              marginBottom: SPACING.scale[4],
-              fontSize: '14px'
-            }}
+          <Button
+            type="submit"
+            variant="PRIMARY"
+            size="LARGE"
+            disabled={loading}
+            loading={loading}
+            fullWidth
+            aria-busy={loading}
           >
-            {error}
-          </div>
-        )}
-
-        <Button
-          type="submit"
-          variant="PRIMARY"
-          size="LARGE"
-          disabled={loading}
-          loading={loading}
-          fullWidth
-          aria-busy={loading}
-        >
-          Reset Password
-        </Button>
-      </form>
+            Reset Password
+          </Button>
+        </form>
+      )}
     </Card>
   );
 });
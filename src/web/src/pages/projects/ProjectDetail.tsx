@@ -68,7 +68,7 @@ const ProjectDetail: React.FC = () => {
   });
 
   // Custom hooks initialization
-  const { isConnected, subscribe } = useWebSocket();
+  const { isConnected, subscribe } = useWebSocket(projectId ? { projectId } : undefined);
   const { hasPermission } = usePermissions();
 
   // Fetch project data with error handling
@@ -65,7 +65,7 @@ const ProjectEdit: React.FC<ProjectEditProps> = ({
   );
 
   // WebSocket setup for real-time collaboration
-  const { subscribe, isConnected } = useWebSocket();
+  const { subscribe, isConnected } = useWebSocket(projectId ? { projectId } : undefined);
 
   /**
    * Handles real-time collaborative updates
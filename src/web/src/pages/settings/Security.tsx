@@ -1,12 +1,12 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import styled from '@emotion/styled';
-import QRCode from 'qrcode.react';
 import zxcvbn from 'zxcvbn';
 
 import { useAuth } from '../../hooks/useAuth';
 import { Button } from '../../components/common/Button';
 import { Input } from '../../components/common/Input';
 import { useNotification } from '../../hooks/useNotification';
+import { IMFAEnrollment, IMFAStatus, ISessionInfo } from '../../interfaces/auth.interface';
 import { COLORS, SPACING, TYPOGRAPHY, TRANSITIONS } from '../../constants/theme.constants';
 
 // Styled components with Material Design 3.0 principles
@@ -44,6 +44,20 @@ const QRCodeContainer = styled.div`
   margin: ${SPACING.scale[4]} 0;
 `;
 
+const BackupCodeList = styled.ol`
+  display: grid;
+  grid-template-columns: repeat(2, max-content);
+  gap: ${SPACING.scale[2]} ${SPACING.scale[6]};
+  font-family: monospace;
+  font-size: ${TYPOGRAPHY.fontSizes.lg};
+  margin: ${SPACING.scale[4]} 0;
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: ${SPACING.scale[3]};
+`;
+
 const SessionList = styled.ul`
   list-style: none;
   padding: 0;
@@ -65,7 +79,17 @@ const SessionItem = styled.li`
 interface SecurityPageProps {}
 
 const SecurityPage: React.FC<SecurityPageProps> = React.memo(() => {
-  const { user, verifyMfa, updatePassword, generateMfaSecret, terminateSession } = useAuth();
+  const {
+    updatePassword,
+    getMfaStatus,
+    startMfaEnrollment,
+    confirmMfaEnrollment,
+    regenerateBackupCodes,
+    disableMfa,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions
+  } = useAuth();
   const { addNotification } = useNotification();
 
   // Form states
@@ -73,7 +97,11 @@ const SecurityPage: React.FC<SecurityPageProps> = React.memo(() => {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [mfaCode, setMfaCode] = useState('');
-  const [mfaSecret, setMfaSecret] = useState<string | null>(null);
+  const [mfaPassword, setMfaPassword] = useState('');
+  const [mfaStatus, setMfaStatus] = useState<IMFAStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<IMFAEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [sessions, setSessions] = useState<ISessionInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [passwordStrength, setPasswordStrength] = useState(0);
 
@@ -119,42 +147,148 @@ const SecurityPage: React.FC<SecurityPageProps> = React.memo(() => {
     }
   }, [currentPassword, newPassword, confirmPassword, updatePassword, addNotification]);
 
-  // Handle MFA setup
-  const handleMfaSetup = useCallback(async (e: React.FormEvent) => {
+  const notifyError = useCallback((error: unknown, fallback: string) => {
+    addNotification({
+      type: 'error',
+      message: error instanceof Error ? error.message : fallback,
+      autoHide: true,
+      duration: 5000
+    });
+  }, [addNotification]);
+
+  const loadMfaStatus = useCallback(async () => {
+    try {
+      setMfaStatus(await getMfaStatus());
+    } catch (error) {
+      notifyError(error, 'Failed to load two-factor authentication settings');
+    }
+  }, [getMfaStatus, notifyError]);
+
+  useEffect(() => {
+    loadMfaStatus();
+  }, [loadMfaStatus]);
+
+  // Start TOTP enrollment; nothing changes on the account until a code is confirmed
+  const handleStartEnrollment = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      setEnrollment(await startMfaEnrollment());
+      setMfaCode('');
+    } catch (error) {
+      notifyError(error, 'Failed to start two-factor setup');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startMfaEnrollment, notifyError]);
+
+  // Confirm enrollment with the first code from the authenticator app
+  const handleConfirmEnrollment = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      if (!mfaSecret) {
-        const secret = await generateMfaSecret();
-        setMfaSecret(secret);
-        return;
-      }
+      setBackupCodes(await confirmMfaEnrollment(mfaCode));
+      setEnrollment(null);
+      setMfaCode('');
+      addNotification({
+        type: 'success',
+        message: 'Two-factor authentication enabled',
+        autoHide: true,
+        duration: 5000
+      });
+      await loadMfaStatus();
+    } catch (error) {
+      notifyError(error, 'Invalid authentication code');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mfaCode, confirmMfaEnrollment, loadMfaStatus, addNotification, notifyError]);
 
-      const success = await verifyMfa(mfaCode);
-      if (success) {
-        addNotification({
-          type: 'success',
-          message: 'MFA enabled successfully',
-          autoHide: true,
-          duration: 5000
-        });
-        setMfaCode('');
-        setMfaSecret(null);
-      } else {
-        throw new Error('Invalid MFA code');
-      }
+  // Replace every backup code after the password is re-entered
+  const handleRegenerateBackupCodes = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      setBackupCodes(await regenerateBackupCodes(mfaPassword));
+      setMfaPassword('');
+      await loadMfaStatus();
     } catch (error) {
+      notifyError(error, 'Failed to regenerate backup codes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mfaPassword, regenerateBackupCodes, loadMfaStatus, notifyError]);
+
+  // Disable MFA with the password and a current TOTP or backup code
+  const handleDisableMfa = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await disableMfa(mfaPassword, mfaCode);
+      setMfaPassword('');
+      setMfaCode('');
+      setBackupCodes(null);
       addNotification({
-        type: 'error',
-        message: error instanceof Error ? error.message : 'Failed to setup MFA',
+        type: 'success',
+        message: 'Two-factor authentication disabled',
         autoHide: true,
         duration: 5000
       });
+      await loadMfaStatus();
+    } catch (error) {
+      notifyError(error, 'Failed to disable two-factor authentication');
     } finally {
       setIsLoading(false);
     }
-  }, [mfaCode, mfaSecret, generateMfaSecret, verifyMfa, addNotification]);
+  }, [mfaPassword, mfaCode, disableMfa, loadMfaStatus, addNotification, notifyError]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await getSessions());
+    } catch (error) {
+      notifyError(error, 'Failed to load active sessions');
+    }
+  }, [getSessions, notifyError]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Sign out a single session on another device
+  const handleRevokeSession = useCallback(async (sessionId: string) => {
+    setIsLoading(true);
+
+    try {
+      await revokeSession(sessionId);
+      await loadSessions();
+    } catch (error) {
+      notifyError(error, 'Failed to sign out session');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [revokeSession, loadSessions, notifyError]);
+
+  // Sign out everywhere except this browser
+  const handleRevokeOtherSessions = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const revoked = await revokeOtherSessions();
+      addNotification({
+        type: 'success',
+        message: `Signed out of ${revoked} other ${revoked === 1 ? 'session' : 'sessions'}`,
+        autoHide: true,
+        duration: 5000
+      });
+      await loadSessions();
+    } catch (error) {
+      notifyError(error, 'Failed to sign out other sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [revokeOtherSessions, loadSessions, addNotification, notifyError]);
 
   // Update password strength indicator
   useEffect(() => {
@@ -217,66 +351,153 @@ const SecurityPage: React.FC<SecurityPageProps> = React.memo(() => {
 
       <SecuritySection>
         <h2>Two-Factor Authentication</h2>
-        {!user?.mfaEnabled ? (
-          <form onSubmit={handleMfaSetup}>
-            {mfaSecret && (
-              <QRCodeContainer>
-                <QRCode
-                  value={`otpauth://totp/TaskManagement:${user?.email}?secret=${mfaSecret}&issuer=TaskManagement`}
-                  size={200}
-                  level="H"
-                />
-              </QRCodeContainer>
-            )}
-            {mfaSecret && (
-              <FormGroup>
-                <Input
-                  type="text"
-                  value={mfaCode}
-                  onChange={(e) => setMfaCode(e.target.value)}
-                  placeholder="Enter MFA Code"
-                  required
-                  aria-label="MFA Code"
-                  pattern="[0-9]{6}"
-                  maxLength={6}
-                />
-              </FormGroup>
-            )}
-            <Button
-              type="submit"
-              variant="PRIMARY"
-              disabled={isLoading || (mfaSecret && !mfaCode)}
-              loading={isLoading}
-              aria-label={mfaSecret ? "Verify MFA Code" : "Setup MFA"}
-            >
-              {mfaSecret ? "Verify MFA Code" : "Setup MFA"}
+        {backupCodes && (
+          <FormGroup>
+            <p>
+              Save these backup codes somewhere safe. Each one can be used once if you lose
+              access to your authenticator app, and they will not be shown again.
+            </p>
+            <BackupCodeList aria-label="Backup codes">
+              {backupCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </BackupCodeList>
+            <Button variant="OUTLINED" onClick={() => setBackupCodes(null)}>
+              I have saved these codes
             </Button>
+          </FormGroup>
+        )}
+        {!mfaStatus?.enabled && !enrollment && (
+          <Button
+            variant="PRIMARY"
+            onClick={handleStartEnrollment}
+            disabled={isLoading || !mfaStatus}
+            loading={isLoading}
+            aria-label="Set Up Two-Factor Authentication"
+          >
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+        {!mfaStatus?.enabled && enrollment && (
+          <form onSubmit={handleConfirmEnrollment}>
+            <p>Scan this code with your authenticator app, then enter the code it shows.</p>
+            <QRCodeContainer>
+              <img src={enrollment.qrCode} width={200} height={200} alt="Authenticator QR code" />
+            </QRCodeContainer>
+            <p>
+              Can't scan it? Enter this key instead: <code>{enrollment.secret}</code>
+            </p>
+            <FormGroup>
+              <Input
+                type="text"
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                placeholder="Enter MFA Code"
+                required
+                aria-label="MFA Code"
+                pattern="[0-9]{6}"
+                maxLength={6}
+              />
+            </FormGroup>
+            <ButtonRow>
+              <Button
+                type="submit"
+                variant="PRIMARY"
+                disabled={isLoading || !mfaCode}
+                loading={isLoading}
+                aria-label="Verify MFA Code"
+              >
+                Verify MFA Code
+              </Button>
+              <Button variant="OUTLINED" onClick={() => setEnrollment(null)} disabled={isLoading}>
+                Cancel
+              </Button>
+            </ButtonRow>
+          </form>
+        )}
+        {mfaStatus?.enabled && (
+          <form onSubmit={handleDisableMfa}>
+            <p>
+              Two-factor authentication is enabled for your account.{' '}
+              {mfaStatus.backupCodesRemaining} backup codes remaining.
+            </p>
+            <FormGroup>
+              <Input
+                type="password"
+                value={mfaPassword}
+                onChange={(e) => setMfaPassword(e.target.value)}
+                placeholder="Current Password"
+                aria-label="Current Password for Two-Factor Settings"
+              />
+            </FormGroup>
+            <FormGroup>
+              <Input
+                type="text"
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                placeholder="Authentication or Backup Code"
+                aria-label="Authentication or Backup Code"
+                maxLength={14}
+              />
+            </FormGroup>
+            <ButtonRow>
+              <Button
+                variant="OUTLINED"
+                onClick={handleRegenerateBackupCodes}
+                disabled={isLoading || !mfaPassword}
+                aria-label="Regenerate Backup Codes"
+              >
+                Regenerate Backup Codes
+              </Button>
+              <Button
+                type="submit"
+                variant="PRIMARY"
+                disabled={isLoading || !mfaPassword || !mfaCode}
+                loading={isLoading}
+                aria-label="Disable Two-Factor Authentication"
+              >
+                Disable Two-Factor Authentication
+              </Button>
+            </ButtonRow>
           </form>
-        ) : (
-          <p>Two-factor authentication is enabled for your account.</p>
         )}
       </SecuritySection>
 
       <SecuritySection>
         <h2>Active Sessions</h2>
         <SessionList>
-          {user?.sessions?.map((session) => (
+          {sessions.map((session) => (
             <SessionItem key={session.id}>
               <div>
-                <p>{session.deviceInfo}</p>
-                <small>{new Date(session.lastActive).toLocaleString()}</small>
+                <p>
+                  {session.userAgent || 'Unknown device'}
+                  {session.current && <strong> (this device)</strong>}
+                </p>
+                <small>
+                  {session.ipAddress} · Last active {new Date(session.lastActiveAt).toLocaleString()}
+                </small>
               </div>
-              <Button
-                variant="OUTLINED"
-                onClick={() => terminateSession(session.id)}
-                disabled={isLoading}
-                aria-label="Terminate Session"
-              >
-                Terminate
-              </Button>
+              {!session.current && (
+                <Button
+                  variant="OUTLINED"
+                  onClick={() => handleRevokeSession(session.id)}
+                  disabled={isLoading}
+                  aria-label="Sign Out Session"
+                >
+                  Sign Out
+                </Button>
+              )}
             </SessionItem>
           ))}
         </SessionList>
+        <Button
+          variant="OUTLINED"
+          onClick={handleRevokeOtherSessions}
+          disabled={isLoading || !sessions.some((session) => !session.current)}
+          aria-label="Sign Out All Other Sessions"
+        >
+          Sign Out All Other Sessions
+        </Button>
       </SecuritySection>
     </SecurityContainer>
   );
@@ -29,8 +29,8 @@ import TaskStatusSelect from '../../components/TaskStatusSelect';
 import TaskPrioritySelect from '../../components/TaskPrioritySelect';
 import TaskAssignees from '../../components/TaskAssignees';
 import TaskComments from '../../components/TaskComments';
-import TaskAttachments from '../../components/TaskAttachments';
-import TaskActivity from '../../components/TaskActivity';
+import TaskAttachments from '../../components/tasks/TaskAttachments';
+import ActivityFeed from '../../components/dashboard/ActivityFeed';
 
 /**
  * Custom hook for managing task data with real-time updates
@@ -41,7 +41,7 @@ const useTaskData = (taskId: string) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { getTask, updateTask } = useTaskStore();
-  const { subscribe } = useWebSocket();
+  const { subscribe } = useWebSocket({ taskId });
 
   // Fetch initial task data
   useEffect(() => {
@@ -237,11 +237,7 @@ const TaskDetailPage: React.FC = () => {
 
               {/* Task Attachments */}
               <Grid item xs={12}>
-                <TaskAttachments
-                  taskId={task.id}
-                  attachmentIds={task.attachmentIds}
-                  onAttachmentsChange={(attachmentIds) => handleUpdate({ attachmentIds })}
-                />
+                <TaskAttachments attachmentIds={task.attachmentIds} />
               </Grid>
 
               {/* Task Comments */}
@@ -251,7 +247,7 @@ const TaskDetailPage: React.FC = () => {
 
               {/* Task Activity */}
               <Grid item xs={12}>
-                <TaskActivity taskId={task.id} />
+                <ActivityFeed taskId={task.id} />
               </Grid>
             </Grid>
           </Paper>
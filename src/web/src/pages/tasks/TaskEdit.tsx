@@ -37,7 +37,7 @@ const TaskEdit: React.FC = () => {
   const { taskId } = useParams<{ taskId: string }>();
   const navigate = useNavigate();
   const { updateTask } = useTasks();
-  const { subscribe } = useWebSocket();
+  const { subscribe } = useWebSocket(taskId ? { taskId } : undefined);
 
   // Component state
   const [state, setState] = useState<TaskEditState>({
@@ -15,7 +15,6 @@ const CreateTaskDialog = lazy(() => import('../../components/tasks/CreateTaskDia
 
 interface TasksPageProps {
   projectId?: string;
-  wsEndpoint: string;
 }
 
 interface TaskViewState {
@@ -29,7 +28,7 @@ interface TaskViewState {
   lastUpdate: Date;
 }
 
-const Tasks: React.FC<TasksPageProps> = ({ projectId, wsEndpoint }) => {
+const Tasks: React.FC<TasksPageProps> = ({ projectId }) => {
   const navigate = useNavigate();
   const { id } = useParams();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -50,11 +49,7 @@ const Tasks: React.FC<TasksPageProps> = ({ projectId, wsEndpoint }) => {
   const [error, setError] = useState<string | null>(null);
 
   // WebSocket setup for real-time updates
-  const { subscribe, isConnected } = useWebSocket(wsEndpoint, {
-    autoReconnect: true,
-    maxRetries: 5,
-    heartbeatInterval: 30000
-  });
+  const { subscribe, isConnected } = useWebSocket(projectId ? { projectId } : undefined);
 
   // Handle view change with URL sync
   const handleViewChange = useCallback((newView: 'list' | 'board') => {
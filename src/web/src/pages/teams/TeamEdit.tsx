@@ -62,7 +62,7 @@ const TeamEdit: React.FC = () => {
   const navigate = useNavigate();
   const toast = useToast();
   const teamService = new TeamService(null);
-  const { subscribe } = useWebSocket();
+  const { subscribe } = useWebSocket(teamId ? { teamId } : undefined);
 
   // State management
   const [team, setTeam] = useState<ITeam | null>(null);
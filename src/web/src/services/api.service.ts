@@ -142,6 +142,21 @@ export class ApiService {
     return this.makeRequest<T>('PUT', endpoint, { data, ...options });
   }
 
+  /**
+   * Performs a PATCH request with error handling
+   * @param endpoint API endpoint
+   * @param data Partial request payload
+   * @param options Request options
+   * @returns Promise resolving to API response
+   */
+  public async patch<T>(
+    endpoint: string,
+    data: any,
+    options: Partial<ApiRequestOptions> = {}
+  ): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>('PATCH', endpoint, { data, ...options });
+  }
+
   /**
    * Performs a DELETE request with error handling
    * @param endpoint API endpoint
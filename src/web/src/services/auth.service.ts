@@ -16,7 +16,13 @@ import {
   IAuthResponse,
   IAuthTokens,
   IAuthUser,
-  MFAMethod
+  IMFAStatus,
+  IMFAEnrollment,
+  ISessionInfo,
+  IOAuthAuthorization,
+  ISamlLoginRequest,
+  MFAMethod,
+  OAuthProvider
 } from '../interfaces/auth.interface';
 
 /**
@@ -38,7 +44,19 @@ const AUTH_ENDPOINTS = {
   LOGOUT: '/auth/logout',
   REFRESH: '/auth/refresh',
   VERIFY_MFA: '/auth/verify-mfa',
-  VALIDATE_SESSION: '/auth/validate-session'
+  VALIDATE_SESSION: '/auth/validate-session',
+  PASSWORD_RESET_REQUEST: '/auth/password-reset/request',
+  PASSWORD_RESET_CONFIRM: '/auth/password-reset/confirm',
+  MFA: '/auth/mfa',
+  MFA_ENROLL: '/auth/mfa/totp/enroll',
+  MFA_CONFIRM: '/auth/mfa/totp/confirm',
+  MFA_BACKUP_CODES: '/auth/mfa/backup-codes',
+  MFA_DISABLE: '/auth/mfa/disable',
+  SESSIONS: '/auth/sessions',
+  OAUTH_AUTHORIZE: '/auth/oauth/:provider/authorize',
+  OAUTH_CALLBACK: '/auth/oauth/:provider/callback',
+  SAML_LOGIN: '/auth/saml/:organization/login',
+  SAML_TICKET: '/auth/saml/ticket'
 } as const;
 
 /**
@@ -133,6 +151,144 @@ export class AuthService {
     return response;
   }
 
+  /**
+   * Starts signing in with an identity provider
+   * @param provider Identity provider
+   * @returns Provider URL to send the browser to, and the state it will return with
+   */
+  public async getOAuthAuthorization(provider: OAuthProvider): Promise<IOAuthAuthorization> {
+    return this.apiService.get(AUTH_ENDPOINTS.OAUTH_AUTHORIZE.replace(':provider', provider));
+  }
+
+  /**
+   * Finishes signing in with the code the identity provider redirected back with
+   * @param provider Identity provider
+   * @param code Authorization code
+   * @param state State returned by the provider
+   */
+  public async completeOAuthLogin(provider: OAuthProvider, code: string, state: string): Promise<IAuthResponse> {
+    const response = await this.apiService.post(
+      AUTH_ENDPOINTS.OAUTH_CALLBACK.replace(':provider', provider),
+      { code, state }
+    );
+    this.setupSecureSession(response.tokens);
+    return response;
+  }
+
+  /**
+   * Starts single sign-on with an organisation's SAML identity provider
+   * @param organization Organisation identifier
+   * @returns Identity provider URL to send the browser to
+   */
+  public async getSamlLoginRequest(organization: string): Promise<ISamlLoginRequest> {
+    return this.apiService.get(AUTH_ENDPOINTS.SAML_LOGIN.replace(':organization', encodeURIComponent(organization)));
+  }
+
+  /**
+   * Finishes single sign-on with the ticket the server redirected back with
+   * @param ticket Single-use sign-in ticket
+   */
+  public async completeSamlLogin(ticket: string): Promise<IAuthResponse> {
+    const response = await this.apiService.post(AUTH_ENDPOINTS.SAML_TICKET, { ticket });
+    this.setupSecureSession(response.tokens);
+    return response;
+  }
+
+  /**
+   * Requests a password reset email. Succeeds whether or not the address
+   * belongs to an account.
+   * @param email Account email address
+   */
+  public async requestPasswordReset(email: string): Promise<void> {
+    await this.apiService.post(AUTH_ENDPOINTS.PASSWORD_RESET_REQUEST, { email });
+  }
+
+  /**
+   * Sets a new password using the token from a reset email. Every session,
+   * including this one, is signed out by the server.
+   * @param token Reset token from the emailed link
+   * @param newPassword New password
+   */
+  public async resetPassword(token: string, newPassword: string): Promise<void> {
+    try {
+      await this.apiService.post(AUTH_ENDPOINTS.PASSWORD_RESET_CONFIRM, {
+        token,
+        newPassword,
+        confirmPassword: newPassword
+      });
+    } finally {
+      this.cleanupSession();
+    }
+  }
+
+  /**
+   * Gets the current user's two-factor authentication settings
+   */
+  public async getMfaStatus(): Promise<IMFAStatus> {
+    return this.apiService.get(AUTH_ENDPOINTS.MFA);
+  }
+
+  /**
+   * Starts TOTP enrollment; MFA stays off until the first code is confirmed
+   * @returns Secret and QR code for the authenticator app
+   */
+  public async startMfaEnrollment(): Promise<IMFAEnrollment> {
+    return this.apiService.post(AUTH_ENDPOINTS.MFA_ENROLL);
+  }
+
+  /**
+   * Confirms TOTP enrollment with a code from the authenticator app
+   * @param code Six digit TOTP code
+   * @returns Backup codes, which the server will not show again
+   */
+  public async confirmMfaEnrollment(code: string): Promise<string[]> {
+    const response = await this.apiService.post(AUTH_ENDPOINTS.MFA_CONFIRM, { code });
+    return response.backupCodes;
+  }
+
+  /**
+   * Replaces every backup code
+   * @param password Current password
+   * @returns New backup codes
+   */
+  public async regenerateBackupCodes(password: string): Promise<string[]> {
+    const response = await this.apiService.post(AUTH_ENDPOINTS.MFA_BACKUP_CODES, { password });
+    return response.backupCodes;
+  }
+
+  /**
+   * Turns two-factor authentication off
+   * @param password Current password
+   * @param code TOTP or backup code
+   */
+  public async disableMfa(password: string, code: string): Promise<void> {
+    await this.apiService.post(AUTH_ENDPOINTS.MFA_DISABLE, { password, code });
+  }
+
+  /**
+   * Lists the user's signed-in sessions, most recently active first
+   */
+  public async getSessions(): Promise<ISessionInfo[]> {
+    return this.apiService.get(AUTH_ENDPOINTS.SESSIONS);
+  }
+
+  /**
+   * Signs out one session
+   * @param sessionId Session to sign out
+   */
+  public async revokeSession(sessionId: string): Promise<void> {
+    await this.apiService.delete(`${AUTH_ENDPOINTS.SESSIONS}/${sessionId}`);
+  }
+
+  /**
+   * Signs out every session except this one
+   * @returns Number of sessions signed out
+   */
+  public async revokeOtherSessions(): Promise<number> {
+    const response = await this.apiService.delete(AUTH_ENDPOINTS.SESSIONS);
+    return response.revoked;
+  }
+
   /**
    * Gets current authenticated user
    * @returns Current user or null if not authenticated
@@ -0,0 +1,303 @@
+/**
+ * File Service
+ * Uploads large attachments as resumable chunked uploads that survive
+ * network drops, pauses and page reloads, and manages file version history.
+ * @version 1.0.0
+ */
+
+import { ApiService } from './api.service';
+import {
+  FilePreviewKind,
+  IFile,
+  IFilePreviewLink,
+  IFileVersion,
+  ISignedFileUrl,
+  IUploadSession,
+  IUploadProgress,
+  UploadSessionStatus
+} from '../interfaces/file.interface';
+import { API_ENDPOINTS } from '../constants/api.constants';
+
+// Session ids are remembered per file so a reload can pick the upload back up
+const SESSION_KEY_PREFIX = 'uploadSession:';
+const CHUNK_RETRY_ATTEMPTS = 3;
+const CHUNK_RETRY_DELAY = 1000;
+// Matches the most ids the preview endpoint accepts per request
+const PREVIEW_BATCH_SIZE = 50;
+
+/**
+ * Options for a chunked upload
+ */
+export interface ChunkedUploadOptions {
+  projectId: string;
+  taskId?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: IUploadProgress) => void;
+}
+
+/**
+ * FileService class for uploading attachments and managing their versions
+ */
+export class FileService {
+  private readonly apiService: ApiService;
+
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Uploads a file chunk by chunk, resuming an earlier session for the same
+   * file when one is still open. Aborting the signal pauses the upload;
+   * calling this again with the same file resumes it.
+   * @param file File to upload
+   * @param options Parent project or task, pause signal and progress callback
+   * @returns Promise resolving to the stored file
+   */
+  public async uploadChunked(file: File, options: ChunkedUploadOptions): Promise<IFile> {
+    const session = await this.resumeOrCreateSession(file, options);
+    const missing = new Set(session.missingChunks);
+    let uploadedChunks = session.totalChunks - missing.size;
+
+    options.onProgress?.({ uploadedChunks, totalChunks: session.totalChunks });
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (!missing.has(index)) continue;
+      this.throwIfAborted(options.signal);
+
+      const start = index * session.chunkSize;
+      await this.uploadChunk(session.id, index, file.slice(start, start + session.chunkSize), options.signal);
+
+      uploadedChunks++;
+      options.onProgress?.({ uploadedChunks, totalChunks: session.totalChunks });
+    }
+
+    this.throwIfAborted(options.signal);
+    const response = await this.apiService.post<IFile>(
+      API_ENDPOINTS.FILES.UPLOAD_COMPLETE.replace(':sessionId', session.id),
+      {}
+    );
+    localStorage.removeItem(this.sessionKey(file));
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to complete upload');
+  }
+
+  /**
+   * Cancels an upload and discards the chunks sent so far
+   * @param file File whose upload should be cancelled
+   */
+  public async cancelUpload(file: File): Promise<void> {
+    const sessionId = localStorage.getItem(this.sessionKey(file));
+    localStorage.removeItem(this.sessionKey(file));
+
+    if (sessionId) {
+      await this.apiService.delete(API_ENDPOINTS.FILES.UPLOAD_SESSION.replace(':sessionId', sessionId));
+    }
+  }
+
+  /**
+   * Retrieves a short-lived download link for a file's current version
+   * @param fileId File identifier
+   * @returns Promise resolving to the signed URL
+   */
+  public async getDownloadUrl(fileId: string): Promise<ISignedFileUrl> {
+    const response = await this.apiService.get<ISignedFileUrl>(
+      API_ENDPOINTS.FILES.URL.replace(':id', fileId),
+      {},
+      { cache: false }
+    );
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to get download link');
+  }
+
+  /**
+   * Retrieves a file's version history, newest first
+   * @param fileId File identifier
+   * @returns Promise resolving to the file's versions
+   */
+  public async getVersions(fileId: string): Promise<IFileVersion[]> {
+    const response = await this.apiService.get<IFileVersion[]>(
+      API_ENDPOINTS.FILES.VERSIONS.replace(':id', fileId),
+      {},
+      { cache: false }
+    );
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to load versions');
+  }
+
+  /**
+   * Retrieves preview links for several files, batching the lookups. Files
+   * without a generated preview, or that the user cannot read, are left out.
+   * @param fileIds File identifiers
+   * @param kind Restrict the result to thumbnails or full previews
+   * @returns Promise resolving to the available preview links
+   */
+  public async getPreviews(fileIds: string[], kind?: FilePreviewKind): Promise<IFilePreviewLink[]> {
+    const previews: IFilePreviewLink[] = [];
+
+    for (let offset = 0; offset < fileIds.length; offset += PREVIEW_BATCH_SIZE) {
+      const ids = fileIds.slice(offset, offset + PREVIEW_BATCH_SIZE);
+      const response = await this.apiService.get<IFilePreviewLink[]>(
+        API_ENDPOINTS.FILES.PREVIEWS,
+        { ids: ids.join(','), ...(kind && { kind }) },
+        { cache: false }
+      );
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load previews');
+      }
+      previews.push(...response.data);
+    }
+
+    return previews;
+  }
+
+  /**
+   * Retrieves a short-lived download link for one version of a file
+   * @param fileId File identifier
+   * @param version Version number
+   * @returns Promise resolving to the signed URL
+   */
+  public async getVersionUrl(fileId: string, version: number): Promise<ISignedFileUrl> {
+    const response = await this.apiService.get<ISignedFileUrl>(
+      API_ENDPOINTS.FILES.VERSION_URL.replace(':id', fileId).replace(':version', String(version)),
+      {},
+      { cache: false }
+    );
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to get download link');
+  }
+
+  /**
+   * Uploads a revised file as the next version of an existing file
+   * @param fileId File identifier
+   * @param file Revised content
+   * @returns Promise resolving to the file at its new version
+   */
+  public async uploadVersion(fileId: string, file: File): Promise<IFile> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await this.apiService.post<IFile>(
+      API_ENDPOINTS.FILES.VERSIONS.replace(':id', fileId),
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to upload version');
+  }
+
+  /**
+   * Makes an older version current again
+   * @param fileId File identifier
+   * @param version Version number to restore
+   * @returns Promise resolving to the file at its new version
+   */
+  public async restoreVersion(fileId: string, version: number): Promise<IFile> {
+    const response = await this.apiService.post<IFile>(
+      API_ENDPOINTS.FILES.VERSION_RESTORE.replace(':id', fileId).replace(':version', String(version)),
+      {}
+    );
+
+    if (response.success) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to restore version');
+  }
+
+  /**
+   * Reuses the stored session for a file while it still accepts chunks,
+   * otherwise opens a new one
+   */
+  private async resumeOrCreateSession(file: File, options: ChunkedUploadOptions): Promise<IUploadSession> {
+    const sessionId = localStorage.getItem(this.sessionKey(file));
+
+    if (sessionId) {
+      const existing = await this.apiService.get<IUploadSession>(
+        API_ENDPOINTS.FILES.UPLOAD_SESSION.replace(':sessionId', sessionId),
+        {},
+        { cache: false }
+      );
+      if (existing.success && existing.data.status === UploadSessionStatus.ACTIVE) {
+        return existing.data;
+      }
+      localStorage.removeItem(this.sessionKey(file));
+    }
+
+    const response = await this.apiService.post<IUploadSession>(API_ENDPOINTS.FILES.UPLOAD_SESSIONS, {
+      originalName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      projectId: options.projectId,
+      ...(options.taskId ? { taskId: options.taskId } : {})
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to start upload');
+    }
+
+    localStorage.setItem(this.sessionKey(file), response.data.id);
+    return response.data;
+  }
+
+  /**
+   * Sends one chunk with its SHA-256, retrying transient failures
+   */
+  private async uploadChunk(sessionId: string, index: number, chunk: Blob, signal?: AbortSignal): Promise<void> {
+    const checksum = await this.sha256(chunk);
+    const endpoint = API_ENDPOINTS.FILES.UPLOAD_CHUNK
+      .replace(':sessionId', sessionId)
+      .replace(':index', String(index));
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.apiService.put(endpoint, chunk, {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-Checksum': checksum
+        },
+        signal
+      });
+
+      if (response.success) return;
+      this.throwIfAborted(signal);
+
+      if (attempt >= CHUNK_RETRY_ATTEMPTS) {
+        throw new Error(response.error || `Failed to upload chunk ${index}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, CHUNK_RETRY_DELAY * Math.pow(2, attempt - 1)));
+    }
+  }
+
+  private async sha256(chunk: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException('Upload paused', 'AbortError');
+    }
+  }
+
+  private sessionKey(file: File): string {
+    return `${SESSION_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+  }
+}
+
+export const fileService = new FileService(new ApiService());
\ No newline at end of file
@@ -9,7 +9,7 @@ import { Subject, BehaviorSubject } from 'rxjs'; // ^7.8.0
 import { retry, retryWhen } from 'rxjs/operators'; // ^7.8.0
 import { ApiService } from './api.service';
 import { useWebSocket } from '../hooks/useWebSocket';
-import { HTTP_STATUS, API_ENDPOINTS } from '../constants/api.constants';
+import { HTTP_STATUS } from '../constants/api.constants';
 
 /**
  * Notification priority levels
@@ -68,6 +68,18 @@ interface NotificationServiceConfig {
   offlineSupport: boolean;
 }
 
+// Service worker that renders Web Push messages, served from the site root
+const PUSH_SERVICE_WORKER_URL = '/push-sw.js';
+
+/**
+ * Converts a base64url VAPID key to the byte array expected by PushManager
+ */
+const urlBase64ToUint8Array = (base64Url: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
 /**
  * Enhanced Notification Service implementation
  */
@@ -194,6 +206,65 @@ export class NotificationService {
     return this.notificationSubject.subscribe(callback).unsubscribe;
   }
 
+  /**
+   * Registers this browser for push notifications.
+   * Resolves to false when the browser does not support push or permission is denied.
+   */
+  public async enablePushNotifications(): Promise<boolean> {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      return false;
+    }
+
+    try {
+      if (await Notification.requestPermission() !== 'granted') {
+        return false;
+      }
+
+      const keyResponse = await this.apiService.get<{ publicKey: string }>('/notifications/push/public-key');
+      if (!keyResponse.success) {
+        throw new Error(keyResponse.error || 'Push notifications are not available');
+      }
+
+      const registration = await navigator.serviceWorker.register(PUSH_SERVICE_WORKER_URL);
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(keyResponse.data.publicKey)
+        });
+
+      const response = await this.apiService.post('/notifications/push/subscriptions', subscription.toJSON());
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to register push subscription');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error enabling push notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes this browser's push subscription
+   */
+  public async disablePushNotifications(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+
+      await this.apiService.delete(
+        `/notifications/push/subscriptions?endpoint=${encodeURIComponent(subscription.endpoint)}`
+      );
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.error('Error disabling push notifications:', error);
+      throw error;
+    }
+  }
+
   /**
    * Retrieves notification groups
    */
@@ -205,7 +276,7 @@ export class NotificationService {
    * Initializes WebSocket connection for real-time updates
    */
   private initializeWebSocket(): void {
-    this.wsConnection = useWebSocket(API_ENDPOINTS.WS_NOTIFICATIONS);
+    this.wsConnection = useWebSocket();
     
     this.wsConnection.subscribe<INotification>('notification', (notification) => {
       this.handleNewNotification(notification);
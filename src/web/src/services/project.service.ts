@@ -4,10 +4,15 @@
  * @version 1.0.0
  */
 
-import { io, Socket } from 'socket.io-client'; // ^4.5.0
 import { debounce } from 'lodash'; // ^4.17.21
 import { ApiService } from './api.service';
-import { IProject } from '../interfaces/project.interface';
+import { realtimeService } from './realtime.service';
+import {
+    IProject,
+    IProjectWebhook,
+    IWebhookDelivery,
+    WebhookEventType
+} from '../interfaces/project.interface';
 import { API_ENDPOINTS } from '../constants/api.constants';
 import { ApiResponse, PaginatedResponse } from '../types/api.types';
 import { Priority, Status } from '../types/common.types';
@@ -25,21 +30,11 @@ interface ProjectUpdateEvent {
  * Project service class for managing project operations
  */
 export class ProjectService {
-    private readonly socket: Socket;
     private readonly projectCache: Map<string, IProject>;
     private readonly updateDebounceTime = 500;
 
     constructor(private readonly apiService: ApiService) {
-        this.socket = io(`${process.env.REACT_APP_WS_URL}/projects`, {
-            transports: ['websocket'],
-            autoConnect: false,
-            reconnection: true,
-            reconnectionDelay: 1000,
-            reconnectionAttempts: 5
-        });
-
         this.projectCache = new Map();
-        this.setupSocketListeners();
     }
 
     /**
@@ -83,7 +78,6 @@ export class ProjectService {
 
         if (response.success) {
             this.projectCache.set(response.data.id, response.data);
-            this.socket.emit('project:created', response.data);
         }
 
         return response;
@@ -107,11 +101,6 @@ export class ProjectService {
 
             if (response.success) {
                 this.projectCache.set(projectId, response.data);
-                this.socket.emit('project:updated', {
-                    projectId,
-                    changes: updates,
-                    timestamp: new Date().toISOString()
-                });
             }
 
             return response;
@@ -132,7 +121,6 @@ export class ProjectService {
 
         if (response.success) {
             this.projectCache.delete(projectId);
-            this.socket.emit('project:deleted', { projectId });
         }
 
         return response;
@@ -158,12 +146,6 @@ export class ProjectService {
 
         if (response.success) {
             this.projectCache.set(projectId, response.data);
-            this.socket.emit('project:members-updated', {
-                projectId,
-                memberIds,
-                action,
-                timestamp: new Date().toISOString()
-            });
         }
 
         return response;
@@ -182,6 +164,100 @@ export class ProjectService {
         return this.updateProject(projectId, { progress });
     }
 
+    /**
+     * Lists the webhooks of a project
+     * @param projectId Project ID
+     * @returns Promise resolving to the project's webhooks
+     */
+    public async getWebhooks(projectId: string): Promise<ApiResponse<IProjectWebhook[]>> {
+        return this.apiService.get<IProjectWebhook[]>(
+            API_ENDPOINTS.PROJECTS.WEBHOOKS.replace(':id', projectId),
+            {},
+            { cache: false }
+        );
+    }
+
+    /**
+     * Creates a webhook; the response carries the signing secret, which is never shown again
+     * @param projectId Project ID
+     * @param webhook Endpoint URL, subscribed events and optional description
+     * @returns Promise resolving to the created webhook
+     */
+    public async createWebhook(
+        projectId: string,
+        webhook: { url: string; events: WebhookEventType[]; description?: string }
+    ): Promise<ApiResponse<IProjectWebhook>> {
+        return this.apiService.post<IProjectWebhook>(
+            API_ENDPOINTS.PROJECTS.WEBHOOKS.replace(':id', projectId),
+            webhook
+        );
+    }
+
+    /**
+     * Updates a webhook
+     * @param projectId Project ID
+     * @param webhookId Webhook ID
+     * @param updates Webhook updates
+     * @returns Promise resolving to the updated webhook
+     */
+    public async updateWebhook(
+        projectId: string,
+        webhookId: string,
+        updates: Partial<Pick<IProjectWebhook, 'url' | 'events' | 'description' | 'isActive'>>
+    ): Promise<ApiResponse<IProjectWebhook>> {
+        return this.apiService.patch<IProjectWebhook>(
+            this.getWebhookEndpoint(projectId, webhookId),
+            updates
+        );
+    }
+
+    /**
+     * Deletes a webhook
+     * @param projectId Project ID
+     * @param webhookId Webhook ID
+     * @returns Promise resolving to deletion status
+     */
+    public async deleteWebhook(projectId: string, webhookId: string): Promise<ApiResponse<void>> {
+        return this.apiService.delete<void>(this.getWebhookEndpoint(projectId, webhookId));
+    }
+
+    /**
+     * Sends a test event to a webhook
+     * @param projectId Project ID
+     * @param webhookId Webhook ID
+     * @returns Promise resolving to the logged delivery
+     */
+    public async sendWebhookTestEvent(
+        projectId: string,
+        webhookId: string
+    ): Promise<ApiResponse<IWebhookDelivery>> {
+        return this.apiService.post<IWebhookDelivery>(
+            `${this.getWebhookEndpoint(projectId, webhookId)}/test`,
+            {}
+        );
+    }
+
+    /**
+     * Retrieves the delivery log of a webhook
+     * @param projectId Project ID
+     * @param webhookId Webhook ID
+     * @param page Page number
+     * @param pageSize Items per page
+     * @returns Promise resolving to recent deliveries, newest first
+     */
+    public async getWebhookDeliveries(
+        projectId: string,
+        webhookId: string,
+        page: number = 1,
+        pageSize: number = 10
+    ): Promise<ApiResponse<{ data: IWebhookDelivery[]; total: number }>> {
+        return this.apiService.get<{ data: IWebhookDelivery[]; total: number }>(
+            `${this.getWebhookEndpoint(projectId, webhookId)}/deliveries`,
+            { page, pageSize },
+            { cache: false }
+        );
+    }
+
     /**
      * Subscribes to real-time project updates
      * @param projectId Project ID
@@ -192,9 +268,7 @@ export class ProjectService {
         projectId: string,
         callback: (update: ProjectUpdateEvent) => void
     ): () => void {
-        const channel = `project:${projectId}`;
-        this.socket.connect();
-        this.socket.emit('subscribe', { projectId });
+        const leave = realtimeService.join({ projectId });
 
         const handleUpdate = (update: ProjectUpdateEvent) => {
             if (update.projectId === projectId) {
@@ -209,33 +283,21 @@ export class ProjectService {
             }
         };
 
-        this.socket.on(channel, handleUpdate);
+        const off = realtimeService.on<ProjectUpdateEvent>('project.update', handleUpdate);
 
         return () => {
-            this.socket.off(channel, handleUpdate);
-            this.socket.emit('unsubscribe', { projectId });
+            off();
+            leave();
         };
     }
 
     /**
-     * Sets up WebSocket event listeners
+     * Builds the endpoint of a single webhook
      */
-    private setupSocketListeners(): void {
-        this.socket.on('connect', () => {
-            console.log('Connected to project updates');
-        });
-
-        this.socket.on('disconnect', () => {
-            console.log('Disconnected from project updates');
-        });
-
-        this.socket.on('error', (error) => {
-            console.error('Project socket error:', error);
-        });
-
-        this.socket.on('reconnect', (attemptNumber) => {
-            console.log(`Reconnected to project updates (attempt ${attemptNumber})`);
-        });
+    private getWebhookEndpoint(projectId: string, webhookId: string): string {
+        return API_ENDPOINTS.PROJECTS.WEBHOOK
+            .replace(':id', projectId)
+            .replace(':webhookId', webhookId);
     }
 }
 
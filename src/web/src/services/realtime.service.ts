@@ -0,0 +1,223 @@
+/**
+ * Realtime Service
+ * Single Socket.IO connection to the realtime service, shared by every
+ * feature that needs live updates. Room subscriptions are reference counted,
+ * restored on reconnect and resumed from the last event received.
+ * @version 1.0.0
+ */
+
+import { io, Socket } from 'socket.io-client'; // ^4.6.1
+
+import {
+  IRealtimeEventMeta,
+  IRealtimeSubscriptionAck,
+  RealtimeEventType,
+  RealtimeRoom
+} from '../interfaces/realtime.interface';
+
+const SOCKET_PATH = '/realtime';
+const RECONNECT_DELAY = 5000; // 5 seconds
+const USER_ROOM_PREFIX = 'user:';
+
+// Dispatched locally when a resume missed too much and data should be refetched
+export const RESYNC_EVENT = 'resync';
+
+type RealtimeListener<T = any> = (payload: T, meta?: IRealtimeEventMeta) => void;
+
+interface RoomSubscription {
+  room: RealtimeRoom;
+  count: number;
+}
+
+/**
+ * Names a room the way the server does
+ */
+const roomName = (room: RealtimeRoom): string => {
+  if ('projectId' in room) return `project:${room.projectId}`;
+  if ('taskId' in room) return `task:${room.taskId}`;
+  return `team:${room.teamId}`;
+};
+
+/**
+ * Orders two event ids ("<ms>-<seq>")
+ */
+const compareEventIds = (a: string, b: string): number => {
+  const [aTime, aSeq] = a.split('-').map(Number);
+  const [bTime, bSeq] = b.split('-').map(Number);
+  return aTime !== bTime ? aTime - bTime : aSeq - bSeq;
+};
+
+export class RealtimeService {
+  private readonly socket: Socket;
+  private readonly rooms = new Map<string, RoomSubscription>();
+  private readonly lastEventIds = new Map<string, string>();
+  private readonly listeners = new Map<string, Set<RealtimeListener>>();
+  private userEventId?: string;
+
+  constructor(url: string = process.env.REACT_APP_WS_URL || '') {
+    this.socket = io(url, {
+      path: SOCKET_PATH,
+      transports: ['websocket'],
+      autoConnect: false,
+      // Read on every connection attempt, so a refreshed token is picked up
+      auth: (callback) => callback({
+        token: localStorage.getItem('accessToken'),
+        lastEventId: this.userEventId
+      })
+    });
+
+    this.setupSocketListeners();
+  }
+
+  /**
+   * Subscribes to a project, task or team room
+   * @param room Room to join
+   * @returns Function that releases this subscription
+   */
+  public join(room: RealtimeRoom): () => void {
+    const name = roomName(room);
+    const subscription = this.rooms.get(name);
+
+    if (subscription) {
+      subscription.count++;
+    } else {
+      this.rooms.set(name, { room, count: 1 });
+      if (this.socket.connected) {
+        this.sendSubscribe(name, room);
+      }
+    }
+    this.ensureConnected();
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.leave(name);
+      }
+    };
+  }
+
+  /**
+   * Listens for an event from any joined room, or for RESYNC_EVENT
+   * @returns Function that removes the listener
+   */
+  public on<T>(event: RealtimeEventType | typeof RESYNC_EVENT, listener: RealtimeListener<T>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    this.ensureConnected();
+
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the socket is currently connected
+   */
+  public isConnected(): boolean {
+    return this.socket.connected;
+  }
+
+  /**
+   * Releases one subscription to a room, leaving it when none remain
+   */
+  private leave(name: string): void {
+    const subscription = this.rooms.get(name);
+    if (!subscription || --subscription.count > 0) return;
+
+    this.rooms.delete(name);
+    this.lastEventIds.delete(name);
+    if (this.socket.connected) {
+      this.socket.emit('unsubscribe', subscription.room);
+    }
+  }
+
+  /**
+   * Asks the server to join a room, resuming after the last event seen
+   */
+  private sendSubscribe(name: string, room: RealtimeRoom): void {
+    this.socket.emit(
+      'subscribe',
+      { ...room, lastEventId: this.lastEventIds.get(name) },
+      (ack: IRealtimeSubscriptionAck) => {
+        if (!ack.ok) {
+          console.error(`Realtime subscription to ${name} refused:`, ack.error);
+        } else if (ack.truncated) {
+          this.dispatch(RESYNC_EVENT, { room: name });
+        }
+      }
+    );
+  }
+
+  /**
+   * Passes an event to its listeners, dropping any already delivered. A
+   * replay and live events can overlap right after subscribing.
+   */
+  private dispatch(event: string, payload: any, meta?: IRealtimeEventMeta): void {
+    if (meta?.id && meta.room) {
+      if (meta.room.startsWith(USER_ROOM_PREFIX)) {
+        if (this.userEventId && compareEventIds(meta.id, this.userEventId) <= 0) return;
+        this.userEventId = meta.id;
+      } else {
+        // Rooms left since the event was sent are ignored
+        if (!this.rooms.has(meta.room)) return;
+
+        const lastEventId = this.lastEventIds.get(meta.room);
+        if (lastEventId && compareEventIds(meta.id, lastEventId) <= 0) return;
+        this.lastEventIds.set(meta.room, meta.id);
+      }
+    }
+
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(payload, meta);
+      } catch (error) {
+        console.error(`Realtime listener for ${event} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Opens the connection unless it is open or already being retried
+   */
+  private ensureConnected(): void {
+    if (!this.socket.active) {
+      this.socket.connect();
+    }
+  }
+
+  /**
+   * Sets up connection and event listeners
+   */
+  private setupSocketListeners(): void {
+    this.socket.onAny((event: string, payload: any, meta?: IRealtimeEventMeta) => {
+      this.dispatch(event, payload, meta);
+    });
+
+    // Restore room subscriptions after every (re)connect
+    this.socket.on('connect', () => {
+      this.rooms.forEach(({ room }, name) => this.sendSubscribe(name, room));
+    });
+
+    // The server closes the socket when the access token expires; reconnect
+    // with the current one. Socket.IO retries other disconnects by itself.
+    this.socket.on('disconnect', (reason) => {
+      if (reason === 'io server disconnect') {
+        this.socket.connect();
+      }
+    });
+
+    // A refused handshake is not retried automatically; try again while
+    // there is a token that may have been refreshed in the meantime
+    this.socket.on('connect_error', (error) => {
+      console.error('Realtime connection failed:', error.message);
+      if (!this.socket.active && localStorage.getItem('accessToken')) {
+        setTimeout(() => this.ensureConnected(), RECONNECT_DELAY);
+      }
+    });
+  }
+}
+
+export const realtimeService = new RealtimeService();
\ No newline at end of file
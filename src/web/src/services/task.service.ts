@@ -6,22 +6,31 @@
  */
 
 import { injectable } from 'inversify';
-import { Subject } from 'rxjs';
+import { Observable } from 'rxjs';
 import CircuitBreaker from 'opossum'; // ^7.0.0
 import axiosRetry from 'axios-retry'; // ^3.5.0
 import { CacheService } from '@nestjs/cache-manager'; // ^2.0.0
-import WebSocket from 'ws'; // ^8.0.0
 
 import { ApiService } from './api.service';
+import { realtimeService } from './realtime.service';
 import { 
   ITask, 
   TaskStatus, 
   TaskPriority, 
   ITaskComment, 
-  ITaskActivity,
+  ITaskCommentThread,
+  ITaskCommentEdit,
+  ITaskActivityPage,
+  TaskActivityType,
+  ITaskChecklistItem,
+  ITaskDependency,
+  ITaskDependencyGraph,
+  TaskDependencyType,
   CreateTaskPayload,
   UpdateTaskPayload,
-  TaskFilter
+  TaskFilter,
+  ISearchResponse,
+  SearchResultType
 } from '../interfaces/task.interface';
 import { API_ENDPOINTS } from '../constants/api.constants';
 
@@ -37,18 +46,12 @@ const CIRCUIT_BREAKER_OPTIONS = {
 
 @injectable()
 export class TaskService {
-  private readonly taskUpdates$ = new Subject<ITask>();
-  private readonly wsClient: WebSocket;
   private readonly circuitBreaker: CircuitBreaker;
 
   constructor(
     private readonly apiService: ApiService,
     private readonly cacheService: CacheService
   ) {
-    // Initialize WebSocket connection for real-time updates
-    this.wsClient = new WebSocket(`${process.env.REACT_APP_WS_URL}/tasks`);
-    this.setupWebSocket();
-
     // Configure circuit breaker for API calls
     this.circuitBreaker = new CircuitBreaker(this.makeRequest.bind(this), CIRCUIT_BREAKER_OPTIONS);
     
@@ -165,21 +168,21 @@ export class TaskService {
   }
 
   /**
-   * Retrieves task comments with caching
+   * Retrieves task comment threads with caching
    * @param taskId Task identifier
-   * @returns Promise resolving to task comments
+   * @returns Promise resolving to top-level comments with their replies
    */
-  public async getTaskComments(taskId: string): Promise<ITaskComment[]> {
+  public async getTaskComments(taskId: string): Promise<ITaskCommentThread[]> {
     const cacheKey = `task:${taskId}:comments`;
 
     try {
-      const cachedComments = await this.cacheService.get<ITaskComment[]>(cacheKey);
+      const cachedComments = await this.cacheService.get<ITaskCommentThread[]>(cacheKey);
       if (cachedComments) {
         return cachedComments;
       }
 
       const response = await this.circuitBreaker.fire(() =>
-        this.apiService.get<ITaskComment[]>(`${TASKS_ENDPOINT}/${taskId}/comments`)
+        this.apiService.get<ITaskCommentThread[]>(`${TASKS_ENDPOINT}/${taskId}/comments`)
       );
 
       if (response.success) {
@@ -195,14 +198,120 @@ export class TaskService {
   }
 
   /**
-   * Retrieves task activity history
+   * Adds a comment, or a reply when parentId is given
+   * @param taskId Task identifier
+   * @param content Markdown text; @email mentions notify project members
+   * @param parentId Comment being replied to
+   * @returns Promise resolving to created comment
+   */
+  public async addTaskComment(taskId: string, content: string, parentId?: string): Promise<ITaskComment> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.post<ITaskComment>(`${TASKS_ENDPOINT}/${taskId}/comments`, { content, parentId })
+      );
+
+      if (response.success) {
+        await this.cacheService.del(`task:${taskId}:comments`);
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to add comment');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edits one of the current user's comments
+   * @param taskId Task identifier
+   * @param commentId Comment identifier
+   * @param content New markdown text
+   * @returns Promise resolving to updated comment
+   */
+  public async updateTaskComment(taskId: string, commentId: string, content: string): Promise<ITaskComment> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.put<ITaskComment>(`${TASKS_ENDPOINT}/${taskId}/comments/${commentId}`, { content })
+      );
+
+      if (response.success) {
+        await this.cacheService.del(`task:${taskId}:comments`);
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to update comment');
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a comment
+   * @param taskId Task identifier
+   * @param commentId Comment identifier
+   * @returns Promise resolving to deletion status
+   */
+  public async deleteTaskComment(taskId: string, commentId: string): Promise<boolean> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.delete(`${TASKS_ENDPOINT}/${taskId}/comments/${commentId}`)
+      );
+
+      if (response.success) {
+        await this.cacheService.del(`task:${taskId}:comments`);
+        return true;
+      }
+
+      throw new Error(response.error || 'Failed to delete comment');
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the previous versions of a comment, newest first
+   * @param taskId Task identifier
+   * @param commentId Comment identifier
+   * @returns Promise resolving to comment edit history
+   */
+  public async getTaskCommentHistory(taskId: string, commentId: string): Promise<ITaskCommentEdit[]> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.get<ITaskCommentEdit[]>(`${TASKS_ENDPOINT}/${taskId}/comments/${commentId}/history`)
+      );
+
+      if (response.success) {
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to fetch comment history');
+    } catch (error) {
+      console.error('Error fetching comment history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a page of task activity history, newest first
    * @param taskId Task identifier
-   * @returns Promise resolving to task activities
+   * @param options Activity types to include and pagination
+   * @returns Promise resolving to a page of task activities
    */
-  public async getTaskActivity(taskId: string): Promise<ITaskActivity[]> {
+  public async getTaskActivity(
+    taskId: string,
+    options: { types?: TaskActivityType[]; limit?: number; offset?: number } = {}
+  ): Promise<ITaskActivityPage> {
     try {
+      const { types, ...params } = options;
       const response = await this.circuitBreaker.fire(() =>
-        this.apiService.get<ITaskActivity[]>(`${TASKS_ENDPOINT}/${taskId}/activity`)
+        this.apiService.get<ITaskActivityPage>(
+          `${TASKS_ENDPOINT}/${taskId}/activity`,
+          { ...params, ...(types?.length ? { types: types.join(',') } : {}) },
+          { cache: false }
+        )
       );
 
       if (response.success) {
@@ -217,34 +326,212 @@ export class TaskService {
   }
 
   /**
-   * Returns observable for real-time task updates
-   * @returns Subject emitting task updates
+   * Adds a checklist item to a task
+   * @param taskId Task identifier
+   * @param content Item text
+   * @returns Promise resolving to created checklist item
    */
-  public getTaskUpdates(): Subject<ITask> {
-    return this.taskUpdates$;
+  public async addChecklistItem(taskId: string, content: string): Promise<ITaskChecklistItem> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.post<ITaskChecklistItem>(`${TASKS_ENDPOINT}/${taskId}/checklist`, { content })
+      );
+
+      if (response.success) {
+        this.invalidateTasksCache();
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to add checklist item');
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      throw error;
+    }
   }
 
   /**
-   * Sets up WebSocket connection for real-time updates
+   * Edits or checks off a checklist item
+   * @param taskId Task identifier
+   * @param itemId Checklist item identifier
+   * @param changes Fields to change
+   * @returns Promise resolving to updated checklist item
    */
-  private setupWebSocket(): void {
-    this.wsClient.onmessage = (event) => {
-      try {
-        const task = JSON.parse(event.data) as ITask;
-        this.taskUpdates$.next(task);
+  public async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    changes: Partial<Pick<ITaskChecklistItem, 'content' | 'isCompleted' | 'position'>>
+  ): Promise<ITaskChecklistItem> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.patch<ITaskChecklistItem>(`${TASKS_ENDPOINT}/${taskId}/checklist/${itemId}`, changes)
+      );
+
+      if (response.success) {
         this.invalidateTasksCache();
-      } catch (error) {
-        console.error('Error processing WebSocket message:', error);
+        return response.data;
       }
-    };
 
-    this.wsClient.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
+      throw new Error(response.error || 'Failed to update checklist item');
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a checklist item from a task
+   * @param taskId Task identifier
+   * @param itemId Checklist item identifier
+   * @returns Promise resolving to removal status
+   */
+  public async removeChecklistItem(taskId: string, itemId: string): Promise<boolean> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.delete(`${TASKS_ENDPOINT}/${taskId}/checklist/${itemId}`)
+      );
+
+      if (response.success) {
+        this.invalidateTasksCache();
+        return true;
+      }
+
+      throw new Error(response.error || 'Failed to remove checklist item');
+    } catch (error) {
+      console.error('Error removing checklist item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search across tasks, projects and comments
+   * @param query Search text
+   * @param options Result types, project scope and pagination
+   * @returns Promise resolving to ranked results with highlighted snippets
+   */
+  public async search(
+    query: string,
+    options: { types?: SearchResultType[]; projectId?: string; limit?: number; offset?: number } = {}
+  ): Promise<ISearchResponse> {
+    try {
+      const { types, ...params } = options;
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.get<ISearchResponse>(
+          API_ENDPOINTS.TASKS.SEARCH,
+          { q: query, ...params, ...(types?.length ? { types: types.join(',') } : {}) },
+          { cache: false }
+        )
+      );
+
+      if (response.success) {
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to search');
+    } catch (error) {
+      console.error('Error searching:', error);
+      throw error;
+    }
+  }
 
-    this.wsClient.onclose = () => {
-      setTimeout(() => this.setupWebSocket(), 5000); // Reconnect after 5 seconds
-    };
+  /**
+   * Retrieves the dependency graph around a task
+   * @param taskId Task identifier
+   * @returns Promise resolving to dependency graph
+   */
+  public async getTaskDependencies(taskId: string): Promise<ITaskDependencyGraph> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.get<ITaskDependencyGraph>(`${TASKS_ENDPOINT}/${taskId}/dependencies`)
+      );
+
+      if (response.success) {
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to fetch task dependencies');
+    } catch (error) {
+      console.error('Error fetching task dependencies:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Links a task to another task
+   * @param taskId Source task identifier
+   * @param targetTaskId Target task identifier
+   * @param type Relationship type
+   * @returns Promise resolving to created dependency
+   */
+  public async addTaskDependency(
+    taskId: string,
+    targetTaskId: string,
+    type: TaskDependencyType
+  ): Promise<ITaskDependency> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.post<ITaskDependency>(`${TASKS_ENDPOINT}/${taskId}/dependencies`, {
+          targetTaskId,
+          type
+        })
+      );
+
+      if (response.success) {
+        return response.data;
+      }
+
+      throw new Error(response.error || 'Failed to add task dependency');
+    } catch (error) {
+      console.error('Error adding task dependency:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a dependency from a task
+   * @param taskId Task identifier
+   * @param dependencyId Dependency identifier
+   * @returns Promise resolving to removal status
+   */
+  public async removeTaskDependency(taskId: string, dependencyId: string): Promise<boolean> {
+    try {
+      const response = await this.circuitBreaker.fire(() =>
+        this.apiService.delete(`${TASKS_ENDPOINT}/${taskId}/dependencies/${dependencyId}`)
+      );
+
+      if (response.success) {
+        return true;
+      }
+
+      throw new Error(response.error || 'Failed to remove task dependency');
+    } catch (error) {
+      console.error('Error removing task dependency:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streams tasks created or updated in a project while subscribed
+   * @param projectId Project whose tasks to follow
+   * @returns Observable emitting each changed task
+   */
+  public getTaskUpdates(projectId: string): Observable<ITask> {
+    return new Observable<ITask>(subscriber => {
+      const handleTask = (task: ITask) => {
+        if (task.projectId !== projectId) return;
+        subscriber.next(task);
+        this.invalidateTasksCache();
+      };
+
+      const leave = realtimeService.join({ projectId });
+      const offCreated = realtimeService.on<ITask>('task.create', handleTask);
+      const offUpdated = realtimeService.on<ITask>('task.update', handleTask);
+
+      return () => {
+        offCreated();
+        offUpdated();
+        leave();
+      };
+    });
   }
 
   /**
@@ -6,16 +6,23 @@
  */
 
 import { ApiService } from './api.service';
-import { ITeam, ITeamMember, ITeamSettings, ITeamInvitation, TeamRole } from '../interfaces/team.interface';
+import {
+    ITeam,
+    ITeamMember,
+    ITeamSettings,
+    ITeamInvitation,
+    ITeamInvitationPreview,
+    ITeamInvitationRegistration,
+    TeamRole
+} from '../interfaces/team.interface';
 import { retry } from 'axios-retry'; // ^3.5.0
 import { debounce } from 'lodash'; // ^4.17.21
-import { io, Socket } from 'socket.io-client'; // ^4.5.0
+import { realtimeService } from './realtime.service';
 
 // Constants for configuration
 const BASE_URL = '/api/v1/teams';
 const MAX_RETRIES = 3;
 const CACHE_TTL = 300000; // 5 minutes
-const WS_CHANNEL = 'team-updates';
 
 /**
  * TeamService class for managing team-related operations
@@ -23,20 +30,14 @@ const WS_CHANNEL = 'team-updates';
  */
 export class TeamService {
     private readonly apiService: ApiService;
-    private readonly socket: Socket;
     private readonly updateSubscriptions: Map<string, Function>;
+    private readonly roomSubscriptions: Map<string, () => void>;
     private readonly debouncedSync: Function;
 
     constructor(apiService: ApiService) {
         this.apiService = apiService;
         this.updateSubscriptions = new Map();
-        
-        // Initialize WebSocket connection for real-time updates
-        this.socket = io(process.env.REACT_APP_WS_URL || '', {
-            path: '/team-updates',
-            transports: ['websocket'],
-            secure: true
-        });
+        this.roomSubscriptions = new Map();
 
         // Configure debounced sync for batch updates
         this.debouncedSync = debounce(this.syncTeamData.bind(this), 1000);
@@ -189,6 +190,85 @@ export class TeamService {
         return response.data;
     }
 
+    /**
+     * Retrieves a team's pending invitations
+     * @param teamId Team identifier
+     * @returns Promise resolving to pending invitations, newest first
+     */
+    public async getInvitations(teamId: string): Promise<ITeamInvitation[]> {
+        const response = await this.apiService.get<ITeamInvitation[]>(`${BASE_URL}/${teamId}/invitations`);
+        return response.data;
+    }
+
+    /**
+     * Emails a pending invitation again with a new link and expiry
+     * @param teamId Team identifier
+     * @param invitationId Invitation identifier
+     * @returns Promise resolving to the renewed invitation
+     */
+    public async resendInvitation(teamId: string, invitationId: string): Promise<ITeamInvitation> {
+        const response = await this.apiService.post<ITeamInvitation>(
+            `${BASE_URL}/${teamId}/invitations/${invitationId}/resend`,
+            {}
+        );
+        this.notifyTeamUpdate('invitation', response.data);
+        return response.data;
+    }
+
+    /**
+     * Revokes a pending invitation
+     * @param teamId Team identifier
+     * @param invitationId Invitation identifier
+     * @returns Promise resolving to operation success
+     */
+    public async revokeInvitation(teamId: string, invitationId: string): Promise<boolean> {
+        const response = await this.apiService.delete(
+            `${BASE_URL}/${teamId}/invitations/${invitationId}`
+        );
+        this.notifyTeamUpdate('invitationRevoke', { teamId, invitationId });
+        return response.success;
+    }
+
+    /**
+     * Describes the invitation behind an emailed link
+     * @param token Token from the invitation link
+     * @returns Promise resolving to the invitation preview
+     */
+    public async previewInvitation(token: string): Promise<ITeamInvitationPreview> {
+        const response = await this.apiService.post<ITeamInvitationPreview>(
+            `${BASE_URL}/invitations/preview`,
+            { token }
+        );
+        return response.data;
+    }
+
+    /**
+     * Accepts an invitation as the signed-in user, or registers to accept it
+     * @param token Token from the invitation link
+     * @param registration Account details when the invitee has no account
+     * @returns Promise resolving to the new membership
+     */
+    public async acceptInvitation(
+        token: string,
+        registration?: ITeamInvitationRegistration
+    ): Promise<{ member: ITeamMember; registered: boolean }> {
+        const response = await this.apiService.post<{ member: ITeamMember; registered: boolean }>(
+            `${BASE_URL}/invitations/accept`,
+            { token, ...registration }
+        );
+        return response.data;
+    }
+
+    /**
+     * Declines an invitation
+     * @param token Token from the invitation link
+     * @returns Promise resolving to operation success
+     */
+    public async rejectInvitation(token: string): Promise<boolean> {
+        const response = await this.apiService.post(`${BASE_URL}/invitations/reject`, { token });
+        return response.success;
+    }
+
     /**
      * Subscribes to real-time team updates
      * @param teamId Team identifier
@@ -196,7 +276,9 @@ export class TeamService {
      */
     public subscribeToTeamUpdates(teamId: string, callback: Function): void {
         this.updateSubscriptions.set(teamId, callback);
-        this.socket.emit('subscribe', { teamId });
+        if (!this.roomSubscriptions.has(teamId)) {
+            this.roomSubscriptions.set(teamId, realtimeService.join({ teamId }));
+        }
     }
 
     /**
@@ -205,7 +287,8 @@ export class TeamService {
      */
     public unsubscribeFromTeamUpdates(teamId: string): void {
         this.updateSubscriptions.delete(teamId);
-        this.socket.emit('unsubscribe', { teamId });
+        this.roomSubscriptions.get(teamId)?.();
+        this.roomSubscriptions.delete(teamId);
     }
 
     /**
@@ -213,34 +296,31 @@ export class TeamService {
      * @private
      */
     private setupWebSocketHandlers(): void {
-        this.socket.on('connect', () => {
-            console.log('Connected to team updates');
-        });
-
-        this.socket.on('teamUpdate', (update: any) => {
+        realtimeService.on<any>('team.update', (update) => {
             const callback = this.updateSubscriptions.get(update.teamId);
             if (callback) {
                 callback(update);
             }
             this.debouncedSync();
         });
-
-        this.socket.on('error', (error: any) => {
-            console.error('Team update socket error:', error);
-        });
     }
 
     /**
-     * Notifies subscribers of team updates
+     * Notifies local subscribers of a change made from this client; other
+     * clients hear about it from the realtime service
      * @private
      */
     private notifyTeamUpdate(type: string, data: any): void {
-        const update = {
-            type,
-            data,
-            timestamp: new Date().toISOString()
-        };
-        this.socket.emit('teamUpdate', update);
+        const teamId = data?.teamId ?? data?.id;
+        const callback = this.updateSubscriptions.get(teamId);
+        if (callback) {
+            callback({
+                type,
+                teamId,
+                data,
+                timestamp: new Date().toISOString()
+            });
+        }
     }
 
     /**
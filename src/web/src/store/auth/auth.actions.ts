@@ -16,7 +16,8 @@ import {
   ILoginCredentials,
   IAuthResponse,
   IAuthTokens,
-  MFAMethod
+  MFAMethod,
+  OAuthProvider
 } from '../../interfaces/auth.interface';
 
 // Security configuration
@@ -104,24 +105,29 @@ export const login = createAsyncThunk(
  */
 export const oauthLogin = createAsyncThunk(
   AuthActionTypes.OAUTH_LOGIN_REQUEST,
-  async (oauthCredentials: { code: string; state: string }, { rejectWithValue }) => {
+  async (
+    oauthCredentials: { provider: OAuthProvider; code: string; state: string },
+    { rejectWithValue }
+  ) => {
     try {
-      // Validate OAuth state parameter
+      // Validate OAuth state parameter; each state can only be used once
       const storedState = sessionStorage.getItem('oauth_state');
-      if (oauthCredentials.state !== storedState) {
+      sessionStorage.removeItem('oauth_state');
+      if (!storedState || oauthCredentials.state !== storedState) {
         throw new Error('Invalid OAuth state parameter');
       }
 
       const authService = new AuthService(null);
-      const response = await authService.verifyMFA(
+      const response = await authService.completeOAuthLogin(
+        oauthCredentials.provider,
         oauthCredentials.code,
-        MFAMethod.TOTP
+        oauthCredentials.state
       );
 
       // Log OAuth authentication
       securityLogger.info('OAuth login successful', {
         userId: response.user.id,
-        provider: 'oauth2'
+        provider: oauthCredentials.provider
       });
 
       return response;
@@ -135,6 +141,33 @@ export const oauthLogin = createAsyncThunk(
   }
 );
 
+/**
+ * SAML single sign-on action creator; redeems the ticket issued once the
+ * server has validated the identity provider's assertion
+ */
+export const samlLogin = createAsyncThunk(
+  AuthActionTypes.SAML_LOGIN_REQUEST,
+  async (samlCredentials: { ticket: string }, { rejectWithValue }) => {
+    try {
+      const authService = new AuthService(null);
+      const response = await authService.completeSamlLogin(samlCredentials.ticket);
+
+      securityLogger.info('SAML login successful', {
+        userId: response.user.id,
+        provider: 'saml'
+      });
+
+      return response;
+    } catch (error) {
+      securityLogger.error('SAML login failed', {
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
 /**
  * Session validation action creator with token refresh
  */
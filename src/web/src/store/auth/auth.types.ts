@@ -24,7 +24,9 @@ export enum AuthActionTypes {
   MFA_REQUIRED = '@auth/MFA_REQUIRED',
   MFA_VERIFY = '@auth/MFA_VERIFY',
   MFA_SUCCESS = '@auth/MFA_SUCCESS',
-  MFA_FAILURE = '@auth/MFA_FAILURE'
+  MFA_FAILURE = '@auth/MFA_FAILURE',
+  OAUTH_LOGIN_REQUEST = '@auth/OAUTH_LOGIN_REQUEST',
+  SAML_LOGIN_REQUEST = '@auth/SAML_LOGIN_REQUEST'
 }
 
 /**
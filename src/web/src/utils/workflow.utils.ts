@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Project workflow utility functions for the task board
+ * Mirrors the default backend workflow and evaluates transitions client-side
+ * @version 1.0.0
+ */
+
+import { TaskStatus } from '../interfaces/task.interface';
+import {
+  IProjectWorkflow,
+  IWorkflowStatus,
+  WorkflowStatusCategory
+} from '../interfaces/project.interface';
+
+/**
+ * Workflow used for projects without a configured workflow
+ */
+export const DEFAULT_PROJECT_WORKFLOW: IProjectWorkflow = {
+  initialStatus: TaskStatus.TODO,
+  statuses: [
+    { key: TaskStatus.TODO, name: 'To Do', category: WorkflowStatusCategory.TODO, order: 0 },
+    { key: TaskStatus.IN_PROGRESS, name: 'In Progress', category: WorkflowStatusCategory.IN_PROGRESS, order: 1 },
+    { key: TaskStatus.REVIEW, name: 'Review', category: WorkflowStatusCategory.IN_PROGRESS, order: 2 },
+    { key: TaskStatus.DONE, name: 'Done', category: WorkflowStatusCategory.DONE, order: 3 }
+  ],
+  transitions: [
+    { from: TaskStatus.TODO, to: TaskStatus.IN_PROGRESS },
+    { from: TaskStatus.IN_PROGRESS, to: TaskStatus.REVIEW },
+    { from: TaskStatus.IN_PROGRESS, to: TaskStatus.TODO },
+    { from: TaskStatus.REVIEW, to: TaskStatus.DONE },
+    { from: TaskStatus.REVIEW, to: TaskStatus.IN_PROGRESS },
+    { from: TaskStatus.DONE, to: TaskStatus.REVIEW }
+  ]
+};
+
+/**
+ * Default column colors per status category, as theme palette paths
+ */
+export const CATEGORY_COLORS: Record<WorkflowStatusCategory, string> = {
+  [WorkflowStatusCategory.TODO]: 'grey.500',
+  [WorkflowStatusCategory.IN_PROGRESS]: 'info.main',
+  [WorkflowStatusCategory.DONE]: 'success.main'
+};
+
+/**
+ * Returns workflow statuses in board column order
+ * @param workflow - Project workflow
+ * @returns Statuses sorted by their configured order
+ */
+export const getOrderedStatuses = (workflow: IProjectWorkflow): IWorkflowStatus[] =>
+  [...workflow.statuses].sort((a, b) => a.order - b.order);
+
+/**
+ * Checks whether the workflow defines a transition between two statuses.
+ * Guards are enforced by the task service, so a permitted move may still be rejected there.
+ * @param workflow - Project workflow
+ * @param from - Current status key
+ * @param to - Target status key
+ */
+export const canTransition = (workflow: IProjectWorkflow, from: string, to: string): boolean =>
+  from === to || workflow.transitions.some((transition) => transition.from === from && transition.to === to);
+
+/**
+ * Derives a workflow status key from a display name, e.g. "QA Review" → "QA_REVIEW"
+ * @param name - Status display name
+ */
+export const toStatusKey = (name: string): string =>
+  name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^[^A-Z]+|_+$/g, '').slice(0, 50);
+
+/**
+ * Returns the first structural problem in a workflow, or null when it can be saved
+ * @param workflow - Project workflow being edited
+ */
+export const getWorkflowError = (workflow: IProjectWorkflow): string | null => {
+  const keys = workflow.statuses.map((status) => status.key);
+
+  if (workflow.statuses.length === 0 || workflow.statuses.length > 20) {
+    return 'Workflow must have between 1 and 20 statuses';
+  }
+  if (keys.some((key) => !/^[A-Z][A-Z0-9_]{0,49}$/.test(key))) {
+    return 'Status names must start with a letter';
+  }
+  if (new Set(keys).size !== keys.length) {
+    return 'Status names must be unique';
+  }
+  if (!keys.includes(workflow.initialStatus)) {
+    return 'Initial status must be one of the workflow statuses';
+  }
+  if (!workflow.statuses.some((status) => status.category === WorkflowStatusCategory.DONE)) {
+    return 'At least one status must be in the Done category';
+  }
+  if (workflow.transitions.some(({ from, to }) => from === to || !keys.includes(from) || !keys.includes(to))) {
+    return 'Transitions must connect two different workflow statuses';
+  }
+  return null;
+};
\ No newline at end of file